@@ -0,0 +1,3 @@
+#!/usr/bin/env node
+const { FileSystemCheckRunner } = require('..');
+new FileSystemCheckRunner().runCliSync(process);
@@ -0,0 +1,3 @@
+#!/usr/bin/env node
+const { MigrationRunner } = require('..');
+new MigrationRunner().runCliSync(process);
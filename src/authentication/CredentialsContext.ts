@@ -0,0 +1,22 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { CredentialSet } from './Credentials';
+
+const storage = new AsyncLocalStorage<CredentialSet>();
+
+/**
+ * Calls the given function with the given credentials as the credentials of the current request.
+ * Everything that gets called within that function, such as the {@link DataAccessor} handling the request,
+ * can then find these credentials with {@link getRequestCredentials}
+ * without them having to be passed along through every component.
+ */
+export async function runWithCredentials<T>(credentials: CredentialSet, fn: () => Promise<T>): Promise<T> {
+  return storage.run(credentials, fn);
+}
+
+/**
+ * Returns the credentials of the request that is currently being handled,
+ * or `undefined` if this is not called while handling an authorized request.
+ */
+export function getRequestCredentials(): CredentialSet | undefined {
+  return storage.getStore();
+}
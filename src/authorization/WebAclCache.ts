@@ -0,0 +1,119 @@
+import type { EventEmitter } from 'events';
+import type { Store } from 'n3';
+import type { AuxiliaryIdentifierStrategy } from '../http/auxiliary/AuxiliaryIdentifierStrategy';
+import type { ResourceIdentifier } from '../http/representation/ResourceIdentifier';
+import { getLoggerFor } from '../logging/LogUtil';
+import { isContainerIdentifier } from '../util/PathUtil';
+
+function removeByPrefix(map: Map<string, unknown>, prefix: string): void {
+  for (const key of map.keys()) {
+    if (key.startsWith(prefix)) {
+      map.delete(key);
+    }
+  }
+}
+
+/**
+ * Caches the results of the {@link WebAclReader}:
+ * which ACL resource is the effective ACL resource of every resource,
+ * and the parsed contents of those ACL resources.
+ *
+ * Entries are removed when the `changed` event of the given {@link EventEmitter} is emitted
+ * for a resource that could have an impact on them.
+ * A change to an ACL resource, or to its subject resource, removes the contents of that ACL resource.
+ * For containers, this also includes all resources in the container,
+ * as a change to the ACL resource of a container can change the effective ACL resource of all of them.
+ * The emitter should emit the changes of all processes, such as the {@link ActivityRelay},
+ * so the cache stays valid if the server runs multithreaded.
+ *
+ * Results that were being determined while a change happened are not cached,
+ * as they might already be outdated.
+ * The least recently used entries are removed if there are more than the maximum amount of entries.
+ */
+export class WebAclCache {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly aclStrategy: AuxiliaryIdentifierStrategy;
+  private readonly maxEntries: number;
+
+  // The path of the effective ACL resource for every resource path
+  private readonly locations = new Map<string, string>();
+  // The parsed contents of every ACL resource path
+  private readonly stores = new Map<string, Store>();
+  // Increased on every change so results determined during a change can be discarded
+  private generation = 0;
+
+  /**
+   * @param aclStrategy - Used to find the subject resources of changed ACL resources.
+   * @param emitter - Emits a `changed` event for every changed resource.
+   * @param maxEntries - Maximum amount of entries of both the ACL locations and the ACL contents.
+   *                     Defaults to 10,000.
+   */
+  public constructor(aclStrategy: AuxiliaryIdentifierStrategy, emitter: EventEmitter, maxEntries = 10000) {
+    this.aclStrategy = aclStrategy;
+    this.maxEntries = maxEntries;
+
+    emitter.on('changed', (topic: ResourceIdentifier): void => this.invalidate(topic));
+  }
+
+  /**
+   * Returns the cached identifier of the effective ACL resource of the given resource,
+   * or caches the result of the given function if there is none.
+   */
+  public async getAclLocation(identifier: ResourceIdentifier, find: () => Promise<ResourceIdentifier>):
+  Promise<ResourceIdentifier> {
+    const path = await this.getOrFind(this.locations, identifier.path, async(): Promise<string> => (await find()).path);
+    return { path };
+  }
+
+  /**
+   * Returns the cached parsed contents of the given ACL resource,
+   * or caches the result of the given function if there is none.
+   * The returned store should not be modified.
+   */
+  public async getAclStore(acl: ResourceIdentifier, read: () => Promise<Store>): Promise<Store> {
+    return this.getOrFind(this.stores, acl.path, read);
+  }
+
+  private async getOrFind<T>(cache: Map<string, T>, key: string, find: () => Promise<T>): Promise<T> {
+    let value = cache.get(key);
+    if (value) {
+      // Mark the entry as most recently used
+      cache.delete(key);
+    } else {
+      const startGeneration = this.generation;
+      value = await find();
+      if (startGeneration !== this.generation) {
+        return value;
+      }
+    }
+    cache.set(key, value);
+    for (const oldKey of cache.keys()) {
+      if (cache.size <= this.maxEntries) {
+        break;
+      }
+      cache.delete(oldKey);
+    }
+    return value;
+  }
+
+  /**
+   * Removes all entries that could have been changed by a change to the given resource.
+   */
+  private invalidate(identifier: ResourceIdentifier): void {
+    this.generation += 1;
+    const subject = this.aclStrategy.isAuxiliaryIdentifier(identifier) ?
+      this.aclStrategy.getSubjectIdentifier(identifier) :
+      identifier;
+    this.logger.debug(`Removing the cached ACL data of ${subject.path}`);
+
+    if (isContainerIdentifier(subject)) {
+      // The ACL resources of all resources in the container also start with the path of the container
+      removeByPrefix(this.locations, subject.path);
+      removeByPrefix(this.stores, subject.path);
+    } else {
+      this.locations.delete(subject.path);
+      this.stores.delete(this.aclStrategy.getAuxiliaryIdentifier(subject).path);
+    }
+  }
+}
@@ -21,6 +21,7 @@ import type { AclPermission } from './permissions/AclPermission';
 import { AclMode } from './permissions/AclPermission';
 import type { PermissionMap } from './permissions/Permissions';
 import { AccessMode } from './permissions/Permissions';
+import type { WebAclCache } from './WebAclCache';
 
 // Maps WebACL-specific modes to generic access modes.
 const modesMap: Record<string, Readonly<(keyof AclPermission)[]>> = {
@@ -36,6 +37,9 @@ const modesMap: Record<string, Readonly<(keyof AclPermission)[]>> = {
  * or applying control permissions for ACL resources.
  *
  * Specific access checks are done by the provided {@link AccessChecker}.
+ *
+ * In case a {@link WebAclCache} is provided, the effective ACL resources and their parsed contents are cached,
+ * so these do not have to be determined again for every request.
  */
 export class WebAclReader extends PermissionReader {
   protected readonly logger = getLoggerFor(this);
@@ -45,15 +49,17 @@ export class WebAclReader extends PermissionReader {
   private readonly aclStore: ResourceStore;
   private readonly identifierStrategy: IdentifierStrategy;
   private readonly accessChecker: AccessChecker;
+  private readonly cache?: WebAclCache;
 
   public constructor(aclStrategy: AuxiliaryIdentifierStrategy, resourceSet: ResourceSet, aclStore: ResourceStore,
-    identifierStrategy: IdentifierStrategy, accessChecker: AccessChecker) {
+    identifierStrategy: IdentifierStrategy, accessChecker: AccessChecker, cache?: WebAclCache) {
     super();
     this.aclStrategy = aclStrategy;
     this.resourceSet = resourceSet;
     this.aclStore = aclStore;
     this.identifierStrategy = identifierStrategy;
     this.accessChecker = accessChecker;
+    this.cache = cache;
   }
 
   /**
@@ -158,6 +164,16 @@ export class WebAclReader extends PermissionReader {
    * @returns The {@link ResourceIdentifier} of the relevant ACL document.
    */
   private async getAclRecursive(identifier: ResourceIdentifier): Promise<ResourceIdentifier> {
+    if (this.cache) {
+      return this.cache.getAclLocation(identifier, async(): Promise<ResourceIdentifier> => this.findAcl(identifier));
+    }
+    return this.findAcl(identifier);
+  }
+
+  /**
+   * Performs a single step of {@link getAclRecursive} without using the cache.
+   */
+  private async findAcl(identifier: ResourceIdentifier): Promise<ResourceIdentifier> {
     // Obtain the direct ACL document for the resource, if it exists
     this.logger.debug(`Trying to read the direct ACL document of ${identifier.path}`);
 
@@ -195,16 +211,9 @@ export class WebAclReader extends PermissionReader {
     for (const [ aclIdentifier, matchedTargets ] of map.entrySets()) {
       const subject = this.aclStrategy.getSubjectIdentifier(aclIdentifier);
       this.logger.debug(`Trying to read the ACL document ${aclIdentifier.path}`);
-      let contents: Store;
-      try {
-        const data = await this.aclStore.getRepresentation(aclIdentifier, { type: { [INTERNAL_QUADS]: 1 }});
-        contents = await readableToQuads(data.data);
-      } catch (error: unknown) {
-        // Something is wrong with the server if we can't read the resource
-        const message = `Error reading ACL resource ${aclIdentifier.path}: ${createErrorMessage(error)}`;
-        this.logger.error(message);
-        throw new InternalServerError(message, { cause: error });
-      }
+      const contents = this.cache ?
+        await this.cache.getAclStore(aclIdentifier, async(): Promise<Store> => this.readAcl(aclIdentifier)) :
+        await this.readAcl(aclIdentifier);
 
       // SubjectIdentifiers are those that match the subject identifier of the found ACL document (so max 1).
       // Due to how the effective ACL document is found, all other identifiers must be (transitive) children.
@@ -226,6 +235,21 @@ export class WebAclReader extends PermissionReader {
     return result;
   }
 
+  /**
+   * Reads the contents of the given ACL resource.
+   */
+  private async readAcl(aclIdentifier: ResourceIdentifier): Promise<Store> {
+    try {
+      const data = await this.aclStore.getRepresentation(aclIdentifier, { type: { [INTERNAL_QUADS]: 1 }});
+      return await readableToQuads(data.data);
+    } catch (error: unknown) {
+      // Something is wrong with the server if we can't read the resource
+      const message = `Error reading ACL resource ${aclIdentifier.path}: ${createErrorMessage(error)}`;
+      this.logger.error(message);
+      throw new InternalServerError(message, { cause: error });
+    }
+  }
+
   /**
    * Extracts all rules from the store that are relevant for the given target,
    * based on either the `acl:accessTo` or `acl:default` predicates.
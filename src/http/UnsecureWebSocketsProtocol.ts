@@ -1,36 +1,86 @@
 import { EventEmitter } from 'events';
 import type { TLSSocket } from 'tls';
 import type { WebSocket } from 'ws';
-import type { SingleThreaded } from '../init/cluster/SingleThreaded';
+import type { CredentialSet } from '../authentication/Credentials';
+import type { CredentialsExtractor } from '../authentication/CredentialsExtractor';
+import type { Authorizer } from '../authorization/Authorizer';
+import type { PermissionReader } from '../authorization/PermissionReader';
+import { AccessMode } from '../authorization/permissions/Permissions';
 import { getLoggerFor } from '../logging/LogUtil';
 import type { HttpRequest } from '../server/HttpRequest';
 import { WebSocketHandler } from '../server/WebSocketHandler';
+import { createErrorMessage } from '../util/errors/ErrorUtil';
+import { InternalServerError } from '../util/errors/InternalServerError';
 import { parseForwarded } from '../util/HeaderUtil';
+import { IdentifierSetMultiMap } from '../util/map/IdentifierMap';
 import { splitCommaSeparated } from '../util/StringUtil';
+import type { AuxiliaryIdentifierStrategy } from './auxiliary/AuxiliaryIdentifierStrategy';
 import type { ResourceIdentifier } from './representation/ResourceIdentifier';
 
 const VERSION = 'solid-0.1';
 
+/**
+ * Determines whether WebSocket clients are allowed to receive updates about resources.
+ */
+interface SubscriptionAuthorizer {
+  /**
+   * Extracts the credentials from the given request.
+   * Returns empty credentials if they could not be determined.
+   */
+  extractCredentials: (request: HttpRequest) => Promise<CredentialSet>;
+  /**
+   * Returns whether the given credentials allow reading the given resource.
+   */
+  canRead: (credentials: CredentialSet, identifier: ResourceIdentifier) => Promise<boolean>;
+}
+
+/**
+ * A resource a {@link WebSocketListener} is subscribed to.
+ */
+interface Subscription {
+  /**
+   * The credentials used to create the subscription.
+   */
+  credentials: Promise<CredentialSet>;
+  /**
+   * Caches whether the credentials allow reading the resource.
+   * Undefined if this needs to be (re-)evaluated.
+   */
+  allowed?: Promise<boolean>;
+}
+
 /**
  * Implementation of Solid WebSockets API Spec solid-0.1
  * at https://github.com/solid/solid-spec/blob/master/api-websockets.md
+ *
+ * In case a {@link SubscriptionAuthorizer} is provided,
+ * clients only receive updates about resources they are allowed to read.
+ * The credentials are taken from the upgrade request,
+ * unless a subscription message contains an authorization value after the URL, e.g. `sub <url> Bearer <token>`.
  */
 class WebSocketListener extends EventEmitter {
   private host = '';
   private protocol = '';
+  private upgradeRequest?: HttpRequest;
+  private credentials?: Promise<CredentialSet>;
   private readonly socket: WebSocket;
-  private readonly subscribedPaths = new Set<string>();
+  private readonly authorizer?: SubscriptionAuthorizer;
+  private readonly subscriptions = new Map<string, Subscription>();
   private readonly logger = getLoggerFor(this);
 
-  public constructor(socket: WebSocket) {
+  public constructor(socket: WebSocket, authorizer?: SubscriptionAuthorizer) {
     super();
     this.socket = socket;
+    this.authorizer = authorizer;
     socket.addListener('error', (): void => this.stop());
     socket.addListener('close', (): void => this.stop());
     socket.addListener('message', (message: string): void => this.onMessage(message));
   }
 
-  public start({ headers, socket }: HttpRequest): void {
+  public start(upgradeRequest: HttpRequest): void {
+    const { headers, socket } = upgradeRequest;
+    this.upgradeRequest = upgradeRequest;
+
     // Greet the client
     this.sendMessage('protocol', VERSION);
 
@@ -58,14 +108,43 @@ class WebSocketListener extends EventEmitter {
     } catch {
       // Ignore
     }
-    this.subscribedPaths.clear();
+    this.subscriptions.clear();
     this.socket.removeAllListeners();
     this.emit('closed');
   }
 
-  public onResourceChanged({ path }: ResourceIdentifier): void {
-    if (this.subscribedPaths.has(path)) {
-      this.sendMessage('pub', path);
+  public onResourceChanged(identifier: ResourceIdentifier): void {
+    const subscription = this.subscriptions.get(identifier.path);
+    if (!subscription) {
+      return;
+    }
+    if (!this.authorizer) {
+      this.sendMessage('pub', identifier.path);
+      return;
+    }
+
+    const allowed = subscription.allowed ?? this.canRead(subscription.credentials, identifier.path);
+    subscription.allowed = allowed;
+    allowed.then((isAllowed): void => {
+      // Silently drop events about resources the client is no longer allowed to read
+      if (isAllowed && this.subscriptions.get(identifier.path) === subscription) {
+        this.sendMessage('pub', identifier.path);
+      }
+    }).catch((error): void => {
+      // Make sure the permissions are evaluated again on the next change
+      if (subscription.allowed === allowed) {
+        delete subscription.allowed;
+      }
+      this.logger.error(`Unable to notify WebSocket about ${identifier.path}: ${createErrorMessage(error)}`);
+    });
+  }
+
+  /**
+   * Forces all subscriptions to re-evaluate their permissions the next time they receive an update.
+   */
+  public invalidatePermissions(): void {
+    for (const subscription of this.subscriptions.values()) {
+      delete subscription.allowed;
     }
   }
 
@@ -88,27 +167,88 @@ class WebSocketListener extends EventEmitter {
     }
   }
 
-  private subscribe(path: string): void {
+  private subscribe(value: string): void {
+    const [ path, authorization ] = this.splitSubscription(value);
+    let url: string;
     try {
-      // Resolve and verify the URL
-      const resolved = new URL(path, `${this.protocol}${this.host}`);
-      if (resolved.host !== this.host) {
-        throw new Error(`Mismatched host: expected ${this.host} but got ${resolved.host}`);
-      }
-      if (resolved.protocol !== this.protocol) {
-        throw new Error(`Mismatched protocol: expected ${this.protocol} but got ${resolved.protocol}`);
-      }
-      // Subscribe to the URL
-      const url = resolved.href;
-      this.subscribedPaths.add(url);
-      this.sendMessage('ack', url);
-      this.logger.debug(`WebSocket subscribed to changes on ${url}`);
+      url = this.resolveUrl(path);
     } catch (error: unknown) {
       // Report errors to the socket
-      const errorText: string = (error as any).message;
+      const errorText = createErrorMessage(error);
       this.sendMessage('error', errorText);
       this.logger.warn(`WebSocket could not subscribe to ${path}: ${errorText}`);
+      return;
+    }
+
+    if (!this.authorizer) {
+      this.addSubscription(url, { credentials: Promise.resolve({}) });
+      return;
     }
+
+    const credentials = authorization ? this.extractCredentials(authorization) : this.getConnectionCredentials();
+    const allowed = this.canRead(credentials, url);
+    allowed.then((isAllowed): void => {
+      if (isAllowed) {
+        this.addSubscription(url, { credentials, allowed });
+      } else {
+        this.sendMessage('error', `Not allowed to subscribe to ${url}`);
+        this.logger.warn(`WebSocket is not allowed to subscribe to ${url}`);
+      }
+    }).catch((error): void => {
+      this.sendMessage('error', `Unable to subscribe to ${url}`);
+      this.logger.error(`Unable to handle WebSocket subscription to ${url}: ${createErrorMessage(error)}`);
+    });
+  }
+
+  /**
+   * Splits the value of a subscription message into the URL and the optional authorization value.
+   */
+  private splitSubscription(value: string): [ string, string? ] {
+    const match = /^(\S+)\s+(.+)$/u.exec(value);
+    return match ? [ match[1], match[2] ] : [ value ];
+  }
+
+  /**
+   * Resolves the URL relative to the host of the connection
+   * and verifies it targets the same host with the same protocol.
+   */
+  private resolveUrl(path: string): string {
+    const resolved = new URL(path, `${this.protocol}${this.host}`);
+    if (resolved.host !== this.host) {
+      throw new Error(`Mismatched host: expected ${this.host} but got ${resolved.host}`);
+    }
+    if (resolved.protocol !== this.protocol) {
+      throw new Error(`Mismatched protocol: expected ${this.protocol} but got ${resolved.protocol}`);
+    }
+    return resolved.href;
+  }
+
+  private addSubscription(url: string, subscription: Subscription): void {
+    this.subscriptions.set(url, subscription);
+    this.sendMessage('ack', url);
+    this.logger.debug(`WebSocket subscribed to changes on ${url}`);
+  }
+
+  /**
+   * Returns the credentials of the upgrade request, which are only determined once per connection.
+   */
+  private async getConnectionCredentials(): Promise<CredentialSet> {
+    this.credentials = this.credentials ?? this.authorizer!.extractCredentials(this.upgradeRequest!);
+    return this.credentials;
+  }
+
+  /**
+   * Determines the credentials based on the authorization value of a subscription message.
+   * All other relevant values are taken from the upgrade request.
+   */
+  private async extractCredentials(authorization: string): Promise<CredentialSet> {
+    const { method, url, headers } = this.upgradeRequest!;
+    const request = { method, url, headers: { ...headers, authorization }} as HttpRequest;
+    return this.authorizer!.extractCredentials(request);
+  }
+
+  private async canRead(credentials: Promise<CredentialSet>, path: string): Promise<boolean> {
+    return this.authorizer!.canRead(await credentials, { path });
   }
 
   private sendMessage(type: string, value: string): void {
@@ -119,22 +259,46 @@ class WebSocketListener extends EventEmitter {
 /**
  * Provides live update functionality following
  * the Solid WebSockets API Spec solid-0.1
+ *
+ * In case a {@link CredentialsExtractor}, {@link PermissionReader} and {@link Authorizer} are provided,
+ * clients can only subscribe to resources they are allowed to read,
+ * and only receive updates for as long as they are allowed to read them.
+ * Permissions are re-evaluated whenever an auxiliary resource, such as an ACL resource, changes,
+ * as determined by the {@link AuxiliaryIdentifierStrategy}.
  */
-export class UnsecureWebSocketsProtocol extends WebSocketHandler implements SingleThreaded {
+export class UnsecureWebSocketsProtocol extends WebSocketHandler {
   private readonly logger = getLoggerFor(this);
   private readonly listeners = new Set<WebSocketListener>();
+  private readonly authorizer?: SubscriptionAuthorizer;
+  private readonly auxiliaryStrategy?: AuxiliaryIdentifierStrategy;
 
-  public constructor(source: EventEmitter) {
+  public constructor(source: EventEmitter, credentialsExtractor?: CredentialsExtractor,
+    permissionReader?: PermissionReader, authorizer?: Authorizer, auxiliaryStrategy?: AuxiliaryIdentifierStrategy) {
     super();
 
-    this.logger.warn('The chosen configuration includes Solid WebSockets API 0.1, which is unauthenticated.');
+    if (credentialsExtractor && permissionReader && authorizer && auxiliaryStrategy) {
+      this.authorizer = {
+        extractCredentials: async(request): Promise<CredentialSet> =>
+          this.extractCredentials(credentialsExtractor, request),
+        canRead: async(credentials, identifier): Promise<boolean> =>
+          this.canRead(permissionReader, authorizer, credentials, identifier),
+      };
+      this.auxiliaryStrategy = auxiliaryStrategy;
+    } else if (credentialsExtractor ?? permissionReader ?? authorizer ?? auxiliaryStrategy) {
+      throw new InternalServerError(
+        'Authorizing WebSocket subscriptions requires a CredentialsExtractor, PermissionReader, Authorizer ' +
+        'and AuxiliaryIdentifierStrategy.',
+      );
+    } else {
+      this.logger.warn('The chosen configuration includes Solid WebSockets API 0.1, which is unauthenticated.');
+    }
     this.logger.warn('This component will be removed from default configurations in future versions.');
 
     source.on('changed', (changed: ResourceIdentifier): void => this.onResourceChanged(changed));
   }
 
   public async handle(input: { webSocket: WebSocket; upgradeRequest: HttpRequest }): Promise<void> {
-    const listener = new WebSocketListener(input.webSocket);
+    const listener = new WebSocketListener(input.webSocket, this.authorizer);
     this.listeners.add(listener);
     this.logger.info(`New WebSocket added, ${this.listeners.size} in total`);
 
@@ -146,8 +310,35 @@ export class UnsecureWebSocketsProtocol extends WebSocketHandler implements Sing
   }
 
   private onResourceChanged(changed: ResourceIdentifier): void {
+    // Changes to auxiliary resources, such as ACL resources, can change the permissions of all subscriptions
+    const invalidate = this.auxiliaryStrategy?.isAuxiliaryIdentifier(changed);
     for (const listener of this.listeners) {
+      if (invalidate) {
+        listener.invalidatePermissions();
+      }
       listener.onResourceChanged(changed);
     }
   }
+
+  private async extractCredentials(credentialsExtractor: CredentialsExtractor, request: HttpRequest):
+  Promise<CredentialSet> {
+    try {
+      return await credentialsExtractor.handleSafe(request);
+    } catch (error: unknown) {
+      this.logger.warn(`Unable to extract WebSocket credentials: ${createErrorMessage(error)}`);
+      return {};
+    }
+  }
+
+  private async canRead(permissionReader: PermissionReader, authorizer: Authorizer, credentials: CredentialSet,
+    identifier: ResourceIdentifier): Promise<boolean> {
+    const requestedModes = new IdentifierSetMultiMap<AccessMode>([[ identifier, AccessMode.read ]]);
+    const availablePermissions = await permissionReader.handleSafe({ credentials, requestedModes });
+    try {
+      await authorizer.handleSafe({ credentials, requestedModes, availablePermissions });
+      return true;
+    } catch {
+      return false;
+    }
+  }
 }
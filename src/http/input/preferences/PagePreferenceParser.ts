@@ -0,0 +1,40 @@
+import { getLoggerFor } from '../../../logging/LogUtil';
+import type { HttpRequest } from '../../../server/HttpRequest';
+import type { RepresentationPreferences } from '../../representation/RepresentationPreferences';
+import { PreferenceParser } from './PreferenceParser';
+
+/**
+ * Extracts the requested page of container children from the query parameters of an incoming {@link HttpRequest}.
+ * The `limit` parameter determines the maximum number of children in the page,
+ * and the optional `after` parameter is the identifier of the last child of the previous page.
+ *
+ * Only GET and HEAD requests are taken into account,
+ * and the parameters are ignored if the limit is not a positive integer.
+ * This requires the identifier of the resource to not include the query string.
+ */
+export class PagePreferenceParser extends PreferenceParser {
+  protected readonly logger = getLoggerFor(this);
+
+  public async handle({ request: { method, url }}: { request: HttpRequest }): Promise<RepresentationPreferences> {
+    if ((method !== 'GET' && method !== 'HEAD') || !url?.includes('?')) {
+      return {};
+    }
+
+    const { searchParams } = new URL(url, 'http://localhost/');
+    const limit = searchParams.get('limit');
+    if (!limit) {
+      return {};
+    }
+    if (!/^\d+$/u.test(limit) || Number(limit) === 0) {
+      this.logger.debug(`Ignoring invalid page limit ${limit}`);
+      return {};
+    }
+
+    const preferences: RepresentationPreferences = { page: { limit: Number(limit) }};
+    const after = searchParams.get('after');
+    if (after) {
+      preferences.page!.after = after;
+    }
+    return preferences;
+  }
+}
@@ -0,0 +1,67 @@
+import { getLoggerFor } from '../../../logging/LogUtil';
+import type { HttpRequest } from '../../../server/HttpRequest';
+import { createErrorMessage } from '../../../util/errors/ErrorUtil';
+import { splitAndClean, transformQuotedStrings } from '../../../util/HeaderUtil';
+import type { RepresentationPreferences, ReturnPreference } from '../../representation/RepresentationPreferences';
+import { PreferenceParser } from './PreferenceParser';
+
+/**
+ * Extracts the `return` preference from the Prefer header of an incoming {@link HttpRequest},
+ * together with the `include` and `omit` parameters as used by the LDP specification.
+ * The values of these parameters are interpreted as space-separated lists of IRIs.
+ *
+ * Following RFC 7240, only the first `return` preference is taken into account,
+ * and the header is ignored if it can not be parsed.
+ */
+export class PreferPreferenceParser extends PreferenceParser {
+  protected readonly logger = getLoggerFor(this);
+
+  public async handle({ request: { headers }}: { request: HttpRequest }): Promise<RepresentationPreferences> {
+    const { prefer } = headers;
+    if (!prefer) {
+      return {};
+    }
+
+    let parsed: { result: string; replacements: Record<string, string> };
+    try {
+      parsed = transformQuotedStrings(Array.isArray(prefer) ? prefer.join(',') : prefer);
+    } catch (error: unknown) {
+      this.logger.debug(`Ignoring invalid Prefer header ${prefer}: ${createErrorMessage(error)}`);
+      return {};
+    }
+
+    for (const preference of splitAndClean(parsed.result)) {
+      const [ main, ...parameters ] = preference.split(';');
+      const { name, value } = this.parseParameter(main, parsed.replacements);
+      if (name === 'return') {
+        return { return: this.parseReturnPreference(value, parameters, parsed.replacements) };
+      }
+    }
+    return {};
+  }
+
+  /**
+   * Creates a {@link ReturnPreference} based on the value and parameters of a `return` preference.
+   */
+  private parseReturnPreference(value: string, parameters: string[], replacements: Record<string, string>):
+  ReturnPreference {
+    const result: ReturnPreference = { value, include: [], omit: []};
+    for (const parameter of parameters) {
+      const { name, value: iris } = this.parseParameter(parameter, replacements);
+      if (name === 'include' || name === 'omit') {
+        result[name].push(...iris.split(/\s+/u).filter(Boolean));
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Splits a `name=value` string into its (lowercase) name and its value,
+   * in which quoted strings get replaced by their original value.
+   */
+  private parseParameter(input: string, replacements: Record<string, string>): { name: string; value: string } {
+    const [ name, ...rest ] = input.split('=');
+    const value = rest.join('=').trim();
+    return { name: name.trim().toLowerCase(), value: replacements[value] ?? value };
+  }
+}
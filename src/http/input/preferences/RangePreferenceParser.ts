@@ -0,0 +1,69 @@
+import { getLoggerFor } from '../../../logging/LogUtil';
+import type { HttpRequest } from '../../../server/HttpRequest';
+import type { RangePart, RepresentationPreferences } from '../../representation/RepresentationPreferences';
+import { PreferenceParser } from './PreferenceParser';
+
+const rangeHeader = /^\s*([!#$%&'*+\-.^_`|~0-9A-Za-z]+)\s*=(.*)$/u;
+const rangePart = /^(\d*)-(\d*)$/u;
+
+/**
+ * Extracts the requested ranges from the Range header of an incoming {@link HttpRequest},
+ * together with the value of the If-Range header.
+ *
+ * Following RFC 9110, the Range header is ignored for all methods other than GET,
+ * and when it is not valid.
+ */
+export class RangePreferenceParser extends PreferenceParser {
+  protected readonly logger = getLoggerFor(this);
+
+  public async handle({ request: { headers, method }}: { request: HttpRequest }): Promise<RepresentationPreferences> {
+    const { range } = headers;
+    if (method !== 'GET' || typeof range !== 'string') {
+      return {};
+    }
+
+    const match = rangeHeader.exec(range);
+    const parts = match && this.parseParts(match[2]);
+    if (!parts) {
+      this.logger.debug(`Ignoring invalid Range header ${range}`);
+      return {};
+    }
+
+    const preferences: RepresentationPreferences = { range: { unit: match[1].toLowerCase(), parts }};
+    const ifRange = headers['if-range'];
+    if (typeof ifRange === 'string' && ifRange.trim().length > 0) {
+      preferences.range!.ifRange = ifRange.trim();
+    }
+    return preferences;
+  }
+
+  /**
+   * Parses the comma-separated ranges of a Range header.
+   * Returns `undefined` if any of them is invalid.
+   */
+  private parseParts(input: string): RangePart[] | undefined {
+    const parts: RangePart[] = [];
+    for (const value of input.split(',').map((part): string => part.trim()).filter(Boolean)) {
+      const match = rangePart.exec(value);
+      if (!match || (!match[1] && !match[2])) {
+        return;
+      }
+      if (!match[1]) {
+        // Suffix ranges are represented by a negative start, a suffix of length 0 is not valid
+        const suffix = Number(match[2]);
+        if (suffix === 0) {
+          return;
+        }
+        parts.push({ start: -suffix });
+        continue;
+      }
+      const start = Number(match[1]);
+      const end = match[2] ? Number(match[2]) : undefined;
+      if (typeof end === 'number' && end < start) {
+        return;
+      }
+      parts.push({ start, end });
+    }
+    return parts.length > 0 ? parts : undefined;
+  }
+}
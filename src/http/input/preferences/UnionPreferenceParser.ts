@@ -0,0 +1,18 @@
+import { UnionHandler } from '../../../util/handlers/UnionHandler';
+import type { RepresentationPreferences } from '../../representation/RepresentationPreferences';
+import type { PreferenceParser } from './PreferenceParser';
+
+/**
+ * Combines the results of multiple {@link PreferenceParser}s.
+ * If multiple parsers return a value for the same preference dimension,
+ * the last result will be used.
+ */
+export class UnionPreferenceParser extends UnionHandler<PreferenceParser> {
+  public constructor(parsers: PreferenceParser[]) {
+    super(parsers, true, false);
+  }
+
+  public async combine(results: RepresentationPreferences[]): Promise<RepresentationPreferences> {
+    return Object.assign({}, ...results);
+  }
+}
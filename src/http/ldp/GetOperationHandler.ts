@@ -1,6 +1,10 @@
 import type { ResourceStore } from '../../storage/ResourceStore';
 import { NotImplementedHttpError } from '../../util/errors/NotImplementedHttpError';
+import { matchesReadConditions } from '../../util/ResourceUtil';
+import { SOLID_HTTP } from '../../util/Vocabularies';
+import { NotModifiedResponseDescription } from '../output/response/NotModifiedResponseDescription';
 import { OkResponseDescription } from '../output/response/OkResponseDescription';
+import { PartialContentResponseDescription } from '../output/response/PartialContentResponseDescription';
 import type { ResponseDescription } from '../output/response/ResponseDescription';
 import type { OperationHandlerInput } from './OperationHandler';
 import { OperationHandler } from './OperationHandler';
@@ -8,6 +12,8 @@ import { OperationHandler } from './OperationHandler';
 /**
  * Handles GET {@link Operation}s.
  * Calls the getRepresentation function from a {@link ResourceStore}.
+ * Returns a 206 response in case the store only returned the requested ranges of the representation,
+ * and a 304 response in case the conditions show the client already has the current representation.
  */
 export class GetOperationHandler extends OperationHandler {
   private readonly store: ResourceStore;
@@ -25,7 +31,13 @@ export class GetOperationHandler extends OperationHandler {
 
   public async handle({ operation }: OperationHandlerInput): Promise<ResponseDescription> {
     const body = await this.store.getRepresentation(operation.target, operation.preferences, operation.conditions);
+    if (!matchesReadConditions(body, operation.conditions)) {
+      return new NotModifiedResponseDescription(body.metadata);
+    }
 
+    if (body.metadata.has(SOLID_HTTP.terms.unit)) {
+      return new PartialContentResponseDescription(body.metadata, body.data);
+    }
     return new OkResponseDescription(body.metadata, body.data);
   }
 }
@@ -1,5 +1,7 @@
 import type { ResourceStore } from '../../storage/ResourceStore';
 import { NotImplementedHttpError } from '../../util/errors/NotImplementedHttpError';
+import { matchesReadConditions } from '../../util/ResourceUtil';
+import { NotModifiedResponseDescription } from '../output/response/NotModifiedResponseDescription';
 import { OkResponseDescription } from '../output/response/OkResponseDescription';
 import type { ResponseDescription } from '../output/response/ResponseDescription';
 import type { OperationHandlerInput } from './OperationHandler';
@@ -8,6 +10,7 @@ import { OperationHandler } from './OperationHandler';
 /**
  * Handles HEAD {@link Operation}s.
  * Calls the getRepresentation function from a {@link ResourceStore}.
+ * Returns a 304 response in case the conditions show the client already has the current representation.
  */
 export class HeadOperationHandler extends OperationHandler {
   private readonly store: ResourceStore;
@@ -25,6 +28,9 @@ export class HeadOperationHandler extends OperationHandler {
 
   public async handle({ operation }: OperationHandlerInput): Promise<ResponseDescription> {
     const body = await this.store.getRepresentation(operation.target, operation.preferences, operation.conditions);
+    if (!matchesReadConditions(body, operation.conditions)) {
+      return new NotModifiedResponseDescription(body.metadata);
+    }
 
     // Close the Readable as we will not return it.
     body.data.destroy();
@@ -0,0 +1,70 @@
+import { getLoggerFor } from '../../logging/LogUtil';
+import type { QuotaStrategy } from '../../storage/quota/QuotaStrategy';
+import type { Size } from '../../storage/size-reporter/Size';
+import { createErrorMessage } from '../../util/errors/ErrorUtil';
+import { toLiteral } from '../../util/TermUtil';
+import { SOLID_HTTP, SOLID_META, SOLID_QUOTA, XSD } from '../../util/Vocabularies';
+import { ResponseDescription } from '../output/response/ResponseDescription';
+import { RepresentationMetadata } from '../representation/RepresentationMetadata';
+import type { ResourceIdentifier } from '../representation/ResourceIdentifier';
+import type { OperationHandlerInput } from './OperationHandler';
+import { OperationHandler } from './OperationHandler';
+
+const WRITE_METHODS = new Set([ 'PATCH', 'POST', 'PUT' ]);
+
+/**
+ * Adds the quota usage after a successful PUT, POST or PATCH request to the response metadata,
+ * so clients know how much space they have left.
+ * The usage is described using the {@link SOLID_QUOTA} predicates,
+ * which can be converted to headers by a {@link MetadataWriter}.
+ *
+ * Nothing is added if the quota does not apply to the written resource,
+ * or if the usage could not be determined, since the resource has already been written at that point.
+ */
+export class QuotaOperationHandler extends OperationHandler {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly source: OperationHandler;
+  private readonly strategy: QuotaStrategy;
+
+  public constructor(source: OperationHandler, strategy: QuotaStrategy) {
+    super();
+    this.source = source;
+    this.strategy = strategy;
+  }
+
+  public async canHandle(input: OperationHandlerInput): Promise<void> {
+    await this.source.canHandle(input);
+  }
+
+  public async handle(input: OperationHandlerInput): Promise<ResponseDescription> {
+    const result = await this.source.handle(input);
+    const { operation } = input;
+    if (!WRITE_METHODS.has(operation.method)) {
+      return result;
+    }
+
+    const location = result.metadata?.get(SOLID_HTTP.terms.location);
+    const identifier: ResourceIdentifier = location ? { path: location.value } : operation.target;
+    let used: Size | undefined;
+    try {
+      used = await this.strategy.getUsedSpace(identifier);
+    } catch (error: unknown) {
+      this.logger.warn(`Unable to determine the quota usage of ${identifier.path}: ${createErrorMessage(error)}`);
+      return result;
+    }
+    if (!used) {
+      return result;
+    }
+
+    const metadata = result.metadata ?? new RepresentationMetadata(operation.target);
+    const { limit } = this.strategy;
+    const available = Math.max(limit.amount - used.amount, 0);
+    const graph = SOLID_META.terms.ResponseMetadata;
+    metadata.set(SOLID_QUOTA.terms.limit, toLiteral(limit.amount, XSD.terms.integer), graph);
+    metadata.set(SOLID_QUOTA.terms.used, toLiteral(used.amount, XSD.terms.integer), graph);
+    metadata.set(SOLID_QUOTA.terms.available, toLiteral(available, XSD.terms.integer), graph);
+    metadata.set(SOLID_QUOTA.terms.unit, limit.unit, graph);
+    return new ResponseDescription(result.statusCode, metadata, result.data);
+  }
+}
@@ -0,0 +1,82 @@
+import type { Literal, NamedNode } from '@rdfjs/types';
+import { DataFactory } from 'n3';
+import { getLoggerFor } from '../../logging/LogUtil';
+import type { ResourceStore } from '../../storage/ResourceStore';
+import { createErrorMessage } from '../../util/errors/ErrorUtil';
+import { SOLID_HTTP, SOLID_META } from '../../util/Vocabularies';
+import type { Operation } from '../Operation';
+import { OkResponseDescription } from '../output/response/OkResponseDescription';
+import { ResponseDescription } from '../output/response/ResponseDescription';
+import type { ResourceIdentifier } from '../representation/ResourceIdentifier';
+import type { OperationHandlerInput } from './OperationHandler';
+import { OperationHandler } from './OperationHandler';
+
+const WRITE_METHODS = new Set([ 'PATCH', 'POST', 'PUT' ]);
+
+/**
+ * Returns the representation of the written resource for PUT, POST and PATCH requests
+ * with a `Prefer: return=representation` header,
+ * instead of the empty response generated by the source handler.
+ * In case a new resource was created, the representation of that resource is returned with a 201 status code.
+ * Response metadata added by the source handler is kept.
+ *
+ * The preference is ignored if the client does not have read permissions on the target of the request,
+ * or if the representation could not be retrieved,
+ * since the resource has already been written at that point.
+ */
+export class ReturnRepresentationOperationHandler extends OperationHandler {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly source: OperationHandler;
+  private readonly store: ResourceStore;
+
+  public constructor(source: OperationHandler, store: ResourceStore) {
+    super();
+    this.source = source;
+    this.store = store;
+  }
+
+  public async canHandle(input: OperationHandlerInput): Promise<void> {
+    await this.source.canHandle(input);
+  }
+
+  public async handle(input: OperationHandlerInput): Promise<ResponseDescription> {
+    const result = await this.source.handle(input);
+    const { operation } = input;
+    if (operation.preferences.return?.value !== 'representation' || !WRITE_METHODS.has(operation.method) ||
+      !this.canRead(operation)) {
+      return result;
+    }
+
+    const location = result.metadata?.get(SOLID_HTTP.terms.location);
+    const identifier: ResourceIdentifier = location ? { path: location.value } : operation.target;
+    let representation;
+    try {
+      representation = await this.store.getRepresentation(identifier, operation.preferences);
+    } catch (error: unknown) {
+      this.logger.warn(`Unable to return the representation of ${identifier.path}: ${createErrorMessage(error)}`);
+      return result;
+    }
+
+    const { metadata, data } = representation;
+    // Response metadata generated by the source, such as the quota usage, applies to the new response as well
+    const responseQuads = result.metadata?.quads(null, null, null, SOLID_META.terms.ResponseMetadata) ?? [];
+    for (const { predicate, object } of responseQuads) {
+      metadata.add(predicate as NamedNode, object as NamedNode | Literal, SOLID_META.terms.ResponseMetadata);
+    }
+    metadata.set(SOLID_HTTP.terms.preferenceApplied, 'return=representation', SOLID_META.terms.ResponseMetadata);
+    if (location) {
+      metadata.set(SOLID_HTTP.terms.location, DataFactory.namedNode(location.value), SOLID_META.terms.ResponseMetadata);
+      return new ResponseDescription(201, metadata, data);
+    }
+    return new OkResponseDescription(metadata, data);
+  }
+
+  /**
+   * Checks if the client is allowed to read the target of the operation.
+   */
+  private canRead(operation: Operation): boolean {
+    const permissionSet = operation.availablePermissions?.get(operation.target) ?? {};
+    return Object.values(permissionSet).some((permission): boolean => Boolean(permission?.read));
+  }
+}
@@ -0,0 +1,59 @@
+import type { HttpResponse } from '../../../server/HttpResponse';
+import { matchesMediaType } from '../../../storage/conversion/ConversionUtil';
+import { trimTrailingSlashes } from '../../../util/PathUtil';
+import type { RepresentationMetadata } from '../../representation/RepresentationMetadata';
+import { MetadataWriter } from './MetadataWriter';
+
+/**
+ * Utility class to easily configure the Cache-Control policy of resources in the config files.
+ */
+export class CacheControlRule {
+  public readonly value: string;
+  public readonly path?: RegExp;
+  public readonly contentType?: string;
+
+  /**
+   * @param value - Value of the Cache-Control header, such as `no-cache` or `private, max-age=3600`.
+   * @param path - Regular expression the path of the resource needs to match.
+   *               The path is relative to the base URL and starts with a slash.
+   * @param contentType - Media range the content type of the representation needs to match, such as `image/*`.
+   */
+  public constructor(value: string, path?: string, contentType?: string) {
+    this.value = value;
+    this.path = typeof path === 'string' ? new RegExp(path, 'u') : undefined;
+    this.contentType = contentType;
+  }
+}
+
+/**
+ * Adds a `Cache-Control` header to responses describing a resource,
+ * with the value of the first rule that matches the path and content type of that resource.
+ * Rules without a path or content type match all resources.
+ * Nothing is added if none of the rules match.
+ *
+ * Responses that do not describe a specific resource, such as error responses, never get a `Cache-Control` header.
+ */
+export class CacheControlMetadataWriter extends MetadataWriter {
+  private readonly baseUrl: string;
+  private readonly rules: CacheControlRule[];
+
+  public constructor(baseUrl: string, rules: CacheControlRule[]) {
+    super();
+    this.baseUrl = trimTrailingSlashes(baseUrl);
+    this.rules = rules;
+  }
+
+  public async handle(input: { response: HttpResponse; metadata: RepresentationMetadata }): Promise<void> {
+    const { identifier, contentType } = input.metadata;
+    if (identifier.termType !== 'NamedNode' || !identifier.value.startsWith(this.baseUrl)) {
+      return;
+    }
+    const path = identifier.value.slice(this.baseUrl.length);
+    const rule = this.rules.find((entry): boolean =>
+      (!entry.path || entry.path.test(path)) &&
+      (!entry.contentType || (Boolean(contentType) && matchesMediaType(contentType!, entry.contentType))));
+    if (rule) {
+      input.response.setHeader('Cache-Control', rule.value);
+    }
+  }
+}
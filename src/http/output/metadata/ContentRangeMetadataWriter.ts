@@ -0,0 +1,17 @@
+import type { HttpResponse } from '../../../server/HttpResponse';
+import { getContentRange } from '../../../util/RangeUtil';
+import type { RepresentationMetadata } from '../../representation/RepresentationMetadata';
+import { MetadataWriter } from './MetadataWriter';
+
+/**
+ * Adds the `Content-Range` header in case the metadata describes a partial representation,
+ * or a range that could not be satisfied.
+ */
+export class ContentRangeMetadataWriter extends MetadataWriter {
+  public async handle(input: { response: HttpResponse; metadata: RepresentationMetadata }): Promise<void> {
+    const contentRange = getContentRange(input.metadata);
+    if (contentRange) {
+      input.response.setHeader('Content-Range', contentRange);
+    }
+  }
+}
@@ -0,0 +1,15 @@
+import type { RepresentationMetadata } from '../../representation/RepresentationMetadata';
+import { ResponseDescription } from './ResponseDescription';
+
+/**
+ * Corresponds to a 304 response, sent when the client already has the current representation.
+ * Contains the metadata of that representation so the validators and caching headers can be sent.
+ */
+export class NotModifiedResponseDescription extends ResponseDescription {
+  /**
+   * @param metadata - Metadata of the representation the client already has.
+   */
+  public constructor(metadata: RepresentationMetadata) {
+    super(304, metadata);
+  }
+}
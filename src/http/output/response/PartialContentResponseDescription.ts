@@ -0,0 +1,17 @@
+import type { Readable } from 'stream';
+import type { Guarded } from '../../../util/GuardedStream';
+import type { RepresentationMetadata } from '../../representation/RepresentationMetadata';
+import { ResponseDescription } from './ResponseDescription';
+
+/**
+ * Corresponds to a 206 response, containing only the requested ranges of the representation.
+ */
+export class PartialContentResponseDescription extends ResponseDescription {
+  /**
+   * @param metadata - Metadata concerning the response.
+   * @param data - The requested parts of the data. @ignored
+   */
+  public constructor(metadata: RepresentationMetadata, data: Guarded<Readable>) {
+    super(206, metadata, data);
+  }
+}
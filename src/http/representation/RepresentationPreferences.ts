@@ -19,6 +19,66 @@ export type ValuePreferences = {[key: string ]: number };
  */
 export type ValuePreference = { value: string; weight: number };
 
+/**
+ * A single range of a Range header, with an inclusive `end`.
+ * A negative `start` without `end` indicates the last `-start` units,
+ * a missing `end` indicates all units starting from `start`.
+ */
+export interface RangePart {
+  start: number;
+  end?: number;
+}
+
+/**
+ * The ranges that are requested, as found in the Range header.
+ */
+export interface RangePreference {
+  /**
+   * The unit of the ranges, such as `bytes`.
+   */
+  unit: string;
+  parts: RangePart[];
+  /**
+   * The value of the If-Range header, which is either an ETag or a date.
+   * The ranges should be ignored if it does not match the resource.
+   */
+  ifRange?: string;
+}
+
+/**
+ * The `return` preference of the Prefer header, as defined in RFC 7240.
+ */
+export interface ReturnPreference {
+  /**
+   * The preferred kind of response, such as `representation` or `minimal`.
+   */
+  value: string;
+  /**
+   * IRIs of the parts of a representation that should be included, such as `ldp:PreferContainment`.
+   */
+  include: string[];
+  /**
+   * IRIs of the parts of a representation that should be omitted.
+   */
+  omit: string[];
+}
+
+/**
+ * A single page of the children of a container.
+ * Children are ordered by their identifier so the same ordering is used for every page.
+ */
+export interface PagePreference {
+  /**
+   * The maximum number of children in the page.
+   */
+  limit: number;
+  /**
+   * Only children with an identifier that comes after this one should be part of the page.
+   * This is the identifier of the last child of the previous page.
+   */
+  after?: string;
+}
+
 /**
  * Contains preferences along multiple content negotiation dimensions.
  *
@@ -31,4 +91,7 @@ export interface RepresentationPreferences {
   datetime?: ValuePreferences;
   encoding?: ValuePreferences;
   language?: ValuePreferences;
+  range?: RangePreference;
+  return?: ReturnPreference;
+  page?: PagePreference;
 }
@@ -0,0 +1,75 @@
+import type { JWK } from 'jose';
+import { exportJWK, generateKeyPair } from 'jose';
+import type { KeyValueStorage } from '../../storage/keyvalue/KeyValueStorage';
+import type { AlgJwk, AsymmetricSigningAlgorithm, JwkGenerator } from './JwkGenerator';
+
+// The JWK fields that are only part of the private key
+const PRIVATE_JWK_FIELDS = new Set([ 'd', 'p', 'q', 'dp', 'dq', 'qi' ]);
+
+/**
+ * Generates a key pair once and then caches it using both an internal variable and a {@link KeyValueStorage}.
+ * The storage makes sure the same key pair is used across multiple threads and after restarts.
+ *
+ * The private key is stored as the only entry of a JWKS, `{ keys: [ key ] }`.
+ */
+export class CachedJwkGenerator implements JwkGenerator {
+  public readonly alg: AsymmetricSigningAlgorithm;
+
+  private readonly storageKey: string;
+  private readonly storage: KeyValueStorage<string, { keys: JWK[] }>;
+
+  private privateJwk?: Promise<AlgJwk>;
+  private publicJwk?: Promise<AlgJwk>;
+
+  /**
+   * @param alg - The algorithm used to generate the key pair.
+   * @param storageKey - The key under which the private key is stored in the storage.
+   * @param storage - Storage used to cache the private key.
+   */
+  public constructor(alg: AsymmetricSigningAlgorithm, storageKey: string,
+    storage: KeyValueStorage<string, { keys: JWK[] }>) {
+    this.alg = alg;
+    this.storageKey = storageKey;
+    this.storage = storage;
+  }
+
+  public async getPrivateKey(): Promise<AlgJwk> {
+    // Caching the promise prevents multiple keys being generated by parallel calls
+    if (!this.privateJwk) {
+      this.privateJwk = this.findPrivateKey();
+    }
+    return this.privateJwk;
+  }
+
+  public async getPublicKey(): Promise<AlgJwk> {
+    if (!this.publicJwk) {
+      this.publicJwk = this.derivePublicKey();
+    }
+    return this.publicJwk;
+  }
+
+  /**
+   * Returns the private key from the storage, or generates and stores a new one if there is none.
+   */
+  private async findPrivateKey(): Promise<AlgJwk> {
+    const jwks = await this.storage.get(this.storageKey);
+    if (jwks) {
+      return jwks.keys[0] as AlgJwk;
+    }
+
+    const { privateKey } = await generateKeyPair(this.alg);
+    // Some libraries, such as the OIDC library, do not accept the JWK if it is not a plain object
+    const jwk: AlgJwk = { ...await exportJWK(privateKey), alg: this.alg };
+    await this.storage.set(this.storageKey, { keys: [ jwk ]});
+    return jwk;
+  }
+
+  /**
+   * Derives the public key from the private key by removing all the private parameters.
+   */
+  private async derivePublicKey(): Promise<AlgJwk> {
+    const privateJwk = await this.getPrivateKey();
+    return Object.fromEntries(Object.entries(privateJwk)
+      .filter(([ key ]): boolean => !PRIVATE_JWK_FIELDS.has(key))) as AlgJwk;
+  }
+}
@@ -2,8 +2,6 @@
 // import/no-unresolved can't handle jose imports
 // tsdoc/syntax can't handle {json} parameter
 import { randomBytes } from 'crypto';
-import type { JWK } from 'jose';
-import { exportJWK, generateKeyPair } from 'jose';
 import type { Account,
   Adapter,
   Configuration,
@@ -25,6 +23,7 @@ import { joinUrl } from '../../util/PathUtil';
 import type { ClientCredentials } from '../interaction/email-password/credentials/ClientCredentialsAdapterFactory';
 import type { InteractionHandler } from '../interaction/InteractionHandler';
 import type { AdapterFactory } from '../storage/AdapterFactory';
+import type { JwkGenerator } from './JwkGenerator';
 import type { ProviderFactory } from './ProviderFactory';
 
 export interface IdentityProviderFactoryArgs {
@@ -49,7 +48,11 @@ export interface IdentityProviderFactoryArgs {
    */
   credentialStorage: KeyValueStorage<string, ClientCredentials>;
   /**
-   * Storage used to store cookie and JWT keys so they can be re-used in case of multithreading.
+   * Generates the key pair used to sign the issued tokens.
+   */
+  jwkGenerator: JwkGenerator;
+  /**
+   * Storage used to store cookie keys so they can be re-used in case of multithreading.
    */
   storage: KeyValueStorage<string, unknown>;
   /**
@@ -66,13 +69,13 @@ export interface IdentityProviderFactoryArgs {
   responseWriter: ResponseWriter;
 }
 
-const JWKS_KEY = 'jwks';
 const COOKIES_KEY = 'cookie-secret';
 
 /**
  * Creates an OIDC Provider based on the provided configuration and parameters.
  * The provider will be cached and returned on subsequent calls.
- * Cookie and JWT keys will be stored in an internal storage so they can be re-used over multiple threads.
+ * Cookie keys will be stored in an internal storage so they can be re-used over multiple threads.
+ * The JWT keys are provided by the {@link JwkGenerator}.
  * Necessary claims for Solid OIDC interactions will be added.
  * Routes will be updated based on the `baseUrl` and `oidcPath`.
  */
@@ -83,12 +86,12 @@ export class IdentityProviderFactory implements ProviderFactory {
   private readonly oidcPath: string;
   private readonly interactionHandler: InteractionHandler;
   private readonly credentialStorage: KeyValueStorage<string, ClientCredentials>;
+  private readonly jwkGenerator: JwkGenerator;
   private readonly storage: KeyValueStorage<string, unknown>;
   private readonly showStackTrace: boolean;
   private readonly errorHandler: ErrorHandler;
   private readonly responseWriter: ResponseWriter;
 
-  private readonly jwtAlg = 'ES256';
   private provider?: Provider;
 
   /**
@@ -103,6 +106,7 @@ export class IdentityProviderFactory implements ProviderFactory {
     this.oidcPath = args.oidcPath;
     this.interactionHandler = args.interactionHandler;
     this.credentialStorage = args.credentialStorage;
+    this.jwkGenerator = args.jwkGenerator;
     this.storage = args.storage;
     this.showStackTrace = args.showStackTrace;
     this.errorHandler = args.errorHandler;
@@ -156,7 +160,7 @@ export class IdentityProviderFactory implements ProviderFactory {
     };
 
     // Cast necessary due to typing conflict between jose 2.x and 3.x
-    config.jwks = await this.generateJwks() as any;
+    config.jwks = { keys: [ await this.jwkGenerator.getPrivateKey() ]} as any;
     config.cookies = {
       ...config.cookies,
       keys: await this.generateCookieKeys(),
@@ -171,35 +175,12 @@ export class IdentityProviderFactory implements ProviderFactory {
     // Default client settings that might not be defined.
     // Mostly relevant for WebID clients.
     config.clientDefaults = {
-      id_token_signed_response_alg: this.jwtAlg,
+      id_token_signed_response_alg: this.jwkGenerator.alg,
     };
 
     return config;
   }
 
-  /**
-   * Generates a JWKS using a single JWK.
-   * The JWKS will be cached so subsequent calls return the same key.
-   */
-  private async generateJwks(): Promise<{ keys: JWK[] }> {
-    // Check to see if the keys are already saved
-    const jwks = await this.storage.get(JWKS_KEY) as { keys: JWK[] } | undefined;
-    if (jwks) {
-      return jwks;
-    }
-    // If they are not, generate and save them
-    const { privateKey } = await generateKeyPair(this.jwtAlg);
-    const jwk = await exportJWK(privateKey);
-    // Required for Solid authn client
-    jwk.alg = this.jwtAlg;
-    // In node v15.12.0 the JWKS does not get accepted because the JWK is not a plain object,
-    // which is why we convert it into a plain object here.
-    // Potentially this can be changed at a later point in time to `{ keys: [ jwk ]}`.
-    const newJwks = { keys: [{ ...jwk }]};
-    await this.storage.set(JWKS_KEY, newJwks);
-    return newJwks;
-  }
-
   /**
    * Generates a cookie secret to be used for cookie signing.
    * The key will be cached so subsequent calls return the same key.
@@ -265,7 +246,7 @@ export class IdentityProviderFactory implements ProviderFactory {
           audience: 'solid',
           accessTokenFormat: 'jwt',
           jwt: {
-            sign: { alg: this.jwtAlg },
+            sign: { alg: this.jwkGenerator.alg },
           },
         }),
       },
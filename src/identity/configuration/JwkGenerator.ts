@@ -0,0 +1,36 @@
+import type { JWK } from 'jose';
+
+/**
+ * The asymmetric algorithms that can be used to sign JWTs.
+ */
+export type AsymmetricSigningAlgorithm =
+  'PS256' | 'PS384' | 'PS512' | 'ES256' | 'ES384' | 'ES512' | 'EdDSA' | 'RS256' | 'RS384' | 'RS512';
+
+/**
+ * A {@link JWK} where the `alg` parameter is always defined.
+ */
+export interface AlgJwk extends JWK {
+  alg: AsymmetricSigningAlgorithm;
+}
+
+/**
+ * Generates an asymmetric key pair, in JWK format,
+ * which is used to sign tokens issued by the server.
+ * Every call returns the same key pair.
+ */
+export interface JwkGenerator {
+  /**
+   * The algorithm used for signing with the generated keys.
+   */
+  readonly alg: AsymmetricSigningAlgorithm;
+
+  /**
+   * Returns the private key of the key pair.
+   */
+  getPrivateKey: () => Promise<AlgJwk>;
+
+  /**
+   * Returns the public key of the key pair.
+   */
+  getPublicKey: () => Promise<AlgJwk>;
+}
@@ -1,6 +1,7 @@
 // Authentication
 export * from './authentication/BearerWebIdExtractor';
 export * from './authentication/Credentials';
+export * from './authentication/CredentialsContext';
 export * from './authentication/CredentialsExtractor';
 export * from './authentication/DPoPWebIdExtractor';
 export * from './authentication/PublicCredentialsExtractor';
@@ -34,6 +35,7 @@ export * from './authorization/PermissionBasedAuthorizer';
 export * from './authorization/PermissionReader';
 export * from './authorization/UnionPermissionReader';
 export * from './authorization/WebAclAuxiliaryReader';
+export * from './authorization/WebAclCache';
 export * from './authorization/WebAclReader';
 
 // HTTP/Auxiliary
@@ -72,7 +74,11 @@ export * from './http/input/metadata/SlugParser';
 
 // HTTP/Input/Preferences
 export * from './http/input/preferences/AcceptPreferenceParser';
+export * from './http/input/preferences/PagePreferenceParser';
 export * from './http/input/preferences/PreferenceParser';
+export * from './http/input/preferences/PreferPreferenceParser';
+export * from './http/input/preferences/RangePreferenceParser';
+export * from './http/input/preferences/UnionPreferenceParser';
 
 // HTTP/Input
 export * from './http/input/BasicRequestParser';
@@ -90,6 +96,8 @@ export * from './http/ldp/OperationHandler';
 export * from './http/ldp/PatchOperationHandler';
 export * from './http/ldp/PostOperationHandler';
 export * from './http/ldp/PutOperationHandler';
+export * from './http/ldp/QuotaOperationHandler';
+export * from './http/ldp/ReturnRepresentationOperationHandler';
 
 // HTTP/Output/Error
 export * from './http/output/error/ConvertingErrorHandler';
@@ -100,7 +108,9 @@ export * from './http/output/error/SafeErrorHandler';
 // HTTP/Output/Metadata
 export * from './http/output/metadata/AllowAcceptHeaderWriter';
 export * from './http/output/metadata/AuxiliaryLinkMetadataWriter';
+export * from './http/output/metadata/CacheControlMetadataWriter';
 export * from './http/output/metadata/ConstantMetadataWriter';
+export * from './http/output/metadata/ContentRangeMetadataWriter';
 export * from './http/output/metadata/ContentTypeMetadataWriter';
 export * from './http/output/metadata/LinkRelMetadataWriter';
 export * from './http/output/metadata/MappedMetadataWriter';
@@ -111,7 +121,9 @@ export * from './http/output/metadata/WwwAuthMetadataWriter';
 
 // HTTP/Output/Response
 export * from './http/output/response/CreatedResponseDescription';
+export * from './http/output/response/NotModifiedResponseDescription';
 export * from './http/output/response/OkResponseDescription';
+export * from './http/output/response/PartialContentResponseDescription';
 export * from './http/output/response/ResetResponseDescription';
 export * from './http/output/response/ResponseDescription';
 
@@ -133,7 +145,9 @@ export * from './http/Operation';
 export * from './http/UnsecureWebSocketsProtocol';
 
 // Identity/Configuration
+export * from './identity/configuration/CachedJwkGenerator';
 export * from './identity/configuration/IdentityProviderFactory';
+export * from './identity/configuration/JwkGenerator';
 export * from './identity/configuration/ProviderFactory';
 
 // Identity/Interaction/Email-Password/Credentials
@@ -228,10 +242,12 @@ export * from './init/BaseUrlVerifier';
 export * from './init/CliResolver';
 export * from './init/ConfigPodInitializer';
 export * from './init/ContainerInitializer';
+export * from './init/FileSystemCheckRunner';
 export * from './init/Initializable';
 export * from './init/InitializableHandler';
 export * from './init/Initializer';
 export * from './init/LoggerInitializer';
+export * from './init/MigrationRunner';
 export * from './init/ModuleVersionVerifier';
 export * from './init/SeededPodInitializer';
 export * from './init/ServerInitializer';
@@ -286,12 +302,62 @@ export * from './server/ParsingHttpHandler';
 export * from './server/WebSocketHandler';
 export * from './server/WebSocketServerFactory';
 
+// Server/Archive
+export * from './server/archive/PodArchiveHandler';
+
+// Server/Description
+export * from './server/description/StaticStorageDescriber';
+export * from './server/description/StorageDescriber';
+export * from './server/description/StorageDescriptionAdvertiser';
+export * from './server/description/StorageDescriptionHandler';
+
 // Server/Middleware
 export * from './server/middleware/CorsHandler';
 export * from './server/middleware/HeaderHandler';
 export * from './server/middleware/StaticAssetHandler';
 export * from './server/middleware/WebSocketAdvertiser';
 
+// Server/Notifications/Generate
+export * from './server/notifications/generate/ActivityNotificationGenerator';
+export * from './server/notifications/generate/DeleteNotificationGenerator';
+export * from './server/notifications/generate/NotificationGenerator';
+
+// Server/Notifications/Serialize
+export * from './server/notifications/serialize/JsonLdNotificationSerializer';
+export * from './server/notifications/serialize/NotificationSerializer';
+
+// Server/Notifications/WebHookChannel2023
+export * from './server/notifications/WebHookChannel2023/WebHookChannel2023Type';
+export * from './server/notifications/WebHookChannel2023/WebHookDeliveryQueue';
+export * from './server/notifications/WebHookChannel2023/WebHookEmitter';
+export * from './server/notifications/WebHookChannel2023/WebHookSender';
+export * from './server/notifications/WebHookChannel2023/WebHookWebId';
+
+// Server/Notifications/WebSocketChannel2023
+export * from './server/notifications/WebSocketChannel2023/WebSocket2023Emitter';
+export * from './server/notifications/WebSocketChannel2023/WebSocket2023Listener';
+export * from './server/notifications/WebSocketChannel2023/WebSocket2023Util';
+export * from './server/notifications/WebSocketChannel2023/WebSocketChannel2023Type';
+export * from './server/notifications/WebSocketChannel2023/WebSocketMap';
+
+// Server/Notifications
+export * from './server/notifications/BaseChannelType';
+export * from './server/notifications/ComposedNotificationHandler';
+export * from './server/notifications/KeyValueChannelStorage';
+export * from './server/notifications/ListeningActivityHandler';
+export * from './server/notifications/Notification';
+export * from './server/notifications/NotificationChannel';
+export * from './server/notifications/NotificationChannelStorage';
+export * from './server/notifications/NotificationChannelType';
+export * from './server/notifications/NotificationDescriber';
+export * from './server/notifications/NotificationEmitter';
+export * from './server/notifications/NotificationHandler';
+export * from './server/notifications/NotificationSubscriber';
+export * from './server/notifications/TypedNotificationHandler';
+
+// Server/Trash
+export * from './server/trash/TrashHandler';
+
 // Server/Util
 export * from './server/util/RedirectingHttpHandler';
 export * from './server/util/RouterHandler';
@@ -300,13 +366,23 @@ export * from './server/util/RouterHandler';
 export * from './storage/accessors/AtomicDataAccessor';
 export * from './storage/accessors/AtomicFileDataAccessor';
 export * from './storage/accessors/DataAccessor';
+export * from './storage/accessors/EncryptingDataAccessor';
 export * from './storage/accessors/FileDataAccessor';
 export * from './storage/accessors/FilterMetadataDataAccessor';
+export * from './storage/accessors/GitDataAccessor';
 export * from './storage/accessors/InMemoryDataAccessor';
 export * from './storage/accessors/PassthroughDataAccessor';
+export * from './storage/accessors/S3DataAccessor';
 export * from './storage/accessors/SparqlDataAccessor';
+export * from './storage/accessors/SqliteDataAccessor';
 export * from './storage/accessors/ValidatingDataAccessor';
 
+// Storage/Archive
+export * from './storage/archive/PodArchiver';
+
+// Storage/Check
+export * from './storage/check/FileSystemChecker';
+
 // Storage/Conversion
 export * from './storage/conversion/BaseTypedRepresentationConverter';
 export * from './storage/conversion/ChainedConverter';
@@ -326,6 +402,11 @@ export * from './storage/conversion/RdfToQuadConverter';
 export * from './storage/conversion/RepresentationConverter';
 export * from './storage/conversion/TypedRepresentationConverter';
 
+// Storage/Encryption
+export * from './storage/encryption/EncryptionUtil';
+export * from './storage/encryption/KeyProvider';
+export * from './storage/encryption/WrappedKeyProvider';
+
 // Storage/KeyValue
 export * from './storage/keyvalue/EncodingPathStorage';
 export * from './storage/keyvalue/ExpiringStorage';
@@ -342,6 +423,9 @@ export * from './storage/mapping/FileIdentifierMapper';
 export * from './storage/mapping/FixedContentTypeMapper';
 export * from './storage/mapping/SubdomainExtensionBasedMapper';
 
+// Storage/Migration
+export * from './storage/migration/StorageMigrator';
+
 // Storage/Patch
 export * from './storage/patch/ConvertingPatcher';
 export * from './storage/patch/ImmutableMetadataPatcher';
@@ -356,6 +440,7 @@ export * from './storage/patch/SparqlUpdatePatcher';
 // Storage/Quota
 export * from './storage/quota/GlobalQuotaStrategy';
 export * from './storage/quota/PodQuotaStrategy';
+export * from './storage/quota/QuotaStorageDescriber';
 export * from './storage/quota/QuotaStrategy';
 
 // Storage/Routing
@@ -366,18 +451,29 @@ export * from './storage/routing/RegexRouterRule';
 export * from './storage/routing/RouterRule';
 
 // Storage/Size-Reporter
+export * from './storage/size-reporter/AccessorSizeReporter';
+export * from './storage/size-reporter/ByteSizeReporter';
 export * from './storage/size-reporter/FileSizeReporter';
+export * from './storage/size-reporter/LedgerSizeReporter';
+export * from './storage/size-reporter/LedgerSizeUpdater';
+export * from './storage/size-reporter/ResourceCountSizeReporter';
 export * from './storage/size-reporter/Size';
 export * from './storage/size-reporter/SizeReporter';
+export * from './storage/size-reporter/SparqlSizeReporter';
 
 // Storage/Validators
 export * from './storage/validators/QuotaValidator';
 
+// Storage/Watch
+export * from './storage/watch/FileSystemWatcher';
+
 // Storage
 export * from './storage/AtomicResourceStore';
 export * from './storage/BaseResourceStore';
 export * from './storage/BasicConditions';
+export * from './storage/BinarySliceResourceStore';
 export * from './storage/CachedResourceSet';
+export * from './storage/CachedResourceStore';
 export * from './storage/Conditions';
 export * from './storage/DataAccessorBasedStore';
 export * from './storage/IndexRepresentationStore';
@@ -390,6 +486,8 @@ export * from './storage/RepresentationConvertingStore';
 export * from './storage/ResourceSet';
 export * from './storage/ResourceStore';
 export * from './storage/RoutingResourceStore';
+export * from './storage/TrashStore';
+export * from './storage/VersioningStore';
 
 // Util/Errors
 export * from './util/errors/BadRequestHttpError';
@@ -405,12 +503,20 @@ export * from './util/errors/MovedPermanentlyHttpError';
 export * from './util/errors/NotFoundHttpError';
 export * from './util/errors/NotImplementedHttpError';
 export * from './util/errors/PreconditionFailedHttpError';
+export * from './util/errors/RangeNotSatisfiableHttpError';
 export * from './util/errors/RedirectHttpError';
 export * from './util/errors/SystemError';
 export * from './util/errors/UnauthorizedHttpError';
 export * from './util/errors/UnsupportedMediaTypeHttpError';
 
+// Util/Events
+export * from './util/events/ActivityRelay';
+export * from './util/events/EventBus';
+export * from './util/events/IpcEventBus';
+export * from './util/events/RedisEventBus';
+
 // Util/Handlers
+export * from './util/handlers/ArrayUnionHandler';
 export * from './util/handlers/AsyncHandler';
 export * from './util/handlers/BooleanHandler';
 export * from './util/handlers/ConditionalHandler';
@@ -462,10 +568,13 @@ export * from './util/FetchUtil';
 export * from './util/GuardedStream';
 export * from './util/HeaderUtil';
 export * from './util/IterableUtil';
+export * from './util/PageUtil';
 export * from './util/PathUtil';
 export * from './util/PromiseUtil';
 export * from './util/QuadUtil';
+export * from './util/RangeUtil';
 export * from './util/RecordObject';
+export * from './util/RedisUtil';
 export * from './util/ResourceUtil';
 export * from './util/StreamUtil';
 export * from './util/StringUtil';
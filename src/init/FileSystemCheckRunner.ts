@@ -0,0 +1,160 @@
+/* eslint-disable unicorn/no-process-exit */
+import type { WriteStream } from 'tty';
+import type { IComponentsManagerBuilderOptions } from 'componentsjs';
+import yargs from 'yargs';
+import type { AuxiliaryIdentifierStrategy } from '../http/auxiliary/AuxiliaryIdentifierStrategy';
+import { LOG_LEVELS } from '../logging/LogLevel';
+import { getLoggerFor, setGlobalLoggerFactory } from '../logging/LogUtil';
+import { WinstonLoggerFactory } from '../logging/WinstonLoggerFactory';
+import type { FileSystemIssue } from '../storage/check/FileSystemChecker';
+import { FileSystemChecker } from '../storage/check/FileSystemChecker';
+import { RdfToQuadConverter } from '../storage/conversion/RdfToQuadConverter';
+import type { FileIdentifierMapper } from '../storage/mapping/FileIdentifierMapper';
+import { createErrorMessage, isError } from '../util/errors/ErrorUtil';
+import { joinFilePath, resolveAssetPath } from '../util/PathUtil';
+import { AppRunner } from './AppRunner';
+import type { CliResolver } from './CliResolver';
+import type { CliArgv, Shorthand } from './variables/Types';
+
+const DEFAULT_CLI_RESOLVER = 'urn:solid-server-app-setup:default:CliResolver';
+const DEFAULT_FILE_MAPPER = 'urn:solid-server:default:FileIdentifierMapper';
+const DEFAULT_ACL_STRATEGY = 'urn:solid-server:default:AclIdentifierStrategy';
+const BASE_URL_VARIABLE = 'urn:solid-server:default:variable:baseUrl';
+const ROOT_FILE_PATH_VARIABLE = 'urn:solid-server:default:variable:rootFilePath';
+
+const DEFAULT_LOST_AND_FOUND = '.internal/lost+found/';
+const DEFAULT_IGNORED_PATHS = [ '^/\\.internal/locks/' ];
+
+const CLI_PARAMETERS = {
+  config: { type: 'string', alias: 'c', default: '@css:config/file.json', requiresArg: true },
+  rootFilePath: { type: 'string', alias: 'f', requiresArg: true },
+  baseUrl: { type: 'string', alias: 'b', requiresArg: true },
+  repair: { type: 'boolean', alias: 'r', default: false },
+  loggingLevel: { type: 'string', alias: 'l', default: 'info', requiresArg: true, choices: LOG_LEVELS },
+  mainModulePath: { type: 'string', alias: 'm', requiresArg: true },
+} as const;
+
+export interface FileSystemCheckRunnerArgs {
+  /**
+   * Components.js loader properties.
+   */
+  loaderProperties: IComponentsManagerBuilderOptions<unknown>;
+  /**
+   * Path to the server config file of the file backend that needs to be checked.
+   */
+  config: string;
+  /**
+   * Shorthand values of the config, e.g., `{ rootFilePath: '.data' }`.
+   */
+  shorthand?: Shorthand;
+  /**
+   * If the repairable issues should be repaired.
+   */
+  repair?: boolean;
+  /**
+   * Regular expressions of paths, relative to the root folder, that should not be checked.
+   * Defaults to the internal lock data, which is only relevant to a running server.
+   */
+  ignoredPaths?: string[];
+}
+
+/**
+ * Checks the data folder of a file backend for inconsistencies with a {@link FileSystemChecker},
+ * using the {@link FileIdentifierMapper} and ACL strategy of the given server configuration.
+ *
+ * Repaired files are moved to the `.internal/lost+found/` folder of the root folder.
+ * The server itself is never started, and should not be running while the data is being checked.
+ */
+export class FileSystemCheckRunner {
+  private readonly logger = getLoggerFor(this);
+
+  /**
+   * Checks the data folder of the given configuration.
+   *
+   * @param args - Configuration and settings of the check.
+   */
+  public async check(args: FileSystemCheckRunnerArgs): Promise<FileSystemIssue[]> {
+    let checker: FileSystemChecker;
+    try {
+      const componentsManager = await new AppRunner().createComponentsManager<any>(args.loaderProperties, args.config);
+      const cliResolver: CliResolver = await componentsManager.instantiate(DEFAULT_CLI_RESOLVER, {});
+      const variables = await cliResolver.shorthandResolver.handleSafe(args.shorthand ?? {});
+      const rootFilePath = variables[ROOT_FILE_PATH_VARIABLE] as string;
+      checker = new FileSystemChecker({
+        mapper: await componentsManager.instantiate<FileIdentifierMapper>(DEFAULT_FILE_MAPPER, { variables }),
+        rootFilePath,
+        baseUrl: variables[BASE_URL_VARIABLE] as string,
+        converter: new RdfToQuadConverter(),
+        lostAndFoundPath: joinFilePath(rootFilePath, DEFAULT_LOST_AND_FOUND),
+        aclStrategy: await componentsManager.instantiate<AuxiliaryIdentifierStrategy>(DEFAULT_ACL_STRATEGY,
+          { variables }),
+        ignoredPaths: args.ignoredPaths ?? DEFAULT_IGNORED_PATHS,
+      });
+    } catch (error: unknown) {
+      let message = `Could not instantiate ${args.config}\nCause: ${createErrorMessage(error)}\n`;
+      if (isError(error)) {
+        message += `${error.stack}\n`;
+      }
+      throw new Error(message);
+    }
+
+    this.logger.info(`Checking the data of ${args.config}`);
+    return checker.check(args.repair);
+  }
+
+  /**
+   * Checks the data as a command-line application.
+   * Writes the issues to the output stream,
+   * and exits with a non-zero code in case there are issues that were not repaired.
+   *
+   * Made non-async to lower the risk of unhandled promise rejections.
+   *
+   * @param argv - Command line arguments.
+   * @param stdout - Stream that should be used to output the issues.
+   * @param stderr - Stream that should be used to output errors.
+   */
+  public runCliSync({ argv, stdout = process.stdout, stderr = process.stderr }:
+  { argv?: CliArgv; stdout?: WriteStream; stderr?: WriteStream }): void {
+    this.runCli(argv).then((issues): never => {
+      stdout.write(`${JSON.stringify(issues, null, 2)}\n`);
+      process.exit(issues.every((issue): boolean => issue.repaired) ? 0 : 1);
+    }).catch((error): never => {
+      stderr.write(createErrorMessage(error));
+      process.exit(1);
+    });
+  }
+
+  /**
+   * Checks the data based on the command line arguments.
+   *
+   * @param argv - Command line arguments.
+   */
+  public async runCli(argv: CliArgv = process.argv): Promise<FileSystemIssue[]> {
+    const params = await yargs(argv.slice(2))
+      .usage('node ./bin/fsck.js [-c <config>] [-f <root folder>] [--repair]')
+      .options(CLI_PARAMETERS)
+      .parse();
+
+    setGlobalLoggerFactory(new WinstonLoggerFactory(params.loggingLevel));
+
+    const shorthand: Shorthand = {};
+    if (params.rootFilePath) {
+      shorthand.rootFilePath = params.rootFilePath;
+    }
+    if (params.baseUrl) {
+      shorthand.baseUrl = params.baseUrl;
+    }
+
+    return this.check({
+      loaderProperties: {
+        mainModulePath: resolveAssetPath(params.mainModulePath),
+        dumpErrorState: true,
+        logLevel: params.loggingLevel,
+        typeChecking: false,
+      },
+      config: resolveAssetPath(params.config),
+      shorthand,
+      repair: params.repair,
+    });
+  }
+}
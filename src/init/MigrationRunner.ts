@@ -0,0 +1,228 @@
+/* eslint-disable unicorn/no-process-exit */
+import type { WriteStream } from 'tty';
+import type { IComponentsManagerBuilderOptions } from 'componentsjs';
+import yargs from 'yargs';
+import type { AuxiliaryStrategy } from '../http/auxiliary/AuxiliaryStrategy';
+import { LOG_LEVELS } from '../logging/LogLevel';
+import { getLoggerFor, setGlobalLoggerFactory } from '../logging/LogUtil';
+import { WinstonLoggerFactory } from '../logging/WinstonLoggerFactory';
+import { RdfToQuadConverter } from '../storage/conversion/RdfToQuadConverter';
+import { JsonFileStorage } from '../storage/keyvalue/JsonFileStorage';
+import type { KeyValueStorage } from '../storage/keyvalue/KeyValueStorage';
+import type { MigrationReport } from '../storage/migration/StorageMigrator';
+import { StorageMigrator } from '../storage/migration/StorageMigrator';
+import type { ResourceStore } from '../storage/ResourceStore';
+import { createErrorMessage, isError } from '../util/errors/ErrorUtil';
+import { EqualReadWriteLocker } from '../util/locking/EqualReadWriteLocker';
+import { MemoryResourceLocker } from '../util/locking/MemoryResourceLocker';
+import { ensureTrailingSlash, resolveAssetPath } from '../util/PathUtil';
+import { AppRunner } from './AppRunner';
+import type { CliResolver } from './CliResolver';
+import type { Finalizer } from './final/Finalizer';
+import type { Initializer } from './Initializer';
+import type { CliArgv, Shorthand } from './variables/Types';
+
+const DEFAULT_CLI_RESOLVER = 'urn:solid-server-app-setup:default:CliResolver';
+const DEFAULT_INITIALIZER = 'urn:solid-server:default:CleanupInitializer';
+const DEFAULT_FINALIZER = 'urn:solid-server:default:CleanupFinalizer';
+const DEFAULT_STORE = 'urn:solid-server:default:ResourceStore';
+const DEFAULT_AUXILIARY_STRATEGY = 'urn:solid-server:default:AuxiliaryStrategy';
+const DEFAULT_METADATA_STRATEGY = 'urn:solid-server:default:MetadataStrategy';
+
+const DEFAULT_HIDDEN_PATHS = [ '/.internal/' ];
+const DEFAULT_IGNORED_PATHS = [ '^/\\.internal/locks/' ];
+
+const CLI_PARAMETERS = {
+  sourceConfig: { type: 'string', alias: 's', requiresArg: true, demandOption: true },
+  targetConfig: { type: 'string', alias: 't', requiresArg: true, demandOption: true },
+  baseUrl: { type: 'string', alias: 'b', default: 'http://localhost:3000/', requiresArg: true },
+  progress: { type: 'string', alias: 'p', default: 'migration.json', requiresArg: true },
+  loggingLevel: { type: 'string', alias: 'l', default: 'info', requiresArg: true, choices: LOG_LEVELS },
+  mainModulePath: { type: 'string', alias: 'm', requiresArg: true },
+} as const;
+
+export interface MigrationRunnerArgs {
+  /**
+   * Components.js loader properties.
+   */
+  loaderProperties: IComponentsManagerBuilderOptions<unknown>;
+  /**
+   * Path to the server config file of the data that needs to be migrated.
+   */
+  sourceConfig: string;
+  /**
+   * Shorthand values of the source config, e.g., `{ rootFilePath: '.data' }`.
+   */
+  sourceShorthand?: Shorthand;
+  /**
+   * Path to the server config file the data needs to be migrated to.
+   */
+  targetConfig: string;
+  /**
+   * Shorthand values of the target config.
+   */
+  targetShorthand?: Shorthand;
+  /**
+   * Public URL of the server. Everything in the root container of this URL will be migrated.
+   */
+  baseUrl: string;
+  /**
+   * Path of the JSON file used to keep track of the migrated resources.
+   */
+  progressPath: string;
+  /**
+   * Paths, relative to the base URL, of containers that are not listed in their parent container.
+   * Defaults to the container with internal data.
+   */
+  hiddenPaths?: string[];
+  /**
+   * Regular expressions of paths, relative to the base URL, that should not be migrated.
+   * Defaults to the internal lock data, which is only relevant to a running server.
+   */
+  ignoredPaths?: string[];
+}
+
+/**
+ * The components of a server configuration that are needed to migrate its data.
+ */
+interface MigrationComponents {
+  initializer: Initializer;
+  finalizer: Finalizer;
+  store: ResourceStore;
+  auxiliaryStrategy: AuxiliaryStrategy;
+  metadataStrategy: AuxiliaryStrategy;
+}
+
+/**
+ * Migrates all data from one server configuration to another, e.g., to move from a file backend to an SQLite backend.
+ *
+ * Both configurations are instantiated with their own Components.js manager,
+ * after which only their {@link ResourceStore} is used to copy the data with a {@link StorageMigrator}.
+ * The server itself is never started, so the data should not be modified while the migration is running.
+ */
+export class MigrationRunner {
+  private readonly logger = getLoggerFor(this);
+
+  /**
+   * Copies all resources from the source configuration to the target configuration.
+   * Running this again with the same progress file skips the resources that were already migrated.
+   *
+   * @param args - Configurations and settings of the migration.
+   */
+  public async migrate(args: MigrationRunnerArgs): Promise<MigrationReport> {
+    const baseUrl = ensureTrailingSlash(args.baseUrl);
+    // Both configurations need to use the same base URL to generate the same identifiers
+    const sourceShorthand = { ...args.sourceShorthand, baseUrl };
+    const targetShorthand = { ...args.targetShorthand, baseUrl };
+    const source = await this.createComponents(args.loaderProperties, args.sourceConfig, sourceShorthand);
+    const target = await this.createComponents(args.loaderProperties, args.targetConfig, targetShorthand);
+
+    const progress = new JsonFileStorage(args.progressPath, new EqualReadWriteLocker(new MemoryResourceLocker()));
+    const migrator = new StorageMigrator({
+      source: source.store,
+      target: target.store,
+      auxiliaryStrategy: source.auxiliaryStrategy,
+      metadataStrategy: source.metadataStrategy,
+      converter: new RdfToQuadConverter(),
+      progress: progress as KeyValueStorage<string, string>,
+      hiddenPaths: args.hiddenPaths ?? DEFAULT_HIDDEN_PATHS,
+      ignoredPaths: args.ignoredPaths ?? DEFAULT_IGNORED_PATHS,
+    });
+
+    await source.initializer.handleSafe();
+    await target.initializer.handleSafe();
+    try {
+      this.logger.info(`Migrating ${baseUrl} from ${args.sourceConfig} to ${args.targetConfig}`);
+      return await migrator.migrate({ path: baseUrl });
+    } finally {
+      await source.finalizer.handleSafe();
+      await target.finalizer.handleSafe();
+    }
+  }
+
+  /**
+   * Migrates the data as a command-line application.
+   * Writes the report to the output stream,
+   * and exits with a non-zero code in case not all resources could be migrated.
+   *
+   * Made non-async to lower the risk of unhandled promise rejections.
+   *
+   * @param argv - Command line arguments.
+   * @param stdout - Stream that should be used to output the report.
+   * @param stderr - Stream that should be used to output errors.
+   */
+  public runCliSync({ argv, stdout = process.stdout, stderr = process.stderr }:
+  { argv?: CliArgv; stdout?: WriteStream; stderr?: WriteStream }): void {
+    this.runCli(argv).then((report): never => {
+      stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+      process.exit(this.isComplete(report) ? 0 : 1);
+    }).catch((error): never => {
+      stderr.write(createErrorMessage(error));
+      process.exit(1);
+    });
+  }
+
+  /**
+   * Migrates the data based on the command line arguments.
+   * Shorthand values of both configurations can be set with the `--source.` and `--target.` prefixes,
+   * e.g., `--source.rootFilePath .data`.
+   *
+   * @param argv - Command line arguments.
+   */
+  public async runCli(argv: CliArgv = process.argv): Promise<MigrationReport> {
+    const params = await yargs(argv.slice(2))
+      .usage('node ./bin/migrate.js -s <source config> -t <target config> [args]')
+      .options(CLI_PARAMETERS)
+      .parse();
+
+    setGlobalLoggerFactory(new WinstonLoggerFactory(params.loggingLevel));
+
+    return this.migrate({
+      loaderProperties: {
+        mainModulePath: resolveAssetPath(params.mainModulePath),
+        dumpErrorState: true,
+        logLevel: params.loggingLevel,
+        typeChecking: false,
+      },
+      sourceConfig: resolveAssetPath(params.sourceConfig),
+      sourceShorthand: params.source as Shorthand | undefined,
+      targetConfig: resolveAssetPath(params.targetConfig),
+      targetShorthand: params.target as Shorthand | undefined,
+      baseUrl: params.baseUrl,
+      progressPath: resolveAssetPath(params.progress),
+    });
+  }
+
+  /**
+   * A migration is complete if every resource was copied and the target contains as many resources as the source.
+   */
+  private isComplete(report: MigrationReport): boolean {
+    return report.unsupported.length === 0 && report.mismatched.length === 0 && report.targetTotal === report.total;
+  }
+
+  /**
+   * Instantiates the components of the given configuration that are needed for the migration.
+   */
+  private async createComponents(loaderProperties: IComponentsManagerBuilderOptions<unknown>, configFile: string,
+    shorthand: Shorthand): Promise<MigrationComponents> {
+    try {
+      const componentsManager = await new AppRunner().createComponentsManager<any>(loaderProperties, configFile);
+      const cliResolver: CliResolver = await componentsManager.instantiate(DEFAULT_CLI_RESOLVER, {});
+      const variables = await cliResolver.shorthandResolver.handleSafe(shorthand);
+      // Instances with the same identifier are shared between these calls
+      return {
+        initializer: await componentsManager.instantiate(DEFAULT_INITIALIZER, { variables }),
+        finalizer: await componentsManager.instantiate(DEFAULT_FINALIZER, { variables }),
+        store: await componentsManager.instantiate(DEFAULT_STORE, { variables }),
+        auxiliaryStrategy: await componentsManager.instantiate(DEFAULT_AUXILIARY_STRATEGY, { variables }),
+        metadataStrategy: await componentsManager.instantiate(DEFAULT_METADATA_STRATEGY, { variables }),
+      };
+    } catch (error: unknown) {
+      let message = `Could not instantiate ${configFile}\nCause: ${createErrorMessage(error)}\n`;
+      if (isError(error)) {
+        message += `${error.stack}\n`;
+      }
+      throw new Error(message);
+    }
+  }
+}
@@ -68,9 +68,7 @@ export class ClusterManager {
     this.logger.info(`Setting up ${this.workers} workers`);
 
     for (let i = 0; i < this.workers; i++) {
-      cluster.fork().on('message', (msg: string): void => {
-        this.logger.info(msg);
-      });
+      cluster.fork().on('message', this.logMessage.bind(this));
     }
 
     cluster.on('online', (worker: Worker): void => {
@@ -84,12 +82,20 @@ export class ClusterManager {
     cluster.on('exit', (worker: Worker, code: number, signal: string): void => {
       this.logger.warn(`Worker ${worker.process.pid} died with code ${code} and signal ${signal}`);
       this.logger.warn('Starting a new worker');
-      cluster.fork().on('message', (msg: string): void => {
-        this.logger.info(msg);
-      });
+      cluster.fork().on('message', this.logMessage.bind(this));
     });
   }
 
+  /**
+   * Logs the text messages sent by the workers.
+   * Other messages, such as those of an {@link IpcEventBus}, are ignored.
+   */
+  private logMessage(msg: unknown): void {
+    if (typeof msg === 'string') {
+      this.logger.info(msg);
+    }
+  }
+
   /**
    * Check whether the CSS server was booted in single threaded mode.
    * @returns True is single threaded.
@@ -1,4 +1,5 @@
 import type { CredentialSet } from '../authentication/Credentials';
+import { runWithCredentials } from '../authentication/CredentialsContext';
 import type { CredentialsExtractor } from '../authentication/CredentialsExtractor';
 import type { Authorizer } from '../authorization/Authorizer';
 import type { PermissionReader } from '../authorization/PermissionReader';
@@ -39,6 +40,9 @@ export interface AuthorizingHttpHandlerArgs {
  *  - Extracting the required permissions.
  *  - Reading the allowed permissions for the credentials.
  *  - Validating if this operation is allowed.
+ *
+ * The operation handler is called with the credentials as the credentials of the request,
+ * see {@link runWithCredentials}.
  */
 export class AuthorizingHttpHandler extends OperationHttpHandler {
   private readonly logger = getLoggerFor(this);
@@ -79,6 +83,7 @@ export class AuthorizingHttpHandler extends OperationHttpHandler {
 
     this.logger.verbose(`Authorization succeeded, calling source handler`);
 
-    return this.operationHandler.handleSafe(input);
+    return runWithCredentials(credentials, async(): Promise<ResponseDescription> =>
+      this.operationHandler.handleSafe(input));
   }
 }
@@ -2,6 +2,8 @@ import type { Server } from 'http';
 import type { Socket } from 'net';
 import type { WebSocket } from 'ws';
 import { Server as WebSocketServer } from 'ws';
+import { getLoggerFor } from '../logging/LogUtil';
+import { createErrorMessage } from '../util/errors/ErrorUtil';
 import type { HttpRequest } from './HttpRequest';
 import type { HttpServerFactory } from './HttpServerFactory';
 import type { WebSocketHandler } from './WebSocketHandler';
@@ -10,6 +12,8 @@ import type { WebSocketHandler } from './WebSocketHandler';
  * Factory that adds WebSocket functionality to an existing server
  */
 export class WebSocketServerFactory implements HttpServerFactory {
+  protected readonly logger = getLoggerFor(this);
+
   private readonly baseServerFactory: HttpServerFactory;
   private readonly webSocketHandler: WebSocketHandler;
 
@@ -22,7 +26,12 @@ export class WebSocketServerFactory implements HttpServerFactory {
     // Create WebSocket server
     const webSocketServer = new WebSocketServer({ noServer: true });
     webSocketServer.on('connection', async(webSocket: WebSocket, upgradeRequest: HttpRequest): Promise<void> => {
-      await this.webSocketHandler.handleSafe({ webSocket, upgradeRequest });
+      try {
+        await this.webSocketHandler.handleSafe({ webSocket, upgradeRequest });
+      } catch (error: unknown) {
+        this.logger.warn(`Unable to handle WebSocket connection: ${createErrorMessage(error)}`);
+        webSocket.close();
+      }
     });
 
     // Create base HTTP server
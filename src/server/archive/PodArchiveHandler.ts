@@ -0,0 +1,131 @@
+import type { CredentialsExtractor } from '../../authentication/CredentialsExtractor';
+import type { Authorizer } from '../../authorization/Authorizer';
+import type { PermissionReader } from '../../authorization/PermissionReader';
+import { AclMode } from '../../authorization/permissions/AclPermission';
+import type { AccessMode } from '../../authorization/permissions/Permissions';
+import { OkResponseDescription } from '../../http/output/response/OkResponseDescription';
+import type { ResponseDescription } from '../../http/output/response/ResponseDescription';
+import { BasicRepresentation } from '../../http/representation/BasicRepresentation';
+import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
+import { getLoggerFor } from '../../logging/LogUtil';
+import type { PodArchiver } from '../../storage/archive/PodArchiver';
+import type { ResourceStore } from '../../storage/ResourceStore';
+import { APPLICATION_JSON, APPLICATION_X_TAR } from '../../util/ContentTypes';
+import { MethodNotAllowedHttpError } from '../../util/errors/MethodNotAllowedHttpError';
+import { NotFoundHttpError } from '../../util/errors/NotFoundHttpError';
+import { UnsupportedMediaTypeHttpError } from '../../util/errors/UnsupportedMediaTypeHttpError';
+import { IdentifierSetMultiMap } from '../../util/map/IdentifierMap';
+import { PIM, RDF } from '../../util/Vocabularies';
+import type { OperationHttpHandlerInput } from '../OperationHttpHandler';
+import { OperationHttpHandler } from '../OperationHttpHandler';
+
+export interface PodArchiveHandlerArgs {
+  /**
+   * Store used to verify the storage root.
+   */
+  store: ResourceStore;
+  /**
+   * Generates and imports the archives.
+   */
+  archiver: PodArchiver;
+  /**
+   * Relative path of the archive resource, starting from the storage root.
+   */
+  path: string;
+  /**
+   * Used to extract the credentials from the request.
+   */
+  credentialsExtractor: CredentialsExtractor;
+  /**
+   * Used to determine which permissions the found credentials have.
+   */
+  permissionReader: PermissionReader;
+  /**
+   * Used to determine if the request has the necessary permissions.
+   */
+  authorizer: Authorizer;
+}
+
+/**
+ * Exposes the contents of a storage as a tar archive, as generated by a {@link PodArchiver}.
+ * The input path needs to be relative to the storage root, e.g., `.archive`.
+ * Only agents with control permissions on the storage root can access it.
+ *
+ * The following requests are supported:
+ *  * GET: returns an archive of all resources in the storage.
+ *  * PUT: imports the resources of an `application/x-tar` archive into the storage,
+ *    replacing existing resources with the same path.
+ *    The response is a JSON object with the number of imported resources.
+ *
+ * Requests targeting the archive of a container that is not a `pim:Storage` result in a 404.
+ */
+export class PodArchiveHandler extends OperationHttpHandler {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly store: ResourceStore;
+  private readonly archiver: PodArchiver;
+  private readonly path: string;
+  private readonly credentialsExtractor: CredentialsExtractor;
+  private readonly permissionReader: PermissionReader;
+  private readonly authorizer: Authorizer;
+
+  public constructor(args: PodArchiveHandlerArgs) {
+    super();
+    this.store = args.store;
+    this.archiver = args.archiver;
+    this.path = args.path;
+    this.credentialsExtractor = args.credentialsExtractor;
+    this.permissionReader = args.permissionReader;
+    this.authorizer = args.authorizer;
+  }
+
+  public async canHandle({ operation }: OperationHttpHandlerInput): Promise<void> {
+    const { target, method } = operation;
+    if (!target.path.endsWith(`/${this.path}`)) {
+      throw new NotFoundHttpError(`Only targets ending with ${this.path} are supported.`);
+    }
+    if (method !== 'GET' && method !== 'PUT') {
+      throw new MethodNotAllowedHttpError([ method ], `Only GET, PUT requests can target this resource.`);
+    }
+
+    const storage = this.getStorageIdentifier(target);
+    const representation = await this.store.getRepresentation(storage, {});
+    representation.data.destroy();
+    if (!representation.metadata.has(RDF.terms.type, PIM.terms.Storage)) {
+      throw new NotFoundHttpError(`Only storage containers can be archived.`);
+    }
+  }
+
+  public async handle({ operation, request }: OperationHttpHandlerInput): Promise<ResponseDescription> {
+    const { target, method, body } = operation;
+    const storage = this.getStorageIdentifier(target);
+
+    // Only the owners of the storage can export or import it
+    const credentials = await this.credentialsExtractor.handleSafe(request);
+    const control = AclMode.control as unknown as AccessMode;
+    const requestedModes = new IdentifierSetMultiMap<AccessMode>([[ storage, control ]]);
+    const availablePermissions = await this.permissionReader.handleSafe({ credentials, requestedModes });
+    await this.authorizer.handleSafe({ credentials, requestedModes, availablePermissions });
+
+    if (method === 'GET') {
+      this.logger.info(`Exporting ${storage.path}`);
+      const representation = new BasicRepresentation(this.archiver.export(storage), target, APPLICATION_X_TAR);
+      return new OkResponseDescription(representation.metadata, representation.data);
+    }
+
+    if (body.metadata.contentType !== APPLICATION_X_TAR) {
+      throw new UnsupportedMediaTypeHttpError(`Only ${APPLICATION_X_TAR} archives can be imported.`);
+    }
+    const resources = await this.archiver.import(storage, body.data);
+    this.logger.info(`Imported ${resources} resources into ${storage.path}`);
+    const representation = new BasicRepresentation(JSON.stringify({ resources }), target, APPLICATION_JSON);
+    return new OkResponseDescription(representation.metadata, representation.data);
+  }
+
+  /**
+   * Determine the storage root of the archive the target belongs to.
+   */
+  private getStorageIdentifier(target: ResourceIdentifier): ResourceIdentifier {
+    return { path: target.path.slice(0, -this.path.length) };
+  }
+}
@@ -0,0 +1,35 @@
+import type { NamedNode, Quad } from '@rdfjs/types';
+import { DataFactory } from 'n3';
+import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
+import { toNamedTerm } from '../../util/TermUtil';
+import { StorageDescriber } from './StorageDescriber';
+import quad = DataFactory.quad;
+
+/**
+ * Adds a fixed set of triples to the storage description resource,
+ * with the storage root being the subject.
+ */
+export class StaticStorageDescriber extends StorageDescriber {
+  private readonly terms: ReadonlyMap<NamedNode, NamedNode[]>;
+
+  public constructor(terms: Record<string, string | string[]>) {
+    super();
+    const termMap = new Map<NamedNode, NamedNode[]>();
+    for (const [ predicate, objects ] of Object.entries(terms)) {
+      const values = Array.isArray(objects) ? objects : [ objects ];
+      termMap.set(toNamedTerm(predicate), values.map((value): NamedNode => toNamedTerm(value)));
+    }
+    this.terms = termMap;
+  }
+
+  public async handle(target: ResourceIdentifier): Promise<Quad[]> {
+    const subject = toNamedTerm(target.path);
+    const quads: Quad[] = [];
+    for (const [ predicate, objects ] of this.terms) {
+      for (const object of objects) {
+        quads.push(quad(subject, predicate, object));
+      }
+    }
+    return quads;
+  }
+}
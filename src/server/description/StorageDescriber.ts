@@ -0,0 +1,9 @@
+import type { Quad } from '@rdfjs/types';
+import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
+import { AsyncHandler } from '../../util/handlers/AsyncHandler';
+
+/**
+ * Generates Quads that need to be added to the given storage description resource.
+ * The input identifier is that of the storage root the description is about.
+ */
+export abstract class StorageDescriber extends AsyncHandler<ResourceIdentifier, Quad[]> {}
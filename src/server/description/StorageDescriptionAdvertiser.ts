@@ -0,0 +1,62 @@
+import { MetadataWriter } from '../../http/output/metadata/MetadataWriter';
+import type { RepresentationMetadata } from '../../http/representation/RepresentationMetadata';
+import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
+import { getLoggerFor } from '../../logging/LogUtil';
+import type { ResourceStore } from '../../storage/ResourceStore';
+import { createErrorMessage } from '../../util/errors/ErrorUtil';
+import { addHeader } from '../../util/HeaderUtil';
+import type { IdentifierStrategy } from '../../util/identifiers/IdentifierStrategy';
+import { joinUrl } from '../../util/PathUtil';
+import { LDP, PIM, RDF, SOLID } from '../../util/Vocabularies';
+import type { HttpResponse } from '../HttpResponse';
+
+/**
+ * Adds a link header pointing to the relevant storage description resource.
+ * Recursively checks parent containers until a storage container is found,
+ * and then appends the provided relative path to determine the storage description resource.
+ */
+export class StorageDescriptionAdvertiser extends MetadataWriter {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly identifierStrategy: IdentifierStrategy;
+  private readonly store: ResourceStore;
+  private readonly path: string;
+
+  public constructor(identifierStrategy: IdentifierStrategy, store: ResourceStore, path: string) {
+    super();
+    this.identifierStrategy = identifierStrategy;
+    this.store = store;
+    this.path = path;
+  }
+
+  public async handle({ response, metadata }: { response: HttpResponse; metadata: RepresentationMetadata }):
+  Promise<void> {
+    // This indicates this is the response of a successful GET/HEAD request
+    if (!metadata.has(RDF.terms.type, LDP.terms.Resource)) {
+      return;
+    }
+    const identifier = { path: metadata.identifier.value };
+    let storageRoot: ResourceIdentifier;
+    try {
+      storageRoot = await this.findStorageRoot(identifier);
+    } catch (error: unknown) {
+      this.logger.error(`Unable to find storage root: ${createErrorMessage(error)}`);
+      return;
+    }
+    const storageDescription = joinUrl(storageRoot.path, this.path);
+    addHeader(response, 'Link', `<${storageDescription}>; rel="${SOLID.storageDescription}"`);
+  }
+
+  /**
+   * Finds the closest container, starting from the given identifier, that is marked as a storage.
+   */
+  private async findStorageRoot(identifier: ResourceIdentifier): Promise<ResourceIdentifier> {
+    const representation = await this.store.getRepresentation(identifier, {});
+    // We only need the metadata
+    representation.data.destroy();
+    if (representation.metadata.has(RDF.terms.type, PIM.terms.Storage)) {
+      return identifier;
+    }
+    return this.findStorageRoot(this.identifierStrategy.getParentContainer(identifier));
+  }
+}
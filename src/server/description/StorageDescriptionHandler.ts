@@ -0,0 +1,90 @@
+import { OkResponseDescription } from '../../http/output/response/OkResponseDescription';
+import type { ResponseDescription } from '../../http/output/response/ResponseDescription';
+import { BasicRepresentation } from '../../http/representation/BasicRepresentation';
+import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
+import type { RepresentationConverter } from '../../storage/conversion/RepresentationConverter';
+import type { ResourceStore } from '../../storage/ResourceStore';
+import { INTERNAL_QUADS } from '../../util/ContentTypes';
+import { MethodNotAllowedHttpError } from '../../util/errors/MethodNotAllowedHttpError';
+import { NotFoundHttpError } from '../../util/errors/NotFoundHttpError';
+import { ensureTrailingSlash } from '../../util/PathUtil';
+import { PIM, RDF } from '../../util/Vocabularies';
+import type { OperationHttpHandlerInput } from '../OperationHttpHandler';
+import { OperationHttpHandler } from '../OperationHttpHandler';
+import type { StorageDescriber } from './StorageDescriber';
+
+export interface StorageDescriptionHandlerArgs {
+  /**
+   * Store used to verify the target container is a storage.
+   */
+  store: ResourceStore;
+  /**
+   * Relative path of the storage description resource, starting from the storage root.
+   */
+  path: string;
+  /**
+   * Generates the contents of the description.
+   */
+  describer: StorageDescriber;
+  /**
+   * Converts the description to the requested content type.
+   */
+  converter: RepresentationConverter;
+}
+
+/**
+ * Generates the response for GET requests targeting a storage description resource.
+ * The input path needs to be relative to the storage root,
+ * e.g., `.well-known/solid`.
+ * Requests targeting that path relative to a container that is not a `pim:Storage` result in a 404.
+ */
+export class StorageDescriptionHandler extends OperationHttpHandler {
+  private readonly store: ResourceStore;
+  private readonly path: string;
+  private readonly describer: StorageDescriber;
+  private readonly converter: RepresentationConverter;
+
+  public constructor(args: StorageDescriptionHandlerArgs) {
+    super();
+    this.store = args.store;
+    this.path = args.path;
+    this.describer = args.describer;
+    this.converter = args.converter;
+  }
+
+  public async canHandle({ operation }: OperationHttpHandlerInput): Promise<void> {
+    const { target, method } = operation;
+    if (method !== 'GET') {
+      throw new MethodNotAllowedHttpError([ method ], `Only GET requests can target the storage description.`);
+    }
+    if (!target.path.endsWith(this.path)) {
+      throw new NotFoundHttpError(`Only targets ending in ${this.path} are supported.`);
+    }
+    const storage = this.getStorageIdentifier(target);
+    const representation = await this.store.getRepresentation(storage, {});
+    representation.data.destroy();
+    if (!representation.metadata.has(RDF.terms.type, PIM.terms.Storage)) {
+      throw new NotFoundHttpError(`Only supports descriptions of storage containers.`);
+    }
+
+    await this.describer.canHandle(storage);
+  }
+
+  public async handle({ operation }: OperationHttpHandlerInput): Promise<ResponseDescription> {
+    const storage = this.getStorageIdentifier(operation.target);
+    const quads = await this.describer.handle(storage);
+    const representation = await this.converter.handleSafe({
+      identifier: operation.target,
+      representation: new BasicRepresentation(quads, operation.target, INTERNAL_QUADS, false),
+      preferences: operation.preferences,
+    });
+    return new OkResponseDescription(representation.metadata, representation.data);
+  }
+
+  /**
+   * Determines the identifier of the storage root the description applies to.
+   */
+  private getStorageIdentifier(target: ResourceIdentifier): ResourceIdentifier {
+    return { path: ensureTrailingSlash(target.path.slice(0, -this.path.length)) };
+  }
+}
@@ -0,0 +1,221 @@
+import type { NamedNode } from '@rdfjs/types';
+import { v4 } from 'uuid';
+import type { CredentialSet } from '../../authentication/Credentials';
+import type { AccessMap } from '../../authorization/permissions/Permissions';
+import { AccessMode } from '../../authorization/permissions/Permissions';
+import type { InteractionRoute } from '../../identity/interaction/routing/InteractionRoute';
+import { matchesMediaType } from '../../storage/conversion/ConversionUtil';
+import { APPLICATION_LD_JSON } from '../../util/ContentTypes';
+import { BadRequestHttpError } from '../../util/errors/BadRequestHttpError';
+import { IdentifierSetMultiMap } from '../../util/map/IdentifierMap';
+import { NOTIFY } from '../../util/Vocabularies';
+import { CONTEXT_NOTIFICATION } from './Notification';
+import type { NotificationChannel } from './NotificationChannel';
+import type { NotificationChannelType, SubscriptionService } from './NotificationChannelType';
+
+// Matches the subset of ISO 8601 durations that have a fixed length, e.g., `PT1H30M` or `P1DT12H`.
+const DURATION_REGEX = /^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/u;
+
+/**
+ * The features this class supports when validating subscription requests.
+ */
+export const DEFAULT_NOTIFICATION_FEATURES = [
+  NOTIFY.accept,
+  NOTIFY.endAt,
+  NOTIFY.rate,
+  NOTIFY.startAt,
+];
+
+/**
+ * Converts an ISO 8601 duration to a number of milliseconds.
+ * Only supports durations with a fixed length, so years, months and weeks are not supported.
+ * Returns undefined if the string could not be parsed.
+ */
+function parseDuration(duration: string): number | undefined {
+  const match = DURATION_REGEX.exec(duration);
+  // The regex also matches a single `P` or a trailing `T`, which are not valid durations
+  if (!match || duration === 'P' || duration.endsWith('T')) {
+    return;
+  }
+  const [ days, hours, minutes, seconds ] = match.slice(1).map((value): number => Number(value ?? 0));
+  const totalSeconds = (days * 86400) + (hours * 3600) + (minutes * 60) + seconds;
+  return totalSeconds * 1000;
+}
+
+/**
+ * A {@link NotificationChannelType} that handles the base case of parsing and serializing a notification channel.
+ * Note that the `extractModes` call only requires Read permissions on the topic resource.
+ *
+ * Extensions of this class can override the `validateChannel` function to add extra checks
+ * and extend the channel with type-specific fields.
+ */
+export abstract class BaseChannelType implements NotificationChannelType {
+  protected readonly type: NamedNode;
+  protected readonly path: string;
+  protected readonly features: string[];
+
+  /**
+   * @param type - The URI of the notification channel type.
+   *               This will be added to the channel description resource.
+   * @param route - The route corresponding to the URL of the subscription service of this channel type.
+   *                Channel identifiers will be generated by appending a value to this URL.
+   * @param features - The features that should be enabled for this channel type.
+   *                   Values are expected to be full URIs, but the `notify:` prefix can also be used.
+   */
+  protected constructor(type: NamedNode, route: InteractionRoute, features: string[] = DEFAULT_NOTIFICATION_FEATURES) {
+    this.type = type;
+    this.path = route.getPath();
+    this.features = features.map((feature): string => feature.replace(/^notify:/u, NOTIFY.namespace));
+  }
+
+  public getDescription(): SubscriptionService {
+    return {
+      '@context': [ CONTEXT_NOTIFICATION ],
+      id: this.path,
+      channelType: this.type.value,
+      feature: this.features,
+    };
+  }
+
+  public async initChannel(data: NodeJS.Dict<unknown>, credentials: CredentialSet): Promise<NotificationChannel> {
+    if (!this.isType(data.type)) {
+      throw new BadRequestHttpError(`Only ${this.type.value} subscriptions are supported.`);
+    }
+    const topic = this.getString(data, 'topic', true)!;
+    try {
+      // Verify it is a valid URL
+      // eslint-disable-next-line no-new
+      new URL(topic);
+    } catch {
+      throw new BadRequestHttpError(`Invalid topic ${topic}`);
+    }
+
+    const channel: NotificationChannel = {
+      id: `${this.path}${v4()}`,
+      type: this.type.value,
+      topic,
+    };
+
+    if (this.supportsFeature(NOTIFY.state)) {
+      channel.state = this.getString(data, 'state');
+    }
+    if (this.supportsFeature(NOTIFY.startAt)) {
+      channel.startAt = this.getDate(data, 'startAt');
+    }
+    if (this.supportsFeature(NOTIFY.endAt)) {
+      channel.endAt = this.getDate(data, 'endAt');
+      if (typeof channel.endAt === 'number' && channel.endAt < Date.now()) {
+        throw new BadRequestHttpError('The endAt value needs to be in the future.');
+      }
+    }
+    if (this.supportsFeature(NOTIFY.rate)) {
+      const rate = this.getString(data, 'rate');
+      if (rate) {
+        channel.rate = parseDuration(rate);
+        if (typeof channel.rate === 'undefined') {
+          throw new BadRequestHttpError(`Unsupported rate duration ${rate}`);
+        }
+      }
+    }
+    if (this.supportsFeature(NOTIFY.accept)) {
+      channel.accept = this.getString(data, 'accept');
+      if (channel.accept && !matchesMediaType(channel.accept, APPLICATION_LD_JSON)) {
+        throw new BadRequestHttpError(`Only ${APPLICATION_LD_JSON} notifications are supported.`);
+      }
+    }
+
+    return this.validateChannel(channel, data, credentials);
+  }
+
+  /**
+   * Can be overridden by extending classes to validate the request data and add extra fields to the channel.
+   * The default implementation returns the channel unchanged.
+   *
+   * @param channel - The channel that was generated by the base class.
+   * @param data - The parsed JSON body of the subscription request.
+   * @param credentials - The credentials of the agent doing the request.
+   */
+  /* eslint-disable @typescript-eslint/no-unused-vars */
+  protected async validateChannel(channel: NotificationChannel, data: NodeJS.Dict<unknown>,
+    credentials: CredentialSet): Promise<NotificationChannel> {
+    return channel;
+  }
+  /* eslint-enable @typescript-eslint/no-unused-vars */
+
+  public async toJsonLd(channel: NotificationChannel): Promise<Record<string, unknown>> {
+    const result: Record<string, unknown> = {
+      '@context': [ CONTEXT_NOTIFICATION ],
+      id: channel.id,
+      type: channel.type,
+      topic: channel.topic,
+    };
+    if (channel.state) {
+      result.state = channel.state;
+    }
+    if (typeof channel.startAt === 'number') {
+      result.startAt = new Date(channel.startAt).toISOString();
+    }
+    if (typeof channel.endAt === 'number') {
+      result.endAt = new Date(channel.endAt).toISOString();
+    }
+    if (typeof channel.rate === 'number') {
+      result.rate = `PT${channel.rate / 1000}S`;
+    }
+    if (channel.accept) {
+      result.accept = channel.accept;
+    }
+    return result;
+  }
+
+  public async extractModes(channel: NotificationChannel): Promise<AccessMap> {
+    return new IdentifierSetMultiMap<AccessMode>([[{ path: channel.topic }, AccessMode.read ]]);
+  }
+
+  /**
+   * Checks if the given value corresponds to the type of this class.
+   * Supports both the full URI and the compacted term from the notification context.
+   */
+  private isType(value: unknown): boolean {
+    const types = Array.isArray(value) ? value : [ value ];
+    return types.some((type): boolean => type === this.type.value ||
+      type === this.type.value.slice(NOTIFY.namespace.length) ||
+      type === `notify:${this.type.value.slice(NOTIFY.namespace.length)}`);
+  }
+
+  private supportsFeature(feature: string): boolean {
+    return this.features.includes(feature);
+  }
+
+  /**
+   * Returns the string value of the given key in the data.
+   * Errors in case the value has a different type or is required but missing.
+   */
+  private getString(data: NodeJS.Dict<unknown>, key: string, required = false): string | undefined {
+    const value = data[key];
+    if (typeof value === 'undefined') {
+      if (required) {
+        throw new BadRequestHttpError(`Missing required field ${key}`);
+      }
+      return;
+    }
+    if (typeof value !== 'string') {
+      throw new BadRequestHttpError(`Expected a string for field ${key}`);
+    }
+    return value;
+  }
+
+  /**
+   * Returns the timestamp of the `xsd:dateTime` value of the given key.
+   */
+  private getDate(data: NodeJS.Dict<unknown>, key: string): number | undefined {
+    const value = this.getString(data, key);
+    if (typeof value === 'undefined') {
+      return;
+    }
+    const timestamp = Date.parse(value);
+    if (Number.isNaN(timestamp)) {
+      throw new BadRequestHttpError(`Invalid date value ${value} for field ${key}`);
+    }
+    return timestamp;
+  }
+}
@@ -0,0 +1,109 @@
+import type { EventEmitter } from 'events';
+import type { NamedNode } from '@rdfjs/types';
+import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
+import type { Finalizable } from '../../init/final/Finalizable';
+import { getLoggerFor } from '../../logging/LogUtil';
+import { createErrorMessage } from '../../util/errors/ErrorUtil';
+import { StaticHandler } from '../../util/handlers/StaticHandler';
+import type { NotificationChannelStorage } from './NotificationChannelStorage';
+import type { NotificationHandler, NotificationHandlerInput } from './NotificationHandler';
+
+/**
+ * Listens to the `changed` events of the given {@link EventEmitter},
+ * which is usually a {@link MonitoringStore},
+ * and calls the {@link NotificationHandler} for every channel that has the changed resource as topic.
+ *
+ * Takes the `startAt` and `rate` features of the channels into account.
+ * Channels the handler does not support are skipped,
+ * so different listeners can handle different channel types.
+ * When finalized, waits until all notifications that are being handled are finished.
+ *
+ * Extends {@link StaticHandler} so it can be more easily injected into a Components.js configuration.
+ * No class takes this one as input, so to make sure Components.js instantiates it,
+ * it needs to be added somewhere where its presence has no impact, such as the list of initializers.
+ */
+export class ListeningActivityHandler extends StaticHandler implements Finalizable {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly storage: NotificationChannelStorage;
+  private readonly handler: NotificationHandler;
+  private readonly pending = new Set<Promise<void>>();
+
+  public constructor(storage: NotificationChannelStorage, emitter: EventEmitter, handler: NotificationHandler) {
+    super();
+    this.storage = storage;
+    this.handler = handler;
+
+    emitter.on('changed', (topic: ResourceIdentifier, activity?: NamedNode): void => {
+      this.track(this.emit(topic, activity).catch((error): void => {
+        this.logger.error(`Something went wrong emitting notifications: ${createErrorMessage(error)}`);
+      }));
+    });
+  }
+
+  public async finalize(): Promise<void> {
+    // Handling a notification can cause new promises to be added
+    while (this.pending.size > 0) {
+      await Promise.all(this.pending);
+    }
+  }
+
+  /**
+   * Keeps track of the given promise until it resolves.
+   * The promise should never reject.
+   */
+  private track(promise: Promise<void>): void {
+    const remove = (): void => {
+      this.pending.delete(promise);
+    };
+    this.pending.add(promise);
+    promise.then(remove, remove);
+  }
+
+  private async emit(topic: ResourceIdentifier, activity?: NamedNode): Promise<void> {
+    const channelIds = await this.storage.getAll(topic);
+
+    for (const id of channelIds) {
+      const channel = await this.storage.get(id);
+      if (!channel) {
+        // Notification channel has expired
+        continue;
+      }
+
+      const now = Date.now();
+      if (typeof channel.rate === 'number' && (channel.lastEmit ?? 0) + channel.rate > now) {
+        // Don't emit notifications more often than the rate allows
+        continue;
+      }
+
+      if (typeof channel.startAt === 'number' && channel.startAt > now) {
+        // Don't emit notifications before the start time
+        continue;
+      }
+
+      // No need to wait on this to resolve before going to the next channel.
+      // Prevent failed notification from blocking other notifications.
+      this.track(this.handleChannel({ channel, activity, topic }, now)
+        .catch((error): void => {
+          this.logger.error(`Error trying to handle notification for ${id}: ${createErrorMessage(error)}`);
+        }));
+    }
+  }
+
+  private async handleChannel(input: NotificationHandlerInput, now: number): Promise<void> {
+    try {
+      await this.handler.canHandle(input);
+    } catch {
+      // The channel type is handled by a different listener
+      this.logger.debug(`Ignoring notification channel ${input.channel.id} of type ${input.channel.type}`);
+      return;
+    }
+    await this.handler.handle(input);
+
+    // Update the `lastEmit` value if the channel has a rate limit
+    if (typeof input.channel.rate === 'number') {
+      input.channel.lastEmit = now;
+      await this.storage.update(input.channel);
+    }
+  }
+}
@@ -0,0 +1,15 @@
+export const CONTEXT_ACTIVITYSTREAMS = 'https://www.w3.org/ns/activitystreams';
+export const CONTEXT_NOTIFICATION = 'https://www.w3.org/ns/solid/notification/v1';
+
+/**
+ * The minimal expected fields for a Notification
+ * as defined in https://solidproject.org/TR/2022/notifications-protocol-20221231#notification-data-model.
+ */
+export interface Notification {
+  '@context': string[];
+  id: string;
+  type: string;
+  object: string;
+  state?: string;
+  published: string;
+}
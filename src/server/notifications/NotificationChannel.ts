@@ -0,0 +1,46 @@
+/**
+ * Internal representation of a notification channel.
+ * Most of the fields are those defined in
+ * https://solidproject.org/TR/2022/notifications-protocol-20221231#notification-channel-data-model
+ *
+ * Dates are stored as millisecond timestamps, durations in milliseconds.
+ */
+export interface NotificationChannel {
+  /**
+   * The unique identifier of the channel.
+   */
+  id: string;
+  /**
+   * The channel type.
+   */
+  type: string;
+  /**
+   * The resource this channel sends notifications about.
+   */
+  topic: string;
+  /**
+   * The state parameter sent by the receiver.
+   * This is used to send a notification when the channel is established and the topic resource has a different state.
+   */
+  state?: string;
+  /**
+   * When the channel should start sending notifications.
+   */
+  startAt?: number;
+  /**
+   * When the channel should stop existing.
+   */
+  endAt?: number;
+  /**
+   * The minimal time required between notifications.
+   */
+  rate?: number;
+  /**
+   * The media type in which the receiver expects the notifications.
+   */
+  accept?: string;
+  /**
+   * Internal value that we use to track when this channel last sent a notification.
+   */
+  lastEmit?: number;
+}
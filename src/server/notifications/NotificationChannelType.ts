@@ -0,0 +1,50 @@
+import type { CredentialSet } from '../../authentication/Credentials';
+import type { AccessMap } from '../../authorization/permissions/Permissions';
+import type { NotificationChannel } from './NotificationChannel';
+
+/**
+ * The description of a subscription service,
+ * which gets added to the storage description resource.
+ */
+export interface SubscriptionService {
+  '@context': string[];
+  id: string;
+  channelType: string;
+  feature: string[];
+}
+
+/**
+ * A specific channel type as defined at
+ * https://solidproject.org/TR/2022/notifications-protocol-20221231#notification-channel-types.
+ *
+ * All functions that take a {@link NotificationChannel} as input
+ * only need to support channels generated by an `initChannel` on the same class.
+ */
+export interface NotificationChannelType {
+  /**
+   * Returns the {@link SubscriptionService} that describes how to subscribe to this channel type.
+   */
+  getDescription: () => SubscriptionService;
+
+  /**
+   * Validates the given subscription request and creates a {@link NotificationChannel} based on it.
+   * Errors with a {@link BadRequestHttpError} in case the input is invalid.
+   * @param data - The parsed JSON body of the subscription request.
+   * @param credentials - The credentials of the agent doing the request.
+   */
+  initChannel: (data: NodeJS.Dict<unknown>, credentials: CredentialSet) => Promise<NotificationChannel>;
+
+  /**
+   * Converts a {@link NotificationChannel} to a serialized JSON-LD representation.
+   * This is the response body that will be sent to the client that made the subscription request.
+   */
+  toJsonLd: (channel: NotificationChannel) => Promise<Record<string, unknown>>;
+
+  /**
+   * Determines which modes are required to allow the given channel.
+   * @param channel - The channel to verify.
+   *
+   * @returns The required modes.
+   */
+  extractModes: (channel: NotificationChannel) => Promise<AccessMap>;
+}
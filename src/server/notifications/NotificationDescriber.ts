@@ -0,0 +1,34 @@
+import type { Quad } from '@rdfjs/types';
+import { DataFactory } from 'n3';
+import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
+import { NOTIFY } from '../../util/Vocabularies';
+import { StorageDescriber } from '../description/StorageDescriber';
+import type { NotificationChannelType } from './NotificationChannelType';
+import namedNode = DataFactory.namedNode;
+import quad = DataFactory.quad;
+
+/**
+ * Outputs quads describing all the subscription services of the server,
+ * as described in https://solidproject.org/TR/2022/notifications-protocol-20221231#discovery.
+ */
+export class NotificationDescriber extends StorageDescriber {
+  private readonly subscriptions: NotificationChannelType[];
+
+  public constructor(subscriptions: NotificationChannelType[]) {
+    super();
+    this.subscriptions = subscriptions;
+  }
+
+  public async handle(identifier: ResourceIdentifier): Promise<Quad[]> {
+    const subject = namedNode(identifier.path);
+    const quads: Quad[] = [];
+    for (const subscription of this.subscriptions) {
+      const { id, channelType, feature } = subscription.getDescription();
+      const service = namedNode(id);
+      quads.push(quad(subject, NOTIFY.terms.subscription, service));
+      quads.push(quad(service, NOTIFY.terms.channelType, namedNode(channelType)));
+      quads.push(...feature.map((value): Quad => quad(service, NOTIFY.terms.feature, namedNode(value))));
+    }
+    return quads;
+  }
+}
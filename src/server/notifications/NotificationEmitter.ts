@@ -0,0 +1,13 @@
+import type { Representation } from '../../http/representation/Representation';
+import { AsyncHandler } from '../../util/handlers/AsyncHandler';
+import type { NotificationChannel } from './NotificationChannel';
+
+export interface NotificationEmitterInput<T = Representation> {
+  representation: T;
+  channel: NotificationChannel;
+}
+
+/**
+ * Emits a serialized Notification to the given notification channel.
+ */
+export abstract class NotificationEmitter<T = Representation> extends AsyncHandler<NotificationEmitterInput<T>> {}
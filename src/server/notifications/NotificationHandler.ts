@@ -0,0 +1,15 @@
+import type { NamedNode } from '@rdfjs/types';
+import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
+import { AsyncHandler } from '../../util/handlers/AsyncHandler';
+import type { NotificationChannel } from './NotificationChannel';
+
+export interface NotificationHandlerInput {
+  topic: ResourceIdentifier;
+  channel: NotificationChannel;
+  activity?: NamedNode;
+}
+
+/**
+ * Makes sure an activity gets emitted to the relevant channel.
+ */
+export abstract class NotificationHandler extends AsyncHandler<NotificationHandlerInput> {}
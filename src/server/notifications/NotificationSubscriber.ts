@@ -0,0 +1,119 @@
+import type { CredentialSet } from '../../authentication/Credentials';
+import type { CredentialsExtractor } from '../../authentication/CredentialsExtractor';
+import type { Authorizer } from '../../authorization/Authorizer';
+import type { PermissionReader } from '../../authorization/PermissionReader';
+import { OkResponseDescription } from '../../http/output/response/OkResponseDescription';
+import type { ResponseDescription } from '../../http/output/response/ResponseDescription';
+import { BasicRepresentation } from '../../http/representation/BasicRepresentation';
+import { getLoggerFor } from '../../logging/LogUtil';
+import { APPLICATION_JSON, APPLICATION_LD_JSON } from '../../util/ContentTypes';
+import { BadRequestHttpError } from '../../util/errors/BadRequestHttpError';
+import { createErrorMessage } from '../../util/errors/ErrorUtil';
+import { MethodNotAllowedHttpError } from '../../util/errors/MethodNotAllowedHttpError';
+import { NotFoundHttpError } from '../../util/errors/NotFoundHttpError';
+import { UnsupportedMediaTypeHttpError } from '../../util/errors/UnsupportedMediaTypeHttpError';
+import { readJsonStream } from '../../util/StreamUtil';
+import type { OperationHttpHandlerInput } from '../OperationHttpHandler';
+import { OperationHttpHandler } from '../OperationHttpHandler';
+import type { NotificationChannel } from './NotificationChannel';
+import type { NotificationChannelStorage } from './NotificationChannelStorage';
+import type { NotificationChannelType } from './NotificationChannelType';
+
+export interface NotificationSubscriberArgs {
+  /**
+   * The {@link NotificationChannelType} with all the necessary information.
+   */
+  channelType: NotificationChannelType;
+  /**
+   * Used to extract the credentials from the request.
+   */
+  credentialsExtractor: CredentialsExtractor;
+  /**
+   * Used to determine which permissions the found credentials have.
+   */
+  permissionReader: PermissionReader;
+  /**
+   * Used to determine if the request has the necessary permissions.
+   */
+  authorizer: Authorizer;
+  /**
+   * Storage used to store the channels.
+   */
+  storage: NotificationChannelStorage;
+}
+
+/**
+ * Handles notification subscription requests targeting the subscription service of a single channel type.
+ *
+ * Verifies that the request body describes a valid channel of that type
+ * and that the requesting agent has the permissions needed to receive notifications about its topic.
+ * If so, the channel is stored and its JSON-LD description is returned.
+ */
+export class NotificationSubscriber extends OperationHttpHandler {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly channelType: NotificationChannelType;
+  private readonly credentialsExtractor: CredentialsExtractor;
+  private readonly permissionReader: PermissionReader;
+  private readonly authorizer: Authorizer;
+  private readonly storage: NotificationChannelStorage;
+
+  public constructor(args: NotificationSubscriberArgs) {
+    super();
+    this.channelType = args.channelType;
+    this.credentialsExtractor = args.credentialsExtractor;
+    this.permissionReader = args.permissionReader;
+    this.authorizer = args.authorizer;
+    this.storage = args.storage;
+  }
+
+  public async canHandle({ operation }: OperationHttpHandlerInput): Promise<void> {
+    if (operation.target.path !== this.channelType.getDescription().id) {
+      throw new NotFoundHttpError();
+    }
+    if (operation.method !== 'POST') {
+      throw new MethodNotAllowedHttpError([ operation.method ], 'Subscriptions can only be created through POST.');
+    }
+  }
+
+  public async handle({ operation, request }: OperationHttpHandlerInput): Promise<ResponseDescription> {
+    const { contentType } = operation.body.metadata;
+    if (contentType !== APPLICATION_LD_JSON && contentType !== APPLICATION_JSON) {
+      throw new UnsupportedMediaTypeHttpError(`Subscription requests need to be ${APPLICATION_LD_JSON}.`);
+    }
+
+    let data: NodeJS.Dict<unknown>;
+    try {
+      data = await readJsonStream(operation.body.data);
+    } catch (error: unknown) {
+      throw new BadRequestHttpError(`Unable to parse subscription request: ${createErrorMessage(error)}`);
+    }
+
+    const credentials = await this.credentialsExtractor.handleSafe(request);
+    this.logger.debug(`Extracted credentials: ${JSON.stringify(credentials)}`);
+
+    const channel = await this.channelType.initChannel(data, credentials);
+    await this.authorize(channel, credentials);
+
+    await this.storage.add(channel);
+    this.logger.info(`Created ${channel.type} notification channel ${channel.id} for topic ${channel.topic}`);
+
+    const representation = new BasicRepresentation(
+      JSON.stringify(await this.channelType.toJsonLd(channel)),
+      operation.target,
+      APPLICATION_LD_JSON,
+    );
+    return new OkResponseDescription(representation.metadata, representation.data);
+  }
+
+  /**
+   * Verifies the requesting agent has the permissions required to create the given channel.
+   */
+  private async authorize(channel: NotificationChannel, credentials: CredentialSet): Promise<void> {
+    const requestedModes = await this.channelType.extractModes(channel);
+    const availablePermissions = await this.permissionReader.handleSafe({ credentials, requestedModes });
+
+    await this.authorizer.handleSafe({ credentials, requestedModes, availablePermissions });
+    this.logger.verbose(`Authorization succeeded, creating notification channel`);
+  }
+}
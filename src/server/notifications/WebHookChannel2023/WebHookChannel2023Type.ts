@@ -0,0 +1,82 @@
+import type { CredentialSet } from '../../../authentication/Credentials';
+import type { InteractionRoute } from '../../../identity/interaction/routing/InteractionRoute';
+import { BadRequestHttpError } from '../../../util/errors/BadRequestHttpError';
+import { NOTIFY } from '../../../util/Vocabularies';
+import { BaseChannelType } from '../BaseChannelType';
+import type { NotificationChannel } from '../NotificationChannel';
+
+/**
+ * A {@link NotificationChannel} containing the necessary fields for a WebHookChannel2023 channel.
+ */
+export interface WebHookChannel2023 extends NotificationChannel {
+  /**
+   * The "WebHookChannel2023" type.
+   */
+  type: typeof NOTIFY.WebHookChannel2023;
+  /**
+   * Where the notifications have to be sent.
+   */
+  sendTo: string;
+}
+
+export function isWebHook2023Channel(channel: NotificationChannel): channel is WebHookChannel2023 {
+  return channel.type === NOTIFY.WebHookChannel2023;
+}
+
+/**
+ * The notification channel type WebHookChannel2023 as described in
+ * https://solid.github.io/notifications/webhook-channel-2023
+ *
+ * Requires read permissions on a resource to be able to receive notifications.
+ * The `sendTo` field of the subscription request determines which URL receives the notifications.
+ *
+ * Channels of this type always expire:
+ * if the request has no `endAt` value, or one too far in the future,
+ * it gets replaced by one `maxDuration` minutes from now.
+ */
+export class WebHookChannel2023Type extends BaseChannelType {
+  private readonly maxDuration: number;
+
+  /**
+   * @param route - The route corresponding to the URL of the subscription service of this channel type.
+   * @param features - The features that should be enabled for this channel type.
+   * @param maxDuration - The maximum duration of a channel in minutes. Defaults to 2 weeks.
+   */
+  public constructor(route: InteractionRoute, features?: string[], maxDuration = 20160) {
+    super(NOTIFY.terms.WebHookChannel2023, route, features);
+    this.maxDuration = maxDuration * 60 * 1000;
+  }
+
+  protected async validateChannel(channel: NotificationChannel, data: NodeJS.Dict<unknown>,
+    credentials: CredentialSet): Promise<WebHookChannel2023> {
+    const webHookChannel = await super.validateChannel(channel, data, credentials) as WebHookChannel2023;
+
+    const { sendTo } = data;
+    if (typeof sendTo !== 'string') {
+      throw new BadRequestHttpError('Missing required field sendTo');
+    }
+    let url: URL;
+    try {
+      url = new URL(sendTo);
+    } catch {
+      throw new BadRequestHttpError(`Invalid sendTo value ${sendTo}`);
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new BadRequestHttpError(`Only HTTP(S) sendTo values are supported, received ${sendTo}`);
+    }
+    webHookChannel.sendTo = url.href;
+
+    const maxEndAt = Date.now() + this.maxDuration;
+    if (typeof webHookChannel.endAt !== 'number' || webHookChannel.endAt > maxEndAt) {
+      webHookChannel.endAt = maxEndAt;
+    }
+
+    return webHookChannel;
+  }
+
+  public async toJsonLd(channel: NotificationChannel): Promise<Record<string, unknown>> {
+    const json = await super.toJsonLd(channel);
+    json.sendTo = (channel as WebHookChannel2023).sendTo;
+    return json;
+  }
+}
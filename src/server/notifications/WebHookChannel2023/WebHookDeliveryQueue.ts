@@ -0,0 +1,248 @@
+import { v4 } from 'uuid';
+import type { ResourceIdentifier } from '../../../http/representation/ResourceIdentifier';
+import type { Finalizable } from '../../../init/final/Finalizable';
+import { Initializer } from '../../../init/Initializer';
+import { getLoggerFor } from '../../../logging/LogUtil';
+import type { KeyValueStorage } from '../../../storage/keyvalue/KeyValueStorage';
+import { createErrorMessage } from '../../../util/errors/ErrorUtil';
+import type { ReadWriteLocker } from '../../../util/locking/ReadWriteLocker';
+import { setSafeInterval } from '../../../util/TimerUtil';
+import type { NotificationChannelStorage } from '../NotificationChannelStorage';
+import type { WebHookSender } from './WebHookSender';
+
+/**
+ * A notification that still needs to be sent to a webhook.
+ */
+export interface WebHookDelivery {
+  /**
+   * The unique identifier of the delivery.
+   */
+  id: string;
+  /**
+   * The identifier of the channel the notification belongs to.
+   */
+  channel: string;
+  /**
+   * The URL the notification needs to be sent to.
+   */
+  target: string;
+  /**
+   * The content type of the notification.
+   */
+  contentType: string;
+  /**
+   * The serialized notification.
+   */
+  body: string;
+  /**
+   * How many times sending the notification already failed.
+   */
+  attempts: number;
+  /**
+   * The earliest time at which the next attempt can happen.
+   */
+  nextAttempt: number;
+}
+
+export interface WebHookDeliveryQueueArgs {
+  /**
+   * Storage in which the pending deliveries are stored.
+   */
+  storage: KeyValueStorage<string, WebHookDelivery>;
+  /**
+   * Locker used to make sure a delivery only gets sent once, even if there are multiple workers.
+   */
+  locker: ReadWriteLocker;
+  /**
+   * Storage containing the notification channels, used to verify the channel of a delivery still exists.
+   */
+  channelStorage: NotificationChannelStorage;
+  /**
+   * Sends the notifications to their target.
+   */
+  sender: WebHookSender;
+  /**
+   * How often the queue is checked for deliveries that need to be sent, in milliseconds.
+   * Defaults to 1000.
+   */
+  interval?: number;
+  /**
+   * How many times sending a notification is attempted before it is dropped.
+   * Defaults to 6.
+   */
+  maxAttempts?: number;
+  /**
+   * How long to wait before the first retry, in milliseconds.
+   * This value doubles with every failed attempt.
+   * Defaults to 1000.
+   */
+  backoff?: number;
+  /**
+   * The minimum time between two requests to the same target, in milliseconds.
+   * Defaults to 1000.
+   */
+  rateLimit?: number;
+}
+
+/**
+ * Persists webhook notifications in a {@link KeyValueStorage} until they are successfully delivered,
+ * so no notifications are lost in case the server restarts.
+ *
+ * Deliveries that fail are retried with an exponential backoff,
+ * until the maximum number of attempts is reached.
+ * Requests to a single target are rate limited.
+ * Deliveries for channels that no longer exist, e.g., because they expired, are dropped.
+ *
+ * The queue starts processing once it is initialized and stops when it is finalized.
+ * In case there are multiple workers, every worker processes the queue,
+ * which means the rate limit is applied per worker.
+ */
+export class WebHookDeliveryQueue extends Initializer implements Finalizable {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly storage: KeyValueStorage<string, WebHookDelivery>;
+  private readonly locker: ReadWriteLocker;
+  private readonly channelStorage: NotificationChannelStorage;
+  private readonly sender: WebHookSender;
+  private readonly interval: number;
+  private readonly maxAttempts: number;
+  private readonly backoff: number;
+  private readonly rateLimit: number;
+
+  // Keeps track of when the last request was sent to every target
+  private readonly lastSent = new Map<string, number>();
+  private timer?: NodeJS.Timeout;
+  private processing = false;
+  private rerun = false;
+
+  public constructor(args: WebHookDeliveryQueueArgs) {
+    super();
+    this.storage = args.storage;
+    this.locker = args.locker;
+    this.channelStorage = args.channelStorage;
+    this.sender = args.sender;
+    this.interval = args.interval ?? 1000;
+    this.maxAttempts = args.maxAttempts ?? 6;
+    this.backoff = args.backoff ?? 1000;
+    this.rateLimit = args.rateLimit ?? 1000;
+  }
+
+  public async handle(): Promise<void> {
+    if (!this.timer) {
+      this.timer = setSafeInterval(this.logger,
+        'Failed to process webhook deliveries',
+        this.process.bind(this),
+        this.interval);
+    }
+
+    // Deliveries might remain from before a restart
+    await this.process();
+  }
+
+  public async finalize(): Promise<void> {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Adds a new delivery to the queue and immediately tries to send it.
+   */
+  public async add(delivery: Pick<WebHookDelivery, 'channel' | 'target' | 'contentType' | 'body'>): Promise<void> {
+    const id = v4();
+    await this.storage.set(id, { ...delivery, id, attempts: 0, nextAttempt: Date.now() });
+
+    // No need to wait for the notification to be sent
+    this.process().catch((error): void => {
+      this.logger.error(`Failed to process webhook deliveries: ${createErrorMessage(error)}`);
+    });
+  }
+
+  /**
+   * Sends all deliveries that are due.
+   * Makes sure only one call is active at the same time,
+   * but does an additional run in case there was a call while already processing.
+   */
+  private async process(): Promise<void> {
+    if (this.processing) {
+      this.rerun = true;
+      return;
+    }
+    this.processing = true;
+    try {
+      do {
+        this.rerun = false;
+        await this.processDueDeliveries();
+      } while (this.rerun);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Groups the due deliveries by target so a slow target does not delay the others.
+   * Within a group, the deliveries are sent in the order in which they became due.
+   */
+  private async processDueDeliveries(): Promise<void> {
+    const now = Date.now();
+    const targets: Record<string, WebHookDelivery[]> = {};
+    for await (const [ , delivery ] of this.storage.entries()) {
+      if (delivery.nextAttempt <= now) {
+        (targets[delivery.target] ??= []).push(delivery);
+      }
+    }
+
+    await Promise.all(Object.entries(targets).map(async([ target, deliveries ]): Promise<void> => {
+      deliveries.sort((left, right): number => left.nextAttempt - right.nextAttempt);
+      for (const { id } of deliveries) {
+        if ((this.lastSent.get(target) ?? 0) + this.rateLimit > Date.now()) {
+          // The remaining deliveries will be sent in a next run
+          return;
+        }
+        await this.locker.withWriteLock(this.getLockKey(id), async(): Promise<void> => this.attempt(id));
+      }
+    }));
+  }
+
+  /**
+   * Attempts to send the given delivery, and updates or removes it from the queue depending on the result.
+   */
+  private async attempt(id: string): Promise<void> {
+    // Another worker might already have handled this delivery
+    const delivery = await this.storage.get(id);
+    if (!delivery || delivery.nextAttempt > Date.now()) {
+      return;
+    }
+
+    if (!await this.channelStorage.get(delivery.channel)) {
+      this.logger.info(`Dropping webhook notification as channel ${delivery.channel} no longer exists.`);
+      await this.storage.delete(id);
+      return;
+    }
+
+    this.lastSent.set(delivery.target, Date.now());
+    try {
+      await this.sender.handleSafe(delivery);
+      this.logger.debug(`Sent webhook notification for channel ${delivery.channel} to ${delivery.target}`);
+      await this.storage.delete(id);
+    } catch (error: unknown) {
+      delivery.attempts += 1;
+      const message = `Failed to send webhook notification to ${delivery.target}: ${createErrorMessage(error)}`;
+      if (delivery.attempts >= this.maxAttempts) {
+        this.logger.warn(`${message}. Dropping the notification after ${delivery.attempts} attempts.`);
+        await this.storage.delete(id);
+        return;
+      }
+      const delay = this.backoff * (2 ** (delivery.attempts - 1));
+      this.logger.info(`${message}. Retrying in ${delay}ms.`);
+      delivery.nextAttempt = Date.now() + delay;
+      await this.storage.set(id, delivery);
+    }
+  }
+
+  /**
+   * Generates the identifier that is used to lock a delivery.
+   */
+  private getLockKey(id: string): ResourceIdentifier {
+    return { path: `${id}.webhook-delivery` };
+  }
+}
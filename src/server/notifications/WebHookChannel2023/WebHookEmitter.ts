@@ -0,0 +1,33 @@
+import { InternalServerError } from '../../../util/errors/InternalServerError';
+import { readableToString } from '../../../util/StreamUtil';
+import type { NotificationEmitterInput } from '../NotificationEmitter';
+import { NotificationEmitter } from '../NotificationEmitter';
+import { isWebHook2023Channel } from './WebHookChannel2023Type';
+import type { WebHookDeliveryQueue } from './WebHookDeliveryQueue';
+
+/**
+ * Emits notifications on WebHookChannel2023 subscriptions.
+ * The notifications are added to a {@link WebHookDeliveryQueue},
+ * which takes care of sending them to the `sendTo` URL of the channel.
+ */
+export class WebHookEmitter extends NotificationEmitter {
+  private readonly queue: WebHookDeliveryQueue;
+
+  public constructor(queue: WebHookDeliveryQueue) {
+    super();
+    this.queue = queue;
+  }
+
+  public async handle({ channel, representation }: NotificationEmitterInput): Promise<void> {
+    if (!isWebHook2023Channel(channel)) {
+      throw new InternalServerError(`Only WebHookChannel2023 channels are supported, received ${channel.type}.`);
+    }
+
+    await this.queue.add({
+      channel: channel.id,
+      target: channel.sendTo,
+      contentType: representation.metadata.contentType!,
+      body: await readableToString(representation.data),
+    });
+  }
+}
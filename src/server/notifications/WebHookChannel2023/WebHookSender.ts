@@ -0,0 +1,110 @@
+import { fetch } from 'cross-fetch';
+import { calculateJwkThumbprint, importJWK, SignJWT } from 'jose';
+import { v4 } from 'uuid';
+import type { JwkGenerator } from '../../../identity/configuration/JwkGenerator';
+import type { InteractionRoute } from '../../../identity/interaction/routing/InteractionRoute';
+import { InternalServerError } from '../../../util/errors/InternalServerError';
+import { AsyncHandler } from '../../../util/handlers/AsyncHandler';
+import type { WebHookDelivery } from './WebHookDeliveryQueue';
+
+export interface WebHookSenderArgs {
+  /**
+   * Generates the key pair used to sign the requests.
+   */
+  jwkGenerator: JwkGenerator;
+  /**
+   * The issuer of the signed tokens, which should be the OIDC issuer of the server.
+   */
+  issuer: string;
+  /**
+   * The route to the WebID of the server, which is identified as the sender of the requests.
+   */
+  webIdRoute: InteractionRoute;
+  /**
+   * How long the generated tokens are valid, in seconds.
+   * Defaults to 1200.
+   */
+  expiration?: number;
+  /**
+   * How long to wait for a response of the target, in milliseconds.
+   * Defaults to 10000.
+   */
+  timeout?: number;
+}
+
+/**
+ * POSTs a webhook notification to its target.
+ *
+ * The request is authenticated as the WebID of the server, using a DPoP-bound access token,
+ * similar to how Solid-OIDC clients authenticate.
+ * The receiver can verify the request by following the `solid:oidcIssuer` link of that WebID
+ * to find the public key of the server.
+ *
+ * Errors if the target does not respond with a 2xx status code.
+ */
+export class WebHookSender extends AsyncHandler<WebHookDelivery> {
+  private readonly jwkGenerator: JwkGenerator;
+  private readonly issuer: string;
+  private readonly webId: string;
+  private readonly expiration: number;
+  private readonly timeout: number;
+
+  public constructor(args: WebHookSenderArgs) {
+    super();
+    this.jwkGenerator = args.jwkGenerator;
+    this.issuer = args.issuer;
+    this.webId = args.webIdRoute.getPath();
+    this.expiration = args.expiration ?? 1200;
+    this.timeout = args.timeout ?? 10000;
+  }
+
+  public async handle({ target, contentType, body }: WebHookDelivery): Promise<void> {
+    const privateKey = await this.jwkGenerator.getPrivateKey();
+    const publicKey = await this.jwkGenerator.getPublicKey();
+    const privateKeyObject = await importJWK(privateKey);
+
+    // Make sure both tokens have the same timestamp
+    const time = Math.floor(Date.now() / 1000);
+
+    const thumbprint = await calculateJwkThumbprint(publicKey, 'sha256');
+    const accessToken = await new SignJWT({
+      webid: this.webId,
+      azp: this.webId,
+      sub: this.webId,
+      cnf: { jkt: thumbprint },
+    // The OIDC library uses the thumbprint as key identifier if the key does not have one
+    }).setProtectedHeader({ alg: privateKey.alg, kid: privateKey.kid ?? thumbprint })
+      .setIssuedAt(time)
+      .setExpirationTime(time + this.expiration)
+      .setAudience([ this.webId, 'solid' ])
+      .setIssuer(this.issuer)
+      .setJti(v4())
+      .sign(privateKeyObject);
+
+    const dpopProof = await new SignJWT({ htu: target, htm: 'POST' })
+      .setProtectedHeader({ alg: privateKey.alg, jwk: publicKey, typ: 'dpop+jwt' })
+      .setIssuedAt(time)
+      .setJti(v4())
+      .sign(privateKeyObject);
+
+    const controller = new AbortController();
+    const timer = setTimeout((): void => controller.abort(), this.timeout);
+    try {
+      const response = await fetch(target, {
+        method: 'POST',
+        headers: {
+          'content-type': contentType,
+          authorization: `DPoP ${accessToken}`,
+          dpop: dpopProof,
+        },
+        body,
+        signal: controller.signal,
+      });
+      if (response.status < 200 || response.status >= 300) {
+        throw new InternalServerError(`Webhook target responded with status code ${response.status}`);
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { DataFactory } from 'n3';
+import { OkResponseDescription } from '../../../http/output/response/OkResponseDescription';
+import type { ResponseDescription } from '../../../http/output/response/ResponseDescription';
+import { BasicRepresentation } from '../../../http/representation/BasicRepresentation';
+import type { InteractionRoute } from '../../../identity/interaction/routing/InteractionRoute';
+import type { RepresentationConverter } from '../../../storage/conversion/RepresentationConverter';
+import { INTERNAL_QUADS } from '../../../util/ContentTypes';
+import { MethodNotAllowedHttpError } from '../../../util/errors/MethodNotAllowedHttpError';
+import { NotFoundHttpError } from '../../../util/errors/NotFoundHttpError';
+import { SOLID } from '../../../util/Vocabularies';
+import type { OperationHttpHandlerInput } from '../../OperationHttpHandler';
+import { OperationHttpHandler } from '../../OperationHttpHandler';
+import namedNode = DataFactory.namedNode;
+import quad = DataFactory.quad;
+
+export interface WebHookWebIdArgs {
+  /**
+   * The route of the WebID.
+   */
+  webIdRoute: InteractionRoute;
+  /**
+   * The OIDC issuer of the server.
+   */
+  issuer: string;
+  /**
+   * Converts the WebID document to the requested content type.
+   */
+  converter: RepresentationConverter;
+}
+
+/**
+ * Generates the WebID document of the server, which is used to authenticate webhook notifications.
+ * The document only contains the `solid:oidcIssuer` of the server,
+ * so receivers of a notification can find the key that was used to sign it.
+ */
+export class WebHookWebId extends OperationHttpHandler {
+  private readonly webId: string;
+  private readonly issuer: string;
+  private readonly converter: RepresentationConverter;
+
+  public constructor(args: WebHookWebIdArgs) {
+    super();
+    this.webId = args.webIdRoute.getPath();
+    this.issuer = args.issuer;
+    this.converter = args.converter;
+  }
+
+  public async canHandle({ operation }: OperationHttpHandlerInput): Promise<void> {
+    if (operation.target.path !== this.webId) {
+      throw new NotFoundHttpError();
+    }
+    if (operation.method !== 'GET' && operation.method !== 'HEAD') {
+      throw new MethodNotAllowedHttpError([ operation.method ], 'Only GET and HEAD requests can target the WebID.');
+    }
+  }
+
+  public async handle({ operation }: OperationHttpHandlerInput): Promise<ResponseDescription> {
+    const quads = [ quad(namedNode(this.webId), SOLID.terms.oidcIssuer, namedNode(this.issuer)) ];
+    const representation = await this.converter.handleSafe({
+      identifier: operation.target,
+      representation: new BasicRepresentation(quads, operation.target, INTERNAL_QUADS, false),
+      preferences: operation.preferences,
+    });
+    return new OkResponseDescription(representation.metadata, representation.data);
+  }
+}
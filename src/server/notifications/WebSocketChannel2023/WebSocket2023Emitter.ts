@@ -0,0 +1,35 @@
+import { getLoggerFor } from '../../../logging/LogUtil';
+import { readableToString } from '../../../util/StreamUtil';
+import type { NotificationEmitterInput } from '../NotificationEmitter';
+import { NotificationEmitter } from '../NotificationEmitter';
+import type { WebSocketMap } from './WebSocketMap';
+
+/**
+ * Emits notifications on WebSocketChannel2023 subscription.
+ * Uses the WebSockets found in the provided map.
+ * The key should be the identifier of the matching channel.
+ */
+export class WebSocket2023Emitter extends NotificationEmitter {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly socketMap: WebSocketMap;
+
+  public constructor(socketMap: WebSocketMap) {
+    super();
+
+    this.socketMap = socketMap;
+  }
+
+  public async handle({ channel, representation }: NotificationEmitterInput): Promise<void> {
+    const data = await readableToString(representation.data);
+
+    const webSockets = this.socketMap.get(channel.id);
+    if (webSockets) {
+      for (const webSocket of webSockets) {
+        webSocket.send(data);
+      }
+    } else {
+      this.logger.warn(`No WebSockets found for channel ${channel.id}`);
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import type { WebSocket } from 'ws';
+import type { InteractionRoute } from '../../../identity/interaction/routing/InteractionRoute';
+import { getLoggerFor } from '../../../logging/LogUtil';
+import { createErrorMessage } from '../../../util/errors/ErrorUtil';
+import { NotImplementedHttpError } from '../../../util/errors/NotImplementedHttpError';
+import type { HttpRequest } from '../../HttpRequest';
+import { WebSocketHandler } from '../../WebSocketHandler';
+import type { NotificationChannelStorage } from '../NotificationChannelStorage';
+import { parseWebSocketRequest } from './WebSocket2023Util';
+import type { WebSocketMap } from './WebSocketMap';
+
+/**
+ * Listens for WebSocket connections targeting the WebSocketChannel2023 URL of a notification channel
+ * and links the WebSocket to that channel, so it can receive notifications.
+ *
+ * The channel gets removed from the storage once the last WebSocket connected to it closes.
+ * In case the server runs multithreaded, only the WebSockets connected to the same worker are taken into account.
+ */
+export class WebSocket2023Listener extends WebSocketHandler {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly storage: NotificationChannelStorage;
+  private readonly socketMap: WebSocketMap;
+  private readonly path: string;
+
+  public constructor(storage: NotificationChannelStorage, socketMap: WebSocketMap, route: InteractionRoute) {
+    super();
+    this.storage = storage;
+    this.socketMap = socketMap;
+    this.path = new URL(route.getPath()).pathname;
+  }
+
+  public async canHandle({ upgradeRequest }: { webSocket: WebSocket; upgradeRequest: HttpRequest }): Promise<void> {
+    // Base will be ignored
+    const pathName = new URL(upgradeRequest.url ?? '', 'http://example.com').pathname;
+    if (pathName !== this.path) {
+      throw new NotImplementedHttpError(`Only WebSocket requests to ${this.path} are supported.`);
+    }
+  }
+
+  public async handle({ webSocket, upgradeRequest }: { webSocket: WebSocket; upgradeRequest: HttpRequest }):
+  Promise<void> {
+    let id: string;
+    try {
+      id = parseWebSocketRequest('http://example.com', upgradeRequest);
+    } catch {
+      webSocket.send('Missing channel identifier.');
+      webSocket.close();
+      return;
+    }
+
+    const channel = await this.storage.get(id);
+    if (!channel) {
+      // Channel not being there implies it has expired
+      webSocket.send(`Notification channel has expired`);
+      webSocket.close();
+      return;
+    }
+
+    this.logger.info(`Accepted WebSocket connection listening to changes on ${channel.topic}`);
+    this.socketMap.add(channel.id, webSocket);
+
+    const onClose = (): void => {
+      this.socketMap.deleteEntry(channel.id, webSocket);
+      webSocket.removeAllListeners();
+      if (!this.socketMap.has(channel.id)) {
+        this.storage.delete(channel.id).catch((error): void => {
+          this.logger.error(`Unable to remove notification channel ${channel.id}: ${createErrorMessage(error)}`);
+        });
+      }
+    };
+    webSocket.on('error', onClose);
+    webSocket.on('close', onClose);
+  }
+}
@@ -0,0 +1,32 @@
+import type { IncomingMessage } from 'http';
+import { BadRequestHttpError } from '../../../util/errors/BadRequestHttpError';
+
+/**
+ * Generates the WebSocket URL clients need to connect to for the given channel.
+ * The URL is the subscription URL with a WebSocket scheme and the channel identifier as query parameter.
+ *
+ * @param path - The URL of the subscription service.
+ * @param id - The identifier of the notification channel.
+ */
+export function generateWebSocketUrl(path: string, id: string): string {
+  const url = new URL(path);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  url.searchParams.set('auth', id);
+  return url.href;
+}
+
+/**
+ * Parses a WebSocket upgrade request to extract the identifier of the notification channel it targets.
+ * Errors if there is no such identifier.
+ *
+ * @param path - The URL of the subscription service.
+ * @param request - The WebSocket upgrade request.
+ */
+export function parseWebSocketRequest(path: string, request: IncomingMessage): string {
+  const url = new URL(request.url ?? '', path);
+  const id = url.searchParams.get('auth');
+  if (!id) {
+    throw new BadRequestHttpError('Missing auth parameter in WebSocket URL.');
+  }
+  return id;
+}
@@ -0,0 +1,23 @@
+import type { InteractionRoute } from '../../../identity/interaction/routing/InteractionRoute';
+import { NOTIFY } from '../../../util/Vocabularies';
+import { BaseChannelType } from '../BaseChannelType';
+import type { NotificationChannel } from '../NotificationChannel';
+import { generateWebSocketUrl } from './WebSocket2023Util';
+
+/**
+ * The notification channel type WebSocketChannel2023 as described in
+ * https://solid.github.io/notifications/websocket-channel-2023
+ *
+ * Requires read permissions on a resource to be able to receive notifications.
+ */
+export class WebSocketChannel2023Type extends BaseChannelType {
+  public constructor(route: InteractionRoute, features?: string[]) {
+    super(NOTIFY.terms.WebSocketChannel2023, route, features);
+  }
+
+  public async toJsonLd(channel: NotificationChannel): Promise<Record<string, unknown>> {
+    const json = await super.toJsonLd(channel);
+    json.receiveFrom = generateWebSocketUrl(this.path, channel.id);
+    return json;
+  }
+}
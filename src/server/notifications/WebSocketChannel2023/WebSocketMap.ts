@@ -0,0 +1,13 @@
+import type { WebSocket } from 'ws';
+import { WrappedSetMultiMap } from '../../../util/map/WrappedSetMultiMap';
+
+/**
+ * Links the identifiers of notification channels to the WebSockets that are connected to them.
+ *
+ * This is a separate class so a single instance can be shared between components through the configuration.
+ */
+export class WebSocketMap extends WrappedSetMultiMap<string, WebSocket> {
+  public constructor() {
+    super();
+  }
+}
@@ -0,0 +1,52 @@
+import { getETag } from '../../../storage/Conditions';
+import type { ResourceStore } from '../../../storage/ResourceStore';
+import { NotImplementedHttpError } from '../../../util/errors/NotImplementedHttpError';
+import { AS, DC } from '../../../util/Vocabularies';
+import type { Notification } from '../Notification';
+import { CONTEXT_ACTIVITYSTREAMS, CONTEXT_NOTIFICATION } from '../Notification';
+import type { NotificationHandlerInput } from '../NotificationHandler';
+import { NotificationGenerator } from './NotificationGenerator';
+
+/**
+ * A {@link NotificationGenerator} that creates a {@link Notification} by using the provided activity as type.
+ * Requests the representation of the topic to determine its current state,
+ * so it can not be used for activities where the topic no longer exists, such as `as:Delete`.
+ */
+export class ActivityNotificationGenerator extends NotificationGenerator {
+  private readonly store: ResourceStore;
+
+  public constructor(store: ResourceStore) {
+    super();
+    this.store = store;
+  }
+
+  public async canHandle({ activity }: NotificationHandlerInput): Promise<void> {
+    if (!activity) {
+      throw new NotImplementedHttpError(`Only defined activities are supported.`);
+    }
+  }
+
+  public async handle({ topic, activity }: NotificationHandlerInput): Promise<Notification> {
+    const representation = await this.store.getRepresentation(topic, {});
+    representation.data.destroy();
+
+    const state = getETag(representation.metadata);
+    const date = representation.metadata.get(DC.terms.modified)?.value ?? new Date().toISOString();
+    const type = activity!.value.slice(AS.namespace.length);
+
+    const notification: Notification = {
+      '@context': [
+        CONTEXT_ACTIVITYSTREAMS,
+        CONTEXT_NOTIFICATION,
+      ],
+      id: `urn:${Date.now()}:${topic.path}`,
+      type,
+      object: topic.path,
+      published: new Date(date).toISOString(),
+    };
+    if (state) {
+      notification.state = state;
+    }
+    return notification;
+  }
+}
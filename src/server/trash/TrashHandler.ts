@@ -0,0 +1,215 @@
+import type { CredentialsExtractor } from '../../authentication/CredentialsExtractor';
+import type { Authorizer } from '../../authorization/Authorizer';
+import type { PermissionReader } from '../../authorization/PermissionReader';
+import { AclMode } from '../../authorization/permissions/AclPermission';
+import type { AccessMode } from '../../authorization/permissions/Permissions';
+import { CreatedResponseDescription } from '../../http/output/response/CreatedResponseDescription';
+import { OkResponseDescription } from '../../http/output/response/OkResponseDescription';
+import { ResetResponseDescription } from '../../http/output/response/ResetResponseDescription';
+import type { ResponseDescription } from '../../http/output/response/ResponseDescription';
+import { BasicRepresentation } from '../../http/representation/BasicRepresentation';
+import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
+import { getLoggerFor } from '../../logging/LogUtil';
+import type { KeyValueStorage } from '../../storage/keyvalue/KeyValueStorage';
+import type { ResourceStore } from '../../storage/ResourceStore';
+import type { TrashEntry } from '../../storage/TrashStore';
+import { APPLICATION_JSON } from '../../util/ContentTypes';
+import { ConflictHttpError } from '../../util/errors/ConflictHttpError';
+import { MethodNotAllowedHttpError } from '../../util/errors/MethodNotAllowedHttpError';
+import { NotFoundHttpError } from '../../util/errors/NotFoundHttpError';
+import { IdentifierSetMultiMap } from '../../util/map/IdentifierMap';
+import { isContainerPath } from '../../util/PathUtil';
+import { deserializeRepresentation } from '../../util/ResourceUtil';
+import { PIM, RDF } from '../../util/Vocabularies';
+import type { OperationHttpHandlerInput } from '../OperationHttpHandler';
+import { OperationHttpHandler } from '../OperationHttpHandler';
+
+export interface TrashHandlerArgs {
+  /**
+   * Store used to verify the storage root and to restore resources.
+   */
+  store: ResourceStore;
+  /**
+   * Storage containing the trash entries.
+   */
+  storage: KeyValueStorage<string, TrashEntry>;
+  /**
+   * Relative path of the trash container, starting from the storage root.
+   */
+  path: string;
+  /**
+   * Used to extract the credentials from the request.
+   */
+  credentialsExtractor: CredentialsExtractor;
+  /**
+   * Used to determine which permissions the found credentials have.
+   */
+  permissionReader: PermissionReader;
+  /**
+   * Used to determine if the request has the necessary permissions.
+   */
+  authorizer: Authorizer;
+}
+
+/**
+ * Exposes the trash of a storage, as filled by a {@link TrashStore}.
+ * The input path needs to be relative to the storage root, e.g., `.trash/`.
+ * Only agents with control permissions on the storage root can access it.
+ *
+ * The following requests are supported:
+ *  * GET on the trash container: returns a JSON list of all entries in the trash.
+ *  * GET on an entry: returns a JSON description of the entry, including all the resources it contains.
+ *  * POST on an entry: restores the deleted resource, and the contents of the trash that were inside it
+ *    in case the resource was a container.
+ *  * DELETE on an entry: removes the entry from the trash permanently.
+ *
+ * Requests targeting the trash of a container that is not a `pim:Storage` result in a 404.
+ */
+export class TrashHandler extends OperationHttpHandler {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly store: ResourceStore;
+  private readonly storage: KeyValueStorage<string, TrashEntry>;
+  private readonly path: string;
+  private readonly credentialsExtractor: CredentialsExtractor;
+  private readonly permissionReader: PermissionReader;
+  private readonly authorizer: Authorizer;
+
+  public constructor(args: TrashHandlerArgs) {
+    super();
+    this.store = args.store;
+    this.storage = args.storage;
+    this.path = args.path;
+    this.credentialsExtractor = args.credentialsExtractor;
+    this.permissionReader = args.permissionReader;
+    this.authorizer = args.authorizer;
+  }
+
+  public async canHandle({ operation }: OperationHttpHandlerInput): Promise<void> {
+    const { target, method } = operation;
+    if (!target.path.includes(`/${this.path}`)) {
+      throw new NotFoundHttpError(`Only targets containing ${this.path} are supported.`);
+    }
+    const id = this.getEntryId(target);
+    const allowed = id.length > 0 ? [ 'GET', 'POST', 'DELETE' ] : [ 'GET' ];
+    if (!allowed.includes(method)) {
+      throw new MethodNotAllowedHttpError([ method ], `Only ${allowed.join(', ')} requests can target this resource.`);
+    }
+
+    const storage = this.getStorageIdentifier(target);
+    const representation = await this.store.getRepresentation(storage, {});
+    representation.data.destroy();
+    if (!representation.metadata.has(RDF.terms.type, PIM.terms.Storage)) {
+      throw new NotFoundHttpError(`Only storage containers have a trash.`);
+    }
+  }
+
+  public async handle({ operation, request }: OperationHttpHandlerInput): Promise<ResponseDescription> {
+    const storage = this.getStorageIdentifier(operation.target);
+
+    // Only the owners of the storage can access its trash
+    const credentials = await this.credentialsExtractor.handleSafe(request);
+    const control = AclMode.control as unknown as AccessMode;
+    const requestedModes = new IdentifierSetMultiMap<AccessMode>([[ storage, control ]]);
+    const availablePermissions = await this.permissionReader.handleSafe({ credentials, requestedModes });
+    await this.authorizer.handleSafe({ credentials, requestedModes, availablePermissions });
+
+    const id = this.getEntryId(operation.target);
+    if (id.length === 0) {
+      const entries = await this.getEntries(storage);
+      return this.createJsonResponse(operation.target, entries.map((entry): NodeJS.Dict<string> => ({
+        id: entry.id,
+        path: entry.path,
+        deleted: new Date(entry.deleted).toISOString(),
+      })));
+    }
+
+    const entry = await this.storage.get(id);
+    if (!entry || entry.storage !== storage.path) {
+      throw new NotFoundHttpError(`There is no entry ${id} in the trash of ${storage.path}`);
+    }
+
+    if (operation.method === 'POST') {
+      return this.restore(entry);
+    }
+    if (operation.method === 'DELETE') {
+      await this.storage.delete(id);
+      this.logger.info(`Removed ${entry.path} from the trash of ${storage.path}`);
+      return new ResetResponseDescription();
+    }
+    return this.createJsonResponse(operation.target, {
+      id: entry.id,
+      path: entry.path,
+      deleted: new Date(entry.deleted).toISOString(),
+      resources: entry.resources.map((resource): string => resource.path),
+    });
+  }
+
+  /**
+   * Restores the resources of the given entry.
+   * In case the entry is a container,
+   * all entries in the same trash that were inside that container are also restored.
+   */
+  private async restore(entry: TrashEntry): Promise<ResponseDescription> {
+    if (await this.store.hasResource({ path: entry.path })) {
+      throw new ConflictHttpError(`Unable to restore ${entry.path} as it already exists.`);
+    }
+
+    let entries = [ entry ];
+    if (isContainerPath(entry.path)) {
+      entries = (await this.getEntries({ path: entry.storage }))
+        .filter((other): boolean => other.path.startsWith(entry.path));
+    }
+    // Containers need to be restored before their contents.
+    // In case a resource was deleted several times, only the most recent version gets restored.
+    entries.sort((left, right): number => left.path.length - right.path.length || right.deleted - left.deleted);
+
+    for (const restored of entries) {
+      for (const resource of restored.resources) {
+        const identifier = { path: resource.path };
+        if (await this.store.hasResource(identifier)) {
+          this.logger.debug(`Not restoring ${resource.path} as it already exists`);
+          continue;
+        }
+        await this.store.setRepresentation(identifier, deserializeRepresentation(identifier, resource));
+      }
+      await this.storage.delete(restored.id);
+    }
+
+    this.logger.info(`Restored ${entry.path} from the trash of ${entry.storage}`);
+    return new CreatedResponseDescription({ path: entry.path });
+  }
+
+  /**
+   * Returns all entries in the trash of the given storage, most recently deleted first.
+   */
+  private async getEntries(storage: ResourceIdentifier): Promise<TrashEntry[]> {
+    const entries: TrashEntry[] = [];
+    for await (const [ , entry ] of this.storage.entries()) {
+      if (entry.storage === storage.path) {
+        entries.push(entry);
+      }
+    }
+    return entries.sort((left, right): number => right.deleted - left.deleted);
+  }
+
+  private createJsonResponse(target: ResourceIdentifier, json: unknown): ResponseDescription {
+    const representation = new BasicRepresentation(JSON.stringify(json), target, APPLICATION_JSON);
+    return new OkResponseDescription(representation.metadata, representation.data);
+  }
+
+  /**
+   * Determine the storage root of the trash the target belongs to.
+   */
+  private getStorageIdentifier(target: ResourceIdentifier): ResourceIdentifier {
+    return { path: target.path.slice(0, target.path.lastIndexOf(`/${this.path}`) + 1) };
+  }
+
+  /**
+   * Determines the identifier of the trash entry targeted by the request.
+   * Returns an empty string if the target is the trash itself.
+   */
+  private getEntryId(target: ResourceIdentifier): string {
+    return target.path.slice(target.path.lastIndexOf(`/${this.path}`) + this.path.length + 1);
+  }
+}
@@ -1,6 +1,6 @@
 import type { RepresentationMetadata } from '../http/representation/RepresentationMetadata';
 import { DC } from '../util/Vocabularies';
-import { getETag } from './Conditions';
+import { getETag, isWeakETag, sameResourceState } from './Conditions';
 import type { Conditions } from './Conditions';
 
 export interface BasicConditionsOptions {
@@ -12,6 +12,8 @@ export interface BasicConditionsOptions {
 
 /**
  * Stores all the relevant Conditions values and matches them based on RFC7232.
+ * If-Match uses the strong comparison function, so weak ETags never match,
+ * while If-None-Match uses the weak comparison function.
  */
 export class BasicConditions implements Conditions {
   public readonly matchesETag?: string[];
@@ -26,7 +28,7 @@ export class BasicConditions implements Conditions {
     this.unmodifiedSince = options.unmodifiedSince;
   }
 
-  public matchesMetadata(metadata?: RepresentationMetadata): boolean {
+  public matchesMetadata(metadata?: RepresentationMetadata, strict = false): boolean {
     if (!metadata) {
       // RFC7232: ...If-Match... If the field-value is "*", the condition is false if the origin server
       // does not have a current representation for the target resource.
@@ -36,10 +38,10 @@ export class BasicConditions implements Conditions {
     const modified = metadata.get(DC.terms.modified);
     const modifiedDate = modified ? new Date(modified.value) : undefined;
     const etag = getETag(metadata);
-    return this.matches(etag, modifiedDate);
+    return this.matches(etag, modifiedDate, strict);
   }
 
-  public matches(eTag?: string, lastModified?: Date): boolean {
+  public matches(eTag?: string, lastModified?: Date, strict = false): boolean {
     // RFC7232: ...If-None-Match... If the field-value is "*", the condition is false if the origin server
     // has a current representation for the target resource.
     if (this.notMatchesETag?.includes('*')) {
@@ -47,16 +49,18 @@ export class BasicConditions implements Conditions {
     }
 
     if (eTag) {
-      if (this.matchesETag && !this.matchesETag.includes(eTag) && !this.matchesETag.includes('*')) {
+      if (this.matchesETag && !this.matchesETag.includes('*') &&
+        !this.matchesETag.some((tag): boolean => this.compareETags(tag, eTag, true, strict))) {
         return false;
       }
-      if (this.notMatchesETag?.includes(eTag)) {
+      if (this.notMatchesETag?.some((tag): boolean => this.compareETags(tag, eTag, false, strict))) {
         return false;
       }
     }
 
     if (lastModified) {
-      if (this.modifiedSince && lastModified < this.modifiedSince) {
+      // RFC7232: ...If-Modified-Since... false if the last modification date is earlier than or equal to the date
+      if (this.modifiedSince && lastModified <= this.modifiedSince) {
         return false;
       }
       if (this.unmodifiedSince && lastModified > this.unmodifiedSince) {
@@ -66,4 +70,18 @@ export class BasicConditions implements Conditions {
 
     return true;
   }
+
+  /**
+   * Compares two ETags with the strong or weak comparison function of RFC7232.
+   * If not strict, the ETags only need to correspond to the same state of the resource.
+   */
+  private compareETags(eTag1: string, eTag2: string, strong: boolean, strict: boolean): boolean {
+    if (strong && (isWeakETag(eTag1) || isWeakETag(eTag2))) {
+      return false;
+    }
+    if (strict) {
+      return eTag1.replace(/^W\//u, '') === eTag2.replace(/^W\//u, '');
+    }
+    return sameResourceState(eTag1, eTag2);
+  }
 }
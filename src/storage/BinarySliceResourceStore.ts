@@ -0,0 +1,176 @@
+import { Readable } from 'stream';
+import arrayifyStream from 'arrayify-stream';
+import { v4 } from 'uuid';
+import { BasicRepresentation } from '../http/representation/BasicRepresentation';
+import type { Representation } from '../http/representation/Representation';
+import { RepresentationMetadata } from '../http/representation/RepresentationMetadata';
+import type {
+  RangePart,
+  RangePreference,
+  RepresentationPreferences,
+} from '../http/representation/RepresentationPreferences';
+import type { ResourceIdentifier } from '../http/representation/ResourceIdentifier';
+import { getLoggerFor } from '../logging/LogUtil';
+import { RangeNotSatisfiableHttpError } from '../util/errors/RangeNotSatisfiableHttpError';
+import { guardStream } from '../util/GuardedStream';
+import { ContentType } from '../util/HeaderUtil';
+import { addRangeMetadata, getContentRange, matchesIfRange, resolveRange } from '../util/RangeUtil';
+import { POSIX, SOLID_HTTP } from '../util/Vocabularies';
+import type { Conditions } from './Conditions';
+import { isInternalContentType } from './conversion/ConversionUtil';
+import { PassthroughStore } from './PassthroughStore';
+import type { ResourceStore } from './ResourceStore';
+
+/**
+ * Resource store that only returns the requested byte ranges of binary representations.
+ *
+ * Single ranges are passed to the source store, which can already slice the data in an efficient way.
+ * If this did not happen, the data of the representation gets sliced here instead,
+ * which requires reading the full representation.
+ *
+ * In case of multiple ranges, every range is requested separately from the source store,
+ * after which the results are combined into a `multipart/byteranges` representation.
+ *
+ * Range preferences get ignored if their unit is not bytes, the representation is not binary,
+ * or the If-Range value does not match the representation.
+ */
+export class BinarySliceResourceStore<T extends ResourceStore = ResourceStore> extends PassthroughStore<T> {
+  protected readonly logger = getLoggerFor(this);
+
+  public async getRepresentation(identifier: ResourceIdentifier, preferences: RepresentationPreferences,
+    conditions?: Conditions): Promise<Representation> {
+    const { range } = preferences;
+    if (range?.unit !== 'bytes') {
+      return this.source.getRepresentation(identifier, preferences, conditions);
+    }
+    if (range.parts.length === 1) {
+      return this.getSlice(identifier, preferences, conditions);
+    }
+    return this.getMultipartSlice(identifier, preferences, range, conditions);
+  }
+
+  /**
+   * Returns the representation containing only the first requested range.
+   */
+  private async getSlice(identifier: ResourceIdentifier, preferences: RepresentationPreferences,
+    conditions?: Conditions): Promise<Representation> {
+    const representation = await this.source.getRepresentation(identifier, preferences, conditions);
+    const { metadata, binary } = representation;
+    const { parts, ifRange } = preferences.range!;
+
+    // The source store already sliced the data
+    if (metadata.has(SOLID_HTTP.terms.unit)) {
+      return representation;
+    }
+
+    if (!binary || isInternalContentType(metadata.contentType) || !matchesIfRange(metadata, ifRange)) {
+      return representation;
+    }
+
+    return this.sliceRepresentation(representation, parts[0]);
+  }
+
+  /**
+   * Slices the data of a representation by reading all of it into memory.
+   * The size in the metadata can not be trusted as the data might have been converted.
+   */
+  private async sliceRepresentation(representation: Representation, part: RangePart): Promise<Representation> {
+    const chunks = await arrayifyStream<Buffer | string>(representation.data);
+    const data = Buffer.concat(chunks.map((chunk): Buffer => Buffer.from(chunk)));
+
+    const range = resolveRange(part, data.length);
+    if (!range) {
+      throw new RangeNotSatisfiableHttpError(data.length);
+    }
+
+    this.logger.debug(`Slicing bytes ${range.start}-${range.end} of ${representation.metadata.identifier.value}`);
+    addRangeMetadata(representation.metadata, range, data.length);
+    return new BasicRepresentation([ data.subarray(range.start, range.end + 1) ], representation.metadata);
+  }
+
+  /**
+   * Requests every range separately and combines the results into a single multipart representation.
+   * Ranges that can not be satisfied are left out.
+   */
+  private async getMultipartSlice(identifier: ResourceIdentifier, preferences: RepresentationPreferences,
+    range: RangePreference, conditions?: Conditions): Promise<Representation> {
+    const slices: Representation[] = [];
+    let notSatisfiable: unknown;
+    try {
+      for (const part of range.parts) {
+        let slice: Representation;
+        try {
+          slice = await this.getSlice(identifier, { ...preferences, range: { ...range, parts: [ part ]}}, conditions);
+        } catch (error: unknown) {
+          if (!RangeNotSatisfiableHttpError.isInstance(error)) {
+            throw error;
+          }
+          notSatisfiable = error;
+          continue;
+        }
+
+        // The ranges are ignored for this representation so it should be returned in full
+        if (!slice.metadata.has(SOLID_HTTP.terms.unit)) {
+          this.destroyAll(slices);
+          return slice;
+        }
+        slices.push(slice);
+      }
+    } catch (error: unknown) {
+      this.destroyAll(slices);
+      throw error;
+    }
+
+    if (slices.length === 0) {
+      throw notSatisfiable;
+    }
+    if (slices.length === 1) {
+      return slices[0];
+    }
+    return this.createMultipartRepresentation(slices);
+  }
+
+  /**
+   * Combines the given slices into a `multipart/byteranges` representation.
+   * The metadata is based on that of the first slice.
+   */
+  private createMultipartRepresentation(slices: Representation[]): Representation {
+    const boundary = v4();
+    const metadata = new RepresentationMetadata(slices[0].metadata);
+    metadata.removeAll(SOLID_HTTP.terms.start);
+    metadata.removeAll(SOLID_HTTP.terms.end);
+    metadata.removeAll(POSIX.terms.size);
+    metadata.contentTypeObject = new ContentType('multipart/byteranges', { boundary });
+
+    const destroyAll = this.destroyAll.bind(this);
+    async function* generateParts(): AsyncIterable<Buffer> {
+      try {
+        for (const slice of slices) {
+          const headers = [ `--${boundary}` ];
+          const contentType = slice.metadata.contentTypeObject;
+          if (contentType) {
+            headers.push(`Content-Type: ${contentType.toHeaderValueString()}`);
+          }
+          headers.push(`Content-Range: ${getContentRange(slice.metadata)}`);
+          yield Buffer.from(`${headers.join('\r\n')}\r\n\r\n`);
+          for await (const chunk of slice.data) {
+            yield Buffer.from(chunk);
+          }
+          yield Buffer.from('\r\n');
+        }
+        yield Buffer.from(`--${boundary}--\r\n`);
+      } finally {
+        // Makes sure no streams remain open in case the response gets interrupted
+        destroyAll(slices);
+      }
+    }
+
+    return new BasicRepresentation(guardStream(Readable.from(generateParts())), metadata);
+  }
+
+  private destroyAll(representations: Representation[]): void {
+    for (const representation of representations) {
+      representation.data.destroy();
+    }
+  }
+}
@@ -0,0 +1,263 @@
+import type { Quad } from '@rdfjs/types';
+import type { AuxiliaryIdentifierStrategy } from '../http/auxiliary/AuxiliaryIdentifierStrategy';
+import { BasicRepresentation } from '../http/representation/BasicRepresentation';
+import type { Patch } from '../http/representation/Patch';
+import type { Representation } from '../http/representation/Representation';
+import { RepresentationMetadata } from '../http/representation/RepresentationMetadata';
+import type { RepresentationPreferences } from '../http/representation/RepresentationPreferences';
+import type { ResourceIdentifier } from '../http/representation/ResourceIdentifier';
+import { getLoggerFor } from '../logging/LogUtil';
+import type { IdentifierStrategy } from '../util/identifiers/IdentifierStrategy';
+import { guardedStreamFrom, transformSafely } from '../util/StreamUtil';
+import type { Conditions } from './Conditions';
+import { PassthroughStore } from './PassthroughStore';
+import type { ChangeMap, ResourceStore } from './ResourceStore';
+
+/**
+ * A representation that was returned by the source store, with all the chunks of its data stream.
+ */
+interface CacheEntry {
+  group: string;
+  metadata: RepresentationMetadata;
+  chunks: unknown[];
+  binary: boolean;
+  size: number;
+}
+
+/**
+ * Estimates the number of bytes a chunk of a data stream takes up.
+ * Returns `undefined` for chunks of which the size can not be estimated.
+ */
+function estimateSize(chunk: unknown): number | undefined {
+  if (typeof chunk === 'string') {
+    return Buffer.byteLength(chunk);
+  }
+  if (chunk instanceof Uint8Array) {
+    return chunk.byteLength;
+  }
+  if ((chunk as Quad).termType === 'Quad') {
+    const { subject, predicate, object, graph } = chunk as Quad;
+    return subject.value.length + predicate.value.length + object.value.length + graph.value.length;
+  }
+}
+
+/**
+ * Caches the representations returned by the source store in memory,
+ * so the same representation does not have to be read and converted again on every request.
+ *
+ * Representations are cached per identifier and preferences,
+ * so every content type of a resource is cached separately.
+ * Requests for byte ranges are never cached.
+ * The cache is bounded by the total size of the cached data, removing the least recently used entries first.
+ * The size of representations consisting of quads is estimated based on the values of their terms.
+ * Representations larger than the maximum entry size, or of which the size can not be estimated, are not cached.
+ *
+ * Whenever a resource changes, all cached representations of the resources in the resulting {@link ChangeMap}
+ * are removed, together with those of their auxiliary resources and their parent containers.
+ * As the data is only cached once the stream has been read completely,
+ * this store should be placed behind a {@link LockingResourceStore},
+ * so representations are cached and removed while the corresponding resources are locked.
+ *
+ * Changes that do not go through this store, such as changes made by other worker processes
+ * or external changes to the backend, are not detected,
+ * so this store should only be used by servers running in a single process
+ * with a backend that is not modified externally.
+ */
+export class CachedResourceStore<T extends ResourceStore = ResourceStore> extends PassthroughStore<T> {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly identifierStrategy: IdentifierStrategy;
+  private readonly auxiliaryStrategy: AuxiliaryIdentifierStrategy;
+  private readonly maxSize: number;
+  private readonly maxEntrySize: number;
+
+  // Map insertion order is used to keep track of which entries were used least recently
+  private readonly cache = new Map<string, CacheEntry>();
+  // The keys of all cached entries for every group of resources that need to be removed together
+  private readonly groups = new Map<string, Set<string>>();
+  private size = 0;
+
+  /**
+   * @param source - Store to cache the representations of.
+   * @param identifierStrategy - Used to determine the parent containers of changed resources.
+   * @param auxiliaryStrategy - Used to find the subject resource of auxiliary resources.
+   * @param maxSize - Maximum size of all cached data combined, in bytes. Defaults to 50 MB.
+   * @param maxEntrySize - Maximum size of a single cached representation, in bytes. Defaults to 1 MB.
+   */
+  public constructor(source: T, identifierStrategy: IdentifierStrategy, auxiliaryStrategy: AuxiliaryIdentifierStrategy,
+    maxSize = 50 * 1024 * 1024, maxEntrySize = 1024 * 1024) {
+    super(source);
+    this.identifierStrategy = identifierStrategy;
+    this.auxiliaryStrategy = auxiliaryStrategy;
+    this.maxSize = maxSize;
+    this.maxEntrySize = Math.min(maxEntrySize, maxSize);
+  }
+
+  public async getRepresentation(identifier: ResourceIdentifier, preferences: RepresentationPreferences,
+    conditions?: Conditions): Promise<Representation> {
+    if (preferences.range) {
+      return this.source.getRepresentation(identifier, preferences, conditions);
+    }
+
+    const key = this.getKey(identifier, preferences);
+    const entry = this.cache.get(key);
+    if (entry) {
+      this.logger.debug(`Serving ${identifier.path} from the cache`);
+      // Mark the entry as most recently used
+      this.cache.delete(key);
+      this.cache.set(key, entry);
+      const data = guardedStreamFrom(entry.chunks, { objectMode: true });
+      return new BasicRepresentation(data, new RepresentationMetadata(entry.metadata), entry.binary);
+    }
+
+    const representation = await this.source.getRepresentation(identifier, preferences, conditions);
+    return this.cacheRepresentation(key, this.getGroup(identifier), representation);
+  }
+
+  public async addResource(container: ResourceIdentifier, representation: Representation,
+    conditions?: Conditions): Promise<ChangeMap> {
+    return this.invalidateAfter(container,
+      async(): Promise<ChangeMap> => this.source.addResource(container, representation, conditions));
+  }
+
+  public async deleteResource(identifier: ResourceIdentifier, conditions?: Conditions): Promise<ChangeMap> {
+    return this.invalidateAfter(identifier,
+      async(): Promise<ChangeMap> => this.source.deleteResource(identifier, conditions));
+  }
+
+  public async modifyResource(identifier: ResourceIdentifier, patch: Patch,
+    conditions?: Conditions): Promise<ChangeMap> {
+    return this.invalidateAfter(identifier,
+      async(): Promise<ChangeMap> => this.source.modifyResource(identifier, patch, conditions));
+  }
+
+  public async setRepresentation(identifier: ResourceIdentifier, representation: Representation,
+    conditions?: Conditions): Promise<ChangeMap> {
+    return this.invalidateAfter(identifier,
+      async(): Promise<ChangeMap> => this.source.setRepresentation(identifier, representation, conditions));
+  }
+
+  /**
+   * Returns a copy of the representation of which the data stream collects all chunks that pass through it.
+   * Once the stream is finished, the collected data is added to the cache if it is not too large.
+   */
+  private cacheRepresentation(key: string, group: string, representation: Representation): Representation {
+    const metadata = new RepresentationMetadata(representation.metadata);
+    const { binary } = representation;
+    let chunks: unknown[] | undefined = [];
+    let size = 0;
+
+    const data = transformSafely(representation.data, {
+      // Passes the chunks along unchanged
+      objectMode: true,
+      transform: (chunk: unknown): void => {
+        const chunkSize = estimateSize(chunk);
+        if (chunks && typeof chunkSize === 'number' && size + chunkSize <= this.maxEntrySize) {
+          chunks.push(chunk);
+          size += chunkSize;
+        } else {
+          // Stop collecting the data as soon as it is clear it will not be cached
+          chunks = undefined;
+        }
+        data.push(chunk);
+      },
+      flush: (): void => {
+        if (chunks) {
+          this.add(key, { group, metadata, chunks, binary, size });
+        }
+      },
+    });
+    return new BasicRepresentation(data, representation.metadata, binary);
+  }
+
+  /**
+   * Adds the entry to the cache, removing the least recently used entries if the cache becomes too large.
+   */
+  private add(key: string, entry: CacheEntry): void {
+    this.remove(key);
+    this.cache.set(key, entry);
+    this.size += entry.size;
+    let keys = this.groups.get(entry.group);
+    if (!keys) {
+      keys = new Set();
+      this.groups.set(entry.group, keys);
+    }
+    keys.add(key);
+
+    for (const oldKey of this.cache.keys()) {
+      if (this.size <= this.maxSize) {
+        break;
+      }
+      this.remove(oldKey);
+    }
+  }
+
+  private remove(key: string): void {
+    const entry = this.cache.get(key);
+    if (entry) {
+      this.cache.delete(key);
+      this.size -= entry.size;
+      const keys = this.groups.get(entry.group)!;
+      keys.delete(key);
+      if (keys.size === 0) {
+        this.groups.delete(entry.group);
+      }
+    }
+  }
+
+  /**
+   * Performs the write operation, after which all resources that might have been changed are removed from the cache.
+   * In case the operation fails, the target resource is removed, as the operation might have partially succeeded.
+   */
+  private async invalidateAfter(identifier: ResourceIdentifier, write: () => Promise<ChangeMap>): Promise<ChangeMap> {
+    let changes: ChangeMap;
+    try {
+      changes = await write();
+    } catch (error: unknown) {
+      this.invalidate(identifier);
+      throw error;
+    }
+    for (const changed of changes.keys()) {
+      this.invalidate(changed);
+    }
+    return changes;
+  }
+
+  /**
+   * Removes all cached representations of the resource, its auxiliary resources, and its parent container.
+   * The parent container is included as container representations contain metadata about their children.
+   */
+  private invalidate(identifier: ResourceIdentifier): void {
+    const subject = this.getSubject(identifier);
+    const groups = [ subject.path ];
+    if (!this.identifierStrategy.isRootContainer(subject)) {
+      groups.push(this.identifierStrategy.getParentContainer(subject).path);
+    }
+    for (const group of groups) {
+      for (const key of this.groups.get(group) ?? []) {
+        this.remove(key);
+      }
+    }
+  }
+
+  /**
+   * Auxiliary resources are grouped with their subject resource,
+   * as their representations can depend on the state of that resource.
+   */
+  private getGroup(identifier: ResourceIdentifier): string {
+    return this.getSubject(identifier).path;
+  }
+
+  private getSubject(identifier: ResourceIdentifier): ResourceIdentifier {
+    while (this.auxiliaryStrategy.isAuxiliaryIdentifier(identifier)) {
+      identifier = this.auxiliaryStrategy.getSubjectIdentifier(identifier);
+    }
+    return identifier;
+  }
+
+  private getKey(identifier: ResourceIdentifier, preferences: RepresentationPreferences): string {
+    const sorted = Object.fromEntries(Object.entries(preferences)
+      .sort(([ key1 ], [ key2 ]): number => key1.localeCompare(key2)));
+    return `${identifier.path} ${JSON.stringify(sorted)}`;
+  }
+}
@@ -1,5 +1,5 @@
 import type { RepresentationMetadata } from '../http/representation/RepresentationMetadata';
-import { DC } from '../util/Vocabularies';
+import { DC, SOLID_META } from '../util/Vocabularies';
 
 /**
  * The conditions of an HTTP conditional request.
@@ -25,28 +25,63 @@ export interface Conditions {
   /**
    * Checks validity based on the given metadata.
    * @param metadata - Metadata of the representation. Undefined if the resource does not exist.
+   * @param strict - How to compare the ETag related headers.
+   *                 If true, the comparison happens on representation level.
+   *                 If false, the comparison happens on resource level, ignoring the content type.
    */
-  matchesMetadata: (metadata?: RepresentationMetadata) => boolean;
+  matchesMetadata: (metadata?: RepresentationMetadata, strict?: boolean) => boolean;
   /**
    * Checks validity based on the given ETag and/or date.
    * This function assumes the resource being checked exists.
    * If not, the `matchesMetadata` function should be used.
    * @param eTag - Condition based on ETag.
    * @param lastModified - Condition based on last modified date.
+   * @param strict - How to compare the ETag related headers.
+   *                 If true, the comparison happens on representation level.
+   *                 If false, the comparison happens on resource level, ignoring the content type.
    */
-  matches: (eTag?: string, lastModified?: Date) => boolean;
+  matches: (eTag?: string, lastModified?: Date, strict?: boolean) => boolean;
 }
 
 /**
- * Generates an ETag based on the last modified date of a resource.
+ * Generates an ETag based on the digest of the data of a resource,
+ * or on the last modified date if there is no digest, such as for containers.
+ * The content type of the representation is part of the ETag,
+ * so different representations of the same resource have different ETags.
  * @param metadata - Metadata of the resource.
  *
- * @returns the generated ETag. Undefined if no last modified date was found.
+ * @returns the generated ETag. Undefined if no digest or last modified date was found.
  */
 export function getETag(metadata: RepresentationMetadata): string | undefined {
+  const digest = metadata.get(SOLID_META.terms.contentDigest);
   const modified = metadata.get(DC.terms.modified);
-  if (modified) {
-    const date = new Date(modified.value);
-    return `"${date.getTime()}"`;
+  const state = digest?.value ?? (modified && new Date(modified.value).getTime());
+  if (state) {
+    // The content type is undefined when only the metadata returned by a `DataAccessor` is used
+    const { contentType } = metadata;
+    return contentType ? `"${state}-${contentType}"` : `"${state}"`;
   }
 }
+
+/**
+ * Checks if the given ETag is a weak ETag, which starts with `W/`.
+ */
+export function isWeakETag(eTag: string): boolean {
+  return eTag.startsWith('W/');
+}
+
+/**
+ * Extracts the part of an ETag generated by {@link getETag} that corresponds to the state of the resource.
+ */
+function getResourceState(eTag: string): string {
+  return /^(?:W\/)?"?([^"-]*)/u.exec(eTag)![1];
+}
+
+/**
+ * Checks if the given ETags correspond to the same state of a resource,
+ * independent of the representation they correspond to and of them being weak or not.
+ */
+export function sameResourceState(eTag1: string, eTag2: string): boolean {
+  const state = getResourceState(eTag1);
+  return state.length > 0 && state === getResourceState(eTag2);
+}
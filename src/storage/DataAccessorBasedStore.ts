@@ -1,3 +1,5 @@
+import type { Hash } from 'crypto';
+import { createHash } from 'crypto';
 import arrayifyStream from 'arrayify-stream';
 import { DataFactory } from 'n3';
 import type { NamedNode, Term } from 'rdf-js';
@@ -7,6 +9,7 @@ import { BasicRepresentation } from '../http/representation/BasicRepresentation'
 import type { Patch } from '../http/representation/Patch';
 import type { Representation } from '../http/representation/Representation';
 import { RepresentationMetadata } from '../http/representation/RepresentationMetadata';
+import type { PagePreference, RepresentationPreferences } from '../http/representation/RepresentationPreferences';
 import type { ResourceIdentifier } from '../http/representation/ResourceIdentifier';
 import { getLoggerFor } from '../logging/LogUtil';
 import { INTERNAL_QUADS } from '../util/ContentTypes';
@@ -18,6 +21,7 @@ import { MethodNotAllowedHttpError } from '../util/errors/MethodNotAllowedHttpEr
 import { NotFoundHttpError } from '../util/errors/NotFoundHttpError';
 import { NotImplementedHttpError } from '../util/errors/NotImplementedHttpError';
 import { PreconditionFailedHttpError } from '../util/errors/PreconditionFailedHttpError';
+import { RangeNotSatisfiableHttpError } from '../util/errors/RangeNotSatisfiableHttpError';
 import type { IdentifierStrategy } from '../util/identifiers/IdentifierStrategy';
 import { concat } from '../util/IterableUtil';
 import { IdentifierMap } from '../util/map/IdentifierMap';
@@ -28,7 +32,10 @@ import {
   trimTrailingSlashes,
   toCanonicalUriPath,
 } from '../util/PathUtil';
+import type { ByteRange } from '../util/RangeUtil';
+import { addRangeMetadata, matchesIfRange, resolveRange } from '../util/RangeUtil';
 import { addResourceMetadata, updateModifiedDate } from '../util/ResourceUtil';
+import { transformSafely } from '../util/StreamUtil';
 import {
   DC,
   SOLID_HTTP,
@@ -45,6 +52,7 @@ import {
 } from '../util/Vocabularies';
 import type { DataAccessor } from './accessors/DataAccessor';
 import type { Conditions } from './Conditions';
+import { cleanPreferences, getTypeWeight, isInternalContentType } from './conversion/ConversionUtil';
 import type { ResourceStore, ChangeMap } from './ResourceStore';
 import namedNode = DataFactory.namedNode;
 
@@ -103,7 +111,8 @@ export class DataAccessorBasedStore implements ResourceStore {
     }
   }
 
-  public async getRepresentation(identifier: ResourceIdentifier): Promise<Representation> {
+  public async getRepresentation(identifier: ResourceIdentifier, preferences: RepresentationPreferences = {}):
+  Promise<Representation> {
     this.validateIdentifier(identifier);
     let isMetadata = false;
 
@@ -126,13 +135,21 @@ export class DataAccessorBasedStore implements ResourceStore {
     let data = metadata.quads();
     if (isContainer || isMetadata) {
       if (isContainer) {
+        const includesContainment = this.includesContainment(preferences);
+        let nextPage: string | undefined;
         // Add containment triples of non-auxiliary resources
-        for await (const child of this.accessor.getChildren(identifier)) {
-          if (!this.auxiliaryStrategy.isAuxiliaryIdentifier({ path: child.identifier.value })) {
-            if (!isMetadata) {
-              metadata.addQuads(child.quads());
+        if (includesContainment) {
+          const { children, next } = preferences.page ?
+            await this.getChildPage(identifier, preferences.page) :
+            { children: this.accessor.getChildren(identifier), next: undefined };
+          nextPage = next;
+          for await (const child of children) {
+            if (!this.auxiliaryStrategy.isAuxiliaryIdentifier({ path: child.identifier.value })) {
+              if (!isMetadata) {
+                metadata.addQuads(child.quads());
+              }
+              metadata.add(LDP.terms.contains, child.identifier as NamedNode, SOLID_META.terms.ResponseMetadata);
             }
-            metadata.add(LDP.terms.contains, child.identifier as NamedNode, SOLID_META.terms.ResponseMetadata);
           }
         }
         data = metadata.quads();
@@ -140,6 +157,16 @@ export class DataAccessorBasedStore implements ResourceStore {
         if (isMetadata) {
           metadata = new RepresentationMetadata(this.metadataStrategy.getAuxiliaryIdentifier(identifier));
         }
+        // Added after the data was generated as these should only be part of the response headers
+        if (preferences.return?.value === 'representation') {
+          metadata.add(SOLID_HTTP.terms.preferenceApplied, 'return=representation', SOLID_META.terms.ResponseMetadata);
+        }
+        if (includesContainment && preferences.page) {
+          metadata.add(RDF.terms.type, LDP.terms.Page, SOLID_META.terms.ResponseMetadata);
+          if (nextPage) {
+            metadata.add(SOLID_HTTP.terms.next, namedNode(nextPage), SOLID_META.terms.ResponseMetadata);
+          }
+        }
       }
       metadata.addQuad(DC.terms.namespace, PREFERRED_PREFIX_TERM, 'dc', SOLID_META.terms.ResponseMetadata);
       metadata.addQuad(LDP.terms.namespace, PREFERRED_PREFIX_TERM, 'ldp', SOLID_META.terms.ResponseMetadata);
@@ -154,12 +181,93 @@ export class DataAccessorBasedStore implements ResourceStore {
         metadata.quads(), this.metadataStrategy.getAuxiliaryIdentifier(identifier), INTERNAL_QUADS,
       );
     } else {
-      representation = new BasicRepresentation(await this.accessor.getData(identifier), metadata);
+      const range = this.getByteRange(metadata, preferences);
+      representation = new BasicRepresentation(await this.accessor.getData(identifier, range), metadata);
     }
 
     return representation;
   }
 
+  /**
+   * Determines whether the containment triples of a container should be part of its representation,
+   * based on the `include` and `omit` parameters of the `return=representation` preference.
+   * Containment triples are included by default,
+   * which can be prevented by omitting `ldp:PreferContainment` or including `ldp:PreferMinimalContainer`.
+   * In that case the children of the container do not need to be read.
+   */
+  protected includesContainment(preferences: RepresentationPreferences): boolean {
+    if (preferences.return?.value !== 'representation') {
+      return true;
+    }
+    const { include, omit } = preferences.return;
+    if (include.includes(LDP.PreferContainment)) {
+      return true;
+    }
+    return !omit.includes(LDP.PreferContainment) && !include.includes(LDP.PreferMinimalContainer);
+  }
+
+  /**
+   * Reads a single page of the children of a container, sorted by their identifier.
+   * One extra child is requested from the accessor to know whether there is a next page.
+   *
+   * @param identifier - Identifier of the container.
+   * @param page - The requested page.
+   *
+   * @returns The children of the page, and the URL of the next page if there is one.
+   */
+  protected async getChildPage(identifier: ResourceIdentifier, page: PagePreference):
+  Promise<{ children: RepresentationMetadata[]; next?: string }> {
+    const children: RepresentationMetadata[] = [];
+    for await (const child of this.accessor.getChildren(identifier, { ...page, limit: page.limit + 1 })) {
+      children.push(child);
+    }
+    // Accessors do not need to return the children in order
+    children.sort((child1, child2): number => child1.identifier.value < child2.identifier.value ? -1 : 1);
+    if (children.length <= page.limit) {
+      return { children };
+    }
+
+    children.length = page.limit;
+    const next = new URL(identifier.path);
+    next.searchParams.set('limit', `${page.limit}`);
+    next.searchParams.set('after', children[page.limit - 1].identifier.value);
+    return { children, next: next.href };
+  }
+
+  /**
+   * Determines which bytes of a document should be read based on the range preferences.
+   * This is only done for single byte ranges on documents with a known size,
+   * and only if no conversion to another content type will be needed afterwards.
+   * All other situations are left to the stores making use of this one.
+   *
+   * @param metadata - Metadata of the document. Will be updated with the range metadata if a range is returned.
+   * @param preferences - Preferences of the request.
+   *
+   * @throws RangeNotSatisfiableHttpError
+   * If the requested range does not overlap with the document.
+   */
+  protected getByteRange(metadata: RepresentationMetadata, preferences: RepresentationPreferences):
+  ByteRange | undefined {
+    const { range, type } = preferences;
+    const size = metadata.get(POSIX.terms.size);
+    const { contentType } = metadata;
+    if (range?.unit !== 'bytes' || range.parts.length !== 1 || !size || !contentType ||
+      isInternalContentType(contentType) || !matchesIfRange(metadata, range.ifRange)) {
+      return;
+    }
+    const typePreferences = cleanPreferences(type);
+    if (getTypeWeight(contentType, typePreferences) < Math.max(...Object.values(typePreferences))) {
+      return;
+    }
+
+    const byteRange = resolveRange(range.parts[0], Number(size.value));
+    if (!byteRange) {
+      throw new RangeNotSatisfiableHttpError(Number(size.value));
+    }
+    addRangeMetadata(metadata, byteRange, Number(size.value));
+    return byteRange;
+  }
+
   public async addResource(container: ResourceIdentifier, representation: Representation, conditions?: Conditions):
   Promise<ChangeMap> {
     this.validateIdentifier(container);
@@ -431,6 +539,13 @@ export class DataAccessorBasedStore implements ResourceStore {
 
     // Remove the response metadata as this must not be stored
     this.removeResponseMetadata(metadata);
+
+    // The content digest is generated by the server so can not be changed through the metadata resource
+    metadata.removeAll(SOLID_META.terms.contentDigest);
+    const digest = (await this.accessor.getMetadata(subjectIdentifier)).get(SOLID_META.terms.contentDigest);
+    if (digest) {
+      metadata.add(SOLID_META.terms.contentDigest, digest.value);
+    }
     await this.accessor.writeMetadata(subjectIdentifier, metadata);
 
     this.addActivityMetadata(changes, subjectIdentifier, AS.terms.Update);
@@ -491,15 +606,60 @@ export class DataAccessorBasedStore implements ResourceStore {
 
     // Remove all generated metadata to prevent it from being stored permanently
     this.removeResponseMetadata(representation.metadata);
+    // A new digest is generated when writing the data
+    representation.metadata.removeAll(SOLID_META.terms.contentDigest);
 
     await (isContainer ?
       this.accessor.writeContainer(identifier, representation.metadata) :
-      this.accessor.writeDocument(identifier, representation.data, representation.metadata));
+      this.writeDocument(identifier, representation));
 
     this.addActivityMetadata(changes, identifier, exists ? AS.terms.Update : AS.terms.Create);
     return changes;
   }
 
+  /**
+   * Writes the data of a document to the DataAccessor,
+   * after which the SHA-256 digest of that data is added to its metadata so it can be used to generate ETags.
+   * Data that is not binary, such as quads, is written without a digest,
+   * as is data that does not consist of bytes or that was not read completely by the DataAccessor.
+   *
+   * @param identifier - Identifier of the document.
+   * @param representation - Corresponding Representation.
+   */
+  protected async writeDocument(identifier: ResourceIdentifier, representation: Representation): Promise<void> {
+    if (!representation.binary) {
+      return this.accessor.writeDocument(identifier, representation.data, representation.metadata);
+    }
+
+    let hash: Hash | undefined = createHash('sha256');
+    let digest: string | undefined;
+    const data = transformSafely(representation.data, {
+      // Passes the chunks along unchanged
+      objectMode: true,
+      transform(chunk: unknown): void {
+        // Only data consisting of bytes can be hashed
+        if (typeof chunk === 'string' || chunk instanceof Uint8Array) {
+          hash?.update(chunk);
+        } else {
+          hash = undefined;
+        }
+        this.push(chunk);
+      },
+      flush(): void {
+        digest = hash?.digest('hex');
+      },
+    });
+    await this.accessor.writeDocument(identifier, data, representation.metadata);
+
+    // The digest is only known after all data has been written
+    if (digest) {
+      const metadata = await this.accessor.getMetadata(identifier);
+      metadata.set(SOLID_META.terms.contentDigest, digest);
+      this.removeResponseMetadata(metadata);
+      await this.accessor.writeMetadata(identifier, metadata);
+    }
+  }
+
   /**
    * Warns when the representation has data and removes the content-type from the metadata.
    *
@@ -0,0 +1,235 @@
+import { v4 } from 'uuid';
+import type { AuxiliaryStrategy } from '../http/auxiliary/AuxiliaryStrategy';
+import { BasicRepresentation } from '../http/representation/BasicRepresentation';
+import type { Representation } from '../http/representation/Representation';
+import { RepresentationMetadata } from '../http/representation/RepresentationMetadata';
+import type { ResourceIdentifier } from '../http/representation/ResourceIdentifier';
+import { getLoggerFor } from '../logging/LogUtil';
+import { createErrorMessage } from '../util/errors/ErrorUtil';
+import { NotFoundHttpError } from '../util/errors/NotFoundHttpError';
+import type { IdentifierStrategy } from '../util/identifiers/IdentifierStrategy';
+import { ensureTrailingSlash, isContainerIdentifier, trimTrailingSlashes } from '../util/PathUtil';
+import type { SerializedRepresentation } from '../util/ResourceUtil';
+import { serializeRepresentation } from '../util/ResourceUtil';
+import { PIM, RDF } from '../util/Vocabularies';
+import type { Conditions } from './Conditions';
+import type { ExpiringStorage } from './keyvalue/ExpiringStorage';
+import { PassthroughStore } from './PassthroughStore';
+import type { ChangeMap, ResourceStore } from './ResourceStore';
+
+/**
+ * A resource that was moved to the trash.
+ */
+export interface TrashedResource extends SerializedRepresentation {
+  /**
+   * The original identifier of the resource.
+   */
+  path: string;
+}
+
+/**
+ * The result of deleting a resource, which can be restored from the trash.
+ */
+export interface TrashEntry {
+  /**
+   * The unique identifier of the entry.
+   */
+  id: string;
+  /**
+   * The root of the storage the resource was in.
+   */
+  storage: string;
+  /**
+   * The identifier of the deleted resource.
+   */
+  path: string;
+  /**
+   * When the resource was deleted, in milliseconds since the epoch.
+   */
+  deleted: number;
+  /**
+   * The deleted resource, followed by its auxiliary resources.
+   */
+  resources: TrashedResource[];
+}
+
+export interface TrashStoreOptions {
+  /**
+   * Storage in which the trash entries are stored.
+   * Entries get removed from this storage once they expire.
+   */
+  storage: ExpiringStorage<string, TrashEntry>;
+  /**
+   * Used to find the storage root of a resource.
+   */
+  identifierStrategy: IdentifierStrategy;
+  /**
+   * Used to find the auxiliary resources that get deleted together with a resource.
+   */
+  auxiliaryStrategy: AuxiliaryStrategy;
+  /**
+   * Used to prevent description resources from being stored separately,
+   * as their contents are already part of the metadata of their subject.
+   */
+  metadataStrategy: AuxiliaryStrategy;
+  /**
+   * Base URL of the server.
+   */
+  baseUrl: string;
+  /**
+   * Regular expression strings of paths, relative to the base URL, that should not be moved to the trash.
+   * They should all start with a slash.
+   */
+  ignoredPaths?: string[];
+  /**
+   * How long entries remain in the trash, in seconds.
+   * Defaults to 30 days.
+   */
+  retention?: number;
+}
+
+/**
+ * Moves deleted resources to the trash of the storage they were in,
+ * so they can still be restored afterwards.
+ *
+ * The trash entry of a deleted resource contains its representation and metadata,
+ * and those of all its auxiliary resources that also get deleted.
+ * Resources that are not in a storage, or match one of the ignored paths, are deleted permanently.
+ *
+ * Entries are stored in an {@link ExpiringStorage} that is responsible for purging them
+ * after the retention period.
+ */
+export class TrashStore<T extends ResourceStore = ResourceStore> extends PassthroughStore<T> {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly storage: ExpiringStorage<string, TrashEntry>;
+  private readonly identifierStrategy: IdentifierStrategy;
+  private readonly auxiliaryStrategy: AuxiliaryStrategy;
+  private readonly metadataStrategy: AuxiliaryStrategy;
+  private readonly baseUrl: string;
+  private readonly ignoredPaths: RegExp[];
+  private readonly retention: number;
+
+  public constructor(source: T, options: TrashStoreOptions) {
+    super(source);
+    this.storage = options.storage;
+    this.identifierStrategy = options.identifierStrategy;
+    this.auxiliaryStrategy = options.auxiliaryStrategy;
+    this.metadataStrategy = options.metadataStrategy;
+    this.baseUrl = ensureTrailingSlash(options.baseUrl);
+    this.ignoredPaths = (options.ignoredPaths ?? []).map((path): RegExp => new RegExp(path, 'u'));
+    this.retention = options.retention ?? 30 * 24 * 60 * 60;
+  }
+
+  public async deleteResource(identifier: ResourceIdentifier, conditions?: Conditions): Promise<ChangeMap> {
+    const entry = await this.createEntry(identifier);
+    const changes = await this.source.deleteResource(identifier, conditions);
+    if (entry) {
+      await this.storage.set(entry.id, entry, this.retention * 1000);
+      this.logger.info(`Moved ${identifier.path} to the trash of ${entry.storage}`);
+    }
+    return changes;
+  }
+
+  /**
+   * Creates the trash entry of the given resource.
+   * Returns `undefined` if the resource should not be moved to the trash.
+   */
+  private async createEntry(identifier: ResourceIdentifier): Promise<TrashEntry | undefined> {
+    if (this.isIgnored(identifier)) {
+      return;
+    }
+
+    const resource = await this.createTrashedResource(identifier);
+    if (!resource) {
+      // The source store will throw the relevant error
+      return;
+    }
+
+    const storage = await this.findStorageRoot(identifier);
+    if (!storage) {
+      return;
+    }
+
+    const resources = [ resource ];
+    if (!this.auxiliaryStrategy.isAuxiliaryIdentifier(identifier)) {
+      for (const auxiliary of this.auxiliaryStrategy.getAuxiliaryIdentifiers(identifier)) {
+        if (!this.metadataStrategy.isAuxiliaryIdentifier(auxiliary)) {
+          // Similar to the deletion of auxiliary resources, errors here should not prevent the deletion
+          try {
+            const trashed = await this.createTrashedResource(auxiliary);
+            if (trashed) {
+              resources.push(trashed);
+            }
+          } catch (error: unknown) {
+            this.logger.warn(`Unable to move auxiliary resource ${auxiliary.path} to the trash: ${
+              createErrorMessage(error)}`);
+          }
+        }
+      }
+    }
+
+    return { id: v4(), storage: storage.path, path: identifier.path, deleted: Date.now(), resources };
+  }
+
+  /**
+   * Serializes the current state of the given resource.
+   * Only the metadata of containers is stored as their contents are determined by their children.
+   * Returns `undefined` if the resource does not exist.
+   */
+  private async createTrashedResource(identifier: ResourceIdentifier): Promise<TrashedResource | undefined> {
+    let representation: Representation;
+    try {
+      representation = await this.source.getRepresentation(identifier, {});
+    } catch (error: unknown) {
+      if (NotFoundHttpError.isInstance(error)) {
+        return;
+      }
+      throw error;
+    }
+
+    if (isContainerIdentifier(identifier)) {
+      representation.data.destroy();
+      // Container metadata also contains the metadata of its children, which is not relevant here
+      const { metadata } = representation;
+      const containerMetadata = new RepresentationMetadata(metadata.identifier)
+        .addQuads(metadata.quads(metadata.identifier));
+      representation = new BasicRepresentation([], containerMetadata);
+    }
+
+    return { path: identifier.path, ...await serializeRepresentation(representation) };
+  }
+
+  /**
+   * Finds the closest container, starting from the given identifier, that is marked as a storage.
+   */
+  private async findStorageRoot(identifier: ResourceIdentifier): Promise<ResourceIdentifier | undefined> {
+    try {
+      const representation = await this.source.getRepresentation(identifier, {});
+      // We only need the metadata
+      representation.data.destroy();
+      if (representation.metadata.has(RDF.terms.type, PIM.terms.Storage)) {
+        return identifier;
+      }
+    } catch (error: unknown) {
+      if (!NotFoundHttpError.isInstance(error)) {
+        throw error;
+      }
+    }
+    if (!this.identifierStrategy.isRootContainer(identifier)) {
+      return this.findStorageRoot(this.identifierStrategy.getParentContainer(identifier));
+    }
+  }
+
+  /**
+   * Checks if the given identifier matches one of the ignored paths.
+   */
+  private isIgnored(identifier: ResourceIdentifier): boolean {
+    if (!identifier.path.startsWith(this.baseUrl)) {
+      return false;
+    }
+    // We want to keep the leading slash
+    const relative = identifier.path.slice(trimTrailingSlashes(this.baseUrl).length);
+    return this.ignoredPaths.some((regex): boolean => regex.test(relative));
+  }
+}
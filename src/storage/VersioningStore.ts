@@ -0,0 +1,258 @@
+import { DataFactory } from 'n3';
+import type { AuxiliaryIdentifierStrategy } from '../http/auxiliary/AuxiliaryIdentifierStrategy';
+import { BasicRepresentation } from '../http/representation/BasicRepresentation';
+import type { Patch } from '../http/representation/Patch';
+import type { Representation } from '../http/representation/Representation';
+import type { RepresentationMetadata } from '../http/representation/RepresentationMetadata';
+import type { RepresentationPreferences } from '../http/representation/RepresentationPreferences';
+import type { ResourceIdentifier } from '../http/representation/ResourceIdentifier';
+import { getLoggerFor } from '../logging/LogUtil';
+import { APPLICATION_LINK_FORMAT } from '../util/ContentTypes';
+import { MethodNotAllowedHttpError } from '../util/errors/MethodNotAllowedHttpError';
+import { NotFoundHttpError } from '../util/errors/NotFoundHttpError';
+import { isContainerIdentifier } from '../util/PathUtil';
+import type { SerializedRepresentation } from '../util/ResourceUtil';
+import { deserializeRepresentation, serializeRepresentation } from '../util/ResourceUtil';
+import { DC, MEMENTO, SOLID_META } from '../util/Vocabularies';
+import type { Conditions } from './Conditions';
+import type { KeyValueStorage } from './keyvalue/KeyValueStorage';
+import { PassthroughStore } from './PassthroughStore';
+import type { ChangeMap, ResourceStore } from './ResourceStore';
+import namedNode = DataFactory.namedNode;
+
+/**
+ * A previous version of a resource.
+ */
+export interface ResourceVersion extends SerializedRepresentation {
+  /**
+   * The time at which this version came into existence, in milliseconds since the epoch.
+   */
+  datetime: number;
+  /**
+   * The time at which this version got replaced or removed, in milliseconds since the epoch.
+   */
+  archived: number;
+}
+
+/**
+ * Keeps track of previous versions of documents, based on the Memento protocol (RFC 7089).
+ *
+ * Every time a document is replaced, modified, or deleted,
+ * the representation and metadata it had before are stored in the given {@link KeyValueStorage}.
+ * Containers are not versioned.
+ *
+ * The TimeMap of a resource, which lists all its versions, is exposed as the auxiliary resource
+ * determined by the `timeMapStrategy`.
+ * TimeMaps can not be modified.
+ *
+ * The resources themselves act as TimeGate:
+ * in case a request has an `Accept-Datetime` header,
+ * the version that was valid at that time is returned instead, with the corresponding Memento datetime.
+ * If the requested time is before the oldest known version, that version is returned.
+ * Versions do not have a URL of their own,
+ * they can only be retrieved through the `Accept-Datetime` negotiation.
+ *
+ * The number of versions kept per resource can be limited with `maxVersions`,
+ * and `maxAge` can be used to remove versions that were archived longer ago than the given number of seconds.
+ */
+export class VersioningStore<T extends ResourceStore = ResourceStore> extends PassthroughStore<T> {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly storage: KeyValueStorage<string, ResourceVersion[]>;
+  private readonly timeMapStrategy: AuxiliaryIdentifierStrategy;
+  private readonly maxVersions: number;
+  private readonly maxAge?: number;
+
+  public constructor(source: T, storage: KeyValueStorage<string, ResourceVersion[]>,
+    timeMapStrategy: AuxiliaryIdentifierStrategy, maxVersions = 10, maxAge?: number) {
+    super(source);
+    this.storage = storage;
+    this.timeMapStrategy = timeMapStrategy;
+    this.maxVersions = maxVersions;
+    this.maxAge = maxAge;
+  }
+
+  public async hasResource(identifier: ResourceIdentifier): Promise<boolean> {
+    if (this.timeMapStrategy.isAuxiliaryIdentifier(identifier)) {
+      const subject = this.timeMapStrategy.getSubjectIdentifier(identifier);
+      return await this.storage.has(subject.path) || this.source.hasResource(subject);
+    }
+    return this.source.hasResource(identifier);
+  }
+
+  public async getRepresentation(identifier: ResourceIdentifier, preferences: RepresentationPreferences,
+    conditions?: Conditions): Promise<Representation> {
+    if (this.timeMapStrategy.isAuxiliaryIdentifier(identifier)) {
+      return this.getTimeMap(identifier);
+    }
+
+    const datetime = Object.keys(preferences.datetime ?? {})[0];
+    if (!datetime || isContainerIdentifier(identifier)) {
+      return this.source.getRepresentation(identifier, preferences, conditions);
+    }
+    return this.getMemento(identifier, Date.parse(datetime), preferences, conditions);
+  }
+
+  public async setRepresentation(identifier: ResourceIdentifier, representation: Representation,
+    conditions?: Conditions): Promise<ChangeMap> {
+    this.assertNotTimeMap(identifier, 'PUT');
+    const version = await this.createVersion(identifier);
+    const changes = await this.source.setRepresentation(identifier, representation, conditions);
+    await this.addVersion(identifier, version);
+    return changes;
+  }
+
+  public async modifyResource(identifier: ResourceIdentifier, patch: Patch,
+    conditions?: Conditions): Promise<ChangeMap> {
+    this.assertNotTimeMap(identifier, 'PATCH');
+    const version = await this.createVersion(identifier);
+    const changes = await this.source.modifyResource(identifier, patch, conditions);
+    await this.addVersion(identifier, version);
+    return changes;
+  }
+
+  public async deleteResource(identifier: ResourceIdentifier, conditions?: Conditions): Promise<ChangeMap> {
+    this.assertNotTimeMap(identifier, 'DELETE');
+    const version = await this.createVersion(identifier);
+    const changes = await this.source.deleteResource(identifier, conditions);
+    await this.addVersion(identifier, version);
+    return changes;
+  }
+
+  /**
+   * Throws an error if the identifier corresponds to a TimeMap, as these can not be modified.
+   */
+  private assertNotTimeMap(identifier: ResourceIdentifier, method: string): void {
+    if (this.timeMapStrategy.isAuxiliaryIdentifier(identifier)) {
+      throw new MethodNotAllowedHttpError([ method ], 'TimeMaps can not be modified.');
+    }
+  }
+
+  /**
+   * Generates a TimeMap in the link format, listing the current and all previous versions of the subject resource.
+   */
+  private async getTimeMap(identifier: ResourceIdentifier): Promise<Representation> {
+    const subject = this.timeMapStrategy.getSubjectIdentifier(identifier);
+    const datetimes = (await this.storage.get(subject.path) ?? []).map((version): number => version.datetime);
+    try {
+      const current = await this.source.getRepresentation(subject, {});
+      current.data.destroy();
+      if (!isContainerIdentifier(subject)) {
+        datetimes.push(this.getDatetime(current.metadata));
+      }
+    } catch (error: unknown) {
+      if (!NotFoundHttpError.isInstance(error) || datetimes.length === 0) {
+        throw error;
+      }
+    }
+
+    const links = [
+      `<${subject.path}>; rel="original timegate"`,
+      `<${identifier.path}>; rel="self"; type="${APPLICATION_LINK_FORMAT}"`,
+      ...datetimes.map((datetime): string =>
+        `<${subject.path}>; rel="memento"; datetime="${new Date(datetime).toUTCString()}"`),
+    ];
+    return new BasicRepresentation(links.join(',\n'), identifier, APPLICATION_LINK_FORMAT);
+  }
+
+  /**
+   * Returns the version of the resource that was valid at the given time.
+   */
+  private async getMemento(identifier: ResourceIdentifier, datetime: number, preferences: RepresentationPreferences,
+    conditions?: Conditions): Promise<Representation> {
+    const versions = await this.storage.get(identifier.path) ?? [];
+
+    let current: Representation | undefined;
+    try {
+      current = await this.source.getRepresentation(identifier, preferences, conditions);
+    } catch (error: unknown) {
+      if (!NotFoundHttpError.isInstance(error) || versions.length === 0) {
+        throw error;
+      }
+    }
+
+    if (current) {
+      const currentDatetime = this.getDatetime(current.metadata);
+      if (versions.length === 0 || currentDatetime <= datetime) {
+        this.addMementoMetadata(current.metadata, currentDatetime);
+        return current;
+      }
+      current.data.destroy();
+    }
+
+    // Versions are sorted chronologically, the oldest one is used if the requested time precedes all of them
+    let result = versions[0];
+    for (const version of versions) {
+      if (version.datetime <= datetime) {
+        result = version;
+      }
+    }
+
+    this.logger.debug(`Returning version ${new Date(result.datetime).toISOString()} of ${identifier.path}`);
+    const representation = deserializeRepresentation(identifier, result);
+    this.addMementoMetadata(representation.metadata, result.datetime);
+    return representation;
+  }
+
+  /**
+   * Adds the metadata needed to indicate the representation is a Memento.
+   */
+  private addMementoMetadata(metadata: RepresentationMetadata, datetime: number): void {
+    metadata.add(MEMENTO.terms.mementoDatetime, new Date(datetime).toUTCString(), SOLID_META.terms.ResponseMetadata);
+    metadata.add(MEMENTO.terms.original, namedNode(metadata.identifier.value), SOLID_META.terms.ResponseMetadata);
+  }
+
+  /**
+   * Creates a version containing the current state of the resource.
+   * Returns `undefined` if there is nothing that needs to be stored.
+   */
+  private async createVersion(identifier: ResourceIdentifier): Promise<ResourceVersion | undefined> {
+    if (isContainerIdentifier(identifier)) {
+      return;
+    }
+
+    let representation: Representation;
+    try {
+      representation = await this.source.getRepresentation(identifier, {});
+    } catch (error: unknown) {
+      if (NotFoundHttpError.isInstance(error)) {
+        return;
+      }
+      throw error;
+    }
+
+    return {
+      ...await serializeRepresentation(representation),
+      datetime: this.getDatetime(representation.metadata),
+      archived: Date.now(),
+    };
+  }
+
+  /**
+   * Adds a new version of the given resource to the storage and removes the versions that should no longer be kept.
+   */
+  private async addVersion(identifier: ResourceIdentifier, version?: ResourceVersion): Promise<void> {
+    if (!version) {
+      return;
+    }
+
+    let versions = [ ...await this.storage.get(identifier.path) ?? [], version ];
+    if (this.maxAge) {
+      const threshold = Date.now() - (this.maxAge * 1000);
+      versions = versions.filter((entry): boolean => entry.archived >= threshold);
+    }
+    versions = versions.slice(-this.maxVersions);
+    this.logger.debug(`Storing version ${new Date(version.datetime).toISOString()} of ${identifier.path}`);
+    await this.storage.set(identifier.path, versions);
+  }
+
+  /**
+   * Finds the time at which the resource was last modified.
+   * Precision is reduced to seconds, as that is what is used in the HTTP headers.
+   */
+  private getDatetime(metadata: RepresentationMetadata): number {
+    const modified = metadata.get(DC.terms.modified);
+    const time = modified ? Date.parse(modified.value) : Date.now();
+    return Math.floor(time / 1000) * 1000;
+  }
+}
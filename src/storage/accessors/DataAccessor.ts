@@ -1,8 +1,10 @@
 import type { Readable } from 'stream';
 import type { Representation } from '../../http/representation/Representation';
 import type { RepresentationMetadata } from '../../http/representation/RepresentationMetadata';
+import type { PagePreference } from '../../http/representation/RepresentationPreferences';
 import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
 import type { Guarded } from '../../util/GuardedStream';
+import type { ByteRange } from '../../util/RangeUtil';
 
 /**
  * A DataAccessor is the building block closest to the actual data storage.
@@ -26,9 +28,12 @@ export interface DataAccessor {
   /**
    * Returns a data stream stored for the given identifier.
    * It can be assumed that the incoming identifier will always correspond to a document.
+   * A range will only be requested for documents of which the metadata contains their size,
+   * so accessors that do not provide that value can ignore it.
    * @param identifier - Identifier for which the data is requested.
+   * @param range - The bytes that should be returned, instead of the full data stream.
    */
-  getData: (identifier: ResourceIdentifier) => Promise<Guarded<Readable>>;
+  getData: (identifier: ResourceIdentifier, range?: ByteRange) => Promise<Guarded<Readable>>;
 
   /**
    * Returns the metadata corresponding to the identifier.
@@ -46,9 +51,14 @@ export interface DataAccessor {
    *
    * It can be safely assumed that the incoming identifier will always correspond to a container.
    *
+   * In case a page is requested, only the children with the lowest identifiers after `page.after` are returned,
+   * with at most `page.limit` results. These do not need to be returned in order.
+   * Accessors should make sure they do not need to read the metadata of all the children in that case.
+   *
    * @param identifier - Identifier of the parent container.
+   * @param page - The page of children that should be returned.
    */
-  getChildren: (identifier: ResourceIdentifier) => AsyncIterableIterator<RepresentationMetadata>;
+  getChildren: (identifier: ResourceIdentifier, page?: PagePreference) => AsyncIterableIterator<RepresentationMetadata>;
 
   /**
    * Writes data and metadata for a document.
@@ -0,0 +1,226 @@
+import type { Readable } from 'stream';
+import type { Quad } from 'rdf-js';
+import type { Representation } from '../../http/representation/Representation';
+import { RepresentationMetadata } from '../../http/representation/RepresentationMetadata';
+import type { PagePreference } from '../../http/representation/RepresentationPreferences';
+import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
+import { NotFoundHttpError } from '../../util/errors/NotFoundHttpError';
+import { UnsupportedMediaTypeHttpError } from '../../util/errors/UnsupportedMediaTypeHttpError';
+import type { Guarded } from '../../util/GuardedStream';
+import type { IdentifierStrategy } from '../../util/identifiers/IdentifierStrategy';
+import { trimTrailingSlashes } from '../../util/PathUtil';
+import { parseQuads, serializeQuads } from '../../util/QuadUtil';
+import type { ByteRange } from '../../util/RangeUtil';
+import { guardedStreamFrom, readableToString } from '../../util/StreamUtil';
+import { toLiteral } from '../../util/TermUtil';
+import { CONTENT_TYPE_TERM, DC, PIM, POSIX, RDF, SOLID_META, XSD } from '../../util/Vocabularies';
+import type { EncryptionKey } from '../encryption/EncryptionUtil';
+import {
+  decryptBuffer,
+  decryptStream,
+  encryptBuffer,
+  encryptStream,
+  ENCRYPTION_OVERHEAD,
+} from '../encryption/EncryptionUtil';
+import type { KeyProvider } from '../encryption/KeyProvider';
+import type { DataAccessor } from './DataAccessor';
+import { PassthroughDataAccessor } from './PassthroughDataAccessor';
+
+// Metadata the source accessor might need to store the resource, or that it generates itself
+const PLAIN_PREDICATES = new Set([ CONTENT_TYPE_TERM.value, DC.modified ]);
+
+/**
+ * A DataAccessor that encrypts all data and metadata before it is passed to the source DataAccessor,
+ * and decrypts it again when it is read.
+ *
+ * Data streams are encrypted with AES-GCM while they are being written.
+ * The metadata is stored as a single encrypted value,
+ * except for the content type and modified date, which the source accessor might need.
+ * Resources are encrypted with the current key of the storage they are part of,
+ * which is found by looking for the closest container that is a `pim:Storage`.
+ *
+ * Every encrypted document is {@link ENCRYPTION_OVERHEAD} bytes larger than the original data.
+ * The sizes reported by the source accessor are corrected accordingly,
+ * so size reporters that use the metadata report the size of the unencrypted data.
+ * As the data can only be verified after it has been read completely,
+ * the full data is decrypted when a range is requested.
+ *
+ * Resources in the unencrypted folders are passed to the source accessor as they are.
+ * This is necessary for the folder containing the encryption keys,
+ * in case other components, such as a {@link JsonResourceStorage}, also read that data through this accessor.
+ *
+ * The source accessor needs to be able to store binary data.
+ */
+export class EncryptingDataAccessor extends PassthroughDataAccessor {
+  private readonly keyProvider: KeyProvider;
+  private readonly identifierStrategy: IdentifierStrategy;
+  private readonly baseUrl: string;
+  private readonly unencryptedFolders: RegExp[];
+
+  /**
+   * @param accessor - Accessor used to store the encrypted data.
+   * @param keyProvider - Provides the keys used for encryption.
+   * @param identifierStrategy - Used to find the storage a resource is part of.
+   * @param baseUrl - Base URL of the server,
+   *                  used to determine the relative paths the unencrypted folders are matched to.
+   * @param unencryptedFolders - Regular expressions of relative container paths, without trailing slash,
+   *                             of which the contents should not be encrypted.
+   */
+  public constructor(accessor: DataAccessor, keyProvider: KeyProvider, identifierStrategy: IdentifierStrategy,
+    baseUrl: string, unencryptedFolders?: string[]) {
+    super(accessor);
+    this.keyProvider = keyProvider;
+    this.identifierStrategy = identifierStrategy;
+    this.baseUrl = trimTrailingSlashes(baseUrl);
+    this.unencryptedFolders = (unencryptedFolders ?? []).map((folder): RegExp => new RegExp(folder, 'u'));
+  }
+
+  /**
+   * Only binary data can be encrypted.
+   */
+  public async canHandle(representation: Representation): Promise<void> {
+    if (!representation.binary) {
+      throw new UnsupportedMediaTypeHttpError('Only binary data can be encrypted.');
+    }
+    return this.accessor.canHandle(representation);
+  }
+
+  public async getData(identifier: ResourceIdentifier, range?: ByteRange): Promise<Guarded<Readable>> {
+    if (this.isUnencrypted(identifier)) {
+      return this.accessor.getData(identifier, range);
+    }
+    return decryptStream(await this.accessor.getData(identifier), this.resolveKey.bind(this), range);
+  }
+
+  public async getMetadata(identifier: ResourceIdentifier): Promise<RepresentationMetadata> {
+    const metadata = await this.accessor.getMetadata(identifier);
+    return this.isUnencrypted(identifier) ? metadata : this.decryptMetadata(metadata);
+  }
+
+  public async* getChildren(identifier: ResourceIdentifier, page?: PagePreference):
+  AsyncIterableIterator<RepresentationMetadata> {
+    for await (const child of this.accessor.getChildren(identifier, page)) {
+      yield this.isUnencrypted({ path: child.identifier.value }) ? child : this.decryptMetadata(child);
+    }
+  }
+
+  public async writeDocument(identifier: ResourceIdentifier, data: Guarded<Readable>, metadata: RepresentationMetadata):
+  Promise<void> {
+    if (this.isUnencrypted(identifier)) {
+      return this.accessor.writeDocument(identifier, data, metadata);
+    }
+    const key = await this.getCurrentKey(identifier, metadata);
+    return this.accessor.writeDocument(identifier, encryptStream(data, key), await this.encryptMetadata(metadata, key));
+  }
+
+  public async writeContainer(identifier: ResourceIdentifier, metadata: RepresentationMetadata): Promise<void> {
+    if (this.isUnencrypted(identifier)) {
+      return this.accessor.writeContainer(identifier, metadata);
+    }
+    const key = await this.getCurrentKey(identifier, metadata);
+    return this.accessor.writeContainer(identifier, await this.encryptMetadata(metadata, key));
+  }
+
+  public async writeMetadata(identifier: ResourceIdentifier, metadata: RepresentationMetadata): Promise<void> {
+    if (this.isUnencrypted(identifier)) {
+      return this.accessor.writeMetadata(identifier, metadata);
+    }
+    const key = await this.getCurrentKey(identifier, metadata);
+    return this.accessor.writeMetadata(identifier, await this.encryptMetadata(metadata, key));
+  }
+
+  /**
+   * Returns the key that should be used to encrypt the given resource,
+   * based on the storage it is part of.
+   */
+  private async getCurrentKey(identifier: ResourceIdentifier, metadata: RepresentationMetadata):
+  Promise<EncryptionKey> {
+    const storage = metadata.has(RDF.terms.type, PIM.terms.Storage) ? identifier : await this.findStorage(identifier);
+    return this.keyProvider.getCurrentKey(storage);
+  }
+
+  /**
+   * Finds the closest parent container that is a storage.
+   */
+  private async findStorage(identifier: ResourceIdentifier): Promise<ResourceIdentifier | undefined> {
+    let container = identifier;
+    while (!this.identifierStrategy.isRootContainer(container)) {
+      container = this.identifierStrategy.getParentContainer(container);
+      try {
+        const metadata = await this.getMetadata(container);
+        if (metadata.has(RDF.terms.type, PIM.terms.Storage)) {
+          return container;
+        }
+      } catch (error: unknown) {
+        if (!NotFoundHttpError.isInstance(error)) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Creates a copy of the metadata in which all stored quads are replaced by a single encrypted value,
+   * except for those that the source accessor might need.
+   */
+  private async encryptMetadata(metadata: RepresentationMetadata, key: EncryptionKey):
+  Promise<RepresentationMetadata> {
+    const plain: Quad[] = [];
+    const encrypted: Quad[] = [];
+    for (const quad of metadata.quads()) {
+      if (quad.graph.termType === 'DefaultGraph' && !PLAIN_PREDICATES.has(quad.predicate.value)) {
+        encrypted.push(quad);
+      } else {
+        plain.push(quad);
+      }
+    }
+    const result = new RepresentationMetadata(metadata.identifier).addQuads(plain);
+    if (encrypted.length > 0) {
+      const serialized = await readableToString(serializeQuads(encrypted, 'application/n-quads'));
+      result.add(SOLID_META.terms.encryptedMetadata, encryptBuffer(Buffer.from(serialized), key).toString('base64'));
+    }
+    return result;
+  }
+
+  /**
+   * Replaces the encrypted metadata value with the quads it contains,
+   * and removes the encryption overhead from the size.
+   */
+  private async decryptMetadata(metadata: RepresentationMetadata): Promise<RepresentationMetadata> {
+    const encrypted = metadata.get(SOLID_META.terms.encryptedMetadata);
+    if (encrypted) {
+      metadata.removeAll(SOLID_META.terms.encryptedMetadata);
+      const serialized = await decryptBuffer(Buffer.from(encrypted.value, 'base64'), this.resolveKey.bind(this));
+      metadata.addQuads(await parseQuads(guardedStreamFrom(serialized.toString()), { format: 'application/n-quads' }));
+    }
+
+    const size = metadata.get(POSIX.terms.size, SOLID_META.terms.ResponseMetadata);
+    if (size) {
+      metadata.set(POSIX.terms.size,
+        toLiteral(Math.max(Number(size.value) - ENCRYPTION_OVERHEAD, 0), XSD.terms.integer),
+        SOLID_META.terms.ResponseMetadata);
+    }
+    return metadata;
+  }
+
+  /**
+   * Checks if the given resource, or one of the containers it is part of, should not be encrypted.
+   */
+  private isUnencrypted(identifier: ResourceIdentifier): boolean {
+    if (!identifier.path.startsWith(this.baseUrl)) {
+      return false;
+    }
+    const parts = trimTrailingSlashes(identifier.path.slice(this.baseUrl.length)).split('/');
+    for (let i = 2; i <= parts.length; i += 1) {
+      const path = parts.slice(0, i).join('/');
+      if (this.unencryptedFolders.some((folder): boolean => folder.test(path))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private async resolveKey(id: string): Promise<EncryptionKey> {
+    return this.keyProvider.getKey(id);
+  }
+}
@@ -4,6 +4,7 @@ import { ensureDir, remove, stat, lstat, createWriteStream, createReadStream, op
 import type { Quad } from 'rdf-js';
 import type { Representation } from '../../http/representation/Representation';
 import { RepresentationMetadata } from '../../http/representation/RepresentationMetadata';
+import type { PagePreference } from '../../http/representation/RepresentationPreferences';
 import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
 import { getLoggerFor } from '../../logging/LogUtil';
 import { NotFoundHttpError } from '../../util/errors/NotFoundHttpError';
@@ -12,8 +13,10 @@ import { UnsupportedMediaTypeHttpError } from '../../util/errors/UnsupportedMedi
 import { guardStream } from '../../util/GuardedStream';
 import type { Guarded } from '../../util/GuardedStream';
 import { parseContentType } from '../../util/HeaderUtil';
+import { selectPage } from '../../util/PageUtil';
 import { joinFilePath, isContainerIdentifier, isContainerPath } from '../../util/PathUtil';
 import { parseQuads, serializeQuads } from '../../util/QuadUtil';
+import type { ByteRange } from '../../util/RangeUtil';
 import { addResourceMetadata, updateModifiedDate } from '../../util/ResourceUtil';
 import { toLiteral, toNamedTerm } from '../../util/TermUtil';
 import { CONTENT_TYPE_TERM, DC, IANA, LDP, POSIX, RDF, SOLID_META, XSD } from '../../util/Vocabularies';
@@ -43,14 +46,15 @@ export class FileDataAccessor implements DataAccessor {
 
   /**
    * Will return data stream directly to the file corresponding to the resource.
+   * In case a range is requested, the stream only reads that part of the file.
    * Will throw NotFoundHttpError if the input is a container.
    */
-  public async getData(identifier: ResourceIdentifier): Promise<Guarded<Readable>> {
+  public async getData(identifier: ResourceIdentifier, range?: ByteRange): Promise<Guarded<Readable>> {
     const link = await this.resourceMapper.mapUrlToFilePath(identifier, false);
     const stats = await this.getStats(link.filePath);
 
     if (stats.isFile()) {
-      return guardStream(createReadStream(link.filePath));
+      return guardStream(createReadStream(link.filePath, range));
     }
 
     throw new NotFoundHttpError();
@@ -72,9 +76,14 @@ export class FileDataAccessor implements DataAccessor {
     throw new NotFoundHttpError();
   }
 
-  public async* getChildren(identifier: ResourceIdentifier): AsyncIterableIterator<RepresentationMetadata> {
+  public async* getChildren(identifier: ResourceIdentifier, page?: PagePreference):
+  AsyncIterableIterator<RepresentationMetadata> {
     const link = await this.resourceMapper.mapUrlToFilePath(identifier, false);
-    yield* this.getChildMetadata(link);
+    if (page) {
+      yield* this.getChildPageMetadata(link, page);
+    } else {
+      yield* this.getChildMetadata(link);
+    }
   }
 
   /**
@@ -112,9 +121,13 @@ export class FileDataAccessor implements DataAccessor {
     await this.writeMetadataFile(link, metadata);
   }
 
+  /**
+   * Writes the metadata to the metadata file.
+   * The content type is kept in case it is one that can not be stored by the file extension.
+   */
   public async writeMetadata(identifier: ResourceIdentifier, metadata: RepresentationMetadata): Promise<void> {
-    const metadataLink = await this.resourceMapper.mapUrlToFilePath(identifier, true);
-    await this.writeMetadataFile(metadataLink, metadata);
+    const link = await this.resourceMapper.mapUrlToFilePath(identifier, false, metadata.contentType);
+    await this.writeMetadataFile(link, metadata);
   }
 
   /**
@@ -296,25 +309,89 @@ export class FileDataAccessor implements DataAccessor {
         continue;
       }
 
-      // Generate metadata of this specific child as described in
-      // https://solidproject.org/TR/2021/protocol-20211217#contained-resource-metadata
-      const metadata = new RepresentationMetadata(childLink.identifier);
-      addResourceMetadata(metadata, childStats.isDirectory());
-      this.addPosixMetadata(metadata, childStats);
-      // Containers will not have a content-type
-      const { contentType, identifier } = childLink;
-      if (contentType) {
-        // Make sure we don't generate invalid URIs
+      yield this.generateChildMetadata(childLink, childStats);
+    }
+  }
+
+  /**
+   * Generate metadata for the children in a single page of a container.
+   * The page is determined based on the directory entries,
+   * so only the children that are part of the page need to be inspected.
+   *
+   * @param link - Path related metadata.
+   * @param page - The requested page.
+   */
+  private async* getChildPageMetadata(link: ResourceLink, page: PagePreference):
+  AsyncIterableIterator<RepresentationMetadata> {
+    const childLinks = await selectPage(this.getChildLinks(link), (child): string => child.identifier.path, page);
+    for (const childLink of childLinks) {
+      let childStats;
+      try {
+        childStats = await this.getStats(childLink.filePath);
+      } catch {
+        // The child might have been removed in the meantime
+        continue;
+      }
+      yield this.generateChildMetadata(childLink, childStats);
+    }
+  }
+
+  /**
+   * Generates the links of all children in a container without reading their details,
+   * except for symbolic links, which need to be resolved to know what type of resource they correspond to.
+   *
+   * @param link - Path related metadata.
+   */
+  private async* getChildLinks(link: ResourceLink): AsyncIterableIterator<ResourceLink> {
+    const dir = await opendir(link.filePath);
+    for await (const entry of dir) {
+      const childPath = joinFilePath(link.filePath, entry.name);
+      let isDirectory = entry.isDirectory();
+      if (entry.isSymbolicLink()) {
         try {
-          const { value } = parseContentType(contentType);
-          metadata.add(RDF.terms.type, toNamedTerm(`${IANA.namespace}${value}#Resource`));
+          const childStats = await this.getStats(childPath);
+          if (!childStats.isFile() && !childStats.isDirectory()) {
+            continue;
+          }
+          isDirectory = childStats.isDirectory();
         } catch {
-          this.logger.warn(`Detected an invalid content-type "${contentType}" for ${identifier.path}`);
+          // Skip bad symbolic links
+          continue;
         }
+      } else if (!entry.isFile() && !isDirectory) {
+        continue;
+      }
+
+      const childLink = await this.resourceMapper.mapFilePathToUrl(childPath, isDirectory);
+      if (!childLink.isMetadata) {
+        yield childLink;
       }
+    }
+  }
 
-      yield metadata;
+  /**
+   * Generate metadata of a specific child as described in
+   * https://solidproject.org/TR/2021/protocol-20211217#contained-resource-metadata
+   *
+   * @param childLink - Path related metadata of the child.
+   * @param childStats - Stats of the file/directory corresponding to the child.
+   */
+  private generateChildMetadata(childLink: ResourceLink, childStats: Stats): RepresentationMetadata {
+    const metadata = new RepresentationMetadata(childLink.identifier);
+    addResourceMetadata(metadata, childStats.isDirectory());
+    this.addPosixMetadata(metadata, childStats);
+    // Containers will not have a content-type
+    const { contentType, identifier } = childLink;
+    if (contentType) {
+      // Make sure we don't generate invalid URIs
+      try {
+        const { value } = parseContentType(contentType);
+        metadata.add(RDF.terms.type, toNamedTerm(`${IANA.namespace}${value}#Resource`));
+      } catch {
+        this.logger.warn(`Detected an invalid content-type "${contentType}" for ${identifier.path}`);
+      }
     }
+    return metadata;
   }
 
   /**
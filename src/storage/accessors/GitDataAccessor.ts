@@ -0,0 +1,282 @@
+import type { Readable } from 'stream';
+import { pathExists } from 'fs-extra';
+import type { SimpleGit } from 'simple-git';
+import { simpleGit } from 'simple-git';
+import { getRequestCredentials } from '../../authentication/CredentialsContext';
+import type { RepresentationMetadata } from '../../http/representation/RepresentationMetadata';
+import type { PagePreference } from '../../http/representation/RepresentationPreferences';
+import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
+import { ForbiddenHttpError } from '../../util/errors/ForbiddenHttpError';
+import { NotFoundHttpError } from '../../util/errors/NotFoundHttpError';
+import type { Guarded } from '../../util/GuardedStream';
+import type { IdentifierStrategy } from '../../util/identifiers/IdentifierStrategy';
+import type { ReadWriteLocker } from '../../util/locking/ReadWriteLocker';
+import {
+  decodeUriPathComponents,
+  isContainerIdentifier,
+  joinFilePath,
+  trimTrailingSlashes,
+} from '../../util/PathUtil';
+import type { ByteRange } from '../../util/RangeUtil';
+import { PIM, RDF } from '../../util/Vocabularies';
+import type { FileIdentifierMapper } from '../mapping/FileIdentifierMapper';
+import { FileDataAccessor } from './FileDataAccessor';
+
+const GIT_FOLDER = '.git';
+
+export interface GitDataAccessorArgs {
+  /**
+   * Maps the resources to files and folders.
+   */
+  resourceMapper: FileIdentifierMapper;
+  /**
+   * Used to find the repository a resource is part of.
+   */
+  identifierStrategy: IdentifierStrategy;
+  /**
+   * Prevents several changes being committed to the same repository simultaneously.
+   * Should not be the locker used by the resource store, as the repository is locked while a resource is locked.
+   */
+  locker: ReadWriteLocker;
+  /**
+   * Base URL of the server, used to determine the relative paths the ignored folders are matched to.
+   */
+  baseUrl: string;
+  /**
+   * Regular expressions of relative container paths, without trailing slash,
+   * of which the changes should not be committed.
+   */
+  ignoredFolders?: string[];
+  /**
+   * Name used for the committer, and as author for changes made without being authenticated.
+   * Defaults to `Community Solid Server`.
+   */
+  committerName?: string;
+  /**
+   * Email address used for the committer, and as author for changes made without being authenticated.
+   * Defaults to `server@localhost`.
+   */
+  committerEmail?: string;
+}
+
+/**
+ * A {@link FileDataAccessor} that keeps the history of every pod in a git repository.
+ *
+ * A repository is initialized in the folder of every container that is a `pim:Storage` when it is created.
+ * Every change to a resource in such a folder results in a commit containing the changed files,
+ * with the WebID of the authenticated agent that made the change as author.
+ * Changes made by the server itself, or by unauthenticated agents, use the committer as author.
+ * Resources that are not part of a repository are stored without keeping a history.
+ *
+ * The `.git` folders are hidden, and can not be changed through the server,
+ * as that would allow clients to alter the history or the configuration of the repository.
+ * As git does not track folders, empty containers are not part of the history.
+ *
+ * Requires the `git` executable to be available.
+ */
+export class GitDataAccessor extends FileDataAccessor {
+  private readonly identifierStrategy: IdentifierStrategy;
+  private readonly locker: ReadWriteLocker;
+  private readonly baseUrl: string;
+  private readonly ignoredFolders: RegExp[];
+  private readonly committerName: string;
+  private readonly committerEmail: string;
+
+  public constructor(args: GitDataAccessorArgs) {
+    super(args.resourceMapper);
+    this.identifierStrategy = args.identifierStrategy;
+    this.locker = args.locker;
+    this.baseUrl = trimTrailingSlashes(args.baseUrl);
+    this.ignoredFolders = (args.ignoredFolders ?? []).map((folder): RegExp => new RegExp(folder, 'u'));
+    this.committerName = args.committerName ?? 'Community Solid Server';
+    this.committerEmail = args.committerEmail ?? 'server@localhost';
+  }
+
+  public async getData(identifier: ResourceIdentifier, range?: ByteRange): Promise<Guarded<Readable>> {
+    if (this.isGitPath(identifier)) {
+      throw new NotFoundHttpError();
+    }
+    return super.getData(identifier, range);
+  }
+
+  public async getMetadata(identifier: ResourceIdentifier): Promise<RepresentationMetadata> {
+    if (this.isGitPath(identifier)) {
+      throw new NotFoundHttpError();
+    }
+    return super.getMetadata(identifier);
+  }
+
+  public async* getChildren(identifier: ResourceIdentifier, page?: PagePreference):
+  AsyncIterableIterator<RepresentationMetadata> {
+    if (this.isGitPath(identifier)) {
+      throw new NotFoundHttpError();
+    }
+    for await (const child of super.getChildren(identifier, page)) {
+      if (!this.isGitPath({ path: child.identifier.value })) {
+        yield child;
+      }
+    }
+  }
+
+  public async writeDocument(identifier: ResourceIdentifier, data: Guarded<Readable>, metadata: RepresentationMetadata):
+  Promise<void> {
+    this.verifyNoGitPath(identifier);
+    // The data file might have a different extension before and after the write
+    const oldLink = await this.resourceMapper.mapUrlToFilePath(identifier, false);
+    const existed = await pathExists(oldLink.filePath);
+    // The content type is removed from the metadata object when it is written
+    const newLink = await this.resourceMapper.mapUrlToFilePath(identifier, false, metadata.contentType);
+    await super.writeDocument(identifier, data, metadata);
+    const metaLink = await this.resourceMapper.mapUrlToFilePath(identifier, true);
+    const filePaths = [ oldLink.filePath, newLink.filePath, metaLink.filePath ];
+    await this.commit(identifier, existed ? 'Update' : 'Create', filePaths);
+  }
+
+  /**
+   * Also initializes a repository in the folder of the container if it is a storage.
+   */
+  public async writeContainer(identifier: ResourceIdentifier, metadata: RepresentationMetadata): Promise<void> {
+    this.verifyNoGitPath(identifier);
+    const link = await this.resourceMapper.mapUrlToFilePath(identifier, false);
+    const existed = await pathExists(link.filePath);
+    const isStorage = metadata.has(RDF.terms.type, PIM.terms.Storage);
+    await super.writeContainer(identifier, metadata);
+    if (isStorage && !this.isIgnored(identifier)) {
+      await this.initRepository(link.filePath);
+    }
+    const metaLink = await this.resourceMapper.mapUrlToFilePath(identifier, true);
+    await this.commit(identifier, existed ? 'Update' : 'Create', [ metaLink.filePath ]);
+  }
+
+  public async writeMetadata(identifier: ResourceIdentifier, metadata: RepresentationMetadata): Promise<void> {
+    this.verifyNoGitPath(identifier);
+    await super.writeMetadata(identifier, metadata);
+    const metaLink = await this.resourceMapper.mapUrlToFilePath(identifier, true);
+    await this.commit(identifier, 'Update', [ metaLink.filePath ]);
+  }
+
+  public async deleteResource(identifier: ResourceIdentifier): Promise<void> {
+    this.verifyNoGitPath(identifier);
+    const link = await this.resourceMapper.mapUrlToFilePath(identifier, false);
+    const metaLink = await this.resourceMapper.mapUrlToFilePath(identifier, true);
+    await super.deleteResource(identifier);
+    await this.commit(identifier, 'Delete', [ link.filePath, metaLink.filePath ]);
+  }
+
+  /**
+   * Creates a new repository in the given folder, unless there already is one.
+   */
+  private async initRepository(folder: string): Promise<void> {
+    if (!await pathExists(joinFilePath(folder, GIT_FOLDER))) {
+      this.logger.info(`Initializing a git repository in ${folder}`);
+      await this.git(folder).init();
+    }
+  }
+
+  /**
+   * Commits the current state of the given files to the repository the resource is part of.
+   * Nothing happens if the resource is not part of a repository or if the files did not change.
+   *
+   * @param identifier - The changed resource.
+   * @param action - Describes the change in the commit message.
+   * @param filePaths - All files and folders that might have changed.
+   */
+  private async commit(identifier: ResourceIdentifier, action: string, filePaths: string[]): Promise<void> {
+    const repository = await this.findRepository(identifier);
+    if (!repository) {
+      return;
+    }
+    const folder = (await this.resourceMapper.mapUrlToFilePath(repository, false)).filePath;
+    const git = this.git(folder);
+
+    await this.locker.withWriteLock(repository, async(): Promise<void> => {
+      // Paths are interpreted literally so characters in file names are not seen as patterns
+      for (const filePath of new Set(filePaths)) {
+        if (await pathExists(filePath)) {
+          await git.raw([ '--literal-pathspecs', 'add', '--all', '--', filePath ]);
+        } else {
+          await git.raw([ '--literal-pathspecs', 'rm', '-r', '--cached', '--ignore-unmatch', '-q', '--', filePath ]);
+        }
+      }
+      const staged = await git.raw([ 'diff', '--cached', '--name-only' ]);
+      if (staged.trim().length === 0) {
+        return;
+      }
+      const message = `${action} ${identifier.path}`;
+      await git.raw([ 'commit', '--quiet', '--message', message, `--author=${this.getAuthor()}` ]);
+      this.logger.debug(`Committed ${action.toLowerCase()} of ${identifier.path} to ${folder}`);
+    });
+  }
+
+  /**
+   * Finds the closest container, including the resource itself, of which the folder contains a repository.
+   */
+  private async findRepository(identifier: ResourceIdentifier): Promise<ResourceIdentifier | undefined> {
+    if (this.isIgnored(identifier)) {
+      return;
+    }
+    let container = isContainerIdentifier(identifier) ?
+      identifier :
+      this.identifierStrategy.getParentContainer(identifier);
+    while (!await this.hasRepository(container)) {
+      if (this.identifierStrategy.isRootContainer(container)) {
+        return;
+      }
+      container = this.identifierStrategy.getParentContainer(container);
+    }
+    return container;
+  }
+
+  private async hasRepository(container: ResourceIdentifier): Promise<boolean> {
+    const { filePath } = await this.resourceMapper.mapUrlToFilePath(container, false);
+    return pathExists(joinFilePath(filePath, GIT_FOLDER));
+  }
+
+  /**
+   * The author of the commit is the authenticated agent making the request, identified by their WebID.
+   */
+  private getAuthor(): string {
+    const webId = getRequestCredentials()?.agent?.webId?.replace(/[<>\n]/gu, '');
+    return webId ? `${webId} <${webId}>` : `${this.committerName} <${this.committerEmail}>`;
+  }
+
+  /**
+   * Creates a git instance for the repository in the given folder.
+   */
+  private git(folder: string): SimpleGit {
+    const config = [ `user.name=${this.committerName}`, `user.email=${this.committerEmail}`, 'commit.gpgsign=false' ];
+    return simpleGit({ baseDir: folder, config });
+  }
+
+  private verifyNoGitPath(identifier: ResourceIdentifier): void {
+    if (this.isGitPath(identifier)) {
+      throw new ForbiddenHttpError('Git repositories can not be modified.');
+    }
+  }
+
+  /**
+   * Checks if the resource corresponds to a `.git` folder or something inside of it.
+   * The check is case-insensitive as file systems can be case-insensitive.
+   */
+  private isGitPath(identifier: ResourceIdentifier): boolean {
+    if (!identifier.path.startsWith(this.baseUrl)) {
+      return false;
+    }
+    return decodeUriPathComponents(identifier.path.slice(this.baseUrl.length)).split('/')
+      .some((part): boolean => part.toLowerCase() === GIT_FOLDER);
+  }
+
+  /**
+   * Checks if the given resource, or one of the containers it is part of, should not be committed.
+   */
+  private isIgnored(identifier: ResourceIdentifier): boolean {
+    const parts = trimTrailingSlashes(identifier.path.slice(this.baseUrl.length)).split('/');
+    for (let i = 2; i <= parts.length; i += 1) {
+      const path = parts.slice(0, i).join('/');
+      if (this.ignoredFolders.some((folder): boolean => folder.test(path))) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
@@ -1,12 +1,14 @@
 import type { Readable } from 'stream';
 import arrayifyStream from 'arrayify-stream';
 import { RepresentationMetadata } from '../../http/representation/RepresentationMetadata';
+import type { PagePreference } from '../../http/representation/RepresentationPreferences';
 import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
 import type { SingleThreaded } from '../../init/cluster/SingleThreaded';
 import { InternalServerError } from '../../util/errors/InternalServerError';
 import { NotFoundHttpError } from '../../util/errors/NotFoundHttpError';
 import type { Guarded } from '../../util/GuardedStream';
 import type { IdentifierStrategy } from '../../util/identifiers/IdentifierStrategy';
+import { selectPage } from '../../util/PageUtil';
 import { guardedStreamFrom } from '../../util/StreamUtil';
 import type { DataAccessor } from './DataAccessor';
 
@@ -48,10 +50,14 @@ export class InMemoryDataAccessor implements DataAccessor, SingleThreaded {
     return new RepresentationMetadata(entry.metadata);
   }
 
-  public async* getChildren(identifier: ResourceIdentifier): AsyncIterableIterator<RepresentationMetadata> {
+  public async* getChildren(identifier: ResourceIdentifier, page?: PagePreference):
+  AsyncIterableIterator<RepresentationMetadata> {
     const entry = this.getEntry(identifier);
     if (!this.isDataEntry(entry)) {
-      const childNames = Object.keys(entry.entries);
+      let childNames = Object.keys(entry.entries);
+      if (page) {
+        childNames = await selectPage(childNames, (name): string => name, page);
+      }
       yield* childNames.map((name): RepresentationMetadata => new RepresentationMetadata({ path: name }));
     }
   }
@@ -1,8 +1,10 @@
 import type { Readable } from 'stream';
 import type { Representation } from '../../http/representation/Representation';
 import type { RepresentationMetadata } from '../../http/representation/RepresentationMetadata';
+import type { PagePreference } from '../../http/representation/RepresentationPreferences';
 import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
 import type { Guarded } from '../../util/GuardedStream';
+import type { ByteRange } from '../../util/RangeUtil';
 import type { AtomicDataAccessor } from './AtomicDataAccessor';
 import type { DataAccessor } from './DataAccessor';
 
@@ -31,8 +33,8 @@ export class PassthroughDataAccessor implements DataAccessor {
     return this.accessor.canHandle(representation);
   }
 
-  public async getData(identifier: ResourceIdentifier): Promise<Guarded<Readable>> {
-    return this.accessor.getData(identifier);
+  public async getData(identifier: ResourceIdentifier, range?: ByteRange): Promise<Guarded<Readable>> {
+    return this.accessor.getData(identifier, range);
   }
 
   public async getMetadata(identifier: ResourceIdentifier): Promise<RepresentationMetadata> {
@@ -43,8 +45,9 @@ export class PassthroughDataAccessor implements DataAccessor {
     return this.accessor.writeMetadata(identifier, metadata);
   }
 
-  public getChildren(identifier: ResourceIdentifier): AsyncIterableIterator<RepresentationMetadata> {
-    return this.accessor.getChildren(identifier);
+  public getChildren(identifier: ResourceIdentifier, page?: PagePreference):
+  AsyncIterableIterator<RepresentationMetadata> {
+    return this.accessor.getChildren(identifier, page);
   }
 
   public async deleteResource(identifier: ResourceIdentifier): Promise<void> {
@@ -0,0 +1,409 @@
+import { PassThrough } from 'stream';
+import type { Readable } from 'stream';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import type { ListObjectsV2CommandOutput } from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import type { Quad } from 'rdf-js';
+import type { Representation } from '../../http/representation/Representation';
+import { RepresentationMetadata } from '../../http/representation/RepresentationMetadata';
+import type { PagePreference } from '../../http/representation/RepresentationPreferences';
+import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
+import { getLoggerFor } from '../../logging/LogUtil';
+import { NotFoundHttpError } from '../../util/errors/NotFoundHttpError';
+import { UnsupportedMediaTypeHttpError } from '../../util/errors/UnsupportedMediaTypeHttpError';
+import { guardStream } from '../../util/GuardedStream';
+import type { Guarded } from '../../util/GuardedStream';
+import { ensureTrailingSlash, isContainerIdentifier } from '../../util/PathUtil';
+import { parseQuads, serializeQuads } from '../../util/QuadUtil';
+import type { ByteRange } from '../../util/RangeUtil';
+import { addResourceMetadata, updateModifiedDate } from '../../util/ResourceUtil';
+import { pipeSafely, readableToString } from '../../util/StreamUtil';
+import { toLiteral } from '../../util/TermUtil';
+import { CONTENT_TYPE_TERM, DC, LDP, POSIX, RDF, SOLID_META, XSD } from '../../util/Vocabularies';
+import type { DataAccessor } from './DataAccessor';
+
+/* eslint-disable @typescript-eslint/naming-convention */
+
+const METADATA_SUFFIX = '.meta';
+
+export interface S3DataAccessorArgs {
+  /**
+   * Base URL of the server. Identifiers are mapped to keys by removing this URL.
+   */
+  baseUrl: string;
+  /**
+   * Bucket in which all objects are stored. Defaults to `solid`.
+   */
+  bucket?: string;
+  /**
+   * Prefix that is added to all keys, so the bucket can be shared with other applications.
+   */
+  keyPrefix?: string;
+  /**
+   * Endpoint of the S3-compatible service. Defaults to the AWS endpoint of the region.
+   */
+  endpoint?: string;
+  /**
+   * Region of the bucket. In case this is not set, the standard AWS environment variables and profiles are used.
+   */
+  region?: string;
+  /**
+   * Access key to authenticate with.
+   * In case this is not set, the standard AWS environment variables and profiles are used.
+   */
+  accessKeyId?: string;
+  /**
+   * Secret key corresponding to the access key.
+   */
+  secretAccessKey?: string;
+  /**
+   * Puts the bucket in the path of the URLs instead of in the host name,
+   * which is needed for most S3-compatible services that are not AWS. Defaults to `false`.
+   */
+  forcePathStyle?: boolean;
+}
+
+/**
+ * Determines if the given error was caused by requesting an object that does not exist.
+ */
+function isNotFoundError(error: unknown): boolean {
+  return (error as { $metadata?: { httpStatusCode?: number }}).$metadata?.httpStatusCode === 404;
+}
+
+/**
+ * DataAccessor that stores resources in an S3-compatible object storage bucket.
+ *
+ * The key of a resource is its identifier relative to the base URL.
+ * Documents are stored as objects with the corresponding content-type,
+ * and are streamed to the bucket using multipart uploads if necessary.
+ * Other metadata is stored as N-Quads in a sidecar object with the `.meta` suffix,
+ * which is also used to mark the existence of containers, as they have no object of their own.
+ * The children of a container are found by listing the keys with the key of the container as prefix.
+ */
+export class S3DataAccessor implements DataAccessor {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly client: S3Client;
+  private readonly baseUrl: string;
+  private readonly bucket: string;
+  private readonly keyPrefix: string;
+
+  public constructor(args: S3DataAccessorArgs) {
+    const { baseUrl, bucket, keyPrefix, endpoint, region, accessKeyId, secretAccessKey, forcePathStyle } = args;
+    this.baseUrl = ensureTrailingSlash(baseUrl);
+    this.bucket = bucket ?? 'solid';
+    this.keyPrefix = keyPrefix ? ensureTrailingSlash(keyPrefix) : '';
+    this.client = new S3Client({
+      endpoint,
+      region,
+      forcePathStyle,
+      credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+    });
+  }
+
+  /**
+   * Only binary data can be stored as objects so will error on non-binary data.
+   */
+  public async canHandle(representation: Representation): Promise<void> {
+    if (!representation.binary) {
+      throw new UnsupportedMediaTypeHttpError('Only binary data is supported.');
+    }
+  }
+
+  /**
+   * Streams the object corresponding to the document, or only the requested bytes in case of a range.
+   * Will throw NotFoundHttpError if the input is a container.
+   */
+  public async getData(identifier: ResourceIdentifier, range?: ByteRange): Promise<Guarded<Readable>> {
+    if (isContainerIdentifier(identifier)) {
+      throw new NotFoundHttpError();
+    }
+    try {
+      const { Body } = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: this.getKey(identifier),
+        Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+      }));
+      return guardStream(Body as Readable);
+    } catch (error: unknown) {
+      throw this.convertError(error);
+    }
+  }
+
+  /**
+   * Combines the metadata of the sidecar object with the size, content-type and modified date of the object itself.
+   * Containers without sidecar object still exist if there are objects with the container as prefix.
+   */
+  public async getMetadata(identifier: ResourceIdentifier): Promise<RepresentationMetadata> {
+    const isContainer = isContainerIdentifier(identifier);
+    const metadata = new RepresentationMetadata(identifier);
+    const stored = await this.readMetadataObject(identifier);
+    if (stored) {
+      metadata.addQuads(stored.quads);
+    }
+
+    if (isContainer) {
+      if (stored) {
+        updateModifiedDate(metadata, stored.modified);
+      } else if (!await this.hasChildren(identifier)) {
+        throw new NotFoundHttpError();
+      }
+    } else {
+      try {
+        const { ContentType, ContentLength, LastModified } = await this.client.send(new HeadObjectCommand({
+          Bucket: this.bucket,
+          Key: this.getKey(identifier),
+        }));
+        metadata.contentType = ContentType;
+        this.addObjectMetadata(metadata, LastModified, ContentLength);
+      } catch (error: unknown) {
+        throw this.convertError(error);
+      }
+    }
+    addResourceMetadata(metadata, isContainer);
+    return metadata;
+  }
+
+  /**
+   * Lists the keys one level below the key of the container.
+   * The metadata of the children only contains the values that are returned by the listing,
+   * so the content-type of documents is not included.
+   */
+  public async* getChildren(identifier: ResourceIdentifier, page?: PagePreference):
+  AsyncIterableIterator<RepresentationMetadata> {
+    const prefix = this.getKey(identifier);
+    // Only children with a larger identifier than `page.after` are needed, which is the same order as their keys
+    const startAfter = page?.after?.startsWith(identifier.path) ?
+      `${prefix}${page.after.slice(identifier.path.length)}` :
+      undefined;
+
+    let children: RepresentationMetadata[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const result: ListObjectsV2CommandOutput = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: prefix,
+        Delimiter: '/',
+        StartAfter: startAfter,
+        ContinuationToken: continuationToken,
+        MaxKeys: page?.limit,
+      }));
+      for (const child of this.generateChildMetadata(result)) {
+        if (!page?.after || child.identifier.value > page.after) {
+          children.push(child);
+        }
+      }
+      continuationToken = result.NextContinuationToken;
+      // Every response continues where the previous one stopped,
+      // so all children of the page are known as soon as enough children have been found.
+      if (page && children.length >= page.limit) {
+        break;
+      }
+    } while (continuationToken);
+
+    if (page) {
+      children = children.sort((child1, child2): number => child1.identifier.value < child2.identifier.value ? -1 : 1)
+        .slice(0, page.limit);
+    }
+    yield* children;
+  }
+
+  /**
+   * Writes the metadata to a sidecar object first, and then streams the data to the object of the document.
+   * The sidecar object is deleted again if something goes wrong while uploading the data.
+   */
+  public async writeDocument(identifier: ResourceIdentifier, data: Guarded<Readable>, metadata: RepresentationMetadata):
+  Promise<void> {
+    const { contentType } = metadata;
+    const wroteMetadata = await this.writeMetadataObject(identifier, metadata);
+
+    try {
+      // The upload only supports Node.js streams with binary chunks, which is not the case for all incoming streams
+      const body = pipeSafely(data, new PassThrough());
+      await new Upload({
+        client: this.client,
+        params: { Bucket: this.bucket, Key: this.getKey(identifier), Body: body, ContentType: contentType },
+      }).done();
+    } catch (error: unknown) {
+      if (wroteMetadata) {
+        await this.deleteObject(this.getMetadataKey(identifier));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Writes the metadata of the container to its sidecar object, which also creates the container.
+   */
+  public async writeContainer(identifier: ResourceIdentifier, metadata: RepresentationMetadata): Promise<void> {
+    await this.writeMetadataObject(identifier, metadata);
+  }
+
+  public async writeMetadata(identifier: ResourceIdentifier, metadata: RepresentationMetadata): Promise<void> {
+    await this.writeMetadataObject(identifier, metadata);
+  }
+
+  /**
+   * Removes the object of the document and the sidecar object.
+   */
+  public async deleteResource(identifier: ResourceIdentifier): Promise<void> {
+    // Makes sure a 404 is thrown if the resource does not exist
+    await this.getMetadata(identifier);
+
+    if (!isContainerIdentifier(identifier)) {
+      await this.deleteObject(this.getKey(identifier));
+    }
+    await this.deleteObject(this.getMetadataKey(identifier));
+  }
+
+  /**
+   * Converts an identifier to the key of the corresponding object.
+   *
+   * @throws NotFoundHttpError
+   * If the identifier is not within the base URL,
+   * or if it corresponds to a sidecar object, which are not resources themselves.
+   */
+  private getKey(identifier: ResourceIdentifier): string {
+    if (!identifier.path.startsWith(this.baseUrl) || identifier.path.endsWith(METADATA_SUFFIX)) {
+      throw new NotFoundHttpError();
+    }
+    return `${this.keyPrefix}${identifier.path.slice(this.baseUrl.length)}`;
+  }
+
+  /**
+   * Returns the key of the sidecar object that contains the metadata of the resource.
+   */
+  private getMetadataKey(identifier: ResourceIdentifier): string {
+    return `${this.getKey(identifier)}${METADATA_SUFFIX}`;
+  }
+
+  /**
+   * Reads the quads from the sidecar object of the resource.
+   *
+   * @returns The quads and the last modified date of the object, or `undefined` if there is no such object.
+   */
+  private async readMetadataObject(identifier: ResourceIdentifier):
+  Promise<{ quads: Quad[]; modified?: Date } | undefined> {
+    try {
+      const { Body, LastModified } = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: this.getMetadataKey(identifier),
+      }));
+      const quads = await parseQuads(guardStream(Body as Readable),
+        { format: 'application/n-quads', baseIRI: identifier.path });
+      return { quads, modified: LastModified };
+    } catch (error: unknown) {
+      if (!isNotFoundError(error)) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Writes the metadata of the resource to its sidecar object.
+   * For documents, the sidecar object is removed if there is no metadata left to store.
+   *
+   * @returns True if a sidecar object was written.
+   */
+  private async writeMetadataObject(identifier: ResourceIdentifier, metadata: RepresentationMetadata):
+  Promise<boolean> {
+    // These are stored in the object itself, or are generated from the key
+    metadata.remove(RDF.terms.type, LDP.terms.Resource);
+    metadata.remove(RDF.terms.type, LDP.terms.Container);
+    metadata.remove(RDF.terms.type, LDP.terms.BasicContainer);
+    metadata.removeAll(DC.terms.modified);
+    metadata.removeAll(CONTENT_TYPE_TERM);
+    const quads = metadata.quads();
+    const key = this.getMetadataKey(identifier);
+
+    // Containers always need a sidecar object to exist
+    if (quads.length === 0 && !isContainerIdentifier(identifier)) {
+      await this.deleteObject(key);
+      return false;
+    }
+    const body = await readableToString(serializeQuads(quads, 'application/n-quads'));
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      // Prevents the client from assuming the length is unknown when the body is empty
+      ContentLength: Buffer.byteLength(body),
+      ContentType: 'application/n-quads',
+    }));
+    return true;
+  }
+
+  /**
+   * Deletes an object. Does nothing if there is no such object.
+   */
+  private async deleteObject(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  /**
+   * Checks if there are any objects with the key of the given container as prefix.
+   */
+  private async hasChildren(identifier: ResourceIdentifier): Promise<boolean> {
+    const { KeyCount } = await this.client.send(new ListObjectsV2Command({
+      Bucket: this.bucket,
+      Prefix: this.getKey(identifier),
+      MaxKeys: 1,
+    }));
+    return (KeyCount ?? 0) > 0;
+  }
+
+  /**
+   * Generates the metadata of the children found in a single listing response.
+   * Objects correspond to documents, while common prefixes correspond to containers.
+   */
+  private* generateChildMetadata(result: ListObjectsV2CommandOutput): IterableIterator<RepresentationMetadata> {
+    for (const { Prefix } of result.CommonPrefixes ?? []) {
+      const metadata = new RepresentationMetadata(this.getIdentifier(Prefix!));
+      addResourceMetadata(metadata, true);
+      yield metadata;
+    }
+    for (const { Key, LastModified, Size } of result.Contents ?? []) {
+      // Hide sidecar objects and markers of the container itself that were created by other applications
+      if (Key!.endsWith(METADATA_SUFFIX) || Key === result.Prefix) {
+        continue;
+      }
+      const metadata = new RepresentationMetadata(this.getIdentifier(Key!));
+      addResourceMetadata(metadata, false);
+      this.addObjectMetadata(metadata, LastModified, Size);
+      yield metadata;
+    }
+  }
+
+  /**
+   * Converts the key of an object to the corresponding identifier.
+   */
+  private getIdentifier(key: string): ResourceIdentifier {
+    return { path: `${this.baseUrl}${key.slice(this.keyPrefix.length)}` };
+  }
+
+  /**
+   * Adds the last modified date and the size of a document object.
+   */
+  private addObjectMetadata(metadata: RepresentationMetadata, modified?: Date, size?: number): void {
+    if (modified) {
+      updateModifiedDate(metadata, modified);
+    }
+    if (typeof size === 'number') {
+      metadata.add(POSIX.terms.size, toLiteral(size, XSD.terms.integer), SOLID_META.terms.ResponseMetadata);
+    }
+  }
+
+  /**
+   * Converts errors caused by missing objects into a NotFoundHttpError.
+   */
+  private convertError(error: unknown): unknown {
+    return isNotFoundError(error) ? new NotFoundHttpError('', { cause: error }) : error;
+  }
+}
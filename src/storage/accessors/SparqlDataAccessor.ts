@@ -5,9 +5,11 @@ import { DataFactory } from 'n3';
 import type { NamedNode, Quad } from 'rdf-js';
 import type {
   ConstructQuery,
+  Expression,
   GraphPattern,
   GraphQuads,
   InsertDeleteOperation,
+  SelectQuery,
   SparqlGenerator,
   Update,
   UpdateOperation,
@@ -15,6 +17,7 @@ import type {
 import { Generator } from 'sparqljs';
 import type { Representation } from '../../http/representation/Representation';
 import { RepresentationMetadata } from '../../http/representation/RepresentationMetadata';
+import type { PagePreference } from '../../http/representation/RepresentationPreferences';
 import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
 import { getLoggerFor } from '../../logging/LogUtil';
 import { INTERNAL_QUADS } from '../../util/ContentTypes';
@@ -30,7 +33,7 @@ import { isContainerIdentifier } from '../../util/PathUtil';
 import { CONTENT_TYPE_TERM, LDP } from '../../util/Vocabularies';
 import type { DataAccessor } from './DataAccessor';
 
-const { defaultGraph, namedNode, quad, variable } = DataFactory;
+const { defaultGraph, literal, namedNode, quad, variable } = DataFactory;
 
 /**
  * Stores all data and metadata of resources in a SPARQL backend.
@@ -98,10 +101,12 @@ export class SparqlDataAccessor implements DataAccessor {
     return metadata;
   }
 
-  public async* getChildren(identifier: ResourceIdentifier): AsyncIterableIterator<RepresentationMetadata> {
+  public async* getChildren(identifier: ResourceIdentifier, page?: PagePreference):
+  AsyncIterableIterator<RepresentationMetadata> {
     // Only triples that have a container identifier as subject are the containment triples
     const name = namedNode(identifier.path);
-    const stream = await this.sendSparqlConstruct(this.sparqlConstruct(name));
+    const query = page ? this.sparqlConstructPage(name, page) : this.sparqlConstruct(name);
+    const stream = await this.sendSparqlConstruct(query);
     for await (const entry of stream) {
       yield new RepresentationMetadata((entry as Quad).object as NamedNode);
     }
@@ -202,6 +207,25 @@ export class SparqlDataAccessor implements DataAccessor {
     };
   }
 
+  /**
+   * Creates a CONSTRUCT query that only returns the triples of the given graph
+   * with the lowest objects that come after the start of the page.
+   * @param name - Name of the container graph.
+   * @param page - The requested page of children.
+   */
+  private sparqlConstructPage(name: NamedNode, page: PagePreference):
+  ConstructQuery & Pick<SelectQuery, 'limit' | 'order'> {
+    const query = this.sparqlConstruct(name);
+    const child: Expression = { type: 'operation', operator: 'str', args: [ variable('o') ]};
+    if (page.after) {
+      query.where!.push({
+        type: 'filter',
+        expression: { type: 'operation', operator: '>', args: [ child, literal(page.after) ]},
+      });
+    }
+    return { ...query, order: [{ expression: child }], limit: page.limit };
+  }
+
   private sparqlSelectGraph(name: NamedNode, triples: Quad[]): GraphPattern {
     return {
       type: 'graph',
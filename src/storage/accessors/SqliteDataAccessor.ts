@@ -0,0 +1,292 @@
+import type { Readable } from 'stream';
+import arrayifyStream from 'arrayify-stream';
+import Database from 'better-sqlite3';
+import { ensureDirSync } from 'fs-extra';
+import { Parser, Writer } from 'n3';
+import type { Representation } from '../../http/representation/Representation';
+import { RepresentationMetadata } from '../../http/representation/RepresentationMetadata';
+import type { PagePreference } from '../../http/representation/RepresentationPreferences';
+import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
+import type { Finalizable } from '../../init/final/Finalizable';
+import { getLoggerFor } from '../../logging/LogUtil';
+import { NotFoundHttpError } from '../../util/errors/NotFoundHttpError';
+import { UnsupportedMediaTypeHttpError } from '../../util/errors/UnsupportedMediaTypeHttpError';
+import type { Guarded } from '../../util/GuardedStream';
+import { parseContentType } from '../../util/HeaderUtil';
+import type { IdentifierStrategy } from '../../util/identifiers/IdentifierStrategy';
+import { isContainerIdentifier, joinFilePath } from '../../util/PathUtil';
+import type { ByteRange } from '../../util/RangeUtil';
+import { addResourceMetadata, updateModifiedDate } from '../../util/ResourceUtil';
+import { guardedStreamFrom } from '../../util/StreamUtil';
+import { toLiteral, toNamedTerm } from '../../util/TermUtil';
+import { CONTENT_TYPE_TERM, DC, IANA, LDP, POSIX, RDF, SOLID_META, XSD } from '../../util/Vocabularies';
+import type { AtomicDataAccessor } from './AtomicDataAccessor';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS resources (
+    path TEXT PRIMARY KEY,
+    parent TEXT,
+    content_type TEXT,
+    data BLOB,
+    size INTEGER,
+    modified INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS resources_parent ON resources (parent, path);
+  CREATE TABLE IF NOT EXISTS quads (
+    path TEXT NOT NULL,
+    quad TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS quads_path ON quads (path);
+`;
+
+/**
+ * The columns of the `resources` table that are needed to generate metadata.
+ */
+interface ResourceRow {
+  path: string;
+  contentType: string | null;
+  size: number | null;
+  modified: number;
+}
+
+const RESOURCE_COLUMNS = 'path, content_type AS contentType, size, modified';
+
+export interface SqliteDataAccessorArgs {
+  /**
+   * Root folder of the server, used to resolve the location of the database.
+   */
+  rootFilePath: string;
+  /**
+   * Location of the database file relative to the root folder. Defaults to `/.internal/data.sqlite`.
+   */
+  databaseFile?: string;
+}
+
+/**
+ * DataAccessor that stores all resources in a single SQLite database file.
+ *
+ * Documents are stored as blobs, and their metadata as N-Quads strings, one row per quad.
+ * The container hierarchy is kept in an indexed column,
+ * so children and pages of children can be found without iterating over all resources.
+ *
+ * Every write happens in a single transaction after the incoming data has been read,
+ * so this accessor is atomic.
+ * The database is only opened when it is first needed, and gets closed when this class is finalized.
+ */
+export class SqliteDataAccessor implements AtomicDataAccessor, Finalizable {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly identifierStrategy: IdentifierStrategy;
+  private readonly databaseFile: string;
+  private database?: Database.Database;
+
+  public constructor(identifierStrategy: IdentifierStrategy, args: SqliteDataAccessorArgs) {
+    this.identifierStrategy = identifierStrategy;
+    this.databaseFile = joinFilePath(args.rootFilePath, args.databaseFile ?? '/.internal/data.sqlite');
+  }
+
+  /**
+   * Only binary data can be stored as blobs so will error on non-binary data.
+   */
+  public async canHandle(representation: Representation): Promise<void> {
+    if (!representation.binary) {
+      throw new UnsupportedMediaTypeHttpError('Only binary data is supported.');
+    }
+  }
+
+  /**
+   * Returns the blob of the document, or only the requested bytes in case of a range.
+   * Will throw NotFoundHttpError if the input is a container.
+   */
+  public async getData(identifier: ResourceIdentifier, range?: ByteRange): Promise<Guarded<Readable>> {
+    const row = range ?
+      this.getDatabase().prepare('SELECT substr(data, ?, ?) AS data FROM resources WHERE path = ?')
+        .get(range.start + 1, range.end - range.start + 1, identifier.path) :
+      this.getDatabase().prepare('SELECT data FROM resources WHERE path = ?').get(identifier.path);
+    const data = (row as { data: Buffer | null } | undefined)?.data;
+    if (!data) {
+      throw new NotFoundHttpError();
+    }
+    return guardedStreamFrom([ data ]);
+  }
+
+  public async getMetadata(identifier: ResourceIdentifier): Promise<RepresentationMetadata> {
+    const database = this.getDatabase();
+    const row = database.prepare(`SELECT ${RESOURCE_COLUMNS} FROM resources WHERE path = ?`)
+      .get(identifier.path) as ResourceRow | undefined;
+    if (!row) {
+      throw new NotFoundHttpError();
+    }
+    const quads = database.prepare('SELECT quad FROM quads WHERE path = ?').pluck().all(identifier.path) as string[];
+
+    const metadata = new RepresentationMetadata(identifier)
+      .addQuads(new Parser({ format: 'N-Quads' }).parse(quads.join('\n')));
+    addResourceMetadata(metadata, isContainerIdentifier(identifier));
+    this.addRowMetadata(metadata, row);
+    if (row.contentType) {
+      metadata.contentType = row.contentType;
+    }
+    return metadata;
+  }
+
+  /**
+   * Only reads the `resources` table, so the stored metadata of the children is not included.
+   * In case of a page, the sorting and limiting happens in the database.
+   */
+  public async* getChildren(identifier: ResourceIdentifier, page?: PagePreference):
+  AsyncIterableIterator<RepresentationMetadata> {
+    const select = `SELECT ${RESOURCE_COLUMNS} FROM resources WHERE parent = ?`;
+    // All results are read immediately as iterating would block the connection for other calls
+    const rows = (page ?
+      this.getDatabase().prepare(`${select} AND path > ? ORDER BY path LIMIT ?`)
+        .all(identifier.path, page.after ?? '', page.limit) :
+      this.getDatabase().prepare(select).all(identifier.path)) as ResourceRow[];
+
+    for (const row of rows) {
+      yield this.generateChildMetadata(row);
+    }
+  }
+
+  /**
+   * Reads the full data stream before writing anything,
+   * after which the data and metadata are written in a single transaction.
+   */
+  public async writeDocument(identifier: ResourceIdentifier, data: Guarded<Readable>, metadata: RepresentationMetadata):
+  Promise<void> {
+    const chunks: (Buffer | string)[] = await arrayifyStream(data);
+    const blob = Buffer.concat(chunks.map((chunk): Buffer => Buffer.from(chunk)));
+    const contentType = metadata.contentType ?? null;
+    this.writeResource(identifier, metadata, { contentType, data: blob, size: blob.length });
+  }
+
+  /**
+   * Creates the container if necessary and overwrites its metadata.
+   */
+  public async writeContainer(identifier: ResourceIdentifier, metadata: RepresentationMetadata): Promise<void> {
+    this.writeResource(identifier, metadata, { contentType: null, data: null, size: null });
+  }
+
+  /**
+   * Replaces the stored metadata quads, the content-type of a document can not be changed this way.
+   */
+  public async writeMetadata(identifier: ResourceIdentifier, metadata: RepresentationMetadata): Promise<void> {
+    const database = this.getDatabase();
+    database.transaction((): void => this.writeQuads(identifier, metadata))();
+  }
+
+  public async deleteResource(identifier: ResourceIdentifier): Promise<void> {
+    const database = this.getDatabase();
+    const { changes } = database.transaction((): Database.RunResult => {
+      database.prepare('DELETE FROM quads WHERE path = ?').run(identifier.path);
+      return database.prepare('DELETE FROM resources WHERE path = ?').run(identifier.path);
+    })();
+    if (changes === 0) {
+      throw new NotFoundHttpError();
+    }
+  }
+
+  public async finalize(): Promise<void> {
+    this.database?.close();
+    this.database = undefined;
+  }
+
+  /**
+   * Opens the database in case this has not happened yet, and makes sure the necessary tables exist.
+   */
+  private getDatabase(): Database.Database {
+    if (!this.database) {
+      this.logger.info(`Opening SQLite database ${this.databaseFile}`);
+      ensureDirSync(joinFilePath(this.databaseFile, '..'));
+      this.database = new Database(this.databaseFile);
+      // Allows multiple workers to read while one of them is writing
+      this.database.pragma('journal_mode = WAL');
+      this.database.exec(SCHEMA);
+    }
+    return this.database;
+  }
+
+  /**
+   * Inserts or updates a row in the `resources` table and replaces the stored metadata in a single transaction.
+   * @param identifier - Identifier of the resource.
+   * @param metadata - Metadata to store.
+   * @param values - The values of the resource columns that depend on the type of resource.
+   */
+  private writeResource(identifier: ResourceIdentifier, metadata: RepresentationMetadata,
+    values: Omit<ResourceRow, 'path' | 'modified'> & { data: Buffer | null }): void {
+    const parent = this.identifierStrategy.isRootContainer(identifier) ?
+      null :
+      this.identifierStrategy.getParentContainer(identifier).path;
+    const database = this.getDatabase();
+    database.transaction((): void => {
+      database.prepare(`
+        INSERT INTO resources (path, parent, content_type, data, size, modified)
+        VALUES (@path, @parent, @contentType, @data, @size, @modified)
+        ON CONFLICT (path) DO UPDATE SET content_type = excluded.content_type, data = excluded.data,
+          size = excluded.size, modified = excluded.modified
+      `).run({ ...values, path: identifier.path, parent, modified: this.getModified(metadata) });
+      this.writeQuads(identifier, metadata);
+    })();
+  }
+
+  /**
+   * Replaces the stored metadata quads of a resource.
+   * Metadata that is stored in the `resources` table, or that is generated when reading, is not stored as quads.
+   * Needs to be called inside a transaction.
+   */
+  private writeQuads(identifier: ResourceIdentifier, metadata: RepresentationMetadata): void {
+    const database = this.getDatabase();
+    metadata.remove(RDF.terms.type, LDP.terms.Resource);
+    metadata.remove(RDF.terms.type, LDP.terms.Container);
+    metadata.remove(RDF.terms.type, LDP.terms.BasicContainer);
+    metadata.removeAll(DC.terms.modified);
+    metadata.removeAll(CONTENT_TYPE_TERM);
+
+    database.prepare('DELETE FROM quads WHERE path = ?').run(identifier.path);
+    const insert = database.prepare('INSERT INTO quads (path, quad) VALUES (?, ?)');
+    const writer = new Writer({ format: 'N-Quads' });
+    for (const quad of metadata.quads()) {
+      insert.run(identifier.path, writer.quadToString(quad.subject, quad.predicate, quad.object, quad.graph));
+    }
+  }
+
+  /**
+   * Returns the last modified time of the metadata in milliseconds, defaulting to the current time.
+   */
+  private getModified(metadata: RepresentationMetadata): number {
+    const modified = metadata.get(DC.terms.modified);
+    return modified ? new Date(modified.value).getTime() : Date.now();
+  }
+
+  /**
+   * Generate metadata of a specific child as described in
+   * https://solidproject.org/TR/2021/protocol-20211217#contained-resource-metadata
+   *
+   * @param row - The row of the child in the `resources` table.
+   */
+  private generateChildMetadata(row: ResourceRow): RepresentationMetadata {
+    const metadata = new RepresentationMetadata({ path: row.path });
+    addResourceMetadata(metadata, isContainerIdentifier({ path: row.path }));
+    this.addRowMetadata(metadata, row);
+    // Containers will not have a content-type
+    if (row.contentType) {
+      // Make sure we don't generate invalid URIs
+      try {
+        const { value } = parseContentType(row.contentType);
+        metadata.add(RDF.terms.type, toNamedTerm(`${IANA.namespace}${value}#Resource`));
+      } catch {
+        this.logger.warn(`Detected an invalid content-type "${row.contentType}" for ${row.path}`);
+      }
+    }
+    return metadata;
+  }
+
+  /**
+   * Adds the last modified date and the size of the resource, as stored in the `resources` table.
+   */
+  private addRowMetadata(metadata: RepresentationMetadata, row: ResourceRow): void {
+    updateModifiedDate(metadata, new Date(row.modified));
+    if (typeof row.size === 'number') {
+      metadata.add(POSIX.terms.size, toLiteral(row.size, XSD.terms.integer), SOLID_META.terms.ResponseMetadata);
+    }
+  }
+}
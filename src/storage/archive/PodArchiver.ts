@@ -0,0 +1,347 @@
+import type { Readable } from 'stream';
+import type { NamedNode, Quad, Term } from '@rdfjs/types';
+import arrayifyStream from 'arrayify-stream';
+import { DataFactory, Parser } from 'n3';
+import type { Headers, Pack } from 'tar-stream';
+import { extract, pack } from 'tar-stream';
+import type { AuxiliaryStrategy } from '../../http/auxiliary/AuxiliaryStrategy';
+import { BasicRepresentation } from '../../http/representation/BasicRepresentation';
+import type { Representation } from '../../http/representation/Representation';
+import { RepresentationMetadata } from '../../http/representation/RepresentationMetadata';
+import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
+import { getLoggerFor } from '../../logging/LogUtil';
+import { INTERNAL_QUADS, TEXT_TURTLE } from '../../util/ContentTypes';
+import { BadRequestHttpError } from '../../util/errors/BadRequestHttpError';
+import { createErrorMessage } from '../../util/errors/ErrorUtil';
+import { HttpError } from '../../util/errors/HttpError';
+import { NotFoundHttpError } from '../../util/errors/NotFoundHttpError';
+import type { Guarded } from '../../util/GuardedStream';
+import { guardStream } from '../../util/GuardedStream';
+import { isContainerIdentifier, trimTrailingSlashes } from '../../util/PathUtil';
+import { serializeQuads } from '../../util/QuadUtil';
+import { pipeSafely, readableToString } from '../../util/StreamUtil';
+import { DC, LDP, PIM, POSIX, RDF, SOLID_META } from '../../util/Vocabularies';
+import type { ResourceStore } from '../ResourceStore';
+import namedNode = DataFactory.namedNode;
+import quad = DataFactory.quad;
+
+// PAX header fields used to store the information of a resource that does not fit in a standard tar header
+const PAX_CONTENT_TYPE = 'CSS.contentType';
+const PAX_METADATA = 'CSS.metadata';
+const PAX_STORAGE = 'CSS.storage';
+
+/**
+ * Tar headers including the PAX header fields, which are not part of the typings.
+ */
+interface ArchiveHeaders extends Headers {
+  pax?: NodeJS.Dict<string>;
+}
+
+export interface PodArchiverArgs {
+  /**
+   * Store containing the storages that get exported or imported.
+   */
+  store: ResourceStore;
+  /**
+   * Used to find the auxiliary resources of a resource.
+   */
+  auxiliaryStrategy: AuxiliaryStrategy;
+  /**
+   * Used to prevent description resources from being added separately,
+   * as their contents are already part of the metadata of their subject.
+   */
+  metadataStrategy: AuxiliaryStrategy;
+  /**
+   * Base URL of the server.
+   */
+  baseUrl: string;
+  /**
+   * Regular expressions of paths, relative to the base URL, that should not be exported.
+   */
+  ignoredPaths?: string[];
+}
+
+/**
+ * Converts the contents of a storage to a tar archive, and imports such archives into a storage.
+ *
+ * Every resource, including auxiliary resources such as ACL resources, corresponds to an entry in the archive,
+ * named after the path of the resource relative to the storage root.
+ * Containers are directory entries, with `./` being the name of the storage root.
+ * The content type and the metadata, serialized as N-Quads, are stored in the PAX header of the entry.
+ * Metadata resources are not added separately as their contents are part of the metadata of their subject.
+ * Storages contained in the exported storage are not part of the archive.
+ *
+ * When importing, resources in the archive replace the resources with the same identifier in the target storage.
+ * IRIs in the metadata that start with the original storage root are changed to start with the target storage root.
+ * The contents of documents are not changed,
+ * so absolute IRIs in ACL resources might have to be updated after an import.
+ *
+ * Resources are read and written one at a time so the storage never needs to be loaded in memory.
+ * Only documents of which the size is unknown, such as RDF documents in a SPARQL backend,
+ * are loaded in memory as the size of every entry has to be known before it can be added.
+ */
+export class PodArchiver {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly store: ResourceStore;
+  private readonly auxiliaryStrategy: AuxiliaryStrategy;
+  private readonly metadataStrategy: AuxiliaryStrategy;
+  private readonly baseUrl: string;
+  private readonly ignoredPaths: RegExp[];
+
+  public constructor(args: PodArchiverArgs) {
+    this.store = args.store;
+    this.auxiliaryStrategy = args.auxiliaryStrategy;
+    this.metadataStrategy = args.metadataStrategy;
+    this.baseUrl = trimTrailingSlashes(args.baseUrl);
+    this.ignoredPaths = (args.ignoredPaths ?? []).map((path): RegExp => new RegExp(path, 'u'));
+  }
+
+  /**
+   * Generates a tar archive containing all resources in the given storage.
+   * The archive is generated while the stream is being read.
+   *
+   * @param storage - Root container of the storage to export.
+   */
+  public export(storage: ResourceIdentifier): Guarded<Readable> {
+    const archive = pack();
+    this.addResource(archive, storage, storage)
+      .then((): void => archive.finalize())
+      .catch((error: Error): void => {
+        this.logger.error(`Unable to export ${storage.path}: ${createErrorMessage(error)}`);
+        // The archive is not always destroyed with an error, e.g., when an entry has the wrong size
+        archive.emit('error', error);
+        archive.destroy();
+      });
+    return guardStream(archive);
+  }
+
+  /**
+   * Writes all resources in the given tar archive to the given storage.
+   *
+   * @param storage - Root container of the storage to import the resources into.
+   * @param data - Tar archive as generated by {@link export}.
+   *
+   * @returns The number of imported resources.
+   */
+  public async import(storage: ResourceIdentifier, data: Readable): Promise<number> {
+    const archive = extract();
+    let count = 0;
+    return new Promise((resolve, reject): void => {
+      archive.on('entry', (header: ArchiveHeaders, entry: Readable, next: () => void): void => {
+        this.importEntry(storage, header, entry).then((imported): void => {
+          if (imported) {
+            count += 1;
+          }
+          next();
+        }).catch((error: Error): void => {
+          entry.resume();
+          archive.destroy(error);
+        });
+      });
+      archive.on('finish', (): void => resolve(count));
+      archive.on('error', (error): void => reject(HttpError.isInstance(error) ?
+        error :
+        new BadRequestHttpError(`Unable to import the archive: ${createErrorMessage(error)}`, { cause: error })));
+      pipeSafely(data, archive);
+    });
+  }
+
+  /**
+   * Adds the given resource, its auxiliary resources, and all its descendants in case of a container, to the archive.
+   */
+  private async addResource(archive: Pack, storage: ResourceIdentifier, identifier: ResourceIdentifier):
+  Promise<void> {
+    if (this.isIgnored(identifier)) {
+      return;
+    }
+    const representation = await this.store.getRepresentation(identifier, {});
+    const { metadata, data } = representation;
+    const isContainer = isContainerIdentifier(identifier);
+    if (isContainer && identifier.path !== storage.path && metadata.has(RDF.terms.type, PIM.terms.Storage)) {
+      this.logger.debug(`Not exporting ${identifier.path} as it is a different storage`);
+      data.destroy();
+      return;
+    }
+
+    await this.addEntry(archive, storage, identifier, representation);
+
+    if (!this.auxiliaryStrategy.isAuxiliaryIdentifier(identifier)) {
+      for (const auxiliary of this.auxiliaryStrategy.getAuxiliaryIdentifiers(identifier)) {
+        if (!this.metadataStrategy.isAuxiliaryIdentifier(auxiliary)) {
+          await this.addAuxiliaryResource(archive, storage, auxiliary);
+        }
+      }
+    }
+
+    if (isContainer) {
+      const children = metadata.getAll(LDP.terms.contains).map((child): string => child.value)
+        .sort((left, right): number => left.localeCompare(right));
+      for (const child of children) {
+        await this.addResource(archive, storage, { path: child });
+      }
+    }
+  }
+
+  /**
+   * Adds the given auxiliary resource to the archive, in case it exists.
+   */
+  private async addAuxiliaryResource(archive: Pack, storage: ResourceIdentifier, identifier: ResourceIdentifier):
+  Promise<void> {
+    let representation: Representation;
+    try {
+      representation = await this.store.getRepresentation(identifier, {});
+    } catch (error: unknown) {
+      if (NotFoundHttpError.isInstance(error)) {
+        return;
+      }
+      throw error;
+    }
+    await this.addEntry(archive, storage, identifier, representation);
+  }
+
+  /**
+   * Adds the entry corresponding to the given representation to the archive.
+   * Only the metadata of containers is stored as their contents are determined by their children.
+   */
+  private async addEntry(archive: Pack, storage: ResourceIdentifier, identifier: ResourceIdentifier,
+    representation: Representation): Promise<void> {
+    const { metadata, data, binary } = representation;
+    const modified = metadata.get(DC.terms.modified);
+    const pax: NodeJS.Dict<string> = { [PAX_STORAGE]: storage.path };
+    const header: ArchiveHeaders = {
+      name: identifier.path === storage.path ? './' : identifier.path.slice(storage.path.length),
+      mtime: modified ? new Date(modified.value) : undefined,
+      pax,
+    };
+
+    if (isContainerIdentifier(identifier)) {
+      data.destroy();
+      header.type = 'directory';
+      // Container metadata also contains the metadata of its children, which is not relevant here
+      pax[PAX_METADATA] = await this.serializeMetadata(metadata.quads(metadata.identifier));
+      return this.writeEntry(archive, header);
+    }
+
+    header.type = 'file';
+    pax[PAX_METADATA] = await this.serializeMetadata(metadata.quads());
+    if (!binary) {
+      pax[PAX_CONTENT_TYPE] = TEXT_TURTLE;
+      const turtle = serializeQuads(await arrayifyStream(data), TEXT_TURTLE);
+      return this.writeEntry(archive, header, Buffer.from(await readableToString(turtle)));
+    }
+
+    pax[PAX_CONTENT_TYPE] = metadata.contentType;
+    const size = metadata.get(POSIX.terms.size);
+    if (size) {
+      header.size = Number(size.value);
+      return this.writeEntry(archive, header, data);
+    }
+    const chunks: (Buffer | string)[] = await arrayifyStream(data);
+    return this.writeEntry(archive, header, Buffer.concat(chunks.map((chunk): Buffer => Buffer.from(chunk))));
+  }
+
+  /**
+   * Serializes the given metadata quads as N-Quads,
+   * ignoring the metadata that is generated on the fly.
+   */
+  private async serializeMetadata(quads: Quad[]): Promise<string> {
+    const stored = quads.filter((entry): boolean => !entry.graph.equals(SOLID_META.terms.ResponseMetadata));
+    return readableToString(serializeQuads(stored, 'application/n-quads'));
+  }
+
+  /**
+   * Adds a single entry to the archive and resolves once its data has been written.
+   */
+  private async writeEntry(archive: Pack, header: ArchiveHeaders, data?: Buffer | Readable): Promise<void> {
+    return new Promise((resolve, reject): void => {
+      function callback(error?: Error | null): void {
+        return error ? reject(error) : resolve();
+      }
+      if (!data || Buffer.isBuffer(data)) {
+        archive.entry(header, data, callback);
+      } else {
+        pipeSafely(data, archive.entry(header, callback));
+      }
+    });
+  }
+
+  /**
+   * Writes the resource corresponding to the given archive entry to the store.
+   * Returns `false` if the entry was skipped.
+   */
+  private async importEntry(storage: ResourceIdentifier, header: ArchiveHeaders, data: Readable): Promise<boolean> {
+    const identifier = this.getIdentifier(storage, header.name);
+    if (header.type !== 'file' && header.type !== 'directory') {
+      this.logger.warn(`Skipping entry ${header.name} of unsupported type ${header.type}`);
+      data.resume();
+      return false;
+    }
+
+    const pax = header.pax ?? {};
+    const quads = new Parser({ format: 'application/n-quads' }).parse(pax[PAX_METADATA] ?? '');
+    const original = pax[PAX_STORAGE];
+    const metadata = new RepresentationMetadata(identifier);
+    metadata.addQuads(original ? quads.map((entry): Quad => this.rebaseQuad(entry, original, storage.path)) : quads);
+    // The stored content type does not have to match the content type of the entry data
+    metadata.contentType = pax[PAX_CONTENT_TYPE];
+
+    if (!isContainerIdentifier(identifier)) {
+      await this.store.setRepresentation(identifier, new BasicRepresentation(data, metadata));
+      return true;
+    }
+
+    data.resume();
+    if (await this.store.hasResource(identifier)) {
+      // Existing containers can only be changed through their metadata resource
+      const metadataIdentifier = this.metadataStrategy.getAuxiliaryIdentifier(identifier);
+      await this.store.setRepresentation(metadataIdentifier,
+        new BasicRepresentation(metadata.quads(), metadataIdentifier, INTERNAL_QUADS));
+    } else {
+      await this.store.setRepresentation(identifier, new BasicRepresentation([], metadata));
+    }
+    return true;
+  }
+
+  /**
+   * Determines the identifier of the resource corresponding to an archive entry.
+   * Throws an error if the resulting identifier would not be in the given storage.
+   */
+  private getIdentifier(storage: ResourceIdentifier, name: string): ResourceIdentifier {
+    const path = new URL(name, storage.path).href;
+    if (!path.startsWith(storage.path)) {
+      throw new BadRequestHttpError(`The archive entry ${name} is not part of the storage.`);
+    }
+    return { path };
+  }
+
+  /**
+   * Replaces the original storage root in the IRIs of the quad with the new storage root.
+   */
+  private rebaseQuad(input: Quad, original: string, storage: string): Quad {
+    return quad(
+      this.rebaseTerm(input.subject, original, storage),
+      this.rebaseTerm(input.predicate, original, storage),
+      this.rebaseTerm(input.object, original, storage),
+      this.rebaseTerm(input.graph, original, storage),
+    );
+  }
+
+  private rebaseTerm<T extends Term>(term: T, original: string, storage: string): T | NamedNode {
+    return term.termType === 'NamedNode' && term.value.startsWith(original) ?
+      namedNode(`${storage}${term.value.slice(original.length)}`) :
+      term;
+  }
+
+  /**
+   * Checks if the given identifier matches one of the ignored paths.
+   */
+  private isIgnored(identifier: ResourceIdentifier): boolean {
+    if (!identifier.path.startsWith(this.baseUrl)) {
+      return false;
+    }
+    // We want to keep the leading slash
+    const relative = identifier.path.slice(this.baseUrl.length);
+    return this.ignoredPaths.some((regex): boolean => regex.test(relative));
+  }
+}
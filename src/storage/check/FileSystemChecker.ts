@@ -0,0 +1,300 @@
+import { createReadStream } from 'fs';
+import arrayifyStream from 'arrayify-stream';
+import { lstat, move, readdir } from 'fs-extra';
+import type { AuxiliaryIdentifierStrategy } from '../../http/auxiliary/AuxiliaryIdentifierStrategy';
+import { BasicRepresentation } from '../../http/representation/BasicRepresentation';
+import { getLoggerFor } from '../../logging/LogUtil';
+import { INTERNAL_QUADS } from '../../util/ContentTypes';
+import { createErrorMessage } from '../../util/errors/ErrorUtil';
+import { guardStream } from '../../util/GuardedStream';
+import {
+  ensureTrailingSlash,
+  isContainerIdentifier,
+  joinFilePath,
+  normalizeFilePath,
+  trimTrailingSlashes,
+} from '../../util/PathUtil';
+import type { RepresentationConverter } from '../conversion/RepresentationConverter';
+import type { FileIdentifierMapper, ResourceLink } from '../mapping/FileIdentifierMapper';
+
+/**
+ * The kinds of inconsistencies a {@link FileSystemChecker} can find:
+ *  * `unmappablePath`: A file or folder that does not correspond to a resource,
+ *    such as a second file with a different `$.ext` extension for the same document.
+ *    The contents of unmappable folders can not be reached either.
+ *  * `orphanedMetadata`: A `.meta` file of which the subject resource does not exist.
+ *  * `conflictingResource`: A document and a container that only differ in their trailing slash.
+ *  * `invalidRdf`: A `.meta` or ACL file that can not be parsed.
+ *  * `missingRootAcl`: There is no ACL for the root container, so no request can be authorized.
+ */
+export type FileSystemIssueType =
+  'unmappablePath' | 'orphanedMetadata' | 'conflictingResource' | 'invalidRdf' | 'missingRootAcl';
+
+/**
+ * An inconsistency found by a {@link FileSystemChecker}.
+ */
+export interface FileSystemIssue {
+  type: FileSystemIssueType;
+  /**
+   * Path of the file or folder with the issue.
+   */
+  filePath: string;
+  /**
+   * URL of the corresponding resource, if there is one.
+   */
+  identifier?: string;
+  message: string;
+  /**
+   * If the issue can be repaired automatically.
+   */
+  repairable: boolean;
+  repaired: boolean;
+}
+
+export interface FileSystemCheckerArgs {
+  /**
+   * The mapper that is used by the file backend that needs to be checked.
+   */
+  mapper: FileIdentifierMapper;
+  /**
+   * Root folder of the file backend.
+   */
+  rootFilePath: string;
+  /**
+   * URL of the root container.
+   */
+  baseUrl: string;
+  /**
+   * Used to parse `.meta` and ACL files to verify they are valid RDF.
+   */
+  converter: RepresentationConverter;
+  /**
+   * Folder to which files are moved when they are repaired.
+   * Its contents are never checked.
+   */
+  lostAndFoundPath: string;
+  /**
+   * Used to find the ACL files. ACL files are not checked if this is not defined.
+   */
+  aclStrategy?: AuxiliaryIdentifierStrategy;
+  /**
+   * Regular expressions of paths, relative to the root folder, that should not be checked.
+   */
+  ignoredPaths?: string[];
+}
+
+/**
+ * Finds and repairs inconsistencies in the data folder of a file backend,
+ * e.g., after a crash or after the files were edited manually.
+ *
+ * Every file and folder is mapped to a URL with the {@link FileIdentifierMapper} and back again,
+ * which needs to result in the same path for the resource to be reachable through the server.
+ *
+ * Repairing moves unmappable files and folders, orphaned metadata and invalid metadata
+ * to a new folder in the lost and found folder, keeping their relative path,
+ * so nothing gets deleted.
+ * Other issues need to be resolved manually:
+ * an invalid ACL is not moved as that could grant the permissions of the parent container instead,
+ * and there is no way to know which resource should remain when a document and a container conflict.
+ *
+ * The server should not be running while the data is being checked.
+ */
+export class FileSystemChecker {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly mapper: FileIdentifierMapper;
+  private readonly rootFilePath: string;
+  private readonly baseUrl: string;
+  private readonly converter: RepresentationConverter;
+  private readonly lostAndFoundPath: string;
+  private readonly aclStrategy?: AuxiliaryIdentifierStrategy;
+  private readonly ignoredPaths: RegExp[];
+
+  public constructor(args: FileSystemCheckerArgs) {
+    this.mapper = args.mapper;
+    this.rootFilePath = trimTrailingSlashes(normalizeFilePath(args.rootFilePath));
+    this.baseUrl = ensureTrailingSlash(args.baseUrl);
+    this.converter = args.converter;
+    this.lostAndFoundPath = ensureTrailingSlash(normalizeFilePath(args.lostAndFoundPath));
+    this.aclStrategy = args.aclStrategy;
+    this.ignoredPaths = (args.ignoredPaths ?? []).map((path): RegExp => new RegExp(path, 'u'));
+  }
+
+  /**
+   * Checks all files and folders in the root folder.
+   *
+   * @param repair - If the repairable issues should be repaired.
+   *
+   * @returns All issues that were found.
+   */
+  public async check(repair = false): Promise<FileSystemIssue[]> {
+    const issues: FileSystemIssue[] = [];
+    await this.checkFolder(this.rootFilePath, issues);
+    await this.checkRootAcl(issues);
+    this.logger.info(`Found ${issues.length} issues in ${this.rootFilePath}`);
+
+    if (repair) {
+      // A new folder is used every time so the results of earlier repairs are never overwritten
+      const target = joinFilePath(this.lostAndFoundPath, `${Date.now()}`);
+      for (const issue of issues.filter((entry): boolean => entry.repairable)) {
+        const destination = joinFilePath(target, issue.filePath.slice(this.rootFilePath.length));
+        this.logger.info(`Moving ${issue.filePath} to ${destination}`);
+        await move(issue.filePath, destination);
+        issue.repaired = true;
+      }
+    }
+    return issues;
+  }
+
+  /**
+   * Checks all entries of the given folder and its subfolders.
+   */
+  private async checkFolder(folderPath: string, issues: FileSystemIssue[]): Promise<void> {
+    const entries: { filePath: string; isContainer: boolean; link?: ResourceLink }[] = [];
+    for (const entry of await readdir(folderPath, { withFileTypes: true })) {
+      const filePath = joinFilePath(folderPath, entry.name);
+      const isContainer = entry.isDirectory();
+      if (!this.isIgnored(isContainer ? ensureTrailingSlash(filePath) : filePath)) {
+        entries.push({ filePath, isContainer, link: await this.mapFilePath(filePath, isContainer) });
+      }
+    }
+    const containers = new Set(entries.filter(({ isContainer }): boolean => isContainer)
+      .map(({ link }): string | undefined => link?.identifier.path));
+
+    for (const { filePath, isContainer, link } of entries) {
+      if (link && !isContainer && !link.isMetadata && containers.has(ensureTrailingSlash(link.identifier.path))) {
+        issues.push({
+          type: 'conflictingResource',
+          filePath,
+          identifier: link.identifier.path,
+          message: `Both ${link.identifier.path} and ${ensureTrailingSlash(link.identifier.path)} exist, ` +
+            'one of them needs to be removed.',
+          repairable: false,
+          repaired: false,
+        });
+      } else if (!link || !await this.isReversible(link, isContainer)) {
+        issues.push({
+          type: 'unmappablePath',
+          filePath,
+          message: isContainer ?
+            'Folder does not correspond to a container, so its contents can not be reached.' :
+            'File does not correspond to a resource.',
+          repairable: true,
+          repaired: false,
+        });
+      } else if (isContainer) {
+        await this.checkFolder(filePath, issues);
+      } else if (link.isMetadata) {
+        await this.checkMetadata(link, issues);
+      } else if (this.aclStrategy?.isAuxiliaryIdentifier(link.identifier)) {
+        // Removing an ACL could grant more permissions
+        await this.checkRdf(link, false, issues);
+      }
+    }
+  }
+
+  /**
+   * A `.meta` file is valid if its subject exists and it contains valid RDF.
+   */
+  private async checkMetadata(link: ResourceLink, issues: FileSystemIssue[]): Promise<void> {
+    const subject = await this.mapper.mapUrlToFilePath(link.identifier, false);
+    if (!await this.isStored(subject)) {
+      issues.push({
+        type: 'orphanedMetadata',
+        filePath: link.filePath,
+        identifier: link.identifier.path,
+        message: `Metadata of ${link.identifier.path}, which does not exist.`,
+        repairable: true,
+        repaired: false,
+      });
+      return;
+    }
+    await this.checkRdf(link, true, issues);
+  }
+
+  /**
+   * Adds an issue if the given file can not be parsed as RDF.
+   */
+  private async checkRdf(link: ResourceLink, repairable: boolean, issues: FileSystemIssue[]): Promise<void> {
+    const representation = new BasicRepresentation(guardStream(createReadStream(link.filePath)), link.contentType!);
+    const args = { identifier: link.identifier, representation, preferences: { type: { [INTERNAL_QUADS]: 1 }}};
+    try {
+      await arrayifyStream((await this.converter.handleSafe(args)).data);
+    } catch (error: unknown) {
+      representation.data.destroy();
+      issues.push({
+        type: 'invalidRdf',
+        filePath: link.filePath,
+        identifier: link.identifier.path,
+        message: `Invalid RDF: ${createErrorMessage(error)}`,
+        repairable,
+        repaired: false,
+      });
+    }
+  }
+
+  /**
+   * The {@link WebAclReader} throws an error on every request if there is no root ACL.
+   */
+  private async checkRootAcl(issues: FileSystemIssue[]): Promise<void> {
+    if (!this.aclStrategy) {
+      return;
+    }
+    const identifier = this.aclStrategy.getAuxiliaryIdentifier({ path: this.baseUrl });
+    const link = await this.mapper.mapUrlToFilePath(identifier, false);
+    if (!await this.isStored(link)) {
+      issues.push({
+        type: 'missingRootAcl',
+        filePath: link.filePath,
+        identifier: identifier.path,
+        message: 'There is no ACL for the root container, so no request can be authorized.',
+        repairable: false,
+        repaired: false,
+      });
+    }
+  }
+
+  /**
+   * Maps the path to a URL. Returns `undefined` if that is not possible.
+   */
+  private async mapFilePath(filePath: string, isContainer: boolean): Promise<ResourceLink | undefined> {
+    try {
+      return await this.mapper.mapFilePathToUrl(filePath, isContainer);
+    } catch (error: unknown) {
+      this.logger.debug(`Unable to map ${filePath}: ${createErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Maps the URL of the link back to a path, which needs to result in the path of the link.
+   */
+  private async isReversible(link: ResourceLink, isContainer: boolean): Promise<boolean> {
+    try {
+      const { filePath } = await this.mapper.mapUrlToFilePath(link.identifier, link.isMetadata);
+      return filePath === (isContainer ? ensureTrailingSlash(link.filePath) : link.filePath);
+    } catch (error: unknown) {
+      this.logger.debug(`Unable to map ${link.identifier.path}: ${createErrorMessage(error)}`);
+      return false;
+    }
+  }
+
+  /**
+   * Checks if the file of the given link exists and has the correct type.
+   */
+  private async isStored(link: ResourceLink): Promise<boolean> {
+    try {
+      const stats = await lstat(link.filePath);
+      return stats.isDirectory() === isContainerIdentifier(link.identifier);
+    } catch {
+      return false;
+    }
+  }
+
+  private isIgnored(filePath: string): boolean {
+    if (filePath.startsWith(this.lostAndFoundPath)) {
+      return true;
+    }
+    const relative = filePath.slice(this.rootFilePath.length);
+    return this.ignoredPaths.some((path): boolean => path.test(relative));
+  }
+}
@@ -0,0 +1,179 @@
+import type { CipherGCM, DecipherGCM } from 'crypto';
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import type { Readable } from 'stream';
+import { InternalServerError } from '../../util/errors/InternalServerError';
+import type { Guarded } from '../../util/GuardedStream';
+import type { ByteRange } from '../../util/RangeUtil';
+import { transformSafely } from '../../util/StreamUtil';
+
+const ALGORITHM = 'aes-256-gcm';
+const VERSION = 1;
+const KEY_LENGTH = 32;
+const KEY_ID_LENGTH = 16;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const HEADER_LENGTH = 1 + KEY_ID_LENGTH + IV_LENGTH;
+
+/**
+ * The number of bytes encrypted data is larger than the original data.
+ */
+export const ENCRYPTION_OVERHEAD = HEADER_LENGTH + TAG_LENGTH;
+
+/**
+ * A 256-bit AES key.
+ */
+export interface EncryptionKey {
+  /**
+   * Identifies the key in the encrypted data. Consists of 16 hexadecimal encoded bytes.
+   */
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * Finds the key with the given ID.
+ */
+export type KeyResolver = (id: string) => Promise<EncryptionKey>;
+
+/**
+ * Generates a new random key.
+ */
+export function generateEncryptionKey(): EncryptionKey {
+  return { id: randomBytes(KEY_ID_LENGTH).toString('hex'), key: randomBytes(KEY_LENGTH) };
+}
+
+/**
+ * Creates the cipher and the header that precedes the encrypted data.
+ * The header consists of the format version, the key ID and the initialization vector.
+ */
+function createCipher(key: EncryptionKey): { cipher: CipherGCM; header: Buffer } {
+  const id = Buffer.from(key.id, 'hex');
+  if (id.length !== KEY_ID_LENGTH || id.toString('hex') !== key.id.toLowerCase()) {
+    throw new InternalServerError(`Invalid encryption key ID ${key.id}`);
+  }
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key.key, iv);
+  return { cipher, header: Buffer.concat([ Buffer.from([ VERSION ]), id, iv ]) };
+}
+
+/**
+ * Creates the decipher corresponding to the given header.
+ */
+async function createDecipher(header: Buffer, resolveKey: KeyResolver): Promise<DecipherGCM> {
+  if (header.length < HEADER_LENGTH || header[0] !== VERSION) {
+    throw new InternalServerError('The data is not encrypted in a supported format.');
+  }
+  const { key } = await resolveKey(header.subarray(1, 1 + KEY_ID_LENGTH).toString('hex'));
+  return createDecipheriv(ALGORITHM, key, header.subarray(1 + KEY_ID_LENGTH, HEADER_LENGTH));
+}
+
+/**
+ * Encrypts the given data with AES-GCM.
+ * The result starts with a header identifying the key and ends with the authentication tag.
+ */
+export function encryptBuffer(data: Buffer, key: EncryptionKey): Buffer {
+  const { cipher, header } = createCipher(key);
+  return Buffer.concat([ header, cipher.update(data), cipher.final(), cipher.getAuthTag() ]);
+}
+
+/**
+ * Decrypts data that was encrypted with {@link encryptBuffer} or {@link encryptStream}.
+ *
+ * @param data - The encrypted data.
+ * @param resolveKey - Finds the key the data was encrypted with.
+ *
+ * @throws InternalServerError
+ * If the data is not encrypted or has been tampered with.
+ */
+export async function decryptBuffer(data: Buffer, resolveKey: KeyResolver): Promise<Buffer> {
+  if (data.length < ENCRYPTION_OVERHEAD) {
+    throw new InternalServerError('The data is not encrypted in a supported format.');
+  }
+  const decipher = await createDecipher(data, resolveKey);
+  decipher.setAuthTag(data.subarray(data.length - TAG_LENGTH));
+  try {
+    return Buffer.concat([ decipher.update(data.subarray(HEADER_LENGTH, data.length - TAG_LENGTH)), decipher.final() ]);
+  } catch (error: unknown) {
+    throw new InternalServerError('Unable to decrypt the data.', { cause: error });
+  }
+}
+
+/**
+ * Encrypts the data stream with AES-GCM while it is being read.
+ * The result has the same format as the result of {@link encryptBuffer}.
+ */
+export function encryptStream(data: Readable, key: EncryptionKey): Guarded<Readable> {
+  const { cipher, header } = createCipher(key);
+  let started = false;
+  function start(stream: Readable): void {
+    if (!started) {
+      stream.push(header);
+      started = true;
+    }
+  }
+
+  return transformSafely<Buffer>(data, {
+    transform(chunk): void {
+      start(this);
+      this.push(cipher.update(chunk));
+    },
+    flush(): void {
+      start(this);
+      this.push(cipher.final());
+      this.push(cipher.getAuthTag());
+    },
+  });
+}
+
+/**
+ * Decrypts the data stream while it is being read.
+ * As the authentication tag is at the end of the data,
+ * the stream only emits an error after all data has been read in case the data was tampered with.
+ *
+ * @param data - The encrypted data stream.
+ * @param resolveKey - Finds the key the data was encrypted with.
+ * @param range - Only these bytes of the decrypted data are returned.
+ *                All data is still decrypted to be able to verify it.
+ */
+export function decryptStream(data: Readable, resolveKey: KeyResolver, range?: ByteRange): Guarded<Readable> {
+  let decipher: DecipherGCM | undefined;
+  let buffer = Buffer.alloc(0);
+  let position = 0;
+  function output(stream: Readable, chunk: Buffer): void {
+    const start = range ? Math.max(range.start - position, 0) : 0;
+    const end = range ? Math.min(range.end + 1 - position, chunk.length) : chunk.length;
+    position += chunk.length;
+    if (start < end) {
+      stream.push(chunk.subarray(start, end));
+    }
+  }
+
+  return transformSafely<Buffer>(data, {
+    async transform(chunk): Promise<void> {
+      buffer = Buffer.concat([ buffer, chunk ]);
+      if (!decipher) {
+        if (buffer.length < HEADER_LENGTH) {
+          return;
+        }
+        decipher = await createDecipher(buffer, resolveKey);
+        buffer = buffer.subarray(HEADER_LENGTH);
+      }
+      // The last bytes might be the authentication tag
+      if (buffer.length > TAG_LENGTH) {
+        output(this, decipher.update(buffer.subarray(0, buffer.length - TAG_LENGTH)));
+        buffer = buffer.subarray(buffer.length - TAG_LENGTH);
+      }
+    },
+    flush(): void {
+      if (!decipher || buffer.length < TAG_LENGTH) {
+        throw new InternalServerError('The data is not encrypted in a supported format.');
+      }
+      decipher.setAuthTag(buffer);
+      try {
+        output(this, decipher.final());
+      } catch (error: unknown) {
+        throw new InternalServerError('Unable to decrypt the data.', { cause: error });
+      }
+    },
+  });
+}
@@ -0,0 +1,31 @@
+import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
+import type { EncryptionKey } from './EncryptionUtil';
+
+/**
+ * Provides the keys used to encrypt the data of a storage.
+ * Every storage can have its own key, so the data of different pods is encrypted with different keys.
+ * Keys that are no longer used to encrypt new data need to remain available,
+ * as the data that was encrypted with them can still be read.
+ */
+export interface KeyProvider {
+  /**
+   * Returns the key that should be used to encrypt data of the given storage.
+   * @param storage - Root container of the storage, or undefined for data that is not part of a storage.
+   */
+  getCurrentKey: (storage?: ResourceIdentifier) => Promise<EncryptionKey>;
+
+  /**
+   * Returns the key with the given ID.
+   * @param id - ID of the key.
+   *
+   * @throws InternalServerError
+   * If the key is not known.
+   */
+  getKey: (id: string) => Promise<EncryptionKey>;
+
+  /**
+   * Generates a new key that will be used to encrypt all new data of the given storage.
+   * @param storage - Root container of the storage, or undefined for data that is not part of a storage.
+   */
+  rotateKey: (storage?: ResourceIdentifier) => Promise<EncryptionKey>;
+}
@@ -0,0 +1,115 @@
+import { createHash } from 'crypto';
+import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
+import { getLoggerFor } from '../../logging/LogUtil';
+import { InternalServerError } from '../../util/errors/InternalServerError';
+import type { KeyValueStorage } from '../keyvalue/KeyValueStorage';
+import type { EncryptionKey } from './EncryptionUtil';
+import { decryptBuffer, encryptBuffer, generateEncryptionKey } from './EncryptionUtil';
+import type { KeyProvider } from './KeyProvider';
+
+// Key used in the current key storage for data that is not part of a storage
+const SERVER_KEY = 'server';
+
+/**
+ * The key that is currently used to encrypt the data of a storage.
+ */
+export interface CurrentKey {
+  id: string;
+  /**
+   * When the key was generated, in milliseconds since the epoch.
+   */
+  created: number;
+}
+
+export interface WrappedKeyProviderArgs {
+  /**
+   * Base64 encoded 256-bit key that is used to encrypt the generated keys before they are stored.
+   */
+  masterKey?: string;
+  /**
+   * Stores the encrypted keys, with their ID as key.
+   */
+  keyStorage: KeyValueStorage<string, string>;
+  /**
+   * Stores which key is currently used for every storage, with the storage URL as key.
+   */
+  currentKeyStorage: KeyValueStorage<string, CurrentKey>;
+  /**
+   * After how many seconds a new key should be generated for a storage.
+   * If not set, keys are only replaced when {@link WrappedKeyProvider.rotateKey} is called.
+   */
+  rotationInterval?: number;
+}
+
+/**
+ * A {@link KeyProvider} that generates a random key for every storage.
+ * These keys are stored after being encrypted with a master key,
+ * so the data can only be decrypted by someone that knows the master key.
+ *
+ * Keys are rotated by generating a new key for the storage, which will be used for all new data.
+ * Previous keys are kept so the data that was encrypted with them can still be decrypted.
+ */
+export class WrappedKeyProvider implements KeyProvider {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly masterKey: EncryptionKey;
+  private readonly keyStorage: KeyValueStorage<string, string>;
+  private readonly currentKeyStorage: KeyValueStorage<string, CurrentKey>;
+  private readonly rotationInterval?: number;
+  // Keys never change, so they can be kept in memory after being decrypted
+  private readonly cache = new Map<string, EncryptionKey>();
+
+  public constructor(args: WrappedKeyProviderArgs) {
+    const key = Buffer.from(args.masterKey ?? '', 'base64');
+    if (key.length !== 32) {
+      throw new Error('The encryption master key needs to be a base64 encoded 256-bit key.');
+    }
+    // The master key is identified by its hash, so keys encrypted with a different master key can be detected
+    this.masterKey = { id: createHash('sha256').update(key).digest('hex').slice(0, 32), key };
+    this.keyStorage = args.keyStorage;
+    this.currentKeyStorage = args.currentKeyStorage;
+    this.rotationInterval = args.rotationInterval;
+  }
+
+  public async getCurrentKey(storage?: ResourceIdentifier): Promise<EncryptionKey> {
+    const current = await this.currentKeyStorage.get(storage?.path ?? SERVER_KEY);
+    if (current && !this.isExpired(current)) {
+      return this.getKey(current.id);
+    }
+    return this.rotateKey(storage);
+  }
+
+  public async getKey(id: string): Promise<EncryptionKey> {
+    let key = this.cache.get(id);
+    if (!key) {
+      const wrapped = await this.keyStorage.get(id);
+      if (!wrapped) {
+        throw new InternalServerError(`Unknown encryption key ${id}`);
+      }
+      key = { id, key: await decryptBuffer(Buffer.from(wrapped, 'base64'), this.resolveMasterKey.bind(this)) };
+      this.cache.set(id, key);
+    }
+    return key;
+  }
+
+  public async rotateKey(storage?: ResourceIdentifier): Promise<EncryptionKey> {
+    const key = generateEncryptionKey();
+    // The key needs to be stored before it is used
+    await this.keyStorage.set(key.id, encryptBuffer(key.key, this.masterKey).toString('base64'));
+    await this.currentKeyStorage.set(storage?.path ?? SERVER_KEY, { id: key.id, created: Date.now() });
+    this.cache.set(key.id, key);
+    this.logger.info(`Generated encryption key ${key.id} for ${storage?.path ?? 'the server'}`);
+    return key;
+  }
+
+  private isExpired(current: CurrentKey): boolean {
+    return typeof this.rotationInterval === 'number' && current.created + (this.rotationInterval * 1000) <= Date.now();
+  }
+
+  private async resolveMasterKey(id: string): Promise<EncryptionKey> {
+    if (id !== this.masterKey.id) {
+      throw new InternalServerError('The encryption keys were encrypted with a different master key.');
+    }
+    return this.masterKey;
+  }
+}
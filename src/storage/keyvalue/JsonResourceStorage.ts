@@ -4,7 +4,7 @@ import { BasicRepresentation } from '../../http/representation/BasicRepresentati
 import type { Representation } from '../../http/representation/Representation';
 import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
 import { NotFoundHttpError } from '../../util/errors/NotFoundHttpError';
-import { ensureLeadingSlash, ensureTrailingSlash, isContainerIdentifier, joinUrl,
+import { decodeUriPathComponents, ensureLeadingSlash, ensureTrailingSlash, isContainerIdentifier, joinUrl,
   joinFilePath } from '../../util/PathUtil';
 import { readableToString } from '../../util/StreamUtil';
 import { LDP } from '../../util/Vocabularies';
@@ -140,7 +140,8 @@ export class JsonResourceStorage<T> implements KeyValueStorage<string, T> {
     // so we always add one for consistency.
     // In practice this would only be an issue if a class depends
     // on the `entries` results matching a key that was sent before.
-    return ensureLeadingSlash(identifier.path.slice(this.container.length));
+    // The identifiers returned by the store are encoded, while the keys were not.
+    return ensureLeadingSlash(decodeUriPathComponents(identifier.path.slice(this.container.length)));
   }
 
   private applyHash(key: string): string {
@@ -0,0 +1,384 @@
+import { createHash } from 'crypto';
+import type { BlankNode, Quad, Term } from '@rdfjs/types';
+import arrayifyStream from 'arrayify-stream';
+import { DataFactory } from 'n3';
+import type { AuxiliaryStrategy } from '../../http/auxiliary/AuxiliaryStrategy';
+import { BasicRepresentation } from '../../http/representation/BasicRepresentation';
+import type { Representation } from '../../http/representation/Representation';
+import { RepresentationMetadata } from '../../http/representation/RepresentationMetadata';
+import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
+import { getLoggerFor } from '../../logging/LogUtil';
+import { INTERNAL_QUADS } from '../../util/ContentTypes';
+import { BadRequestHttpError } from '../../util/errors/BadRequestHttpError';
+import { createErrorMessage } from '../../util/errors/ErrorUtil';
+import { NotFoundHttpError } from '../../util/errors/NotFoundHttpError';
+import { NotImplementedHttpError } from '../../util/errors/NotImplementedHttpError';
+import { UnsupportedMediaTypeHttpError } from '../../util/errors/UnsupportedMediaTypeHttpError';
+import { ensureTrailingSlash, isContainerIdentifier, trimLeadingSlashes } from '../../util/PathUtil';
+import { serializeQuads } from '../../util/QuadUtil';
+import { readableToString } from '../../util/StreamUtil';
+import { LDP, SOLID_META } from '../../util/Vocabularies';
+import type { RepresentationConverter } from '../conversion/RepresentationConverter';
+import type { KeyValueStorage } from '../keyvalue/KeyValueStorage';
+import type { ResourceStore } from '../ResourceStore';
+import blankNode = DataFactory.blankNode;
+import quad = DataFactory.quad;
+
+export interface StorageMigratorArgs {
+  /**
+   * Store containing the resources that need to be migrated.
+   */
+  source: ResourceStore;
+  /**
+   * Store the resources are copied to.
+   */
+  target: ResourceStore;
+  /**
+   * Used to find the auxiliary resources of a resource.
+   */
+  auxiliaryStrategy: AuxiliaryStrategy;
+  /**
+   * Used to prevent description resources from being copied separately,
+   * as their contents are copied as part of the metadata of their subject.
+   */
+  metadataStrategy: AuxiliaryStrategy;
+  /**
+   * Converts RDF documents to quads,
+   * so their contents can be compared independently of how they are serialized by the backend.
+   */
+  converter: RepresentationConverter;
+  /**
+   * Stores the hash of every resource that was successfully migrated,
+   * so these can be skipped when a migration is resumed.
+   */
+  progress: KeyValueStorage<string, string>;
+  /**
+   * Paths, relative to the migrated root container, of containers that are not listed in their parent container,
+   * such as the container with internal data, but that do need to be migrated.
+   */
+  hiddenPaths?: string[];
+  /**
+   * Regular expressions of paths, relative to the migrated root container, that should not be migrated.
+   */
+  ignoredPaths?: string[];
+}
+
+/**
+ * Summary of a migration.
+ */
+export interface MigrationReport {
+  /**
+   * Number of resources found in the source store.
+   */
+  total: number;
+  /**
+   * Number of resources that were copied and verified.
+   */
+  copied: number;
+  /**
+   * Number of resources that were skipped as they were already migrated by a previous run.
+   */
+  resumed: number;
+  /**
+   * Resources that could not be stored by the target store, with the reason why.
+   */
+  unsupported: { path: string; reason: string }[];
+  /**
+   * Resources of which the contents in the target store do not match those in the source store.
+   */
+  mismatched: string[];
+  /**
+   * Number of resources found in the target store after the migration.
+   */
+  targetTotal: number;
+}
+
+/**
+ * Copies all resources, including auxiliary resources and metadata, from one {@link ResourceStore} to another.
+ * This can be used to move all data from one backend to another.
+ *
+ * After a resource has been copied, it is read again from both stores to verify they have the same contents.
+ * Binary documents are compared by hashing their content type and data.
+ * RDF documents are compared by hashing their sorted quads, ignoring blank node labels,
+ * as different backends can serialize the same data differently.
+ * Containers only need to exist in both stores.
+ *
+ * Verified resources are added to the progress storage.
+ * In case the migration fails, it can be resumed by running it again with the same progress storage.
+ *
+ * Resources the target store rejects, such as binary documents for a SPARQL backend,
+ * are added to the report instead of stopping the migration.
+ */
+export class StorageMigrator {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly source: ResourceStore;
+  private readonly target: ResourceStore;
+  private readonly auxiliaryStrategy: AuxiliaryStrategy;
+  private readonly metadataStrategy: AuxiliaryStrategy;
+  private readonly converter: RepresentationConverter;
+  private readonly progress: KeyValueStorage<string, string>;
+  private readonly hiddenPaths: string[];
+  private readonly ignoredPaths: RegExp[];
+
+  public constructor(args: StorageMigratorArgs) {
+    this.source = args.source;
+    this.target = args.target;
+    this.auxiliaryStrategy = args.auxiliaryStrategy;
+    this.metadataStrategy = args.metadataStrategy;
+    this.converter = args.converter;
+    this.progress = args.progress;
+    this.hiddenPaths = args.hiddenPaths ?? [];
+    this.ignoredPaths = (args.ignoredPaths ?? []).map((path): RegExp => new RegExp(path, 'u'));
+  }
+
+  /**
+   * Migrates the given container and all its descendants.
+   *
+   * @param root - Root container of the resources that need to be migrated.
+   */
+  public async migrate(root: ResourceIdentifier): Promise<MigrationReport> {
+    const report: MigrationReport =
+      { total: 0, copied: 0, resumed: 0, unsupported: [], mismatched: [], targetTotal: 0 };
+    await this.migrateResource(root, root, report);
+    for (const hidden of this.getHiddenIdentifiers(root)) {
+      if (await this.source.hasResource(hidden)) {
+        await this.migrateResource(root, hidden, report);
+      }
+    }
+
+    report.targetTotal = await this.countResources(root, root);
+    for (const hidden of this.getHiddenIdentifiers(root)) {
+      report.targetTotal += await this.countResources(root, hidden);
+    }
+    this.logger.info(`Migrated ${report.copied} resources, ${report.resumed} were migrated before`);
+    return report;
+  }
+
+  /**
+   * Migrates the given resource, its auxiliary resources, and all its descendants in case of a container.
+   */
+  private async migrateResource(root: ResourceIdentifier, identifier: ResourceIdentifier, report: MigrationReport):
+  Promise<void> {
+    if (this.isIgnored(root, identifier)) {
+      return;
+    }
+    const representation = await this.source.getRepresentation(identifier, {});
+    const children = isContainerIdentifier(identifier) ?
+      representation.metadata.getAll(LDP.terms.contains).map((child): string => child.value)
+        .sort((left, right): number => left.localeCompare(right)) :
+      [];
+    await this.migrateRepresentation(identifier, representation, report);
+
+    if (!this.auxiliaryStrategy.isAuxiliaryIdentifier(identifier)) {
+      for (const auxiliary of this.auxiliaryStrategy.getAuxiliaryIdentifiers(identifier)) {
+        // Auxiliary containers are only used to hide containers, which are handled as hidden paths
+        if (this.metadataStrategy.isAuxiliaryIdentifier(auxiliary) || isContainerIdentifier(auxiliary)) {
+          continue;
+        }
+        let auxiliaryRepresentation: Representation;
+        try {
+          auxiliaryRepresentation = await this.source.getRepresentation(auxiliary, {});
+        } catch (error: unknown) {
+          if (NotFoundHttpError.isInstance(error)) {
+            continue;
+          }
+          throw error;
+        }
+        await this.migrateRepresentation(auxiliary, auxiliaryRepresentation, report);
+      }
+    }
+
+    for (const child of children) {
+      await this.migrateResource(root, { path: child }, report);
+    }
+  }
+
+  /**
+   * Writes the given representation to the target store and verifies the result.
+   */
+  private async migrateRepresentation(identifier: ResourceIdentifier, representation: Representation,
+    report: MigrationReport): Promise<void> {
+    report.total += 1;
+    if (await this.progress.has(identifier.path)) {
+      representation.data.destroy();
+      report.resumed += 1;
+      return;
+    }
+
+    try {
+      await this.write(identifier, representation);
+    } catch (error: unknown) {
+      if (BadRequestHttpError.isInstance(error) || NotImplementedHttpError.isInstance(error) ||
+        UnsupportedMediaTypeHttpError.isInstance(error)) {
+        const reason = createErrorMessage(error);
+        this.logger.warn(`Unable to migrate ${identifier.path}: ${reason}`);
+        report.unsupported.push({ path: identifier.path, reason });
+        return;
+      }
+      throw error;
+    }
+
+    const hash = await this.getHash(this.source, identifier);
+    const targetHash = await this.getHash(this.target, identifier);
+    if (hash !== targetHash) {
+      this.logger.error(`The migrated contents of ${identifier.path} do not match the original contents`);
+      report.mismatched.push(identifier.path);
+      return;
+    }
+    await this.progress.set(identifier.path, hash);
+    report.copied += 1;
+  }
+
+  /**
+   * Writes the representation to the target store.
+   * Existing containers can not be overwritten, so their metadata is written to their description resource instead.
+   */
+  private async write(identifier: ResourceIdentifier, representation: Representation): Promise<void> {
+    if (!isContainerIdentifier(identifier)) {
+      await this.target.setRepresentation(identifier, representation);
+      return;
+    }
+
+    representation.data.destroy();
+    // Container metadata also contains generated metadata about the children, which should not be copied
+    const metadata = new RepresentationMetadata(identifier);
+    metadata.addQuads(representation.metadata.quads(metadata.identifier)
+      .filter((entry): boolean => !entry.graph.equals(SOLID_META.terms.ResponseMetadata)));
+    // Containers have no body, so a content type would cause a warning when they are created
+    metadata.contentType = undefined;
+
+    if (await this.target.hasResource(identifier)) {
+      const metadataIdentifier = this.metadataStrategy.getAuxiliaryIdentifier(identifier);
+      await this.target.setRepresentation(metadataIdentifier,
+        new BasicRepresentation(metadata.quads(), metadataIdentifier, INTERNAL_QUADS));
+    } else {
+      await this.target.setRepresentation(identifier, new BasicRepresentation([], metadata));
+    }
+  }
+
+  /**
+   * Generates a hash of the contents of the resource in the given store.
+   * Returns an empty string if the resource does not exist.
+   */
+  private async getHash(store: ResourceStore, identifier: ResourceIdentifier): Promise<string> {
+    let representation: Representation;
+    try {
+      representation = await store.getRepresentation(identifier, {});
+    } catch (error: unknown) {
+      if (NotFoundHttpError.isInstance(error)) {
+        return '';
+      }
+      throw error;
+    }
+
+    const hash = createHash('sha256');
+    if (isContainerIdentifier(identifier)) {
+      representation.data.destroy();
+      return hash.digest('hex');
+    }
+
+    const chunks: (Buffer | string)[] = await arrayifyStream(representation.data);
+    const data = Buffer.concat(chunks.map((chunk): Buffer => Buffer.from(chunk)));
+    const quads = await this.parseQuads(identifier, new BasicRepresentation([ data ], representation.metadata));
+    if (quads) {
+      hash.update(await this.normalizeQuads(quads));
+    } else {
+      hash.update(`${representation.metadata.contentType}\n`);
+      hash.update(data);
+    }
+    return hash.digest('hex');
+  }
+
+  /**
+   * Parses the representation data if it is RDF.
+   * Returns `undefined` if it is not RDF or if it could not be parsed.
+   */
+  private async parseQuads(identifier: ResourceIdentifier, representation: Representation):
+  Promise<Quad[] | undefined> {
+    const args = { identifier, representation, preferences: { type: { [INTERNAL_QUADS]: 1 }}};
+    try {
+      await this.converter.canHandle(args);
+    } catch {
+      return;
+    }
+    try {
+      return await arrayifyStream((await this.converter.handle(args)).data);
+    } catch (error: unknown) {
+      this.logger.warn(`Unable to parse ${identifier.path}, comparing its data instead: ${createErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Serializes the quads as sorted N-Quads in which all blank nodes have the same label.
+   */
+  private async normalizeQuads(quads: Quad[]): Promise<string> {
+    const normalized = quads.map((entry): Quad => quad(
+      this.normalizeTerm(entry.subject),
+      entry.predicate,
+      this.normalizeTerm(entry.object),
+      this.normalizeTerm(entry.graph),
+    ));
+    const lines = (await readableToString(serializeQuads(normalized, 'application/n-quads'))).split('\n');
+    return lines.sort((left, right): number => left.localeCompare(right)).join('\n');
+  }
+
+  /**
+   * Replaces blank nodes by a blank node with a fixed label.
+   */
+  private normalizeTerm<T extends Term>(term: T): T | BlankNode {
+    return term.termType === 'BlankNode' ? blankNode('b') : term;
+  }
+
+  /**
+   * Counts the given resource, its auxiliary resources, and all its descendants in the target store.
+   */
+  private async countResources(root: ResourceIdentifier, identifier: ResourceIdentifier): Promise<number> {
+    if (this.isIgnored(root, identifier)) {
+      return 0;
+    }
+    let representation: Representation;
+    try {
+      representation = await this.target.getRepresentation(identifier, {});
+    } catch (error: unknown) {
+      if (NotFoundHttpError.isInstance(error)) {
+        return 0;
+      }
+      throw error;
+    }
+    representation.data.destroy();
+
+    let count = 1;
+    if (!this.auxiliaryStrategy.isAuxiliaryIdentifier(identifier)) {
+      for (const auxiliary of this.auxiliaryStrategy.getAuxiliaryIdentifiers(identifier)) {
+        if (!this.metadataStrategy.isAuxiliaryIdentifier(auxiliary) && !isContainerIdentifier(auxiliary) &&
+          await this.target.hasResource(auxiliary)) {
+          count += 1;
+        }
+      }
+    }
+    if (isContainerIdentifier(identifier)) {
+      for (const child of representation.metadata.getAll(LDP.terms.contains)) {
+        count += await this.countResources(root, { path: child.value });
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Generates the identifiers of the hidden containers in the given root container.
+   */
+  private getHiddenIdentifiers(root: ResourceIdentifier): ResourceIdentifier[] {
+    return this.hiddenPaths.map((path): ResourceIdentifier =>
+      ({ path: ensureTrailingSlash(`${root.path}${trimLeadingSlashes(path)}`) }));
+  }
+
+  /**
+   * Checks if the given identifier matches one of the ignored paths.
+   */
+  private isIgnored(root: ResourceIdentifier, identifier: ResourceIdentifier): boolean {
+    // We want to keep the leading slash
+    const relative = identifier.path.slice(root.path.length - 1);
+    return this.ignoredPaths.some((regex): boolean => regex.test(relative));
+  }
+}
@@ -0,0 +1,39 @@
+import type { Quad } from '@rdfjs/types';
+import { DataFactory } from 'n3';
+import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
+import { StorageDescriber } from '../../server/description/StorageDescriber';
+import { toLiteral } from '../../util/TermUtil';
+import { SOLID_QUOTA, XSD } from '../../util/Vocabularies';
+import type { QuotaStrategy } from './QuotaStrategy';
+import literal = DataFactory.literal;
+import namedNode = DataFactory.namedNode;
+import quad = DataFactory.quad;
+
+/**
+ * Adds the quota limit, and the space that is used and still available, to the storage description.
+ * Nothing is added if the quota does not apply to the storage.
+ */
+export class QuotaStorageDescriber extends StorageDescriber {
+  private readonly strategy: QuotaStrategy;
+
+  public constructor(strategy: QuotaStrategy) {
+    super();
+    this.strategy = strategy;
+  }
+
+  public async handle(identifier: ResourceIdentifier): Promise<Quad[]> {
+    const used = await this.strategy.getUsedSpace(identifier);
+    if (!used) {
+      return [];
+    }
+    const { limit } = this.strategy;
+    const available = Math.max(limit.amount - used.amount, 0);
+    const subject = namedNode(identifier.path);
+    return [
+      quad(subject, SOLID_QUOTA.terms.limit, toLiteral(limit.amount, XSD.terms.integer)),
+      quad(subject, SOLID_QUOTA.terms.used, toLiteral(used.amount, XSD.terms.integer)),
+      quad(subject, SOLID_QUOTA.terms.available, toLiteral(available, XSD.terms.integer)),
+      quad(subject, SOLID_QUOTA.terms.unit, literal(limit.unit)),
+    ];
+  }
+}
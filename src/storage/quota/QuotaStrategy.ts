@@ -1,7 +1,6 @@
-// These two eslint lines are needed to store 'this' in a variable so it can be used
+// This eslint line is needed to store the members of 'this' in variables so they can be used
 // in the PassThrough of createQuotaGuard
 /* eslint-disable @typescript-eslint/no-this-alias */
-/* eslint-disable consistent-this */
 import { PassThrough } from 'stream';
 import type { RepresentationMetadata } from '../../http/representation/RepresentationMetadata';
 import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
@@ -54,6 +53,18 @@ export abstract class QuotaStrategy {
     };
   }
 
+  /**
+   * Get the space used by the resources the quota of the given identifier applies to.
+   * In contrast to {@link getAvailableSpace}, the space taken up by the resource itself is not deducted.
+   *
+   * @param identifier - the identifier of which the quota usage should be determined
+   * @returns a Size object containing the used space, or undefined if no quota applies to the identifier
+   */
+  public async getUsedSpace(identifier: ResourceIdentifier): Promise<Size | undefined> {
+    const totalUsed = await this.getTotalSpaceUsed(identifier);
+    return totalUsed.amount === Number.MAX_SAFE_INTEGER ? undefined : totalUsed;
+  }
+
   /**
    * Get the currently used/occupied space.
    *
@@ -78,22 +89,29 @@ export abstract class QuotaStrategy {
    * Get a Passthrough stream that will keep track of the available space.
    * If the quota is exceeded the stream will emit an error and destroy itself.
    * Like other Passthrough instances this will simply pass on the chunks, when the quota isn't exceeded.
+   * The available space is only determined once, after which the size of the chunks is compared to it.
    *
    * @param identifier - the identifier of the resource in question
+   * @param availableSpace - the available space, in case it is already known
+   * @param objectMode - if the data stream consists of objects instead of binary data, such as quads
    * @returns a Passthrough instance that errors when quota is exceeded
    */
-  public async createQuotaGuard(identifier: ResourceIdentifier): Promise<Guarded<PassThrough>> {
+  public async createQuotaGuard(identifier: ResourceIdentifier, availableSpace?: Size, objectMode = false):
+  Promise<Guarded<PassThrough>> {
     let total = 0;
-    const strategy = this;
     const { reporter } = this;
+    const createQuotaError = this.createQuotaError.bind(this);
+    const { amount, unit } = availableSpace ?? await this.getAvailableSpace(identifier);
 
     return guardStream(new PassThrough({
+      objectMode,
       async transform(this, chunk: any, enc: string, done: () => void): Promise<void> {
         total += await reporter.calculateChunkSize(chunk);
-        const availableSpace = await strategy.getAvailableSpace(identifier);
-        if (availableSpace.amount < total) {
-          this.destroy(new PayloadHttpError(
-            `Quota exceeded by ${total - availableSpace.amount} ${availableSpace.unit} during write`,
+        if (amount < total) {
+          this.destroy(createQuotaError(
+            `Quota exceeded by ${total - amount} ${unit} during write`,
+            { amount, unit },
+            { amount: total, unit },
           ));
         }
 
@@ -102,4 +120,24 @@ export abstract class QuotaStrategy {
       },
     }));
   }
+
+  /**
+   * Creates the error that indicates the quota would be exceeded.
+   * The error details describe the limit so clients know how much space is left.
+   *
+   * @param message - describes how the quota was exceeded
+   * @param available - the space that was available before writing
+   * @param size - the size of the data that was being written, if known
+   * @returns a PayloadHttpError with the quota details
+   */
+  public createQuotaError(message: string, available: Size, size?: Size): PayloadHttpError {
+    return new PayloadHttpError(`${message}. The quota limit is ${this.limit.amount} ${this.limit.unit}.`, {
+      details: {
+        limit: this.limit.amount,
+        available: Math.max(available.amount, 0),
+        size: size?.amount,
+        unit: this.limit.unit,
+      },
+    });
+  }
 }
@@ -0,0 +1,99 @@
+import type { RepresentationMetadata } from '../../http/representation/RepresentationMetadata';
+import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
+import { NotFoundHttpError } from '../../util/errors/NotFoundHttpError';
+import { isContainerIdentifier, trimTrailingSlashes } from '../../util/PathUtil';
+import type { DataAccessor } from '../accessors/DataAccessor';
+import type { Size } from './Size';
+import type { SizeReporter } from './SizeReporter';
+
+/**
+ * SizeReporter that determines the size of resources by going through a {@link DataAccessor},
+ * so it can be used with any backend.
+ * The size of a container is its own size combined with the size of all its descendants.
+ *
+ * Implementations define how the size of a single resource is calculated.
+ */
+export abstract class AccessorSizeReporter implements SizeReporter<any> {
+  protected readonly accessor: DataAccessor;
+  private readonly baseUrl: string;
+  private readonly ignoreFolders: RegExp[];
+
+  /**
+   * @param accessor - Accessor used to find the resources.
+   * @param baseUrl - Base URL of the server, used to determine the relative paths the ignored folders are matched to.
+   * @param ignoreFolders - Regular expressions of relative container paths, without trailing slash,
+   *                        of which the contents should not be counted.
+   */
+  public constructor(accessor: DataAccessor, baseUrl: string, ignoreFolders?: string[]) {
+    this.accessor = accessor;
+    this.baseUrl = trimTrailingSlashes(baseUrl);
+    this.ignoreFolders = ignoreFolders ? ignoreFolders.map((folder: string): RegExp => new RegExp(folder, 'u')) : [];
+  }
+
+  public abstract getUnit(): string;
+
+  public abstract calculateChunkSize(chunk: any): Promise<number>;
+
+  public abstract estimateSize(metadata: RepresentationMetadata): Promise<number | undefined>;
+
+  /**
+   * Returns the size of the given resource and its children.
+   * Resources that do not exist, or that are in an ignored folder, have size 0.
+   */
+  public async getSize(identifier: ResourceIdentifier): Promise<Size> {
+    const amount = this.isIgnored(identifier) ? 0 : await this.getTotalSize(identifier);
+    return { unit: this.getUnit(), amount };
+  }
+
+  /**
+   * Calculates the size of a single resource, not taking into account the children in case of a container.
+   *
+   * @param identifier - Identifier of the resource.
+   * @param metadata - Metadata of the resource as returned by the accessor.
+   */
+  protected abstract getResourceSize(identifier: ResourceIdentifier, metadata: RepresentationMetadata):
+  Promise<number>;
+
+  /**
+   * Adds the sizes of the resource and all its descendants that are not ignored.
+   */
+  private async getTotalSize(identifier: ResourceIdentifier): Promise<number> {
+    let metadata: RepresentationMetadata;
+    try {
+      metadata = await this.accessor.getMetadata(identifier);
+    } catch (error: unknown) {
+      if (NotFoundHttpError.isInstance(error)) {
+        return 0;
+      }
+      throw error;
+    }
+
+    let total = await this.getResourceSize(identifier, metadata);
+    if (isContainerIdentifier(identifier)) {
+      for await (const child of this.accessor.getChildren(identifier)) {
+        const childIdentifier = { path: child.identifier.value };
+        if (!this.isIgnored(childIdentifier)) {
+          total += await this.getTotalSize(childIdentifier);
+        }
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Checks if the given resource, or one of the containers it is part of, is ignored.
+   */
+  private isIgnored(identifier: ResourceIdentifier): boolean {
+    if (!identifier.path.startsWith(this.baseUrl)) {
+      return false;
+    }
+    const parts = trimTrailingSlashes(identifier.path.slice(this.baseUrl.length)).split('/');
+    for (let i = 2; i <= parts.length; ++i) {
+      const path = parts.slice(0, i).join('/');
+      if (this.ignoreFolders.some((folder: RegExp): boolean => folder.test(path))) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
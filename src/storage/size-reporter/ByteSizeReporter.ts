@@ -0,0 +1,46 @@
+import type { RepresentationMetadata } from '../../http/representation/RepresentationMetadata';
+import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
+import { isContainerIdentifier } from '../../util/PathUtil';
+import { POSIX } from '../../util/Vocabularies';
+import { AccessorSizeReporter } from './AccessorSizeReporter';
+import { UNIT_BYTES } from './Size';
+
+/**
+ * SizeReporter that calculates the size of binary documents in bytes for any backend,
+ * such as the {@link InMemoryDataAccessor}.
+ *
+ * In case the accessor adds the size of a document to its metadata, that value is used.
+ * Otherwise, the data of the document is read to determine its size.
+ * Containers themselves have size 0.
+ */
+export class ByteSizeReporter extends AccessorSizeReporter {
+  public getUnit(): string {
+    return UNIT_BYTES;
+  }
+
+  public async calculateChunkSize(chunk: string | Buffer): Promise<number> {
+    return Buffer.byteLength(chunk);
+  }
+
+  /** The estimated size of a resource in this reporter is simply the content-length header */
+  public async estimateSize(metadata: RepresentationMetadata): Promise<number | undefined> {
+    return metadata.contentLength;
+  }
+
+  protected async getResourceSize(identifier: ResourceIdentifier, metadata: RepresentationMetadata): Promise<number> {
+    if (isContainerIdentifier(identifier)) {
+      return 0;
+    }
+
+    const size = metadata.get(POSIX.terms.size);
+    if (size) {
+      return Number(size.value);
+    }
+
+    let total = 0;
+    for await (const chunk of await this.accessor.getData(identifier)) {
+      total += await this.calculateChunkSize(chunk);
+    }
+    return total;
+  }
+}
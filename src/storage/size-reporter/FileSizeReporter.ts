@@ -28,12 +28,14 @@ export class FileSizeReporter implements SizeReporter<string> {
   }
 
   /**
-   * Returns the size of the given resource ( and its children ) in bytes
+   * Returns the size of the given resource ( and its children ) in bytes.
+   * Resources in an ignored folder have size 0.
    */
   public async getSize(identifier: ResourceIdentifier): Promise<Size> {
     const fileLocation = (await this.fileIdentifierMapper.mapUrlToFilePath(identifier, false)).filePath;
+    const amount = this.isIgnored(normalizeFilePath(fileLocation)) ? 0 : await this.getTotalSize(fileLocation);
 
-    return { unit: this.getUnit(), amount: await this.getTotalSize(fileLocation) };
+    return { unit: this.getUnit(), amount };
   }
 
   public async calculateChunkSize(chunk: string): Promise<number> {
@@ -45,6 +47,21 @@ export class FileSizeReporter implements SizeReporter<string> {
     return metadata.contentLength;
   }
 
+  /**
+   * Checks if the given location, or one of the folders containing it, is ignored.
+   */
+  private isIgnored(fileLocation: string): boolean {
+    const relative = fileLocation.slice(trimTrailingSlashes(this.rootFilePath).length);
+    const parts = trimTrailingSlashes(relative).split('/');
+    for (let i = 2; i <= parts.length; ++i) {
+      const path = parts.slice(0, i).join('/');
+      if (this.ignoreFolders.some((folder: RegExp): boolean => folder.test(path))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
   /**
    * Get the total size of a resource and its children if present
    *
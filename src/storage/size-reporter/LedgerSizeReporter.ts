@@ -0,0 +1,230 @@
+import type { NamedNode } from '@rdfjs/types';
+import type { RepresentationMetadata } from '../../http/representation/RepresentationMetadata';
+import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
+import { getLoggerFor } from '../../logging/LogUtil';
+import { createErrorMessage } from '../../util/errors/ErrorUtil';
+import type { IdentifierStrategy } from '../../util/identifiers/IdentifierStrategy';
+import type { ReadWriteLocker } from '../../util/locking/ReadWriteLocker';
+import { isContainerIdentifier } from '../../util/PathUtil';
+import { AS } from '../../util/Vocabularies';
+import type { KeyValueStorage } from '../keyvalue/KeyValueStorage';
+import type { Size } from './Size';
+import type { SizeReporter } from './SizeReporter';
+
+export interface LedgerSizeReporterArgs {
+  /**
+   * Reporter used to determine the actual sizes of resources.
+   */
+  source: SizeReporter<any>;
+  /**
+   * Storage in which the ledger is persisted.
+   * Should not write through the store that emits the change events, or through a store that validates the quota,
+   * as that would cause infinite loops.
+   */
+  storage: KeyValueStorage<string, number>;
+  /**
+   * Locker used to prevent concurrent updates of the same ledger entry, even if there are multiple workers.
+   */
+  locker: ReadWriteLocker;
+  /**
+   * Used to find the containers a resource is part of.
+   */
+  identifierStrategy: IdentifierStrategy;
+}
+
+/**
+ * A {@link SizeReporter} that keeps track of the sizes of resources in a ledger,
+ * so the size of a container does not have to be determined by going through all its descendants every time.
+ *
+ * The ledger contains two kinds of entries:
+ * the total size of every container a size was requested for, such as the pod containers when using pod quota,
+ * and the size of every document that changed since the ledger was enabled.
+ * Container totals are only calculated by the source reporter the first time they are needed.
+ * Afterwards, they get updated incrementally by calling `update` for every resource that changes,
+ * by comparing the new size of a document with the size that was stored in the ledger.
+ *
+ * In case it is unknown how much a change impacts the totals,
+ * such as when creating or deleting a container, or changing a document that is not in the ledger yet,
+ * the totals containing that resource are removed, so they get recalculated the next time they are needed.
+ * Changes that happen outside of the server, or that are not reflected in the size of a document,
+ * such as changing the metadata of a container, can cause the ledger to become incorrect.
+ * Calling `reconcile` recalculates all entries of the ledger to solve this.
+ */
+export class LedgerSizeReporter implements SizeReporter<any> {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly source: SizeReporter<any>;
+  private readonly storage: KeyValueStorage<string, number>;
+  private readonly locker: ReadWriteLocker;
+  private readonly identifierStrategy: IdentifierStrategy;
+  private readonly pending = new Set<Promise<void>>();
+
+  public constructor(args: LedgerSizeReporterArgs) {
+    this.source = args.source;
+    this.storage = args.storage;
+    this.locker = args.locker;
+    this.identifierStrategy = args.identifierStrategy;
+  }
+
+  public getUnit(): string {
+    return this.source.getUnit();
+  }
+
+  /**
+   * Returns the total from the ledger in case of a container, calculating and storing it if it is not known yet.
+   * The size of documents is always determined by the source reporter.
+   * Waits until all pending updates are applied first,
+   * as otherwise those could be counted twice in case the total gets calculated.
+   */
+  public async getSize(identifier: ResourceIdentifier): Promise<Size> {
+    if (!isContainerIdentifier(identifier)) {
+      return this.source.getSize(identifier);
+    }
+
+    while (this.pending.size > 0) {
+      await Promise.allSettled(this.pending);
+    }
+
+    const total = await this.storage.get(identifier.path);
+    if (typeof total === 'number') {
+      return { unit: this.getUnit(), amount: total };
+    }
+
+    this.logger.debug(`Calculating the total size of ${identifier.path}`);
+    const size = await this.source.getSize(identifier);
+    await this.locker.withWriteLock(this.getLockKey(identifier.path), async(): Promise<void> => {
+      await this.storage.set(identifier.path, size.amount);
+    });
+    return size;
+  }
+
+  public async calculateChunkSize(chunk: any): Promise<number> {
+    return this.source.calculateChunkSize(chunk);
+  }
+
+  public async estimateSize(metadata: RepresentationMetadata): Promise<number | undefined> {
+    return this.source.estimateSize(metadata);
+  }
+
+  /**
+   * Updates the ledger after the given resource changed.
+   *
+   * @param identifier - Identifier of the resource that changed.
+   * @param activity - The kind of change that happened.
+   */
+  public async update(identifier: ResourceIdentifier, activity?: NamedNode): Promise<void> {
+    const promise = this.applyUpdate(identifier, activity);
+    const remove = (): void => {
+      this.pending.delete(promise);
+    };
+    this.pending.add(promise);
+    promise.then(remove, remove);
+    return promise;
+  }
+
+  /**
+   * Applies the changes to the ledger caused by the given resource changing.
+   */
+  private async applyUpdate(identifier: ResourceIdentifier, activity?: NamedNode): Promise<void> {
+    if (isContainerIdentifier(identifier)) {
+      // Changes of the contents of containers are handled through the changes of their children
+      if (activity && (activity.equals(AS.terms.Create) || activity.equals(AS.terms.Delete))) {
+        await this.invalidate(identifier);
+      }
+      return;
+    }
+
+    await this.locker.withWriteLock(this.getLockKey(identifier.path), async(): Promise<void> => {
+      const isDeleted = activity?.equals(AS.terms.Delete);
+      const size = isDeleted ? 0 : (await this.source.getSize(identifier)).amount;
+      const previous = await this.storage.get(identifier.path) ?? (activity?.equals(AS.terms.Create) ? 0 : undefined);
+
+      if (typeof previous === 'number') {
+        await this.addToTotals(identifier, size - previous);
+      } else {
+        await this.invalidate(identifier);
+      }
+
+      if (isDeleted) {
+        await this.storage.delete(identifier.path);
+      } else if (size !== previous) {
+        await this.storage.set(identifier.path, size);
+      }
+    });
+  }
+
+  /**
+   * Recalculates all entries of the ledger with the source reporter.
+   */
+  public async reconcile(): Promise<void> {
+    this.logger.info('Recalculating the quota ledger');
+    const paths: string[] = [];
+    for await (const [ path ] of this.storage.entries()) {
+      paths.push(path);
+    }
+
+    for (const path of paths) {
+      try {
+        await this.locker.withWriteLock(this.getLockKey(path), async(): Promise<void> => {
+          const size = await this.source.getSize({ path });
+          await this.storage.set(path, size.amount);
+        });
+      } catch (error: unknown) {
+        // Can happen if the storage could not store the key as is, e.g., because it was too long
+        this.logger.warn(`Unable to recalculate the ledger entry for ${path}: ${createErrorMessage(error)}`);
+      }
+    }
+  }
+
+  /**
+   * Adds the given amount to the totals of all the containers the resource is part of.
+   */
+  private async addToTotals(identifier: ResourceIdentifier, amount: number): Promise<void> {
+    if (amount === 0) {
+      return;
+    }
+    for (const container of this.getContainers(identifier)) {
+      await this.locker.withWriteLock(this.getLockKey(container.path), async(): Promise<void> => {
+        const total = await this.storage.get(container.path);
+        if (typeof total === 'number') {
+          await this.storage.set(container.path, total + amount);
+        }
+      });
+    }
+  }
+
+  /**
+   * Removes the totals of all the containers the resource is part of, and of the resource itself.
+   */
+  private async invalidate(identifier: ResourceIdentifier): Promise<void> {
+    const containers = isContainerIdentifier(identifier) ?
+      [ identifier, ...this.getContainers(identifier) ] :
+      this.getContainers(identifier);
+    for (const container of containers) {
+      await this.locker.withWriteLock(this.getLockKey(container.path), async(): Promise<void> => {
+        if (await this.storage.delete(container.path)) {
+          this.logger.debug(`Removed the total size of ${container.path} after ${identifier.path} changed`);
+        }
+      });
+    }
+  }
+
+  /**
+   * Returns all the containers the resource is part of.
+   */
+  private getContainers(identifier: ResourceIdentifier): ResourceIdentifier[] {
+    const containers: ResourceIdentifier[] = [];
+    while (!this.identifierStrategy.isRootContainer(identifier)) {
+      identifier = this.identifierStrategy.getParentContainer(identifier);
+      containers.push(identifier);
+    }
+    return containers;
+  }
+
+  /**
+   * Generates the identifier that is used to lock a ledger entry.
+   */
+  private getLockKey(path: string): ResourceIdentifier {
+    return { path: `${path}.quota-ledger` };
+  }
+}
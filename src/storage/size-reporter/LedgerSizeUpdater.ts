@@ -0,0 +1,96 @@
+import type { EventEmitter } from 'events';
+import type { NamedNode } from '@rdfjs/types';
+import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
+import type { Finalizable } from '../../init/final/Finalizable';
+import { Initializer } from '../../init/Initializer';
+import { getLoggerFor } from '../../logging/LogUtil';
+import { createErrorMessage } from '../../util/errors/ErrorUtil';
+import { setSafeInterval } from '../../util/TimerUtil';
+import type { LedgerSizeReporter } from './LedgerSizeReporter';
+
+export interface LedgerSizeUpdaterArgs {
+  /**
+   * The ledger to keep up to date.
+   */
+  reporter: LedgerSizeReporter;
+  /**
+   * Emits the `changed` events of the resources, usually a {@link MonitoringStore}.
+   */
+  emitter: EventEmitter;
+  /**
+   * If the ledger should be reconciled when the server starts.
+   * Defaults to false.
+   */
+  reconcile?: boolean;
+  /**
+   * How often the ledger is reconciled in the background, in milliseconds.
+   * Setting this to 0 disables the background reconciliation.
+   * Defaults to 0.
+   */
+  interval?: number;
+}
+
+/**
+ * Updates a {@link LedgerSizeReporter} with all the changes emitted by the given {@link EventEmitter}.
+ * Only the changes of the current process are handled, so every change is only applied once.
+ *
+ * When used as an initializer, reconciles the ledger on startup if configured to do so,
+ * and starts reconciling the ledger in the background in case an interval is set.
+ * When finalized, stops reconciling and waits until all pending updates are finished.
+ */
+export class LedgerSizeUpdater extends Initializer implements Finalizable {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly reporter: LedgerSizeReporter;
+  private readonly reconcile: boolean;
+  private readonly interval: number;
+  private readonly pending = new Set<Promise<void>>();
+  private timer?: NodeJS.Timeout;
+
+  public constructor(args: LedgerSizeUpdaterArgs) {
+    super();
+    this.reporter = args.reporter;
+    this.reconcile = args.reconcile ?? false;
+    this.interval = args.interval ?? 0;
+
+    args.emitter.on('changed', (topic: ResourceIdentifier, activity?: NamedNode): void => {
+      this.track(this.reporter.update(topic, activity).catch((error): void => {
+        this.logger.error(`Unable to update the quota ledger for ${topic.path}: ${createErrorMessage(error)}`);
+      }));
+    });
+  }
+
+  public async handle(): Promise<void> {
+    if (this.reconcile) {
+      await this.reporter.reconcile();
+    }
+
+    if (this.interval > 0 && !this.timer) {
+      this.timer = setSafeInterval(this.logger,
+        'Failed to reconcile the quota ledger',
+        this.reporter.reconcile.bind(this.reporter),
+        this.interval);
+    }
+  }
+
+  public async finalize(): Promise<void> {
+    clearInterval(this.timer);
+    this.timer = undefined;
+
+    while (this.pending.size > 0) {
+      await Promise.all(this.pending);
+    }
+  }
+
+  /**
+   * Keeps track of the given promise until it resolves.
+   * The promise should never reject.
+   */
+  private track(promise: Promise<void>): void {
+    const remove = (): void => {
+      this.pending.delete(promise);
+    };
+    this.pending.add(promise);
+    promise.then(remove, remove);
+  }
+}
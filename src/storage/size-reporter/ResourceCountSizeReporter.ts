@@ -0,0 +1,29 @@
+import { AccessorSizeReporter } from './AccessorSizeReporter';
+import { UNIT_RESOURCES } from './Size';
+
+/**
+ * SizeReporter that counts the number of resources, so a quota can limit how many resources can be stored.
+ * Every resource has size 1, so the size of a container is the number of resources it contains plus 1.
+ *
+ * Writing data does not change the number of resources,
+ * so instead every write is estimated to create 1 new resource.
+ * The containers that get created in case a resource is written in a container that does not exist yet
+ * are not taken into account when validating the write.
+ */
+export class ResourceCountSizeReporter extends AccessorSizeReporter {
+  public getUnit(): string {
+    return UNIT_RESOURCES;
+  }
+
+  public async calculateChunkSize(): Promise<number> {
+    return 0;
+  }
+
+  public async estimateSize(): Promise<number> {
+    return 1;
+  }
+
+  protected async getResourceSize(): Promise<number> {
+    return 1;
+  }
+}
@@ -7,3 +7,5 @@ export interface Size {
 }
 
 export const UNIT_BYTES = 'bytes';
+export const UNIT_RESOURCES = 'resources';
+export const UNIT_TRIPLES = 'triples';
@@ -0,0 +1,146 @@
+import arrayifyStream from 'arrayify-stream';
+import { SparqlEndpointFetcher } from 'fetch-sparql-endpoint';
+import { DataFactory } from 'n3';
+import type { Literal } from 'rdf-js';
+import type {
+  AggregateExpression,
+  Expression,
+  GraphPattern,
+  IriTerm,
+  Pattern,
+  SelectQuery,
+  SparqlGenerator,
+} from 'sparqljs';
+import { Generator } from 'sparqljs';
+import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
+import { getLoggerFor } from '../../logging/LogUtil';
+import { createErrorMessage } from '../../util/errors/ErrorUtil';
+import { isContainerIdentifier } from '../../util/PathUtil';
+import type { Size } from './Size';
+import { UNIT_TRIPLES } from './Size';
+import type { SizeReporter } from './SizeReporter';
+
+const { literal, namedNode, quad, variable } = DataFactory;
+
+/**
+ * SizeReporter that counts the number of triples stored for resources in a SPARQL backend,
+ * as used by the {@link SparqlDataAccessor}.
+ * Only the data triples of documents are counted, metadata and containment triples are not.
+ *
+ * Since all data written to the backend consists of quads, every chunk has size 1.
+ */
+export class SparqlSizeReporter implements SizeReporter<unknown> {
+  protected readonly logger = getLoggerFor(this);
+  private readonly endpoint: string;
+  private readonly fetcher: SparqlEndpointFetcher;
+  private readonly generator: SparqlGenerator;
+
+  public constructor(endpoint: string) {
+    this.endpoint = endpoint;
+    this.fetcher = new SparqlEndpointFetcher();
+    this.generator = new Generator();
+  }
+
+  public getUnit(): string {
+    return UNIT_TRIPLES;
+  }
+
+  /**
+   * Counts the triples in the graph of a document,
+   * or in the graphs of all the documents in a container.
+   */
+  public async getSize(identifier: ResourceIdentifier): Promise<Size> {
+    const query = isContainerIdentifier(identifier) ?
+      this.sparqlCountContainer(identifier.path) :
+      this.sparqlCountDocument(identifier.path);
+    return { unit: this.getUnit(), amount: await this.sendSparqlCount(query) };
+  }
+
+  public async calculateChunkSize(): Promise<number> {
+    return 1;
+  }
+
+  /** No estimation can be made of the amount of triples based on the metadata */
+  public async estimateSize(): Promise<number | undefined> {
+    return undefined;
+  }
+
+  /**
+   * Creates a query that counts all triples in the graph with the given name.
+   */
+  private sparqlCountDocument(path: string): SelectQuery {
+    return this.sparqlCount([ this.sparqlSelectGraph(namedNode(path)) ]);
+  }
+
+  /**
+   * Creates a query that counts all triples in the graphs of which the name starts with the given container path.
+   * Graphs of containers are excluded since those only contain containment triples.
+   */
+  private sparqlCountContainer(path: string): SelectQuery {
+    const graph: Expression = { type: 'operation', operator: 'str', args: [ variable('g') ]};
+    return this.sparqlCount([
+      // The typings do not allow variables as graph names, even though SPARQL does
+      this.sparqlSelectGraph(variable('g') as unknown as IriTerm),
+      {
+        type: 'filter',
+        expression: {
+          type: 'operation',
+          operator: '&&',
+          args: [
+            { type: 'operation', operator: 'strstarts', args: [ graph, literal(path) ]},
+            {
+              type: 'operation',
+              operator: '!',
+              args: [{ type: 'operation', operator: 'strends', args: [ graph, literal('/') ]}],
+            },
+          ],
+        },
+      },
+    ]);
+  }
+
+  /**
+   * Creates a query that counts the results of the given patterns.
+   */
+  private sparqlCount(where: Pattern[]): SelectQuery {
+    const count: AggregateExpression = {
+      type: 'aggregate',
+      aggregation: 'count',
+      distinct: false,
+      expression: variable('s'),
+    };
+    return {
+      queryType: 'SELECT',
+      variables: [{ expression: count, variable: variable('count') }],
+      where,
+      type: 'query',
+      prefixes: {},
+    };
+  }
+
+  private sparqlSelectGraph(name: IriTerm): GraphPattern {
+    return {
+      type: 'graph',
+      name,
+      patterns: [{ type: 'bgp', triples: [ quad(variable('s'), variable('p'), variable('o')) ]}],
+    };
+  }
+
+  /**
+   * Sends a SPARQL SELECT query to the endpoint and returns the resulting count.
+   * @param sparqlQuery - Query to execute.
+   */
+  private async sendSparqlCount(sparqlQuery: SelectQuery): Promise<number> {
+    const query = this.generator.stringify(sparqlQuery);
+    this.logger.debug(`Sending SPARQL SELECT query to ${this.endpoint}: ${query}`);
+    try {
+      const [ bindings ] = await arrayifyStream<Record<string, Literal>>(
+        await this.fetcher.fetchBindings(this.endpoint, query),
+      );
+      return bindings ? Number(bindings.count.value) : 0;
+    } catch (error: unknown) {
+      this.logger.error(`SPARQL endpoint ${this.endpoint} error: ${createErrorMessage(error)}`);
+      throw error;
+    }
+  }
+}
@@ -2,7 +2,6 @@ import { Readable, PassThrough } from 'stream';
 import { Validator } from '../../http/auxiliary/Validator';
 import type { ValidatorInput } from '../../http/auxiliary/Validator';
 import type { Representation } from '../../http/representation/Representation';
-import { PayloadHttpError } from '../../util/errors/PayloadHttpError';
 import type { Guarded } from '../../util/GuardedStream';
 import { guardStream } from '../../util/GuardedStream';
 import { pipeSafely } from '../../util/StreamUtil';
@@ -20,7 +19,7 @@ export class QuotaValidator extends Validator {
   }
 
   public async handle({ representation, identifier }: ValidatorInput): Promise<Representation> {
-    const { data, metadata } = representation;
+    const { data, metadata, binary } = representation;
 
     // 1. Get the available size
     const availableSize = await this.strategy.getAvailableSpace(identifier);
@@ -29,27 +28,34 @@ export class QuotaValidator extends Validator {
     const estimatedSize = await this.strategy.estimateSize(metadata);
 
     if (estimatedSize && availableSize.amount < estimatedSize.amount) {
+      const error = this.strategy.createQuotaError(
+        `Quota exceeded: Advertised Content-Length is ${estimatedSize.amount} ${estimatedSize.unit} ` +
+        `and only ${availableSize.amount} ${availableSize.unit} is available`,
+        availableSize,
+        estimatedSize,
+      );
       return {
         ...representation,
         data: guardStream(new Readable({
           read(this): void {
-            this.destroy(new PayloadHttpError(
-              `Quota exceeded: Advertised Content-Length is ${estimatedSize.amount} ${estimatedSize.unit} ` +
-              `and only ${availableSize.amount} ${availableSize.unit} is available`,
-            ));
+            this.destroy(error);
           },
         })),
       };
     }
 
     // 3. Track if quota is exceeded during writing
-    const tracking: Guarded<PassThrough> = await this.strategy.createQuotaGuard(identifier);
+    const objectMode = !binary;
+    const tracking: Guarded<PassThrough> = await this.strategy.createQuotaGuard(identifier, availableSize, objectMode);
 
     // 4. Double check quota is not exceeded after write (concurrent writing possible)
     const afterWrite = new PassThrough({
+      objectMode,
       flush: async(done): Promise<void> => {
-        const availableSpace = (await this.strategy.getAvailableSpace(identifier)).amount;
-        done(availableSpace < 0 ? new PayloadHttpError('Quota exceeded after write completed') : undefined);
+        const availableSpace = await this.strategy.getAvailableSpace(identifier);
+        done(availableSpace.amount < 0 ?
+          this.strategy.createQuotaError('Quota exceeded after write completed', availableSpace) :
+          undefined);
       },
     });
 
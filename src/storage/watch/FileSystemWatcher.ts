@@ -0,0 +1,277 @@
+import type { EventEmitter } from 'events';
+import type { NamedNode } from '@rdfjs/types';
+import type { FSWatcher } from 'chokidar';
+import { watch } from 'chokidar';
+import { lstat, utimes } from 'fs-extra';
+import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
+import type { Finalizable } from '../../init/final/Finalizable';
+import { Initializer } from '../../init/Initializer';
+import { getLoggerFor } from '../../logging/LogUtil';
+import { createErrorMessage } from '../../util/errors/ErrorUtil';
+import type { IdentifierStrategy } from '../../util/identifiers/IdentifierStrategy';
+import { isContainerIdentifier, normalizeFilePath, trimTrailingSlashes } from '../../util/PathUtil';
+import { AS } from '../../util/Vocabularies';
+import type { FileIdentifierMapper } from '../mapping/FileIdentifierMapper';
+
+export interface FileSystemWatcherArgs {
+  /**
+   * Root folder of the file backend.
+   */
+  rootFilePath: string;
+  /**
+   * The mapper that is used by the file backend.
+   */
+  mapper: FileIdentifierMapper;
+  /**
+   * Used to find the parent containers of changed resources.
+   */
+  identifierStrategy: IdentifierStrategy;
+  /**
+   * The emitter on which the changes are emitted, usually the {@link MonitoringStore}.
+   * The changes emitted by this emitter itself are ignored, as they were made by the server.
+   */
+  emitter: EventEmitter;
+  /**
+   * Regular expressions of paths, relative to the root folder, that should not be watched.
+   * Paths of folders do not end with a slash.
+   * Defaults to the folder with internal data.
+   */
+  ignoredPaths?: string[];
+  /**
+   * How long to wait for more changes to the same resource before emitting an event, in milliseconds.
+   * Defaults to 100.
+   */
+  delay?: number;
+}
+
+/**
+ * The changes to a single resource that happened within the delay.
+ */
+interface PendingChange {
+  identifier: ResourceIdentifier;
+  /**
+   * If the resource existed before the first change.
+   * Undefined if only its metadata changed.
+   */
+  existed?: boolean;
+  start: number;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Watches the data folder of a file backend for changes made by other tools, such as editors or `rsync`,
+ * and emits the same events as a {@link MonitoringStore} for them, so notifications are sent for these changes.
+ * The modified date of the parent folder is updated when a resource is created or deleted,
+ * in the same way the server does this for its own changes.
+ *
+ * Changed paths are mapped to resources with the {@link FileIdentifierMapper}.
+ * Changes to the same resource are combined in a single event if they happen within the delay,
+ * as tools often write a file in several steps.
+ * After the delay the file is checked to determine if the resource was created, updated or deleted.
+ * Changes to resources the given emitter emitted an event for shortly before or after are ignored,
+ * as those were made by the server itself.
+ *
+ * Only use this if the server runs single-threaded,
+ * as the events are only emitted in the process that watches the folder.
+ */
+export class FileSystemWatcher extends Initializer implements Finalizable {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly rootFilePath: string;
+  private readonly mapper: FileIdentifierMapper;
+  private readonly identifierStrategy: IdentifierStrategy;
+  private readonly emitter: EventEmitter;
+  private readonly ignoredPaths: RegExp[];
+  private readonly delay: number;
+
+  private readonly pendingChanges = new Map<string, PendingChange>();
+  private readonly pending = new Set<Promise<void>>();
+  // The last time the server changed a resource
+  private readonly serverChanges = new Map<string, number>();
+  private emitting = false;
+  private watcher?: FSWatcher;
+
+  public constructor(args: FileSystemWatcherArgs) {
+    super();
+    this.rootFilePath = trimTrailingSlashes(normalizeFilePath(args.rootFilePath));
+    this.mapper = args.mapper;
+    this.identifierStrategy = args.identifierStrategy;
+    this.emitter = args.emitter;
+    this.ignoredPaths = (args.ignoredPaths ?? [ '^/\\.internal(?:/|$)' ])
+      .map((path): RegExp => new RegExp(path, 'u'));
+    this.delay = args.delay ?? 100;
+
+    this.emitter.on('changed', (topic: ResourceIdentifier): void => {
+      if (!this.emitting) {
+        this.addServerChange(topic);
+      }
+    });
+  }
+
+  public async handle(): Promise<void> {
+    if (this.watcher) {
+      return;
+    }
+    this.logger.info(`Watching ${this.rootFilePath} for external changes`);
+    const watcher = watch(this.rootFilePath, {
+      ignoreInitial: true,
+      ignored: (path: string): boolean => this.isIgnored(path),
+    });
+    this.watcher = watcher;
+    watcher.on('all', (event: string, path: string): void => {
+      this.track(this.handleEvent(event, path).catch((error): void => {
+        this.logger.warn(`Unable to handle the change to ${path}: ${createErrorMessage(error)}`);
+      }));
+    });
+    watcher.on('error', (error): void => {
+      this.logger.error(`Error while watching ${this.rootFilePath}: ${createErrorMessage(error)}`);
+    });
+    await new Promise((resolve): void => {
+      watcher.once('ready', resolve);
+    });
+  }
+
+  public async finalize(): Promise<void> {
+    await this.watcher?.close();
+    this.watcher = undefined;
+
+    // Emit the remaining changes immediately
+    while (this.pending.size > 0 || this.pendingChanges.size > 0) {
+      await Promise.all(this.pending);
+      for (const change of this.pendingChanges.values()) {
+        clearTimeout(change.timer);
+        this.track(this.flushSafe(change));
+      }
+    }
+  }
+
+  /**
+   * Adds the changed path to the pending changes of its resource.
+   */
+  private async handleEvent(event: string, path: string): Promise<void> {
+    const isContainer = event === 'addDir' || event === 'unlinkDir';
+    const link = await this.mapper.mapFilePathToUrl(path, isContainer);
+    this.logger.debug(`Detected ${event} of ${path}`);
+
+    let change = this.pendingChanges.get(link.identifier.path);
+    if (!change) {
+      change = { identifier: link.identifier, start: Date.now() };
+      this.pendingChanges.set(link.identifier.path, change);
+    }
+    if (!link.isMetadata && typeof change.existed === 'undefined') {
+      change.existed = !event.startsWith('add');
+    }
+
+    // Wait until there are no more changes to the resource
+    const pendingChange = change;
+    clearTimeout(change.timer);
+    change.timer = setTimeout((): void => this.track(this.flushSafe(pendingChange)), this.delay);
+  }
+
+  /**
+   * Emits the events corresponding to the given change, unless it was made by the server.
+   */
+  private async flush(change: PendingChange): Promise<void> {
+    const { identifier, start } = change;
+    this.pendingChanges.delete(identifier.path);
+    const serverChange = this.serverChanges.get(identifier.path);
+    if (typeof serverChange === 'number' && serverChange >= start - this.delay) {
+      this.logger.debug(`Ignoring the change to ${identifier.path} made by the server`);
+      return;
+    }
+
+    const exists = await this.exists(identifier);
+    const existed = change.existed ?? exists;
+    if (exists) {
+      this.emitChanged(identifier, existed ? AS.terms.Update : AS.terms.Create);
+    } else if (existed) {
+      this.emitChanged(identifier, AS.terms.Delete);
+    }
+
+    if (existed !== exists && !this.identifierStrategy.isRootContainer(identifier)) {
+      const parent = this.identifierStrategy.getParentContainer(identifier);
+      await this.updateModifiedDate(parent);
+      this.emitChanged(parent, AS.terms.Update);
+    }
+  }
+
+  private async flushSafe(change: PendingChange): Promise<void> {
+    try {
+      await this.flush(change);
+    } catch (error: unknown) {
+      this.logger.warn(`Unable to emit the change to ${change.identifier.path}: ${createErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Emits the same events as a {@link MonitoringStore}.
+   */
+  private emitChanged(identifier: ResourceIdentifier, activity: NamedNode): void {
+    this.logger.info(`External change: ${activity.value} ${identifier.path}`);
+    this.emitting = true;
+    try {
+      this.emitter.emit('changed', identifier, activity);
+      this.emitter.emit(activity.value, identifier);
+    } finally {
+      this.emitting = false;
+    }
+  }
+
+  /**
+   * Checks if the file or folder of the resource exists.
+   */
+  private async exists(identifier: ResourceIdentifier): Promise<boolean> {
+    try {
+      const { filePath } = await this.mapper.mapUrlToFilePath(identifier, false);
+      const stats = await lstat(filePath);
+      return stats.isDirectory() === isContainerIdentifier(identifier);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * The modified date of a container is the modified date of its folder.
+   * Tools such as `rsync` can set this to an earlier date, so it is explicitly set to the current time.
+   */
+  private async updateModifiedDate(container: ResourceIdentifier): Promise<void> {
+    const { filePath } = await this.mapper.mapUrlToFilePath(container, false);
+    const now = new Date();
+    try {
+      await utimes(filePath, now, now);
+    } catch {
+      // The parent folder was removed as well
+      this.logger.debug(`Unable to update the modified date of ${filePath}`);
+    }
+  }
+
+  /**
+   * Remembers that the server changed the resource, and forgets this again once that change can no longer be detected.
+   */
+  private addServerChange(identifier: ResourceIdentifier): void {
+    const now = Date.now();
+    this.serverChanges.set(identifier.path, now);
+    setTimeout((): void => {
+      if (this.serverChanges.get(identifier.path) === now) {
+        this.serverChanges.delete(identifier.path);
+      }
+    }, 2 * this.delay).unref();
+  }
+
+  private isIgnored(path: string): boolean {
+    const relative = normalizeFilePath(path).slice(this.rootFilePath.length);
+    return this.ignoredPaths.some((regex): boolean => regex.test(relative));
+  }
+
+  /**
+   * Keeps track of the given promise until it resolves.
+   * The promise should never reject.
+   */
+  private track(promise: Promise<void>): void {
+    const remove = (): void => {
+      this.pending.delete(promise);
+    };
+    this.pending.add(promise);
+    promise.then(remove, remove);
+  }
+}
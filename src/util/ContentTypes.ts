@@ -1,7 +1,10 @@
 // Well-known content types
 export const APPLICATION_JSON = 'application/json';
+export const APPLICATION_LD_JSON = 'application/ld+json';
+export const APPLICATION_LINK_FORMAT = 'application/link-format';
 export const APPLICATION_OCTET_STREAM = 'application/octet-stream';
 export const APPLICATION_SPARQL_UPDATE = 'application/sparql-update';
+export const APPLICATION_X_TAR = 'application/x-tar';
 export const APPLICATION_X_WWW_FORM_URLENCODED = 'application/x-www-form-urlencoded';
 export const TEXT_HTML = 'text/html';
 export const TEXT_MARKDOWN = 'text/markdown';
@@ -0,0 +1,44 @@
+import type { PagePreference } from '../http/representation/RepresentationPreferences';
+
+/**
+ * Finds the entries that are part of the given page,
+ * where entries are ordered based on the identifier returned by `getPath`.
+ * At most `page.limit` entries are kept in memory while iterating,
+ * so this can be used on large collections of which the order is unknown.
+ *
+ * @param entries - The entries to choose from, in any order.
+ * @param getPath - Returns the identifier of an entry.
+ * @param page - The requested page.
+ *
+ * @returns The entries of the page, sorted by their identifier.
+ */
+export async function selectPage<T>(entries: AsyncIterable<T> | Iterable<T>, getPath: (entry: T) => string,
+  page: PagePreference): Promise<T[]> {
+  const result: { path: string; entry: T }[] = [];
+  for await (const entry of entries) {
+    const path = getPath(entry);
+    if (typeof page.after === 'string' && path <= page.after) {
+      continue;
+    }
+    if (result.length >= page.limit && path >= result[result.length - 1].path) {
+      continue;
+    }
+
+    // Binary search to find the position of the new entry
+    let low = 0;
+    let high = result.length;
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      if (result[middle].path < path) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    result.splice(low, 0, { path, entry });
+    if (result.length > page.limit) {
+      result.pop();
+    }
+  }
+  return result.map(({ entry }): T => entry);
+}
@@ -0,0 +1,96 @@
+import type { RepresentationMetadata } from '../http/representation/RepresentationMetadata';
+import type { RangePart } from '../http/representation/RepresentationPreferences';
+import { getETag } from '../storage/Conditions';
+import { toLiteral } from './TermUtil';
+import { DC, POSIX, SOLID_HTTP, SOLID_META, XSD } from './Vocabularies';
+
+/**
+ * A resolved range of bytes of which both `start` and `end` are inclusive.
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Resolves a requested range against a representation of the given size.
+ * Suffix ranges and ranges without end are converted to absolute values,
+ * and the end gets limited to the last byte of the representation.
+ *
+ * @param part - The requested range.
+ * @param size - The size of the representation in bytes.
+ *
+ * @returns The resolved range, or `undefined` if the range can not be satisfied.
+ */
+export function resolveRange(part: RangePart, size: number): ByteRange | undefined {
+  if (part.start < 0) {
+    return size > 0 ? { start: Math.max(size + part.start, 0), end: size - 1 } : undefined;
+  }
+  if (part.start >= size) {
+    return;
+  }
+  return { start: part.start, end: Math.min(part.end ?? size - 1, size - 1) };
+}
+
+/**
+ * Checks if the value of an If-Range header matches the given metadata.
+ * This can either be a strong ETag or a date that exactly matches the last modified date.
+ *
+ * @param metadata - Metadata of the representation.
+ * @param ifRange - The value of the If-Range header, or `undefined` if there was none.
+ *
+ * @returns `true` if there is no If-Range value or if it matches.
+ */
+export function matchesIfRange(metadata: RepresentationMetadata, ifRange?: string): boolean {
+  if (!ifRange) {
+    return true;
+  }
+  if (ifRange.startsWith('"')) {
+    return ifRange === getETag(metadata);
+  }
+  const modified = metadata.get(DC.terms.modified);
+  if (!modified || ifRange.startsWith('W/')) {
+    return false;
+  }
+  return Date.parse(ifRange) === new Date(modified.value).getTime();
+}
+
+/**
+ * Adds the metadata describing which part of the full representation is contained in the representation.
+ * These values are used to generate the Content-Range header.
+ *
+ * @param metadata - Metadata to update.
+ * @param range - The range of bytes contained in the representation.
+ * @param size - The size of the full representation.
+ */
+export function addRangeMetadata(metadata: RepresentationMetadata, range: ByteRange, size: number): void {
+  metadata.set(SOLID_HTTP.terms.unit, 'bytes', SOLID_META.terms.ResponseMetadata);
+  metadata.set(SOLID_HTTP.terms.start, toLiteral(range.start, XSD.terms.integer), SOLID_META.terms.ResponseMetadata);
+  metadata.set(SOLID_HTTP.terms.end, toLiteral(range.end, XSD.terms.integer), SOLID_META.terms.ResponseMetadata);
+  metadata.set(POSIX.terms.size, toLiteral(size, XSD.terms.integer), SOLID_META.terms.ResponseMetadata);
+}
+
+/**
+ * Generates the value of the Content-Range header based on the range metadata.
+ * In case the metadata only contains the unit and the size,
+ * the value indicates the size of the full representation, as is required when the range is not satisfiable.
+ *
+ * @param metadata - Metadata containing the range values.
+ *
+ * @returns The header value, or `undefined` if there is not enough information.
+ */
+export function getContentRange(metadata: RepresentationMetadata): string | undefined {
+  const unit = metadata.get(SOLID_HTTP.terms.unit);
+  if (!unit) {
+    return;
+  }
+  const size = metadata.get(POSIX.terms.size)?.value;
+  const start = metadata.get(SOLID_HTTP.terms.start);
+  const end = metadata.get(SOLID_HTTP.terms.end);
+  if (start && end) {
+    return `${unit.value} ${start.value}-${end.value}/${size ?? '*'}`;
+  }
+  if (size) {
+    return `${unit.value} */${size}`;
+  }
+}
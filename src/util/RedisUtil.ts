@@ -0,0 +1,24 @@
+import Redis from 'ioredis';
+
+/**
+ * Generate and return a RedisClient based on the provided string
+ * @param redisClientString - A string that contains either a host address and a
+ *                            port number like '127.0.0.1:6379' or just a port number like '6379'.
+ */
+export function createRedisClient(redisClientString: string): Redis {
+  if (redisClientString.length > 0) {
+    // Check if port number or ip with port number
+    // Definitely not perfect, but configuring this is only for experienced users
+    const match = /^(?:([^:]+):)?(\d{4,5})$/u.exec(redisClientString);
+    if (!match || !match[2]) {
+      // At least a port number should be provided
+      throw new Error(`Invalid data provided to create a Redis client: ${redisClientString}\n
+            Please provide a port number like '6379' or a host address and a port number like '127.0.0.1:6379'`);
+    }
+    const port = Number(match[2]);
+    const host = match[1];
+    return new Redis(port, host);
+  }
+  throw new Error(`Empty redisClientString provided!\n
+            Please provide a port number like '6379' or a host address and a port number like '127.0.0.1:6379'`);
+}
@@ -1,13 +1,37 @@
 import arrayifyStream from 'arrayify-stream';
-import { DataFactory } from 'n3';
+import { DataFactory, Parser } from 'n3';
 import { BasicRepresentation } from '../http/representation/BasicRepresentation';
 import type { Representation } from '../http/representation/Representation';
 import { RepresentationMetadata } from '../http/representation/RepresentationMetadata';
-import { guardedStreamFrom } from './StreamUtil';
+import type { ResourceIdentifier } from '../http/representation/ResourceIdentifier';
+import { BasicConditions } from '../storage/BasicConditions';
+import type { Conditions } from '../storage/Conditions';
+import { TEXT_TURTLE } from './ContentTypes';
+import { PreconditionFailedHttpError } from './errors/PreconditionFailedHttpError';
+import { serializeQuads } from './QuadUtil';
+import { guardedStreamFrom, readableToString } from './StreamUtil';
 import { toLiteral } from './TermUtil';
 import { CONTENT_TYPE_TERM, DC, LDP, RDF, SOLID_META, XSD } from './Vocabularies';
 import namedNode = DataFactory.namedNode;
 
+/**
+ * A representation in a format that can be stored as JSON.
+ */
+export interface SerializedRepresentation {
+  /**
+   * The content type of the data.
+   */
+  contentType?: string;
+  /**
+   * The base64 encoded data.
+   */
+  data: string;
+  /**
+   * The metadata, serialized as N-Quads.
+   */
+  metadata: string;
+}
+
 /**
  * Helper function to generate type quads for a Container or Resource.
  * @param metadata - Metadata to add to.
@@ -48,6 +72,33 @@ void {
   metadata.addQuad(templateNode, CONTENT_TYPE_TERM, contentType);
 }
 
+/**
+ * Checks if the representation that is going to be returned to a GET or HEAD request
+ * satisfies the conditions of that request.
+ * ETags are compared to those of the specific representation, so the content type is taken into account.
+ * The data of the representation is destroyed if the conditions are not satisfied.
+ * @param representation - The representation that would be returned.
+ * @param conditions - The conditions of the request.
+ *
+ * @returns `false` if the client already has the current representation, so a 304 response should be sent instead.
+ *
+ * @throws PreconditionFailedHttpError
+ * If the `If-Match` or `If-Unmodified-Since` conditions are not satisfied.
+ */
+export function matchesReadConditions(representation: Representation, conditions?: Conditions): boolean {
+  if (!conditions || conditions.matchesMetadata(representation.metadata, true)) {
+    return true;
+  }
+  representation.data.destroy();
+
+  // RFC7232: only a failing If-None-Match or If-Modified-Since condition results in a 304 response
+  const { matchesETag, unmodifiedSince } = conditions;
+  if (!new BasicConditions({ matchesETag, unmodifiedSince }).matchesMetadata(representation.metadata, true)) {
+    throw new PreconditionFailedHttpError();
+  }
+  return false;
+}
+
 /**
  * Helper function to clone a representation, the original representation can still be used.
  * This function loads the entire stream in memory.
@@ -65,3 +116,49 @@ export async function cloneRepresentation(representation: Representation): Promi
   representation.data = guardedStreamFrom(data);
   return result;
 }
+
+/**
+ * Converts a representation to an object that can be stored as JSON.
+ * Quad streams are serialized as Turtle.
+ * Metadata that is generated on the fly, i.e., in the {@link SOLID_META.ResponseMetadata} graph, is not included.
+ * This function loads the entire stream in memory.
+ * @param representation - The representation to serialize.
+ *
+ * @returns The serialized representation.
+ */
+export async function serializeRepresentation(representation: Representation): Promise<SerializedRepresentation> {
+  let { contentType } = representation.metadata;
+  let data: Buffer;
+  if (representation.binary) {
+    const chunks: (Buffer | string)[] = await arrayifyStream(representation.data);
+    data = Buffer.concat(chunks.map((chunk): Buffer => Buffer.from(chunk)));
+  } else {
+    contentType = TEXT_TURTLE;
+    data = Buffer.from(await readableToString(serializeQuads(await arrayifyStream(representation.data), contentType)));
+  }
+
+  const quads = representation.metadata.quads()
+    .filter((quad): boolean => !quad.graph.equals(SOLID_META.terms.ResponseMetadata));
+
+  return {
+    contentType,
+    data: data.toString('base64'),
+    metadata: await readableToString(serializeQuads(quads, 'application/n-quads')),
+  };
+}
+
+/**
+ * Converts the result of {@link serializeRepresentation} back to a representation.
+ * @param identifier - The identifier of the resource the representation belongs to.
+ * @param serialized - The serialized representation.
+ *
+ * @returns The resulting representation.
+ */
+export function deserializeRepresentation(identifier: ResourceIdentifier, serialized: SerializedRepresentation):
+BasicRepresentation {
+  const metadata = new RepresentationMetadata(identifier);
+  metadata.addQuads(new Parser({ format: 'application/n-quads' }).parse(serialized.metadata));
+  metadata.contentType = serialized.contentType;
+  const data = serialized.data.length > 0 ? [ Buffer.from(serialized.data, 'base64') ] : [];
+  return new BasicRepresentation(data, metadata);
+}
@@ -111,6 +111,9 @@ export const LDP = createUriAndTermNamespace('http://www.w3.org/ns/ldp#',
 
   'BasicContainer',
   'Container',
+  'Page',
+  'PreferContainment',
+  'PreferMinimalContainer',
   'Resource',
 );
 
@@ -118,6 +121,28 @@ export const MA = createUriAndTermNamespace('http://www.w3.org/ns/ma-ont#',
   'format',
 );
 
+export const MEMENTO = createUriAndTermNamespace('http://mementoweb.org/ns#',
+  'mementoDatetime',
+  'original',
+);
+
+export const NOTIFY = createUriAndTermNamespace('http://www.w3.org/ns/solid/notifications#',
+  'accept',
+  'channelType',
+  'endAt',
+  'feature',
+  'rate',
+  'receiveFrom',
+  'sendTo',
+  'startAt',
+  'state',
+  'subscription',
+  'topic',
+
+  'WebHookChannel2023',
+  'WebSocketChannel2023',
+);
+
 export const OIDC = createUriAndTermNamespace('http://www.w3.org/ns/solid/oidc#',
   'redirect_uris',
 );
@@ -145,6 +170,7 @@ export const SOLID = createUriAndTermNamespace('http://www.w3.org/ns/solid/terms
   'oidcIssuer',
   'oidcIssuerRegistrationToken',
   'oidcRegistration',
+  'storageDescription',
   'where',
 
   'InsertDeletePatch',
@@ -161,8 +187,13 @@ export const SOLID_ERROR = createUriAndTermNamespace('urn:npm:solid:community-se
 );
 
 export const SOLID_HTTP = createUriAndTermNamespace('urn:npm:solid:community-server:http:',
+  'end',
   'location',
+  'next',
+  'preferenceApplied',
   'slug',
+  'start',
+  'unit',
 );
 
 export const SOLID_META = createUriAndTermNamespace('urn:npm:solid:community-server:meta:',
@@ -175,6 +206,17 @@ export const SOLID_META = createUriAndTermNamespace('urn:npm:solid:community-ser
   'value',
   // This is used to indicate whether metadata should be preserved or not during a PUT operation
   'preserve',
+  // This is used to store the encrypted metadata of a resource
+  'encryptedMetadata',
+  // This is used to store the SHA-256 digest of the data of a document
+  'contentDigest',
+);
+
+export const SOLID_QUOTA = createUriAndTermNamespace('urn:npm:solid:community-server:quota:',
+  'available',
+  'limit',
+  'unit',
+  'used',
 );
 
 export const VANN = createUriAndTermNamespace('http://purl.org/vocab/vann/',
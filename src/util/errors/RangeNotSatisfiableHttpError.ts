@@ -0,0 +1,33 @@
+import { DataFactory } from 'n3';
+import type { Quad, Quad_Subject } from 'rdf-js';
+import { toLiteral, toNamedTerm, toObjectTerm } from '../TermUtil';
+import { POSIX, SOLID_HTTP, XSD } from '../Vocabularies';
+import type { HttpErrorOptions } from './HttpError';
+import { generateHttpErrorClass } from './HttpError';
+import quad = DataFactory.quad;
+
+// eslint-disable-next-line @typescript-eslint/naming-convention
+const BaseHttpError = generateHttpErrorClass(416, 'RangeNotSatisfiableHttpError');
+
+/**
+ * An error thrown when none of the requested ranges overlap with the current representation.
+ * Can keep track of the size of the representation so it can be communicated to the client.
+ */
+export class RangeNotSatisfiableHttpError extends BaseHttpError {
+  public readonly size?: number;
+
+  public constructor(size?: number, message?: string, options?: HttpErrorOptions) {
+    super(message ?? 'None of the requested ranges can be satisfied.', options);
+    this.size = size;
+  }
+
+  public generateMetadata(subject: Quad_Subject | string): Quad[] {
+    const term = toNamedTerm(subject);
+    const quads = super.generateMetadata(term);
+    if (typeof this.size === 'number') {
+      quads.push(quad(term, SOLID_HTTP.terms.unit, toObjectTerm('bytes', true)));
+      quads.push(quad(term, POSIX.terms.size, toLiteral(this.size, XSD.terms.integer)));
+    }
+    return quads;
+  }
+}
@@ -0,0 +1,69 @@
+import { EventEmitter } from 'events';
+import type { NamedNode } from '@rdfjs/types';
+import { DataFactory } from 'n3';
+import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
+import type { Initializable } from '../../init/Initializable';
+import { getLoggerFor } from '../../logging/LogUtil';
+import { createErrorMessage } from '../errors/ErrorUtil';
+import { AS } from '../Vocabularies';
+import type { EventBus } from './EventBus';
+
+// The ActivityStream terms for which we emit an event
+const emittedActivities: Set<string> = new Set([ AS.Create, AS.Delete, AS.Update ]);
+
+/**
+ * The serialized version of a `changed` event.
+ */
+interface ActivityMessage {
+  topic: string;
+  activity?: string;
+}
+
+/**
+ * Emits the `changed` events of all processes of the server,
+ * in the same way the {@link MonitoringStore} emits the changes that happened in the current process.
+ *
+ * The `changed` events of the source {@link EventEmitter}, which is usually a {@link MonitoringStore},
+ * are emitted and shared with the other processes through the {@link EventBus}.
+ * Events received through that bus are emitted as well.
+ * Listeners that need to know about every change, independent of which process handled the request,
+ * such as those keeping track of WebSockets, should listen to this class instead of the source.
+ *
+ * In case no bus is provided, only the events of the source are emitted.
+ */
+export class ActivityRelay extends EventEmitter implements Initializable {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly source: EventEmitter;
+  private readonly bus?: EventBus;
+
+  public constructor(source: EventEmitter, bus?: EventBus) {
+    super();
+    this.source = source;
+    this.bus = bus;
+  }
+
+  public async initialize(): Promise<void> {
+    this.source.on('changed', (topic: ResourceIdentifier, activity?: NamedNode): void => {
+      this.emitChanged(topic, activity);
+      if (this.bus) {
+        const message: ActivityMessage = { topic: topic.path, activity: activity?.value };
+        this.bus.publish(message).catch((error): void => {
+          this.logger.error(`Unable to share change event of ${topic.path}: ${createErrorMessage(error)}`);
+        });
+      }
+    });
+
+    await this.bus?.subscribe((message: unknown): void => {
+      const { topic, activity } = message as ActivityMessage;
+      this.emitChanged({ path: topic }, activity ? DataFactory.namedNode(activity) : undefined);
+    });
+  }
+
+  private emitChanged(topic: ResourceIdentifier, activity?: NamedNode): void {
+    this.emit('changed', topic, activity);
+    if (activity && emittedActivities.has(activity.value)) {
+      this.emit(activity.value, topic);
+    }
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Sends messages between the different processes of the server,
+ * such as the workers of a cluster or multiple server instances sharing the same backend.
+ *
+ * Messages need to be JSON serializable.
+ * A process never receives the messages it published itself.
+ */
+export interface EventBus {
+  /**
+   * Sends the given message to all other processes.
+   * @param message - The message to send.
+   */
+  publish: (message: unknown) => Promise<void>;
+  /**
+   * Registers a listener that gets called for every message published by another process.
+   * @param listener - The function to call with every received message.
+   */
+  subscribe: (listener: (message: unknown) => void) => Promise<void>;
+}
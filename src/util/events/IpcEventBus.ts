@@ -0,0 +1,66 @@
+import type { Worker } from 'cluster';
+import cluster from 'cluster';
+import { Initializer } from '../../init/Initializer';
+import type { EventBus } from './EventBus';
+
+// Used to distinguish the event bus messages from other IPC messages
+const MESSAGE_TYPE = 'solid-server:event-bus';
+
+interface IpcMessage {
+  type: typeof MESSAGE_TYPE;
+  message: unknown;
+}
+
+function isIpcMessage(message: unknown): message is IpcMessage {
+  return typeof message === 'object' && message !== null && (message as IpcMessage).type === MESSAGE_TYPE;
+}
+
+/**
+ * An {@link EventBus} that sends messages between the workers of a cluster,
+ * using the IPC channel between the workers and the primary process.
+ *
+ * Workers send their messages to the primary process,
+ * which forwards them to all other workers.
+ * To enable this, this class needs to be initialized in the primary process.
+ *
+ * In case the server runs single-threaded, there are no other processes,
+ * so published messages are discarded.
+ */
+export class IpcEventBus extends Initializer implements EventBus {
+  /**
+   * Makes the primary process forward all messages it receives from a worker to all other workers.
+   */
+  public async handle(): Promise<void> {
+    cluster.on('message', (sender: Worker, message: unknown): void => {
+      if (!isIpcMessage(message)) {
+        return;
+      }
+      for (const worker of Object.values(cluster.workers ?? {})) {
+        if (worker && worker !== sender && worker.isConnected()) {
+          worker.send(message);
+        }
+      }
+    });
+  }
+
+  public async publish(message: unknown): Promise<void> {
+    // Only processes that were forked by the cluster have an IPC channel
+    if (!process.send) {
+      return;
+    }
+    const ipcMessage: IpcMessage = { type: MESSAGE_TYPE, message };
+    process.send(ipcMessage);
+  }
+
+  public async subscribe(listener: (message: unknown) => void): Promise<void> {
+    // Without IPC channel there are no other processes to receive messages from
+    if (!process.send) {
+      return;
+    }
+    process.on('message', (message: unknown): void => {
+      if (isIpcMessage(message)) {
+        listener(message.message);
+      }
+    });
+  }
+}
@@ -0,0 +1,67 @@
+import type Redis from 'ioredis';
+import { v4 } from 'uuid';
+import type { Finalizable } from '../../init/final/Finalizable';
+import { getLoggerFor } from '../../logging/LogUtil';
+import { createErrorMessage } from '../errors/ErrorUtil';
+import { createRedisClient } from '../RedisUtil';
+import type { EventBus } from './EventBus';
+
+interface RedisMessage {
+  origin: string;
+  message: unknown;
+}
+
+/**
+ * An {@link EventBus} that uses Redis Pub/Sub to send messages between processes.
+ * This allows sharing messages between all workers of multiple server instances,
+ * as long as they use the same Redis server and channel.
+ *
+ * Uses two Redis connections as a connection in subscriber mode can not be used to publish messages.
+ */
+export class RedisEventBus implements EventBus, Finalizable {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly publisher: Redis;
+  private readonly subscriber: Redis;
+  private readonly channel: string;
+  // Used to prevent a process from receiving its own messages
+  private readonly origin = v4();
+
+  /**
+   * @param redisClient - The Redis server to connect to, formatted as '127.0.0.1:6379' or '6379'.
+   * @param channel - The Redis channel to use for the messages.
+   */
+  public constructor(redisClient = '127.0.0.1:6379', channel = 'solid-server:event-bus') {
+    this.publisher = createRedisClient(redisClient);
+    this.subscriber = createRedisClient(redisClient);
+    this.channel = channel;
+  }
+
+  public async publish(message: unknown): Promise<void> {
+    const redisMessage: RedisMessage = { origin: this.origin, message };
+    await this.publisher.publish(this.channel, JSON.stringify(redisMessage));
+  }
+
+  public async subscribe(listener: (message: unknown) => void): Promise<void> {
+    this.subscriber.on('message', (channel: string, data: string): void => {
+      if (channel !== this.channel) {
+        return;
+      }
+      let redisMessage: RedisMessage;
+      try {
+        redisMessage = JSON.parse(data);
+      } catch (error: unknown) {
+        this.logger.warn(`Received invalid message on Redis channel ${channel}: ${createErrorMessage(error)}`);
+        return;
+      }
+      if (redisMessage.origin !== this.origin) {
+        listener(redisMessage.message);
+      }
+    });
+    await this.subscriber.subscribe(this.channel);
+  }
+
+  public async finalize(): Promise<void> {
+    await Promise.all([ this.publisher.quit(), this.subscriber.quit() ]);
+  }
+}
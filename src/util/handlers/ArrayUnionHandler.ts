@@ -0,0 +1,15 @@
+import type { AsyncHandler, AsyncHandlerOutput } from './AsyncHandler';
+import { UnionHandler } from './UnionHandler';
+
+/**
+ * A utility handler that concatenates the results of all its handlers into a single result.
+ */
+export class ArrayUnionHandler<T extends AsyncHandler<any, any[]>> extends UnionHandler<T> {
+  public constructor(handlers: T[], requireAll?: boolean, ignoreErrors?: boolean) {
+    super(handlers, requireAll, ignoreErrors);
+  }
+
+  protected async combine(results: AsyncHandlerOutput<T>[]): Promise<AsyncHandlerOutput<T>> {
+    return results.flat() as AsyncHandlerOutput<T>;
+  }
+}
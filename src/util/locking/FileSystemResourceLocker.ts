@@ -104,8 +104,9 @@ export class FileSystemResourceLocker implements ResourceLocker, Initializable,
     this.logger.debug(`Acquiring lock for ${path}`);
     try {
       const opt = this.generateOptions(identifier, this.lockOptions);
+      // The lockfile path is used as key so lockers with a different lock folder do not share locks in memory
       await retryFunction(
-        this.swallowErrors(lock.bind(null, path, opt)),
+        this.swallowErrors(lock.bind(null, opt.lockfilePath!, opt)),
         this.attemptSettings,
       );
     } catch (err: unknown) {
@@ -119,7 +120,7 @@ export class FileSystemResourceLocker implements ResourceLocker, Initializable,
     try {
       const opt = this.generateOptions(identifier, defaultUnlockOptions);
       await retryFunction(
-        this.swallowErrors(unlock.bind(null, path, opt)),
+        this.swallowErrors(unlock.bind(null, opt.lockfilePath!, opt)),
         this.attemptSettings,
       );
     } catch (err: unknown) {
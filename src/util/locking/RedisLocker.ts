@@ -1,10 +1,11 @@
-import Redis from 'ioredis';
+import type Redis from 'ioredis';
 import type { ResourceIdentifier } from '../../http/representation/ResourceIdentifier';
 import type { Finalizable } from '../../init/final/Finalizable';
 import type { Initializable } from '../../init/Initializable';
 import { getLoggerFor } from '../../logging/LogUtil';
 import type { AttemptSettings } from '../LockUtils';
 import { retryFunction } from '../LockUtils';
+import { createRedisClient } from '../RedisUtil';
 import type { ReadWriteLocker } from './ReadWriteLocker';
 import type { ResourceLocker } from './ResourceLocker';
 import type { RedisResourceLock, RedisReadWriteLock, RedisAnswer } from './scripts/RedisLuaScripts';
@@ -53,7 +54,7 @@ export class RedisLocker implements ReadWriteLocker, ResourceLocker, Initializab
   private finalized = false;
 
   public constructor(redisClient = '127.0.0.1:6379', attemptSettings: AttemptSettings = {}) {
-    this.redis = this.createRedisClient(redisClient);
+    this.redis = createRedisClient(redisClient);
     this.attemptSettings = { ...attemptDefaults, ...attemptSettings };
 
     // Register lua scripts
@@ -65,29 +66,6 @@ export class RedisLocker implements ReadWriteLocker, ResourceLocker, Initializab
     this.redisLock = this.redis as RedisResourceLock;
   }
 
-  /**
-   * Generate and return a RedisClient based on the provided string
-   * @param redisClientString - A string that contains either a host address and a
-   *                            port number like '127.0.0.1:6379' or just a port number like '6379'.
-   */
-  private createRedisClient(redisClientString: string): Redis {
-    if (redisClientString.length > 0) {
-      // Check if port number or ip with port number
-      // Definitely not perfect, but configuring this is only for experienced users
-      const match = /^(?:([^:]+):)?(\d{4,5})$/u.exec(redisClientString);
-      if (!match || !match[2]) {
-        // At least a port number should be provided
-        throw new Error(`Invalid data provided to create a Redis client: ${redisClientString}\n
-            Please provide a port number like '6379' or a host address and a port number like '127.0.0.1:6379'`);
-      }
-      const port = Number(match[2]);
-      const host = match[1];
-      return new Redis(port, host);
-    }
-    throw new Error(`Empty redisClientString provided!\n
-            Please provide a port number like '6379' or a host address and a port number like '127.0.0.1:6379'`);
-  }
-
   /**
    * Create a scoped Redis key for Read-Write locking.
    * @param identifier - The identifier object to create a Redis key for
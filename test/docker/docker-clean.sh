@@ -1,2 +1,3 @@
 #!/usr/bin/env bash
 docker rm -f css-virtuoso
+docker rm -f css-minio
@@ -4,3 +4,9 @@ docker container create --name css-virtuoso \
   -p 4000:8890 \
   -e SPARQL_UPDATE=true \
   tenforce/virtuoso
+docker pull minio/minio
+docker container create --name css-minio \
+  -p 4001:9000 \
+  -e MINIO_ROOT_USER=css-test \
+  -e MINIO_ROOT_PASSWORD=css-test-secret \
+  minio/minio server /data
@@ -1,2 +1,3 @@
 #!/usr/bin/env bash
 docker start css-virtuoso
+docker start css-minio
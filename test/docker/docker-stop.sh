@@ -1,2 +1,3 @@
 #!/usr/bin/env bash
 docker stop css-virtuoso
+docker stop css-minio
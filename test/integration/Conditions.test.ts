@@ -197,4 +197,49 @@ describe.each(stores)('A server supporting conditions with %s', (name, { storeCo
     });
     expect(response.status).toBe(205);
   });
+
+  it('returns a 304 response if the client already has the current representation.', async(): Promise<void> => {
+    const documentUrl = `${baseUrl}document4.ttl`;
+    await putResource(documentUrl, { contentType: 'text/turtle', body: '<http://test.com/s> <http://test.com/p> 1.' });
+
+    // GET the validators
+    let response = await getResource(documentUrl, { accept: 'text/turtle' });
+    const eTag = response.headers.get('etag')!;
+    const lastModified = response.headers.get('last-modified')!;
+    expect(eTag).toMatch(/^"[0-9a-f]{64}-text\/turtle"$/u);
+    expect(response.headers.get('cache-control')).toBe('no-cache');
+
+    // GET and HEAD return 304 when the ETag matches
+    for (const method of [ 'GET', 'HEAD' ]) {
+      response = await fetch(documentUrl, { method, headers: { accept: 'text/turtle', 'if-none-match': eTag }});
+      expect(response.status).toBe(304);
+      expect(response.headers.get('etag')).toBe(eTag);
+      expect(response.headers.get('cache-control')).toBe('no-cache');
+      expect(response.headers.get('vary')).toMatch(/Accept/u);
+      await expect(response.text()).resolves.toBe('');
+    }
+
+    // A different representation has a different ETag
+    response = await fetch(documentUrl, { headers: { accept: 'application/ld+json', 'if-none-match': eTag }});
+    expect(response.status).toBe(200);
+    expect(response.headers.get('etag')).not.toBe(eTag);
+
+    // GET returns 304 when the resource was not modified since the given date
+    response = await fetch(documentUrl, { headers: { accept: 'text/turtle', 'if-modified-since': lastModified }});
+    expect(response.status).toBe(304);
+
+    // GET returns 412 when the If-Match condition fails
+    response = await fetch(documentUrl, { headers: { accept: 'text/turtle', 'if-match': '"notAMatchingETag"' }});
+    expect(response.status).toBe(412);
+
+    // The ETag changes when the contents change
+    await putResource(documentUrl,
+      { contentType: 'text/turtle', body: '<http://test.com/s> <http://test.com/p> 2.', exists: true });
+    response = await fetch(documentUrl, { headers: { accept: 'text/turtle', 'if-none-match': eTag }});
+    expect(response.status).toBe(200);
+    expect(response.headers.get('etag')).not.toBe(eTag);
+
+    // DELETE
+    expect(await deleteResource(documentUrl)).toBeUndefined();
+  });
 });
@@ -0,0 +1,104 @@
+import fetch from 'cross-fetch';
+import type { App } from '../../src/init/App';
+import { parseLinkHeader } from '../../src/util/HeaderUtil';
+import { LDP } from '../../src/util/Vocabularies';
+import { putResource } from '../util/FetchUtil';
+import { getPort } from '../util/Util';
+import {
+  getDefaultVariables,
+  getPresetConfigPath,
+  getTestConfigPath,
+  getTestFolder,
+  instantiateFromConfig,
+  removeFolder,
+} from './Config';
+
+const port = getPort('ContainerPaging');
+const baseUrl = `http://localhost:${port}/`;
+
+const rootFilePath = getTestFolder('container-paging');
+const stores: [string, any][] = [
+  [ 'in-memory storage', {
+    storeConfig: 'storage/backend/memory.json',
+    teardown: jest.fn(),
+  }],
+  [ 'on-disk storage', {
+    storeConfig: 'storage/backend/file.json',
+    teardown: async(): Promise<void> => removeFolder(rootFilePath),
+  }],
+  [ 'SQLite storage', {
+    storeConfig: 'storage/backend/sqlite.json',
+    teardown: async(): Promise<void> => removeFolder(rootFilePath),
+  }],
+];
+
+describe.each(stores)('A server with paginated containers using %s', (name, { storeConfig, teardown }): void => {
+  const containerUrl = `${baseUrl}container/`;
+  const children = [ 'a', 'b', 'c', 'd', 'e' ].map((child): string => `${containerUrl}${child}`);
+  let app: App;
+
+  beforeAll(async(): Promise<void> => {
+    const variables = {
+      ...getDefaultVariables(port, baseUrl),
+      'urn:solid-server:default:variable:rootFilePath': rootFilePath,
+    };
+
+    const instances = await instantiateFromConfig(
+      'urn:solid-server:test:Instances',
+      [
+        getPresetConfigPath(storeConfig),
+        getTestConfigPath('ldp-with-auth.json'),
+      ],
+      variables,
+    ) as Record<string, any>;
+    ({ app } = instances);
+
+    await app.start();
+
+    // Created in a different order to make sure the server sorts them
+    for (const child of [ ...children ].reverse()) {
+      await putResource(child, { contentType: 'text/plain', body: 'data' });
+    }
+  });
+
+  afterAll(async(): Promise<void> => {
+    await teardown();
+    await app.stop();
+  });
+
+  async function getPage(url: string): Promise<{ contains: string[]; next?: string; isPage: boolean }> {
+    const response = await fetch(url, { headers: { accept: 'application/n-triples' }});
+    expect(response.status).toBe(200);
+    const links = parseLinkHeader(response.headers.get('link') ?? '');
+    const body = await response.text();
+    const contains = children.filter((child): boolean => body.includes(`<${LDP.contains}> <${child}>`));
+    return {
+      contains,
+      next: links.find((link): boolean => link.parameters.rel === 'next')?.target,
+      isPage: links.some((link): boolean => link.parameters.rel === 'type' && link.target === LDP.Page),
+    };
+  }
+
+  it('returns all children by default.', async(): Promise<void> => {
+    const page = await getPage(containerUrl);
+    expect(page.contains).toEqual(children);
+    expect(page.next).toBeUndefined();
+    expect(page.isPage).toBe(false);
+  });
+
+  it('can return the children one page at a time.', async(): Promise<void> => {
+    let page = await getPage(`${containerUrl}?limit=2`);
+    expect(page.contains).toEqual(children.slice(0, 2));
+    expect(page.isPage).toBe(true);
+    expect(page.next).toBeDefined();
+
+    page = await getPage(page.next!);
+    expect(page.contains).toEqual(children.slice(2, 4));
+    expect(page.next).toBeDefined();
+
+    page = await getPage(page.next!);
+    expect(page.contains).toEqual(children.slice(4));
+    expect(page.isPage).toBe(true);
+    expect(page.next).toBeUndefined();
+  });
+});
@@ -0,0 +1,132 @@
+import { promises as fsPromises } from 'fs';
+import fetch from 'cross-fetch';
+import { readdir } from 'fs-extra';
+import type { App } from '../../src/init/App';
+import { ENCRYPTION_OVERHEAD } from '../../src/storage/encryption/EncryptionUtil';
+import { joinFilePath } from '../../src/util/PathUtil';
+import { getPort } from '../util/Util';
+import { getDefaultVariables, getTestConfigPath, getTestFolder, instantiateFromConfig, removeFolder } from './Config';
+
+const port = getPort('EncryptedStorage');
+const baseUrl = `http://localhost:${port}/`;
+
+const rootFilePath = getTestFolder('encrypted-storage');
+const encryptionKey = Buffer.alloc(32, 'master').toString('base64');
+const pods = [ 'alice', 'bob' ];
+const content = 'This is a secret message.';
+
+/** Returns the ID of the key the given file was encrypted with. */
+async function getKeyId(filePath: string): Promise<string> {
+  const data = await fsPromises.readFile(filePath);
+  return data.subarray(1, 17).toString('hex');
+}
+
+describe('A server with an encrypted file backend', (): void => {
+  let app: App;
+
+  beforeAll(async(): Promise<void> => {
+    await removeFolder(rootFilePath);
+    const instances = await instantiateFromConfig(
+      'urn:solid-server:test:Instances',
+      getTestConfigPath('server-encrypted-file.json'),
+      {
+        ...getDefaultVariables(port, baseUrl),
+        'urn:solid-server:default:variable:rootFilePath': rootFilePath,
+        'urn:solid-server:default:variable:encryptionKey': encryptionKey,
+        'urn:solid-server:default:variable:PodQuota': 10000,
+      },
+    ) as Record<string, any>;
+    ({ app } = instances);
+    await app.start();
+
+    for (const pod of pods) {
+      await fetch(`${baseUrl}idp/register/`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          createWebId: 'on',
+          register: 'on',
+          createPod: 'on',
+          podName: pod,
+          email: `${pod}@example.com`,
+          password: 'password',
+          confirmPassword: 'password',
+        }),
+      });
+    }
+  });
+
+  afterAll(async(): Promise<void> => {
+    await app.stop();
+    await removeFolder(rootFilePath);
+  });
+
+  it('stores the data encrypted.', async(): Promise<void> => {
+    let response = await fetch(`${baseUrl}alice/secret.txt`, {
+      method: 'PUT',
+      headers: { 'content-type': 'text/plain' },
+      body: content,
+    });
+    expect(response.status).toBe(201);
+
+    const data = await fsPromises.readFile(joinFilePath(rootFilePath, 'alice/secret.txt'));
+    expect(data).toHaveLength(content.length + ENCRYPTION_OVERHEAD);
+    expect(data.indexOf(content)).toBe(-1);
+
+    response = await fetch(`${baseUrl}alice/secret.txt`);
+    expect(response.status).toBe(200);
+    await expect(response.text()).resolves.toBe(content);
+  });
+
+  it('supports range requests.', async(): Promise<void> => {
+    const response = await fetch(`${baseUrl}alice/secret.txt`, { headers: { range: 'bytes=10-15' }});
+    expect(response.status).toBe(206);
+    expect(response.headers.get('content-range')).toBe(`bytes 10-15/${content.length}`);
+    await expect(response.text()).resolves.toBe('secret');
+  });
+
+  it('encrypts the metadata.', async(): Promise<void> => {
+    let response = await fetch(`${baseUrl}alice/secret.txt.meta`, {
+      method: 'PATCH',
+      headers: { 'content-type': 'text/n3' },
+      body: `@prefix solid: <http://www.w3.org/ns/solid/terms#>.
+_:rename a solid:InsertDeletePatch;
+  solid:inserts { <${baseUrl}alice/secret.txt> <http://example.com/label> "hidden label". }.`,
+    });
+    expect(response.status).toBe(205);
+
+    const metadata = await fsPromises.readFile(joinFilePath(rootFilePath, 'alice/secret.txt.meta'), 'utf8');
+    expect(metadata).not.toContain('hidden label');
+
+    response = await fetch(`${baseUrl}alice/secret.txt.meta`);
+    await expect(response.text()).resolves.toContain('hidden label');
+  });
+
+  it('uses a different key for every pod.', async(): Promise<void> => {
+    const aliceKey = await getKeyId(joinFilePath(rootFilePath, 'alice/profile/card$.ttl'));
+    const bobKey = await getKeyId(joinFilePath(rootFilePath, 'bob/profile/card$.ttl'));
+    expect(aliceKey).not.toBe(bobKey);
+    await expect(getKeyId(joinFilePath(rootFilePath, 'alice/secret.txt'))).resolves.toBe(aliceKey);
+
+    // The keys are stored encrypted with the master key
+    const keys = await readdir(joinFilePath(rootFilePath, '.internal/encryption/keys/'));
+    expect(keys).toEqual(expect.arrayContaining([ aliceKey, bobKey ]
+      .map((id): string => `${Buffer.from(id).toString('base64')}$.json`)));
+  });
+
+  it('applies the quota to the unencrypted data.', async(): Promise<void> => {
+    let response = await fetch(`${baseUrl}bob/large.txt`, {
+      method: 'PUT',
+      headers: { 'content-type': 'text/plain' },
+      body: 'A'.repeat(10000),
+    });
+    expect(response.status).toBe(413);
+
+    response = await fetch(`${baseUrl}bob/small.txt`, {
+      method: 'PUT',
+      headers: { 'content-type': 'text/plain' },
+      body: 'A'.repeat(1000),
+    });
+    expect(response.status).toBe(201);
+  });
+});
@@ -0,0 +1,115 @@
+import fetch from 'cross-fetch';
+import { outputFile, remove, utimes } from 'fs-extra';
+import { WebSocket } from 'ws';
+import type { App } from '../../src/init/App';
+import { joinFilePath } from '../../src/util/PathUtil';
+import { getPort } from '../util/Util';
+import {
+  getDefaultVariables,
+  getTestConfigPath,
+  getTestFolder,
+  instantiateFromConfig,
+  removeFolder,
+} from './Config';
+
+const port = getPort('FileSystemWatcher');
+const baseUrl = `http://localhost:${port}/`;
+
+const rootFilePath = getTestFolder('file-system-watcher');
+
+async function waitForMessages(messages: string[], count: number): Promise<void> {
+  for (let i = 0; i < 100 && messages.length < count; i += 1) {
+    await new Promise((resolve): any => setTimeout(resolve, 50));
+  }
+}
+
+describe('A server with a file backend that watches its data folder', (): void => {
+  let app: App;
+  let client: WebSocket;
+  const messages = new Array<string>();
+
+  beforeAll(async(): Promise<void> => {
+    await removeFolder(rootFilePath);
+    const variables = {
+      ...getDefaultVariables(port, baseUrl),
+      'urn:solid-server:default:variable:rootFilePath': rootFilePath,
+    };
+
+    app = await instantiateFromConfig(
+      'urn:solid-server:default:App',
+      getTestConfigPath('server-file-watcher.json'),
+      variables,
+    ) as App;
+    await app.start();
+
+    client = new WebSocket(`ws://localhost:${port}`, [ 'solid-0.1' ]);
+    client.on('message', (message: Buffer): any => messages.push(message.toString()));
+    await new Promise((resolve): any => client.on('open', resolve));
+    client.send(`sub ${baseUrl}`);
+    client.send(`sub ${baseUrl}external.txt`);
+    await waitForMessages(messages, 3);
+    messages.length = 0;
+  });
+
+  afterEach((): void => {
+    messages.length = 0;
+  });
+
+  afterAll(async(): Promise<void> => {
+    client.close();
+    await app.stop();
+    await removeFolder(rootFilePath);
+  });
+
+  it('notifies the client of documents created by other tools.', async(): Promise<void> => {
+    const filePath = joinFilePath(rootFilePath, 'external.txt');
+    const past = new Date('2000-01-01');
+    await outputFile(filePath, 'external');
+    // Tools such as rsync keep the modified dates of the source
+    await utimes(rootFilePath, past, past);
+
+    await waitForMessages(messages, 2);
+    expect(messages).toHaveLength(2);
+    expect(messages).toEqual(expect.arrayContaining([
+      `pub ${baseUrl}`,
+      `pub ${baseUrl}external.txt`,
+    ]));
+
+    let response = await fetch(`${baseUrl}external.txt`);
+    expect(response.status).toBe(200);
+    await expect(response.text()).resolves.toBe('external');
+
+    response = await fetch(baseUrl);
+    expect(new Date(response.headers.get('last-modified')!).getTime()).toBeGreaterThan(past.getTime());
+  });
+
+  it('notifies the client of documents changed by other tools.', async(): Promise<void> => {
+    await outputFile(joinFilePath(rootFilePath, 'external.txt'), 'changed');
+    await waitForMessages(messages, 1);
+    expect(messages).toEqual([ `pub ${baseUrl}external.txt` ]);
+  });
+
+  it('sends a single notification for changes made by the server.', async(): Promise<void> => {
+    const response = await fetch(`${baseUrl}external.txt`, {
+      method: 'PUT',
+      headers: { 'content-type': 'text/plain' },
+      body: 'server',
+    });
+    expect(response.status).toBe(205);
+    await new Promise((resolve): any => setTimeout(resolve, 500));
+    expect(messages).toEqual([ `pub ${baseUrl}external.txt` ]);
+  });
+
+  it('notifies the client of documents removed by other tools.', async(): Promise<void> => {
+    await remove(joinFilePath(rootFilePath, 'external.txt'));
+    await waitForMessages(messages, 2);
+    expect(messages).toHaveLength(2);
+    expect(messages).toEqual(expect.arrayContaining([
+      `pub ${baseUrl}`,
+      `pub ${baseUrl}external.txt`,
+    ]));
+
+    const response = await fetch(`${baseUrl}external.txt`);
+    expect(response.status).toBe(404);
+  });
+});
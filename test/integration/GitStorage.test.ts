@@ -0,0 +1,112 @@
+import fetch from 'cross-fetch';
+import { simpleGit } from 'simple-git';
+import type { App } from '../../src/init/App';
+import { joinFilePath } from '../../src/util/PathUtil';
+import { getPort } from '../util/Util';
+import { getDefaultVariables, getTestConfigPath, getTestFolder, instantiateFromConfig, removeFolder } from './Config';
+
+const port = getPort('GitStorage');
+const baseUrl = `http://localhost:${port}/`;
+
+const rootFilePath = getTestFolder('git-storage');
+const webId = `${baseUrl}alice/profile/card#me`;
+
+async function getHistory(pod: string): Promise<{ message: string; author: string }[]> {
+  const log = await simpleGit(joinFilePath(rootFilePath, pod)).log();
+  return log.all.map((entry): { message: string; author: string } =>
+    ({ message: entry.message, author: `${entry.author_name} <${entry.author_email}>` }));
+}
+
+describe('A server with a git backend', (): void => {
+  let app: App;
+
+  beforeAll(async(): Promise<void> => {
+    await removeFolder(rootFilePath);
+    app = await instantiateFromConfig(
+      'urn:solid-server:default:App',
+      getTestConfigPath('server-git.json'),
+      {
+        ...getDefaultVariables(port, baseUrl),
+        'urn:solid-server:default:variable:rootFilePath': rootFilePath,
+      },
+    ) as App;
+    await app.start();
+
+    await fetch(`${baseUrl}idp/register/`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({
+        createWebId: 'on',
+        register: 'on',
+        createPod: 'on',
+        podName: 'alice',
+        email: 'alice@example.com',
+        password: 'password',
+        confirmPassword: 'password',
+      }),
+    });
+  });
+
+  afterAll(async(): Promise<void> => {
+    await app.stop();
+    await removeFolder(rootFilePath);
+  });
+
+  it('creates a repository containing the initial pod resources.', async(): Promise<void> => {
+    const history = await getHistory('alice');
+    expect(history.length).toBeGreaterThan(0);
+    expect(history[history.length - 1].message).toContain(`${baseUrl}alice/`);
+    const files = await simpleGit(joinFilePath(rootFilePath, 'alice')).raw([ 'ls-files' ]);
+    expect(files.split('\n')).toContain('profile/card$.ttl');
+  });
+
+  it('commits changes with the WebID of the agent as author.', async(): Promise<void> => {
+    let response = await fetch(`${baseUrl}alice/notes.txt`, {
+      method: 'PUT',
+      headers: { 'content-type': 'text/plain', authorization: `WebID ${webId}` },
+      body: 'first',
+    });
+    expect(response.status).toBe(201);
+    response = await fetch(`${baseUrl}alice/notes.txt`, {
+      method: 'PUT',
+      headers: { 'content-type': 'text/plain', authorization: `WebID ${webId}` },
+      body: 'second',
+    });
+    expect(response.status).toBe(205);
+    response = await fetch(`${baseUrl}alice/notes.txt`, { method: 'DELETE' });
+    expect(response.status).toBe(205);
+
+    const history = await getHistory('alice');
+    // Every write is followed by a commit storing the digest of the data in the metadata
+    expect(history.slice(0, 6)).toEqual([
+      { message: `Delete ${baseUrl}alice/notes.txt`, author: 'Community Solid Server <server@localhost>' },
+      { message: `Delete ${baseUrl}alice/notes.txt.meta`, author: 'Community Solid Server <server@localhost>' },
+      { message: `Update ${baseUrl}alice/notes.txt`, author: `${webId} <${webId}>` },
+      { message: `Update ${baseUrl}alice/notes.txt`, author: `${webId} <${webId}>` },
+      { message: `Update ${baseUrl}alice/notes.txt`, author: `${webId} <${webId}>` },
+      { message: `Create ${baseUrl}alice/notes.txt`, author: `${webId} <${webId}>` },
+    ]);
+
+    const git = simpleGit(joinFilePath(rootFilePath, 'alice'));
+    await expect(git.show([ 'HEAD~2:notes.txt' ])).resolves.toBe('second');
+    await expect(git.show([ 'HEAD~4:notes.txt' ])).resolves.toBe('first');
+  });
+
+  it('hides the repository.', async(): Promise<void> => {
+    let response = await fetch(`${baseUrl}alice/`, { headers: { accept: 'text/turtle' }});
+    expect(response.status).toBe(200);
+    await expect(response.text()).resolves.not.toContain('.git');
+
+    response = await fetch(`${baseUrl}alice/.git/HEAD`);
+    expect(response.status).toBe(404);
+  });
+
+  it('does not allow changes to the repository.', async(): Promise<void> => {
+    const response = await fetch(`${baseUrl}alice/.git/config`, {
+      method: 'PUT',
+      headers: { 'content-type': 'text/plain' },
+      body: '[core]',
+    });
+    expect(response.status).toBe(403);
+  });
+});
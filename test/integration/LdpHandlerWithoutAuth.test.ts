@@ -37,6 +37,10 @@ const stores: [string, any][] = [
     storeConfig: 'storage/backend/file.json',
     teardown: async(): Promise<void> => removeFolder(rootFilePath),
   }],
+  [ 'SQLite storage', {
+    storeConfig: 'storage/backend/sqlite.json',
+    teardown: async(): Promise<void> => removeFolder(rootFilePath),
+  }],
 ];
 
 describe.each(stores)('An LDP handler allowing all requests %s', (name, { storeConfig, teardown }): void => {
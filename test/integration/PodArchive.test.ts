@@ -0,0 +1,125 @@
+import fetch from 'cross-fetch';
+import type { App } from '../../src/init/App';
+import { getResource, putResource } from '../util/FetchUtil';
+import { getPort } from '../util/Util';
+import {
+  getDefaultVariables,
+  getPresetConfigPath,
+  getTestConfigPath,
+  getTestFolder,
+  instantiateFromConfig,
+  removeFolder,
+} from './Config';
+
+const sourcePort = getPort('PodArchive');
+const sourceUrl = `http://localhost:${sourcePort}/`;
+const targetPort = getPort('PodArchive-target');
+const targetUrl = `http://localhost:${targetPort}/`;
+
+const rootFilePath = getTestFolder('archive');
+
+const acl = `
+@prefix acl: <http://www.w3.org/ns/auth/acl#>.
+@prefix foaf: <http://xmlns.com/foaf/0.1/>.
+<#authorization> a acl:Authorization;
+  acl:agentClass foaf:Agent;
+  acl:mode acl:Read, acl:Write, acl:Control;
+  acl:accessTo <./document.ttl>.`;
+
+async function instantiateApp(port: number, baseUrl: string, storeConfig: string): Promise<App> {
+  const variables = {
+    ...getDefaultVariables(port, baseUrl),
+    'urn:solid-server:default:variable:rootFilePath': rootFilePath,
+  };
+  const instances = await instantiateFromConfig(
+    'urn:solid-server:test:Instances',
+    [
+      getPresetConfigPath(storeConfig),
+      getTestConfigPath('server-archive.json'),
+    ],
+    variables,
+  ) as Record<string, any>;
+  return instances.app;
+}
+
+describe('A server with pod archives', (): void => {
+  const binary = Buffer.from([ 0, 1, 2, 254, 255 ]);
+  let source: App;
+  let target: App;
+  let archive: ArrayBuffer;
+
+  beforeAll(async(): Promise<void> => {
+    source = await instantiateApp(sourcePort, sourceUrl, 'storage/backend/memory.json');
+    target = await instantiateApp(targetPort, targetUrl, 'storage/backend/file.json');
+    await source.start();
+    await target.start();
+
+    const turtle = `<${sourceUrl}a> <a:b> <a:c>.`;
+    await putResource(`${sourceUrl}container/document.ttl`, { contentType: 'text/turtle', body: turtle });
+    await putResource(`${sourceUrl}container/document.ttl.acl`, { contentType: 'text/turtle', body: acl });
+    await putResource(`${sourceUrl}container/nested/text.txt`, { contentType: 'text/plain', body: 'Some text.' });
+    await fetch(`${sourceUrl}container/image.bin`, {
+      method: 'PUT',
+      headers: { 'content-type': 'application/octet-stream' },
+      body: binary,
+    });
+  });
+
+  afterAll(async(): Promise<void> => {
+    await removeFolder(rootFilePath);
+    await source.stop();
+    await target.stop();
+  });
+
+  it('exports a storage as a tar archive.', async(): Promise<void> => {
+    const response = await fetch(`${sourceUrl}.archive`);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/x-tar');
+    archive = await response.arrayBuffer();
+    expect(archive.byteLength).toBeGreaterThan(0);
+  });
+
+  it('only accepts tar archives as import.', async(): Promise<void> => {
+    const response = await fetch(`${targetUrl}.archive`, {
+      method: 'PUT',
+      headers: { 'content-type': 'text/plain' },
+      body: 'not an archive',
+    });
+    expect(response.status).toBe(415);
+  });
+
+  it('imports an archive into another server.', async(): Promise<void> => {
+    const response = await fetch(`${targetUrl}.archive`, {
+      method: 'PUT',
+      headers: { 'content-type': 'application/x-tar' },
+      body: Buffer.from(archive),
+    });
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ resources: expect.any(Number) });
+  });
+
+  it('keeps the contents and content types of the resources.', async(): Promise<void> => {
+    const document = await getResource(`${targetUrl}container/document.ttl`, {}, { contentType: 'text/turtle' });
+    await expect(document.text()).resolves.toContain(`<${sourceUrl}a>`);
+
+    const text = await getResource(`${targetUrl}container/nested/text.txt`, {}, { contentType: 'text/plain' });
+    await expect(text.text()).resolves.toBe('Some text.');
+
+    const image = await getResource(`${targetUrl}container/image.bin`, {}, { contentType: 'application/octet-stream' });
+    expect(Buffer.from(await image.arrayBuffer())).toEqual(binary);
+
+    const aclResponse = await fetch(`${targetUrl}container/document.ttl.acl`);
+    expect(aclResponse.status).toBe(200);
+    await expect(aclResponse.text()).resolves.toContain('acl:Control');
+
+    const container = await getResource(`${targetUrl}container/`, {}, { contentType: 'text/turtle' });
+    const body = await container.text();
+    expect(body).toContain('<document.ttl>');
+    expect(body).toContain('<nested/>');
+  });
+
+  it('only exposes archives of storages.', async(): Promise<void> => {
+    const response = await fetch(`${sourceUrl}container/.archive`);
+    expect(response.status).toBe(404);
+  });
+});
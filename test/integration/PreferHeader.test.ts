@@ -0,0 +1,106 @@
+import fetch from 'cross-fetch';
+import type { App } from '../../src/init/App';
+import { LDP } from '../../src/util/Vocabularies';
+import { putResource } from '../util/FetchUtil';
+import { getPort } from '../util/Util';
+import { getDefaultVariables, getPresetConfigPath, getTestConfigPath, instantiateFromConfig } from './Config';
+
+const port = getPort('PreferHeader');
+const baseUrl = `http://localhost:${port}/`;
+
+describe('A server supporting the Prefer header', (): void => {
+  const containerUrl = `${baseUrl}container/`;
+  const documentUrl = `${containerUrl}document`;
+  let app: App;
+
+  beforeAll(async(): Promise<void> => {
+    const instances = await instantiateFromConfig(
+      'urn:solid-server:test:Instances',
+      [
+        getPresetConfigPath('storage/backend/memory.json'),
+        getTestConfigPath('ldp-with-auth.json'),
+      ],
+      getDefaultVariables(port, baseUrl),
+    ) as Record<string, any>;
+    ({ app } = instances);
+
+    await app.start();
+
+    await putResource(documentUrl, { contentType: 'text/plain', body: 'data' });
+  });
+
+  afterAll(async(): Promise<void> => {
+    await app.stop();
+  });
+
+  it('includes the containment triples by default.', async(): Promise<void> => {
+    const response = await fetch(containerUrl);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('preference-applied')).toBeNull();
+    await expect(response.text()).resolves.toContain('ldp:contains <document>');
+  });
+
+  it('can omit the containment triples.', async(): Promise<void> => {
+    let response = await fetch(containerUrl,
+      { headers: { prefer: `return=representation; omit="${LDP.PreferContainment}"` }});
+    expect(response.status).toBe(200);
+    expect(response.headers.get('preference-applied')).toBe('return=representation');
+    let body = await response.text();
+    expect(body).toContain('ldp:BasicContainer');
+    expect(body).not.toContain('document');
+
+    response = await fetch(containerUrl,
+      { headers: { prefer: `return=representation; include="${LDP.PreferMinimalContainer}"` }});
+    body = await response.text();
+    expect(body).toContain('ldp:BasicContainer');
+    expect(body).not.toContain('document');
+  });
+
+  it('returns the updated resource after a PUT or PATCH.', async(): Promise<void> => {
+    let response = await fetch(documentUrl, {
+      method: 'PUT',
+      headers: { 'content-type': 'text/plain', prefer: 'return=representation' },
+      body: 'new data',
+    });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('preference-applied')).toBe('return=representation');
+    expect(response.headers.get('content-type')).toBe('text/plain');
+    await expect(response.text()).resolves.toBe('new data');
+
+    const turtleUrl = `${containerUrl}turtle`;
+    response = await fetch(turtleUrl, {
+      method: 'PATCH',
+      headers: { 'content-type': 'text/n3', prefer: 'return=representation', accept: 'text/turtle' },
+      body: `@prefix solid: <http://www.w3.org/ns/solid/terms#>.
+        _:patch a solid:InsertDeletePatch; solid:inserts { <a> <b> <c>. }.`,
+    });
+    expect(response.status).toBe(201);
+    expect(response.headers.get('location')).toBe(turtleUrl);
+    expect(response.headers.get('preference-applied')).toBe('return=representation');
+    expect(response.headers.get('content-type')).toBe('text/turtle');
+    await expect(response.text()).resolves.toContain(`<${containerUrl}a> <${containerUrl}b> <${containerUrl}c>`);
+  });
+
+  it('returns the created resource after a POST.', async(): Promise<void> => {
+    const response = await fetch(containerUrl, {
+      method: 'POST',
+      headers: { 'content-type': 'text/plain', prefer: 'return=representation' },
+      body: 'posted',
+    });
+    expect(response.status).toBe(201);
+    const location = response.headers.get('location');
+    expect(location?.startsWith(containerUrl)).toBe(true);
+    expect(response.headers.get('preference-applied')).toBe('return=representation');
+    await expect(response.text()).resolves.toBe('posted');
+  });
+
+  it('returns an empty response without the preference.', async(): Promise<void> => {
+    const response = await fetch(documentUrl, {
+      method: 'PUT',
+      headers: { 'content-type': 'text/plain' },
+      body: 'data',
+    });
+    expect(response.status).toBe(205);
+    expect(response.headers.get('preference-applied')).toBeNull();
+  });
+});
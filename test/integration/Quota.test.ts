@@ -2,9 +2,8 @@ import { promises as fsPromises } from 'fs';
 import type { Stats } from 'fs';
 import fetch from 'cross-fetch';
 import type { Response } from 'cross-fetch';
-import { pathExists } from 'fs-extra';
-import { joinFilePath, joinUrl } from '../../src';
-import type { App } from '../../src';
+import { CONTENT_LENGTH, joinFilePath, joinUrl, SOLID_META } from '../../src';
+import type { App, LedgerSizeReporter } from '../../src';
 import { getPort } from '../util/Util';
 import { getDefaultVariables, getTestConfigPath, getTestFolder, instantiateFromConfig, removeFolder } from './Config';
 
@@ -89,6 +88,7 @@ describe('A quota server', (): void => {
     const rootFilePath = getTestFolder('quota-pod');
 
     let app: App;
+    let ledger: LedgerSizeReporter;
 
     beforeAll(async(): Promise<void> => {
       // Calculate the allowed quota depending on file system used
@@ -103,12 +103,14 @@ describe('A quota server', (): void => {
           'urn:solid-server:default:variable:PodQuota': size,
         },
       ) as Record<string, any>;
-      ({ app } = instances);
+      ({ app, ledger } = instances);
       await app.start();
 
       // Initialize 2 pods
       await registerTestPods(baseUrl, [ podName1, podName2 ]);
       await clearInitialFiles(rootFilePath, [ podName1, podName2 ]);
+      // The files were removed without the server knowing
+      await ledger.reconcile();
     });
 
     afterAll(async(): Promise<void> => {
@@ -153,17 +155,54 @@ describe('A quota server', (): void => {
       expect((await response2).status).toBe(413);
     });
 
-    it('should not generate metadata files (the only possible entry content-length is removed after quota validation).',
+    it('should not store the content-length in the metadata files as it is removed after quota validation.',
       async(): Promise<void> => {
         const testFile3 = `${pod1}/test3.txt`;
         const response1 = performSimplePutWithLength(testFile3, 100);
         await expect(response1).resolves.toBeDefined();
         expect((await response1).status).toBe(201);
 
-        // Validate that a meta file was not created
-        const check = await pathExists(`${rootFilePath}/${podName1}/test3.txt.meta`);
-        expect(check).toBe(false);
+        // Validate that the meta file only contains the digest of the data
+        const metadata = await fsPromises.readFile(`${rootFilePath}/${podName1}/test3.txt.meta`, 'utf8');
+        expect(metadata).toContain(SOLID_META.contentDigest);
+        expect(metadata).not.toContain(CONTENT_LENGTH);
       });
+
+    it('should add the quota usage to the responses of write requests.', async(): Promise<void> => {
+      const response = await performSimplePutWithLength(`${pod1}/test3.txt`, 50);
+      expect(response.status).toBe(205);
+      expect(response.headers.get('quota-limit')).toBe(`${folderSizeTest.size + 4000}`);
+      expect(response.headers.get('quota-unit')).toBe('bytes');
+      const used = Number(response.headers.get('quota-used'));
+      const available = Number(response.headers.get('quota-available'));
+      expect(used + available).toBe(folderSizeTest.size + 4000);
+    });
+
+    it('should describe the quota usage in the storage description.', async(): Promise<void> => {
+      const response = await fetch(`${pod1}/.well-known/solid`, { headers: { accept: 'text/turtle' }});
+      expect(response.status).toBe(200);
+      const body = await response.text();
+      expect(body).toContain(`<urn:npm:solid:community-server:quota:limit> ${folderSizeTest.size + 4000}`);
+      expect(body).toContain('<urn:npm:solid:community-server:quota:unit> "bytes"');
+      expect(body).toContain('<urn:npm:solid:community-server:quota:used>');
+      expect(body).toContain('<urn:npm:solid:community-server:quota:available>');
+    });
+
+    it('should describe the limit in the body of a 413 response.', async(): Promise<void> => {
+      const response = await fetch(`${pod1}/test4.txt`, {
+        method: 'PUT',
+        headers: { 'content-type': 'text/plain', accept: 'application/json' },
+        body: 'A'.repeat(5000),
+      });
+      expect(response.status).toBe(413);
+      const body = await response.json();
+      expect(body.message).toContain(`The quota limit is ${folderSizeTest.size + 4000} bytes.`);
+      expect(body.details).toEqual(expect.objectContaining({
+        limit: folderSizeTest.size + 4000,
+        size: 5000,
+        unit: 'bytes',
+      }));
+    });
   });
 
   /** Test the general functionality of the server using global quota */
@@ -175,6 +214,7 @@ describe('A quota server', (): void => {
     const rootFilePath = getTestFolder('quota-global');
 
     let app: App;
+    let ledger: LedgerSizeReporter;
 
     beforeAll(async(): Promise<void> => {
       // Calculate the allowed quota depending on file system used
@@ -189,12 +229,14 @@ describe('A quota server', (): void => {
           'urn:solid-server:default:variable:GlobalQuota': size,
         },
       ) as Record<string, any>;
-      ({ app } = instances);
+      ({ app, ledger } = instances);
       await app.start();
 
       // Initialize 2 pods
       await registerTestPods(baseUrl, [ podName1, podName2 ]);
       await clearInitialFiles(rootFilePath, [ podName1, podName2 ]);
+      // The files were removed without the server knowing
+      await ledger.reconcile();
     });
 
     afterAll(async(): Promise<void> => {
@@ -232,16 +274,73 @@ describe('A quota server', (): void => {
       expect(awaitedRes2.status).toBe(413);
     });
 
-    it('should not generate metadata files (the only possible entry content-length is removed after quota validation).',
+    it('should not store the content-length in the metadata files as it is removed after quota validation.',
       async(): Promise<void> => {
         const testFile3 = `${pod1}/test5.txt`;
         const response1 = performSimplePutWithLength(testFile3, 100);
         await expect(response1).resolves.toBeDefined();
         expect((await response1).status).toBe(201);
 
-        // Validate that a meta file was not created
-        const check = await pathExists(`${rootFilePath}/${podName1}/test5.txt.meta`);
-        expect(check).toBe(false);
+        // Validate that the meta file only contains the digest of the data
+        const metadata = await fsPromises.readFile(`${rootFilePath}/${podName1}/test5.txt.meta`, 'utf8');
+        expect(metadata).toContain(SOLID_META.contentDigest);
+        expect(metadata).not.toContain(CONTENT_LENGTH);
       });
   });
+
+  /** Test limiting the number of resources instead of their size */
+  describe('with a resource count quota on a memory backend', (): void => {
+    const port = getPort('CountQuota');
+    const baseUrl = `http://localhost:${port}/`;
+    const limit = 10;
+
+    let app: App;
+    let ledger: LedgerSizeReporter;
+    let used: number;
+
+    beforeAll(async(): Promise<void> => {
+      const instances = await instantiateFromConfig(
+        'urn:solid-server:test:Instances',
+        getTestConfigPath('quota-count.json'),
+        {
+          ...getDefaultVariables(port, baseUrl),
+          'urn:solid-server:default:variable:CountQuota': limit,
+        },
+      ) as Record<string, any>;
+      ({ app, ledger } = instances);
+      await app.start();
+
+      ({ amount: used } = await ledger.getSize({ path: baseUrl }));
+    });
+
+    afterAll(async(): Promise<void> => {
+      await app.stop();
+    });
+
+    it('should return 413 when the number of resources would exceed the limit.', async(): Promise<void> => {
+      expect(used).toBeLessThan(limit);
+      for (let i = used; i < limit; ++i) {
+        const response = await performSimplePutWithLength(`${baseUrl}count${i}.txt`, 10);
+        expect(response.status).toBe(201);
+      }
+      await expect(ledger.getSize({ path: baseUrl })).resolves.toEqual({ unit: 'resources', amount: limit });
+
+      const response = await performSimplePutWithLength(`${baseUrl}extra.txt`, 10);
+      expect(response.status).toBe(413);
+    });
+
+    it('should allow overwriting existing resources when the limit is reached.', async(): Promise<void> => {
+      const response = await performSimplePutWithLength(`${baseUrl}count${used}.txt`, 5000);
+      expect(response.status).toBe(205);
+    });
+
+    it('should allow creating resources again after resources are removed.', async(): Promise<void> => {
+      let response = await fetch(`${baseUrl}count${used}.txt`, { method: 'DELETE' });
+      expect(response.status).toBe(205);
+      await expect(ledger.getSize({ path: baseUrl })).resolves.toEqual({ unit: 'resources', amount: limit - 1 });
+
+      response = await performSimplePutWithLength(`${baseUrl}extra.txt`, 10);
+      expect(response.status).toBe(201);
+    });
+  });
 });
@@ -0,0 +1,138 @@
+import fetch from 'cross-fetch';
+import type { App } from '../../src/init/App';
+import { putResource } from '../util/FetchUtil';
+import { getPort } from '../util/Util';
+import {
+  getDefaultVariables,
+  getPresetConfigPath,
+  getTestConfigPath,
+  getTestFolder,
+  instantiateFromConfig,
+  removeFolder,
+} from './Config';
+
+const port = getPort('RangeRequests');
+const baseUrl = `http://localhost:${port}/`;
+
+// The file backend slices the data itself while the memory backend relies on the generic implementation
+const rootFilePath = getTestFolder('range-requests');
+const stores: [string, any][] = [
+  [ 'in-memory storage', {
+    storeConfig: 'storage/backend/memory.json',
+    teardown: jest.fn(),
+  }],
+  [ 'on-disk storage', {
+    storeConfig: 'storage/backend/file.json',
+    teardown: async(): Promise<void> => removeFolder(rootFilePath),
+  }],
+];
+
+describe.each(stores)('A server supporting range requests with %s', (name, { storeConfig, teardown }): void => {
+  const documentUrl = `${baseUrl}video.mp4`;
+  let app: App;
+
+  beforeAll(async(): Promise<void> => {
+    const variables = {
+      ...getDefaultVariables(port, baseUrl),
+      'urn:solid-server:default:variable:rootFilePath': rootFilePath,
+    };
+
+    const instances = await instantiateFromConfig(
+      'urn:solid-server:test:Instances',
+      [
+        getPresetConfigPath(storeConfig),
+        getTestConfigPath('ldp-with-auth.json'),
+      ],
+      variables,
+    ) as Record<string, any>;
+    ({ app } = instances);
+
+    await app.start();
+
+    await putResource(documentUrl, { contentType: 'video/mp4', body: '0123456789' });
+  });
+
+  afterAll(async(): Promise<void> => {
+    await teardown();
+    await app.stop();
+  });
+
+  it('advertises support for byte ranges.', async(): Promise<void> => {
+    const response = await fetch(documentUrl);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('accept-ranges')).toBe('bytes');
+    expect(response.headers.get('content-range')).toBeNull();
+    await expect(response.text()).resolves.toBe('0123456789');
+  });
+
+  it('returns the requested range.', async(): Promise<void> => {
+    let response = await fetch(documentUrl, { headers: { range: 'bytes=2-4' }});
+    expect(response.status).toBe(206);
+    expect(response.headers.get('content-type')).toBe('video/mp4');
+    expect(response.headers.get('content-range')).toBe('bytes 2-4/10');
+    await expect(response.text()).resolves.toBe('234');
+
+    response = await fetch(documentUrl, { headers: { range: 'bytes=-3' }});
+    expect(response.status).toBe(206);
+    expect(response.headers.get('content-range')).toBe('bytes 7-9/10');
+    await expect(response.text()).resolves.toBe('789');
+  });
+
+  it('returns multiple ranges as a multipart response.', async(): Promise<void> => {
+    const response = await fetch(documentUrl, { headers: { range: 'bytes=0-1, 8-' }});
+    expect(response.status).toBe(206);
+    expect(response.headers.get('content-range')).toBeNull();
+    const contentType = response.headers.get('content-type')!;
+    expect(contentType).toMatch(/^multipart\/byteranges; boundary=/u);
+    const boundary = contentType.split('boundary=')[1];
+    await expect(response.text()).resolves.toBe([
+      `--${boundary}`,
+      'Content-Type: video/mp4',
+      'Content-Range: bytes 0-1/10',
+      '',
+      '01',
+      `--${boundary}`,
+      'Content-Type: video/mp4',
+      'Content-Range: bytes 8-9/10',
+      '',
+      '89',
+      `--${boundary}--`,
+      '',
+    ].join('\r\n'));
+  });
+
+  it('returns a 416 if the range can not be satisfied.', async(): Promise<void> => {
+    const response = await fetch(documentUrl, { headers: { range: 'bytes=10-' }});
+    expect(response.status).toBe(416);
+    expect(response.headers.get('content-range')).toBe('bytes */10');
+  });
+
+  it('only returns the range if the If-Range header matches.', async(): Promise<void> => {
+    const etag = (await fetch(documentUrl, { method: 'HEAD' })).headers.get('etag')!;
+    let response = await fetch(documentUrl, { headers: { range: 'bytes=0-0', 'if-range': etag }});
+    expect(response.status).toBe(206);
+    await expect(response.text()).resolves.toBe('0');
+
+    response = await fetch(documentUrl, { headers: { range: 'bytes=0-0', 'if-range': '"wrong"' }});
+    expect(response.status).toBe(200);
+    await expect(response.text()).resolves.toBe('0123456789');
+  });
+
+  it('applies the range to the converted representation.', async(): Promise<void> => {
+    const turtleUrl = `${baseUrl}document.ttl`;
+    await putResource(turtleUrl, { contentType: 'text/turtle', body: '<a:b> <a:b> <a:b>.' });
+    const full = await (await fetch(turtleUrl, { headers: { accept: 'application/ld+json' }})).text();
+
+    const response = await fetch(turtleUrl, { headers: { accept: 'application/ld+json', range: 'bytes=0-4' }});
+    expect(response.status).toBe(206);
+    expect(response.headers.get('content-type')).toBe('application/ld+json');
+    expect(response.headers.get('content-range')).toBe(`bytes 0-4/${Buffer.byteLength(full)}`);
+    await expect(response.text()).resolves.toBe(full.slice(0, 5));
+  });
+
+  it('ignores ranges on HEAD requests.', async(): Promise<void> => {
+    const response = await fetch(documentUrl, { method: 'HEAD', headers: { range: 'bytes=0-1' }});
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-range')).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+import fetch from 'cross-fetch';
+import { DataFactory } from 'n3';
+import type { App, ResourceStore } from '../../src/';
+import { AclHelper } from '../util/AclHelper';
+import { deleteResource, expectQuads, getResource, postResource, putResource } from '../util/FetchUtil';
+import { getPort } from '../util/Util';
+import { getDefaultVariables, getPresetConfigPath, getTestConfigPath, instantiateFromConfig } from './Config';
+const { literal, namedNode, quad } = DataFactory;
+
+const port = getPort('RepresentationCache');
+const baseUrl = `http://localhost:${port}/`;
+
+describe('A server with a representation cache', (): void => {
+  let app: App;
+  let store: ResourceStore;
+  let aclHelper: AclHelper;
+
+  beforeAll(async(): Promise<void> => {
+    const instances = await instantiateFromConfig(
+      'urn:solid-server:test:Instances',
+      [
+        getPresetConfigPath('storage/backend/memory.json'),
+        getTestConfigPath('ldp-with-cache.json'),
+      ],
+      getDefaultVariables(port, baseUrl),
+    ) as Record<string, any>;
+    ({ app, store } = instances);
+    await app.start();
+
+    aclHelper = new AclHelper(store);
+    await aclHelper.setSimpleAcl(baseUrl, {
+      permissions: { read: true, write: true, append: true, control: true },
+      agentClass: 'agent',
+      accessTo: true,
+      default: true,
+    });
+  });
+
+  afterAll(async(): Promise<void> => {
+    await app.stop();
+  });
+
+  it('serves the new representations of changed documents.', async(): Promise<void> => {
+    const url = `${baseUrl}profile`;
+    await putResource(url, { contentType: 'text/turtle', body: '<> <http://ex.org/p> "first".' });
+    let response = await getResource(url, { accept: 'text/turtle' }, { contentType: 'text/turtle' });
+    await expectQuads(response, [ quad(namedNode(url), namedNode('http://ex.org/p'), literal('first')) ], true);
+    response = await getResource(url, { accept: 'text/turtle' }, { contentType: 'text/turtle' });
+    await expectQuads(response, [ quad(namedNode(url), namedNode('http://ex.org/p'), literal('first')) ], true);
+
+    await putResource(url, { contentType: 'text/turtle', body: '<> <http://ex.org/p> "second".', exists: true });
+    response = await getResource(url, { accept: 'text/turtle' }, { contentType: 'text/turtle' });
+    await expectQuads(response, [ quad(namedNode(url), namedNode('http://ex.org/p'), literal('second')) ], true);
+    response = await getResource(url, { accept: 'application/ld+json' }, { contentType: 'application/ld+json' });
+    await expect(response.json()).resolves.toEqual(expect.arrayContaining([
+      expect.objectContaining({ 'http://ex.org/p': [{ '@value': 'second' }]}),
+    ]));
+
+    await deleteResource(url);
+  });
+
+  it('serves the new representations of containers of which the contents changed.', async(): Promise<void> => {
+    const container = `${baseUrl}container/`;
+    await putResource(container, { contentType: 'text/turtle' });
+    let response = await getResource(container);
+    await expect(response.text()).resolves.not.toContain('<document>');
+
+    const document = `${container}document`;
+    await postResource(container, { contentType: 'text/plain', slug: 'document', body: 'data' });
+    response = await getResource(container);
+    await expect(response.text()).resolves.toContain('<document>');
+
+    await deleteResource(document);
+    response = await getResource(container);
+    await expect(response.text()).resolves.not.toContain('<document>');
+
+    await deleteResource(container);
+  });
+
+  it('applies changes to the ACL resources immediately.', async(): Promise<void> => {
+    const url = `${baseUrl}secret`;
+    await putResource(url, { contentType: 'text/plain', body: 'secret' });
+    await getResource(url);
+
+    await aclHelper.setSimpleAcl(url, {
+      permissions: { write: true },
+      agentClass: 'agent',
+      accessTo: true,
+    });
+    const response = await fetch(url);
+    expect(response.status).toBe(401);
+
+    await aclHelper.setSimpleAcl(url, {
+      permissions: { read: true, write: true },
+      agentClass: 'agent',
+      accessTo: true,
+    });
+    await getResource(url);
+    await deleteResource(url);
+  });
+});
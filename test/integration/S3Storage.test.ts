@@ -0,0 +1,100 @@
+import { CreateBucketCommand, S3Client } from '@aws-sdk/client-s3';
+import fetch from 'cross-fetch';
+import { DataFactory } from 'n3';
+import type { App } from '../../src/';
+import { LDP } from '../../src/util/Vocabularies';
+import { deleteResource, expectQuads, getResource, patchResource, putResource } from '../util/FetchUtil';
+import { describeIf, getPort } from '../util/Util';
+import { getDefaultVariables, getTestConfigPath, instantiateFromConfig } from './Config';
+const { literal, namedNode, quad } = DataFactory;
+
+const port = getPort('S3Storage');
+const baseUrl = `http://localhost:${port}/`;
+
+// Uses the object storage started by the docker scripts, see `test/integration/config/storage-s3.json`
+async function createBucket(): Promise<void> {
+  const client = new S3Client({
+    endpoint: 'http://localhost:4001',
+    region: 'us-east-1',
+    forcePathStyle: true,
+    credentials: { accessKeyId: 'css-test', secretAccessKey: 'css-test-secret' },
+  });
+  try {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    await client.send(new CreateBucketCommand({ Bucket: 'css-test' }));
+  } catch {
+    // The bucket already exists
+  }
+  client.destroy();
+}
+
+describeIf('docker')('A server with an S3-compatible object storage as storage', (): void => {
+  const containerUrl = `${baseUrl}s3-${Date.now()}/`;
+  const documentUrl = `${containerUrl}document`;
+  let app: App;
+
+  beforeAll(async(): Promise<void> => {
+    await createBucket();
+
+    const instances = await instantiateFromConfig(
+      'urn:solid-server:test:Instances',
+      [
+        getTestConfigPath('storage-s3.json'),
+        getTestConfigPath('ldp-with-auth.json'),
+      ],
+      getDefaultVariables(port, baseUrl),
+    ) as Record<string, any>;
+    ({ app } = instances);
+
+    await app.start();
+  });
+
+  afterAll(async(): Promise<void> => {
+    await app.stop();
+  });
+
+  it('can create documents in new containers.', async(): Promise<void> => {
+    await putResource(documentUrl, { contentType: 'text/plain', body: 'TESTDATA' });
+
+    const response = await getResource(documentUrl, {}, { contentType: 'text/plain' });
+    await expect(response.text()).resolves.toBe('TESTDATA');
+  });
+
+  it('can read a range of a document.', async(): Promise<void> => {
+    const response = await fetch(documentUrl, { headers: { range: 'bytes=4-' }});
+    expect(response.status).toBe(206);
+    expect(response.headers.get('content-range')).toBe('bytes 4-7/8');
+    await expect(response.text()).resolves.toBe('DATA');
+  });
+
+  it('lists the children of containers.', async(): Promise<void> => {
+    await putResource(`${containerUrl}container/`, { contentType: 'text/turtle' });
+
+    const response = await getResource(containerUrl);
+    await expectQuads(response, [
+      quad(namedNode(containerUrl), LDP.terms.contains, namedNode(documentUrl)),
+      quad(namedNode(containerUrl), LDP.terms.contains, namedNode(`${containerUrl}container/`)),
+    ]);
+    const pageResponse = await fetch(`${containerUrl}?limit=1`);
+    expect(pageResponse.headers.get('link')).toContain(
+      `<${containerUrl}?limit=1&after=${encodeURIComponent(`${containerUrl}container/`)}>; rel="next"`,
+    );
+  });
+
+  it('can store metadata of documents.', async(): Promise<void> => {
+    const query = `INSERT DATA { <${documentUrl}> <http://example.org/likes> "apples". }`;
+    await patchResource(`${documentUrl}.meta`, query, 'sparql', true);
+
+    const response = await fetch(`${documentUrl}.meta`);
+    expect(response.status).toBe(200);
+    await expectQuads(response, [
+      quad(namedNode(documentUrl), namedNode('http://example.org/likes'), literal('apples')),
+    ]);
+  });
+
+  it('can delete documents and containers.', async(): Promise<void> => {
+    await deleteResource(documentUrl);
+    await deleteResource(`${containerUrl}container/`);
+    await deleteResource(containerUrl);
+  });
+});
@@ -0,0 +1,113 @@
+import fetch from 'cross-fetch';
+import type { App } from '../../src/init/App';
+import { AppRunner } from '../../src/init/AppRunner';
+import { MigrationRunner } from '../../src/init/MigrationRunner';
+import { joinFilePath } from '../../src/util/PathUtil';
+import { getResource, patchResource, putResource } from '../util/FetchUtil';
+import { getPort } from '../util/Util';
+import { getDefaultVariables, getPresetConfigPath, getTestConfigPath, getTestFolder, removeFolder } from './Config';
+
+const port = getPort('StorageMigration');
+const baseUrl = `http://localhost:${port}/`;
+
+const rootFilePath = getTestFolder('migration');
+const sourceFilePath = joinFilePath(rootFilePath, 'source');
+const targetFilePath = joinFilePath(rootFilePath, 'target');
+const progressPath = joinFilePath(rootFilePath, 'migration.json');
+
+const sourceConfig = getPresetConfigPath('file-no-setup.json');
+const targetConfig = getTestConfigPath('migration-sqlite.json');
+const loaderProperties = {
+  mainModulePath: joinFilePath(__dirname, '../../'),
+  logLevel: 'error' as const,
+  typeChecking: false,
+};
+
+async function createApp(config: string, filePath: string): Promise<App> {
+  return new AppRunner().create(loaderProperties, config, {
+    ...getDefaultVariables(port, baseUrl),
+    'urn:solid-server:default:variable:rootFilePath': filePath,
+  });
+}
+
+describe('A storage migration', (): void => {
+  const binary = Buffer.from([ 0, 1, 2, 254, 255 ]);
+
+  beforeAll(async(): Promise<void> => {
+    const source = await createApp(sourceConfig, sourceFilePath);
+    await source.start();
+    await putResource(`${baseUrl}container/document.ttl`,
+      { contentType: 'text/turtle', body: '<a:a> <a:b> [ <a:c> "d" ].' });
+    await putResource(`${baseUrl}container/nested/text.txt`, { contentType: 'text/plain', body: 'Some text.' });
+    await fetch(`${baseUrl}container/image.bin`, {
+      method: 'PUT',
+      headers: { 'content-type': 'application/octet-stream' },
+      body: binary,
+    });
+    const query = `INSERT DATA { <${baseUrl}container/> <http://purl.org/dc/terms/title> "Container". }`;
+    await patchResource(`${baseUrl}container/.meta`, query, 'sparql', true);
+    await source.stop();
+  });
+
+  afterAll(async(): Promise<void> => {
+    await removeFolder(rootFilePath);
+  });
+
+  it('copies and verifies all resources.', async(): Promise<void> => {
+    const report = await new MigrationRunner().migrate({
+      loaderProperties,
+      sourceConfig,
+      sourceShorthand: { rootFilePath: sourceFilePath },
+      targetConfig,
+      targetShorthand: { rootFilePath: targetFilePath },
+      baseUrl,
+      progressPath,
+    });
+    expect(report.unsupported).toEqual([]);
+    expect(report.mismatched).toEqual([]);
+    expect(report.resumed).toBe(0);
+    expect(report.copied).toBe(report.total);
+    expect(report.targetTotal).toBe(report.total);
+  });
+
+  it('skips the migrated resources when running again.', async(): Promise<void> => {
+    const report = await new MigrationRunner().migrate({
+      loaderProperties,
+      sourceConfig,
+      sourceShorthand: { rootFilePath: sourceFilePath },
+      targetConfig,
+      targetShorthand: { rootFilePath: targetFilePath },
+      baseUrl,
+      progressPath,
+    });
+    expect(report.copied).toBe(0);
+    expect(report.resumed).toBe(report.total);
+  });
+
+  it('can serve the migrated resources from the new backend.', async(): Promise<void> => {
+    const target = await createApp(targetConfig, targetFilePath);
+    await target.start();
+    try {
+      const document = await getResource(`${baseUrl}container/document.ttl`, {}, { contentType: 'text/turtle' });
+      await expect(document.text()).resolves.toContain('<a:b>');
+
+      const text = await getResource(`${baseUrl}container/nested/text.txt`, {}, { contentType: 'text/plain' });
+      await expect(text.text()).resolves.toBe('Some text.');
+
+      const image = await getResource(`${baseUrl}container/image.bin`, {}, { contentType: 'application/octet-stream' });
+      expect(Buffer.from(await image.arrayBuffer())).toEqual(binary);
+
+      const container = await getResource(`${baseUrl}container/`, {}, { contentType: 'text/turtle' });
+      const body = await container.text();
+      expect(body).toContain('"Container"');
+      expect(body).toContain('<document.ttl>');
+      expect(body).toContain('<nested/>');
+
+      // The root ACL is needed to access the data
+      const acl = await fetch(`${baseUrl}.acl`);
+      expect(acl.status).toBe(200);
+    } finally {
+      await target.stop();
+    }
+  });
+});
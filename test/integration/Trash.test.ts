@@ -0,0 +1,126 @@
+import fetch from 'cross-fetch';
+import type { App } from '../../src/init/App';
+import { deleteResource, getResource, putResource } from '../util/FetchUtil';
+import { getPort } from '../util/Util';
+import {
+  getDefaultVariables,
+  getPresetConfigPath,
+  getTestConfigPath,
+  getTestFolder,
+  instantiateFromConfig,
+  removeFolder,
+} from './Config';
+
+const port = getPort('Trash');
+const baseUrl = `http://localhost:${port}/`;
+
+const rootFilePath = getTestFolder('trash');
+const stores: [string, any][] = [
+  [ 'in-memory storage', {
+    storeConfig: 'storage/backend/memory.json',
+    teardown: jest.fn(),
+  }],
+  [ 'on-disk storage', {
+    storeConfig: 'storage/backend/file.json',
+    teardown: async(): Promise<void> => removeFolder(rootFilePath),
+  }],
+];
+
+const acl = `
+@prefix acl: <http://www.w3.org/ns/auth/acl#>.
+@prefix foaf: <http://xmlns.com/foaf/0.1/>.
+<#authorization> a acl:Authorization;
+  acl:agentClass foaf:Agent;
+  acl:mode acl:Read, acl:Write, acl:Control;
+  acl:accessTo <./document.ttl>.`;
+
+describe.each(stores)('A server with a trash using %s', (name, { storeConfig, teardown }): void => {
+  const trashUrl = `${baseUrl}.trash/`;
+  const container = `${baseUrl}container/`;
+  const document = `${container}document.ttl`;
+  let app: App;
+  let entries: { id: string; path: string; deleted: string }[];
+
+  beforeAll(async(): Promise<void> => {
+    const variables = {
+      ...getDefaultVariables(port, baseUrl),
+      'urn:solid-server:default:variable:rootFilePath': rootFilePath,
+    };
+
+    const instances = await instantiateFromConfig(
+      'urn:solid-server:test:Instances',
+      [
+        getPresetConfigPath(storeConfig),
+        getTestConfigPath('server-trash.json'),
+      ],
+      variables,
+    ) as Record<string, any>;
+    ({ app } = instances);
+
+    await app.start();
+  });
+
+  afterAll(async(): Promise<void> => {
+    await teardown();
+    await app.stop();
+  });
+
+  it('moves deleted resources to the trash.', async(): Promise<void> => {
+    await putResource(document, { contentType: 'text/turtle', body: '<a:b> <a:b> <a:b>.' });
+    await putResource(`${document}.acl`, { contentType: 'text/turtle', body: acl });
+    await deleteResource(document);
+    await deleteResource(container);
+
+    const response = await fetch(trashUrl);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/json');
+    entries = await response.json();
+    expect(entries.map((entry): string => entry.path)).toEqual([ container, document ]);
+  });
+
+  it('describes the resources of an entry.', async(): Promise<void> => {
+    const response = await fetch(`${trashUrl}${entries[1].id}`);
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual(expect.objectContaining({
+      path: document,
+      resources: [ document, `${document}.acl` ],
+    }));
+  });
+
+  it('restores a container together with its contents.', async(): Promise<void> => {
+    const response = await fetch(`${trashUrl}${entries[0].id}`, { method: 'POST' });
+    expect(response.status).toBe(201);
+    expect(response.headers.get('location')).toBe(container);
+
+    await expect((await getResource(document)).text()).resolves.toContain('<a:b>');
+    const aclResponse = await fetch(`${document}.acl`);
+    expect(aclResponse.status).toBe(200);
+    await expect(aclResponse.text()).resolves.toContain('acl:Control');
+
+    const list = await fetch(trashUrl);
+    await expect(list.json()).resolves.toEqual([]);
+  });
+
+  it('can not restore resources that exist.', async(): Promise<void> => {
+    await deleteResource(`${document}.acl`);
+    const [ entry ] = await (await fetch(trashUrl)).json();
+    await putResource(`${document}.acl`, { contentType: 'text/turtle', body: acl });
+
+    const response = await fetch(`${trashUrl}${entry.id}`, { method: 'POST' });
+    expect(response.status).toBe(409);
+  });
+
+  it('can remove entries from the trash permanently.', async(): Promise<void> => {
+    const [ entry ] = await (await fetch(trashUrl)).json();
+    let response = await fetch(`${trashUrl}${entry.id}`, { method: 'DELETE' });
+    expect(response.status).toBe(205);
+
+    response = await fetch(`${trashUrl}${entry.id}`);
+    expect(response.status).toBe(404);
+  });
+
+  it('only exposes the trash of storages.', async(): Promise<void> => {
+    const response = await fetch(`${container}.trash/`);
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,129 @@
+import fetch from 'cross-fetch';
+import type { App } from '../../src/init/App';
+import { deleteResource, patchResource, putResource } from '../util/FetchUtil';
+import { getPort } from '../util/Util';
+import {
+  getDefaultVariables,
+  getPresetConfigPath,
+  getTestConfigPath,
+  getTestFolder,
+  instantiateFromConfig,
+  removeFolder,
+} from './Config';
+
+const port = getPort('Versioning');
+const baseUrl = `http://localhost:${port}/`;
+
+const rootFilePath = getTestFolder('versioning');
+const stores: [string, any][] = [
+  [ 'in-memory storage', {
+    storeConfig: 'storage/backend/memory.json',
+    teardown: jest.fn(),
+  }],
+  [ 'on-disk storage', {
+    storeConfig: 'storage/backend/file.json',
+    teardown: async(): Promise<void> => removeFolder(rootFilePath),
+  }],
+];
+
+// Versions are identified by their datetime, which has a precision of seconds
+async function nextSecond(): Promise<void> {
+  await new Promise((resolve): any => setTimeout(resolve, 1100));
+}
+
+describe.each(stores)('A server with versioning using %s', (name, { storeConfig, teardown }): void => {
+  const url = `${baseUrl}document.ttl`;
+  const timeMapUrl = `${url}.timemap`;
+  let app: App;
+  let datetimes: string[];
+
+  beforeAll(async(): Promise<void> => {
+    const variables = {
+      ...getDefaultVariables(port, baseUrl),
+      'urn:solid-server:default:variable:rootFilePath': rootFilePath,
+    };
+
+    const instances = await instantiateFromConfig(
+      'urn:solid-server:test:Instances',
+      [
+        getPresetConfigPath(storeConfig),
+        getTestConfigPath('server-versioning.json'),
+      ],
+      variables,
+    ) as Record<string, any>;
+    ({ app } = instances);
+
+    await app.start();
+  });
+
+  afterAll(async(): Promise<void> => {
+    await teardown();
+    await app.stop();
+  });
+
+  it('keeps track of the previous versions of a resource.', async(): Promise<void> => {
+    await putResource(url, { contentType: 'text/turtle', body: '<a:b> <a:b> "first".' });
+    await nextSecond();
+    await putResource(url, { contentType: 'text/turtle', body: '<a:b> <a:b> "second".', exists: true });
+    await nextSecond();
+    await patchResource(url, 'INSERT DATA { <a:b> <a:b> "third". }', 'sparql', true);
+
+    const response = await fetch(url);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('link')).toContain(`<${timeMapUrl}>; rel="timemap"`);
+    expect(response.headers.get('vary')).toContain('Accept-Datetime');
+    expect(response.headers.get('memento-datetime')).toBeNull();
+  });
+
+  it('exposes a TimeMap listing all versions.', async(): Promise<void> => {
+    const response = await fetch(timeMapUrl);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/link-format');
+    const body = await response.text();
+    expect(body).toContain(`<${url}>; rel="original timegate"`);
+    expect(body).toContain(`<${timeMapUrl}>; rel="self"; type="application/link-format"`);
+    datetimes = [ ...body.matchAll(/rel="memento"; datetime="([^"]+)"/gu) ].map((match): string => match[1]);
+    expect(datetimes).toHaveLength(3);
+  });
+
+  it('returns the version that was valid at the requested time.', async(): Promise<void> => {
+    const response = await fetch(url, { headers: { accept: 'text/turtle', 'accept-datetime': datetimes[0] }});
+    expect(response.status).toBe(200);
+    expect(response.headers.get('memento-datetime')).toBe(datetimes[0]);
+    expect(response.headers.get('link')).toContain(`<${url}>; rel="original timegate"`);
+    const body = await response.text();
+    expect(body).toContain('first');
+    expect(body).not.toContain('second');
+  });
+
+  it('can convert previous versions.', async(): Promise<void> => {
+    const response = await fetch(url, {
+      headers: { accept: 'application/ld+json', 'accept-datetime': datetimes[1] },
+    });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/ld+json');
+    expect(response.headers.get('memento-datetime')).toBe(datetimes[1]);
+    await expect(response.text()).resolves.toContain('second');
+  });
+
+  it('returns the current version if the requested time is after the last change.', async(): Promise<void> => {
+    const response = await fetch(url, { headers: { 'accept-datetime': new Date().toUTCString() }});
+    expect(response.status).toBe(200);
+    expect(response.headers.get('memento-datetime')).toBe(datetimes[2]);
+    await expect(response.text()).resolves.toContain('third');
+  });
+
+  it('does not allow TimeMaps to be modified.', async(): Promise<void> => {
+    const response = await fetch(timeMapUrl, { method: 'PUT', headers: { 'content-type': 'text/plain' }, body: 'a' });
+    expect(response.status).toBe(405);
+  });
+
+  it('can return versions of deleted resources.', async(): Promise<void> => {
+    await deleteResource(url);
+
+    const response = await fetch(url, { headers: { 'accept-datetime': new Date().toUTCString() }});
+    expect(response.status).toBe(200);
+    expect(response.headers.get('memento-datetime')).toBe(datetimes[2]);
+    await expect(response.text()).resolves.toContain('third');
+  });
+});
@@ -0,0 +1,172 @@
+import { EventEmitter, once } from 'events';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import { createServer } from 'http';
+import { createSolidTokenVerifier } from '@solid/access-token-verifier';
+import fetch from 'cross-fetch';
+import { DataFactory, Parser, Store } from 'n3';
+import type { App } from '../../src/init/App';
+import { readableToString } from '../../src/util/StreamUtil';
+import { NOTIFY, SOLID } from '../../src/util/Vocabularies';
+import { getPort } from '../util/Util';
+import { getDefaultVariables, getTestConfigPath, instantiateFromConfig } from './Config';
+
+const port = getPort('WebHookChannel2023');
+const clientPort = getPort('WebHookChannel2023-client');
+const baseUrl = `http://localhost:${port}/`;
+const clientUrl = `http://localhost:${clientPort}/`;
+const storageDescriptionUrl = `${baseUrl}.well-known/solid`;
+const subscriptionUrl = `${baseUrl}.notifications/WebHookChannel2023/`;
+const webId = `${subscriptionUrl}webId`;
+const notificationType = NOTIFY.WebHookChannel2023;
+
+// Use the real verifier to check the signature of the notifications
+jest.unmock('@solid/access-token-verifier');
+
+interface ReceivedRequest {
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: Record<string, unknown>;
+}
+
+describe('A server supporting WebHookChannel2023', (): void => {
+  const topic = `${baseUrl}foo`;
+  const received = new EventEmitter();
+  // How many times the client should respond with an error, per URL
+  const failures: Record<string, number> = {};
+  let app: App;
+  let client: Server;
+
+  async function subscribe(target: string): Promise<Record<string, unknown>> {
+    const response = await fetch(subscriptionUrl, {
+      method: 'POST',
+      headers: { 'content-type': 'application/ld+json' },
+      body: JSON.stringify({
+        '@context': [ 'https://www.w3.org/ns/solid/notification/v1' ],
+        type: notificationType,
+        topic,
+        sendTo: target,
+      }),
+    });
+    expect(response.status).toBe(200);
+    return response.json();
+  }
+
+  async function nextRequest(target: string): Promise<ReceivedRequest> {
+    let request: ReceivedRequest;
+    do {
+      [ request ] = await once(received, 'request');
+    } while (request.url !== target);
+    return request;
+  }
+
+  beforeAll(async(): Promise<void> => {
+    const instances = await instantiateFromConfig(
+      'urn:solid-server:test:Instances',
+      getTestConfigPath('server-memory.json'),
+      getDefaultVariables(port, baseUrl),
+    ) as Record<string, any>;
+    ({ app } = instances);
+    await app.start();
+
+    // Receives the webhook notifications
+    client = createServer((request: IncomingMessage, response: ServerResponse): void => {
+      const url = new URL(request.url!, clientUrl).href;
+      readableToString(request).then((body): void => {
+        const fail = (failures[url] ?? 0) > 0;
+        failures[url] = (failures[url] ?? 0) - 1;
+        response.writeHead(fail ? 500 : 200);
+        response.end();
+        received.emit('request', { url, headers: request.headers, body: JSON.parse(body) });
+      }).catch((): void => {
+        response.writeHead(500);
+        response.end();
+      });
+    });
+    client.listen(clientPort);
+  });
+
+  afterAll(async(): Promise<void> => {
+    client.close();
+    await app.stop();
+  });
+
+  it('links to the subscription service in the storage description.', async(): Promise<void> => {
+    const response = await fetch(storageDescriptionUrl, { headers: { accept: 'text/turtle' }});
+    expect(response.status).toBe(200);
+    const quads = new Store(new Parser({ baseIRI: storageDescriptionUrl }).parse(await response.text()));
+    const subscriptions = quads.getObjects(DataFactory.namedNode(baseUrl), NOTIFY.terms.subscription, null);
+    expect(subscriptions.map((term): string => term.value)).toContain(subscriptionUrl);
+    const subscription = DataFactory.namedNode(subscriptionUrl);
+    expect(quads.getObjects(subscription, NOTIFY.terms.channelType, null).map((term): string => term.value))
+      .toEqual([ notificationType ]);
+  });
+
+  it('rejects subscription requests without a valid sendTo value.', async(): Promise<void> => {
+    let response = await fetch(subscriptionUrl, {
+      method: 'POST',
+      headers: { 'content-type': 'application/ld+json' },
+      body: JSON.stringify({ type: notificationType, topic }),
+    });
+    expect(response.status).toBe(400);
+
+    response = await fetch(subscriptionUrl, {
+      method: 'POST',
+      headers: { 'content-type': 'application/ld+json' },
+      body: JSON.stringify({ type: notificationType, topic, sendTo: 'ftp://example.com/' }),
+    });
+    expect(response.status).toBe(400);
+  });
+
+  it('exposes the WebID of the server.', async(): Promise<void> => {
+    const response = await fetch(webId, { headers: { accept: 'text/turtle' }});
+    expect(response.status).toBe(200);
+    const quads = new Store(new Parser({ baseIRI: webId }).parse(await response.text()));
+    expect(quads.getObjects(DataFactory.namedNode(webId), SOLID.terms.oidcIssuer, null))
+      .toEqual([ DataFactory.namedNode(baseUrl) ]);
+  });
+
+  it('creates channels that expire.', async(): Promise<void> => {
+    const channel = await subscribe(`${clientUrl}expire`);
+    expect(channel.type).toBe(notificationType);
+    expect(channel.topic).toBe(topic);
+    expect(channel.sendTo).toBe(`${clientUrl}expire`);
+    expect(Date.parse(channel.endAt as string)).toBeGreaterThan(Date.now());
+  });
+
+  it('sends signed notifications to the target.', async(): Promise<void> => {
+    const target = `${clientUrl}signed`;
+    await subscribe(target);
+
+    const request = nextRequest(target);
+    const result = await fetch(topic, { method: 'PUT', headers: { 'content-type': 'text/plain' }, body: 'abc' });
+    expect(result.status).toBe(201);
+    const { headers, body } = await request;
+    expect(headers['content-type']).toBe('application/ld+json');
+    expect(body.type).toBe('Create');
+    expect(body.object).toBe(topic);
+
+    const verify = createSolidTokenVerifier();
+    const { webid } = await verify(headers.authorization!, {
+      header: headers.dpop as string,
+      method: 'POST',
+      url: target,
+    });
+    expect(webid).toBe(webId);
+  });
+
+  it('retries deliveries that failed.', async(): Promise<void> => {
+    const target = `${clientUrl}retry`;
+    await subscribe(target);
+    failures[target] = 1;
+
+    let request = nextRequest(target);
+    const result = await fetch(topic, { method: 'PUT', headers: { 'content-type': 'text/plain' }, body: 'def' });
+    expect(result.status).toBe(205);
+    const failed = await request;
+    expect(failed.body.type).toBe('Update');
+
+    request = nextRequest(target);
+    const retried = await request;
+    expect(retried.body).toEqual(failed.body);
+  });
+});
@@ -0,0 +1,118 @@
+import fetch from 'cross-fetch';
+import { DataFactory, Parser, Store } from 'n3';
+import { WebSocket } from 'ws';
+import type { App } from '../../src/init/App';
+import { NOTIFY, PIM, RDF } from '../../src/util/Vocabularies';
+import { getPort } from '../util/Util';
+import { getDefaultVariables, getTestConfigPath, instantiateFromConfig } from './Config';
+
+const port = getPort('WebSocketChannel2023');
+const baseUrl = `http://localhost:${port}/`;
+const storageDescriptionUrl = `${baseUrl}.well-known/solid`;
+const subscriptionUrl = `${baseUrl}.notifications/WebSocketChannel2023/`;
+const notificationType = NOTIFY.WebSocketChannel2023;
+
+async function readMessage(socket: WebSocket): Promise<Record<string, unknown>> {
+  return new Promise<Record<string, unknown>>((resolve): void => {
+    socket.once('message', (message: Buffer): void => resolve(JSON.parse(message.toString())));
+  });
+}
+
+describe('A server supporting WebSocketChannel2023', (): void => {
+  const topic = `${baseUrl}foo`;
+  let app: App;
+
+  beforeAll(async(): Promise<void> => {
+    app = await instantiateFromConfig(
+      'urn:solid-server:default:App',
+      getTestConfigPath('server-without-auth.json'),
+      getDefaultVariables(port, baseUrl),
+    ) as App;
+
+    await app.start();
+  });
+
+  afterAll(async(): Promise<void> => {
+    await app.stop();
+  });
+
+  it('links to the storage description.', async(): Promise<void> => {
+    const response = await fetch(baseUrl);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('link'))
+      .toContain(`<${storageDescriptionUrl}>; rel="http://www.w3.org/ns/solid/terms#storageDescription"`);
+  });
+
+  it('links to the subscription service in the storage description.', async(): Promise<void> => {
+    const response = await fetch(storageDescriptionUrl, { headers: { accept: 'text/turtle' }});
+    expect(response.status).toBe(200);
+    const quads = new Store(new Parser({ baseIRI: storageDescriptionUrl }).parse(await response.text()));
+    const storage = DataFactory.namedNode(baseUrl);
+    expect(quads.getObjects(storage, RDF.terms.type, null)).toEqual([ PIM.terms.Storage ]);
+    const subscriptions = quads.getObjects(storage, NOTIFY.terms.subscription, null);
+    expect(subscriptions.map((term): string => term.value)).toContain(subscriptionUrl);
+    const subscription = DataFactory.namedNode(subscriptionUrl);
+    expect(quads.getObjects(subscription, NOTIFY.terms.channelType, null).map((term): string => term.value))
+      .toEqual([ notificationType ]);
+  });
+
+  it('rejects subscription requests with an unknown type.', async(): Promise<void> => {
+    const response = await fetch(subscriptionUrl, {
+      method: 'POST',
+      headers: { 'content-type': 'application/ld+json' },
+      body: JSON.stringify({ type: 'UnknownChannel2023', topic }),
+    });
+    expect(response.status).toBe(400);
+  });
+
+  it('closes WebSockets that do not correspond to a channel.', async(): Promise<void> => {
+    const socket = new WebSocket(`ws://localhost:${port}/.notifications/WebSocketChannel2023/?auth=unknown`);
+    await new Promise<void>((resolve): any => socket.on('close', resolve));
+  });
+
+  it('emits notifications to the WebSocket of a channel.', async(): Promise<void> => {
+    const response = await fetch(subscriptionUrl, {
+      method: 'POST',
+      headers: { 'content-type': 'application/ld+json' },
+      body: JSON.stringify({
+        '@context': [ 'https://www.w3.org/ns/solid/notification/v1' ],
+        type: notificationType,
+        topic,
+      }),
+    });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/ld+json');
+    const channel = await response.json();
+    expect(channel.type).toBe(notificationType);
+    expect(channel.topic).toBe(topic);
+    expect(channel.receiveFrom).toMatch(/^ws:\/\/localhost:\d+\/\.notifications\/WebSocketChannel2023\/\?auth=/u);
+
+    const socket = new WebSocket(channel.receiveFrom);
+    await new Promise<void>((resolve): any => socket.on('open', resolve));
+
+    let message = readMessage(socket);
+    let result = await fetch(topic, { method: 'PUT', headers: { 'content-type': 'text/plain' }, body: 'abc' });
+    expect(result.status).toBe(201);
+    let notification = await message;
+    expect(notification.type).toBe('Create');
+    expect(notification.object).toBe(topic);
+    expect(notification.state).toBeDefined();
+
+    message = readMessage(socket);
+    result = await fetch(topic, { method: 'PUT', headers: { 'content-type': 'text/plain' }, body: 'def' });
+    expect(result.status).toBe(205);
+    notification = await message;
+    expect(notification.type).toBe('Update');
+    expect(notification.object).toBe(topic);
+
+    message = readMessage(socket);
+    result = await fetch(topic, { method: 'DELETE' });
+    expect(result.status).toBe(205);
+    notification = await message;
+    expect(notification.type).toBe('Delete');
+    expect(notification.object).toBe(topic);
+    expect(notification.state).toBeUndefined();
+
+    socket.close();
+  });
+});
@@ -0,0 +1,117 @@
+import fetch from 'cross-fetch';
+import { WebSocket } from 'ws';
+import type { App } from '../../src/init/App';
+import type { ResourceStore } from '../../src/storage/ResourceStore';
+import { AclHelper } from '../util/AclHelper';
+import { getPort } from '../util/Util';
+import { getDefaultVariables, getTestConfigPath, instantiateFromConfig } from './Config';
+
+const port = getPort('WebSocketsProtocolWithAuth');
+const serverUrl = `http://localhost:${port}/`;
+
+async function waitForMessages(client: WebSocket, messages: string[], count: number): Promise<void> {
+  while (messages.length < count) {
+    await new Promise((resolve): any => client.once('message', resolve));
+  }
+}
+
+async function connect(socketHeaders: Record<string, string> = {}): Promise<[ WebSocket, string[] ]> {
+  const client = new WebSocket(`ws://localhost:${port}`, [ 'solid-0.1' ], { headers: socketHeaders });
+  const messages: string[] = [];
+  client.on('message', (message: Buffer): any => messages.push(message.toString()));
+  // Skip the protocol message
+  await waitForMessages(client, messages, 1);
+  messages.length = 0;
+  return [ client, messages ];
+}
+
+describe('A server with the Solid WebSockets API and WebACL authorization', (): void => {
+  const webId = 'http://bob.example/#me';
+  const resource = `${serverUrl}my-resource`;
+  let app: App;
+  let store: ResourceStore;
+  let aclHelper: AclHelper;
+
+  beforeAll(async(): Promise<void> => {
+    const instances = await instantiateFromConfig(
+      'urn:solid-server:test:Instances',
+      getTestConfigPath('websockets-with-auth.json'),
+      getDefaultVariables(port, serverUrl),
+    ) as Record<string, any>;
+    ({ app, store } = instances);
+    await app.start();
+
+    aclHelper = new AclHelper(store);
+    await aclHelper.setSimpleAcl(serverUrl, {
+      permissions: { read: true, write: true, append: true, control: true },
+      agent: `<${webId}>`,
+      accessTo: true,
+      default: true,
+    });
+  });
+
+  afterAll(async(): Promise<void> => {
+    await app.stop();
+  });
+
+  it('rejects subscriptions of clients that can not read the resource.', async(): Promise<void> => {
+    const [ client, messages ] = await connect();
+    client.send(`sub ${resource}`);
+    await waitForMessages(client, messages, 1);
+    expect(messages).toEqual([ `error Not allowed to subscribe to ${resource}` ]);
+    client.close();
+  });
+
+  it('accepts subscriptions using the credentials of the connection.', async(): Promise<void> => {
+    const [ client, messages ] = await connect({ authorization: `WebID ${webId}` });
+    client.send(`sub ${resource}`);
+    await waitForMessages(client, messages, 1);
+    expect(messages).toEqual([ `ack ${resource}` ]);
+    client.close();
+  });
+
+  it('accepts subscriptions with credentials in the subscription message.', async(): Promise<void> => {
+    const [ client, messages ] = await connect();
+    client.send(`sub ${resource} WebID ${webId}`);
+    await waitForMessages(client, messages, 1);
+    expect(messages).toEqual([ `ack ${resource}` ]);
+    messages.length = 0;
+
+    await fetch(resource, {
+      method: 'PUT',
+      headers: { authorization: `WebID ${webId}`, 'content-type': 'text/plain' },
+      body: 'data',
+    });
+    await waitForMessages(client, messages, 1);
+    expect(messages).toEqual([ `pub ${resource}` ]);
+    client.close();
+  });
+
+  it('stops notifying clients that lost read access.', async(): Promise<void> => {
+    const newResource = `${serverUrl}new-resource`;
+    const [ client, messages ] = await connect({ authorization: `WebID ${webId}` });
+    client.send(`sub ${newResource}`);
+    client.send(`sub ${serverUrl}`);
+    await waitForMessages(client, messages, 2);
+    expect(messages).toHaveLength(2);
+    expect(messages).toEqual(expect.arrayContaining([ `ack ${newResource}`, `ack ${serverUrl}` ]));
+    messages.length = 0;
+
+    // Only the container remains readable
+    await aclHelper.setSimpleAcl(serverUrl, [
+      { permissions: { read: true, write: true, control: true }, agent: `<${webId}>`, accessTo: true },
+      { permissions: { write: true }, agent: `<${webId}>`, default: true },
+    ]);
+
+    await fetch(newResource, {
+      method: 'PUT',
+      headers: { authorization: `WebID ${webId}`, 'content-type': 'text/plain' },
+      body: 'data',
+    });
+    await waitForMessages(client, messages, 1);
+    // Give the server time to send any remaining notifications
+    await new Promise((resolve): any => setTimeout(resolve, 100));
+    expect(messages).toEqual([ `pub ${serverUrl}` ]);
+    client.close();
+  });
+});
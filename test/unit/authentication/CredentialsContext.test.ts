@@ -0,0 +1,24 @@
+import { CredentialGroup } from '../../../src/authentication/Credentials';
+import { getRequestCredentials, runWithCredentials } from '../../../src/authentication/CredentialsContext';
+
+describe('CredentialsContext', (): void => {
+  const alice = { [CredentialGroup.agent]: { webId: 'http://example.com/alice' }};
+  const bob = { [CredentialGroup.agent]: { webId: 'http://example.com/bob' }};
+
+  it('has no credentials outside of a request.', async(): Promise<void> => {
+    expect(getRequestCredentials()).toBeUndefined();
+  });
+
+  it('returns the credentials of the request that is being handled.', async(): Promise<void> => {
+    async function getDelayed(): Promise<any> {
+      await new Promise((resolve): any => setImmediate(resolve));
+      return getRequestCredentials();
+    }
+    const results = await Promise.all([
+      runWithCredentials(alice, getDelayed),
+      runWithCredentials(bob, getDelayed),
+    ]);
+    expect(results).toEqual([ alice, bob ]);
+    expect(getRequestCredentials()).toBeUndefined();
+  });
+});
@@ -0,0 +1,109 @@
+import { EventEmitter } from 'events';
+import { Store } from 'n3';
+import { WebAclCache } from '../../../src/authorization/WebAclCache';
+import type { AuxiliaryIdentifierStrategy } from '../../../src/http/auxiliary/AuxiliaryIdentifierStrategy';
+import type { ResourceIdentifier } from '../../../src/http/representation/ResourceIdentifier';
+
+describe('A WebAclCache', (): void => {
+  const aclStrategy: AuxiliaryIdentifierStrategy = {
+    getAuxiliaryIdentifier: (id: ResourceIdentifier): ResourceIdentifier => ({ path: `${id.path}.acl` }),
+    isAuxiliaryIdentifier: (id: ResourceIdentifier): boolean => id.path.endsWith('.acl'),
+    getSubjectIdentifier: (id: ResourceIdentifier): ResourceIdentifier => ({ path: id.path.slice(0, -4) }),
+  } as any;
+  const container = { path: 'http://example.com/container/' };
+  const containerAcl = { path: 'http://example.com/container/.acl' };
+  const document = { path: 'http://example.com/container/document' };
+  const documentAcl = { path: 'http://example.com/container/document.acl' };
+  const other = { path: 'http://example.com/other' };
+  let find: jest.Mock<Promise<ResourceIdentifier>, []>;
+  let read: jest.Mock<Promise<Store>, []>;
+  let emitter: EventEmitter;
+  let cache: WebAclCache;
+
+  beforeEach(async(): Promise<void> => {
+    find = jest.fn().mockResolvedValue(containerAcl);
+    read = jest.fn(async(): Promise<Store> => new Store());
+    emitter = new EventEmitter();
+    cache = new WebAclCache(aclStrategy, emitter, 2);
+  });
+
+  it('caches the effective ACL resources.', async(): Promise<void> => {
+    await expect(cache.getAclLocation(document, find)).resolves.toEqual(containerAcl);
+    await expect(cache.getAclLocation(document, find)).resolves.toEqual(containerAcl);
+    expect(find).toHaveBeenCalledTimes(1);
+  });
+
+  it('caches the contents of the ACL resources.', async(): Promise<void> => {
+    const store = await cache.getAclStore(containerAcl, read);
+    await expect(cache.getAclStore(containerAcl, read)).resolves.toBe(store);
+    expect(read).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not cache errors.', async(): Promise<void> => {
+    find.mockRejectedValueOnce(new Error('bad data'));
+    await expect(cache.getAclLocation(document, find)).rejects.toThrow('bad data');
+    await expect(cache.getAclLocation(document, find)).resolves.toEqual(containerAcl);
+    expect(find).toHaveBeenCalledTimes(2);
+  });
+
+  it('removes the entries of a changed document and its ACL resource.', async(): Promise<void> => {
+    await cache.getAclLocation(document, find);
+    await cache.getAclStore(documentAcl, read);
+    emitter.emit('changed', documentAcl);
+    await cache.getAclLocation(document, find);
+    await cache.getAclStore(documentAcl, read);
+    expect(find).toHaveBeenCalledTimes(2);
+    expect(read).toHaveBeenCalledTimes(2);
+
+    emitter.emit('changed', document);
+    await cache.getAclLocation(document, find);
+    await cache.getAclStore(documentAcl, read);
+    expect(find).toHaveBeenCalledTimes(3);
+    expect(read).toHaveBeenCalledTimes(3);
+  });
+
+  it('removes the entries of all resources in a changed container.', async(): Promise<void> => {
+    await cache.getAclLocation(document, find);
+    await cache.getAclStore(containerAcl, read);
+    emitter.emit('changed', containerAcl);
+    await cache.getAclLocation(document, find);
+    await cache.getAclStore(containerAcl, read);
+    expect(find).toHaveBeenCalledTimes(2);
+    expect(read).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the entries of resources that are not affected by a change.', async(): Promise<void> => {
+    await cache.getAclLocation(document, find);
+    await cache.getAclStore(containerAcl, read);
+    emitter.emit('changed', other);
+    emitter.emit('changed', { path: 'http://example.com/container/document2' });
+    await cache.getAclLocation(document, find);
+    await cache.getAclStore(containerAcl, read);
+    expect(find).toHaveBeenCalledTimes(1);
+    expect(read).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not cache results that were determined while a change happened.', async(): Promise<void> => {
+    find.mockImplementationOnce(async(): Promise<ResourceIdentifier> => {
+      emitter.emit('changed', containerAcl);
+      return containerAcl;
+    });
+    await expect(cache.getAclLocation(document, find)).resolves.toEqual(containerAcl);
+    await expect(cache.getAclLocation(document, find)).resolves.toEqual(containerAcl);
+    expect(find).toHaveBeenCalledTimes(2);
+  });
+
+  it('removes the least recently used entries if there are too many.', async(): Promise<void> => {
+    await cache.getAclLocation(container, find);
+    await cache.getAclLocation(document, find);
+    // Makes the document the least recently used entry
+    await cache.getAclLocation(container, find);
+    await cache.getAclLocation(other, find);
+    expect(find).toHaveBeenCalledTimes(3);
+
+    await cache.getAclLocation(container, find);
+    expect(find).toHaveBeenCalledTimes(3);
+    await cache.getAclLocation(document, find);
+    expect(find).toHaveBeenCalledTimes(4);
+  });
+});
@@ -1,3 +1,4 @@
+import { EventEmitter } from 'events';
 import { DataFactory } from 'n3';
 import type { CredentialSet } from '../../../src/authentication/Credentials';
 import { CredentialGroup } from '../../../src/authentication/Credentials';
@@ -6,6 +7,7 @@ import type { PermissionReaderInput } from '../../../src/authorization/Permissio
 import { AclMode } from '../../../src/authorization/permissions/AclPermission';
 import type { AccessMap, PermissionSet } from '../../../src/authorization/permissions/Permissions';
 import { AccessMode } from '../../../src/authorization/permissions/Permissions';
+import { WebAclCache } from '../../../src/authorization/WebAclCache';
 import { WebAclReader } from '../../../src/authorization/WebAclReader';
 import type { AuxiliaryIdentifierStrategy } from '../../../src/http/auxiliary/AuxiliaryIdentifierStrategy';
 import { BasicRepresentation } from '../../../src/http/representation/BasicRepresentation';
@@ -232,4 +234,30 @@ describe('A WebAclReader', (): void => {
     // http://example.com/.acl and http://example.com/bar/.acl
     expect(store.getRepresentation).toHaveBeenCalledTimes(2);
   });
+
+  it('can cache the ACL resources and their contents.', async(): Promise<void> => {
+    const emitter = new EventEmitter();
+    const cache = new WebAclCache(aclStrategy, emitter);
+    reader = new WebAclReader(aclStrategy, resourceSet, store, identifierStrategy, accessChecker, cache);
+    resourceSet.hasResource.mockImplementation(async(id): Promise<boolean> => id.path === 'http://example.com/.acl');
+    store.getRepresentation.mockImplementation(async(): Promise<Representation> => new BasicRepresentation([
+      quad(nn('auth'), nn(`${rdf}type`), nn(`${acl}Authorization`)),
+      quad(nn('auth'), nn(`${acl}default`), nn('http://example.com/')),
+      quad(nn('auth'), nn(`${acl}mode`), nn(`${acl}Read`)),
+    ], INTERNAL_QUADS));
+    const expected = new IdentifierMap([[ identifier, {
+      [CredentialGroup.public]: { read: true },
+      [CredentialGroup.agent]: { read: true },
+    }]]);
+
+    compareMaps(await reader.handle(input), expected);
+    compareMaps(await reader.handle(input), expected);
+    expect(resourceSet.hasResource).toHaveBeenCalledTimes(2);
+    expect(store.getRepresentation).toHaveBeenCalledTimes(1);
+
+    emitter.emit('changed', { path: 'http://example.com/.acl' });
+    compareMaps(await reader.handle(input), expected);
+    expect(resourceSet.hasResource).toHaveBeenCalledTimes(4);
+    expect(store.getRepresentation).toHaveBeenCalledTimes(2);
+  });
 });
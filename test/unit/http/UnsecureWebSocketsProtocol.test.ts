@@ -1,6 +1,16 @@
 import { EventEmitter } from 'events';
+import type { CredentialSet } from '../../../src/authentication/Credentials';
+import type { CredentialsExtractor } from '../../../src/authentication/CredentialsExtractor';
+import type { Authorizer, AuthorizerInput } from '../../../src/authorization/Authorizer';
+import type { PermissionReader } from '../../../src/authorization/PermissionReader';
+import { AccessMode } from '../../../src/authorization/permissions/Permissions';
+import type { AuxiliaryIdentifierStrategy } from '../../../src/http/auxiliary/AuxiliaryIdentifierStrategy';
+import type { ResourceIdentifier } from '../../../src/http/representation/ResourceIdentifier';
 import { UnsecureWebSocketsProtocol } from '../../../src/http/UnsecureWebSocketsProtocol';
 import type { HttpRequest } from '../../../src/server/HttpRequest';
+import { ForbiddenHttpError } from '../../../src/util/errors/ForbiddenHttpError';
+import { IdentifierMap, IdentifierSetMultiMap } from '../../../src/util/map/IdentifierMap';
+import { flushPromises } from '../../util/Util';
 
 class DummySocket extends EventEmitter {
   public readonly messages = new Array<string>();
@@ -198,4 +208,193 @@ describe('An UnsecureWebSocketsProtocol', (): void => {
     expect(webSocket.messages).toHaveLength(2);
     expect(webSocket.messages.pop()).toBe('ack https://other.example/protocol/foo');
   });
+
+  describe('with authorization', (): void => {
+    const upgradeRequest = {
+      method: 'GET',
+      url: '/',
+      headers: {
+        host: 'mypod.example',
+        authorization: 'WebID http://alice.example/#me',
+        'sec-websocket-protocol': 'solid-0.1',
+      },
+      socket: {
+        encrypted: true,
+      },
+    } as any as HttpRequest;
+    const alice = { agent: { webId: 'http://alice.example/#me' }};
+    const bob = { agent: { webId: 'http://bob.example/#me' }};
+    const resource = 'https://mypod.example/foo';
+    let readable: Set<string>;
+    let emitter: EventEmitter;
+    let webSocket: DummySocket;
+    let credentialsExtractor: jest.Mocked<CredentialsExtractor>;
+    let permissionReader: jest.Mocked<PermissionReader>;
+    let authorizer: jest.Mocked<Authorizer>;
+    let auxiliaryStrategy: jest.Mocked<AuxiliaryIdentifierStrategy>;
+    let authProtocol: UnsecureWebSocketsProtocol;
+
+    beforeEach(async(): Promise<void> => {
+      // The WebIDs of the agents that can read the resource
+      readable = new Set([ alice.agent.webId ]);
+      emitter = new EventEmitter();
+      webSocket = new DummySocket();
+
+      credentialsExtractor = {
+        handleSafe: jest.fn(async({ headers }: HttpRequest): Promise<CredentialSet> => {
+          if (headers.authorization === 'WebID http://bob.example/#me') {
+            return bob;
+          }
+          return alice;
+        }),
+      } as any;
+
+      permissionReader = {
+        handleSafe: jest.fn().mockResolvedValue(new IdentifierMap()),
+      } as any;
+
+      authorizer = {
+        handleSafe: jest.fn(async({ credentials }: AuthorizerInput): Promise<void> => {
+          if (!readable.has(credentials.agent?.webId ?? '')) {
+            throw new ForbiddenHttpError();
+          }
+        }),
+      } as any;
+
+      auxiliaryStrategy = {
+        isAuxiliaryIdentifier: jest.fn(({ path }: ResourceIdentifier): boolean => path.endsWith('.acl')),
+      } as any;
+
+      authProtocol = new UnsecureWebSocketsProtocol(
+        emitter, credentialsExtractor, permissionReader, authorizer, auxiliaryStrategy,
+      );
+      await authProtocol.handle({ webSocket, upgradeRequest } as any);
+      // Remove the protocol message
+      webSocket.messages.length = 0;
+    });
+
+    it('requires all authorization components to be defined.', async(): Promise<void> => {
+      expect((): any => new UnsecureWebSocketsProtocol(emitter, credentialsExtractor))
+        .toThrow('Authorizing WebSocket subscriptions requires');
+    });
+
+    it('acknowledges subscriptions on resources that can be read.', async(): Promise<void> => {
+      webSocket.emit('message', `sub ${resource}`);
+      await flushPromises();
+      expect(webSocket.messages).toEqual([ `ack ${resource}` ]);
+      expect(credentialsExtractor.handleSafe).toHaveBeenCalledTimes(1);
+      expect(credentialsExtractor.handleSafe).toHaveBeenLastCalledWith(upgradeRequest);
+      expect(permissionReader.handleSafe).toHaveBeenLastCalledWith({
+        credentials: alice,
+        requestedModes: new IdentifierSetMultiMap([[{ path: resource }, AccessMode.read ]]),
+      });
+    });
+
+    it('rejects subscriptions on resources that can not be read.', async(): Promise<void> => {
+      readable.clear();
+      webSocket.emit('message', `sub ${resource}`);
+      await flushPromises();
+      expect(webSocket.messages).toEqual([ `error Not allowed to subscribe to ${resource}` ]);
+
+      emitter.emit('changed', { path: resource });
+      await flushPromises();
+      expect(webSocket.messages).toHaveLength(1);
+    });
+
+    it('only extracts the credentials of the upgrade request once.', async(): Promise<void> => {
+      webSocket.emit('message', `sub ${resource}`);
+      webSocket.emit('message', `sub ${resource}/bar`);
+      await flushPromises();
+      expect(webSocket.messages).toEqual([ `ack ${resource}`, `ack ${resource}/bar` ]);
+      expect(credentialsExtractor.handleSafe).toHaveBeenCalledTimes(1);
+    });
+
+    it('uses the authorization value of the subscription message if there is one.', async(): Promise<void> => {
+      readable = new Set([ bob.agent.webId ]);
+      webSocket.emit('message', `sub ${resource} WebID http://bob.example/#me`);
+      await flushPromises();
+      expect(webSocket.messages).toEqual([ `ack ${resource}` ]);
+      expect(credentialsExtractor.handleSafe).toHaveBeenCalledTimes(1);
+      expect(credentialsExtractor.handleSafe.mock.calls[0][0].headers.authorization)
+        .toBe('WebID http://bob.example/#me');
+      expect(credentialsExtractor.handleSafe.mock.calls[0][0].headers.host).toBe('mypod.example');
+    });
+
+    it('uses empty credentials if they could not be extracted.', async(): Promise<void> => {
+      credentialsExtractor.handleSafe.mockRejectedValueOnce(new Error('bad data'));
+      webSocket.emit('message', `sub ${resource}`);
+      await flushPromises();
+      expect(webSocket.messages).toEqual([ `error Not allowed to subscribe to ${resource}` ]);
+      expect(permissionReader.handleSafe.mock.calls[0][0].credentials).toEqual({});
+    });
+
+    it('sends an error if the permissions could not be determined.', async(): Promise<void> => {
+      permissionReader.handleSafe.mockRejectedValueOnce(new Error('bad data'));
+      webSocket.emit('message', `sub ${resource}`);
+      await flushPromises();
+      expect(webSocket.messages).toEqual([ `error Unable to subscribe to ${resource}` ]);
+    });
+
+    it('still verifies the URL of subscriptions.', async(): Promise<void> => {
+      webSocket.emit('message', 'sub https://wrong.example/foo WebID http://bob.example/#me');
+      await flushPromises();
+      expect(webSocket.messages).toEqual([ 'error Mismatched host: expected mypod.example but got wrong.example' ]);
+      expect(credentialsExtractor.handleSafe).toHaveBeenCalledTimes(0);
+    });
+
+    describe('after subscribing to a resource', (): void => {
+      beforeEach(async(): Promise<void> => {
+        webSocket.emit('message', `sub ${resource}`);
+        await flushPromises();
+        webSocket.messages.length = 0;
+        permissionReader.handleSafe.mockClear();
+      });
+
+      it('emits pub messages without re-evaluating the permissions.', async(): Promise<void> => {
+        emitter.emit('changed', { path: resource });
+        emitter.emit('changed', { path: resource });
+        await flushPromises();
+        expect(webSocket.messages).toEqual([ `pub ${resource}`, `pub ${resource}` ]);
+        expect(permissionReader.handleSafe).toHaveBeenCalledTimes(0);
+      });
+
+      it('re-evaluates the permissions once when an auxiliary resource changes.', async(): Promise<void> => {
+        readable.clear();
+        emitter.emit('changed', { path: `${resource}.acl` });
+        emitter.emit('changed', { path: resource });
+        emitter.emit('changed', { path: resource });
+        await flushPromises();
+        expect(webSocket.messages).toHaveLength(0);
+        expect(permissionReader.handleSafe).toHaveBeenCalledTimes(1);
+
+        readable.add(alice.agent.webId);
+        emitter.emit('changed', { path: 'https://mypod.example/.acl' });
+        emitter.emit('changed', { path: resource });
+        await flushPromises();
+        expect(webSocket.messages).toEqual([ `pub ${resource}` ]);
+        expect(permissionReader.handleSafe).toHaveBeenCalledTimes(2);
+      });
+
+      it('re-evaluates the permissions on the next change if they could not be determined.', async(): Promise<void> => {
+        permissionReader.handleSafe.mockRejectedValueOnce(new Error('bad data'));
+        emitter.emit('changed', { path: `${resource}.acl` });
+        emitter.emit('changed', { path: resource });
+        await flushPromises();
+        expect(webSocket.messages).toHaveLength(0);
+
+        emitter.emit('changed', { path: resource });
+        await flushPromises();
+        expect(webSocket.messages).toEqual([ `pub ${resource}` ]);
+        expect(permissionReader.handleSafe).toHaveBeenCalledTimes(2);
+      });
+
+      it('stops emitting pub messages once the socket closes.', async(): Promise<void> => {
+        emitter.emit('changed', { path: `${resource}.acl` });
+        emitter.emit('changed', { path: resource });
+        webSocket.emit('close');
+        await flushPromises();
+        expect(webSocket.messages).toHaveLength(0);
+      });
+    });
+  });
 });
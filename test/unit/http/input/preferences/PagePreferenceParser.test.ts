@@ -0,0 +1,43 @@
+import { PagePreferenceParser } from '../../../../../src/http/input/preferences/PagePreferenceParser';
+import type { HttpRequest } from '../../../../../src/server/HttpRequest';
+
+describe('A PagePreferenceParser', (): void => {
+  const preferenceParser = new PagePreferenceParser();
+  let request: HttpRequest;
+  beforeEach(async(): Promise<void> => {
+    request = { method: 'GET', url: '/container/', headers: {}} as HttpRequest;
+  });
+
+  it('returns an empty result if there is no query string.', async(): Promise<void> => {
+    await expect(preferenceParser.handle({ request })).resolves.toEqual({});
+    request.url = '/container/?foo=bar';
+    await expect(preferenceParser.handle({ request })).resolves.toEqual({});
+  });
+
+  it('parses the page limit.', async(): Promise<void> => {
+    request.url = '/container/?limit=10';
+    await expect(preferenceParser.handle({ request })).resolves.toEqual({ page: { limit: 10 }});
+  });
+
+  it('parses the start of the page.', async(): Promise<void> => {
+    request.method = 'HEAD';
+    request.url = `/container/?limit=10&after=${encodeURIComponent('http://example.com/container/foo')}`;
+    await expect(preferenceParser.handle({ request })).resolves.toEqual({ page: {
+      limit: 10,
+      after: 'http://example.com/container/foo',
+    }});
+  });
+
+  it('ignores the parameters for methods other than GET and HEAD.', async(): Promise<void> => {
+    request.method = 'POST';
+    request.url = '/container/?limit=10';
+    await expect(preferenceParser.handle({ request })).resolves.toEqual({});
+  });
+
+  it('ignores invalid limits.', async(): Promise<void> => {
+    for (const limit of [ '0', '-5', '1.5', 'abc' ]) {
+      request.url = `/container/?limit=${limit}`;
+      await expect(preferenceParser.handle({ request })).resolves.toEqual({});
+    }
+  });
+});
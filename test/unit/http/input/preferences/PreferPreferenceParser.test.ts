@@ -0,0 +1,49 @@
+import { PreferPreferenceParser } from '../../../../../src/http/input/preferences/PreferPreferenceParser';
+import type { HttpRequest } from '../../../../../src/server/HttpRequest';
+import { LDP } from '../../../../../src/util/Vocabularies';
+
+describe('A PreferPreferenceParser', (): void => {
+  const preferenceParser = new PreferPreferenceParser();
+  let request: HttpRequest;
+  beforeEach(async(): Promise<void> => {
+    request = { method: 'GET', headers: {}} as HttpRequest;
+  });
+
+  it('returns an empty result if there is no Prefer header.', async(): Promise<void> => {
+    await expect(preferenceParser.handle({ request })).resolves.toEqual({});
+  });
+
+  it('parses the return preference.', async(): Promise<void> => {
+    request.headers = { prefer: 'Return=minimal' };
+    await expect(preferenceParser.handle({ request })).resolves.toEqual({
+      return: { value: 'minimal', include: [], omit: []},
+    });
+  });
+
+  it('parses the include and omit parameters.', async(): Promise<void> => {
+    request.headers = { prefer: `return=representation; include="${LDP.PreferMinimalContainer}  other";` +
+        ` omit=${LDP.PreferContainment}; unknown="a"` };
+    await expect(preferenceParser.handle({ request })).resolves.toEqual({ return: {
+      value: 'representation',
+      include: [ LDP.PreferMinimalContainer, 'other' ],
+      omit: [ LDP.PreferContainment ],
+    }});
+  });
+
+  it('only uses the first return preference.', async(): Promise<void> => {
+    request.headers = { prefer: [ 'respond-async, wait=10', 'return="representation", return=minimal' ]} as any;
+    await expect(preferenceParser.handle({ request })).resolves.toEqual({
+      return: { value: 'representation', include: [], omit: []},
+    });
+  });
+
+  it('returns an empty result if there is no return preference.', async(): Promise<void> => {
+    request.headers = { prefer: 'respond-async, handling=lenient' };
+    await expect(preferenceParser.handle({ request })).resolves.toEqual({});
+  });
+
+  it('ignores invalid Prefer headers.', async(): Promise<void> => {
+    request.headers = { prefer: 'return=representation; include="\u0000"' };
+    await expect(preferenceParser.handle({ request })).resolves.toEqual({});
+  });
+});
@@ -0,0 +1,44 @@
+import { RangePreferenceParser } from '../../../../../src/http/input/preferences/RangePreferenceParser';
+import type { HttpRequest } from '../../../../../src/server/HttpRequest';
+
+describe('A RangePreferenceParser', (): void => {
+  const preferenceParser = new RangePreferenceParser();
+  let request: HttpRequest;
+  beforeEach(async(): Promise<void> => {
+    request = { method: 'GET', headers: {}} as HttpRequest;
+  });
+
+  it('returns an empty result if there is no Range header.', async(): Promise<void> => {
+    await expect(preferenceParser.handle({ request })).resolves.toEqual({});
+  });
+
+  it('ignores the Range header for methods other than GET.', async(): Promise<void> => {
+    request.method = 'HEAD';
+    request.headers = { range: 'bytes=0-10' };
+    await expect(preferenceParser.handle({ request })).resolves.toEqual({});
+  });
+
+  it('parses all the ranges.', async(): Promise<void> => {
+    request.headers = { range: 'Bytes=0-10, 20-, -5,' };
+    await expect(preferenceParser.handle({ request })).resolves.toEqual({ range: {
+      unit: 'bytes',
+      parts: [{ start: 0, end: 10 }, { start: 20 }, { start: -5 }],
+    }});
+  });
+
+  it('keeps track of the If-Range header.', async(): Promise<void> => {
+    request.headers = { range: 'bytes=0-10', 'if-range': ' "123456" ' };
+    await expect(preferenceParser.handle({ request })).resolves.toEqual({ range: {
+      unit: 'bytes',
+      parts: [{ start: 0, end: 10 }],
+      ifRange: '"123456"',
+    }});
+  });
+
+  it('ignores invalid Range headers.', async(): Promise<void> => {
+    for (const range of [ 'bytes', 'bytes=', 'bytes=a-b', 'bytes=-', 'bytes=10-5', 'bytes=-0', 'bytes=0-1,5' ]) {
+      request.headers = { range };
+      await expect(preferenceParser.handle({ request })).resolves.toEqual({});
+    }
+  });
+});
@@ -0,0 +1,37 @@
+import type { PreferenceParser } from '../../../../../src/http/input/preferences/PreferenceParser';
+import { UnionPreferenceParser } from '../../../../../src/http/input/preferences/UnionPreferenceParser';
+import type { HttpRequest } from '../../../../../src/server/HttpRequest';
+
+describe('A UnionPreferenceParser', (): void => {
+  const request: HttpRequest = {} as any;
+  let parsers: jest.Mocked<PreferenceParser>[];
+  let parser: UnionPreferenceParser;
+
+  beforeEach(async(): Promise<void> => {
+    parsers = [
+      {
+        canHandle: jest.fn(),
+        handle: jest.fn().mockResolvedValue({ type: { 'text/turtle': 1 }, language: { en: 1 }}),
+      } as any,
+      {
+        canHandle: jest.fn(),
+        handle: jest.fn().mockResolvedValue({ language: { nl: 1 }, range: { unit: 'bytes', parts: [{ start: 0 }]}}),
+      } as any,
+    ];
+
+    parser = new UnionPreferenceParser(parsers);
+  });
+
+  it('combines the results of the parsers.', async(): Promise<void> => {
+    await expect(parser.handle({ request })).resolves.toEqual({
+      type: { 'text/turtle': 1 },
+      language: { nl: 1 },
+      range: { unit: 'bytes', parts: [{ start: 0 }]},
+    });
+  });
+
+  it('throws an error if one of the parsers fails.', async(): Promise<void> => {
+    parsers[1].handle.mockRejectedValueOnce(new Error('bad data'));
+    await expect(parser.handle({ request })).rejects.toThrow('bad data');
+  });
+});
@@ -2,23 +2,29 @@ import { GetOperationHandler } from '../../../../src/http/ldp/GetOperationHandle
 import type { Operation } from '../../../../src/http/Operation';
 import { BasicRepresentation } from '../../../../src/http/representation/BasicRepresentation';
 import type { Representation } from '../../../../src/http/representation/Representation';
+import { RepresentationMetadata } from '../../../../src/http/representation/RepresentationMetadata';
 import { BasicConditions } from '../../../../src/storage/BasicConditions';
 import type { ResourceStore } from '../../../../src/storage/ResourceStore';
 import { NotImplementedHttpError } from '../../../../src/util/errors/NotImplementedHttpError';
+import { PreconditionFailedHttpError } from '../../../../src/util/errors/PreconditionFailedHttpError';
+import { guardedStreamFrom } from '../../../../src/util/StreamUtil';
+import { DC, SOLID_HTTP } from '../../../../src/util/Vocabularies';
 
 describe('A GetOperationHandler', (): void => {
   let operation: Operation;
   const conditions = new BasicConditions({});
   const preferences = {};
   const body = new BasicRepresentation();
+  let metadata: RepresentationMetadata;
   let store: ResourceStore;
   let handler: GetOperationHandler;
 
   beforeEach(async(): Promise<void> => {
     operation = { method: 'GET', target: { path: 'http://test.com/foo' }, preferences, conditions, body };
+    metadata = new RepresentationMetadata();
     store = {
       getRepresentation: jest.fn(async(): Promise<Representation> =>
-        ({ binary: false, data: 'data', metadata: 'metadata' } as any)),
+        ({ binary: false, data: 'data', metadata } as any)),
     } as unknown as ResourceStore;
 
     handler = new GetOperationHandler(store);
@@ -33,9 +39,37 @@ describe('A GetOperationHandler', (): void => {
   it('returns the representation from the store with the correct response.', async(): Promise<void> => {
     const result = await handler.handle({ operation });
     expect(result.statusCode).toBe(200);
-    expect(result.metadata).toBe('metadata');
+    expect(result.metadata).toBe(metadata);
     expect(result.data).toBe('data');
     expect(store.getRepresentation).toHaveBeenCalledTimes(1);
     expect(store.getRepresentation).toHaveBeenLastCalledWith(operation.target, preferences, conditions);
   });
+
+  it('returns a 206 response if the store only returned part of the representation.', async(): Promise<void> => {
+    metadata.add(SOLID_HTTP.terms.unit, 'bytes');
+    const result = await handler.handle({ operation });
+    expect(result.statusCode).toBe(206);
+    expect(result.metadata).toBe(metadata);
+    expect(result.data).toBe('data');
+  });
+
+  it('returns a 304 response if the client already has the representation.', async(): Promise<void> => {
+    const data = guardedStreamFrom('data');
+    jest.spyOn(store, 'getRepresentation').mockResolvedValueOnce(new BasicRepresentation(data, metadata));
+    const modified = new Date();
+    metadata.add(DC.terms.modified, modified.toISOString());
+    operation.conditions = new BasicConditions({ modifiedSince: new Date(modified.getTime() + 1000) });
+    const result = await handler.handle({ operation });
+    expect(result.statusCode).toBe(304);
+    expect(result.metadata).toBe(metadata);
+    expect(result.data).toBeUndefined();
+    expect(data.destroyed).toBe(true);
+  });
+
+  it('throws an error if the other conditions are not satisfied.', async(): Promise<void> => {
+    jest.spyOn(store, 'getRepresentation').mockResolvedValueOnce(new BasicRepresentation('', metadata));
+    operation.conditions = new BasicConditions({ matchesETag: [ '"123456"' ]});
+    metadata.add(DC.terms.modified, new Date().toISOString());
+    await expect(handler.handle({ operation })).rejects.toThrow(PreconditionFailedHttpError);
+  });
 });
@@ -3,9 +3,11 @@ import { HeadOperationHandler } from '../../../../src/http/ldp/HeadOperationHand
 import type { Operation } from '../../../../src/http/Operation';
 import { BasicRepresentation } from '../../../../src/http/representation/BasicRepresentation';
 import type { Representation } from '../../../../src/http/representation/Representation';
+import { RepresentationMetadata } from '../../../../src/http/representation/RepresentationMetadata';
 import { BasicConditions } from '../../../../src/storage/BasicConditions';
 import type { ResourceStore } from '../../../../src/storage/ResourceStore';
 import { NotImplementedHttpError } from '../../../../src/util/errors/NotImplementedHttpError';
+import { DC } from '../../../../src/util/Vocabularies';
 
 describe('A HeadOperationHandler', (): void => {
   let operation: Operation;
@@ -15,13 +17,15 @@ describe('A HeadOperationHandler', (): void => {
   let store: ResourceStore;
   let handler: HeadOperationHandler;
   let data: Readable;
+  let metadata: RepresentationMetadata;
 
   beforeEach(async(): Promise<void> => {
     operation = { method: 'HEAD', target: { path: 'http://test.com/foo' }, preferences, conditions, body };
     data = { destroy: jest.fn() } as any;
+    metadata = new RepresentationMetadata({ [DC.modified]: new Date().toISOString() });
     store = {
       getRepresentation: jest.fn(async(): Promise<Representation> =>
-        ({ binary: false, data, metadata: 'metadata' } as any)),
+        ({ binary: false, data, metadata } as any)),
     } as any;
 
     handler = new HeadOperationHandler(store);
@@ -38,10 +42,19 @@ describe('A HeadOperationHandler', (): void => {
   it('returns the representation from the store with the correct response.', async(): Promise<void> => {
     const result = await handler.handle({ operation });
     expect(result.statusCode).toBe(200);
-    expect(result.metadata).toBe('metadata');
+    expect(result.metadata).toBe(metadata);
     expect(result.data).toBeUndefined();
     expect(data.destroy).toHaveBeenCalledTimes(1);
     expect(store.getRepresentation).toHaveBeenCalledTimes(1);
     expect(store.getRepresentation).toHaveBeenLastCalledWith(operation.target, preferences, conditions);
   });
+
+  it('returns a 304 response if the client already has the representation.', async(): Promise<void> => {
+    operation.conditions = new BasicConditions({ notMatchesETag: [ '*' ]});
+    const result = await handler.handle({ operation });
+    expect(result.statusCode).toBe(304);
+    expect(result.metadata).toBe(metadata);
+    expect(result.data).toBeUndefined();
+    expect(data.destroy).toHaveBeenCalledTimes(1);
+  });
 });
@@ -0,0 +1,105 @@
+import type { OperationHandler } from '../../../../src/http/ldp/OperationHandler';
+import { QuotaOperationHandler } from '../../../../src/http/ldp/QuotaOperationHandler';
+import type { Operation } from '../../../../src/http/Operation';
+import { CreatedResponseDescription } from '../../../../src/http/output/response/CreatedResponseDescription';
+import { ResetResponseDescription } from '../../../../src/http/output/response/ResetResponseDescription';
+import { BasicRepresentation } from '../../../../src/http/representation/BasicRepresentation';
+import type { Logger } from '../../../../src/logging/Logger';
+import { getLoggerFor } from '../../../../src/logging/LogUtil';
+import type { QuotaStrategy } from '../../../../src/storage/quota/QuotaStrategy';
+import { UNIT_BYTES } from '../../../../src/storage/size-reporter/Size';
+import { SOLID_HTTP, SOLID_META, SOLID_QUOTA } from '../../../../src/util/Vocabularies';
+
+jest.mock('../../../../src/logging/LogUtil', (): any => {
+  const logger: Logger = { warn: jest.fn() } as any;
+  return { getLoggerFor: (): Logger => logger };
+});
+
+describe('A QuotaOperationHandler', (): void => {
+  const logger = getLoggerFor('mock');
+  const target = { path: 'http://example.com/pod/foo' };
+  let operation: Operation;
+  let source: jest.Mocked<OperationHandler>;
+  let strategy: jest.Mocked<QuotaStrategy>;
+  let handler: QuotaOperationHandler;
+
+  beforeEach(async(): Promise<void> => {
+    jest.clearAllMocks();
+
+    operation = {
+      method: 'PUT',
+      target,
+      preferences: {},
+      body: new BasicRepresentation(),
+    };
+
+    source = {
+      canHandle: jest.fn(),
+      handle: jest.fn().mockResolvedValue(new ResetResponseDescription()),
+    } as any;
+
+    strategy = {
+      limit: { unit: UNIT_BYTES, amount: 100 },
+      getUsedSpace: jest.fn().mockResolvedValue({ unit: UNIT_BYTES, amount: 30 }),
+    } as any;
+
+    handler = new QuotaOperationHandler(source, strategy);
+  });
+
+  it('can handle input the source can handle.', async(): Promise<void> => {
+    await expect(handler.canHandle({ operation })).resolves.toBeUndefined();
+    expect(source.canHandle).toHaveBeenLastCalledWith({ operation });
+
+    source.canHandle.mockRejectedValueOnce(new Error('bad input'));
+    await expect(handler.canHandle({ operation })).rejects.toThrow('bad input');
+  });
+
+  it('adds the quota usage to the response of write requests.', async(): Promise<void> => {
+    const result = await handler.handle({ operation });
+    expect(source.handle).toHaveBeenLastCalledWith({ operation });
+    expect(strategy.getUsedSpace).toHaveBeenLastCalledWith(target);
+    expect(result.statusCode).toBe(205);
+    const { metadata } = result;
+    expect(metadata?.identifier.value).toBe(target.path);
+    expect(metadata?.get(SOLID_QUOTA.terms.limit, SOLID_META.terms.ResponseMetadata)?.value).toBe('100');
+    expect(metadata?.get(SOLID_QUOTA.terms.used, SOLID_META.terms.ResponseMetadata)?.value).toBe('30');
+    expect(metadata?.get(SOLID_QUOTA.terms.available, SOLID_META.terms.ResponseMetadata)?.value).toBe('70');
+    expect(metadata?.get(SOLID_QUOTA.terms.unit, SOLID_META.terms.ResponseMetadata)?.value).toBe(UNIT_BYTES);
+  });
+
+  it('uses the location of created resources.', async(): Promise<void> => {
+    operation.method = 'POST';
+    const created = { path: 'http://example.com/pod/foo/bar' };
+    source.handle.mockResolvedValueOnce(new CreatedResponseDescription(created));
+    strategy.getUsedSpace.mockResolvedValueOnce({ unit: UNIT_BYTES, amount: 120 });
+    const result = await handler.handle({ operation });
+    expect(strategy.getUsedSpace).toHaveBeenLastCalledWith(created);
+    expect(result.statusCode).toBe(201);
+    expect(result.metadata?.get(SOLID_HTTP.terms.location)?.value).toBe(created.path);
+    expect(result.metadata?.get(SOLID_QUOTA.terms.available)?.value).toBe('0');
+  });
+
+  it('returns the source response for other methods.', async(): Promise<void> => {
+    const response = new ResetResponseDescription();
+    source.handle.mockResolvedValueOnce(response);
+    operation.method = 'DELETE';
+    await expect(handler.handle({ operation })).resolves.toBe(response);
+    expect(strategy.getUsedSpace).toHaveBeenCalledTimes(0);
+  });
+
+  it('returns the source response if no quota applies.', async(): Promise<void> => {
+    const response = new ResetResponseDescription();
+    source.handle.mockResolvedValueOnce(response);
+    strategy.getUsedSpace.mockResolvedValueOnce(undefined);
+    await expect(handler.handle({ operation })).resolves.toBe(response);
+  });
+
+  it('returns the source response if the usage could not be determined.', async(): Promise<void> => {
+    const response = new ResetResponseDescription();
+    source.handle.mockResolvedValueOnce(response);
+    strategy.getUsedSpace.mockRejectedValueOnce(new Error('bad data'));
+    await expect(handler.handle({ operation })).resolves.toBe(response);
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+    expect(logger.warn).toHaveBeenLastCalledWith(`Unable to determine the quota usage of ${target.path}: bad data`);
+  });
+});
@@ -0,0 +1,117 @@
+import type { OperationHandler } from '../../../../src/http/ldp/OperationHandler';
+import { ReturnRepresentationOperationHandler } from '../../../../src/http/ldp/ReturnRepresentationOperationHandler';
+import type { Operation } from '../../../../src/http/Operation';
+import { CreatedResponseDescription } from '../../../../src/http/output/response/CreatedResponseDescription';
+import { ResetResponseDescription } from '../../../../src/http/output/response/ResetResponseDescription';
+import { ResponseDescription } from '../../../../src/http/output/response/ResponseDescription';
+import { BasicRepresentation } from '../../../../src/http/representation/BasicRepresentation';
+import type { Representation } from '../../../../src/http/representation/Representation';
+import { RepresentationMetadata } from '../../../../src/http/representation/RepresentationMetadata';
+import type { ResourceStore } from '../../../../src/storage/ResourceStore';
+import { IdentifierMap } from '../../../../src/util/map/IdentifierMap';
+import { readableToString } from '../../../../src/util/StreamUtil';
+import { SOLID_HTTP, SOLID_META, SOLID_QUOTA } from '../../../../src/util/Vocabularies';
+
+describe('A ReturnRepresentationOperationHandler', (): void => {
+  const target = { path: 'http://test.com/foo' };
+  let operation: Operation;
+  let source: jest.Mocked<OperationHandler>;
+  let store: jest.Mocked<ResourceStore>;
+  let handler: ReturnRepresentationOperationHandler;
+
+  beforeEach(async(): Promise<void> => {
+    operation = {
+      method: 'PUT',
+      target,
+      preferences: { return: { value: 'representation', include: [], omit: []}},
+      body: new BasicRepresentation(),
+      availablePermissions: new IdentifierMap([[ target, { public: { read: false }, agent: { read: true }}]]),
+    };
+
+    source = {
+      canHandle: jest.fn(),
+      handle: jest.fn().mockResolvedValue(new ResetResponseDescription()),
+    } as any;
+
+    store = {
+      getRepresentation: jest.fn(async(): Promise<Representation> =>
+        new BasicRepresentation('data', target, 'text/plain')),
+    } as any;
+
+    handler = new ReturnRepresentationOperationHandler(source, store);
+  });
+
+  it('can handle input the source can handle.', async(): Promise<void> => {
+    await expect(handler.canHandle({ operation })).resolves.toBeUndefined();
+    expect(source.canHandle).toHaveBeenLastCalledWith({ operation });
+
+    source.canHandle.mockRejectedValueOnce(new Error('bad input'));
+    await expect(handler.canHandle({ operation })).rejects.toThrow('bad input');
+  });
+
+  it('returns the representation of the modified resource.', async(): Promise<void> => {
+    const result = await handler.handle({ operation });
+    expect(source.handle).toHaveBeenLastCalledWith({ operation });
+    expect(store.getRepresentation).toHaveBeenLastCalledWith(target, operation.preferences);
+    expect(result.statusCode).toBe(200);
+    expect(result.metadata?.contentType).toBe('text/plain');
+    expect(result.metadata?.get(SOLID_HTTP.terms.preferenceApplied)?.value).toBe('return=representation');
+    await expect(readableToString(result.data!)).resolves.toBe('data');
+  });
+
+  it('returns the representation of a created resource.', async(): Promise<void> => {
+    operation.method = 'POST';
+    const created = { path: 'http://test.com/foo/bar' };
+    source.handle.mockResolvedValueOnce(new CreatedResponseDescription(created));
+    const result = await handler.handle({ operation });
+    expect(store.getRepresentation).toHaveBeenLastCalledWith(created, operation.preferences);
+    expect(result.statusCode).toBe(201);
+    expect(result.metadata?.get(SOLID_HTTP.terms.location)?.value).toBe(created.path);
+    expect(result.metadata?.get(SOLID_HTTP.terms.preferenceApplied)?.value).toBe('return=representation');
+    await expect(readableToString(result.data!)).resolves.toBe('data');
+  });
+
+  it('keeps the response metadata of the source response.', async(): Promise<void> => {
+    const response = new ResetResponseDescription();
+    const metadata = new RepresentationMetadata(target);
+    metadata.add(SOLID_QUOTA.terms.used, '5', SOLID_META.terms.ResponseMetadata);
+    metadata.add(SOLID_QUOTA.terms.limit, '10');
+    source.handle.mockResolvedValueOnce(new ResponseDescription(response.statusCode, metadata));
+    const result = await handler.handle({ operation });
+    expect(result.statusCode).toBe(200);
+    expect(result.metadata?.get(SOLID_QUOTA.terms.used, SOLID_META.terms.ResponseMetadata)?.value).toBe('5');
+    expect(result.metadata?.get(SOLID_QUOTA.terms.limit)).toBeUndefined();
+  });
+
+  it('returns the source response if no representation was requested.', async(): Promise<void> => {
+    const response = new ResetResponseDescription();
+    source.handle.mockResolvedValue(response);
+
+    operation.preferences = { return: { value: 'minimal', include: [], omit: []}};
+    await expect(handler.handle({ operation })).resolves.toBe(response);
+    operation.preferences = {};
+    await expect(handler.handle({ operation })).resolves.toBe(response);
+    operation.preferences = { return: { value: 'representation', include: [], omit: []}};
+    operation.method = 'DELETE';
+    await expect(handler.handle({ operation })).resolves.toBe(response);
+    expect(store.getRepresentation).toHaveBeenCalledTimes(0);
+  });
+
+  it('returns the source response if the client can not read the target.', async(): Promise<void> => {
+    const response = new ResetResponseDescription();
+    source.handle.mockResolvedValue(response);
+
+    operation.availablePermissions = new IdentifierMap([[ target, { agent: { write: true }}]]);
+    await expect(handler.handle({ operation })).resolves.toBe(response);
+    delete operation.availablePermissions;
+    await expect(handler.handle({ operation })).resolves.toBe(response);
+    expect(store.getRepresentation).toHaveBeenCalledTimes(0);
+  });
+
+  it('returns the source response if the representation can not be read.', async(): Promise<void> => {
+    const response = new ResetResponseDescription();
+    source.handle.mockResolvedValue(response);
+    store.getRepresentation.mockRejectedValueOnce(new Error('bad data'));
+    await expect(handler.handle({ operation })).resolves.toBe(response);
+  });
+});
@@ -0,0 +1,62 @@
+import { createResponse } from 'node-mocks-http';
+import {
+  CacheControlMetadataWriter,
+  CacheControlRule,
+} from '../../../../../src/http/output/metadata/CacheControlMetadataWriter';
+import { RepresentationMetadata } from '../../../../../src/http/representation/RepresentationMetadata';
+import type { HttpResponse } from '../../../../../src/server/HttpResponse';
+
+describe('A CacheControlMetadataWriter', (): void => {
+  const baseUrl = 'http://test.com/';
+  let response: HttpResponse;
+  let writer: CacheControlMetadataWriter;
+
+  beforeEach(async(): Promise<void> => {
+    response = createResponse() as HttpResponse;
+    writer = new CacheControlMetadataWriter(baseUrl, [
+      new CacheControlRule('max-age=60', '^/public/', 'image/*'),
+      new CacheControlRule('max-age=30', '^/public/'),
+      new CacheControlRule('private', undefined, 'text/html'),
+      new CacheControlRule('no-cache'),
+    ]);
+  });
+
+  it('uses the first rule matching the path and content type.', async(): Promise<void> => {
+    const metadata = new RepresentationMetadata({ path: `${baseUrl}public/image.png` }, 'image/png');
+    await expect(writer.handle({ response, metadata })).resolves.toBeUndefined();
+    expect(response.getHeaders()).toEqual({ 'cache-control': 'max-age=60' });
+  });
+
+  it('can match based on only the path.', async(): Promise<void> => {
+    const metadata = new RepresentationMetadata({ path: `${baseUrl}public/page.html` }, 'text/html');
+    await expect(writer.handle({ response, metadata })).resolves.toBeUndefined();
+    expect(response.getHeaders()).toEqual({ 'cache-control': 'max-age=30' });
+  });
+
+  it('can match based on only the content type.', async(): Promise<void> => {
+    const metadata = new RepresentationMetadata({ path: `${baseUrl}page.html` }, 'text/html');
+    await expect(writer.handle({ response, metadata })).resolves.toBeUndefined();
+    expect(response.getHeaders()).toEqual({ 'cache-control': 'private' });
+  });
+
+  it('does not match content type rules if there is no content type.', async(): Promise<void> => {
+    const metadata = new RepresentationMetadata({ path: `${baseUrl}container/` });
+    await expect(writer.handle({ response, metadata })).resolves.toBeUndefined();
+    expect(response.getHeaders()).toEqual({ 'cache-control': 'no-cache' });
+  });
+
+  it('does nothing if no rule matches.', async(): Promise<void> => {
+    writer = new CacheControlMetadataWriter(baseUrl, [ new CacheControlRule('max-age=30', '^/public/') ]);
+    const metadata = new RepresentationMetadata({ path: `${baseUrl}private/document` });
+    await expect(writer.handle({ response, metadata })).resolves.toBeUndefined();
+    expect(response.getHeaders()).toEqual({});
+  });
+
+  it('does nothing for responses that do not describe a resource.', async(): Promise<void> => {
+    await expect(writer.handle({ response, metadata: new RepresentationMetadata('text/html') }))
+      .resolves.toBeUndefined();
+    const metadata = new RepresentationMetadata({ path: 'http://other.com/document' });
+    await expect(writer.handle({ response, metadata })).resolves.toBeUndefined();
+    expect(response.getHeaders()).toEqual({});
+  });
+});
@@ -0,0 +1,24 @@
+import { createResponse } from 'node-mocks-http';
+import { ContentRangeMetadataWriter } from '../../../../../src/http/output/metadata/ContentRangeMetadataWriter';
+import { RepresentationMetadata } from '../../../../../src/http/representation/RepresentationMetadata';
+import type { HttpResponse } from '../../../../../src/server/HttpResponse';
+import { addRangeMetadata } from '../../../../../src/util/RangeUtil';
+
+describe('A ContentRangeMetadataWriter', (): void => {
+  const writer = new ContentRangeMetadataWriter();
+
+  it('adds the Content-Range header if there is range metadata.', async(): Promise<void> => {
+    const response = createResponse() as HttpResponse;
+    const metadata = new RepresentationMetadata();
+    addRangeMetadata(metadata, { start: 10, end: 19 }, 100);
+    await expect(writer.handle({ response, metadata })).resolves.toBeUndefined();
+    expect(response.getHeaders()).toEqual({ 'content-range': 'bytes 10-19/100' });
+  });
+
+  it('does nothing if there is no matching metadata.', async(): Promise<void> => {
+    const response = createResponse() as HttpResponse;
+    const metadata = new RepresentationMetadata();
+    await expect(writer.handle({ response, metadata })).resolves.toBeUndefined();
+    expect(response.getHeaders()).toEqual({});
+  });
+});
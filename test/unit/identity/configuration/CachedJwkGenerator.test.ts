@@ -0,0 +1,59 @@
+import { generateKeyPair, importJWK, jwtVerify, SignJWT } from 'jose';
+import { CachedJwkGenerator } from '../../../../src/identity/configuration/CachedJwkGenerator';
+import type { KeyValueStorage } from '../../../../src/storage/keyvalue/KeyValueStorage';
+
+jest.mock('jose', (): any => ({
+  ...jest.requireActual('jose'),
+  generateKeyPair: jest.fn((alg: string): any => jest.requireActual('jose').generateKeyPair(alg)),
+}));
+
+describe('A CachedJwkGenerator', (): void => {
+  const alg = 'ES256';
+  const storageKey = 'jwks';
+  let storage: jest.Mocked<KeyValueStorage<string, any>>;
+  let generator: CachedJwkGenerator;
+
+  beforeEach(async(): Promise<void> => {
+    jest.clearAllMocks();
+    const map = new Map<string, any>();
+    storage = {
+      get: jest.fn(async(key: string): Promise<any> => map.get(key)),
+      set: jest.fn(async(key: string, value: any): Promise<any> => map.set(key, value)),
+    } as any;
+
+    generator = new CachedJwkGenerator(alg, storageKey, storage);
+  });
+
+  it('generates a private key and stores it as a JWKS.', async(): Promise<void> => {
+    const key = await generator.getPrivateKey();
+    expect(key.alg).toBe(alg);
+    expect(key.d).toBeDefined();
+    expect(storage.set).toHaveBeenCalledTimes(1);
+    expect(storage.set).toHaveBeenLastCalledWith(storageKey, { keys: [ key ]});
+  });
+
+  it('only generates the key once.', async(): Promise<void> => {
+    const [ key1, key2 ] = await Promise.all([ generator.getPrivateKey(), generator.getPrivateKey() ]);
+    expect(key1).toBe(key2);
+    expect(generateKeyPair).toHaveBeenCalledTimes(1);
+    expect(storage.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('uses the key found in the storage.', async(): Promise<void> => {
+    const key = await generator.getPrivateKey();
+    const generator2 = new CachedJwkGenerator(alg, storageKey, storage);
+    await expect(generator2.getPrivateKey()).resolves.toEqual(key);
+    expect(generateKeyPair).toHaveBeenCalledTimes(1);
+  });
+
+  it('derives the matching public key.', async(): Promise<void> => {
+    const publicKey = await generator.getPublicKey();
+    expect(publicKey.alg).toBe(alg);
+    expect(publicKey.d).toBeUndefined();
+    expect(await generator.getPublicKey()).toBe(publicKey);
+
+    const privateKey = await generator.getPrivateKey();
+    const jwt = await new SignJWT({}).setProtectedHeader({ alg }).sign(await importJWK(privateKey));
+    await expect(jwtVerify(jwt, await importJWK(publicKey))).resolves.toBeDefined();
+  });
+});
@@ -4,6 +4,7 @@ import type { ErrorHandler } from '../../../../src/http/output/error/ErrorHandle
 import type { ResponseWriter } from '../../../../src/http/output/ResponseWriter';
 import { BasicRepresentation } from '../../../../src/http/representation/BasicRepresentation';
 import { IdentityProviderFactory } from '../../../../src/identity/configuration/IdentityProviderFactory';
+import type { AlgJwk, JwkGenerator } from '../../../../src/identity/configuration/JwkGenerator';
 import type {
   ClientCredentials,
 } from '../../../../src/identity/interaction/email-password/credentials/ClientCredentialsAdapterFactory';
@@ -42,6 +43,8 @@ describe('An IdentityProviderFactory', (): void => {
   let ctx: KoaContextWithOIDC;
   let interactionHandler: jest.Mocked<InteractionHandler>;
   let adapterFactory: jest.Mocked<AdapterFactory>;
+  const jwk: AlgJwk = { kty: 'EC', alg: 'ES256', crv: 'P-256', x: 'x', y: 'y' };
+  let jwkGenerator: jest.Mocked<JwkGenerator>;
   let storage: jest.Mocked<KeyValueStorage<string, any>>;
   let credentialStorage: jest.Mocked<KeyValueStorage<string, ClientCredentials>>;
   let errorHandler: jest.Mocked<ErrorHandler>;
@@ -68,6 +71,12 @@ describe('An IdentityProviderFactory', (): void => {
       createStorageAdapter: jest.fn().mockReturnValue('adapter!'),
     };
 
+    jwkGenerator = {
+      alg: 'ES256',
+      getPrivateKey: jest.fn().mockResolvedValue(jwk),
+      getPublicKey: jest.fn(),
+    };
+
     const map = new Map();
     storage = {
       get: jest.fn((id: string): any => map.get(id)),
@@ -90,6 +99,7 @@ describe('An IdentityProviderFactory', (): void => {
       baseUrl,
       oidcPath,
       interactionHandler,
+      jwkGenerator,
       storage,
       credentialStorage,
       showStackTrace: true,
@@ -113,7 +123,7 @@ describe('An IdentityProviderFactory', (): void => {
     expect(adapterFactory.createStorageAdapter).toHaveBeenLastCalledWith('test!');
 
     expect(config.cookies?.keys).toEqual([ expect.any(String) ]);
-    expect(config.jwks).toEqual({ keys: [ expect.objectContaining({ alg: 'ES256' }) ]});
+    expect(config.jwks).toEqual({ keys: [ jwk ]});
     expect(config.routes).toEqual(routes);
     expect(config.pkce?.methods).toEqual([ 'S256' ]);
     expect((config.pkce!.required as any)()).toBe(true);
@@ -174,6 +184,7 @@ describe('An IdentityProviderFactory', (): void => {
       baseUrl,
       oidcPath,
       interactionHandler,
+      jwkGenerator,
       storage,
       credentialStorage,
       showStackTrace: true,
@@ -198,6 +209,7 @@ describe('An IdentityProviderFactory', (): void => {
       baseUrl,
       oidcPath,
       interactionHandler,
+      jwkGenerator,
       storage,
       credentialStorage,
       showStackTrace: true,
@@ -207,9 +219,8 @@ describe('An IdentityProviderFactory', (): void => {
     const result2 = await factory2.getProvider() as unknown as { issuer: string; config: Configuration };
     expect(result1.config.cookies).toEqual(result2.config.cookies);
     expect(result1.config.jwks).toEqual(result2.config.jwks);
-    expect(storage.get).toHaveBeenCalledTimes(4);
-    expect(storage.set).toHaveBeenCalledTimes(2);
-    expect(storage.set).toHaveBeenCalledWith('jwks', result1.config.jwks);
+    expect(storage.get).toHaveBeenCalledTimes(2);
+    expect(storage.set).toHaveBeenCalledTimes(1);
     expect(storage.set).toHaveBeenCalledWith('cookie-secret', result1.config.cookies?.keys);
   });
 
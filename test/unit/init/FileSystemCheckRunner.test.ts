@@ -0,0 +1,216 @@
+import { ComponentsManager } from 'componentsjs';
+import { FileSystemCheckRunner } from '../../../src/init/FileSystemCheckRunner';
+import type { Logger } from '../../../src/logging/Logger';
+import { setGlobalLoggerFactory } from '../../../src/logging/LogUtil';
+import { WinstonLoggerFactory } from '../../../src/logging/WinstonLoggerFactory';
+import type { FileSystemIssue } from '../../../src/storage/check/FileSystemChecker';
+import { FileSystemChecker } from '../../../src/storage/check/FileSystemChecker';
+import { joinFilePath } from '../../../src/util/PathUtil';
+import { flushPromises } from '../../util/Util';
+
+jest.mock('../../../src/logging/LogUtil', (): any => {
+  const logger: Logger = { info: jest.fn() } as any;
+  return { getLoggerFor: (): Logger => logger, setGlobalLoggerFactory: jest.fn() };
+});
+
+let issues: FileSystemIssue[];
+const check = jest.fn(async(): Promise<FileSystemIssue[]> => issues);
+jest.mock('../../../src/storage/check/FileSystemChecker', (): any => ({
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  FileSystemChecker: jest.fn((): any => ({ check })),
+}));
+
+const components: Record<string, any> = {
+  'urn:solid-server-app-setup:default:CliResolver': {
+    shorthandResolver: {
+      handleSafe: jest.fn(async(shorthand: Record<string, unknown>): Promise<Record<string, unknown>> => ({
+        'urn:solid-server:default:variable:baseUrl': shorthand.baseUrl ?? 'http://localhost:3000/',
+        'urn:solid-server:default:variable:rootFilePath': `/var/cwd/${shorthand.rootFilePath ?? ''}`,
+      })),
+    },
+  },
+  'urn:solid-server:default:FileIdentifierMapper': { name: 'mapper' },
+  'urn:solid-server:default:AclIdentifierStrategy': { name: 'aclStrategy' },
+};
+
+const manager: jest.Mocked<ComponentsManager<any>> = {
+  instantiate: jest.fn(async(iri: string): Promise<any> => components[iri]),
+  configRegistry: {
+    register: jest.fn(),
+  },
+} as any;
+
+jest.mock('componentsjs', (): any => ({
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  ComponentsManager: {
+    build: jest.fn(async(): Promise<ComponentsManager<any>> => manager),
+  },
+}));
+
+jest.spyOn(process, 'cwd').mockReturnValue('/var/cwd');
+const stdout = jest.spyOn(process.stdout, 'write').mockImplementation(jest.fn());
+const stderr = jest.spyOn(process.stderr, 'write').mockImplementation(jest.fn());
+const exit = jest.spyOn(process, 'exit').mockImplementation(jest.fn() as any);
+
+describe('A FileSystemCheckRunner', (): void => {
+  const argv = [ 'node', 'script', '-c', 'config.json', '-f', '.data' ];
+  const { shorthandResolver } = components['urn:solid-server-app-setup:default:CliResolver'];
+
+  beforeEach(async(): Promise<void> => {
+    issues = [];
+  });
+
+  afterEach((): void => {
+    jest.clearAllMocks();
+  });
+
+  describe('check', (): void => {
+    it('checks the data folder of the config.', async(): Promise<void> => {
+      const loaderProperties = { mainModulePath: '/var/cwd/' };
+      await expect(new FileSystemCheckRunner().check({
+        loaderProperties,
+        config: '/var/cwd/config.json',
+        shorthand: { rootFilePath: '.data' },
+        repair: true,
+      })).resolves.toBe(issues);
+
+      expect(ComponentsManager.build).toHaveBeenCalledTimes(1);
+      expect(ComponentsManager.build).toHaveBeenLastCalledWith(loaderProperties);
+      expect(manager.configRegistry.register).toHaveBeenLastCalledWith('/var/cwd/config.json');
+      expect(shorthandResolver.handleSafe).toHaveBeenLastCalledWith({ rootFilePath: '.data' });
+      expect(manager.instantiate).toHaveBeenCalledWith('urn:solid-server:default:FileIdentifierMapper', {
+        variables: {
+          'urn:solid-server:default:variable:baseUrl': 'http://localhost:3000/',
+          'urn:solid-server:default:variable:rootFilePath': '/var/cwd/.data',
+        },
+      });
+
+      expect(FileSystemChecker).toHaveBeenCalledTimes(1);
+      expect(FileSystemChecker).toHaveBeenLastCalledWith({
+        mapper: components['urn:solid-server:default:FileIdentifierMapper'],
+        rootFilePath: '/var/cwd/.data',
+        baseUrl: 'http://localhost:3000/',
+        converter: expect.any(Object),
+        lostAndFoundPath: '/var/cwd/.data/.internal/lost+found/',
+        aclStrategy: components['urn:solid-server:default:AclIdentifierStrategy'],
+        ignoredPaths: [ '^/\\.internal/locks/' ],
+      });
+      expect(check).toHaveBeenLastCalledWith(true);
+    });
+
+    it('can use custom ignored paths.', async(): Promise<void> => {
+      await new FileSystemCheckRunner().check({
+        loaderProperties: { mainModulePath: '/var/cwd/' },
+        config: '/var/cwd/config.json',
+        ignoredPaths: [ '^/private/' ],
+      });
+      expect(shorthandResolver.handleSafe).toHaveBeenLastCalledWith({});
+      expect(FileSystemChecker).toHaveBeenLastCalledWith(expect.objectContaining({ ignoredPaths: [ '^/private/' ]}));
+      expect(check).toHaveBeenLastCalledWith(undefined);
+    });
+
+    it('throws an error if the config could not be instantiated.', async(): Promise<void> => {
+      manager.instantiate.mockRejectedValueOnce(new Error('Fatal'));
+      await expect(new FileSystemCheckRunner().check({
+        loaderProperties: { mainModulePath: '/var/cwd/' },
+        config: '/var/cwd/config.json',
+      })).rejects.toThrow(/^Could not instantiate \/var\/cwd\/config.json\nCause: Fatal\n/u);
+      expect(check).toHaveBeenCalledTimes(0);
+    });
+
+    it('does not add a stack trace to errors that are not Error objects.', async(): Promise<void> => {
+      manager.instantiate.mockRejectedValueOnce('Fatal');
+      await expect(new FileSystemCheckRunner().check({
+        loaderProperties: { mainModulePath: '/var/cwd/' },
+        config: '/var/cwd/config.json',
+      })).rejects.toThrow('Could not instantiate /var/cwd/config.json\nCause: Unknown error: Fatal\n');
+    });
+  });
+
+  describe('runCli', (): void => {
+    it('checks the data based on the CLI arguments.', async(): Promise<void> => {
+      await expect(new FileSystemCheckRunner().runCli([ ...argv, '-b', 'http://example.com/', '--repair' ]))
+        .resolves.toBe(issues);
+
+      expect(setGlobalLoggerFactory).toHaveBeenCalledTimes(1);
+      expect(setGlobalLoggerFactory).toHaveBeenLastCalledWith(expect.any(WinstonLoggerFactory));
+      expect(ComponentsManager.build).toHaveBeenCalledWith({
+        dumpErrorState: true,
+        logLevel: 'info',
+        mainModulePath: joinFilePath(__dirname, '../../../'),
+        typeChecking: false,
+      });
+      expect(manager.configRegistry.register).toHaveBeenLastCalledWith('/var/cwd/config.json');
+      expect(shorthandResolver.handleSafe)
+        .toHaveBeenLastCalledWith({ rootFilePath: '.data', baseUrl: 'http://example.com/' });
+      expect(check).toHaveBeenLastCalledWith(true);
+    });
+
+    it('defaults to the process arguments and the file config.', async(): Promise<void> => {
+      const processArgv = process.argv;
+      process.argv = [ 'node', 'script' ];
+      try {
+        await new FileSystemCheckRunner().runCli();
+      } finally {
+        process.argv = processArgv;
+      }
+      expect(manager.configRegistry.register)
+        .toHaveBeenLastCalledWith(joinFilePath(__dirname, '../../../config/file.json'));
+      expect(shorthandResolver.handleSafe).toHaveBeenLastCalledWith({});
+      expect(check).toHaveBeenLastCalledWith(false);
+    });
+  });
+
+  describe('runCliSync', (): void => {
+    it('writes the issues and exits with code 0 if there are no unrepaired issues.', async(): Promise<void> => {
+      issues.push({
+        type: 'orphanedMetadata',
+        filePath: '/var/cwd/.data/a.meta',
+        message: 'Orphan',
+        repairable: true,
+        repaired: true,
+      });
+
+      // eslint-disable-next-line no-sync
+      new FileSystemCheckRunner().runCliSync({ argv });
+      await flushPromises();
+
+      expect(stdout).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(stdout.mock.calls[0][0] as string)).toEqual(issues);
+      expect(exit).toHaveBeenCalledTimes(1);
+      expect(exit).toHaveBeenLastCalledWith(0);
+    });
+
+    it('exits with code 1 if there are unrepaired issues.', async(): Promise<void> => {
+      issues.push({
+        type: 'missingRootAcl',
+        filePath: '/var/cwd/.data/.acl',
+        message: 'No ACL',
+        repairable: false,
+        repaired: false,
+      });
+
+      // eslint-disable-next-line no-sync
+      new FileSystemCheckRunner().runCliSync({ argv });
+      await flushPromises();
+
+      expect(stdout).toHaveBeenCalledTimes(1);
+      expect(exit).toHaveBeenCalledTimes(1);
+      expect(exit).toHaveBeenLastCalledWith(1);
+    });
+
+    it('exits the process and writes to stderr if there was an error.', async(): Promise<void> => {
+      check.mockRejectedValueOnce(new Error('Fatal'));
+
+      // eslint-disable-next-line no-sync
+      new FileSystemCheckRunner().runCliSync({ argv });
+      await flushPromises();
+
+      expect(stdout).toHaveBeenCalledTimes(0);
+      expect(stderr).toHaveBeenCalledTimes(1);
+      expect(stderr).toHaveBeenLastCalledWith('Fatal');
+      expect(exit).toHaveBeenCalledTimes(1);
+      expect(exit).toHaveBeenLastCalledWith(1);
+    });
+  });
+});
@@ -0,0 +1,243 @@
+import { ComponentsManager } from 'componentsjs';
+import { MigrationRunner } from '../../../src/init/MigrationRunner';
+import type { Logger } from '../../../src/logging/Logger';
+import { setGlobalLoggerFactory } from '../../../src/logging/LogUtil';
+import { WinstonLoggerFactory } from '../../../src/logging/WinstonLoggerFactory';
+import type { MigrationReport } from '../../../src/storage/migration/StorageMigrator';
+import { StorageMigrator } from '../../../src/storage/migration/StorageMigrator';
+import { joinFilePath } from '../../../src/util/PathUtil';
+import { flushPromises } from '../../util/Util';
+
+jest.mock('../../../src/logging/LogUtil', (): any => {
+  const logger: Logger = { info: jest.fn() } as any;
+  return { getLoggerFor: (): Logger => logger, setGlobalLoggerFactory: jest.fn() };
+});
+
+let report: MigrationReport;
+const migrate = jest.fn(async(): Promise<MigrationReport> => report);
+jest.mock('../../../src/storage/migration/StorageMigrator', (): any => ({
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  StorageMigrator: jest.fn((): any => ({ migrate })),
+}));
+
+function createComponents(name: string): Record<string, any> {
+  return {
+    'urn:solid-server-app-setup:default:CliResolver': {
+      shorthandResolver: {
+        handleSafe: jest.fn(async(shorthand: Record<string, unknown>): Promise<Record<string, unknown>> =>
+          ({ 'urn:solid-server:default:variable:baseUrl': shorthand.baseUrl })),
+      },
+    },
+    'urn:solid-server:default:CleanupInitializer': { handleSafe: jest.fn() },
+    'urn:solid-server:default:CleanupFinalizer': { handleSafe: jest.fn() },
+    'urn:solid-server:default:ResourceStore': { name: `${name}Store` },
+    'urn:solid-server:default:AuxiliaryStrategy': { name: `${name}AuxiliaryStrategy` },
+    'urn:solid-server:default:MetadataStrategy': { name: `${name}MetadataStrategy` },
+  };
+}
+
+const source = createComponents('source');
+const target = createComponents('target');
+
+function createManager(components: Record<string, any>): jest.Mocked<ComponentsManager<any>> {
+  return {
+    instantiate: jest.fn(async(iri: string): Promise<any> => components[iri]),
+    configRegistry: {
+      register: jest.fn(),
+    },
+  } as any;
+}
+
+const sourceManager = createManager(source);
+const targetManager = createManager(target);
+
+jest.mock('componentsjs', (): any => ({
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  ComponentsManager: {
+    build: jest.fn(),
+  },
+}));
+
+jest.spyOn(process, 'cwd').mockReturnValue('/var/cwd');
+const stdout = jest.spyOn(process.stdout, 'write').mockImplementation(jest.fn());
+const stderr = jest.spyOn(process.stderr, 'write').mockImplementation(jest.fn());
+const exit = jest.spyOn(process, 'exit').mockImplementation(jest.fn() as any);
+
+describe('A MigrationRunner', (): void => {
+  const argv = [ 'node', 'script', '-s', 'source.json', '-t', 'target.json', '--source.rootFilePath', '.data' ];
+
+  beforeEach(async(): Promise<void> => {
+    report = { total: 2, copied: 2, resumed: 0, unsupported: [], mismatched: [], targetTotal: 2 };
+    // The source config is always built first
+    const managers = [ sourceManager, targetManager ];
+    (ComponentsManager.build as jest.Mock).mockImplementation(async(): Promise<any> => managers.shift());
+  });
+
+  afterEach((): void => {
+    jest.clearAllMocks();
+  });
+
+  describe('migrate', (): void => {
+    it('migrates the data of the source config to the target config.', async(): Promise<void> => {
+      const loaderProperties = { mainModulePath: '/var/cwd/' };
+      await expect(new MigrationRunner().migrate({
+        loaderProperties,
+        sourceConfig: '/var/cwd/source.json',
+        sourceShorthand: { rootFilePath: '.data' },
+        targetConfig: '/var/cwd/target.json',
+        baseUrl: 'http://localhost:3000',
+        progressPath: '/var/cwd/migration.json',
+      })).resolves.toBe(report);
+
+      expect(ComponentsManager.build).toHaveBeenCalledTimes(2);
+      expect(ComponentsManager.build).toHaveBeenCalledWith(loaderProperties);
+      expect(sourceManager.configRegistry.register).toHaveBeenLastCalledWith('/var/cwd/source.json');
+      expect(targetManager.configRegistry.register).toHaveBeenLastCalledWith('/var/cwd/target.json');
+      expect(source['urn:solid-server-app-setup:default:CliResolver'].shorthandResolver.handleSafe)
+        .toHaveBeenLastCalledWith({ rootFilePath: '.data', baseUrl: 'http://localhost:3000/' });
+      expect(target['urn:solid-server-app-setup:default:CliResolver'].shorthandResolver.handleSafe)
+        .toHaveBeenLastCalledWith({ baseUrl: 'http://localhost:3000/' });
+      expect(sourceManager.instantiate).toHaveBeenCalledWith('urn:solid-server:default:ResourceStore',
+        { variables: { 'urn:solid-server:default:variable:baseUrl': 'http://localhost:3000/' }});
+
+      expect(StorageMigrator).toHaveBeenCalledTimes(1);
+      expect(StorageMigrator).toHaveBeenLastCalledWith({
+        source: source['urn:solid-server:default:ResourceStore'],
+        target: target['urn:solid-server:default:ResourceStore'],
+        auxiliaryStrategy: source['urn:solid-server:default:AuxiliaryStrategy'],
+        metadataStrategy: source['urn:solid-server:default:MetadataStrategy'],
+        converter: expect.any(Object),
+        progress: expect.any(Object),
+        hiddenPaths: [ '/.internal/' ],
+        ignoredPaths: [ '^/\\.internal/locks/' ],
+      });
+      expect(migrate).toHaveBeenLastCalledWith({ path: 'http://localhost:3000/' });
+
+      for (const components of [ source, target ]) {
+        expect(components['urn:solid-server:default:CleanupInitializer'].handleSafe).toHaveBeenCalledTimes(1);
+        expect(components['urn:solid-server:default:CleanupFinalizer'].handleSafe).toHaveBeenCalledTimes(1);
+      }
+    });
+
+    it('can use custom hidden and ignored paths.', async(): Promise<void> => {
+      await new MigrationRunner().migrate({
+        loaderProperties: { mainModulePath: '/var/cwd/' },
+        sourceConfig: '/var/cwd/source.json',
+        targetConfig: '/var/cwd/target.json',
+        baseUrl: 'http://localhost:3000/',
+        progressPath: '/var/cwd/migration.json',
+        hiddenPaths: [],
+        ignoredPaths: [ '^/private/' ],
+      });
+      expect(StorageMigrator).toHaveBeenLastCalledWith(expect.objectContaining({
+        hiddenPaths: [],
+        ignoredPaths: [ '^/private/' ],
+      }));
+    });
+
+    it('runs the finalizers if the migration fails.', async(): Promise<void> => {
+      migrate.mockRejectedValueOnce(new Error('bad data'));
+      await expect(new MigrationRunner().migrate({
+        loaderProperties: { mainModulePath: '/var/cwd/' },
+        sourceConfig: '/var/cwd/source.json',
+        targetConfig: '/var/cwd/target.json',
+        baseUrl: 'http://localhost:3000/',
+        progressPath: '/var/cwd/migration.json',
+      })).rejects.toThrow('bad data');
+      expect(source['urn:solid-server:default:CleanupFinalizer'].handleSafe).toHaveBeenCalledTimes(1);
+      expect(target['urn:solid-server:default:CleanupFinalizer'].handleSafe).toHaveBeenCalledTimes(1);
+    });
+
+    it('throws an error if a config could not be instantiated.', async(): Promise<void> => {
+      sourceManager.instantiate.mockRejectedValueOnce(new Error('Fatal'));
+      await expect(new MigrationRunner().migrate({
+        loaderProperties: { mainModulePath: '/var/cwd/' },
+        sourceConfig: '/var/cwd/source.json',
+        targetConfig: '/var/cwd/target.json',
+        baseUrl: 'http://localhost:3000/',
+        progressPath: '/var/cwd/migration.json',
+      })).rejects.toThrow(/^Could not instantiate \/var\/cwd\/source.json\nCause: Fatal\n/u);
+    });
+
+    it('does not add a stack trace to errors that are not Error objects.', async(): Promise<void> => {
+      sourceManager.instantiate.mockRejectedValueOnce('Fatal');
+      await expect(new MigrationRunner().migrate({
+        loaderProperties: { mainModulePath: '/var/cwd/' },
+        sourceConfig: '/var/cwd/source.json',
+        targetConfig: '/var/cwd/target.json',
+        baseUrl: 'http://localhost:3000/',
+        progressPath: '/var/cwd/migration.json',
+      })).rejects.toThrow('Could not instantiate /var/cwd/source.json\nCause: Unknown error: Fatal\n');
+    });
+  });
+
+  describe('runCli', (): void => {
+    it('migrates the data based on the CLI arguments.', async(): Promise<void> => {
+      await expect(new MigrationRunner().runCli(argv)).resolves.toBe(report);
+
+      expect(setGlobalLoggerFactory).toHaveBeenCalledTimes(1);
+      expect(setGlobalLoggerFactory).toHaveBeenLastCalledWith(expect.any(WinstonLoggerFactory));
+      expect(ComponentsManager.build).toHaveBeenCalledWith({
+        dumpErrorState: true,
+        logLevel: 'info',
+        mainModulePath: joinFilePath(__dirname, '../../../'),
+        typeChecking: false,
+      });
+      expect(sourceManager.configRegistry.register).toHaveBeenLastCalledWith('/var/cwd/source.json');
+      expect(targetManager.configRegistry.register).toHaveBeenLastCalledWith('/var/cwd/target.json');
+      expect(source['urn:solid-server-app-setup:default:CliResolver'].shorthandResolver.handleSafe)
+        .toHaveBeenLastCalledWith({ rootFilePath: '.data', baseUrl: 'http://localhost:3000/' });
+      expect(migrate).toHaveBeenLastCalledWith({ path: 'http://localhost:3000/' });
+    });
+
+    it('defaults to the process arguments.', async(): Promise<void> => {
+      const processArgv = process.argv;
+      process.argv = [ ...argv, '-b', 'http://example.com/' ];
+      try {
+        await new MigrationRunner().runCli();
+      } finally {
+        process.argv = processArgv;
+      }
+      expect(migrate).toHaveBeenLastCalledWith({ path: 'http://example.com/' });
+    });
+  });
+
+  describe('runCliSync', (): void => {
+    it('writes the report and exits with code 0 if the migration is complete.', async(): Promise<void> => {
+      // eslint-disable-next-line no-sync
+      new MigrationRunner().runCliSync({ argv });
+      await flushPromises();
+
+      expect(stdout).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(stdout.mock.calls[0][0] as string)).toEqual(report);
+      expect(exit).toHaveBeenCalledTimes(1);
+      expect(exit).toHaveBeenLastCalledWith(0);
+    });
+
+    it('exits with code 1 if not all resources were migrated.', async(): Promise<void> => {
+      report.unsupported.push({ path: 'http://localhost:3000/image.png', reason: 'Unsupported' });
+
+      // eslint-disable-next-line no-sync
+      new MigrationRunner().runCliSync({ argv });
+      await flushPromises();
+
+      expect(stdout).toHaveBeenCalledTimes(1);
+      expect(exit).toHaveBeenCalledTimes(1);
+      expect(exit).toHaveBeenLastCalledWith(1);
+    });
+
+    it('exits the process and writes to stderr if there was an error.', async(): Promise<void> => {
+      migrate.mockRejectedValueOnce(new Error('Fatal'));
+
+      // eslint-disable-next-line no-sync
+      new MigrationRunner().runCliSync({ argv });
+      await flushPromises();
+
+      expect(stdout).toHaveBeenCalledTimes(0);
+      expect(stderr).toHaveBeenCalledTimes(1);
+      expect(stderr).toHaveBeenLastCalledWith('Fatal');
+      expect(exit).toHaveBeenCalledTimes(1);
+      expect(exit).toHaveBeenLastCalledWith(1);
+    });
+  });
+});
@@ -103,4 +103,14 @@ describe('A ClusterManager', (): void => {
     mockWorker.emit('message', msg);
     expect(mockLogger.info).toHaveBeenCalledWith(msg);
   });
+
+  it('does not log messages from workers that are not strings.', (): void => {
+    const cm = new ClusterManager(2);
+    Object.assign(cm, { logger: mockLogger });
+
+    cm.spawnWorkers();
+    jest.clearAllMocks();
+    mockWorker.emit('message', { type: 'event' });
+    expect(mockLogger.info).toHaveBeenCalledTimes(0);
+  });
 });
@@ -0,0 +1,46 @@
+import 'jest-rdf';
+import { DataFactory } from 'n3';
+import type { ResourceIdentifier } from '../../../src/http/representation/ResourceIdentifier';
+import { QuotaStorageDescriber } from '../../../src/storage/quota/QuotaStorageDescriber';
+import type { QuotaStrategy } from '../../../src/storage/quota/QuotaStrategy';
+import { UNIT_BYTES } from '../../../src/storage/size-reporter/Size';
+import { SOLID_QUOTA, XSD } from '../../../src/util/Vocabularies';
+const { literal, namedNode, quad } = DataFactory;
+
+describe('A QuotaStorageDescriber', (): void => {
+  const identifier: ResourceIdentifier = { path: 'http://example.com/pod/' };
+  let strategy: jest.Mocked<QuotaStrategy>;
+  let describer: QuotaStorageDescriber;
+
+  beforeEach(async(): Promise<void> => {
+    strategy = {
+      limit: { unit: UNIT_BYTES, amount: 100 },
+      getUsedSpace: jest.fn().mockResolvedValue({ unit: UNIT_BYTES, amount: 30 }),
+    } as any;
+
+    describer = new QuotaStorageDescriber(strategy);
+  });
+
+  it('describes the quota usage of the storage.', async(): Promise<void> => {
+    const subject = namedNode(identifier.path);
+    await expect(describer.handle(identifier)).resolves.toBeRdfIsomorphic([
+      quad(subject, SOLID_QUOTA.terms.limit, literal('100', XSD.terms.integer)),
+      quad(subject, SOLID_QUOTA.terms.used, literal('30', XSD.terms.integer)),
+      quad(subject, SOLID_QUOTA.terms.available, literal('70', XSD.terms.integer)),
+      quad(subject, SOLID_QUOTA.terms.unit, literal(UNIT_BYTES)),
+    ]);
+    expect(strategy.getUsedSpace).toHaveBeenLastCalledWith(identifier);
+  });
+
+  it('does not report negative available space.', async(): Promise<void> => {
+    strategy.getUsedSpace.mockResolvedValueOnce({ unit: UNIT_BYTES, amount: 120 });
+    const quads = await describer.handle(identifier);
+    expect(quads.find((entry): boolean => entry.predicate.equals(SOLID_QUOTA.terms.available))?.object.value)
+      .toBe('0');
+  });
+
+  it('returns no quads if no quota applies to the storage.', async(): Promise<void> => {
+    strategy.getUsedSpace.mockResolvedValueOnce(undefined);
+    await expect(describer.handle(identifier)).resolves.toHaveLength(0);
+  });
+});
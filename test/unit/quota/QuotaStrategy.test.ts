@@ -1,9 +1,11 @@
+import arrayifyStream from 'arrayify-stream';
 import { RepresentationMetadata } from '../../../src/http/representation/RepresentationMetadata';
 import { QuotaStrategy } from '../../../src/storage/quota/QuotaStrategy';
 import { UNIT_BYTES } from '../../../src/storage/size-reporter/Size';
 import type { Size } from '../../../src/storage/size-reporter/Size';
 import type { SizeReporter } from '../../../src/storage/size-reporter/SizeReporter';
-import { guardedStreamFrom, pipeSafely } from '../../../src/util/StreamUtil';
+import { PayloadHttpError } from '../../../src/util/errors/PayloadHttpError';
+import { guardedStreamFrom, pipeSafely, readableToString } from '../../../src/util/StreamUtil';
 import { mockFileSystem } from '../../util/Util';
 
 jest.mock('fs');
@@ -44,6 +46,19 @@ describe('A QuotaStrategy', (): void => {
     });
   });
 
+  describe('getUsedSpace()', (): void => {
+    it('should return the total space used.', async(): Promise<void> => {
+      await expect(strategy.getUsedSpace({ path: `${base}file.txt` })).resolves
+        .toEqual({ unit: UNIT_BYTES, amount: 5 });
+    });
+
+    it('should return undefined if no quota applies.', async(): Promise<void> => {
+      jest.spyOn(strategy as any, 'getTotalSpaceUsed')
+        .mockResolvedValueOnce({ unit: UNIT_BYTES, amount: Number.MAX_SAFE_INTEGER });
+      await expect(strategy.getUsedSpace({ path: `${base}file.txt` })).resolves.toBeUndefined();
+    });
+  });
+
   describe('estimateSize()', (): void => {
     it('should return a Size object containing the correct unit and amount.', async(): Promise<void> => {
       await expect(strategy.estimateSize(new RepresentationMetadata())).resolves.toEqual(
@@ -57,6 +72,15 @@ describe('A QuotaStrategy', (): void => {
     });
   });
 
+  describe('createQuotaError()', (): void => {
+    it('should describe the limit in the error.', async(): Promise<void> => {
+      const error = strategy.createQuotaError('Quota exceeded', { unit: UNIT_BYTES, amount: -10 });
+      expect(error.statusCode).toBe(413);
+      expect(error.message).toBe('Quota exceeded. The quota limit is 2000 bytes.');
+      expect(error.details).toEqual({ limit: 2000, available: 0, size: undefined, unit: UNIT_BYTES });
+    });
+  });
+
   describe('createQuotaGuard()', (): void => {
     it('should return a passthrough that destroys the stream when quota is exceeded.', async(): Promise<void> => {
       strategy.getAvailableSpace = jest.fn().mockReturnValue({ amount: 50, unit: mockSize.unit });
@@ -84,5 +108,42 @@ describe('A QuotaStrategy', (): void => {
       });
       await expect(destroy).resolves.toBeUndefined();
     });
+
+    it('should only determine the available space once.', async(): Promise<void> => {
+      strategy.getAvailableSpace = jest.fn().mockResolvedValue({ amount: 50, unit: mockSize.unit });
+      const track = await strategy.createQuotaGuard({ path: `${base}nested/file2.txt` });
+      const piped = pipeSafely(guardedStreamFrom([ 'A'.repeat(20), 'A'.repeat(20) ]), track);
+
+      await expect(readableToString(piped)).resolves.toBe('A'.repeat(40));
+      expect(strategy.getAvailableSpace).toHaveBeenCalledTimes(1);
+      expect(mockReporter.calculateChunkSize).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use the available space if it is provided.', async(): Promise<void> => {
+      strategy.getAvailableSpace = jest.fn();
+      const track = await strategy.createQuotaGuard(
+        { path: `${base}nested/file2.txt` },
+        { amount: 30, unit: mockSize.unit },
+      );
+      const piped = pipeSafely(guardedStreamFrom([ 'A'.repeat(20), 'A'.repeat(20) ]), track);
+
+      const error = await readableToString(piped).catch((err: unknown): unknown => err);
+      expect(PayloadHttpError.isInstance(error)).toBe(true);
+      expect((error as PayloadHttpError).message)
+        .toBe('Quota exceeded by 10 bytes during write. The quota limit is 2000 bytes.');
+      expect((error as PayloadHttpError).details).toEqual({ limit: 2000, available: 30, size: 40, unit: UNIT_BYTES });
+      expect(strategy.getAvailableSpace).toHaveBeenCalledTimes(0);
+    });
+
+    it('can track object streams.', async(): Promise<void> => {
+      strategy.getAvailableSpace = jest.fn().mockResolvedValue({ amount: 50, unit: mockSize.unit });
+      mockReporter.calculateChunkSize.mockResolvedValue(1);
+      const objects = [{ value: 1 }, { value: 2 }];
+      const track = await strategy.createQuotaGuard({ path: `${base}nested/file2.txt` }, undefined, true);
+      const piped = pipeSafely(guardedStreamFrom(objects), track);
+
+      await expect(arrayifyStream(piped)).resolves.toEqual(objects);
+      expect(mockReporter.calculateChunkSize).toHaveBeenCalledTimes(2);
+    });
   });
 });
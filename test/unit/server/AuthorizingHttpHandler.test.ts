@@ -1,4 +1,5 @@
 import { CredentialGroup } from '../../../src/authentication/Credentials';
+import { getRequestCredentials } from '../../../src/authentication/CredentialsContext';
 import type { CredentialsExtractor } from '../../../src/authentication/CredentialsExtractor';
 import type { Authorizer } from '../../../src/authorization/Authorizer';
 import type { PermissionReader } from '../../../src/authorization/PermissionReader';
@@ -75,6 +76,15 @@ describe('An AuthorizingHttpHandler', (): void => {
     expect(operation.availablePermissions).toBe(availablePermissions);
   });
 
+  it('makes the credentials available while calling the source.', async(): Promise<void> => {
+    source.handleSafe.mockImplementation(async(): Promise<any> => {
+      expect(getRequestCredentials()).toBe(credentials);
+    });
+    await expect(handler.handle({ request, response, operation })).resolves.toBeUndefined();
+    expect(source.handleSafe).toHaveBeenCalledTimes(1);
+    expect(getRequestCredentials()).toBeUndefined();
+  });
+
   it('errors if authorization fails.', async(): Promise<void> => {
     const error = new ForbiddenHttpError();
     authorizer.handleSafe.mockRejectedValueOnce(error);
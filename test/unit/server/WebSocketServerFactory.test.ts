@@ -51,4 +51,11 @@ describe('SimpleWebSocketHandler', (): void => {
     expect(buffer.toString()).toBe('SimpleWebSocketHandler');
     expect(webSocketHandler.host).toBe('localhost:5556');
   });
+
+  it('closes the WebSocket if the handler throws an error.', async(): Promise<void> => {
+    jest.spyOn(webSocketHandler, 'handle').mockRejectedValueOnce(new Error('bad data'));
+    const client = new WebSocket('ws://localhost:5556');
+    await new Promise<void>((resolve): any => client.on('close', resolve));
+    expect(webSocketHandler.handle).toHaveBeenCalledTimes(1);
+  });
 });
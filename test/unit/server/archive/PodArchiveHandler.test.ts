@@ -0,0 +1,140 @@
+import type { CredentialsExtractor } from '../../../../src/authentication/CredentialsExtractor';
+import type { Authorizer } from '../../../../src/authorization/Authorizer';
+import type { PermissionReader } from '../../../../src/authorization/PermissionReader';
+import { AclMode } from '../../../../src/authorization/permissions/AclPermission';
+import type { Operation } from '../../../../src/http/Operation';
+import { BasicRepresentation } from '../../../../src/http/representation/BasicRepresentation';
+import type { Representation } from '../../../../src/http/representation/Representation';
+import { RepresentationMetadata } from '../../../../src/http/representation/RepresentationMetadata';
+import type { ResourceIdentifier } from '../../../../src/http/representation/ResourceIdentifier';
+import { PodArchiveHandler } from '../../../../src/server/archive/PodArchiveHandler';
+import type { HttpRequest } from '../../../../src/server/HttpRequest';
+import type { HttpResponse } from '../../../../src/server/HttpResponse';
+import type { PodArchiver } from '../../../../src/storage/archive/PodArchiver';
+import type { ResourceStore } from '../../../../src/storage/ResourceStore';
+import { ForbiddenHttpError } from '../../../../src/util/errors/ForbiddenHttpError';
+import { MethodNotAllowedHttpError } from '../../../../src/util/errors/MethodNotAllowedHttpError';
+import { NotFoundHttpError } from '../../../../src/util/errors/NotFoundHttpError';
+import { UnsupportedMediaTypeHttpError } from '../../../../src/util/errors/UnsupportedMediaTypeHttpError';
+import { IdentifierMap, IdentifierSetMultiMap } from '../../../../src/util/map/IdentifierMap';
+import { guardedStreamFrom, readableToString, readJsonStream } from '../../../../src/util/StreamUtil';
+import { PIM, RDF } from '../../../../src/util/Vocabularies';
+
+describe('A PodArchiveHandler', (): void => {
+  const pod = 'http://example.com/alice/';
+  const target = `${pod}.archive`;
+  const credentials = { agent: { webId: 'http://example.com/alice/profile/card#me' }};
+  const request: HttpRequest = {} as any;
+  const response: HttpResponse = {} as any;
+  let operation: Operation;
+  let store: jest.Mocked<ResourceStore>;
+  let archiver: jest.Mocked<PodArchiver>;
+  let credentialsExtractor: jest.Mocked<CredentialsExtractor>;
+  let permissionReader: jest.Mocked<PermissionReader>;
+  let authorizer: jest.Mocked<Authorizer>;
+  let handler: PodArchiveHandler;
+
+  beforeEach(async(): Promise<void> => {
+    operation = {
+      method: 'GET',
+      target: { path: target },
+      body: new BasicRepresentation(),
+      preferences: {},
+    };
+
+    store = {
+      getRepresentation: jest.fn(async({ path }: ResourceIdentifier): Promise<Representation> => {
+        const metadata = new RepresentationMetadata({ path });
+        if (path === pod) {
+          metadata.add(RDF.terms.type, PIM.terms.Storage);
+        }
+        return new BasicRepresentation('', metadata);
+      }),
+    } as any;
+
+    archiver = {
+      export: jest.fn().mockReturnValue(guardedStreamFrom('archive')),
+      import: jest.fn().mockResolvedValue(5),
+    } as any;
+
+    credentialsExtractor = {
+      handleSafe: jest.fn().mockResolvedValue(credentials),
+    } as any;
+
+    permissionReader = {
+      handleSafe: jest.fn().mockResolvedValue(new IdentifierMap()),
+    } as any;
+
+    authorizer = {
+      handleSafe: jest.fn(),
+    } as any;
+
+    handler = new PodArchiveHandler({
+      store,
+      archiver,
+      path: '.archive',
+      credentialsExtractor,
+      permissionReader,
+      authorizer,
+    });
+  });
+
+  it('only handles requests targeting the archive.', async(): Promise<void> => {
+    await expect(handler.canHandle({ operation, request, response })).resolves.toBeUndefined();
+
+    operation.target.path = `${pod}foo`;
+    await expect(handler.canHandle({ operation, request, response })).rejects.toThrow(NotFoundHttpError);
+  });
+
+  it('only supports GET and PUT requests.', async(): Promise<void> => {
+    operation.method = 'PUT';
+    await expect(handler.canHandle({ operation, request, response })).resolves.toBeUndefined();
+    operation.method = 'POST';
+    await expect(handler.canHandle({ operation, request, response })).rejects.toThrow(MethodNotAllowedHttpError);
+  });
+
+  it('only handles the archive of storages.', async(): Promise<void> => {
+    operation.target.path = `${pod}container/.archive`;
+    await expect(handler.canHandle({ operation, request, response })).rejects.toThrow(NotFoundHttpError);
+  });
+
+  it('requires control permissions on the storage.', async(): Promise<void> => {
+    authorizer.handleSafe.mockRejectedValueOnce(new ForbiddenHttpError());
+    await expect(handler.handle({ operation, request, response })).rejects.toThrow(ForbiddenHttpError);
+
+    expect(credentialsExtractor.handleSafe).toHaveBeenLastCalledWith(request);
+    const requestedModes = new IdentifierSetMultiMap([[{ path: pod }, AclMode.control ]]);
+    expect(permissionReader.handleSafe).toHaveBeenLastCalledWith({ credentials, requestedModes });
+    expect(authorizer.handleSafe).toHaveBeenLastCalledWith({
+      credentials,
+      requestedModes,
+      availablePermissions: new IdentifierMap(),
+    });
+    expect(archiver.export).toHaveBeenCalledTimes(0);
+  });
+
+  it('exports the storage on GET requests.', async(): Promise<void> => {
+    const result = await handler.handle({ operation, request, response });
+    expect(result.statusCode).toBe(200);
+    expect(result.metadata?.contentType).toBe('application/x-tar');
+    await expect(readableToString(result.data!)).resolves.toBe('archive');
+    expect(archiver.export).toHaveBeenLastCalledWith({ path: pod });
+  });
+
+  it('imports archives on PUT requests.', async(): Promise<void> => {
+    operation.method = 'PUT';
+    operation.body = new BasicRepresentation('archive', 'application/x-tar');
+    const result = await handler.handle({ operation, request, response });
+    expect(result.statusCode).toBe(200);
+    expect(result.metadata?.contentType).toBe('application/json');
+    await expect(readJsonStream(result.data!)).resolves.toEqual({ resources: 5 });
+    expect(archiver.import).toHaveBeenLastCalledWith({ path: pod }, operation.body.data);
+  });
+
+  it('only imports tar archives.', async(): Promise<void> => {
+    operation.method = 'PUT';
+    operation.body = new BasicRepresentation('archive', 'text/plain');
+    await expect(handler.handle({ operation, request, response })).rejects.toThrow(UnsupportedMediaTypeHttpError);
+    expect(archiver.import).toHaveBeenCalledTimes(0);
+  });
+});
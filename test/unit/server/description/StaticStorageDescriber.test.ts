@@ -0,0 +1,23 @@
+import 'jest-rdf';
+import { DataFactory } from 'n3';
+import type { ResourceIdentifier } from '../../../../src/http/representation/ResourceIdentifier';
+import { StaticStorageDescriber } from '../../../../src/server/description/StaticStorageDescriber';
+import { LDP, PIM, RDF } from '../../../../src/util/Vocabularies';
+import quad = DataFactory.quad;
+import namedNode = DataFactory.namedNode;
+
+describe('A StaticStorageDescriber', (): void => {
+  const target: ResourceIdentifier = { path: 'http://example.com/foo/' };
+
+  it('returns the stored triples with the storage root as subject.', async(): Promise<void> => {
+    const describer = new StaticStorageDescriber({
+      [RDF.type]: PIM.Storage,
+      [LDP.contains]: [ 'http://example.com/a', 'http://example.com/b' ],
+    });
+    await expect(describer.handle(target)).resolves.toBeRdfIsomorphic([
+      quad(namedNode(target.path), RDF.terms.type, PIM.terms.Storage),
+      quad(namedNode(target.path), LDP.terms.contains, namedNode('http://example.com/a')),
+      quad(namedNode(target.path), LDP.terms.contains, namedNode('http://example.com/b')),
+    ]);
+  });
+});
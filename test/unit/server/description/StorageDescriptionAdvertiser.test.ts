@@ -0,0 +1,60 @@
+import { createResponse } from 'node-mocks-http';
+import { BasicRepresentation } from '../../../../src/http/representation/BasicRepresentation';
+import type { Representation } from '../../../../src/http/representation/Representation';
+import { RepresentationMetadata } from '../../../../src/http/representation/RepresentationMetadata';
+import type { ResourceIdentifier } from '../../../../src/http/representation/ResourceIdentifier';
+import { StorageDescriptionAdvertiser } from '../../../../src/server/description/StorageDescriptionAdvertiser';
+import type { HttpResponse } from '../../../../src/server/HttpResponse';
+import type { ResourceStore } from '../../../../src/storage/ResourceStore';
+import { SingleRootIdentifierStrategy } from '../../../../src/util/identifiers/SingleRootIdentifierStrategy';
+import { LDP, PIM, RDF } from '../../../../src/util/Vocabularies';
+
+describe('A StorageDescriptionAdvertiser', (): void => {
+  const baseUrl = 'http://example.com/';
+  const storagePath = 'http://example.com/foo/';
+  const path = '.well-known/solid';
+  const identifierStrategy = new SingleRootIdentifierStrategy(baseUrl);
+  let metadata: RepresentationMetadata;
+  let response: HttpResponse;
+  let store: jest.Mocked<ResourceStore>;
+  let advertiser: StorageDescriptionAdvertiser;
+
+  beforeEach(async(): Promise<void> => {
+    metadata = new RepresentationMetadata({ path: 'http://example.com/foo/bar/baz' }, { [RDF.type]: LDP.terms.Resource });
+    response = createResponse() as HttpResponse;
+
+    store = {
+      getRepresentation: jest.fn(async(identifier: ResourceIdentifier): Promise<Representation> => {
+        const representation = new BasicRepresentation('', identifier);
+        if (identifier.path === storagePath) {
+          representation.metadata.add(RDF.terms.type, PIM.terms.Storage);
+        }
+        return representation;
+      }),
+    } as any;
+
+    advertiser = new StorageDescriptionAdvertiser(identifierStrategy, store, path);
+  });
+
+  it('adds a storage description link header.', async(): Promise<void> => {
+    await expect(advertiser.handle({ response, metadata })).resolves.toBeUndefined();
+    expect(response.getHeaders()).toEqual({
+      link: '<http://example.com/foo/.well-known/solid>; rel="http://www.w3.org/ns/solid/terms#storageDescription"',
+    });
+    expect(store.getRepresentation).toHaveBeenCalledTimes(3);
+  });
+
+  it('only handles results with resource metadata.', async(): Promise<void> => {
+    metadata.removeAll(RDF.terms.type);
+    await expect(advertiser.handle({ response, metadata })).resolves.toBeUndefined();
+    expect(response.getHeaders()).toEqual({ });
+    expect(store.getRepresentation).toHaveBeenCalledTimes(0);
+  });
+
+  it('does nothing if it cannot find a storage root.', async(): Promise<void> => {
+    store.getRepresentation.mockImplementation(async(identifier: ResourceIdentifier): Promise<Representation> =>
+      new BasicRepresentation('', identifier));
+    await expect(advertiser.handle({ response, metadata })).resolves.toBeUndefined();
+    expect(response.getHeaders()).toEqual({ });
+  });
+});
@@ -0,0 +1,101 @@
+import 'jest-rdf';
+import type { Readable } from 'stream';
+import { DataFactory } from 'n3';
+import type { Operation } from '../../../../src/http/Operation';
+import { BasicRepresentation } from '../../../../src/http/representation/BasicRepresentation';
+import type { Representation } from '../../../../src/http/representation/Representation';
+import { RepresentationMetadata } from '../../../../src/http/representation/RepresentationMetadata';
+import type { ResourceIdentifier } from '../../../../src/http/representation/ResourceIdentifier';
+import type { StorageDescriber } from '../../../../src/server/description/StorageDescriber';
+import { StorageDescriptionHandler } from '../../../../src/server/description/StorageDescriptionHandler';
+import type { HttpRequest } from '../../../../src/server/HttpRequest';
+import type { HttpResponse } from '../../../../src/server/HttpResponse';
+import type { OperationHttpHandlerInput } from '../../../../src/server/OperationHttpHandler';
+import type { RepresentationConverter } from '../../../../src/storage/conversion/RepresentationConverter';
+import type { ResourceStore } from '../../../../src/storage/ResourceStore';
+import { readableToQuads } from '../../../../src/util/StreamUtil';
+import { PIM, RDF } from '../../../../src/util/Vocabularies';
+import quad = DataFactory.quad;
+import namedNode = DataFactory.namedNode;
+
+describe('A StorageDescriptionHandler', (): void => {
+  const path = '.well-known/solid';
+  const request: HttpRequest = {} as any;
+  const response: HttpResponse = {} as any;
+  let operation: Operation;
+  let representation: Representation;
+  let store: jest.Mocked<ResourceStore>;
+  let describer: jest.Mocked<StorageDescriber>;
+  let converter: jest.Mocked<RepresentationConverter>;
+  let handler: StorageDescriptionHandler;
+
+  beforeEach(async(): Promise<void> => {
+    operation = {
+      method: 'GET',
+      target: { path: `http://example.com/${path}` },
+      body: new BasicRepresentation(),
+      preferences: {},
+    };
+
+    representation = new BasicRepresentation();
+    representation.metadata.add(RDF.terms.type, PIM.terms.Storage);
+
+    store = {
+      getRepresentation: jest.fn().mockResolvedValue(representation),
+    } as any;
+
+    describer = {
+      canHandle: jest.fn(),
+      handle: jest.fn(async(target: ResourceIdentifier): Promise<any> =>
+        [ quad(namedNode(target.path), RDF.terms.type, PIM.terms.Storage) ]),
+    } as any;
+
+    converter = {
+      handleSafe: jest.fn(async({ representation: rep }): Promise<Representation> => rep),
+    } as any;
+
+    handler = new StorageDescriptionHandler({ store, path, describer, converter });
+  });
+
+  it('only handles GET requests.', async(): Promise<void> => {
+    operation.method = 'POST';
+    await expect(handler.canHandle({ request, response, operation })).rejects.toThrow('Only GET requests');
+  });
+
+  it('only handles targets ending in the description path.', async(): Promise<void> => {
+    operation.target.path = 'http://example.com/foo';
+    await expect(handler.canHandle({ request, response, operation })).rejects.toThrow('Only targets ending in');
+  });
+
+  it('only handles descriptions of storage containers.', async(): Promise<void> => {
+    representation.metadata = new RepresentationMetadata();
+    await expect(handler.canHandle({ request, response, operation }))
+      .rejects.toThrow('Only supports descriptions of storage containers.');
+    expect(store.getRepresentation).toHaveBeenCalledTimes(1);
+    expect(store.getRepresentation).toHaveBeenLastCalledWith({ path: 'http://example.com/' }, {});
+    expect(representation.data.destroyed).toBe(true);
+  });
+
+  it('checks if the describer can handle the storage.', async(): Promise<void> => {
+    await expect(handler.canHandle({ request, response, operation })).resolves.toBeUndefined();
+    expect(describer.canHandle).toHaveBeenCalledTimes(1);
+    expect(describer.canHandle).toHaveBeenLastCalledWith({ path: 'http://example.com/' });
+
+    describer.canHandle.mockRejectedValueOnce(new Error('bad data'));
+    await expect(handler.canHandle({ request, response, operation })).rejects.toThrow('bad data');
+  });
+
+  it('converts the quads generated by the describer.', async(): Promise<void> => {
+    const input: OperationHttpHandlerInput = { request, response, operation };
+    const result = await handler.handle(input);
+    expect(result.statusCode).toBe(200);
+    const quads = await readableToQuads(result.data as Readable);
+    expect(quads.getQuads(null, null, null, null)).toBeRdfIsomorphic([
+      quad(namedNode('http://example.com/'), RDF.terms.type, PIM.terms.Storage),
+    ]);
+    expect(describer.handle).toHaveBeenLastCalledWith({ path: 'http://example.com/' });
+    expect(converter.handleSafe).toHaveBeenCalledTimes(1);
+    expect(converter.handleSafe.mock.calls[0][0].identifier).toEqual(operation.target);
+    expect(converter.handleSafe.mock.calls[0][0].preferences).toBe(operation.preferences);
+  });
+});
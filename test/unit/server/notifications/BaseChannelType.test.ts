@@ -0,0 +1,165 @@
+import { AccessMode } from '../../../../src/authorization/permissions/Permissions';
+import {
+  AbsolutePathInteractionRoute,
+} from '../../../../src/identity/interaction/routing/AbsolutePathInteractionRoute';
+import { BaseChannelType, DEFAULT_NOTIFICATION_FEATURES } from '../../../../src/server/notifications/BaseChannelType';
+import type { NotificationChannel } from '../../../../src/server/notifications/NotificationChannel';
+import { IdentifierSetMultiMap } from '../../../../src/util/map/IdentifierMap';
+import { NOTIFY } from '../../../../src/util/Vocabularies';
+
+const dummyType = NOTIFY.terms.WebSocketChannel2023;
+
+class DummyChannelType extends BaseChannelType {
+  public constructor(features?: string[]) {
+    super(dummyType, new AbsolutePathInteractionRoute('http://example.com/DummyType/'), features);
+  }
+}
+
+describe('A BaseChannelType', (): void => {
+  const topic = 'http://example.com/foo';
+  const credentials = {};
+  let data: NodeJS.Dict<unknown>;
+  let channelType: DummyChannelType;
+
+  beforeEach(async(): Promise<void> => {
+    data = {
+      type: dummyType.value,
+      topic,
+    };
+
+    channelType = new DummyChannelType();
+  });
+
+  it('can provide a description of the subscription service.', async(): Promise<void> => {
+    expect(channelType.getDescription()).toEqual({
+      '@context': [ 'https://www.w3.org/ns/solid/notification/v1' ],
+      id: 'http://example.com/DummyType/',
+      channelType: dummyType.value,
+      feature: DEFAULT_NOTIFICATION_FEATURES,
+    });
+  });
+
+  it('supports features with the notify prefix.', async(): Promise<void> => {
+    channelType = new DummyChannelType([ 'notify:state' ]);
+    expect(channelType.getDescription().feature).toEqual([ NOTIFY.state ]);
+  });
+
+  describe('#initChannel', (): void => {
+    it('generates a channel with a unique identifier.', async(): Promise<void> => {
+      const channel = await channelType.initChannel(data, credentials);
+      expect(channel).toEqual({
+        id: expect.stringMatching(/^http:\/\/example\.com\/DummyType\/.+/u),
+        type: dummyType.value,
+        topic,
+      });
+      const other = await channelType.initChannel(data, credentials);
+      expect(other.id).not.toBe(channel.id);
+    });
+
+    it('accepts the compacted forms of the type.', async(): Promise<void> => {
+      data.type = 'WebSocketChannel2023';
+      await expect(channelType.initChannel(data, credentials)).resolves.toBeDefined();
+      data.type = [ 'notify:WebSocketChannel2023' ];
+      await expect(channelType.initChannel(data, credentials)).resolves.toBeDefined();
+    });
+
+    it('errors if the type does not match.', async(): Promise<void> => {
+      data.type = 'OtherChannel';
+      await expect(channelType.initChannel(data, credentials)).rejects.toThrow(`Only ${dummyType.value}`);
+    });
+
+    it('requires a valid topic URL.', async(): Promise<void> => {
+      delete data.topic;
+      await expect(channelType.initChannel(data, credentials)).rejects.toThrow('Missing required field topic');
+      data.topic = 5;
+      await expect(channelType.initChannel(data, credentials)).rejects.toThrow('Expected a string for field topic');
+      data.topic = 'not a url';
+      await expect(channelType.initChannel(data, credentials)).rejects.toThrow('Invalid topic not a url');
+    });
+
+    it('parses the supported features.', async(): Promise<void> => {
+      const startAt = new Date(Date.now() + 1000);
+      const endAt = new Date(Date.now() + 100000);
+      data = {
+        ...data,
+        startAt: startAt.toISOString(),
+        endAt: endAt.toISOString(),
+        rate: 'PT1M30S',
+        accept: 'application/ld+json',
+        state: '123',
+      };
+      await expect(channelType.initChannel(data, credentials)).resolves.toEqual({
+        id: expect.any(String),
+        type: dummyType.value,
+        topic,
+        startAt: startAt.getTime(),
+        endAt: endAt.getTime(),
+        rate: 90000,
+        accept: 'application/ld+json',
+      });
+    });
+
+    it('only parses the state if that feature is enabled.', async(): Promise<void> => {
+      channelType = new DummyChannelType([ NOTIFY.state ]);
+      data = { ...data, state: '123', rate: 'PT1M' };
+      await expect(channelType.initChannel(data, credentials)).resolves.toEqual({
+        id: expect.any(String),
+        type: dummyType.value,
+        topic,
+        state: '123',
+      });
+    });
+
+    it('supports durations with days and hours.', async(): Promise<void> => {
+      data.rate = 'P1DT2H';
+      await expect(channelType.initChannel(data, credentials)).resolves
+        .toEqual(expect.objectContaining({ rate: 26 * 60 * 60 * 1000 }));
+    });
+
+    it('errors on invalid feature values.', async(): Promise<void> => {
+      await expect(channelType.initChannel({ ...data, startAt: 'not a date' }, credentials))
+        .rejects.toThrow('Invalid date value not a date for field startAt');
+      await expect(channelType.initChannel({ ...data, endAt: new Date(0).toISOString() }, credentials))
+        .rejects.toThrow('The endAt value needs to be in the future.');
+      await expect(channelType.initChannel({ ...data, rate: 'P1Y' }, credentials))
+        .rejects.toThrow('Unsupported rate duration P1Y');
+      await expect(channelType.initChannel({ ...data, rate: 'PT' }, credentials))
+        .rejects.toThrow('Unsupported rate duration PT');
+      await expect(channelType.initChannel({ ...data, rate: 'P' }, credentials))
+        .rejects.toThrow('Unsupported rate duration P');
+      await expect(channelType.initChannel({ ...data, accept: 'text/turtle' }, credentials))
+        .rejects.toThrow('Only application/ld+json notifications are supported.');
+    });
+  });
+
+  it('converts a channel to JSON-LD.', async(): Promise<void> => {
+    const channel: NotificationChannel = {
+      id: 'http://example.com/DummyType/123',
+      type: dummyType.value,
+      topic,
+      state: '123',
+      startAt: 0,
+      endAt: 1000,
+      rate: 90000,
+      accept: 'application/ld+json',
+      lastEmit: 5,
+    };
+    await expect(channelType.toJsonLd(channel)).resolves.toEqual({
+      '@context': [ 'https://www.w3.org/ns/solid/notification/v1' ],
+      id: channel.id,
+      type: dummyType.value,
+      topic,
+      state: '123',
+      startAt: new Date(0).toISOString(),
+      endAt: new Date(1000).toISOString(),
+      rate: 'PT90S',
+      accept: 'application/ld+json',
+    });
+  });
+
+  it('requires read permissions on the topic.', async(): Promise<void> => {
+    const channel = await channelType.initChannel(data, credentials);
+    await expect(channelType.extractModes(channel)).resolves
+      .toEqual(new IdentifierSetMultiMap([[{ path: topic }, AccessMode.read ]]));
+  });
+});
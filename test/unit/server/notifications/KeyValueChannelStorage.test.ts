@@ -0,0 +1,144 @@
+import type { Logger } from '../../../../src/logging/Logger';
+import { getLoggerFor } from '../../../../src/logging/LogUtil';
+import { KeyValueChannelStorage } from '../../../../src/server/notifications/KeyValueChannelStorage';
+import type { NotificationChannel } from '../../../../src/server/notifications/NotificationChannel';
+import type { KeyValueStorage } from '../../../../src/storage/keyvalue/KeyValueStorage';
+import type { ReadWriteLocker } from '../../../../src/util/locking/ReadWriteLocker';
+import resetAllMocks = jest.resetAllMocks;
+
+jest.mock('../../../../src/logging/LogUtil', (): any => {
+  const logger: Logger = { info: jest.fn(), error: jest.fn() } as any;
+  return { getLoggerFor: (): Logger => logger };
+});
+
+describe('A KeyValueChannelStorage', (): void => {
+  const logger = getLoggerFor('mock');
+  const topic = 'http://example.com/foo';
+  const identifier = { path: topic };
+  const internalMap = new Map<string, any>();
+  let channel: NotificationChannel;
+  let internalStorage: KeyValueStorage<string, any>;
+  let locker: ReadWriteLocker;
+  let storage: KeyValueChannelStorage;
+
+  beforeEach(async(): Promise<void> => {
+    resetAllMocks();
+    channel = {
+      id: 'id1',
+      topic,
+      type: 'type',
+    };
+
+    internalMap.clear();
+    internalStorage = internalMap as any;
+
+    locker = {
+      withWriteLock: jest.fn(async <T,>(id: any, whileLocked: () => T | Promise<T>): Promise<T> => whileLocked()),
+      withReadLock: jest.fn(),
+    };
+
+    storage = new KeyValueChannelStorage(internalStorage, locker);
+  });
+
+  describe('#get', (): void => {
+    it('returns undefined if there is no match.', async(): Promise<void> => {
+      await expect(storage.get('notexists')).resolves.toBeUndefined();
+    });
+
+    it('returns undefined if the targeted object is not a channel.', async(): Promise<void> => {
+      await internalStorage.set(topic, [ channel.id ]);
+      await expect(storage.get(topic)).resolves.toBeUndefined();
+    });
+
+    it('returns the matching channel.', async(): Promise<void> => {
+      await storage.add(channel);
+      await expect(storage.get(channel.id)).resolves.toEqual(channel);
+    });
+
+    it('deletes expired channels.', async(): Promise<void> => {
+      channel.endAt = 0;
+      await storage.add(channel);
+      await expect(storage.get(channel.id)).resolves.toBeUndefined();
+      expect(locker.withWriteLock).toHaveBeenCalledTimes(2);
+      expect(internalMap.size).toBe(0);
+      expect(logger.info).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('#getAll', (): void => {
+    it('returns an empty array if there is no match.', async(): Promise<void> => {
+      await expect(storage.getAll(identifier)).resolves.toEqual([]);
+    });
+
+    it('returns the identifiers of all the matching channels.', async(): Promise<void> => {
+      await storage.add(channel);
+      await storage.add({ ...channel, id: 'id2' });
+      await expect(storage.getAll(identifier)).resolves.toEqual([ 'id1', 'id2' ]);
+    });
+  });
+
+  describe('#add', (): void => {
+    it('adds the channel and adds its id to the topic collection.', async(): Promise<void> => {
+      await expect(storage.add(channel)).resolves.toBeUndefined();
+      expect(locker.withWriteLock).toHaveBeenCalledTimes(1);
+      expect(locker.withWriteLock).toHaveBeenLastCalledWith({ path: `${topic}.notification-storage` },
+        expect.any(Function));
+      expect([ ...internalMap.entries() ]).toEqual([[ channel.id, channel ], [ topic, [ channel.id ]]]);
+    });
+  });
+
+  describe('#update', (): void => {
+    it('changes the channel.', async(): Promise<void> => {
+      await storage.add(channel);
+      const newChannel = { ...channel, state: '123456' };
+      await expect(storage.update(newChannel)).resolves.toBeUndefined();
+      await expect(storage.get(channel.id)).resolves.toEqual(newChannel);
+    });
+
+    it('stores the channel if it did not exist yet.', async(): Promise<void> => {
+      await expect(storage.update(channel)).resolves.toBeUndefined();
+      await expect(storage.get(channel.id)).resolves.toEqual(channel);
+    });
+
+    it('rejects update requests that change the topic.', async(): Promise<void> => {
+      await storage.add(channel);
+      const newChannel = { ...channel, topic: 'http://example.com/other' };
+      await expect(storage.update(newChannel)).rejects
+        .toThrow(`Trying to change the topic of a notification channel ${channel.id}`);
+    });
+
+    it('rejects update request targeting a non-channel value.', async(): Promise<void> => {
+      await storage.add(channel);
+      // Looking for the key so this test doesn't depend on the internal keys used
+      const id = [ ...internalMap.entries() ].find((entry): boolean => Array.isArray(entry[1]))![0];
+      const newChannel = { ...channel, id };
+      await expect(storage.update(newChannel)).rejects
+        .toThrow(`Trying to update ${id} which is not a NotificationChannel.`);
+    });
+  });
+
+  describe('#delete', (): void => {
+    it('removes the channel and its reference.', async(): Promise<void> => {
+      const channel2 = { ...channel, id: 'id2' };
+      await storage.add(channel);
+      await storage.add(channel2);
+      expect(internalMap.size).toBe(3);
+      await expect(storage.delete(channel.id)).resolves.toBe(true);
+      expect(internalMap.size).toBe(2);
+      expect([ ...internalMap.values() ]).toEqual(expect.arrayContaining([ channel2, [ channel2.id ]]));
+      await expect(storage.delete(channel2.id)).resolves.toBe(true);
+      expect(internalMap.size).toBe(0);
+    });
+
+    it('does nothing if the target does not exist.', async(): Promise<void> => {
+      await expect(storage.delete(channel.id)).resolves.toBe(false);
+    });
+
+    it('logs an error if the target can not be found in the list of references.', async(): Promise<void> => {
+      await storage.add(channel);
+      internalMap.set(topic, []);
+      await expect(storage.delete(channel.id)).resolves.toBe(true);
+      expect(logger.error).toHaveBeenCalledTimes(2);
+    });
+  });
+});
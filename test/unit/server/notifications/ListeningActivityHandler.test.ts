@@ -0,0 +1,170 @@
+import { EventEmitter } from 'events';
+import type { Logger } from '../../../../src/logging/Logger';
+import { getLoggerFor } from '../../../../src/logging/LogUtil';
+import { ListeningActivityHandler } from '../../../../src/server/notifications/ListeningActivityHandler';
+import type { NotificationChannel } from '../../../../src/server/notifications/NotificationChannel';
+import type { NotificationChannelStorage } from '../../../../src/server/notifications/NotificationChannelStorage';
+import type { NotificationHandler } from '../../../../src/server/notifications/NotificationHandler';
+import { AS } from '../../../../src/util/Vocabularies';
+import { flushPromises } from '../../../util/Util';
+
+jest.mock('../../../../src/logging/LogUtil', (): any => {
+  const logger: Logger = { debug: jest.fn(), error: jest.fn() } as any;
+  return { getLoggerFor: (): Logger => logger };
+});
+
+describe('A ListeningActivityHandler', (): void => {
+  const logger: jest.Mocked<Logger> = getLoggerFor('mock') as any;
+  const topic = { path: 'http://example.com/foo' };
+  const activity = AS.terms.Update;
+  let channel: NotificationChannel;
+  let storage: jest.Mocked<NotificationChannelStorage>;
+  let emitter: EventEmitter;
+  let notificationHandler: jest.Mocked<NotificationHandler>;
+  let handler: ListeningActivityHandler;
+
+  beforeEach(async(): Promise<void> => {
+    jest.clearAllMocks();
+    channel = {
+      id: 'id',
+      topic: 'http://example.com/foo',
+      type: 'type',
+    };
+
+    storage = {
+      getAll: jest.fn().mockResolvedValue([ channel.id ]),
+      get: jest.fn().mockResolvedValue(channel),
+      update: jest.fn(),
+    } as any;
+
+    emitter = new EventEmitter();
+
+    notificationHandler = {
+      canHandle: jest.fn(),
+      handle: jest.fn().mockResolvedValue(undefined),
+    } as any;
+
+    handler = new ListeningActivityHandler(storage, emitter, notificationHandler);
+  });
+
+  it('calls the NotificationHandler if there is an event.', async(): Promise<void> => {
+    emitter.emit('changed', topic, activity);
+
+    await flushPromises();
+
+    expect(notificationHandler.handle).toHaveBeenCalledTimes(1);
+    expect(notificationHandler.handle).toHaveBeenLastCalledWith({ channel, activity, topic });
+    expect(logger.error).toHaveBeenCalledTimes(0);
+    expect(storage.update).toHaveBeenCalledTimes(0);
+  });
+
+  it('updates the lastEmit value of the channel if it has a rate limit.', async(): Promise<void> => {
+    const now = Date.now();
+    channel.rate = 10000;
+    emitter.emit('changed', topic, activity);
+
+    await flushPromises();
+
+    expect(notificationHandler.handle).toHaveBeenCalledTimes(1);
+    expect(notificationHandler.handle).toHaveBeenLastCalledWith({ channel, activity, topic });
+    expect(logger.error).toHaveBeenCalledTimes(0);
+    expect(storage.update).toHaveBeenCalledTimes(1);
+    expect(storage.update).toHaveBeenLastCalledWith({ ...channel, lastEmit: expect.any(Number) });
+    expect(channel.lastEmit).toBeGreaterThanOrEqual(now);
+  });
+
+  it('does not emit an event on channels if their rate does not yet allow it.', async(): Promise<void> => {
+    channel.rate = 100000;
+    channel.lastEmit = Date.now();
+
+    emitter.emit('changed', topic, activity);
+
+    await flushPromises();
+
+    expect(notificationHandler.handle).toHaveBeenCalledTimes(0);
+  });
+
+  it('does not emit an event on channels if their start time has not been reached.', async(): Promise<void> => {
+    channel.startAt = Date.now() + 100000;
+
+    emitter.emit('changed', topic, activity);
+
+    await flushPromises();
+
+    expect(notificationHandler.handle).toHaveBeenCalledTimes(0);
+  });
+
+  it('does not stop if one channel causes an error.', async(): Promise<void> => {
+    storage.getAll.mockResolvedValue([ channel.id, channel.id ]);
+    notificationHandler.handle.mockRejectedValueOnce(new Error('bad input'));
+
+    emitter.emit('changed', topic, activity);
+
+    await flushPromises();
+
+    expect(notificationHandler.handle).toHaveBeenCalledTimes(2);
+    expect(logger.error).toHaveBeenCalledTimes(1);
+    expect(logger.error).toHaveBeenLastCalledWith(`Error trying to handle notification for ${channel.id}: bad input`);
+  });
+
+  it('skips channels the NotificationHandler does not support.', async(): Promise<void> => {
+    channel.rate = 10000;
+    notificationHandler.canHandle.mockRejectedValueOnce(new Error('unsupported type'));
+
+    emitter.emit('changed', topic, activity);
+
+    await flushPromises();
+
+    expect(notificationHandler.handle).toHaveBeenCalledTimes(0);
+    expect(storage.update).toHaveBeenCalledTimes(0);
+    expect(logger.error).toHaveBeenCalledTimes(0);
+  });
+
+  it('logs an error if something goes wrong handling the event.', async(): Promise<void> => {
+    storage.getAll.mockRejectedValueOnce(new Error('bad event'));
+
+    emitter.emit('changed', topic, activity);
+
+    await flushPromises();
+
+    expect(notificationHandler.handle).toHaveBeenCalledTimes(0);
+    expect(logger.error).toHaveBeenCalledTimes(1);
+    expect(logger.error).toHaveBeenLastCalledWith(`Something went wrong emitting notifications: bad event`);
+  });
+
+  it('ignores undefined channels.', async(): Promise<void> => {
+    storage.get.mockResolvedValue(undefined);
+
+    emitter.emit('changed', topic, activity);
+
+    await flushPromises();
+
+    expect(notificationHandler.handle).toHaveBeenCalledTimes(0);
+  });
+
+  it('waits for the pending notifications when finalized.', async(): Promise<void> => {
+    let resolveHandle: () => void;
+    notificationHandler.handle.mockReturnValueOnce(new Promise((resolve): void => {
+      resolveHandle = resolve;
+    }));
+    channel.rate = 10000;
+
+    emitter.emit('changed', topic, activity);
+    const finalized = jest.fn();
+    const promise = handler.finalize().then(finalized);
+
+    await flushPromises();
+    expect(notificationHandler.handle).toHaveBeenCalledTimes(1);
+    expect(finalized).toHaveBeenCalledTimes(0);
+
+    resolveHandle!();
+    await promise;
+    expect(finalized).toHaveBeenCalledTimes(1);
+    expect(storage.update).toHaveBeenCalledTimes(1);
+    await expect(handler.finalize()).resolves.toBeUndefined();
+  });
+
+  it('is a static handler.', async(): Promise<void> => {
+    await expect(handler.handleSafe(undefined)).resolves.toBeUndefined();
+  });
+});
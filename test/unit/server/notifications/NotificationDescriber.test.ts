@@ -0,0 +1,36 @@
+import 'jest-rdf';
+import { DataFactory } from 'n3';
+import type { NotificationChannelType } from '../../../../src/server/notifications/NotificationChannelType';
+import { NotificationDescriber } from '../../../../src/server/notifications/NotificationDescriber';
+import { NOTIFY } from '../../../../src/util/Vocabularies';
+import quad = DataFactory.quad;
+import namedNode = DataFactory.namedNode;
+
+describe('A NotificationDescriber', (): void => {
+  const identifier = { path: 'http://example.com/' };
+  let channelType: jest.Mocked<NotificationChannelType>;
+  let describer: NotificationDescriber;
+
+  beforeEach(async(): Promise<void> => {
+    channelType = {
+      getDescription: jest.fn().mockReturnValue({
+        '@context': [ 'https://www.w3.org/ns/solid/notification/v1' ],
+        id: 'http://example.com/.notifications/Type/',
+        channelType: NOTIFY.WebSocketChannel2023,
+        feature: [ NOTIFY.accept, NOTIFY.rate ],
+      }),
+    } as any;
+
+    describer = new NotificationDescriber([ channelType ]);
+  });
+
+  it('outputs the description of every subscription service.', async(): Promise<void> => {
+    const service = namedNode('http://example.com/.notifications/Type/');
+    await expect(describer.handle(identifier)).resolves.toBeRdfIsomorphic([
+      quad(namedNode(identifier.path), NOTIFY.terms.subscription, service),
+      quad(service, NOTIFY.terms.channelType, NOTIFY.terms.WebSocketChannel2023),
+      quad(service, NOTIFY.terms.feature, NOTIFY.terms.accept),
+      quad(service, NOTIFY.terms.feature, NOTIFY.terms.rate),
+    ]);
+  });
+});
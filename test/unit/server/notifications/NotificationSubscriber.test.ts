@@ -0,0 +1,123 @@
+import type { CredentialsExtractor } from '../../../../src/authentication/CredentialsExtractor';
+import type { Authorizer } from '../../../../src/authorization/Authorizer';
+import type { PermissionReader } from '../../../../src/authorization/PermissionReader';
+import { AccessMode } from '../../../../src/authorization/permissions/Permissions';
+import type { Operation } from '../../../../src/http/Operation';
+import { BasicRepresentation } from '../../../../src/http/representation/BasicRepresentation';
+import type { HttpRequest } from '../../../../src/server/HttpRequest';
+import type { HttpResponse } from '../../../../src/server/HttpResponse';
+import type { NotificationChannel } from '../../../../src/server/notifications/NotificationChannel';
+import type { NotificationChannelStorage } from '../../../../src/server/notifications/NotificationChannelStorage';
+import type { NotificationChannelType } from '../../../../src/server/notifications/NotificationChannelType';
+import { NotificationSubscriber } from '../../../../src/server/notifications/NotificationSubscriber';
+import { InternalServerError } from '../../../../src/util/errors/InternalServerError';
+import { NotFoundHttpError } from '../../../../src/util/errors/NotFoundHttpError';
+import { UnsupportedMediaTypeHttpError } from '../../../../src/util/errors/UnsupportedMediaTypeHttpError';
+import { IdentifierMap, IdentifierSetMultiMap } from '../../../../src/util/map/IdentifierMap';
+import { readJsonStream } from '../../../../src/util/StreamUtil';
+
+describe('A NotificationSubscriber', (): void => {
+  const subscriptionPath = 'http://example.com/.notifications/type/';
+  const topic = 'http://example.com/foo';
+  const channel: NotificationChannel = { id: `${subscriptionPath}123`, type: 'NotificationChannelType', topic };
+  const credentials = { agent: { webId: 'http://example.org/alice' }};
+  const request: HttpRequest = {} as any;
+  const response: HttpResponse = {} as any;
+  let operation: Operation;
+  let channelType: jest.Mocked<NotificationChannelType>;
+  let credentialsExtractor: jest.Mocked<CredentialsExtractor>;
+  let permissionReader: jest.Mocked<PermissionReader>;
+  let authorizer: jest.Mocked<Authorizer>;
+  let storage: jest.Mocked<NotificationChannelStorage>;
+  let subscriber: NotificationSubscriber;
+
+  beforeEach(async(): Promise<void> => {
+    operation = {
+      method: 'POST',
+      target: { path: subscriptionPath },
+      body: new BasicRepresentation(JSON.stringify({ type: 'NotificationChannelType', topic }), 'application/ld+json'),
+      preferences: {},
+    };
+
+    channelType = {
+      getDescription: jest.fn().mockReturnValue({ id: subscriptionPath }),
+      initChannel: jest.fn().mockResolvedValue(channel),
+      toJsonLd: jest.fn().mockResolvedValue({ id: channel.id }),
+      extractModes: jest.fn(async(sub): Promise<any> =>
+        new IdentifierSetMultiMap([[{ path: sub.topic }, AccessMode.read ]])),
+    };
+
+    credentialsExtractor = {
+      handleSafe: jest.fn().mockResolvedValue(credentials),
+    } as any;
+
+    permissionReader = {
+      handleSafe: jest.fn().mockResolvedValue(new IdentifierMap()),
+    } as any;
+
+    authorizer = {
+      handleSafe: jest.fn(),
+    } as any;
+
+    storage = {
+      add: jest.fn(),
+    } as any;
+
+    subscriber = new NotificationSubscriber({
+      channelType,
+      credentialsExtractor,
+      permissionReader,
+      authorizer,
+      storage,
+    });
+  });
+
+  it('only handles POST requests targeting the subscription service.', async(): Promise<void> => {
+    await expect(subscriber.canHandle({ operation, request, response })).resolves.toBeUndefined();
+
+    operation.method = 'GET';
+    await expect(subscriber.canHandle({ operation, request, response }))
+      .rejects.toThrow('Subscriptions can only be created through POST.');
+
+    operation.target.path = 'http://example.com/other';
+    await expect(subscriber.canHandle({ operation, request, response })).rejects.toThrow(NotFoundHttpError);
+  });
+
+  it('requires a JSON body.', async(): Promise<void> => {
+    operation.body.metadata.contentType = 'text/turtle';
+    await expect(subscriber.handle({ operation, request, response })).rejects.toThrow(UnsupportedMediaTypeHttpError);
+  });
+
+  it('errors if the body can not be parsed.', async(): Promise<void> => {
+    operation.body = new BasicRepresentation('{ not json', 'application/json');
+    await expect(subscriber.handle({ operation, request, response }))
+      .rejects.toThrow('Unable to parse subscription request');
+  });
+
+  it('errors if the channel type rejects the request.', async(): Promise<void> => {
+    channelType.initChannel.mockRejectedValueOnce(new Error('bad data'));
+    await expect(subscriber.handle({ operation, request, response })).rejects.toThrow('bad data');
+    expect(storage.add).toHaveBeenCalledTimes(0);
+  });
+
+  it('errors if the credentials do not contain the required modes.', async(): Promise<void> => {
+    authorizer.handleSafe.mockRejectedValueOnce(new InternalServerError('not allowed'));
+    await expect(subscriber.handle({ operation, request, response })).rejects.toThrow('not allowed');
+    expect(storage.add).toHaveBeenCalledTimes(0);
+  });
+
+  it('stores the channel and returns its JSON-LD representation.', async(): Promise<void> => {
+    const description = await subscriber.handle({ operation, request, response });
+    expect(description.statusCode).toBe(200);
+    expect(description.metadata?.contentType).toBe('application/ld+json');
+    await expect(readJsonStream(description.data!)).resolves.toEqual({ id: channel.id });
+
+    expect(channelType.initChannel).toHaveBeenLastCalledWith({ type: 'NotificationChannelType', topic }, credentials);
+    expect(permissionReader.handleSafe).toHaveBeenLastCalledWith({
+      credentials,
+      requestedModes: new IdentifierSetMultiMap([[{ path: topic }, AccessMode.read ]]),
+    });
+    expect(authorizer.handleSafe).toHaveBeenCalledTimes(1);
+    expect(storage.add).toHaveBeenLastCalledWith(channel);
+  });
+});
@@ -0,0 +1,71 @@
+import {
+  AbsolutePathInteractionRoute,
+} from '../../../../../src/identity/interaction/routing/AbsolutePathInteractionRoute';
+import type { NotificationChannel } from '../../../../../src/server/notifications/NotificationChannel';
+import {
+  isWebHook2023Channel,
+  WebHookChannel2023Type,
+} from '../../../../../src/server/notifications/WebHookChannel2023/WebHookChannel2023Type';
+import { BadRequestHttpError } from '../../../../../src/util/errors/BadRequestHttpError';
+import { NOTIFY } from '../../../../../src/util/Vocabularies';
+
+describe('A WebHookChannel2023Type', (): void => {
+  const route = new AbsolutePathInteractionRoute('http://example.com/WebHookChannel2023/');
+  const topic = 'http://example.com/foo';
+  const sendTo = 'http://example.org/webhook';
+  const channelType = new WebHookChannel2023Type(route, undefined, 60);
+
+  it('exposes the WebHookChannel2023 type.', async(): Promise<void> => {
+    expect(channelType.getDescription().channelType).toBe(NOTIFY.WebHookChannel2023);
+  });
+
+  it('adds the sendTo value to the channel and its JSON-LD representation.', async(): Promise<void> => {
+    const channel = await channelType.initChannel({ type: NOTIFY.WebHookChannel2023, topic, sendTo }, {});
+    expect(isWebHook2023Channel(channel)).toBe(true);
+    expect((channel as any).sendTo).toBe(sendTo);
+    const json = await channelType.toJsonLd(channel);
+    expect(json.type).toBe(NOTIFY.WebHookChannel2023);
+    expect(json.sendTo).toBe(sendTo);
+  });
+
+  it('requires a valid HTTP(S) sendTo value.', async(): Promise<void> => {
+    await expect(channelType.initChannel({ type: NOTIFY.WebHookChannel2023, topic }, {}))
+      .rejects.toThrow(new BadRequestHttpError('Missing required field sendTo'));
+    await expect(channelType.initChannel({ type: NOTIFY.WebHookChannel2023, topic, sendTo: 'notAUrl' }, {}))
+      .rejects.toThrow(new BadRequestHttpError('Invalid sendTo value notAUrl'));
+    await expect(channelType.initChannel({ type: NOTIFY.WebHookChannel2023, topic, sendTo: 'ftp://example.org/' }, {}))
+      .rejects.toThrow(new BadRequestHttpError('Only HTTP(S) sendTo values are supported, received ftp://example.org/'));
+  });
+
+  it('limits the duration of the channel.', async(): Promise<void> => {
+    const now = Date.now();
+    let channel = await channelType.initChannel({ type: NOTIFY.WebHookChannel2023, topic, sendTo }, {});
+    expect(channel.endAt).toBeGreaterThanOrEqual(now + (60 * 60 * 1000));
+    expect(channel.endAt).toBeLessThan(now + (61 * 60 * 1000));
+
+    const endAt = new Date(now + (2 * 60 * 60 * 1000)).toISOString();
+    channel = await channelType.initChannel({ type: NOTIFY.WebHookChannel2023, topic, sendTo, endAt }, {});
+    expect(channel.endAt).toBeLessThan(now + (61 * 60 * 1000));
+
+    const earlyEndAt = new Date(now + (10 * 60 * 1000));
+    channel = await channelType.initChannel({
+      type: NOTIFY.WebHookChannel2023,
+      topic,
+      sendTo,
+      endAt: earlyEndAt.toISOString(),
+    }, {});
+    expect(channel.endAt).toBe(earlyEndAt.getTime());
+  });
+
+  it('has a default maximum duration of 2 weeks.', async(): Promise<void> => {
+    const now = Date.now();
+    const defaultType = new WebHookChannel2023Type(route);
+    const channel = await defaultType.initChannel({ type: NOTIFY.WebHookChannel2023, topic, sendTo }, {});
+    expect(channel.endAt).toBeGreaterThanOrEqual(now + (14 * 24 * 60 * 60 * 1000));
+  });
+
+  it('can identify WebHookChannel2023 channels.', async(): Promise<void> => {
+    const channel: NotificationChannel = { id: 'id', type: NOTIFY.WebSocketChannel2023, topic };
+    expect(isWebHook2023Channel(channel)).toBe(false);
+  });
+});
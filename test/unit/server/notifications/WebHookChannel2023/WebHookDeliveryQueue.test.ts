@@ -0,0 +1,224 @@
+import type { Logger } from '../../../../../src/logging/Logger';
+import { getLoggerFor } from '../../../../../src/logging/LogUtil';
+import type { NotificationChannelStorage } from '../../../../../src/server/notifications/NotificationChannelStorage';
+import type {
+  WebHookDelivery,
+} from '../../../../../src/server/notifications/WebHookChannel2023/WebHookDeliveryQueue';
+import {
+  WebHookDeliveryQueue,
+} from '../../../../../src/server/notifications/WebHookChannel2023/WebHookDeliveryQueue';
+import type { WebHookSender } from '../../../../../src/server/notifications/WebHookChannel2023/WebHookSender';
+import type { KeyValueStorage } from '../../../../../src/storage/keyvalue/KeyValueStorage';
+import { MemoryMapStorage } from '../../../../../src/storage/keyvalue/MemoryMapStorage';
+import type { ReadWriteLocker } from '../../../../../src/util/locking/ReadWriteLocker';
+import { flushPromises } from '../../../../util/Util';
+
+jest.mock('../../../../../src/logging/LogUtil', (): any => {
+  const logger: Logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as any;
+  return { getLoggerFor: (): Logger => logger };
+});
+
+describe('A WebHookDeliveryQueue', (): void => {
+  const logger: jest.Mocked<Logger> = getLoggerFor('mock') as any;
+  const notification = {
+    channel: 'channel',
+    target: 'http://example.org/webhook',
+    contentType: 'application/ld+json',
+    body: 'notification',
+  };
+  let now: number;
+  let storage: KeyValueStorage<string, WebHookDelivery>;
+  let locker: jest.Mocked<ReadWriteLocker>;
+  let channelStorage: jest.Mocked<NotificationChannelStorage>;
+  let sender: jest.Mocked<WebHookSender>;
+  let queue: WebHookDeliveryQueue;
+
+  async function getDeliveries(): Promise<WebHookDelivery[]> {
+    const deliveries: WebHookDelivery[] = [];
+    for await (const [ , delivery ] of storage.entries()) {
+      deliveries.push(delivery);
+    }
+    return deliveries;
+  }
+
+  beforeEach(async(): Promise<void> => {
+    jest.clearAllMocks();
+    now = 1000;
+    jest.spyOn(Date, 'now').mockImplementation((): number => now);
+
+    storage = new MemoryMapStorage();
+
+    locker = {
+      withWriteLock: jest.fn(async(id: any, whileLocked: () => any): Promise<any> => whileLocked()),
+    } as any;
+
+    channelStorage = {
+      get: jest.fn().mockResolvedValue({ id: 'channel' }),
+    } as any;
+
+    sender = {
+      handleSafe: jest.fn(),
+    } as any;
+
+    queue = new WebHookDeliveryQueue({ storage, locker, channelStorage, sender });
+  });
+
+  afterEach(async(): Promise<void> => {
+    await queue.finalize();
+    jest.restoreAllMocks();
+  });
+
+  it('immediately sends new deliveries and removes them once they succeed.', async(): Promise<void> => {
+    await expect(queue.add(notification)).resolves.toBeUndefined();
+    await flushPromises();
+    expect(sender.handleSafe).toHaveBeenCalledTimes(1);
+    expect(sender.handleSafe).toHaveBeenLastCalledWith({
+      ...notification,
+      id: expect.any(String),
+      attempts: 0,
+      nextAttempt: 1000,
+    });
+    expect(locker.withWriteLock).toHaveBeenCalledTimes(1);
+    await expect(getDeliveries()).resolves.toHaveLength(0);
+  });
+
+  it('drops deliveries of channels that no longer exist.', async(): Promise<void> => {
+    channelStorage.get.mockResolvedValueOnce(undefined);
+    await queue.add(notification);
+    await flushPromises();
+    expect(sender.handleSafe).toHaveBeenCalledTimes(0);
+    await expect(getDeliveries()).resolves.toHaveLength(0);
+  });
+
+  it('retries failed deliveries with an exponential backoff.', async(): Promise<void> => {
+    queue = new WebHookDeliveryQueue({ storage, locker, channelStorage, sender, rateLimit: 0 });
+    sender.handleSafe.mockRejectedValue(new Error('bad data'));
+    await queue.add(notification);
+    await flushPromises();
+    expect(sender.handleSafe).toHaveBeenCalledTimes(1);
+    await expect(getDeliveries()).resolves.toEqual([
+      expect.objectContaining({ attempts: 1, nextAttempt: 2000 }),
+    ]);
+    expect(logger.info).toHaveBeenLastCalledWith(
+      'Failed to send webhook notification to http://example.org/webhook: bad data. Retrying in 1000ms.',
+    );
+
+    // Not yet time for the retry
+    now = 1999;
+    await queue.handle();
+    expect(sender.handleSafe).toHaveBeenCalledTimes(1);
+
+    now = 2000;
+    await queue.handle();
+    expect(sender.handleSafe).toHaveBeenCalledTimes(2);
+    await expect(getDeliveries()).resolves.toEqual([
+      expect.objectContaining({ attempts: 2, nextAttempt: 4000 }),
+    ]);
+
+    sender.handleSafe.mockResolvedValueOnce();
+    now = 4000;
+    await queue.handle();
+    expect(sender.handleSafe).toHaveBeenCalledTimes(3);
+    await expect(getDeliveries()).resolves.toHaveLength(0);
+  });
+
+  it('drops deliveries once the maximum number of attempts is reached.', async(): Promise<void> => {
+    queue = new WebHookDeliveryQueue({ storage, locker, channelStorage, sender, maxAttempts: 2, backoff: 10 });
+    sender.handleSafe.mockRejectedValue(new Error('bad data'));
+    await queue.add(notification);
+    await flushPromises();
+    await expect(getDeliveries()).resolves.toEqual([
+      expect.objectContaining({ attempts: 1, nextAttempt: 1010 }),
+    ]);
+
+    now = 5000;
+    await queue.handle();
+    expect(sender.handleSafe).toHaveBeenCalledTimes(2);
+    await expect(getDeliveries()).resolves.toHaveLength(0);
+    expect(logger.warn).toHaveBeenLastCalledWith('Failed to send webhook notification to http://example.org/webhook: ' +
+      'bad data. Dropping the notification after 2 attempts.');
+  });
+
+  it('limits the rate at which requests are sent to a single target.', async(): Promise<void> => {
+    await queue.add(notification);
+    await queue.add(notification);
+    await queue.add({ ...notification, target: 'http://example.org/other' });
+    await flushPromises();
+    expect(sender.handleSafe).toHaveBeenCalledTimes(2);
+    expect(sender.handleSafe.mock.calls.map((call): string => call[0].target)).toEqual(expect.arrayContaining([
+      'http://example.org/other',
+      'http://example.org/webhook',
+    ]));
+    await expect(getDeliveries()).resolves.toHaveLength(1);
+
+    now = 1999;
+    await queue.handle();
+    expect(sender.handleSafe).toHaveBeenCalledTimes(2);
+
+    now = 2000;
+    await queue.handle();
+    expect(sender.handleSafe).toHaveBeenCalledTimes(3);
+    await expect(getDeliveries()).resolves.toHaveLength(0);
+  });
+
+  it('sends the deliveries of a target in the order in which they became due.', async(): Promise<void> => {
+    queue = new WebHookDeliveryQueue({ storage, locker, channelStorage, sender, rateLimit: 0 });
+    await storage.set('late', { ...notification, body: 'late', id: 'late', attempts: 1, nextAttempt: 900 });
+    await storage.set('early', { ...notification, body: 'early', id: 'early', attempts: 1, nextAttempt: 800 });
+    await storage.set('future', { ...notification, body: 'future', id: 'future', attempts: 1, nextAttempt: 1100 });
+    await queue.handle();
+    expect(sender.handleSafe.mock.calls.map((call): string => call[0].body)).toEqual([ 'early', 'late' ]);
+    await expect(getDeliveries()).resolves.toEqual([ expect.objectContaining({ id: 'future' }) ]);
+  });
+
+  it('does not send deliveries that were already handled by another worker.', async(): Promise<void> => {
+    locker.withWriteLock.mockImplementationOnce(async(id: any, whileLocked: () => any): Promise<any> => {
+      await storage.delete((await getDeliveries())[0].id);
+      return whileLocked();
+    });
+    await queue.add(notification);
+    await flushPromises();
+    expect(locker.withWriteLock).toHaveBeenCalledTimes(1);
+    expect(sender.handleSafe).toHaveBeenCalledTimes(0);
+  });
+
+  it('processes the queue again if there were new deliveries while processing.', async(): Promise<void> => {
+    queue = new WebHookDeliveryQueue({ storage, locker, channelStorage, sender, rateLimit: 0 });
+    await queue.add(notification);
+    await queue.add({ ...notification, body: 'second' });
+    await flushPromises();
+    expect(sender.handleSafe).toHaveBeenCalledTimes(2);
+    await expect(getDeliveries()).resolves.toHaveLength(0);
+  });
+
+  it('logs an error if the queue could not be processed after adding a delivery.', async(): Promise<void> => {
+    jest.spyOn(storage, 'entries').mockImplementation((): any => {
+      throw new Error('bad data');
+    });
+    await queue.add(notification);
+    await flushPromises();
+    expect(logger.error).toHaveBeenCalledTimes(1);
+    expect(logger.error).toHaveBeenLastCalledWith('Failed to process webhook deliveries: bad data');
+  });
+
+  it('periodically checks for deliveries that need to be sent.', async(): Promise<void> => {
+    jest.useFakeTimers();
+    queue = new WebHookDeliveryQueue({ storage, locker, channelStorage, sender, interval: 100 });
+    await queue.handle();
+    await storage.set('id', { ...notification, id: 'id', attempts: 0, nextAttempt: 0 });
+
+    jest.advanceTimersByTime(100);
+    jest.useRealTimers();
+    await flushPromises();
+    expect(sender.handleSafe).toHaveBeenCalledTimes(1);
+
+    // Stops the timer
+    await queue.finalize();
+    jest.useFakeTimers();
+    await storage.set('id', { ...notification, id: 'id', attempts: 0, nextAttempt: 0 });
+    jest.advanceTimersByTime(1000);
+    jest.useRealTimers();
+    await flushPromises();
+    expect(sender.handleSafe).toHaveBeenCalledTimes(1);
+  });
+});
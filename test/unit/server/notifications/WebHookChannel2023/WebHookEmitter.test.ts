@@ -0,0 +1,49 @@
+import { BasicRepresentation } from '../../../../../src/http/representation/BasicRepresentation';
+import type { NotificationChannel } from '../../../../../src/server/notifications/NotificationChannel';
+import type {
+  WebHookChannel2023,
+} from '../../../../../src/server/notifications/WebHookChannel2023/WebHookChannel2023Type';
+import type {
+  WebHookDeliveryQueue,
+} from '../../../../../src/server/notifications/WebHookChannel2023/WebHookDeliveryQueue';
+import { WebHookEmitter } from '../../../../../src/server/notifications/WebHookChannel2023/WebHookEmitter';
+import { NOTIFY } from '../../../../../src/util/Vocabularies';
+
+describe('A WebHookEmitter', (): void => {
+  const channel: WebHookChannel2023 = {
+    id: 'id',
+    topic: 'http://example.com/foo',
+    type: NOTIFY.WebHookChannel2023,
+    sendTo: 'http://example.org/webhook',
+  };
+  let queue: jest.Mocked<WebHookDeliveryQueue>;
+  let emitter: WebHookEmitter;
+
+  beforeEach(async(): Promise<void> => {
+    queue = {
+      add: jest.fn(),
+    } as any;
+
+    emitter = new WebHookEmitter(queue);
+  });
+
+  it('adds the notification to the queue.', async(): Promise<void> => {
+    const representation = new BasicRepresentation('notification', 'application/ld+json');
+    await expect(emitter.handle({ channel, representation })).resolves.toBeUndefined();
+    expect(queue.add).toHaveBeenCalledTimes(1);
+    expect(queue.add).toHaveBeenLastCalledWith({
+      channel: 'id',
+      target: 'http://example.org/webhook',
+      contentType: 'application/ld+json',
+      body: 'notification',
+    });
+  });
+
+  it('only supports WebHookChannel2023 channels.', async(): Promise<void> => {
+    const otherChannel: NotificationChannel = { id: 'id', topic: 'http://example.com/foo', type: 'type' };
+    const representation = new BasicRepresentation('notification', 'application/ld+json');
+    await expect(emitter.handle({ channel: otherChannel, representation }))
+      .rejects.toThrow('Only WebHookChannel2023 channels are supported, received type.');
+    expect(queue.add).toHaveBeenCalledTimes(0);
+  });
+});
@@ -0,0 +1,93 @@
+import fetch from 'cross-fetch';
+import { calculateJwkThumbprint, decodeProtectedHeader, importJWK, jwtVerify } from 'jose';
+import { CachedJwkGenerator } from '../../../../../src/identity/configuration/CachedJwkGenerator';
+import {
+  AbsolutePathInteractionRoute,
+} from '../../../../../src/identity/interaction/routing/AbsolutePathInteractionRoute';
+import type {
+  WebHookDelivery,
+} from '../../../../../src/server/notifications/WebHookChannel2023/WebHookDeliveryQueue';
+import { WebHookSender } from '../../../../../src/server/notifications/WebHookChannel2023/WebHookSender';
+import { MemoryMapStorage } from '../../../../../src/storage/keyvalue/MemoryMapStorage';
+
+jest.mock('cross-fetch');
+
+describe('A WebHookSender', (): void => {
+  const fetchMock: jest.Mock = fetch as any;
+  const issuer = 'http://example.com/';
+  const webId = 'http://example.com/.notifications/WebHookChannel2023/webId';
+  const delivery: WebHookDelivery = {
+    id: 'id',
+    channel: 'channel',
+    target: 'http://example.org/webhook',
+    contentType: 'application/ld+json',
+    body: 'notification',
+    attempts: 0,
+    nextAttempt: 0,
+  };
+  const jwkGenerator = new CachedJwkGenerator('ES256', 'jwks', new MemoryMapStorage());
+  let sender: WebHookSender;
+
+  beforeEach(async(): Promise<void> => {
+    jest.clearAllMocks();
+    fetchMock.mockResolvedValue({ status: 200 });
+
+    sender = new WebHookSender({
+      jwkGenerator,
+      issuer,
+      webIdRoute: new AbsolutePathInteractionRoute(webId),
+    });
+  });
+
+  it('POSTs the notification with a DPoP-bound access token.', async(): Promise<void> => {
+    await expect(sender.handle(delivery)).resolves.toBeUndefined();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [ url, init ] = fetchMock.mock.calls[0];
+    expect(url).toBe(delivery.target);
+    expect(init.method).toBe('POST');
+    expect(init.body).toBe('notification');
+    expect(init.headers['content-type']).toBe('application/ld+json');
+
+    const publicKey = await jwkGenerator.getPublicKey();
+    const thumbprint = await calculateJwkThumbprint(publicKey, 'sha256');
+    const key = await importJWK(publicKey);
+
+    const [ scheme, accessToken ] = init.headers.authorization.split(' ');
+    expect(scheme).toBe('DPoP');
+    expect(decodeProtectedHeader(accessToken)).toEqual({ alg: 'ES256', kid: thumbprint });
+    const { payload } = await jwtVerify(accessToken, key, { issuer, audience: 'solid' });
+    expect(payload).toEqual(expect.objectContaining({
+      webid: webId,
+      azp: webId,
+      sub: webId,
+      cnf: { jkt: thumbprint },
+    }));
+    expect(payload.exp! - payload.iat!).toBe(1200);
+
+    const proof = await jwtVerify(init.headers.dpop, key, { typ: 'dpop+jwt' });
+    expect(proof.payload).toEqual(expect.objectContaining({ htu: delivery.target, htm: 'POST' }));
+    expect(proof.protectedHeader.jwk).toEqual(publicKey);
+  });
+
+  it('errors if the target does not respond with a 2xx status code.', async(): Promise<void> => {
+    fetchMock.mockResolvedValueOnce({ status: 500 });
+    await expect(sender.handle(delivery)).rejects.toThrow('Webhook target responded with status code 500');
+    fetchMock.mockResolvedValueOnce({ status: 199 });
+    await expect(sender.handle(delivery)).rejects.toThrow('Webhook target responded with status code 199');
+  });
+
+  it('aborts the request if the target takes too long to respond.', async(): Promise<void> => {
+    sender = new WebHookSender({
+      jwkGenerator,
+      issuer,
+      webIdRoute: new AbsolutePathInteractionRoute(webId),
+      expiration: 60,
+      timeout: 10,
+    });
+    fetchMock.mockImplementationOnce(async(url: string, { signal }: { signal: AbortSignal }): Promise<any> =>
+      new Promise((resolve, reject): void => {
+        signal.addEventListener('abort', (): void => reject(new Error('aborted')));
+      }));
+    await expect(sender.handle(delivery)).rejects.toThrow('aborted');
+  });
+});
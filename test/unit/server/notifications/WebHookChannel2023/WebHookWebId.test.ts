@@ -0,0 +1,69 @@
+import { DataFactory } from 'n3';
+import type { Operation } from '../../../../../src/http/Operation';
+import { BasicRepresentation } from '../../../../../src/http/representation/BasicRepresentation';
+import type { Representation } from '../../../../../src/http/representation/Representation';
+import {
+  AbsolutePathInteractionRoute,
+} from '../../../../../src/identity/interaction/routing/AbsolutePathInteractionRoute';
+import type { HttpRequest } from '../../../../../src/server/HttpRequest';
+import type { HttpResponse } from '../../../../../src/server/HttpResponse';
+import { WebHookWebId } from '../../../../../src/server/notifications/WebHookChannel2023/WebHookWebId';
+import type { RepresentationConverter } from '../../../../../src/storage/conversion/RepresentationConverter';
+import { INTERNAL_QUADS } from '../../../../../src/util/ContentTypes';
+import { MethodNotAllowedHttpError } from '../../../../../src/util/errors/MethodNotAllowedHttpError';
+import { NotFoundHttpError } from '../../../../../src/util/errors/NotFoundHttpError';
+import { readableToQuads } from '../../../../../src/util/StreamUtil';
+import { SOLID } from '../../../../../src/util/Vocabularies';
+const { namedNode, quad } = DataFactory;
+
+describe('A WebHookWebId', (): void => {
+  const request: HttpRequest = {} as any;
+  const response: HttpResponse = {} as any;
+  const webId = 'http://example.com/.notifications/WebHookChannel2023/webId';
+  const issuer = 'http://example.com/';
+  let operation: Operation;
+  let converter: jest.Mocked<RepresentationConverter>;
+  let handler: WebHookWebId;
+
+  beforeEach(async(): Promise<void> => {
+    operation = {
+      method: 'GET',
+      target: { path: webId },
+      preferences: { type: { 'text/turtle': 1 }},
+      body: new BasicRepresentation(),
+    };
+
+    converter = {
+      handleSafe: jest.fn(async({ representation }): Promise<Representation> => representation),
+    } as any;
+
+    handler = new WebHookWebId({
+      webIdRoute: new AbsolutePathInteractionRoute(webId),
+      issuer,
+      converter,
+    });
+  });
+
+  it('only handles GET and HEAD requests targeting the WebID.', async(): Promise<void> => {
+    await expect(handler.canHandle({ operation, request, response })).resolves.toBeUndefined();
+    operation.method = 'HEAD';
+    await expect(handler.canHandle({ operation, request, response })).resolves.toBeUndefined();
+    operation.method = 'POST';
+    await expect(handler.canHandle({ operation, request, response })).rejects.toThrow(MethodNotAllowedHttpError);
+    operation.method = 'GET';
+    operation.target = { path: 'http://example.com/other' };
+    await expect(handler.canHandle({ operation, request, response })).rejects.toThrow(NotFoundHttpError);
+  });
+
+  it('returns a document linking the WebID to the issuer.', async(): Promise<void> => {
+    const result = await handler.handle({ operation, request, response });
+    expect(result.statusCode).toBe(200);
+    expect(result.metadata?.contentType).toBe(INTERNAL_QUADS);
+    const quads = await readableToQuads(result.data!);
+    expect(quads.getQuads(null, null, null, null)).toEqual([
+      quad(namedNode(webId), SOLID.terms.oidcIssuer, namedNode(issuer)),
+    ]);
+    expect(converter.handleSafe).toHaveBeenCalledTimes(1);
+    expect(converter.handleSafe.mock.calls[0][0].preferences).toBe(operation.preferences);
+  });
+});
@@ -0,0 +1,62 @@
+import { EventEmitter } from 'events';
+import type { WebSocket } from 'ws';
+import { BasicRepresentation } from '../../../../../src/http/representation/BasicRepresentation';
+import type { Logger } from '../../../../../src/logging/Logger';
+import { getLoggerFor } from '../../../../../src/logging/LogUtil';
+import type { NotificationChannel } from '../../../../../src/server/notifications/NotificationChannel';
+import {
+  WebSocket2023Emitter,
+} from '../../../../../src/server/notifications/WebSocketChannel2023/WebSocket2023Emitter';
+import { WebSocketMap } from '../../../../../src/server/notifications/WebSocketChannel2023/WebSocketMap';
+
+jest.mock('../../../../../src/logging/LogUtil', (): any => {
+  const logger: Logger = { warn: jest.fn() } as any;
+  return { getLoggerFor: (): Logger => logger };
+});
+
+describe('A WebSocket2023Emitter', (): void => {
+  const logger: jest.Mocked<Logger> = getLoggerFor('mock') as any;
+  const channel: NotificationChannel = {
+    id: 'id',
+    topic: 'http://example.com/foo',
+    type: 'type',
+  };
+  let webSocket: jest.Mocked<WebSocket>;
+  let socketMap: WebSocketMap;
+  let emitter: WebSocket2023Emitter;
+
+  beforeEach(async(): Promise<void> => {
+    jest.clearAllMocks();
+    webSocket = new EventEmitter() as any;
+    webSocket.send = jest.fn();
+
+    socketMap = new WebSocketMap();
+
+    emitter = new WebSocket2023Emitter(socketMap);
+  });
+
+  it('sends the notification to all WebSockets of the channel.', async(): Promise<void> => {
+    const webSocket2: jest.Mocked<WebSocket> = new EventEmitter() as any;
+    webSocket2.send = jest.fn();
+    const webSocketOther: jest.Mocked<WebSocket> = new EventEmitter() as any;
+    webSocketOther.send = jest.fn();
+    socketMap.add(channel.id, webSocket);
+    socketMap.add(channel.id, webSocket2);
+    socketMap.add('other', webSocketOther);
+
+    const representation = new BasicRepresentation('notification', 'text/plain');
+    await expect(emitter.handle({ channel, representation })).resolves.toBeUndefined();
+    expect(webSocket.send).toHaveBeenCalledTimes(1);
+    expect(webSocket.send).toHaveBeenLastCalledWith('notification');
+    expect(webSocket2.send).toHaveBeenCalledTimes(1);
+    expect(webSocket2.send).toHaveBeenLastCalledWith('notification');
+    expect(webSocketOther.send).toHaveBeenCalledTimes(0);
+  });
+
+  it('logs a warning if there are no WebSockets for the channel.', async(): Promise<void> => {
+    const representation = new BasicRepresentation('notification', 'text/plain');
+    await expect(emitter.handle({ channel, representation })).resolves.toBeUndefined();
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+    expect(logger.warn).toHaveBeenLastCalledWith(`No WebSockets found for channel ${channel.id}`);
+  });
+});
@@ -0,0 +1,112 @@
+import { EventEmitter } from 'events';
+import type { WebSocket } from 'ws';
+import {
+  AbsolutePathInteractionRoute,
+} from '../../../../../src/identity/interaction/routing/AbsolutePathInteractionRoute';
+import type { Logger } from '../../../../../src/logging/Logger';
+import { getLoggerFor } from '../../../../../src/logging/LogUtil';
+import type { HttpRequest } from '../../../../../src/server/HttpRequest';
+import type { NotificationChannel } from '../../../../../src/server/notifications/NotificationChannel';
+import type { NotificationChannelStorage } from '../../../../../src/server/notifications/NotificationChannelStorage';
+import {
+  WebSocket2023Listener,
+} from '../../../../../src/server/notifications/WebSocketChannel2023/WebSocket2023Listener';
+import { WebSocketMap } from '../../../../../src/server/notifications/WebSocketChannel2023/WebSocketMap';
+import { flushPromises } from '../../../../util/Util';
+
+jest.mock('../../../../../src/logging/LogUtil', (): any => {
+  const logger: Logger = { info: jest.fn(), error: jest.fn() } as any;
+  return { getLoggerFor: (): Logger => logger };
+});
+
+describe('A WebSocket2023Listener', (): void => {
+  const logger: jest.Mocked<Logger> = getLoggerFor('mock') as any;
+  const channel: NotificationChannel = {
+    id: 'http://example.com/WebSocketChannel2023/123',
+    topic: 'http://example.com/foo',
+    type: 'type',
+  };
+  const route = new AbsolutePathInteractionRoute('http://example.com/WebSocketChannel2023/');
+  let webSocket: jest.Mocked<WebSocket>;
+  let upgradeRequest: HttpRequest;
+  let storage: jest.Mocked<NotificationChannelStorage>;
+  let socketMap: WebSocketMap;
+  let listener: WebSocket2023Listener;
+
+  beforeEach(async(): Promise<void> => {
+    jest.clearAllMocks();
+    webSocket = new EventEmitter() as any;
+    webSocket.send = jest.fn();
+    webSocket.close = jest.fn();
+
+    upgradeRequest = { url: `/WebSocketChannel2023/?auth=${encodeURIComponent(channel.id)}` } as any;
+
+    storage = {
+      get: jest.fn().mockResolvedValue(channel),
+      delete: jest.fn().mockResolvedValue(true),
+    } as any;
+
+    socketMap = new WebSocketMap();
+
+    listener = new WebSocket2023Listener(storage, socketMap, route);
+  });
+
+  it('only handles requests targeting the WebSocketChannel2023 route.', async(): Promise<void> => {
+    await expect(listener.canHandle({ webSocket, upgradeRequest })).resolves.toBeUndefined();
+
+    upgradeRequest.url = '/other/?auth=123';
+    await expect(listener.canHandle({ webSocket, upgradeRequest }))
+      .rejects.toThrow('Only WebSocket requests to /WebSocketChannel2023/ are supported.');
+
+    delete upgradeRequest.url;
+    await expect(listener.canHandle({ webSocket, upgradeRequest })).rejects.toThrow('Only WebSocket requests to');
+  });
+
+  it('closes the WebSocket if there is no channel identifier.', async(): Promise<void> => {
+    upgradeRequest.url = '/WebSocketChannel2023/';
+    await expect(listener.handle({ webSocket, upgradeRequest })).resolves.toBeUndefined();
+    expect(webSocket.send).toHaveBeenLastCalledWith('Missing channel identifier.');
+    expect(webSocket.close).toHaveBeenCalledTimes(1);
+    expect(storage.get).toHaveBeenCalledTimes(0);
+  });
+
+  it('closes the WebSocket if the channel does not exist.', async(): Promise<void> => {
+    storage.get.mockResolvedValueOnce(undefined);
+    await expect(listener.handle({ webSocket, upgradeRequest })).resolves.toBeUndefined();
+    expect(webSocket.send).toHaveBeenLastCalledWith('Notification channel has expired');
+    expect(webSocket.close).toHaveBeenCalledTimes(1);
+    expect(socketMap.size).toBe(0);
+  });
+
+  it('stores the WebSocket for the matching channel.', async(): Promise<void> => {
+    await expect(listener.handle({ webSocket, upgradeRequest })).resolves.toBeUndefined();
+    expect(storage.get).toHaveBeenLastCalledWith(channel.id);
+    expect(webSocket.close).toHaveBeenCalledTimes(0);
+    expect([ ...socketMap.get(channel.id)! ]).toEqual([ webSocket ]);
+  });
+
+  it('removes the channel once its last WebSocket closes.', async(): Promise<void> => {
+    const webSocket2: jest.Mocked<WebSocket> = new EventEmitter() as any;
+    await listener.handle({ webSocket, upgradeRequest });
+    await listener.handle({ webSocket: webSocket2, upgradeRequest });
+    expect(socketMap.get(channel.id)!.size).toBe(2);
+
+    webSocket.emit('close');
+    expect(socketMap.get(channel.id)!.size).toBe(1);
+    expect(storage.delete).toHaveBeenCalledTimes(0);
+
+    webSocket2.emit('error');
+    expect(socketMap.has(channel.id)).toBe(false);
+    expect(storage.delete).toHaveBeenCalledTimes(1);
+    expect(storage.delete).toHaveBeenLastCalledWith(channel.id);
+  });
+
+  it('logs an error if the channel could not be removed.', async(): Promise<void> => {
+    storage.delete.mockRejectedValueOnce(new Error('bad data'));
+    await listener.handle({ webSocket, upgradeRequest });
+    webSocket.emit('close');
+    await flushPromises();
+    expect(logger.error).toHaveBeenCalledTimes(1);
+    expect(logger.error).toHaveBeenLastCalledWith(`Unable to remove notification channel ${channel.id}: bad data`);
+  });
+});
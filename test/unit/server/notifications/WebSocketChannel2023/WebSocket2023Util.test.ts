@@ -0,0 +1,33 @@
+import type { IncomingMessage } from 'http';
+import {
+  generateWebSocketUrl,
+  parseWebSocketRequest,
+} from '../../../../../src/server/notifications/WebSocketChannel2023/WebSocket2023Util';
+
+describe('WebSocket2023Util', (): void => {
+  describe('#generateWebSocketUrl', (): void => {
+    it('generates a WebSocket URL with the identifier as parameter.', async(): Promise<void> => {
+      expect(generateWebSocketUrl('http://example.com/', 'http://example.com/123456'))
+        .toBe('ws://example.com/?auth=http%3A%2F%2Fexample.com%2F123456');
+    });
+
+    it('uses the secure protocol for HTTPS URLs.', async(): Promise<void> => {
+      expect(generateWebSocketUrl('https://example.com/foo/', '123456'))
+        .toBe('wss://example.com/foo/?auth=123456');
+    });
+  });
+
+  describe('#parseWebSocketRequest', (): void => {
+    it('extracts the identifier from the request.', async(): Promise<void> => {
+      const request = { url: '/foo/?auth=http%3A%2F%2Fexample.com%2F123456' } as IncomingMessage;
+      expect(parseWebSocketRequest('http://example.com/', request)).toBe('http://example.com/123456');
+    });
+
+    it('errors if there is no identifier.', async(): Promise<void> => {
+      expect((): string => parseWebSocketRequest('http://example.com/', { url: '/foo/' } as IncomingMessage))
+        .toThrow('Missing auth parameter in WebSocket URL.');
+      expect((): string => parseWebSocketRequest('http://example.com/', {} as IncomingMessage))
+        .toThrow('Missing auth parameter in WebSocket URL.');
+    });
+  });
+});
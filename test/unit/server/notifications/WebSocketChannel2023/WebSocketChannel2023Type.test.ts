@@ -0,0 +1,25 @@
+import {
+  AbsolutePathInteractionRoute,
+} from '../../../../../src/identity/interaction/routing/AbsolutePathInteractionRoute';
+import {
+  WebSocketChannel2023Type,
+} from '../../../../../src/server/notifications/WebSocketChannel2023/WebSocketChannel2023Type';
+import { NOTIFY } from '../../../../../src/util/Vocabularies';
+
+describe('A WebSocketChannel2023Type', (): void => {
+  const route = new AbsolutePathInteractionRoute('http://example.com/WebSocketChannel2023/');
+  const topic = 'http://example.com/foo';
+  const channelType = new WebSocketChannel2023Type(route);
+
+  it('exposes the WebSocketChannel2023 type.', async(): Promise<void> => {
+    expect(channelType.getDescription().channelType).toBe(NOTIFY.WebSocketChannel2023);
+  });
+
+  it('adds the WebSocket URL to the JSON-LD representation.', async(): Promise<void> => {
+    const channel = await channelType.initChannel({ type: NOTIFY.WebSocketChannel2023, topic }, {});
+    const json = await channelType.toJsonLd(channel);
+    expect(json.type).toBe(NOTIFY.WebSocketChannel2023);
+    expect(json.receiveFrom)
+      .toBe(`ws://example.com/WebSocketChannel2023/?auth=${encodeURIComponent(channel.id)}`);
+  });
+});
@@ -0,0 +1,68 @@
+import { BasicRepresentation } from '../../../../../src/http/representation/BasicRepresentation';
+import { RepresentationMetadata } from '../../../../../src/http/representation/RepresentationMetadata';
+import {
+  ActivityNotificationGenerator,
+} from '../../../../../src/server/notifications/generate/ActivityNotificationGenerator';
+import type { NotificationChannel } from '../../../../../src/server/notifications/NotificationChannel';
+import type { ResourceStore } from '../../../../../src/storage/ResourceStore';
+import { AS, DC, LDP, RDF } from '../../../../../src/util/Vocabularies';
+
+describe('An ActivityNotificationGenerator', (): void => {
+  const topic = { path: 'http://example.com/foo' };
+  const channel: NotificationChannel = {
+    id: 'id',
+    topic: topic.path,
+    type: 'type',
+  };
+  const activity = AS.terms.Update;
+  const ms = 123456789;
+  const date = new Date(ms);
+  let metadata: RepresentationMetadata;
+  let store: jest.Mocked<ResourceStore>;
+  let generator: ActivityNotificationGenerator;
+
+  beforeEach(async(): Promise<void> => {
+    jest.spyOn(Date, 'now').mockReturnValue(ms);
+    metadata = new RepresentationMetadata({
+      [RDF.type]: LDP.terms.Resource,
+      // Needed for ETag
+      [DC.modified]: date.toISOString(),
+    });
+
+    store = {
+      getRepresentation: jest.fn().mockResolvedValue(new BasicRepresentation('', metadata)),
+    } as any;
+
+    generator = new ActivityNotificationGenerator(store);
+  });
+
+  afterEach(async(): Promise<void> => {
+    jest.restoreAllMocks();
+  });
+
+  it('only handles defined activities.', async(): Promise<void> => {
+    await expect(generator.canHandle({ topic, channel })).rejects.toThrow('Only defined activities are supported.');
+    await expect(generator.canHandle({ topic, channel, activity })).resolves.toBeUndefined();
+  });
+
+  it('generates a notification.', async(): Promise<void> => {
+    await expect(generator.handle({ topic, channel, activity })).resolves.toEqual({
+      '@context': [
+        'https://www.w3.org/ns/activitystreams',
+        'https://www.w3.org/ns/solid/notification/v1',
+      ],
+      id: `urn:${ms}:http://example.com/foo`,
+      type: 'Update',
+      object: 'http://example.com/foo',
+      state: `"${ms}"`,
+      published: date.toISOString(),
+    });
+    expect(store.getRepresentation).toHaveBeenLastCalledWith(topic, {});
+  });
+
+  it('does not add a state if no ETag could be generated.', async(): Promise<void> => {
+    metadata.removeAll(DC.terms.modified);
+    const notification = await generator.handle({ topic, channel, activity });
+    expect(notification.state).toBeUndefined();
+  });
+});
@@ -0,0 +1,39 @@
+import {
+  DeleteNotificationGenerator,
+} from '../../../../../src/server/notifications/generate/DeleteNotificationGenerator';
+import type { NotificationChannel } from '../../../../../src/server/notifications/NotificationChannel';
+import { AS } from '../../../../../src/util/Vocabularies';
+
+describe('A DeleteNotificationGenerator', (): void => {
+  const topic = { path: 'http://example.com/foo' };
+  const channel: NotificationChannel = {
+    id: 'id',
+    topic: topic.path,
+    type: 'type',
+  };
+  const activity = AS.terms.Delete;
+  const generator = new DeleteNotificationGenerator();
+
+  it('only handles the delete activity.', async(): Promise<void> => {
+    await expect(generator.canHandle({ topic, channel, activity })).resolves.toBeUndefined();
+    await expect(generator.canHandle({ topic, channel, activity: AS.terms.Update }))
+      .rejects.toThrow(`Only ${AS.Delete} activity updates are supported.`);
+    await expect(generator.canHandle({ topic, channel })).rejects.toThrow(`Only ${AS.Delete} activity updates`);
+  });
+
+  it('generates a notification without state.', async(): Promise<void> => {
+    const ms = 123456789;
+    jest.spyOn(Date, 'now').mockReturnValue(ms);
+    await expect(generator.handle({ topic, channel, activity })).resolves.toEqual({
+      '@context': [
+        'https://www.w3.org/ns/activitystreams',
+        'https://www.w3.org/ns/solid/notification/v1',
+      ],
+      id: `urn:${ms}:http://example.com/foo`,
+      type: 'Delete',
+      object: 'http://example.com/foo',
+      published: expect.any(String),
+    });
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,246 @@
+import type { CredentialsExtractor } from '../../../../src/authentication/CredentialsExtractor';
+import type { Authorizer } from '../../../../src/authorization/Authorizer';
+import type { PermissionReader } from '../../../../src/authorization/PermissionReader';
+import { AclMode } from '../../../../src/authorization/permissions/AclPermission';
+import type { Operation } from '../../../../src/http/Operation';
+import { BasicRepresentation } from '../../../../src/http/representation/BasicRepresentation';
+import type { Representation } from '../../../../src/http/representation/Representation';
+import { RepresentationMetadata } from '../../../../src/http/representation/RepresentationMetadata';
+import type { ResourceIdentifier } from '../../../../src/http/representation/ResourceIdentifier';
+import type { HttpRequest } from '../../../../src/server/HttpRequest';
+import type { HttpResponse } from '../../../../src/server/HttpResponse';
+import { TrashHandler } from '../../../../src/server/trash/TrashHandler';
+import type { KeyValueStorage } from '../../../../src/storage/keyvalue/KeyValueStorage';
+import { MemoryMapStorage } from '../../../../src/storage/keyvalue/MemoryMapStorage';
+import type { ResourceStore } from '../../../../src/storage/ResourceStore';
+import type { TrashEntry, TrashedResource } from '../../../../src/storage/TrashStore';
+import { ConflictHttpError } from '../../../../src/util/errors/ConflictHttpError';
+import { ForbiddenHttpError } from '../../../../src/util/errors/ForbiddenHttpError';
+import { MethodNotAllowedHttpError } from '../../../../src/util/errors/MethodNotAllowedHttpError';
+import { NotFoundHttpError } from '../../../../src/util/errors/NotFoundHttpError';
+import { IdentifierMap, IdentifierSetMultiMap } from '../../../../src/util/map/IdentifierMap';
+import { readableToString, readJsonStream } from '../../../../src/util/StreamUtil';
+import { PIM, RDF, SOLID_HTTP } from '../../../../src/util/Vocabularies';
+
+function createResource(path: string, data = ''): TrashedResource {
+  const contentType = data ? 'text/plain' : undefined;
+  return { path, contentType, data: Buffer.from(data).toString('base64'), metadata: '' };
+}
+
+describe('A TrashHandler', (): void => {
+  const pod = 'http://example.com/alice/';
+  const trash = `${pod}.trash/`;
+  const credentials = { agent: { webId: 'http://example.com/alice/profile/card#me' }};
+  const request: HttpRequest = {} as any;
+  const response: HttpResponse = {} as any;
+  const document: TrashEntry = {
+    id: 'document',
+    storage: pod,
+    path: `${pod}foo`,
+    deleted: Date.parse('2022-01-01T00:00:00.000Z'),
+    resources: [ createResource(`${pod}foo`, 'data'), createResource(`${pod}foo.acl`, 'acl') ],
+  };
+  let operation: Operation;
+  let resources: Set<string>;
+  let store: jest.Mocked<ResourceStore>;
+  let storage: KeyValueStorage<string, TrashEntry>;
+  let credentialsExtractor: jest.Mocked<CredentialsExtractor>;
+  let permissionReader: jest.Mocked<PermissionReader>;
+  let authorizer: jest.Mocked<Authorizer>;
+  let handler: TrashHandler;
+
+  beforeEach(async(): Promise<void> => {
+    operation = {
+      method: 'GET',
+      target: { path: trash },
+      body: new BasicRepresentation(),
+      preferences: {},
+    };
+
+    resources = new Set([ pod, `${pod}container/` ]);
+
+    store = {
+      hasResource: jest.fn(async({ path }: ResourceIdentifier): Promise<boolean> => resources.has(path)),
+      getRepresentation: jest.fn(async({ path }: ResourceIdentifier): Promise<Representation> => {
+        const metadata = new RepresentationMetadata({ path });
+        if (path === pod) {
+          metadata.add(RDF.terms.type, PIM.terms.Storage);
+        }
+        return new BasicRepresentation('', metadata);
+      }),
+      setRepresentation: jest.fn(async({ path }: ResourceIdentifier): Promise<any> => {
+        resources.add(path);
+      }),
+    } as any;
+
+    storage = new MemoryMapStorage();
+    await storage.set(document.id, document);
+    await storage.set('other', { ...document, id: 'other', storage: 'http://example.com/bob/' });
+
+    credentialsExtractor = {
+      handleSafe: jest.fn().mockResolvedValue(credentials),
+    } as any;
+
+    permissionReader = {
+      handleSafe: jest.fn().mockResolvedValue(new IdentifierMap()),
+    } as any;
+
+    authorizer = {
+      handleSafe: jest.fn(),
+    } as any;
+
+    handler = new TrashHandler({
+      store,
+      storage,
+      path: '.trash/',
+      credentialsExtractor,
+      permissionReader,
+      authorizer,
+    });
+  });
+
+  it('only handles requests targeting the trash.', async(): Promise<void> => {
+    await expect(handler.canHandle({ operation, request, response })).resolves.toBeUndefined();
+
+    operation.target.path = `${pod}foo`;
+    await expect(handler.canHandle({ operation, request, response })).rejects.toThrow(NotFoundHttpError);
+  });
+
+  it('only supports GET requests on the trash itself.', async(): Promise<void> => {
+    operation.method = 'POST';
+    await expect(handler.canHandle({ operation, request, response })).rejects.toThrow(MethodNotAllowedHttpError);
+
+    operation.target.path = `${trash}document`;
+    await expect(handler.canHandle({ operation, request, response })).resolves.toBeUndefined();
+    operation.method = 'DELETE';
+    await expect(handler.canHandle({ operation, request, response })).resolves.toBeUndefined();
+    operation.method = 'PUT';
+    await expect(handler.canHandle({ operation, request, response })).rejects.toThrow(MethodNotAllowedHttpError);
+  });
+
+  it('only handles the trash of storages.', async(): Promise<void> => {
+    operation.target.path = `${pod}container/.trash/`;
+    await expect(handler.canHandle({ operation, request, response })).rejects.toThrow(NotFoundHttpError);
+  });
+
+  it('requires control permissions on the storage.', async(): Promise<void> => {
+    authorizer.handleSafe.mockRejectedValueOnce(new ForbiddenHttpError());
+    await expect(handler.handle({ operation, request, response })).rejects.toThrow(ForbiddenHttpError);
+
+    expect(credentialsExtractor.handleSafe).toHaveBeenLastCalledWith(request);
+    const requestedModes = new IdentifierSetMultiMap([[{ path: pod }, AclMode.control ]]);
+    expect(permissionReader.handleSafe).toHaveBeenLastCalledWith({ credentials, requestedModes });
+    expect(authorizer.handleSafe).toHaveBeenLastCalledWith({
+      credentials,
+      requestedModes,
+      availablePermissions: new IdentifierMap(),
+    });
+  });
+
+  it('lists the entries in the trash of the storage.', async(): Promise<void> => {
+    await storage.set('newer', { ...document, id: 'newer', deleted: document.deleted + 1000 });
+    const result = await handler.handle({ operation, request, response });
+    expect(result.statusCode).toBe(200);
+    expect(result.metadata?.contentType).toBe('application/json');
+    await expect(readJsonStream(result.data!)).resolves.toEqual([
+      { id: 'newer', path: document.path, deleted: '2022-01-01T00:00:01.000Z' },
+      { id: 'document', path: document.path, deleted: '2022-01-01T00:00:00.000Z' },
+    ]);
+  });
+
+  it('can describe a single entry.', async(): Promise<void> => {
+    operation.target.path = `${trash}document`;
+    const result = await handler.handle({ operation, request, response });
+    expect(result.statusCode).toBe(200);
+    await expect(readJsonStream(result.data!)).resolves.toEqual({
+      id: 'document',
+      path: document.path,
+      deleted: '2022-01-01T00:00:00.000Z',
+      resources: [ `${pod}foo`, `${pod}foo.acl` ],
+    });
+  });
+
+  it('returns a 404 for unknown entries or entries of other storages.', async(): Promise<void> => {
+    operation.target.path = `${trash}unknown`;
+    await expect(handler.handle({ operation, request, response })).rejects.toThrow(NotFoundHttpError);
+
+    operation.target.path = `${trash}other`;
+    await expect(handler.handle({ operation, request, response })).rejects.toThrow(NotFoundHttpError);
+  });
+
+  it('can remove entries from the trash.', async(): Promise<void> => {
+    operation.method = 'DELETE';
+    operation.target.path = `${trash}document`;
+    const result = await handler.handle({ operation, request, response });
+    expect(result.statusCode).toBe(205);
+    await expect(storage.has('document')).resolves.toBe(false);
+    expect(store.setRepresentation).toHaveBeenCalledTimes(0);
+  });
+
+  it('restores all resources of an entry.', async(): Promise<void> => {
+    operation.method = 'POST';
+    operation.target.path = `${trash}document`;
+    const result = await handler.handle({ operation, request, response });
+    expect(result.statusCode).toBe(201);
+    expect(result.metadata?.get(SOLID_HTTP.terms.location)?.value).toBe(document.path);
+    await expect(storage.has('document')).resolves.toBe(false);
+
+    expect(store.setRepresentation).toHaveBeenCalledTimes(2);
+    expect(store.setRepresentation.mock.calls[0][0]).toEqual({ path: `${pod}foo` });
+    const representation = store.setRepresentation.mock.calls[0][1];
+    expect(representation.metadata.contentType).toBe('text/plain');
+    await expect(readableToString(representation.data)).resolves.toBe('data');
+    expect(store.setRepresentation.mock.calls[1][0]).toEqual({ path: `${pod}foo.acl` });
+  });
+
+  it('does not restore resources that already exist.', async(): Promise<void> => {
+    operation.method = 'POST';
+    operation.target.path = `${trash}document`;
+    resources.add(document.path);
+    await expect(handler.handle({ operation, request, response })).rejects.toThrow(ConflictHttpError);
+    expect(store.setRepresentation).toHaveBeenCalledTimes(0);
+    await expect(storage.has('document')).resolves.toBe(true);
+  });
+
+  it('also restores the entries that were inside a restored container.', async(): Promise<void> => {
+    const container = `${pod}deleted/`;
+    await storage.set('container', {
+      id: 'container',
+      storage: pod,
+      path: container,
+      deleted: document.deleted + 2000,
+      resources: [ createResource(container) ],
+    });
+    await storage.set('child', {
+      id: 'child',
+      storage: pod,
+      path: `${container}child`,
+      deleted: document.deleted + 1000,
+      resources: [ createResource(`${container}child`, 'child') ],
+    });
+    await storage.set('olderChild', {
+      id: 'olderChild',
+      storage: pod,
+      path: `${container}child`,
+      deleted: document.deleted,
+      resources: [ createResource(`${container}child`, 'older child') ],
+    });
+
+    operation.method = 'POST';
+    operation.target.path = `${trash}container`;
+    const result = await handler.handle({ operation, request, response });
+    expect(result.statusCode).toBe(201);
+    expect(result.metadata?.get(SOLID_HTTP.terms.location)?.value).toBe(container);
+
+    // The most recent version of the child was restored
+    expect(store.setRepresentation).toHaveBeenCalledTimes(2);
+    expect(store.setRepresentation.mock.calls[0][0]).toEqual({ path: container });
+    expect(store.setRepresentation.mock.calls[1][0]).toEqual({ path: `${container}child` });
+    await expect(readableToString(store.setRepresentation.mock.calls[1][1].data)).resolves.toBe('child');
+
+    await expect(storage.has('container')).resolves.toBe(false);
+    await expect(storage.has('child')).resolves.toBe(false);
+    await expect(storage.has('olderChild')).resolves.toBe(false);
+    await expect(storage.has('document')).resolves.toBe(true);
+  });
+});
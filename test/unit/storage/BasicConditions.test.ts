@@ -37,9 +37,31 @@ describe('A BasicConditions', (): void => {
     expect(conditions.matches('abcd')).toBe(true);
   });
 
+  it('ignores the content type in the ETags unless the comparison is strict.', async(): Promise<void> => {
+    const conditions = new BasicConditions({ matchesETag: [ '"1234-text/turtle"' ]});
+    expect(conditions.matches('"1234-application/ld+json"')).toBe(true);
+    expect(conditions.matches('"1234-application/ld+json"', undefined, true)).toBe(false);
+    expect(conditions.matches('"1234-text/turtle"', undefined, true)).toBe(true);
+    expect(conditions.matches('"5678-text/turtle"')).toBe(false);
+  });
+
+  it('never matches weak ETags for matchesETag.', async(): Promise<void> => {
+    const conditions = new BasicConditions({ matchesETag: [ 'W/"1234"' ]});
+    expect(conditions.matches('"1234"')).toBe(false);
+    expect(conditions.matches('W/"1234"', undefined, true)).toBe(false);
+  });
+
+  it('uses the weak comparison for notMatchesETag.', async(): Promise<void> => {
+    const conditions = new BasicConditions({ notMatchesETag: [ 'W/"1234-text/turtle"' ]});
+    expect(conditions.matches('"1234-text/turtle"', undefined, true)).toBe(false);
+    expect(conditions.matches('"1234-application/ld+json"', undefined, true)).toBe(true);
+    expect(conditions.matches('"1234-application/ld+json"')).toBe(false);
+  });
+
   it('requires lastModified to be after modifiedSince.', async(): Promise<void> => {
     const conditions = new BasicConditions({ modifiedSince: now });
     expect(conditions.matches(undefined, yesterday)).toBe(false);
+    expect(conditions.matches(undefined, now)).toBe(false);
     expect(conditions.matches(undefined, tomorrow)).toBe(true);
   });
 
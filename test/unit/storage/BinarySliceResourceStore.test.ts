@@ -0,0 +1,150 @@
+import { BasicRepresentation } from '../../../src/http/representation/BasicRepresentation';
+import type { Representation } from '../../../src/http/representation/Representation';
+import type { RepresentationPreferences } from '../../../src/http/representation/RepresentationPreferences';
+import { BinarySliceResourceStore } from '../../../src/storage/BinarySliceResourceStore';
+import type { ResourceStore } from '../../../src/storage/ResourceStore';
+import { RangeNotSatisfiableHttpError } from '../../../src/util/errors/RangeNotSatisfiableHttpError';
+import { addRangeMetadata } from '../../../src/util/RangeUtil';
+import { updateModifiedDate } from '../../../src/util/ResourceUtil';
+import { readableToString } from '../../../src/util/StreamUtil';
+import { POSIX, SOLID_HTTP } from '../../../src/util/Vocabularies';
+
+jest.mock('uuid', (): any => ({ v4: (): string => 'boundary' }));
+
+function getRangePreferences(...parts: { start: number; end?: number }[]): RepresentationPreferences {
+  return { range: { unit: 'bytes', parts }};
+}
+
+describe('A BinarySliceResourceStore', (): void => {
+  const identifier = { path: 'http://test.com/foo' };
+  const data = '0123456789';
+  let representation: Representation;
+  let source: jest.Mocked<ResourceStore>;
+  let store: BinarySliceResourceStore;
+
+  beforeEach(async(): Promise<void> => {
+    representation = new BasicRepresentation(data, identifier, 'text/plain');
+
+    source = {
+      getRepresentation: jest.fn(async(): Promise<Representation> => representation),
+    } as any;
+
+    store = new BinarySliceResourceStore(source);
+  });
+
+  it('returns the source representation if there are no byte ranges.', async(): Promise<void> => {
+    await expect(store.getRepresentation(identifier, {})).resolves.toBe(representation);
+    const preferences = { range: { unit: 'lines', parts: [{ start: 0 }]}};
+    await expect(store.getRepresentation(identifier, preferences)).resolves.toBe(representation);
+    expect(source.getRepresentation).toHaveBeenLastCalledWith(identifier, preferences, undefined);
+  });
+
+  it('slices the data of binary representations.', async(): Promise<void> => {
+    const preferences = getRangePreferences({ start: 2, end: 4 });
+    const result = await store.getRepresentation(identifier, preferences, 'conditions' as any);
+    expect(source.getRepresentation).toHaveBeenLastCalledWith(identifier, preferences, 'conditions');
+    await expect(readableToString(result.data)).resolves.toBe('234');
+    expect(result.metadata.contentType).toBe('text/plain');
+    expect(result.metadata.get(SOLID_HTTP.terms.unit)?.value).toBe('bytes');
+    expect(result.metadata.get(SOLID_HTTP.terms.start)?.value).toBe('2');
+    expect(result.metadata.get(SOLID_HTTP.terms.end)?.value).toBe('4');
+    expect(result.metadata.get(POSIX.terms.size)?.value).toBe('10');
+  });
+
+  it('does not slice representations that were already sliced by the source.', async(): Promise<void> => {
+    addRangeMetadata(representation.metadata, { start: 0, end: 9 }, 100);
+    await expect(store.getRepresentation(identifier, getRangePreferences({ start: 0, end: 9 })))
+      .resolves.toBe(representation);
+  });
+
+  it('does not slice representations that are not binary.', async(): Promise<void> => {
+    representation = new BasicRepresentation([], identifier, 'internal/quads');
+    await expect(store.getRepresentation(identifier, getRangePreferences({ start: 0 })))
+      .resolves.toBe(representation);
+  });
+
+  it('does not slice the representation if the If-Range value does not match.', async(): Promise<void> => {
+    updateModifiedDate(representation.metadata);
+    const preferences = { range: { unit: 'bytes', parts: [{ start: 0 }], ifRange: '"wrong"' }};
+    await expect(store.getRepresentation(identifier, preferences)).resolves.toBe(representation);
+  });
+
+  it('throws an error if the range can not be satisfied.', async(): Promise<void> => {
+    const result = store.getRepresentation(identifier, getRangePreferences({ start: 10 }));
+    await expect(result).rejects.toThrow(RangeNotSatisfiableHttpError);
+    await expect(result).rejects.toEqual(expect.objectContaining({ size: 10 }));
+  });
+
+  it('combines multiple ranges into a multipart representation.', async(): Promise<void> => {
+    source.getRepresentation.mockImplementation(async(): Promise<Representation> =>
+      new BasicRepresentation(data, identifier, 'text/plain'));
+    const result = await store.getRepresentation(identifier, getRangePreferences({ start: 0, end: 1 }, { start: -2 }));
+    expect(source.getRepresentation).toHaveBeenCalledTimes(2);
+    expect(source.getRepresentation)
+      .toHaveBeenNthCalledWith(1, identifier, getRangePreferences({ start: 0, end: 1 }), undefined);
+    expect(source.getRepresentation)
+      .toHaveBeenNthCalledWith(2, identifier, getRangePreferences({ start: -2 }), undefined);
+
+    expect(result.metadata.contentTypeObject?.toHeaderValueString()).toBe('multipart/byteranges; boundary=boundary');
+    expect(result.metadata.get(SOLID_HTTP.terms.unit)?.value).toBe('bytes');
+    expect(result.metadata.get(SOLID_HTTP.terms.start)).toBeUndefined();
+    expect(result.metadata.get(POSIX.terms.size)).toBeUndefined();
+    await expect(readableToString(result.data)).resolves.toBe([
+      '--boundary',
+      'Content-Type: text/plain',
+      'Content-Range: bytes 0-1/10',
+      '',
+      '01',
+      '--boundary',
+      'Content-Type: text/plain',
+      'Content-Range: bytes 8-9/10',
+      '',
+      '89',
+      '--boundary--',
+      '',
+    ].join('\r\n'));
+  });
+
+  it('does not add a Content-Type to the parts if it is unknown.', async(): Promise<void> => {
+    source.getRepresentation.mockImplementation(async(): Promise<Representation> =>
+      new BasicRepresentation(data, identifier, 'text/plain'));
+    const first = new BasicRepresentation('0', identifier);
+    addRangeMetadata(first.metadata, { start: 0, end: 0 }, 10);
+    source.getRepresentation.mockResolvedValueOnce(first);
+    const result = await store.getRepresentation(identifier, getRangePreferences({ start: 0, end: 0 }, { start: 9 }));
+    await expect(readableToString(result.data)).resolves.toContain('--boundary\r\nContent-Range: bytes 0-0/10');
+  });
+
+  it('leaves out the ranges that can not be satisfied.', async(): Promise<void> => {
+    source.getRepresentation.mockImplementation(async(): Promise<Representation> =>
+      new BasicRepresentation(data, identifier, 'text/plain'));
+    const result = await store.getRepresentation(identifier, getRangePreferences({ start: 20 }, { start: 5, end: 5 }));
+    expect(result.metadata.contentType).toBe('text/plain');
+    await expect(readableToString(result.data)).resolves.toBe('5');
+
+    await expect(store.getRepresentation(identifier, getRangePreferences({ start: 20 }, { start: 30 })))
+      .rejects.toThrow(RangeNotSatisfiableHttpError);
+  });
+
+  it('returns the full representation if the ranges do not apply to it.', async(): Promise<void> => {
+    const first = new BasicRepresentation('01', identifier, 'text/plain');
+    addRangeMetadata(first.metadata, { start: 0, end: 1 }, 10);
+    const destroy = jest.spyOn(first.data, 'destroy');
+    source.getRepresentation.mockResolvedValueOnce(first);
+    representation = new BasicRepresentation([], identifier, 'internal/quads');
+    await expect(store.getRepresentation(identifier, getRangePreferences({ start: 0, end: 1 }, { start: 2 })))
+      .resolves.toBe(representation);
+    expect(destroy).toHaveBeenCalledTimes(1);
+  });
+
+  it('closes all the streams in case of an error.', async(): Promise<void> => {
+    const first = new BasicRepresentation('01', identifier, 'text/plain');
+    addRangeMetadata(first.metadata, { start: 0, end: 1 }, 10);
+    const destroy = jest.spyOn(first.data, 'destroy');
+    source.getRepresentation.mockResolvedValueOnce(first);
+    source.getRepresentation.mockRejectedValueOnce(new Error('bad data'));
+    await expect(store.getRepresentation(identifier, getRangePreferences({ start: 0, end: 1 }, { start: 2 })))
+      .rejects.toThrow('bad data');
+    expect(destroy).toHaveBeenCalledTimes(1);
+  });
+});
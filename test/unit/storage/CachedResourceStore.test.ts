@@ -0,0 +1,209 @@
+import arrayifyStream from 'arrayify-stream';
+import { DataFactory } from 'n3';
+import { SuffixAuxiliaryIdentifierStrategy } from '../../../src/http/auxiliary/SuffixAuxiliaryIdentifierStrategy';
+import { BasicRepresentation } from '../../../src/http/representation/BasicRepresentation';
+import type { Representation } from '../../../src/http/representation/Representation';
+import type { ResourceIdentifier } from '../../../src/http/representation/ResourceIdentifier';
+import { CachedResourceStore } from '../../../src/storage/CachedResourceStore';
+import type { ChangeMap, ResourceStore } from '../../../src/storage/ResourceStore';
+import { NotFoundHttpError } from '../../../src/util/errors/NotFoundHttpError';
+import { SingleRootIdentifierStrategy } from '../../../src/util/identifiers/SingleRootIdentifierStrategy';
+import { IdentifierMap } from '../../../src/util/map/IdentifierMap';
+import { readableToString } from '../../../src/util/StreamUtil';
+import { RDF } from '../../../src/util/Vocabularies';
+const { namedNode, quad } = DataFactory;
+
+describe('A CachedResourceStore', (): void => {
+  const baseUrl = 'http://test.com/';
+  const container = { path: `${baseUrl}container/` };
+  const document = { path: `${container.path}document` };
+  const acl = { path: `${document.path}.acl` };
+  let resources: Record<string, string | undefined>;
+  let changes: ChangeMap;
+  let source: jest.Mocked<ResourceStore>;
+  let store: CachedResourceStore;
+
+  async function read(identifier: ResourceIdentifier, type = 'text/plain'): Promise<string> {
+    const representation = await store.getRepresentation(identifier, { type: { [type]: 1 }});
+    return readableToString(representation.data);
+  }
+
+  beforeEach(async(): Promise<void> => {
+    resources = {
+      [container.path]: 'container',
+      [document.path]: 'document',
+      [acl.path]: 'acl',
+    };
+    changes = new IdentifierMap();
+
+    source = {
+      getRepresentation: jest.fn(async(identifier: ResourceIdentifier): Promise<Representation> => {
+        const data = resources[identifier.path];
+        if (typeof data !== 'string') {
+          throw new NotFoundHttpError();
+        }
+        return new BasicRepresentation(data, identifier, 'text/plain');
+      }),
+      addResource: jest.fn(async(): Promise<ChangeMap> => changes),
+      deleteResource: jest.fn(async(): Promise<ChangeMap> => changes),
+      modifyResource: jest.fn(async(): Promise<ChangeMap> => changes),
+      setRepresentation: jest.fn(async(): Promise<ChangeMap> => changes),
+    } as any;
+
+    store = new CachedResourceStore(source,
+      new SingleRootIdentifierStrategy(baseUrl),
+      new SuffixAuxiliaryIdentifierStrategy('.acl'),
+      100,
+      20);
+  });
+
+  it('caches representations once their data has been read.', async(): Promise<void> => {
+    await expect(read(document)).resolves.toBe('document');
+    resources[document.path] = 'changed';
+    await expect(read(document)).resolves.toBe('document');
+    expect(source.getRepresentation).toHaveBeenCalledTimes(1);
+    expect(source.getRepresentation).toHaveBeenLastCalledWith(document, { type: { 'text/plain': 1 }}, undefined);
+  });
+
+  it('returns a copy of the cached metadata.', async(): Promise<void> => {
+    await read(document);
+    const result1 = await store.getRepresentation(document, { type: { 'text/plain': 1 }});
+    result1.metadata.add(RDF.terms.type, 'http://example.com/Type');
+    const result2 = await store.getRepresentation(document, { type: { 'text/plain': 1 }});
+    expect(result2.metadata.identifier.value).toBe(document.path);
+    expect(result2.metadata.contentType).toBe('text/plain');
+    expect(result2.metadata.has(RDF.terms.type)).toBe(false);
+    expect(result2.binary).toBe(true);
+    expect(result2.isEmpty).toBe(false);
+  });
+
+  it('does not cache representations of which the data was not read completely.', async(): Promise<void> => {
+    const result = await store.getRepresentation(document, {});
+    result.data.destroy();
+    await expect(read(document)).resolves.toBe('document');
+    expect(source.getRepresentation).toHaveBeenCalledTimes(2);
+  });
+
+  it('caches the representations for different preferences separately.', async(): Promise<void> => {
+    await read(document, 'text/plain');
+    await read(document, 'text/turtle');
+    await read(document, 'text/plain');
+    const preferences = { type: { 'text/plain': 1 }, return: { value: 'minimal', include: [], omit: []}};
+    await readableToString((await store.getRepresentation(document, preferences)).data);
+    const reordered = { return: preferences.return, type: preferences.type };
+    await readableToString((await store.getRepresentation(document, reordered)).data);
+    expect(source.getRepresentation).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not cache requests for byte ranges.', async(): Promise<void> => {
+    const preferences = { range: { unit: 'bytes', parts: [{ start: 0 }]}};
+    await readableToString((await store.getRepresentation(document, preferences)).data);
+    await readableToString((await store.getRepresentation(document, preferences)).data);
+    expect(source.getRepresentation).toHaveBeenCalledTimes(2);
+  });
+
+  it('can cache representations consisting of buffers.', async(): Promise<void> => {
+    store = new CachedResourceStore(source,
+      new SingleRootIdentifierStrategy(baseUrl),
+      new SuffixAuxiliaryIdentifierStrategy('.acl'));
+    source.getRepresentation.mockImplementation(async(): Promise<Representation> =>
+      new BasicRepresentation([ Buffer.from('data') ], document, 'text/plain', true));
+    await readableToString((await store.getRepresentation(document, {})).data);
+    await expect(readableToString((await store.getRepresentation(document, {})).data)).resolves.toBe('data');
+    expect(source.getRepresentation).toHaveBeenCalledTimes(1);
+  });
+
+  it('can cache representations consisting of quads.', async(): Promise<void> => {
+    const triple = quad(namedNode('ex:s'), namedNode('ex:p'), namedNode('ex:o'));
+    source.getRepresentation.mockImplementation(async(): Promise<Representation> =>
+      new BasicRepresentation([ triple ], document, 'internal/quads'));
+    await arrayifyStream((await store.getRepresentation(document, {})).data);
+    const result = await store.getRepresentation(document, {});
+    expect(result.binary).toBe(false);
+    await expect(arrayifyStream(result.data)).resolves.toEqual([ triple ]);
+    expect(source.getRepresentation).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not cache representations that are too large.', async(): Promise<void> => {
+    resources[document.path] = 'this document is too large';
+    await expect(read(document)).resolves.toBe('this document is too large');
+    await expect(read(document)).resolves.toBe('this document is too large');
+    expect(source.getRepresentation).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache representations of which the size can not be estimated.', async(): Promise<void> => {
+    source.getRepresentation.mockImplementation(async(): Promise<Representation> =>
+      new BasicRepresentation([{ some: 'object' }], document, 'internal/objects', false));
+    await arrayifyStream((await store.getRepresentation(document, {})).data);
+    await arrayifyStream((await store.getRepresentation(document, {})).data);
+    expect(source.getRepresentation).toHaveBeenCalledTimes(2);
+  });
+
+  it('removes the least recently used representations when the cache is full.', async(): Promise<void> => {
+    for (let i = 0; i < 6; ++i) {
+      resources[`${baseUrl}${i}`] = '0123456789abcdefghij';
+    }
+    await read({ path: `${baseUrl}0` });
+    await read({ path: `${baseUrl}1` });
+    await read({ path: `${baseUrl}2` });
+    await read({ path: `${baseUrl}3` });
+    await read({ path: `${baseUrl}4` });
+    // Makes 1 the least recently used entry
+    await read({ path: `${baseUrl}0` });
+    expect(source.getRepresentation).toHaveBeenCalledTimes(5);
+
+    await read({ path: `${baseUrl}5` });
+    await read({ path: `${baseUrl}0` });
+    expect(source.getRepresentation).toHaveBeenCalledTimes(6);
+    await read({ path: `${baseUrl}1` });
+    expect(source.getRepresentation).toHaveBeenCalledTimes(7);
+  });
+
+  it('removes the changed resources, their auxiliary resources and their parents.', async(): Promise<void> => {
+    resources[baseUrl] = 'root';
+    await read(container);
+    await read(document);
+    await read(acl);
+    await read({ path: baseUrl });
+    resources[container.path] = 'changed';
+    resources[document.path] = 'changed';
+    resources[acl.path] = 'changed';
+    resources[baseUrl] = 'changed';
+
+    changes.set(document, {} as any);
+    const representation = new BasicRepresentation();
+    await expect(store.setRepresentation(document, representation, 'conditions' as any)).resolves.toBe(changes);
+    expect(source.setRepresentation).toHaveBeenLastCalledWith(document, representation, 'conditions');
+
+    await expect(read(container)).resolves.toBe('changed');
+    await expect(read(document)).resolves.toBe('changed');
+    await expect(read(acl)).resolves.toBe('changed');
+    await expect(read({ path: baseUrl })).resolves.toBe('root');
+  });
+
+  it('removes the cached representations after every type of change.', async(): Promise<void> => {
+    resources[baseUrl] = 'root';
+    changes.set({ path: baseUrl }, {} as any);
+    const representation = new BasicRepresentation();
+
+    await read({ path: baseUrl });
+    await expect(store.addResource({ path: baseUrl }, representation)).resolves.toBe(changes);
+    expect(source.addResource).toHaveBeenLastCalledWith({ path: baseUrl }, representation, undefined);
+    await read({ path: baseUrl });
+    await expect(store.modifyResource({ path: baseUrl }, representation as any)).resolves.toBe(changes);
+    expect(source.modifyResource).toHaveBeenLastCalledWith({ path: baseUrl }, representation, undefined);
+    await read({ path: baseUrl });
+    await expect(store.deleteResource({ path: baseUrl })).resolves.toBe(changes);
+    expect(source.deleteResource).toHaveBeenLastCalledWith({ path: baseUrl }, undefined);
+    await read({ path: baseUrl });
+    expect(source.getRepresentation).toHaveBeenCalledTimes(4);
+  });
+
+  it('removes the target resource if a change fails.', async(): Promise<void> => {
+    await read(document);
+    resources[document.path] = 'changed';
+    source.deleteResource.mockRejectedValueOnce(new Error('bad data'));
+    await expect(store.deleteResource(document)).rejects.toThrow('bad data');
+    await expect(read(document)).resolves.toBe('changed');
+  });
+});
@@ -1,6 +1,6 @@
 import { RepresentationMetadata } from '../../../src/http/representation/RepresentationMetadata';
-import { getETag } from '../../../src/storage/Conditions';
-import { DC } from '../../../src/util/Vocabularies';
+import { getETag, isWeakETag, sameResourceState } from '../../../src/storage/Conditions';
+import { DC, SOLID_META } from '../../../src/util/Vocabularies';
 
 describe('Conditions', (): void => {
   describe('#getETag', (): void => {
@@ -13,5 +13,39 @@ describe('Conditions', (): void => {
     it('returns undefined if no date was found.', async(): Promise<void> => {
       expect(getETag(new RepresentationMetadata())).toBeUndefined();
     });
+
+    it('prefers the content digest over the date last modified.', async(): Promise<void> => {
+      const metadata = new RepresentationMetadata({
+        [DC.modified]: new Date().toISOString(),
+        [SOLID_META.contentDigest]: 'abc123',
+      });
+      expect(getETag(metadata)).toBe('"abc123"');
+    });
+
+    it('adds the content type to the ETag.', async(): Promise<void> => {
+      const metadata = new RepresentationMetadata('text/turtle');
+      metadata.add(SOLID_META.terms.contentDigest, 'abc123');
+      expect(getETag(metadata)).toBe('"abc123-text/turtle"');
+    });
+  });
+
+  describe('#isWeakETag', (): void => {
+    it('checks if the ETag is weak.', async(): Promise<void> => {
+      expect(isWeakETag('W/"abc123"')).toBe(true);
+      expect(isWeakETag('"abc123"')).toBe(false);
+    });
+  });
+
+  describe('#sameResourceState', (): void => {
+    it('ignores the content type and whether the ETags are weak.', async(): Promise<void> => {
+      expect(sameResourceState('"abc123-text/turtle"', 'W/"abc123-application/ld+json"')).toBe(true);
+      expect(sameResourceState('"abc123"', '"abc123-text/turtle"')).toBe(true);
+      expect(sameResourceState('"abc123-text/turtle"', '"def456-text/turtle"')).toBe(false);
+    });
+
+    it('never matches ETags without a state.', async(): Promise<void> => {
+      expect(sameResourceState('""', '""')).toBe(false);
+      expect(sameResourceState('"-text/turtle"', '"-text/turtle"')).toBe(false);
+    });
   });
 });
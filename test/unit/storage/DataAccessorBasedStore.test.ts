@@ -1,12 +1,15 @@
 import 'jest-rdf';
+import { createHash } from 'crypto';
 import type { Readable } from 'stream';
 import arrayifyStream from 'arrayify-stream';
 import { DataFactory, Store } from 'n3';
+import type { Quad } from 'rdf-js';
 import { CONTENT_TYPE_TERM } from '../../../src';
 import type { AuxiliaryStrategy } from '../../../src/http/auxiliary/AuxiliaryStrategy';
 import { BasicRepresentation } from '../../../src/http/representation/BasicRepresentation';
 import type { Representation } from '../../../src/http/representation/Representation';
 import { RepresentationMetadata } from '../../../src/http/representation/RepresentationMetadata';
+import type { PagePreference } from '../../../src/http/representation/RepresentationPreferences';
 import type { ResourceIdentifier } from '../../../src/http/representation/ResourceIdentifier';
 import type { DataAccessor } from '../../../src/storage/accessors/DataAccessor';
 import { BasicConditions } from '../../../src/storage/BasicConditions';
@@ -20,11 +23,26 @@ import { MethodNotAllowedHttpError } from '../../../src/util/errors/MethodNotAll
 import { NotFoundHttpError } from '../../../src/util/errors/NotFoundHttpError';
 import { NotImplementedHttpError } from '../../../src/util/errors/NotImplementedHttpError';
 import { PreconditionFailedHttpError } from '../../../src/util/errors/PreconditionFailedHttpError';
+import { RangeNotSatisfiableHttpError } from '../../../src/util/errors/RangeNotSatisfiableHttpError';
 import type { Guarded } from '../../../src/util/GuardedStream';
 import { SingleRootIdentifierStrategy } from '../../../src/util/identifiers/SingleRootIdentifierStrategy';
+import { selectPage } from '../../../src/util/PageUtil';
 import { trimTrailingSlashes } from '../../../src/util/PathUtil';
-import { guardedStreamFrom } from '../../../src/util/StreamUtil';
-import { CONTENT_TYPE, SOLID_HTTP, LDP, PIM, RDF, SOLID_META, DC, SOLID_AS, AS } from '../../../src/util/Vocabularies';
+import type { ByteRange } from '../../../src/util/RangeUtil';
+import { guardedStreamFrom, readableToString } from '../../../src/util/StreamUtil';
+import {
+  CONTENT_TYPE,
+  SOLID_HTTP,
+  LDP,
+  PIM,
+  POSIX,
+  RDF,
+  SOLID_META,
+  DC,
+  SOLID_AS,
+  AS,
+  XSD,
+} from '../../../src/util/Vocabularies';
 import { SimpleSuffixStrategy } from '../../util/SimpleSuffixStrategy';
 const { namedNode, quad, literal } = DataFactory;
 
@@ -51,8 +69,12 @@ class SimpleDataAccessor implements DataAccessor {
     delete this.data[identifier.path];
   }
 
-  public async getData(identifier: ResourceIdentifier): Promise<Guarded<Readable>> {
+  public async getData(identifier: ResourceIdentifier, range?: ByteRange): Promise<Guarded<Readable>> {
     this.checkExists(identifier);
+    if (range) {
+      return guardedStreamFrom([ (await readableToString(this.data[identifier.path].data))
+        .slice(range.start, range.end + 1) ]);
+    }
     return this.data[identifier.path].data;
   }
 
@@ -68,12 +90,18 @@ class SimpleDataAccessor implements DataAccessor {
     this.data[metadata.identifier.value].metadata = metadata;
   }
 
-  public async* getChildren(identifier: ResourceIdentifier): AsyncIterableIterator<RepresentationMetadata> {
+  public async* getChildren(identifier: ResourceIdentifier, page?: PagePreference):
+  AsyncIterableIterator<RepresentationMetadata> {
     // Find all keys that look like children of the container
-    const children = Object.keys(this.data).filter((name): boolean =>
+    let children = Object.keys(this.data).filter((name): boolean =>
       name.startsWith(identifier.path) &&
       name.length > identifier.path.length &&
       !trimTrailingSlashes(name.slice(identifier.path.length)).includes('/'));
+    if (page) {
+      // Changes the order to make sure the store does not rely on it
+      children = await selectPage(children, (name): string => name, page);
+      children.push(children.shift()!);
+    }
     yield* children.map((name): RepresentationMetadata => new RepresentationMetadata({ path: name }));
   }
 
@@ -181,6 +209,80 @@ describe('A DataAccessorBasedStore', (): void => {
       expect(contains[0].value).toBe(`${resourceID.path}resource`);
     });
 
+    it('does not read the children of a container if containment is omitted.', async(): Promise<void> => {
+      const resourceID = { path: `${root}container/` };
+      containerMetadata.identifier = namedNode(resourceID.path);
+      accessor.data[resourceID.path] = { metadata: containerMetadata } as Representation;
+      accessor.data[`${resourceID.path}resource`] = representation;
+      const getChildren = jest.spyOn(accessor, 'getChildren');
+
+      const preferences = { return: { value: 'representation', include: [], omit: [ LDP.PreferContainment ]}};
+      let result = await store.getRepresentation(resourceID, preferences);
+      expect(getChildren).toHaveBeenCalledTimes(0);
+      expect(result.metadata.getAll(LDP.terms.contains)).toHaveLength(0);
+      expect(result.metadata.get(SOLID_HTTP.terms.preferenceApplied)?.value).toBe('return=representation');
+      const quads = await arrayifyStream<Quad>(result.data);
+      expect(quads.some((entry): boolean => entry.predicate.equals(SOLID_HTTP.terms.preferenceApplied))).toBe(false);
+
+      result = await store.getRepresentation(resourceID,
+        { return: { value: 'representation', include: [ LDP.PreferMinimalContainer ], omit: []}});
+      expect(getChildren).toHaveBeenCalledTimes(0);
+      expect(result.metadata.getAll(LDP.terms.contains)).toHaveLength(0);
+    });
+
+    it('can return a single page of the children of a container.', async(): Promise<void> => {
+      const resourceID = { path: `${root}container/` };
+      containerMetadata.identifier = namedNode(resourceID.path);
+      accessor.data[resourceID.path] = { metadata: containerMetadata } as Representation;
+      for (const name of [ 'c', 'a', 'e', 'b', 'd' ]) {
+        accessor.data[`${resourceID.path}${name}`] = representation;
+      }
+      const getChildren = jest.spyOn(accessor, 'getChildren');
+
+      let result = await store.getRepresentation(resourceID, { page: { limit: 2 }});
+      expect(getChildren).toHaveBeenLastCalledWith(resourceID, { limit: 3 });
+      expect(result.metadata.getAll(LDP.terms.contains).map((term): string => term.value))
+        .toEqual([ `${resourceID.path}a`, `${resourceID.path}b` ]);
+      expect(result.metadata.has(RDF.terms.type, LDP.terms.Page)).toBe(true);
+      expect(result.metadata.get(SOLID_HTTP.terms.next)?.value)
+        .toBe(`${resourceID.path}?limit=2&after=${encodeURIComponent(`${resourceID.path}b`)}`);
+      const quads = await arrayifyStream<Quad>(result.data);
+      expect(quads.some((entry): boolean => entry.object.equals(LDP.terms.Page))).toBe(false);
+
+      result = await store.getRepresentation(resourceID, { page: { limit: 3, after: `${resourceID.path}b` }});
+      expect(result.metadata.getAll(LDP.terms.contains).map((term): string => term.value))
+        .toEqual([ `${resourceID.path}c`, `${resourceID.path}d`, `${resourceID.path}e` ]);
+      expect(result.metadata.has(RDF.terms.type, LDP.terms.Page)).toBe(true);
+      expect(result.metadata.get(SOLID_HTTP.terms.next)).toBeUndefined();
+    });
+
+    it('ignores the page if the containment triples are omitted.', async(): Promise<void> => {
+      const resourceID = { path: `${root}container/` };
+      containerMetadata.identifier = namedNode(resourceID.path);
+      accessor.data[resourceID.path] = { metadata: containerMetadata } as Representation;
+      const result = await store.getRepresentation(resourceID, {
+        page: { limit: 2 },
+        return: { value: 'representation', include: [], omit: [ LDP.PreferContainment ]},
+      });
+      expect(result.metadata.has(RDF.terms.type, LDP.terms.Page)).toBe(false);
+    });
+
+    it('includes containment triples if they are explicitly requested.', async(): Promise<void> => {
+      const resourceID = { path: `${root}container/` };
+      containerMetadata.identifier = namedNode(resourceID.path);
+      accessor.data[resourceID.path] = { metadata: containerMetadata } as Representation;
+      accessor.data[`${resourceID.path}resource`] = representation;
+
+      const include = [ LDP.PreferMinimalContainer, LDP.PreferContainment ];
+      let result = await store.getRepresentation(resourceID, { return: { value: 'representation', include, omit: []}});
+      expect(result.metadata.getAll(LDP.terms.contains)).toHaveLength(1);
+
+      result = await store.getRepresentation(resourceID,
+        { return: { value: 'minimal', include: [], omit: [ LDP.PreferContainment ]}});
+      expect(result.metadata.getAll(LDP.terms.contains)).toHaveLength(1);
+      expect(result.metadata.get(SOLID_HTTP.terms.preferenceApplied)).toBeUndefined();
+    });
+
     it('will return the stored representation for metadata resources.', async(): Promise<void> => {
       const resourceID = { path: `${root}resource` };
       const metaResourceID = { path: `${root}resource.meta` };
@@ -216,6 +318,52 @@ describe('A DataAccessorBasedStore', (): void => {
       );
       expect(result.metadata.contentType).toBe(INTERNAL_QUADS);
     });
+
+    it('only reads the requested range of documents with a known size.', async(): Promise<void> => {
+      const resourceID = { path: `${root}resource` };
+      representation.metadata.add(POSIX.terms.size, literal(4, XSD.terms.integer), SOLID_META.terms.ResponseMetadata);
+      accessor.data[resourceID.path] = representation;
+      const getData = jest.spyOn(accessor, 'getData');
+      const result = await store.getRepresentation(resourceID, { range: { unit: 'bytes', parts: [{ start: 1 }]}});
+      expect(getData).toHaveBeenLastCalledWith(resourceID, { start: 1, end: 3 });
+      expect(result.metadata.get(SOLID_HTTP.terms.unit)?.value).toBe('bytes');
+      expect(result.metadata.get(SOLID_HTTP.terms.start)?.value).toBe('1');
+      expect(result.metadata.get(SOLID_HTTP.terms.end)?.value).toBe('3');
+    });
+
+    it('reads the full document if the range can not be handled here.', async(): Promise<void> => {
+      const resourceID = { path: `${root}resource` };
+      accessor.data[resourceID.path] = representation;
+      const getData = jest.spyOn(accessor, 'getData');
+      const range = { unit: 'bytes', parts: [{ start: 1 }]};
+
+      // Unknown size
+      await store.getRepresentation(resourceID, { range });
+      expect(getData).toHaveBeenLastCalledWith(resourceID, undefined);
+
+      representation.metadata.add(POSIX.terms.size, literal(4, XSD.terms.integer), SOLID_META.terms.ResponseMetadata);
+      representation.metadata.add(DC.terms.modified, literal(now.toISOString(), XSD.terms.dateTime));
+      await store.getRepresentation(resourceID, { range: { unit: 'bytes', parts: [{ start: 1 }, { start: 2 }]}});
+      expect(getData).toHaveBeenLastCalledWith(resourceID, undefined);
+      await store.getRepresentation(resourceID, { range: { ...range, ifRange: '"wrong"' }});
+      expect(getData).toHaveBeenLastCalledWith(resourceID, undefined);
+      await store.getRepresentation(resourceID, { range, type: { 'text/turtle': 1, 'text/plain': 0.5 }});
+      expect(getData).toHaveBeenLastCalledWith(resourceID, undefined);
+      const result = await store.getRepresentation(resourceID, { range: { ...range, unit: 'lines' }});
+      expect(getData).toHaveBeenLastCalledWith(resourceID, undefined);
+      expect(result.metadata.get(SOLID_HTTP.terms.unit)).toBeUndefined();
+
+      await store.getRepresentation(resourceID, { range, type: { 'text/plain': 1 }});
+      expect(getData).toHaveBeenLastCalledWith(resourceID, { start: 1, end: 3 });
+    });
+
+    it('throws an error if the requested range does not overlap with the document.', async(): Promise<void> => {
+      const resourceID = { path: `${root}resource` };
+      representation.metadata.add(POSIX.terms.size, literal(4, XSD.terms.integer), SOLID_META.terms.ResponseMetadata);
+      accessor.data[resourceID.path] = representation;
+      await expect(store.getRepresentation(resourceID, { range: { unit: 'bytes', parts: [{ start: 4 }]}}))
+        .rejects.toThrow(RangeNotSatisfiableHttpError);
+    });
   });
 
   describe('adding a Resource', (): void => {
@@ -520,6 +668,43 @@ describe('A DataAccessorBasedStore', (): void => {
       expect(accessor.data[resourceID.path].metadata.get(namedNode('gen'))).toBeUndefined();
     });
 
+    it('stores the digest of the data once it has been written.', async(): Promise<void> => {
+      const resourceID = { path: `${root}resource` };
+      const writeDocument = accessor.writeDocument.bind(accessor);
+      jest.spyOn(accessor, 'writeDocument').mockImplementation(async(id, data, metadata): Promise<void> =>
+        writeDocument(id, guardedStreamFrom([ await readableToString(data) ]), metadata));
+      representation.metadata.add(SOLID_META.terms.contentDigest, 'fake');
+      await store.setRepresentation(resourceID, representation);
+      await expect(arrayifyStream(accessor.data[resourceID.path].data)).resolves.toEqual([ resourceData ]);
+      expect(accessor.data[resourceID.path].metadata.getAll(SOLID_META.terms.contentDigest)).toEqual([
+        literal(createHash('sha256').update(resourceData).digest('hex')),
+      ]);
+      expect(accessor.data[resourceID.path].metadata.get(GENERATED_PREDICATE)).toBeUndefined();
+    });
+
+    it('does not store a digest if the data was not read or is not binary.', async(): Promise<void> => {
+      const resourceID = { path: `${root}resource` };
+      representation.metadata.add(SOLID_META.terms.contentDigest, 'fake');
+      await store.setRepresentation(resourceID, representation);
+      expect(accessor.data[resourceID.path].metadata.get(SOLID_META.terms.contentDigest)).toBeUndefined();
+
+      const writeDocument = accessor.writeDocument.bind(accessor);
+      jest.spyOn(accessor, 'writeDocument').mockImplementationOnce(async(id, data, metadata): Promise<void> =>
+        writeDocument(id, guardedStreamFrom(await arrayifyStream(data)), metadata));
+      representation = new BasicRepresentation(guardedStreamFrom([ 'a', 1, Buffer.from('b') ]), 'text/plain');
+      await store.setRepresentation(resourceID, representation);
+      await expect(arrayifyStream(accessor.data[resourceID.path].data)).resolves
+        .toEqual([ 'a', 1, Buffer.from('b') ]);
+      expect(accessor.data[resourceID.path].metadata.get(SOLID_META.terms.contentDigest)).toBeUndefined();
+
+      jest.spyOn(accessor, 'canHandle').mockResolvedValue();
+      const quads = [ quad(namedNode('s'), namedNode('p'), namedNode('o')) ];
+      representation = new BasicRepresentation(quads, INTERNAL_QUADS);
+      await store.setRepresentation(resourceID, representation);
+      await expect(arrayifyStream(accessor.data[resourceID.path].data)).resolves.toHaveLength(1);
+      expect(accessor.data[resourceID.path].metadata.get(SOLID_META.terms.contentDigest)).toBeUndefined();
+    });
+
     it('can write resources even if root does not exist.', async(): Promise<void> => {
       // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
       delete accessor.data[root];
@@ -610,6 +795,24 @@ describe('A DataAccessorBasedStore', (): void => {
       expect(accessor.data[resourceID.path].metadata.quads()).toBeRdfIsomorphic(quads);
     });
 
+    it('keeps the digest of the resource when writing to a metadata resource.', async(): Promise<void> => {
+      const resourceID = { path: `${root}resource` };
+      const metaResourceID = { path: `${root}resource.meta` };
+
+      representation.metadata.add(SOLID_META.terms.contentDigest, 'digest');
+      accessor.data[resourceID.path] = representation;
+      const metaRepresentation = new BasicRepresentation([
+        quad(namedNode(resourceID.path), namedNode(DC.description), literal('something')),
+        quad(namedNode(resourceID.path), SOLID_META.terms.contentDigest, literal('fake')),
+      ], resourceID);
+
+      await store.setRepresentation(metaResourceID, metaRepresentation);
+      expect(accessor.data[resourceID.path].metadata.quads()).toBeRdfIsomorphic([
+        quad(namedNode(resourceID.path), namedNode(DC.description), literal('something')),
+        quad(namedNode(resourceID.path), SOLID_META.terms.contentDigest, literal('digest')),
+      ]);
+    });
+
     it('can not write metadata when the corresponding resource does not exist.', async(): Promise<void> => {
       const metaResourceID = { path: `${root}resource.meta` };
       await expect(store.setRepresentation(metaResourceID, representation)).rejects.toThrow(ConflictHttpError);
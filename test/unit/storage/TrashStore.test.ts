@@ -0,0 +1,226 @@
+import { v4 } from 'uuid';
+import { ComposedAuxiliaryStrategy } from '../../../src/http/auxiliary/ComposedAuxiliaryStrategy';
+import { RoutingAuxiliaryStrategy } from '../../../src/http/auxiliary/RoutingAuxiliaryStrategy';
+import { SuffixAuxiliaryIdentifierStrategy } from '../../../src/http/auxiliary/SuffixAuxiliaryIdentifierStrategy';
+import { BasicRepresentation } from '../../../src/http/representation/BasicRepresentation';
+import type { Representation } from '../../../src/http/representation/Representation';
+import { RepresentationMetadata } from '../../../src/http/representation/RepresentationMetadata';
+import type { ResourceIdentifier } from '../../../src/http/representation/ResourceIdentifier';
+import type { ExpiringStorage } from '../../../src/storage/keyvalue/ExpiringStorage';
+import type { ResourceStore } from '../../../src/storage/ResourceStore';
+import type { TrashEntry } from '../../../src/storage/TrashStore';
+import { TrashStore } from '../../../src/storage/TrashStore';
+import { InternalServerError } from '../../../src/util/errors/InternalServerError';
+import { NotFoundHttpError } from '../../../src/util/errors/NotFoundHttpError';
+import { SingleRootIdentifierStrategy } from '../../../src/util/identifiers/SingleRootIdentifierStrategy';
+import { deserializeRepresentation } from '../../../src/util/ResourceUtil';
+import { readableToString } from '../../../src/util/StreamUtil';
+import { LDP, PIM, RDF } from '../../../src/util/Vocabularies';
+
+const { namedNode } = jest.requireActual('n3').DataFactory;
+
+jest.mock('uuid');
+
+describe('A TrashStore', (): void => {
+  const baseUrl = 'http://test.com/';
+  const pod = `${baseUrl}alice/`;
+  const identifier = { path: `${pod}foo` };
+  const now = Date.parse('2022-01-01T00:00:00.000Z');
+  // Contains the data and content type of every resource in the source store, containers have no data
+  let resources: Map<string, { data?: string; contentType?: string }>;
+  let source: jest.Mocked<ResourceStore>;
+  let storage: jest.Mocked<ExpiringStorage<string, TrashEntry>>;
+  const metadataStrategy = new ComposedAuxiliaryStrategy(new SuffixAuxiliaryIdentifierStrategy('.meta'));
+  const auxiliaryStrategy = new RoutingAuxiliaryStrategy([
+    new ComposedAuxiliaryStrategy(new SuffixAuxiliaryIdentifierStrategy('.acl')),
+    metadataStrategy,
+  ]);
+  let store: TrashStore;
+
+  function getRepresentation({ path }: ResourceIdentifier): Representation {
+    const resource = resources.get(path);
+    if (!resource) {
+      throw new NotFoundHttpError();
+    }
+    const metadata = new RepresentationMetadata({ path }, resource.contentType);
+    if (path === pod) {
+      metadata.add(RDF.terms.type, PIM.terms.Storage);
+    }
+    if (!resource.data) {
+      // Container metadata also contains the metadata of their children
+      metadata.add(RDF.terms.type, LDP.terms.Container);
+      metadata.addQuad(identifier.path, RDF.terms.type, LDP.terms.Resource);
+      return new BasicRepresentation([], metadata, false);
+    }
+    return new BasicRepresentation(resource.data, metadata);
+  }
+
+  beforeEach(async(): Promise<void> => {
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    (v4 as jest.Mock).mockReturnValue('uuid');
+
+    resources = new Map([
+      [ baseUrl, {}],
+      [ pod, {}],
+      [ `${pod}container/`, {}],
+      [ identifier.path, { data: 'data', contentType: 'text/plain' }],
+      [ `${identifier.path}.acl`, { data: 'acl', contentType: 'text/turtle' }],
+      [ `${baseUrl}.internal/data`, { data: 'internal', contentType: 'application/json' }],
+      [ `${baseUrl}outside`, { data: 'outside', contentType: 'text/plain' }],
+    ]);
+
+    source = {
+      getRepresentation: jest.fn(async(id: ResourceIdentifier): Promise<Representation> => getRepresentation(id)),
+      deleteResource: jest.fn(async(id: ResourceIdentifier): Promise<any> => {
+        resources.delete(id.path);
+        return 'delete';
+      }),
+    } as any;
+
+    storage = {
+      set: jest.fn(),
+    } as any;
+
+    store = new TrashStore(source, {
+      storage,
+      identifierStrategy: new SingleRootIdentifierStrategy(baseUrl),
+      auxiliaryStrategy,
+      metadataStrategy,
+      baseUrl,
+      ignoredPaths: [ '^/\\.internal/' ],
+    });
+  });
+
+  afterEach(async(): Promise<void> => {
+    jest.restoreAllMocks();
+  });
+
+  it('moves deleted documents and their auxiliary resources to the trash.', async(): Promise<void> => {
+    await expect(store.deleteResource(identifier)).resolves.toBe('delete');
+    expect(source.deleteResource).toHaveBeenCalledTimes(1);
+    expect(source.deleteResource).toHaveBeenLastCalledWith(identifier, undefined);
+    expect(storage.set).toHaveBeenCalledTimes(1);
+    expect(storage.set).toHaveBeenLastCalledWith('uuid', expect.objectContaining({
+      id: 'uuid',
+      storage: pod,
+      path: identifier.path,
+      deleted: now,
+    }), 30 * 24 * 60 * 60 * 1000);
+
+    const entry = storage.set.mock.calls[0][1];
+    expect(entry.resources.map((resource): string => resource.path))
+      .toEqual([ identifier.path, `${identifier.path}.acl` ]);
+    const representation = deserializeRepresentation(identifier, entry.resources[0]);
+    expect(representation.metadata.contentType).toBe('text/plain');
+    await expect(readableToString(representation.data)).resolves.toBe('data');
+  });
+
+  it('only stores the metadata of the container itself.', async(): Promise<void> => {
+    const container = { path: `${pod}container/` };
+    await expect(store.deleteResource(container)).resolves.toBe('delete');
+    expect(storage.set).toHaveBeenCalledTimes(1);
+
+    const entry = storage.set.mock.calls[0][1];
+    expect(entry.resources).toHaveLength(1);
+    const representation = deserializeRepresentation(container, entry.resources[0]);
+    expect(representation.metadata.contentType).toBeUndefined();
+    expect(representation.metadata.has(RDF.terms.type, LDP.terms.Container)).toBe(true);
+    expect(representation.metadata.quads(namedNode(identifier.path))).toHaveLength(0);
+    await expect(readableToString(representation.data)).resolves.toBe('');
+  });
+
+  it('does not store the auxiliary resources of auxiliary resources.', async(): Promise<void> => {
+    const acl = { path: `${identifier.path}.acl` };
+    await expect(store.deleteResource(acl)).resolves.toBe('delete');
+    expect(storage.set).toHaveBeenCalledTimes(1);
+    expect(storage.set.mock.calls[0][1].resources).toHaveLength(1);
+  });
+
+  it('ignores errors when reading auxiliary resources.', async(): Promise<void> => {
+    source.getRepresentation.mockImplementation(async(id): Promise<Representation> => {
+      if (id.path.endsWith('.acl')) {
+        throw new InternalServerError('bad data');
+      }
+      return getRepresentation(id);
+    });
+    await expect(store.deleteResource(identifier)).resolves.toBe('delete');
+    expect(storage.set).toHaveBeenCalledTimes(1);
+    expect(storage.set.mock.calls[0][1].resources).toHaveLength(1);
+  });
+
+  it('uses the configured retention period.', async(): Promise<void> => {
+    store = new TrashStore(source, {
+      storage,
+      identifierStrategy: new SingleRootIdentifierStrategy(baseUrl),
+      auxiliaryStrategy,
+      metadataStrategy,
+      baseUrl,
+      retention: 60,
+    });
+    await expect(store.deleteResource(identifier)).resolves.toBe('delete');
+    expect(storage.set).toHaveBeenLastCalledWith('uuid', expect.anything(), 60000);
+  });
+
+  it('does not store resources matching the ignored paths.', async(): Promise<void> => {
+    await expect(store.deleteResource({ path: `${baseUrl}.internal/data` })).resolves.toBe('delete');
+    expect(source.deleteResource).toHaveBeenCalledTimes(1);
+    expect(storage.set).toHaveBeenCalledTimes(0);
+  });
+
+  it('only applies the ignored paths to resources in the base URL.', async(): Promise<void> => {
+    const path = 'http://other.com/.internal/data';
+    resources.set('http://other.com/', {});
+    resources.set(path, { data: 'data', contentType: 'text/plain' });
+    store = new TrashStore(source, {
+      storage,
+      identifierStrategy: new SingleRootIdentifierStrategy('http://other.com/'),
+      auxiliaryStrategy,
+      metadataStrategy,
+      baseUrl,
+      ignoredPaths: [ '^/\\.internal/' ],
+    });
+    await expect(store.deleteResource({ path })).resolves.toBe('delete');
+    // There is no storage, but the resource is not ignored
+    expect(source.getRepresentation).toHaveBeenCalledWith({ path }, {});
+    expect(storage.set).toHaveBeenCalledTimes(0);
+  });
+
+  it('does not store resources that are not in a storage.', async(): Promise<void> => {
+    await expect(store.deleteResource({ path: `${baseUrl}outside` })).resolves.toBe('delete');
+    expect(source.deleteResource).toHaveBeenCalledTimes(1);
+    expect(storage.set).toHaveBeenCalledTimes(0);
+  });
+
+  it('finds storages if intermediate containers do not exist.', async(): Promise<void> => {
+    const path = `${pod}missing/foo`;
+    resources.set(path, { data: 'data', contentType: 'text/plain' });
+    await expect(store.deleteResource({ path })).resolves.toBe('delete');
+    expect(storage.set).toHaveBeenCalledTimes(1);
+    expect(storage.set.mock.calls[0][1].storage).toBe(pod);
+  });
+
+  it('does not store anything if the resource does not exist.', async(): Promise<void> => {
+    source.deleteResource.mockRejectedValueOnce(new NotFoundHttpError());
+    await expect(store.deleteResource({ path: `${pod}unknown` })).rejects.toThrow(NotFoundHttpError);
+    expect(storage.set).toHaveBeenCalledTimes(0);
+  });
+
+  it('does not store anything if the deletion fails.', async(): Promise<void> => {
+    source.deleteResource.mockRejectedValueOnce(new Error('bad data'));
+    await expect(store.deleteResource(identifier)).rejects.toThrow('bad data');
+    expect(storage.set).toHaveBeenCalledTimes(0);
+  });
+
+  it('does not delete anything if the resource can not be read.', async(): Promise<void> => {
+    source.getRepresentation.mockRejectedValueOnce(new InternalServerError('bad data'));
+    await expect(store.deleteResource(identifier)).rejects.toThrow('bad data');
+    expect(source.deleteResource).toHaveBeenCalledTimes(0);
+  });
+
+  it('does not delete anything if the storage root can not be determined.', async(): Promise<void> => {
+    source.getRepresentation.mockImplementationOnce(async(id): Promise<Representation> => getRepresentation(id));
+    source.getRepresentation.mockRejectedValueOnce(new InternalServerError('bad data'));
+    await expect(store.deleteResource(identifier)).rejects.toThrow('bad data');
+    expect(source.deleteResource).toHaveBeenCalledTimes(0);
+  });
+});
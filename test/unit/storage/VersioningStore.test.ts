@@ -0,0 +1,326 @@
+import { SuffixAuxiliaryIdentifierStrategy } from '../../../src/http/auxiliary/SuffixAuxiliaryIdentifierStrategy';
+import { BasicRepresentation } from '../../../src/http/representation/BasicRepresentation';
+import type { Patch } from '../../../src/http/representation/Patch';
+import type { Representation } from '../../../src/http/representation/Representation';
+import { RepresentationMetadata } from '../../../src/http/representation/RepresentationMetadata';
+import type { RepresentationPreferences } from '../../../src/http/representation/RepresentationPreferences';
+import type { ResourceIdentifier } from '../../../src/http/representation/ResourceIdentifier';
+import type { Conditions } from '../../../src/storage/Conditions';
+import type { KeyValueStorage } from '../../../src/storage/keyvalue/KeyValueStorage';
+import { MemoryMapStorage } from '../../../src/storage/keyvalue/MemoryMapStorage';
+import type { ResourceStore } from '../../../src/storage/ResourceStore';
+import type { ResourceVersion } from '../../../src/storage/VersioningStore';
+import { VersioningStore } from '../../../src/storage/VersioningStore';
+import { BadRequestHttpError } from '../../../src/util/errors/BadRequestHttpError';
+import { MethodNotAllowedHttpError } from '../../../src/util/errors/MethodNotAllowedHttpError';
+import { NotFoundHttpError } from '../../../src/util/errors/NotFoundHttpError';
+import { readableToString } from '../../../src/util/StreamUtil';
+import { DC, MEMENTO, POSIX, RDF, SOLID_META } from '../../../src/util/Vocabularies';
+
+const { namedNode, quad } = jest.requireActual('n3').DataFactory;
+
+function atTime(datetime: string): RepresentationPreferences {
+  return { datetime: { [datetime]: 1 }};
+}
+
+describe('A VersioningStore', (): void => {
+  const root = 'http://test.com/';
+  const identifier = { path: `${root}foo` };
+  const timeMap = { path: `${root}foo.timemap` };
+  const conditions: Conditions = { matchesMetadata: jest.fn(), matches: jest.fn() };
+  let now: number;
+  // Contains the data, content type and modification time of every resource in the source store
+  let resources: Map<string, { data: string | any[]; contentType: string; modified: number }>;
+  let source: jest.Mocked<ResourceStore>;
+  let storage: KeyValueStorage<string, ResourceVersion[]>;
+  let store: VersioningStore;
+
+  function getRepresentation({ path }: ResourceIdentifier): Representation {
+    const resource = resources.get(path);
+    if (!resource) {
+      throw new NotFoundHttpError();
+    }
+    const metadata = new RepresentationMetadata({ path }, resource.contentType);
+    metadata.add(DC.terms.modified, new Date(resource.modified).toISOString());
+    metadata.add(POSIX.terms.size, '123', SOLID_META.terms.ResponseMetadata);
+    return new BasicRepresentation(resource.data, metadata, typeof resource.data === 'string');
+  }
+
+  async function write(data: string, contentType = 'text/plain'): Promise<void> {
+    await store.setRepresentation(identifier, new BasicRepresentation(data, contentType));
+  }
+
+  beforeEach(async(): Promise<void> => {
+    now = Date.parse('2022-01-01T00:00:00.000Z');
+    jest.spyOn(Date, 'now').mockImplementation((): number => now);
+
+    resources = new Map([
+      [ `${root}container/`, { data: 'container', contentType: 'text/turtle', modified: now }],
+    ]);
+
+    source = {
+      hasResource: jest.fn(async(id: ResourceIdentifier): Promise<boolean> => resources.has(id.path)),
+      getRepresentation: jest.fn(async(id: ResourceIdentifier): Promise<Representation> => getRepresentation(id)),
+      setRepresentation: jest.fn(async(id: ResourceIdentifier, representation: Representation): Promise<any> => {
+        // Add some milliseconds to make sure these get ignored
+        const modified = now + 123;
+        resources.set(id.path, {
+          data: await readableToString(representation.data),
+          contentType: representation.metadata.contentType!,
+          modified,
+        });
+        return 'set';
+      }),
+      modifyResource: jest.fn(async(id: ResourceIdentifier): Promise<any> => {
+        resources.set(id.path, { data: 'modified', contentType: 'text/plain', modified: now });
+        return 'modify';
+      }),
+      deleteResource: jest.fn(async(id: ResourceIdentifier): Promise<any> => {
+        resources.delete(id.path);
+        return 'delete';
+      }),
+    } as any;
+
+    storage = new MemoryMapStorage();
+
+    store = new VersioningStore(source, storage, new SuffixAuxiliaryIdentifierStrategy('.timemap'));
+  });
+
+  afterEach(async(): Promise<void> => {
+    jest.restoreAllMocks();
+  });
+
+  it('does not store versions of new resources.', async(): Promise<void> => {
+    await write('first');
+    expect(source.setRepresentation).toHaveBeenCalledTimes(1);
+    await expect(storage.has(identifier.path)).resolves.toBe(false);
+  });
+
+  it('stores the previous version when a resource is replaced.', async(): Promise<void> => {
+    await write('first');
+    now += 5000;
+    await expect(store.setRepresentation(identifier, new BasicRepresentation('second', 'text/plain'), conditions))
+      .resolves.toBe('set');
+    expect(source.setRepresentation).toHaveBeenLastCalledWith(identifier, expect.any(Object), conditions);
+
+    const versions = await storage.get(identifier.path);
+    expect(versions).toHaveLength(1);
+    expect(versions![0]).toEqual({
+      datetime: Date.parse('2022-01-01T00:00:00.000Z'),
+      archived: now,
+      contentType: 'text/plain',
+      data: Buffer.from('first').toString('base64'),
+      metadata: expect.any(String),
+    });
+    // Metadata generated on the fly is not stored
+    expect(versions![0].metadata).not.toContain(POSIX.size);
+  });
+
+  it('stores the previous version when a resource is modified.', async(): Promise<void> => {
+    await write('first');
+    await expect(store.modifyResource(identifier, {} as Patch, conditions)).resolves.toBe('modify');
+    expect(source.modifyResource).toHaveBeenLastCalledWith(identifier, {}, conditions);
+    await expect(storage.get(identifier.path)).resolves.toHaveLength(1);
+  });
+
+  it('does not store a version if the modification failed.', async(): Promise<void> => {
+    await write('first');
+    source.modifyResource.mockRejectedValueOnce(new BadRequestHttpError());
+    await expect(store.modifyResource(identifier, {} as Patch)).rejects.toThrow(BadRequestHttpError);
+    await expect(storage.has(identifier.path)).resolves.toBe(false);
+  });
+
+  it('stores the previous version when a resource is deleted.', async(): Promise<void> => {
+    await write('first');
+    await expect(store.deleteResource(identifier, conditions)).resolves.toBe('delete');
+    expect(source.deleteResource).toHaveBeenLastCalledWith(identifier, conditions);
+    await expect(storage.get(identifier.path)).resolves.toHaveLength(1);
+  });
+
+  it('does not store versions of containers.', async(): Promise<void> => {
+    await store.deleteResource({ path: `${root}container/` });
+    await expect(storage.has(`${root}container/`)).resolves.toBe(false);
+  });
+
+  it('serializes quad streams to Turtle.', async(): Promise<void> => {
+    resources.set(identifier.path, {
+      data: [ quad(namedNode(`${root}s`), namedNode(`${root}p`), namedNode(`${root}o`)) ],
+      contentType: 'internal/quads',
+      modified: now,
+    });
+    await write('second');
+    const [ version ] = (await storage.get(identifier.path))!;
+    expect(version.contentType).toBe('text/turtle');
+    expect(Buffer.from(version.data, 'base64').toString()).toContain(`<${root}s> <${root}p> <${root}o>`);
+  });
+
+  it('throws an error if the resource could not be read.', async(): Promise<void> => {
+    source.getRepresentation.mockRejectedValueOnce(new BadRequestHttpError());
+    await expect(write('first')).rejects.toThrow(BadRequestHttpError);
+    expect(source.setRepresentation).toHaveBeenCalledTimes(0);
+  });
+
+  it('limits the number of versions that are kept.', async(): Promise<void> => {
+    store = new VersioningStore(source, storage, new SuffixAuxiliaryIdentifierStrategy('.timemap'), 2);
+    for (const data of [ 'first', 'second', 'third', 'fourth' ]) {
+      await write(data);
+      now += 1000;
+    }
+    const versions = await storage.get(identifier.path);
+    expect(versions!.map((version): string => Buffer.from(version.data, 'base64').toString()))
+      .toEqual([ 'second', 'third' ]);
+  });
+
+  it('removes versions that were archived too long ago.', async(): Promise<void> => {
+    store = new VersioningStore(source, storage, new SuffixAuxiliaryIdentifierStrategy('.timemap'), 10, 60);
+    await write('first');
+    await write('second');
+    now += 30000;
+    await write('third');
+    now += 40000;
+    await write('fourth');
+    const versions = await storage.get(identifier.path);
+    expect(versions!.map((version): string => Buffer.from(version.data, 'base64').toString()))
+      .toEqual([ 'second', 'third' ]);
+  });
+
+  it('rejects modifications to TimeMaps.', async(): Promise<void> => {
+    await expect(store.setRepresentation(timeMap, new BasicRepresentation()))
+      .rejects.toThrow(MethodNotAllowedHttpError);
+    await expect(store.modifyResource(timeMap, {} as Patch)).rejects.toThrow(MethodNotAllowedHttpError);
+    await expect(store.deleteResource(timeMap)).rejects.toThrow(MethodNotAllowedHttpError);
+  });
+
+  it('knows a TimeMap exists if the resource exists or it has versions.', async(): Promise<void> => {
+    await expect(store.hasResource(timeMap)).resolves.toBe(false);
+    await write('first');
+    await expect(store.hasResource(identifier)).resolves.toBe(true);
+    await expect(store.hasResource(timeMap)).resolves.toBe(true);
+    await store.deleteResource(identifier);
+    await expect(store.hasResource(identifier)).resolves.toBe(false);
+    await expect(store.hasResource(timeMap)).resolves.toBe(true);
+  });
+
+  it('generates TimeMaps listing all versions.', async(): Promise<void> => {
+    await write('first');
+    now += 60000;
+    await write('second');
+
+    const result = await store.getRepresentation(timeMap, {});
+    expect(result.metadata.contentType).toBe('application/link-format');
+    await expect(readableToString(result.data)).resolves.toBe([
+      `<${identifier.path}>; rel="original timegate"`,
+      `<${timeMap.path}>; rel="self"; type="application/link-format"`,
+      `<${identifier.path}>; rel="memento"; datetime="Sat, 01 Jan 2022 00:00:00 GMT"`,
+      `<${identifier.path}>; rel="memento"; datetime="Sat, 01 Jan 2022 00:01:00 GMT"`,
+    ].join(',\n'));
+  });
+
+  it('only lists previous versions in the TimeMap of deleted resources.', async(): Promise<void> => {
+    await write('first');
+    await store.deleteResource(identifier);
+    const result = await store.getRepresentation(timeMap, {});
+    await expect(readableToString(result.data)).resolves.toContain(
+      `<${identifier.path}>; rel="memento"; datetime="Sat, 01 Jan 2022 00:00:00 GMT"`,
+    );
+  });
+
+  it('does not list mementos in the TimeMap of containers.', async(): Promise<void> => {
+    const result = await store.getRepresentation({ path: `${root}container/.timemap` }, {});
+    await expect(readableToString(result.data)).resolves.not.toContain('rel="memento"');
+  });
+
+  it('throws an error when requesting the TimeMap of an unknown resource.', async(): Promise<void> => {
+    await expect(store.getRepresentation(timeMap, {})).rejects.toThrow(NotFoundHttpError);
+  });
+
+  it('returns the current representation if there is no datetime preference.', async(): Promise<void> => {
+    await write('first');
+    await write('second');
+    const result = await store.getRepresentation(identifier, { type: { 'text/plain': 1 }}, conditions);
+    await expect(readableToString(result.data)).resolves.toBe('second');
+    expect(result.metadata.get(MEMENTO.terms.mementoDatetime)).toBeUndefined();
+    expect(source.getRepresentation).toHaveBeenLastCalledWith(identifier, { type: { 'text/plain': 1 }}, conditions);
+  });
+
+  it('ignores the datetime preference for containers.', async(): Promise<void> => {
+    const container = { path: `${root}container/` };
+    const preferences = atTime('Sat, 01 Jan 2022 00:00:00 GMT');
+    const result = await store.getRepresentation(container, preferences);
+    expect(result.metadata.get(MEMENTO.terms.mementoDatetime)).toBeUndefined();
+  });
+
+  it('returns the version that was valid at the requested time.', async(): Promise<void> => {
+    await write('first');
+    now += 60000;
+    await write('second');
+    now += 60000;
+    await write('third');
+
+    let result = await store.getRepresentation(identifier, atTime('Sat, 01 Jan 2022 00:01:30 GMT'));
+    await expect(readableToString(result.data)).resolves.toBe('second');
+    expect(result.metadata.contentType).toBe('text/plain');
+    expect(result.metadata.get(MEMENTO.terms.mementoDatetime)?.value).toBe('Sat, 01 Jan 2022 00:01:00 GMT');
+    expect(result.metadata.get(MEMENTO.terms.original)?.value).toBe(identifier.path);
+    expect(result.metadata.get(DC.terms.modified)?.value).toBe('2022-01-01T00:01:00.123Z');
+
+    // Exact match
+    result = await store.getRepresentation(identifier, atTime('Sat, 01 Jan 2022 00:00:00 GMT'));
+    await expect(readableToString(result.data)).resolves.toBe('first');
+
+    // Current version
+    result = await store.getRepresentation(identifier, atTime('Sat, 01 Jan 2022 00:02:00 GMT'));
+    await expect(readableToString(result.data)).resolves.toBe('third');
+    expect(result.metadata.get(MEMENTO.terms.mementoDatetime)?.value).toBe('Sat, 01 Jan 2022 00:02:00 GMT');
+  });
+
+  it('returns the oldest version if the requested time precedes all of them.', async(): Promise<void> => {
+    await write('first');
+    now += 60000;
+    await write('second');
+    const result = await store.getRepresentation(identifier, atTime('Fri, 31 Dec 2021 00:00:00 GMT'));
+    await expect(readableToString(result.data)).resolves.toBe('first');
+    expect(result.metadata.get(MEMENTO.terms.mementoDatetime)?.value).toBe('Sat, 01 Jan 2022 00:00:00 GMT');
+  });
+
+  it('returns the current version if there are no previous versions.', async(): Promise<void> => {
+    await write('first');
+    const result = await store.getRepresentation(identifier, atTime('Fri, 31 Dec 2021 00:00:00 GMT'));
+    await expect(readableToString(result.data)).resolves.toBe('first');
+    expect(result.metadata.get(MEMENTO.terms.mementoDatetime)?.value).toBe('Sat, 01 Jan 2022 00:00:00 GMT');
+  });
+
+  it('can return previous versions of deleted resources.', async(): Promise<void> => {
+    await write('first');
+    await store.deleteResource(identifier);
+    const result = await store.getRepresentation(identifier, atTime('Sat, 01 Jan 2022 00:10:00 GMT'));
+    await expect(readableToString(result.data)).resolves.toBe('first');
+  });
+
+  it('restores the stored metadata.', async(): Promise<void> => {
+    resources.set(identifier.path, { data: 'first', contentType: 'text/plain', modified: now });
+    source.getRepresentation.mockImplementationOnce(async(id): Promise<Representation> => {
+      const representation = getRepresentation(id);
+      representation.metadata.add(RDF.terms.type, namedNode(`${root}Type`));
+      return representation;
+    });
+    now += 60000;
+    await write('second');
+    const result = await store.getRepresentation(identifier, atTime('Sat, 01 Jan 2022 00:00:00 GMT'));
+    expect(result.metadata.get(RDF.terms.type)?.value).toBe(`${root}Type`);
+  });
+
+  it('uses the current time if the modification date of a resource is unknown.', async(): Promise<void> => {
+    source.getRepresentation.mockResolvedValueOnce(new BasicRepresentation('first', identifier, 'text/plain'));
+    now += 1234;
+    await write('second');
+    await expect(storage.get(identifier.path)).resolves.toEqual([
+      expect.objectContaining({ datetime: Date.parse('2022-01-01T00:00:01.000Z') }),
+    ]);
+  });
+
+  it('throws an error if the resource and its versions do not exist.', async(): Promise<void> => {
+    await expect(store.getRepresentation(identifier, atTime('Sat, 01 Jan 2022 00:00:00 GMT')))
+      .rejects.toThrow(NotFoundHttpError);
+  });
+});
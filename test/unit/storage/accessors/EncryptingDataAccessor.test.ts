@@ -0,0 +1,242 @@
+import 'jest-rdf';
+import arrayifyStream from 'arrayify-stream';
+import { DataFactory } from 'n3';
+import { BasicRepresentation } from '../../../../src/http/representation/BasicRepresentation';
+import { RepresentationMetadata } from '../../../../src/http/representation/RepresentationMetadata';
+import type { ResourceIdentifier } from '../../../../src/http/representation/ResourceIdentifier';
+import { EncryptingDataAccessor } from '../../../../src/storage/accessors/EncryptingDataAccessor';
+import { InMemoryDataAccessor } from '../../../../src/storage/accessors/InMemoryDataAccessor';
+import type { EncryptionKey } from '../../../../src/storage/encryption/EncryptionUtil';
+import { ENCRYPTION_OVERHEAD, generateEncryptionKey } from '../../../../src/storage/encryption/EncryptionUtil';
+import type { KeyProvider } from '../../../../src/storage/encryption/KeyProvider';
+import { ByteSizeReporter } from '../../../../src/storage/size-reporter/ByteSizeReporter';
+import { UnsupportedMediaTypeHttpError } from '../../../../src/util/errors/UnsupportedMediaTypeHttpError';
+import { SingleRootIdentifierStrategy } from '../../../../src/util/identifiers/SingleRootIdentifierStrategy';
+import { guardedStreamFrom, readableToString } from '../../../../src/util/StreamUtil';
+import { toLiteral } from '../../../../src/util/TermUtil';
+import { CONTENT_TYPE, DC, PIM, POSIX, RDF, SOLID_META, XSD } from '../../../../src/util/Vocabularies';
+const { literal, namedNode, quad } = DataFactory;
+
+describe('An EncryptingDataAccessor', (): void => {
+  const baseUrl = 'http://localhost/';
+  const root = { path: baseUrl };
+  const pod = { path: `${baseUrl}alice/` };
+  const document = { path: `${baseUrl}alice/document.txt` };
+  const content = 'some secret content';
+  let keys: Record<string, EncryptionKey>;
+  let knownKeys: EncryptionKey[];
+  let keyProvider: jest.Mocked<KeyProvider>;
+  let source: InMemoryDataAccessor;
+  let accessor: EncryptingDataAccessor;
+
+  beforeEach(async(): Promise<void> => {
+    keys = {};
+    knownKeys = [];
+    keyProvider = {
+      getCurrentKey: jest.fn(async(storage?: ResourceIdentifier): Promise<EncryptionKey> => {
+        const path = storage?.path ?? 'server';
+        if (!keys[path]) {
+          keys[path] = generateEncryptionKey();
+        }
+        knownKeys.push(keys[path]);
+        return keys[path];
+      }),
+      getKey: jest.fn(async(id: string): Promise<EncryptionKey> => knownKeys.find((key): boolean => key.id === id)!),
+      rotateKey: jest.fn(),
+    };
+
+    const identifierStrategy = new SingleRootIdentifierStrategy(baseUrl);
+    source = new InMemoryDataAccessor(identifierStrategy);
+    accessor = new EncryptingDataAccessor(source, keyProvider, identifierStrategy, baseUrl, [ '^/plain$' ]);
+
+    await accessor.writeContainer(root, new RepresentationMetadata(root));
+    await accessor.writeContainer(pod, new RepresentationMetadata(pod, { [RDF.type]: PIM.terms.Storage }));
+  });
+
+  it('can only handle binary data.', async(): Promise<void> => {
+    await expect(accessor.canHandle(new BasicRepresentation([], 'internal/quads', false)))
+      .rejects.toThrow(UnsupportedMediaTypeHttpError);
+    await expect(accessor.canHandle(new BasicRepresentation(content, 'text/plain'))).resolves.toBeUndefined();
+  });
+
+  it('encrypts the data of documents.', async(): Promise<void> => {
+    await accessor.writeDocument(document, guardedStreamFrom(content), new RepresentationMetadata(document));
+
+    const encrypted = Buffer.concat(await arrayifyStream(await source.getData(document)));
+    expect(encrypted).toHaveLength(content.length + ENCRYPTION_OVERHEAD);
+    expect(encrypted.indexOf(content)).toBe(-1);
+
+    await expect(readableToString(await accessor.getData(document))).resolves.toBe(content);
+  });
+
+  it('can return a range of the data.', async(): Promise<void> => {
+    await accessor.writeDocument(document, guardedStreamFrom(content), new RepresentationMetadata(document));
+    await expect(readableToString(await accessor.getData(document, { start: 5, end: 10 }))).resolves.toBe('secret');
+  });
+
+  it('encrypts the metadata except for what the source accessor needs.', async(): Promise<void> => {
+    const modified = toLiteral(new Date().toISOString(), XSD.terms.dateTime);
+    const metadata = new RepresentationMetadata(document, {
+      [CONTENT_TYPE]: 'text/plain',
+      [DC.modified]: modified,
+      'http://example.com/secret': 'value',
+    });
+    metadata.add(namedNode('http://example.com/response'), 'response', SOLID_META.terms.ResponseMetadata);
+    await accessor.writeDocument(document, guardedStreamFrom(content), metadata);
+
+    const stored = await source.getMetadata(document);
+    expect(stored.contentType).toBe('text/plain');
+    expect(stored.get(DC.terms.modified)).toEqualRdfTerm(modified);
+    expect(stored.get(namedNode('http://example.com/response'), SOLID_META.terms.ResponseMetadata)?.value)
+      .toBe('response');
+    expect(stored.get(namedNode('http://example.com/secret'))).toBeUndefined();
+    expect(stored.get(SOLID_META.terms.encryptedMetadata)).toBeDefined();
+
+    const result = await accessor.getMetadata(document);
+    expect(result.quads()).toBeRdfIsomorphic(metadata.quads());
+  });
+
+  it('does not add encrypted metadata if there is nothing to encrypt.', async(): Promise<void> => {
+    const metadata = new RepresentationMetadata(document, 'text/plain');
+    await accessor.writeDocument(document, guardedStreamFrom(content), metadata);
+    const stored = await source.getMetadata(document);
+    expect(stored.get(SOLID_META.terms.encryptedMetadata)).toBeUndefined();
+    expect((await accessor.getMetadata(document)).contentType).toBe('text/plain');
+  });
+
+  it('encrypts the metadata of containers.', async(): Promise<void> => {
+    const container = { path: `${baseUrl}alice/container/` };
+    await accessor.writeContainer(container, new RepresentationMetadata(container, { [RDF.type]: 'secret' }));
+    expect((await source.getMetadata(container)).get(RDF.terms.type)).toBeUndefined();
+    expect((await accessor.getMetadata(container)).get(RDF.terms.type)?.value).toBe('secret');
+
+    await accessor.writeMetadata(container, new RepresentationMetadata(container, { [RDF.type]: 'other' }));
+    expect((await source.getMetadata(container)).get(RDF.terms.type)).toBeUndefined();
+    expect((await accessor.getMetadata(container)).get(RDF.terms.type)?.value).toBe('other');
+  });
+
+  it('decrypts the metadata of children.', async(): Promise<void> => {
+    const children = [];
+    for await (const child of accessor.getChildren(root)) {
+      children.push(child);
+    }
+    expect(children).toHaveLength(1);
+    expect(children[0].identifier.value).toBe(pod.path);
+  });
+
+  it('removes the encryption overhead from the size.', async(): Promise<void> => {
+    await accessor.writeDocument(document, guardedStreamFrom(content), new RepresentationMetadata(document));
+    const reporter = new ByteSizeReporter(accessor, baseUrl);
+    await expect(reporter.getSize(document)).resolves.toEqual({ unit: 'bytes', amount: content.length });
+
+    const metadata = await source.getMetadata(document);
+    const size = toLiteral(content.length + ENCRYPTION_OVERHEAD, XSD.terms.integer);
+    metadata.add(POSIX.terms.size, size, SOLID_META.terms.ResponseMetadata);
+    await source.writeMetadata(document, metadata);
+    const result = await accessor.getMetadata(document);
+    expect(result.get(POSIX.terms.size)?.value).toBe(`${content.length}`);
+    await expect(reporter.getSize(document)).resolves.toEqual({ unit: 'bytes', amount: content.length });
+  });
+
+  it('uses the key of the storage the resource is in.', async(): Promise<void> => {
+    expect(keyProvider.getCurrentKey).toHaveBeenCalledTimes(2);
+    expect(keyProvider.getCurrentKey).toHaveBeenNthCalledWith(1, undefined);
+    expect(keyProvider.getCurrentKey).toHaveBeenNthCalledWith(2, pod);
+
+    await accessor.writeDocument(document, guardedStreamFrom(content), new RepresentationMetadata(document));
+    expect(keyProvider.getCurrentKey).toHaveBeenCalledTimes(3);
+    expect(keyProvider.getCurrentKey).toHaveBeenLastCalledWith(pod);
+    const encrypted = Buffer.concat(await arrayifyStream(await source.getData(document)));
+    expect(encrypted.subarray(1, 17).toString('hex')).toBe(keys[pod.path].id);
+
+    const outside = { path: `${baseUrl}outside.txt` };
+    await accessor.writeDocument(outside, guardedStreamFrom(content), new RepresentationMetadata(outside));
+    expect(keyProvider.getCurrentKey).toHaveBeenLastCalledWith(undefined);
+  });
+
+  it('can still decrypt data after the key was rotated.', async(): Promise<void> => {
+    await accessor.writeDocument(document, guardedStreamFrom(content), new RepresentationMetadata(document));
+    const oldKey = keys[pod.path];
+    keys[pod.path] = generateEncryptionKey();
+    const other = { path: `${baseUrl}alice/other.txt` };
+    await accessor.writeDocument(other, guardedStreamFrom('other'), new RepresentationMetadata(other));
+
+    await expect(readableToString(await accessor.getData(document))).resolves.toBe(content);
+    await expect(readableToString(await accessor.getData(other))).resolves.toBe('other');
+    expect(keyProvider.getKey).toHaveBeenCalledWith(oldKey.id);
+  });
+
+  it('skips parent containers that do not exist when looking for the storage.', async(): Promise<void> => {
+    const nested = { path: `${baseUrl}alice/missing/document.txt` };
+    // The in-memory accessor requires the parent container to exist
+    jest.spyOn(source, 'writeDocument').mockResolvedValueOnce();
+    await accessor.writeDocument(nested, guardedStreamFrom(content), new RepresentationMetadata(nested));
+    expect(keyProvider.getCurrentKey).toHaveBeenLastCalledWith(pod);
+  });
+
+  it('throws errors that occur while looking for the storage.', async(): Promise<void> => {
+    jest.spyOn(source, 'getMetadata').mockRejectedValueOnce(new Error('bad data'));
+    await expect(accessor.writeDocument(document, guardedStreamFrom(content), new RepresentationMetadata(document)))
+      .rejects.toThrow('bad data');
+  });
+
+  it('errors if the metadata was tampered with.', async(): Promise<void> => {
+    const metadata = new RepresentationMetadata(document, { [RDF.type]: 'secret' });
+    await accessor.writeDocument(document, guardedStreamFrom(content), metadata);
+    const stored = await source.getMetadata(document);
+    const encrypted = Buffer.from(stored.get(SOLID_META.terms.encryptedMetadata)!.value, 'base64');
+    encrypted[encrypted.length - 1] += 1;
+    stored.set(SOLID_META.terms.encryptedMetadata, literal(encrypted.toString('base64')));
+    await source.writeMetadata(document, stored);
+    await expect(accessor.getMetadata(document)).rejects.toThrow('Unable to decrypt the data.');
+  });
+
+  it('does not encrypt resources in the unencrypted folders.', async(): Promise<void> => {
+    const container = { path: `${baseUrl}plain/` };
+    const plain = { path: `${baseUrl}plain/document.txt` };
+    await accessor.writeContainer(container, new RepresentationMetadata(container, { [RDF.type]: 'plain' }));
+    await accessor.writeDocument(plain, guardedStreamFrom(content), new RepresentationMetadata(plain));
+    await accessor.writeMetadata(plain, new RepresentationMetadata(plain, { [RDF.type]: 'other' }));
+    expect(keyProvider.getCurrentKey).toHaveBeenCalledTimes(2);
+
+    await expect(readableToString(await source.getData(plain))).resolves.toBe(content);
+    await expect(readableToString(await accessor.getData(plain))).resolves.toBe(content);
+    expect((await source.getMetadata(container)).get(RDF.terms.type)?.value).toBe('plain');
+    expect((await accessor.getMetadata(plain)).get(RDF.terms.type)?.value).toBe('other');
+
+    const metadata = await source.getMetadata(plain);
+    metadata.add(POSIX.terms.size, toLiteral(content.length, XSD.terms.integer), SOLID_META.terms.ResponseMetadata);
+    await source.writeMetadata(plain, metadata);
+    expect((await accessor.getMetadata(plain)).get(POSIX.terms.size)?.value).toBe(`${content.length}`);
+
+    const children = [];
+    for await (const child of accessor.getChildren(root)) {
+      children.push(child.identifier.value);
+    }
+    expect(children).toEqual([ pod.path, container.path ]);
+  });
+
+  it('decrypts resources that are not part of the server.', async(): Promise<void> => {
+    const other = { path: 'http://example.com/document.txt' };
+    jest.spyOn(source, 'getMetadata').mockResolvedValueOnce(new RepresentationMetadata(other, {
+      [SOLID_META.encryptedMetadata]: 'invalid',
+    }));
+    await expect(accessor.getMetadata(other)).rejects.toThrow('The data is not encrypted in a supported format.');
+  });
+
+  it('encrypts all resources if there are no unencrypted folders.', async(): Promise<void> => {
+    accessor = new EncryptingDataAccessor(source, keyProvider, new SingleRootIdentifierStrategy(baseUrl), baseUrl);
+    const container = { path: `${baseUrl}plain/` };
+    await accessor.writeContainer(container, new RepresentationMetadata(container, { [RDF.type]: 'plain' }));
+    expect((await source.getMetadata(container)).get(RDF.terms.type)).toBeUndefined();
+  });
+
+  it('keeps quads in other graphs as they are.', async(): Promise<void> => {
+    const metadata = new RepresentationMetadata(document);
+    metadata.addQuad(document.path, RDF.terms.type, 'graph', namedNode('http://example.com/graph'));
+    await accessor.writeDocument(document, guardedStreamFrom(content), metadata);
+    expect((await source.getMetadata(document)).quads()).toBeRdfIsomorphic([
+      quad(namedNode(document.path), RDF.terms.type, literal('graph'), namedNode('http://example.com/graph')),
+    ]);
+  });
+});
@@ -71,6 +71,12 @@ describe('A FileDataAccessor', (): void => {
       await expect(readableToString(stream)).resolves.toBe('data');
     });
 
+    it('only reads the requested range of the file.', async(): Promise<void> => {
+      cache.data = { resource: 'data' };
+      const stream = await accessor.getData({ path: `${base}resource` }, { start: 1, end: 2 });
+      await expect(readableToString(stream)).resolves.toBe('at');
+    });
+
     it('throws an error if something else went wrong.', async(): Promise<void> => {
       jest.requireMock('fs-extra').stat = (): any => {
         throw new Error('error');
@@ -205,6 +211,57 @@ describe('A FileDataAccessor', (): void => {
       }
     });
 
+    it('can generate the metadata of a single page of children.', async(): Promise<void> => {
+      cache.data = {
+        container: {
+          child4: 'data',
+          'child1.meta': 'metadata',
+          child3: {},
+          symlink: Symbol(`${rootFilePath}/container/child2`),
+          symlinkInvalid: Symbol(`${rootFilePath}/invalid`),
+          symlinkSocket: Symbol(`${rootFilePath}/socket`),
+          child2: 'data',
+          child1: 'data',
+          notAFile: 5,
+        },
+        socket: 5,
+      };
+
+      let children = [];
+      for await (const child of accessor.getChildren({ path: `${base}container/` }, { limit: 2 })) {
+        children.push(child);
+      }
+      expect(children.map((child): string => child.identifier.value))
+        .toEqual([ `${base}container/child1`, `${base}container/child2` ]);
+      expect(children[0].get(POSIX.terms.size)?.value).toBe('4');
+
+      children = [];
+      for await (const child of accessor.getChildren({ path: `${base}container/` },
+        { limit: 5, after: `${base}container/child2` })) {
+        children.push(child);
+      }
+      expect(children.map((child): string => child.identifier.value))
+        .toEqual([ `${base}container/child3/`, `${base}container/child4`, `${base}container/symlink` ]);
+    });
+
+    it('skips children that disappear while generating a page.', async(): Promise<void> => {
+      cache.data = { container: { child1: 'data', child2: 'data' }};
+      const mapFilePathToUrl = mapper.mapFilePathToUrl.bind(mapper);
+      jest.spyOn(mapper, 'mapFilePathToUrl').mockImplementation(async(filePath, isContainer): Promise<ResourceLink> => {
+        const result = await mapFilePathToUrl(filePath, isContainer);
+        if (filePath.endsWith('/child1')) {
+          delete cache.data.container.child1;
+        }
+        return result;
+      });
+
+      const children = [];
+      for await (const child of accessor.getChildren({ path: `${base}container/` }, { limit: 5 })) {
+        children.push(child);
+      }
+      expect(children.map((child): string => child.identifier.value)).toEqual([ `${base}container/child2` ]);
+    });
+
     it('does not generate IANA URIs for children with invalid content-types.', async(): Promise<void> => {
       cache.data = {
         container: {
@@ -431,6 +488,19 @@ describe('A FileDataAccessor', (): void => {
       expect(outputMetadata.quads(`${base}a`))
         .toStrictEqual([ quad(namedNode(`${base}a`), namedNode(`${base}b`), namedNode(`${base}c`)) ]);
     });
+
+    it('keeps content types that can not be stored by the file extension.', async(): Promise<void> => {
+      const resourceIdentifier = { path: `${base}resource` };
+      await accessor.writeDocument(resourceIdentifier, data, new RepresentationMetadata('unknown/some-type'));
+
+      const extraMetadata = new RepresentationMetadata(resourceIdentifier, 'unknown/some-type');
+      extraMetadata.addQuad(namedNode('a'), namedNode('b'), namedNode('c'));
+      await expect(accessor.writeMetadata(resourceIdentifier, extraMetadata)).resolves.toBeUndefined();
+
+      const outputMetadata = await accessor.getMetadata(resourceIdentifier);
+      expect(outputMetadata.contentType).toBe('unknown/some-type');
+      expect(outputMetadata.quads(`${base}a`)).toHaveLength(1);
+    });
   });
 
   describe('deleting a resource', (): void => {
@@ -0,0 +1,211 @@
+import { outputFile, pathExists } from 'fs-extra';
+import { simpleGit } from 'simple-git';
+import { runWithCredentials } from '../../../../src/authentication/CredentialsContext';
+import { RepresentationMetadata } from '../../../../src/http/representation/RepresentationMetadata';
+import { GitDataAccessor } from '../../../../src/storage/accessors/GitDataAccessor';
+import { ExtensionBasedMapper } from '../../../../src/storage/mapping/ExtensionBasedMapper';
+import { ForbiddenHttpError } from '../../../../src/util/errors/ForbiddenHttpError';
+import { NotFoundHttpError } from '../../../../src/util/errors/NotFoundHttpError';
+import { SingleRootIdentifierStrategy } from '../../../../src/util/identifiers/SingleRootIdentifierStrategy';
+import type { ReadWriteLocker } from '../../../../src/util/locking/ReadWriteLocker';
+import { joinFilePath } from '../../../../src/util/PathUtil';
+import { guardedStreamFrom, readableToString } from '../../../../src/util/StreamUtil';
+import { PIM, RDF } from '../../../../src/util/Vocabularies';
+import { getTestFolder, removeFolder } from '../../../integration/Config';
+
+const rootFilePath = getTestFolder('GitDataAccessor');
+
+interface Commit {
+  message: string;
+  author: string;
+  files: string[];
+}
+
+async function getHistory(folder: string): Promise<Commit[]> {
+  const git = simpleGit(joinFilePath(rootFilePath, folder));
+  const log = await git.log({ '--name-status': null });
+  return log.all.map((entry): Commit => ({
+    message: entry.message,
+    author: `${entry.author_name} <${entry.author_email}>`,
+    files: (entry.diff?.files ?? []).map((file): string => file.file),
+  }));
+}
+
+function createMetadata(contentType?: string): RepresentationMetadata {
+  return new RepresentationMetadata(contentType);
+}
+
+describe('A GitDataAccessor', (): void => {
+  const baseUrl = 'http://test.com/';
+  const pod = { path: `${baseUrl}pod/` };
+  const webId = 'http://test.com/alice/profile/card#me';
+  let locker: jest.Mocked<ReadWriteLocker>;
+  let accessor: GitDataAccessor;
+
+  async function createPod(): Promise<void> {
+    await accessor.writeContainer(pod, createMetadata().add(RDF.terms.type, PIM.terms.Storage));
+  }
+
+  beforeEach(async(): Promise<void> => {
+    locker = {
+      withReadLock: jest.fn(async(id, whileLocked): Promise<any> => whileLocked()),
+      withWriteLock: jest.fn(async(id, whileLocked): Promise<any> => whileLocked()),
+    };
+
+    accessor = new GitDataAccessor({
+      resourceMapper: new ExtensionBasedMapper(baseUrl, rootFilePath),
+      identifierStrategy: new SingleRootIdentifierStrategy(baseUrl),
+      locker,
+      baseUrl,
+      ignoredFolders: [ '^/\\.internal$' ],
+    });
+  });
+
+  afterEach(async(): Promise<void> => {
+    await removeFolder(rootFilePath);
+  });
+
+  it('initializes a repository when a storage is created.', async(): Promise<void> => {
+    await createPod();
+    await expect(pathExists(joinFilePath(rootFilePath, 'pod/.git'))).resolves.toBe(true);
+    await expect(getHistory('pod')).resolves.toEqual([{
+      message: `Create ${pod.path}`,
+      author: 'Community Solid Server <server@localhost>',
+      files: [ '.meta' ],
+    }]);
+    expect(locker.withWriteLock).toHaveBeenCalledTimes(1);
+    expect(locker.withWriteLock).toHaveBeenLastCalledWith(pod, expect.any(Function));
+  });
+
+  it('keeps the existing repository when a storage is updated.', async(): Promise<void> => {
+    await createPod();
+    await accessor.writeContainer(pod,
+      createMetadata().add(RDF.terms.type, PIM.terms.Storage).add(RDF.terms.type, 'http://example.com/Type'));
+    const history = await getHistory('pod');
+    expect(history.map((commit): string => commit.message)).toEqual([ `Update ${pod.path}`, `Create ${pod.path}` ]);
+  });
+
+  it('commits every change with the WebID of the agent as author.', async(): Promise<void> => {
+    await createPod();
+    await accessor.writeContainer({ path: `${pod.path}folder/` }, createMetadata());
+    const document = { path: `${pod.path}folder/document` };
+    await runWithCredentials({ agent: { webId }}, async(): Promise<void> => {
+      await accessor.writeDocument(document, guardedStreamFrom('data'), createMetadata('text/plain'));
+      await accessor.writeDocument(document, guardedStreamFrom('{}'), createMetadata('application/json'));
+      await accessor.writeMetadata(document, createMetadata().add(RDF.terms.type, 'http://example.com/Type'));
+      await accessor.deleteResource(document);
+    });
+
+    const history = await getHistory('pod');
+    expect(history).toHaveLength(5);
+    expect(history.slice(0, 4)).toEqual([
+      {
+        message: `Delete ${document.path}`,
+        author: `${webId} <${webId}>`,
+        files: [ 'folder/document$.json', 'folder/document.meta' ],
+      },
+      { message: `Update ${document.path}`, author: `${webId} <${webId}>`, files: [ 'folder/document.meta' ]},
+      {
+        message: `Update ${document.path}`,
+        author: `${webId} <${webId}>`,
+        files: [ 'folder/document$.json', 'folder/document$.txt' ],
+      },
+      { message: `Create ${document.path}`, author: `${webId} <${webId}>`, files: [ 'folder/document$.txt' ]},
+    ]);
+  });
+
+  it('uses the committer as author for unauthenticated changes.', async(): Promise<void> => {
+    accessor = new GitDataAccessor({
+      resourceMapper: new ExtensionBasedMapper(baseUrl, rootFilePath),
+      identifierStrategy: new SingleRootIdentifierStrategy(baseUrl),
+      locker,
+      baseUrl,
+      committerName: 'Server',
+      committerEmail: 'server@example.com',
+    });
+    await createPod();
+    await runWithCredentials({ public: {}}, async(): Promise<void> => {
+      await accessor.writeDocument({ path: `${pod.path}document` }, guardedStreamFrom('data'), createMetadata());
+    });
+    const history = await getHistory('pod');
+    expect(history[0].author).toBe('Server <server@example.com>');
+  });
+
+  it('commits the deletion of all contents of a container.', async(): Promise<void> => {
+    await createPod();
+    const container = { path: `${pod.path}container/` };
+    await accessor.writeContainer(container, createMetadata().add(RDF.terms.type, 'http://example.com/Type'));
+    await accessor.writeDocument({ path: `${container.path}document` }, guardedStreamFrom('data'), createMetadata());
+    await accessor.deleteResource(container);
+
+    const history = await getHistory('pod');
+    expect(history[0]).toEqual(expect.objectContaining({
+      message: `Delete ${container.path}`,
+      files: [ 'container/.meta', 'container/document' ],
+    }));
+  });
+
+  it('does not commit if nothing changed.', async(): Promise<void> => {
+    await createPod();
+    const document = { path: `${pod.path}document` };
+    await accessor.writeDocument(document, guardedStreamFrom('data'), createMetadata());
+    await accessor.writeDocument(document, guardedStreamFrom('data'), createMetadata());
+    await expect(getHistory('pod')).resolves.toHaveLength(2);
+  });
+
+  it('does not commit changes to resources that are not part of a repository.', async(): Promise<void> => {
+    const document = { path: `${baseUrl}document` };
+    await accessor.writeContainer({ path: baseUrl }, createMetadata());
+    await accessor.writeDocument(document, guardedStreamFrom('data'), createMetadata());
+    await accessor.deleteResource(document);
+    await expect(pathExists(joinFilePath(rootFilePath, '.git'))).resolves.toBe(false);
+    expect(locker.withWriteLock).toHaveBeenCalledTimes(0);
+  });
+
+  it('does not create repositories or commit changes in the ignored folders.', async(): Promise<void> => {
+    const container = { path: `${baseUrl}.internal/storage/` };
+    await accessor.writeContainer(container, createMetadata().add(RDF.terms.type, PIM.terms.Storage));
+    await accessor.writeDocument({ path: `${container.path}document` }, guardedStreamFrom('data'), createMetadata());
+    await expect(pathExists(joinFilePath(rootFilePath, '.internal/storage/.git'))).resolves.toBe(false);
+    expect(locker.withWriteLock).toHaveBeenCalledTimes(0);
+  });
+
+  it('hides the repository folders.', async(): Promise<void> => {
+    await createPod();
+    await accessor.writeDocument({ path: `${pod.path}document` }, guardedStreamFrom('data'), createMetadata());
+
+    const children = [];
+    for await (const child of accessor.getChildren(pod)) {
+      children.push(child.identifier.value);
+    }
+    expect(children).toEqual([ `${pod.path}document` ]);
+
+    await expect(accessor.getMetadata({ path: `${pod.path}.git/` })).rejects.toThrow(NotFoundHttpError);
+    await expect(accessor.getData({ path: `${pod.path}.git/HEAD` })).rejects.toThrow(NotFoundHttpError);
+    await expect(accessor.getData({ path: `${pod.path}.GIT/HEAD` })).rejects.toThrow(NotFoundHttpError);
+    await expect(accessor.getData({ path: `${pod.path}%2Egit/HEAD` })).rejects.toThrow(NotFoundHttpError);
+    await expect(accessor.getChildren({ path: `${pod.path}.git/` }).next()).rejects.toThrow(NotFoundHttpError);
+  });
+
+  it('can still read other resources.', async(): Promise<void> => {
+    await createPod();
+    const document = { path: `${pod.path}.gitignore` };
+    await accessor.writeDocument(document, guardedStreamFrom('data'), createMetadata());
+    await expect(readableToString(await accessor.getData(document))).resolves.toBe('data');
+    await expect(accessor.getMetadata(document)).resolves.toBeDefined();
+    await expect(accessor.getData({ path: 'http://other.com/.git/HEAD' })).rejects.toThrow(NotFoundHttpError);
+  });
+
+  it('does not allow changes to the repository folders.', async(): Promise<void> => {
+    await createPod();
+    await outputFile(joinFilePath(rootFilePath, 'pod/.git/hooks/pre-commit'), 'original');
+    const hook = { path: `${pod.path}.git/hooks/pre-commit` };
+    await expect(accessor.writeDocument(hook, guardedStreamFrom('data'), createMetadata()))
+      .rejects.toThrow(ForbiddenHttpError);
+    await expect(accessor.writeContainer({ path: `${pod.path}.git/hooks/` }, createMetadata()))
+      .rejects.toThrow(ForbiddenHttpError);
+    await expect(accessor.writeMetadata(hook, createMetadata())).rejects.toThrow(ForbiddenHttpError);
+    await expect(accessor.deleteResource({ path: `${pod.path}.git/` })).rejects.toThrow(ForbiddenHttpError);
+    await expect(pathExists(joinFilePath(rootFilePath, 'pod/.git/hooks/pre-commit'))).resolves.toBe(true);
+  });
+});
@@ -102,6 +102,21 @@ describe('An InMemoryDataAccessor', (): void => {
       expect(children[1].identifier.value).toBe(`${base}container/container2/`);
     });
 
+    it('can generate a single page of children.', async(): Promise<void> => {
+      await expect(accessor.writeContainer({ path: `${base}container/` }, metadata)).resolves.toBeUndefined();
+      for (const name of [ 'c', 'a', 'd', 'b' ]) {
+        await expect(accessor.writeDocument({ path: `${base}container/${name}` }, guardedStreamFrom([]), metadata))
+          .resolves.toBeUndefined();
+      }
+
+      const children = [];
+      for await (const child of accessor.getChildren({ path: `${base}container/` },
+        { limit: 2, after: `${base}container/a` })) {
+        children.push(child.identifier.value);
+      }
+      expect(children).toEqual([ `${base}container/b`, `${base}container/c` ]);
+    });
+
     it('adds stored metadata when requesting document metadata.', async(): Promise<void> => {
       const identifier = { path: `${base}resource` };
       const inputMetadata = new RepresentationMetadata(identifier, { [RDF.type]: LDP.terms.Resource });
@@ -47,7 +47,12 @@ describe('ValidatingDataAccessor', (): void => {
     it('should call the accessors getData() function.', async(): Promise<void> => {
       await passthrough.getData(mockIdentifier);
       expect(childAccessor.getData).toHaveBeenCalledTimes(1);
-      expect(childAccessor.getData).toHaveBeenCalledWith(mockIdentifier);
+      expect(childAccessor.getData).toHaveBeenCalledWith(mockIdentifier, undefined);
+    });
+
+    it('should pass the range to the accessors getData() function.', async(): Promise<void> => {
+      await passthrough.getData(mockIdentifier, { start: 0, end: 9 });
+      expect(childAccessor.getData).toHaveBeenLastCalledWith(mockIdentifier, { start: 0, end: 9 });
     });
   });
   describe('getMetadata()', (): void => {
@@ -66,9 +71,9 @@ describe('ValidatingDataAccessor', (): void => {
   });
   describe('getChildren()', (): void => {
     it('should call the accessors getChildren() function.', async(): Promise<void> => {
-      passthrough.getChildren(mockIdentifier);
+      passthrough.getChildren(mockIdentifier, { limit: 5 });
       expect(childAccessor.getChildren).toHaveBeenCalledTimes(1);
-      expect(childAccessor.getChildren).toHaveBeenCalledWith(mockIdentifier);
+      expect(childAccessor.getChildren).toHaveBeenCalledWith(mockIdentifier, { limit: 5 });
     });
   });
   describe('deleteResource()', (): void => {
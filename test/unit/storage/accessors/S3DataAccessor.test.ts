@@ -0,0 +1,387 @@
+import 'jest-rdf';
+import { Readable } from 'stream';
+import { S3Client } from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import arrayifyStream from 'arrayify-stream';
+import { DataFactory } from 'n3';
+import { BasicRepresentation } from '../../../../src/http/representation/BasicRepresentation';
+import { RepresentationMetadata } from '../../../../src/http/representation/RepresentationMetadata';
+import { S3DataAccessor } from '../../../../src/storage/accessors/S3DataAccessor';
+import { APPLICATION_OCTET_STREAM } from '../../../../src/util/ContentTypes';
+import { NotFoundHttpError } from '../../../../src/util/errors/NotFoundHttpError';
+import { guardedStreamFrom, readableToString } from '../../../../src/util/StreamUtil';
+import { toLiteral } from '../../../../src/util/TermUtil';
+import { DC, LDP, POSIX, RDF, XSD } from '../../../../src/util/Vocabularies';
+const { literal, namedNode } = DataFactory;
+
+/* eslint-disable @typescript-eslint/naming-convention */
+jest.mock('@aws-sdk/client-s3', (): any => ({
+  ...jest.requireActual('@aws-sdk/client-s3'),
+  S3Client: jest.fn(),
+}));
+jest.mock('@aws-sdk/lib-storage');
+
+interface StoredObject {
+  data: Buffer;
+  contentType?: string;
+  modified: Date;
+}
+
+const notFound = Object.assign(new Error('not found'), { $metadata: { httpStatusCode: 404 }});
+
+/**
+ * Simulates the behaviour of an S3 bucket for the commands used by the accessor.
+ */
+function handleCommand(objects: Map<string, StoredObject>, command: { constructor: { name: string }; input: any }):
+any {
+  const { input } = command;
+  const object = objects.get(input.Key);
+  switch (command.constructor.name) {
+    case 'GetObjectCommand': {
+      if (!object) {
+        throw notFound;
+      }
+      const [ start, end ]: number[] = input.Range ?
+        input.Range.slice(6).split('-').map(Number) :
+        [ 0, object.data.length ];
+      return { Body: Readable.from([ object.data.subarray(start, end + 1) ]), LastModified: object.modified };
+    }
+    case 'HeadObjectCommand':
+      if (!object) {
+        throw notFound;
+      }
+      return { ContentType: object.contentType, ContentLength: object.data.length, LastModified: object.modified };
+    case 'PutObjectCommand':
+      objects.set(input.Key, { data: Buffer.from(input.Body), contentType: input.ContentType, modified: new Date() });
+      return {};
+    case 'DeleteObjectCommand':
+      objects.delete(input.Key);
+      return {};
+    default: {
+      // ListObjectsV2Command, returning at most 2 keys per response to test continuation
+      const start = Number(input.ContinuationToken ?? 0);
+      const keys = [ ...objects.keys() ].sort((key1, key2): number => key1.localeCompare(key2))
+        .filter((key): boolean => key.startsWith(input.Prefix) && key > (input.StartAfter ?? ''));
+      const entries: { key: string; isPrefix: boolean }[] = [];
+      for (const key of keys) {
+        const slash = input.Delimiter ? key.indexOf('/', input.Prefix.length) : -1;
+        const entry = slash < 0 ? { key, isPrefix: false } : { key: key.slice(0, slash + 1), isPrefix: true };
+        if (!entries.some((other): boolean => other.key === entry.key)) {
+          entries.push(entry);
+        }
+      }
+      const end = start + Math.min(input.MaxKeys ?? 2, 2);
+      const response = entries.slice(start, end);
+      return {
+        Prefix: input.Prefix,
+        KeyCount: response.length,
+        CommonPrefixes: response.filter((entry): boolean => entry.isPrefix)
+          .map((entry): any => ({ Prefix: entry.key })),
+        Contents: response.filter((entry): boolean => !entry.isPrefix)
+          .map((entry): any => ({
+            Key: entry.key,
+            Size: objects.get(entry.key)!.data.length,
+            LastModified: objects.get(entry.key)!.modified,
+          })),
+        NextContinuationToken: end < entries.length ? `${end}` : undefined,
+      };
+    }
+  }
+}
+
+async function getChildPaths(children: Iterable<RepresentationMetadata> | AsyncIterable<RepresentationMetadata>):
+Promise<string[]> {
+  const paths = [];
+  for await (const child of children) {
+    paths.push(child.identifier.value);
+  }
+  return paths.sort((path1, path2): number => path1.localeCompare(path2));
+}
+
+describe('An S3DataAccessor', (): void => {
+  const base = 'http://test.com/';
+  const likes = namedNode(`${base}likes`);
+  const modified = new Date('2020-01-01T10:00:00.000Z');
+  let objects: Map<string, StoredObject>;
+  let send: jest.Mock;
+  let accessor: S3DataAccessor;
+
+  beforeEach(async(): Promise<void> => {
+    objects = new Map();
+    send = jest.fn((command): any => handleCommand(objects, command));
+    (S3Client as jest.Mock).mockImplementation((): any => ({ send }));
+    (Upload as unknown as jest.Mock).mockImplementation(({ params }): any => ({
+      async done(): Promise<void> {
+        const chunks: Buffer[] = await arrayifyStream(params.Body);
+        objects.set(params.Key, { data: Buffer.concat(chunks), contentType: params.ContentType, modified });
+      },
+    }));
+
+    accessor = new S3DataAccessor({ baseUrl: base, keyPrefix: 'pods' });
+
+    // Most tests depend on there already being a root container
+    await accessor.writeContainer({ path: base }, new RepresentationMetadata());
+  });
+
+  it('creates a client with the given settings.', async(): Promise<void> => {
+    accessor = new S3DataAccessor({
+      baseUrl: base,
+      endpoint: 'http://localhost:4001',
+      region: 'us-east-1',
+      accessKeyId: 'key',
+      secretAccessKey: 'secret',
+      forcePathStyle: true,
+    });
+    expect(S3Client).toHaveBeenLastCalledWith({
+      endpoint: 'http://localhost:4001',
+      region: 'us-east-1',
+      forcePathStyle: true,
+      credentials: { accessKeyId: 'key', secretAccessKey: 'secret' },
+    });
+
+    await accessor.writeContainer({ path: base }, new RepresentationMetadata());
+    expect(send).toHaveBeenLastCalledWith(expect.objectContaining({
+      input: expect.objectContaining({ Bucket: 'solid', Key: '.meta' }),
+    }));
+  });
+
+  it('can only handle binary data.', async(): Promise<void> => {
+    await expect(accessor.canHandle({ binary: true } as any)).resolves.toBeUndefined();
+    const result = accessor.canHandle(new BasicRepresentation([], 'internal/quads', false));
+    await expect(result).rejects.toThrow('Only binary data is supported.');
+  });
+
+  it('throws a 404 for identifiers outside of the base URL or of sidecar objects.', async(): Promise<void> => {
+    await expect(accessor.getMetadata({ path: 'http://other.com/resource' })).rejects.toThrow(NotFoundHttpError);
+    await expect(accessor.getMetadata({ path: `${base}.meta` })).rejects.toThrow(NotFoundHttpError);
+  });
+
+  describe('reading and writing data', (): void => {
+    it('stores documents as objects.', async(): Promise<void> => {
+      const metadata = new RepresentationMetadata(APPLICATION_OCTET_STREAM);
+      await expect(accessor.writeDocument({ path: `${base}resource` }, guardedStreamFrom([ 'da', 'ta' ]), metadata))
+        .resolves.toBeUndefined();
+      expect(objects.get('pods/resource')).toEqual({
+        data: Buffer.from('data'),
+        contentType: APPLICATION_OCTET_STREAM,
+        modified,
+      });
+      await expect(readableToString(await accessor.getData({ path: `${base}resource` }))).resolves.toBe('data');
+    });
+
+    it('can return a range of the data.', async(): Promise<void> => {
+      const metadata = new RepresentationMetadata(APPLICATION_OCTET_STREAM);
+      await accessor.writeDocument({ path: `${base}resource` }, guardedStreamFrom([ 'data' ]), metadata);
+      const result = await accessor.getData({ path: `${base}resource` }, { start: 1, end: 2 });
+      await expect(readableToString(result)).resolves.toBe('at');
+    });
+
+    it('throws a 404 if there is no such document.', async(): Promise<void> => {
+      await expect(accessor.getData({ path: `${base}resource` })).rejects.toThrow(NotFoundHttpError);
+      await expect(accessor.getData({ path: base })).rejects.toThrow(NotFoundHttpError);
+    });
+
+    it('throws other errors of the client.', async(): Promise<void> => {
+      send.mockRejectedValueOnce(new Error('bad request'));
+      await expect(accessor.getData({ path: `${base}resource` })).rejects.toThrow('bad request');
+    });
+
+    it('removes the sidecar object if uploading the data fails.', async(): Promise<void> => {
+      (Upload as unknown as jest.Mock).mockImplementation((): any => ({
+        done: jest.fn().mockRejectedValue(new Error('upload failed')),
+      }));
+      const metadata = new RepresentationMetadata(APPLICATION_OCTET_STREAM);
+      await expect(accessor.writeDocument({ path: `${base}resource` }, guardedStreamFrom([ 'data' ]), metadata))
+        .rejects.toThrow('upload failed');
+      metadata.add(likes, literal('apples'));
+      await expect(accessor.writeDocument({ path: `${base}resource` }, guardedStreamFrom([ 'data' ]), metadata))
+        .rejects.toThrow('upload failed');
+      expect([ ...objects.keys() ]).toEqual([ 'pods/.meta' ]);
+    });
+  });
+
+  describe('reading and writing metadata', (): void => {
+    it('combines the sidecar object with the values of the document object.', async(): Promise<void> => {
+      const metadata = new RepresentationMetadata({ path: `${base}resource` }, 'text/turtle');
+      metadata.add(likes, literal('apples'));
+      metadata.add(DC.terms.modified, toLiteral(new Date().toISOString(), XSD.terms.dateTime));
+      await accessor.writeDocument({ path: `${base}resource` }, guardedStreamFrom([ 'data' ]), metadata);
+      expect(objects.get('pods/resource.meta')!.data.toString()).toContain('apples');
+
+      const result = await accessor.getMetadata({ path: `${base}resource` });
+      expect(result.contentType).toBe('text/turtle');
+      expect(result.get(likes)).toEqualRdfTerm(literal('apples'));
+      expect(result.get(DC.terms.modified)).toEqualRdfTerm(toLiteral(modified.toISOString(), XSD.terms.dateTime));
+      expect(result.get(POSIX.terms.size)).toEqualRdfTerm(toLiteral(4, XSD.terms.integer));
+      expect(result.getAll(RDF.terms.type)).toEqualRdfTermArray([ LDP.terms.Resource ]);
+    });
+
+    it('does not need a sidecar object for documents.', async(): Promise<void> => {
+      await accessor.writeDocument(
+        { path: `${base}resource` },
+        guardedStreamFrom([ 'data' ]),
+        new RepresentationMetadata('text/turtle'),
+      );
+      expect(objects.has('pods/resource.meta')).toBe(false);
+      const result = await accessor.getMetadata({ path: `${base}resource` });
+      expect(result.contentType).toBe('text/turtle');
+    });
+
+    it('throws a 404 if the document object does not exist.', async(): Promise<void> => {
+      await expect(accessor.getMetadata({ path: `${base}resource` })).rejects.toThrow(NotFoundHttpError);
+    });
+
+    it('uses the sidecar object to store container metadata.', async(): Promise<void> => {
+      const metadata = new RepresentationMetadata({ path: `${base}container/` });
+      metadata.add(likes, literal('apples'));
+      metadata.add(RDF.terms.type, LDP.terms.Container);
+      await accessor.writeContainer({ path: `${base}container/` }, metadata);
+
+      const result = await accessor.getMetadata({ path: `${base}container/` });
+      expect(result.get(likes)).toEqualRdfTerm(literal('apples'));
+      expect(result.get(DC.terms.modified)).toBeDefined();
+      expect(result.getAll(RDF.terms.type)).toEqualRdfTermArray(
+        [ LDP.terms.Container, LDP.terms.BasicContainer, LDP.terms.Resource ],
+      );
+    });
+
+    it('considers prefixes of existing objects to be containers.', async(): Promise<void> => {
+      objects.set('pods/container/resource', { data: Buffer.from('data'), modified });
+      const result = await accessor.getMetadata({ path: `${base}container/` });
+      expect(result.get(DC.terms.modified)).toBeUndefined();
+      expect(result.getAll(RDF.terms.type)).toEqualRdfTermArray(
+        [ LDP.terms.Container, LDP.terms.BasicContainer, LDP.terms.Resource ],
+      );
+    });
+
+    it('throws a 404 if there is no sidecar object nor objects with the container prefix.', async(): Promise<void> => {
+      await expect(accessor.getMetadata({ path: `${base}container/` })).rejects.toThrow(NotFoundHttpError);
+      send.mockImplementationOnce(async(): Promise<never> => {
+        throw notFound;
+      }).mockResolvedValueOnce({});
+      await expect(accessor.getMetadata({ path: `${base}container/` })).rejects.toThrow(NotFoundHttpError);
+    });
+
+    it('throws errors that occur while reading the sidecar object.', async(): Promise<void> => {
+      send.mockRejectedValueOnce(new Error('bad request'));
+      await expect(accessor.getMetadata({ path: `${base}resource` })).rejects.toThrow('bad request');
+    });
+
+    it('can update the metadata of a document.', async(): Promise<void> => {
+      await accessor.writeDocument(
+        { path: `${base}resource` },
+        guardedStreamFrom([ 'data' ]),
+        new RepresentationMetadata('text/turtle'),
+      );
+      const metadata = new RepresentationMetadata({ path: `${base}resource` });
+      metadata.add(likes, literal('apples'));
+      await expect(accessor.writeMetadata({ path: `${base}resource` }, metadata)).resolves.toBeUndefined();
+      await expect(accessor.getMetadata({ path: `${base}resource` })).resolves.toBeDefined();
+      expect(objects.has('pods/resource.meta')).toBe(true);
+
+      const emptyMetadata = new RepresentationMetadata({ path: `${base}resource` });
+      await accessor.writeMetadata({ path: `${base}resource` }, emptyMetadata);
+      expect(objects.has('pods/resource.meta')).toBe(false);
+    });
+  });
+
+  describe('reading children', (): void => {
+    beforeEach(async(): Promise<void> => {
+      await accessor.writeContainer({ path: `${base}container/` }, new RepresentationMetadata());
+      for (const name of [ 'child4', 'child2', 'child1' ]) {
+        await accessor.writeDocument(
+          { path: `${base}container/${name}` },
+          guardedStreamFrom([ 'data' ]),
+          new RepresentationMetadata({ [likes.value]: 'apples' }),
+        );
+      }
+      await accessor.writeContainer({ path: `${base}container/child3/` }, new RepresentationMetadata());
+      await accessor.writeDocument(
+        { path: `${base}container/child3/nested` },
+        guardedStreamFrom([ 'data' ]),
+        new RepresentationMetadata(),
+      );
+      // Marker object for the container, as created by some tools
+      objects.set('pods/container/', { data: Buffer.from(''), modified });
+    });
+
+    it('returns the metadata of all children.', async(): Promise<void> => {
+      const children = [];
+      for await (const child of accessor.getChildren({ path: `${base}container/` })) {
+        children.push(child);
+      }
+      expect(await getChildPaths(children)).toEqual([
+        `${base}container/child1`,
+        `${base}container/child2`,
+        `${base}container/child3/`,
+        `${base}container/child4`,
+      ]);
+      const document = children.find((child): boolean => child.identifier.value === `${base}container/child1`)!;
+      expect(document.getAll(RDF.terms.type)).toEqualRdfTermArray([ LDP.terms.Resource ]);
+      expect(document.get(POSIX.terms.size)).toEqualRdfTerm(toLiteral(4, XSD.terms.integer));
+      expect(document.get(DC.terms.modified)).toEqualRdfTerm(toLiteral(modified.toISOString(), XSD.terms.dateTime));
+      const container = children.find((child): boolean => child.identifier.value === `${base}container/child3/`)!;
+      expect(container.getAll(RDF.terms.type)).toEqualRdfTermArray(
+        [ LDP.terms.Container, LDP.terms.BasicContainer, LDP.terms.Resource ],
+      );
+    });
+
+    it('returns a page of children.', async(): Promise<void> => {
+      await expect(getChildPaths(accessor.getChildren({ path: `${base}container/` }, { limit: 2 })))
+        .resolves.toEqual([ `${base}container/child1`, `${base}container/child2` ]);
+      await expect(getChildPaths(accessor.getChildren({ path: `${base}container/` },
+        { limit: 2, after: `${base}container/child2` })))
+        .resolves.toEqual([ `${base}container/child3/`, `${base}container/child4` ]);
+      await expect(getChildPaths(accessor.getChildren({ path: `${base}container/` },
+        { limit: 1, after: `${base}container/child3/` })))
+        .resolves.toEqual([ `${base}container/child4` ]);
+      await expect(getChildPaths(accessor.getChildren({ path: `${base}container/` },
+        { limit: 5, after: `${base}a` })))
+        .resolves.toHaveLength(4);
+    });
+
+    it('sorts the children of a page.', async(): Promise<void> => {
+      send.mockResolvedValueOnce({ Contents: [{ Key: 'pods/container/child2' }, { Key: 'pods/container/child1' }]});
+      const paths = [];
+      for await (const child of accessor.getChildren({ path: `${base}container/` }, { limit: 2 })) {
+        paths.push(child.identifier.value);
+      }
+      expect(paths).toEqual([ `${base}container/child1`, `${base}container/child2` ]);
+    });
+
+    it('can handle incomplete responses.', async(): Promise<void> => {
+      send.mockResolvedValueOnce({});
+      await expect(getChildPaths(accessor.getChildren({ path: `${base}container/` }))).resolves.toEqual([]);
+      send.mockResolvedValueOnce({ Contents: [{ Key: 'pods/container/child1' }]});
+      const children = [];
+      for await (const child of accessor.getChildren({ path: `${base}container/` })) {
+        children.push(child);
+      }
+      expect(children).toHaveLength(1);
+      expect(children[0].get(DC.terms.modified)).toBeUndefined();
+      expect(children[0].get(POSIX.terms.size)).toBeUndefined();
+    });
+  });
+
+  describe('deleting resources', (): void => {
+    it('removes the document and sidecar objects.', async(): Promise<void> => {
+      await accessor.writeDocument(
+        { path: `${base}resource` },
+        guardedStreamFrom([ 'data' ]),
+        new RepresentationMetadata({ [likes.value]: 'apples' }),
+      );
+      await expect(accessor.deleteResource({ path: `${base}resource` })).resolves.toBeUndefined();
+      expect([ ...objects.keys() ]).toEqual([ 'pods/.meta' ]);
+    });
+
+    it('removes the sidecar object of containers.', async(): Promise<void> => {
+      await accessor.writeContainer({ path: `${base}container/` }, new RepresentationMetadata());
+      await expect(accessor.deleteResource({ path: `${base}container/` })).resolves.toBeUndefined();
+      expect([ ...objects.keys() ]).toEqual([ 'pods/.meta' ]);
+    });
+
+    it('throws a 404 if the resource does not exist.', async(): Promise<void> => {
+      await expect(accessor.deleteResource({ path: `${base}resource` })).rejects.toThrow(NotFoundHttpError);
+    });
+  });
+});
@@ -135,6 +135,29 @@ describe('A SparqlDataAccessor', (): void => {
     ));
   });
 
+  it('only requests the children of the requested page.', async(): Promise<void> => {
+    triples = [ quad(namedNode('http://container/'), LDP.terms.contains, namedNode('http://container/child')) ];
+    const children = [];
+    for await (const child of accessor.getChildren({ path: 'http://container/' }, { limit: 5 })) {
+      children.push(child);
+    }
+    expect(children).toHaveLength(1);
+    expect(simplifyQuery(fetchTriples.mock.calls[0][1])).toBe(simplifyQuery(
+      'CONSTRUCT { ?s ?p ?o. } WHERE { GRAPH <http://container/> { ?s ?p ?o. } } ORDER BY (STR(?o)) LIMIT 5',
+    ));
+
+    for await (const child of accessor.getChildren({ path: 'http://container/' },
+      { limit: 5, after: 'http://container/a' })) {
+      children.push(child);
+    }
+    expect(simplifyQuery(fetchTriples.mock.calls[1][1])).toBe(simplifyQuery([
+      'CONSTRUCT { ?s ?p ?o. } WHERE {',
+      '  GRAPH <http://container/> { ?s ?p ?o. }',
+      '  FILTER((STR(?o)) > "http://container/a")',
+      '} ORDER BY (STR(?o)) LIMIT 5',
+    ]));
+  });
+
   it('throws 404 if no metadata was found.', async(): Promise<void> => {
     // Clear triples array
     triples = [];
@@ -0,0 +1,250 @@
+import 'jest-rdf';
+import type { Readable } from 'stream';
+import { DataFactory } from 'n3';
+import { BasicRepresentation } from '../../../../src/http/representation/BasicRepresentation';
+import { RepresentationMetadata } from '../../../../src/http/representation/RepresentationMetadata';
+import { SqliteDataAccessor } from '../../../../src/storage/accessors/SqliteDataAccessor';
+import { APPLICATION_OCTET_STREAM } from '../../../../src/util/ContentTypes';
+import { NotFoundHttpError } from '../../../../src/util/errors/NotFoundHttpError';
+import type { Guarded } from '../../../../src/util/GuardedStream';
+import { SingleRootIdentifierStrategy } from '../../../../src/util/identifiers/SingleRootIdentifierStrategy';
+import { guardedStreamFrom, readableToString } from '../../../../src/util/StreamUtil';
+import { toLiteral } from '../../../../src/util/TermUtil';
+import { CONTENT_TYPE, DC, IANA, LDP, POSIX, RDF, SOLID_META, XSD } from '../../../../src/util/Vocabularies';
+import { getTestFolder, removeFolder } from '../../../integration/Config';
+const { literal, namedNode } = DataFactory;
+
+// Uses an actual database file, as mocking all the queries would not test anything useful
+const rootFilePath = getTestFolder('SqliteDataAccessor');
+
+async function getChildPaths(children: AsyncIterable<RepresentationMetadata>): Promise<string[]> {
+  const paths = [];
+  for await (const child of children) {
+    paths.push(child.identifier.value);
+  }
+  return paths.sort((path1, path2): number => path1.localeCompare(path2));
+}
+
+describe('An SqliteDataAccessor', (): void => {
+  const base = 'http://test.com/';
+  const likes = namedNode(`${base}likes`);
+  let accessor: SqliteDataAccessor;
+  let metadata: RepresentationMetadata;
+  let data: Guarded<Readable>;
+
+  beforeEach(async(): Promise<void> => {
+    accessor = new SqliteDataAccessor(new SingleRootIdentifierStrategy(base), { rootFilePath });
+
+    // Most tests depend on there already being a root container
+    await accessor.writeContainer({ path: base }, new RepresentationMetadata());
+
+    metadata = new RepresentationMetadata(APPLICATION_OCTET_STREAM);
+    data = guardedStreamFrom([ 'da', Buffer.from('ta') ]);
+  });
+
+  afterEach(async(): Promise<void> => {
+    await accessor.finalize();
+    await removeFolder(rootFilePath);
+  });
+
+  it('can only handle binary data.', async(): Promise<void> => {
+    await expect(accessor.canHandle({ binary: true } as any)).resolves.toBeUndefined();
+    const result = accessor.canHandle(new BasicRepresentation([], 'internal/quads', false));
+    await expect(result).rejects.toThrow('Only binary data is supported.');
+  });
+
+  it('can store the database at a custom location.', async(): Promise<void> => {
+    await accessor.finalize();
+    accessor = new SqliteDataAccessor(new SingleRootIdentifierStrategy(base),
+      { rootFilePath, databaseFile: 'custom/db.sqlite' });
+    await expect(accessor.getMetadata({ path: base })).rejects.toThrow(NotFoundHttpError);
+  });
+
+  describe('reading and writing data', (): void => {
+    it('throws a 404 if the identifier does not match an existing document.', async(): Promise<void> => {
+      await expect(accessor.getData({ path: `${base}resource` })).rejects.toThrow(NotFoundHttpError);
+    });
+
+    it('throws a 404 if the identifier matches a container.', async(): Promise<void> => {
+      await expect(accessor.getData({ path: base })).rejects.toThrow(NotFoundHttpError);
+    });
+
+    it('returns the corresponding data every time.', async(): Promise<void> => {
+      await expect(accessor.writeDocument({ path: `${base}resource` }, data, metadata)).resolves.toBeUndefined();
+
+      // Run twice to make sure the data is stored correctly
+      await expect(readableToString(await accessor.getData({ path: `${base}resource` }))).resolves.toBe('data');
+      await expect(readableToString(await accessor.getData({ path: `${base}resource` }))).resolves.toBe('data');
+    });
+
+    it('can return a range of the data.', async(): Promise<void> => {
+      await accessor.writeDocument({ path: `${base}resource` }, data, metadata);
+      const result = await accessor.getData({ path: `${base}resource` }, { start: 1, end: 2 });
+      await expect(readableToString(result)).resolves.toBe('at');
+    });
+
+    it('can store empty documents.', async(): Promise<void> => {
+      await accessor.writeDocument({ path: `${base}resource` }, guardedStreamFrom([]), metadata);
+      await expect(readableToString(await accessor.getData({ path: `${base}resource` }))).resolves.toBe('');
+    });
+
+    it('does not change anything if reading the data fails.', async(): Promise<void> => {
+      await accessor.writeDocument({ path: `${base}resource` }, data, metadata);
+      data = guardedStreamFrom([ 'new' ]);
+      data.read = (): any => {
+        data.emit('error', new Error('bad data'));
+        return null;
+      };
+      await expect(accessor.writeDocument({ path: `${base}resource` }, data, metadata)).rejects.toThrow('bad data');
+      await expect(readableToString(await accessor.getData({ path: `${base}resource` }))).resolves.toBe('data');
+    });
+  });
+
+  describe('reading and writing metadata', (): void => {
+    it('throws a 404 if the identifier does not match an existing resource.', async(): Promise<void> => {
+      await expect(accessor.getMetadata({ path: `${base}resource` })).rejects.toThrow(NotFoundHttpError);
+      await expect(accessor.getMetadata({ path: `${base}container/` })).rejects.toThrow(NotFoundHttpError);
+    });
+
+    it('returns the stored metadata of a document with the generated metadata.', async(): Promise<void> => {
+      const modified = new Date('2020-01-01T10:00:00.000Z');
+      metadata.identifier = namedNode(`${base}resource`);
+      metadata.add(likes, literal('apples'));
+      metadata.add(DC.terms.modified, toLiteral(modified.toISOString(), XSD.terms.dateTime));
+      metadata.add(RDF.terms.type, LDP.terms.Resource);
+      metadata.addQuad(namedNode(`${base}s`), namedNode(`${base}p`), namedNode(`${base}o`), namedNode(`${base}g`));
+      await accessor.writeDocument({ path: `${base}resource` }, data, metadata);
+
+      const result = await accessor.getMetadata({ path: `${base}resource` });
+      expect(result.identifier.value).toBe(`${base}resource`);
+      expect(result.contentType).toBe(APPLICATION_OCTET_STREAM);
+      expect(result.get(likes)).toEqualRdfTerm(literal('apples'));
+      expect(result.quads(namedNode(`${base}s`), null, null, namedNode(`${base}g`))).toHaveLength(1);
+      expect(result.getAll(RDF.terms.type)).toEqualRdfTermArray([ LDP.terms.Resource ]);
+      expect(result.get(DC.terms.modified)).toEqualRdfTerm(toLiteral(modified.toISOString(), XSD.terms.dateTime));
+      expect(result.quads(null, POSIX.terms.size, toLiteral(4, XSD.terms.integer), SOLID_META.terms.ResponseMetadata))
+        .toHaveLength(1);
+    });
+
+    it('returns the metadata of a container.', async(): Promise<void> => {
+      metadata = new RepresentationMetadata({ path: `${base}container/` }, { [CONTENT_TYPE]: 'text/turtle' });
+      metadata.add(likes, literal('apples'));
+      await accessor.writeContainer({ path: `${base}container/` }, metadata);
+
+      const result = await accessor.getMetadata({ path: `${base}container/` });
+      expect(result.contentType).toBeUndefined();
+      expect(result.get(likes)).toEqualRdfTerm(literal('apples'));
+      expect(result.getAll(RDF.terms.type)).toEqualRdfTermArray(
+        [ LDP.terms.Container, LDP.terms.BasicContainer, LDP.terms.Resource ],
+      );
+      expect(result.get(DC.terms.modified)).toBeDefined();
+      expect(result.get(POSIX.terms.size)).toBeUndefined();
+    });
+
+    it('only updates the metadata when writing an existing container.', async(): Promise<void> => {
+      await accessor.writeContainer({ path: `${base}container/` }, metadata);
+      await accessor.writeDocument({ path: `${base}container/resource` }, data, metadata);
+      metadata = new RepresentationMetadata({ path: `${base}container/` });
+      metadata.add(likes, literal('apples'));
+      await accessor.writeContainer({ path: `${base}container/` }, metadata);
+
+      const result = await accessor.getMetadata({ path: `${base}container/` });
+      expect(result.get(likes)).toEqualRdfTerm(literal('apples'));
+      await expect(getChildPaths(accessor.getChildren({ path: `${base}container/` })))
+        .resolves.toEqual([ `${base}container/resource` ]);
+    });
+
+    it('can replace the metadata of a resource without changing its content-type.', async(): Promise<void> => {
+      metadata.add(likes, literal('apples'));
+      await accessor.writeDocument({ path: `${base}resource` }, data, metadata);
+      metadata = new RepresentationMetadata({ path: `${base}resource` }, 'text/turtle');
+      metadata.add(likes, literal('pears'));
+      await expect(accessor.writeMetadata({ path: `${base}resource` }, metadata)).resolves.toBeUndefined();
+
+      const result = await accessor.getMetadata({ path: `${base}resource` });
+      expect(result.contentType).toBe(APPLICATION_OCTET_STREAM);
+      expect(result.getAll(likes)).toEqualRdfTermArray([ literal('pears') ]);
+      await expect(readableToString(await accessor.getData({ path: `${base}resource` }))).resolves.toBe('data');
+    });
+  });
+
+  describe('reading children', (): void => {
+    beforeEach(async(): Promise<void> => {
+      await accessor.writeContainer({ path: `${base}container/` }, new RepresentationMetadata());
+      await accessor.writeContainer({ path: `${base}container/child3/` }, new RepresentationMetadata());
+      await accessor.writeDocument({ path: `${base}container/child1` }, data, metadata);
+      const turtleMetadata = new RepresentationMetadata('text/turtle');
+      await accessor.writeDocument({ path: `${base}container/child2` }, guardedStreamFrom([ 'data' ]), turtleMetadata);
+      await accessor.writeDocument({ path: `${base}container/child3/nested` }, guardedStreamFrom([]), turtleMetadata);
+    });
+
+    it('returns the metadata of all children.', async(): Promise<void> => {
+      const children = [];
+      for await (const child of accessor.getChildren({ path: `${base}container/` })) {
+        children.push(child);
+      }
+      children.sort((child1, child2): number => child1.identifier.value < child2.identifier.value ? -1 : 1);
+
+      expect(children.map((child): string => child.identifier.value)).toEqual([
+        `${base}container/child1`,
+        `${base}container/child2`,
+        `${base}container/child3/`,
+      ]);
+      expect(children[0].getAll(RDF.terms.type)).toEqualRdfTermArray([
+        LDP.terms.Resource,
+        namedNode(`${IANA.namespace}${APPLICATION_OCTET_STREAM}#Resource`),
+      ]);
+      expect(children[0].get(POSIX.terms.size)).toEqualRdfTerm(toLiteral(4, XSD.terms.integer));
+      expect(children[0].get(DC.terms.modified)).toBeDefined();
+      expect(children[2].getAll(RDF.terms.type)).toEqualRdfTermArray(
+        [ LDP.terms.Container, LDP.terms.BasicContainer, LDP.terms.Resource ],
+      );
+      expect(children[2].get(POSIX.terms.size)).toBeUndefined();
+    });
+
+    it('returns a page of children.', async(): Promise<void> => {
+      await expect(getChildPaths(accessor.getChildren({ path: `${base}container/` }, { limit: 2 })))
+        .resolves.toEqual([ `${base}container/child1`, `${base}container/child2` ]);
+      await expect(getChildPaths(accessor.getChildren({ path: `${base}container/` },
+        { limit: 2, after: `${base}container/child2` })))
+        .resolves.toEqual([ `${base}container/child3/` ]);
+    });
+
+    it('does not generate IANA URIs for children with invalid content-types.', async(): Promise<void> => {
+      const invalidMetadata = new RepresentationMetadata({ [CONTENT_TYPE]: 'invalid' });
+      await accessor.writeDocument({ path: `${base}container/child1` }, guardedStreamFrom([ 'data' ]), invalidMetadata);
+      const children = [];
+      for await (const child of accessor.getChildren({ path: `${base}container/` }, { limit: 1 })) {
+        children.push(child);
+      }
+      expect(children).toHaveLength(1);
+      expect(children[0].getAll(RDF.terms.type)).toEqualRdfTermArray([ LDP.terms.Resource ]);
+    });
+  });
+
+  describe('deleting resources', (): void => {
+    it('throws a 404 if the resource does not exist.', async(): Promise<void> => {
+      await expect(accessor.deleteResource({ path: `${base}resource` })).rejects.toThrow(NotFoundHttpError);
+    });
+
+    it('removes the data and metadata of the resource.', async(): Promise<void> => {
+      metadata.add(likes, literal('apples'));
+      await accessor.writeDocument({ path: `${base}resource` }, data, metadata);
+      await expect(accessor.deleteResource({ path: `${base}resource` })).resolves.toBeUndefined();
+      await expect(accessor.getMetadata({ path: `${base}resource` })).rejects.toThrow(NotFoundHttpError);
+      await expect(getChildPaths(accessor.getChildren({ path: base }))).resolves.toEqual([]);
+
+      // Make sure no old metadata remains when creating the resource again
+      await accessor.writeDocument({ path: `${base}resource` }, guardedStreamFrom([]), new RepresentationMetadata());
+      const result = await accessor.getMetadata({ path: `${base}resource` });
+      expect(result.get(likes)).toBeUndefined();
+    });
+  });
+
+  it('keeps the data after reopening the database.', async(): Promise<void> => {
+    await accessor.writeDocument({ path: `${base}resource` }, data, metadata);
+    await accessor.finalize();
+    accessor = new SqliteDataAccessor(new SingleRootIdentifierStrategy(base), { rootFilePath });
+    await expect(readableToString(await accessor.getData({ path: `${base}resource` }))).resolves.toBe('data');
+  });
+});
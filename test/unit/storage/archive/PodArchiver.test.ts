@@ -0,0 +1,308 @@
+import { Readable } from 'stream';
+import type { Quad } from '@rdfjs/types';
+import arrayifyStream from 'arrayify-stream';
+import { DataFactory } from 'n3';
+import type { Headers } from 'tar-stream';
+import { extract, pack } from 'tar-stream';
+import { ComposedAuxiliaryStrategy } from '../../../../src/http/auxiliary/ComposedAuxiliaryStrategy';
+import { RoutingAuxiliaryStrategy } from '../../../../src/http/auxiliary/RoutingAuxiliaryStrategy';
+import { SuffixAuxiliaryIdentifierStrategy } from '../../../../src/http/auxiliary/SuffixAuxiliaryIdentifierStrategy';
+import { BasicRepresentation } from '../../../../src/http/representation/BasicRepresentation';
+import type { Representation } from '../../../../src/http/representation/Representation';
+import { RepresentationMetadata } from '../../../../src/http/representation/RepresentationMetadata';
+import type { ResourceIdentifier } from '../../../../src/http/representation/ResourceIdentifier';
+import { PodArchiver } from '../../../../src/storage/archive/PodArchiver';
+import type { ResourceStore } from '../../../../src/storage/ResourceStore';
+import { INTERNAL_QUADS } from '../../../../src/util/ContentTypes';
+import { BadRequestHttpError } from '../../../../src/util/errors/BadRequestHttpError';
+import { InternalServerError } from '../../../../src/util/errors/InternalServerError';
+import { NotFoundHttpError } from '../../../../src/util/errors/NotFoundHttpError';
+import { readableToString } from '../../../../src/util/StreamUtil';
+import { DC, LDP, PIM, POSIX, RDF, SOLID_META } from '../../../../src/util/Vocabularies';
+const { literal, namedNode, quad } = DataFactory;
+
+interface Entry {
+  header: Headers & { pax?: NodeJS.Dict<string> };
+  data: string;
+}
+
+interface Resource {
+  data?: string;
+  quads?: Quad[];
+  contentType?: string;
+  // Size to report in the metadata, `true` reports the actual size
+  size?: true | number;
+}
+
+async function readArchive(archive: Readable): Promise<Entry[]> {
+  const entries: Entry[] = [];
+  const reader = extract();
+  reader.on('entry', (header, stream, next): void => {
+    readableToString(stream).then((data): void => {
+      entries.push({ header, data });
+      next();
+    }).catch(next);
+  });
+  return new Promise((resolve, reject): void => {
+    reader.on('finish', (): void => resolve(entries));
+    reader.on('error', reject);
+    archive.on('error', reject);
+    archive.pipe(reader);
+  });
+}
+
+async function createArchive(entries: { header: Headers & { pax?: NodeJS.Dict<string> }; data?: string }[]):
+Promise<Readable> {
+  const archive = pack();
+  for (const { header, data } of entries) {
+    archive.entry(header, data);
+  }
+  archive.finalize();
+  return archive;
+}
+
+describe('A PodArchiver', (): void => {
+  const baseUrl = 'http://test.com/';
+  const pod = `${baseUrl}alice/`;
+  const storage = { path: pod };
+  const modified = '2022-01-01T00:00:00.000Z';
+  const metadataStrategy = new ComposedAuxiliaryStrategy(new SuffixAuxiliaryIdentifierStrategy('.meta'));
+  const auxiliaryStrategy = new RoutingAuxiliaryStrategy([
+    new ComposedAuxiliaryStrategy(new SuffixAuxiliaryIdentifierStrategy('.acl')),
+    metadataStrategy,
+  ]);
+  let resources: Map<string, Resource>;
+  let store: jest.Mocked<ResourceStore>;
+  let archiver: PodArchiver;
+
+  function getRepresentation({ path }: ResourceIdentifier): Representation {
+    const resource = resources.get(path);
+    if (!resource) {
+      throw new NotFoundHttpError();
+    }
+    const metadata = new RepresentationMetadata({ path }, resource.contentType);
+    if (resource.data !== 'unsized') {
+      metadata.add(DC.terms.modified, literal(modified));
+    }
+    metadata.add(POSIX.terms.mtime, literal(1234), SOLID_META.terms.ResponseMetadata);
+    if (path === pod || path === `${pod}other/`) {
+      metadata.add(RDF.terms.type, PIM.terms.Storage);
+    }
+    if (path.endsWith('/')) {
+      for (const child of resources.keys()) {
+        const relative = child.slice(path.length);
+        if (child.startsWith(path) && /^[^/]+\/?$/u.test(relative) &&
+          !auxiliaryStrategy.isAuxiliaryIdentifier({ path: child })) {
+          metadata.add(LDP.terms.contains, namedNode(child), SOLID_META.terms.ResponseMetadata);
+          metadata.addQuad(child, RDF.terms.type, LDP.terms.Resource, SOLID_META.terms.ResponseMetadata);
+        }
+      }
+      return new BasicRepresentation([], metadata, false);
+    }
+    if (resource.size !== undefined) {
+      const size = resource.size === true ? Buffer.byteLength(resource.data!) : resource.size;
+      metadata.add(POSIX.terms.size, literal(size), SOLID_META.terms.ResponseMetadata);
+    }
+    if (resource.quads) {
+      return new BasicRepresentation(resource.quads, metadata, INTERNAL_QUADS);
+    }
+    return new BasicRepresentation(resource.data!, metadata);
+  }
+
+  beforeEach(async(): Promise<void> => {
+    resources = new Map<string, Resource>([
+      [ baseUrl, {}],
+      [ pod, {}],
+      [ `${pod}.acl`, { data: '<#root> a <#Authorization>.', contentType: 'text/turtle', size: true }],
+      [ `${pod}container/`, {}],
+      [ `${pod}container/document.ttl`, {
+        quads: [ quad(namedNode(`${pod}container/document.ttl`), namedNode('a:b'), namedNode('a:c')) ],
+      }],
+      [ `${pod}container/text.txt`, { data: 'text', contentType: 'text/plain', size: true }],
+      [ `${pod}container/unsized.txt`, { data: 'unsized', contentType: 'text/plain' }],
+      [ `${pod}other/`, {}],
+      [ `${pod}other/text.txt`, { data: 'other', contentType: 'text/plain', size: true }],
+      [ `${pod}ignored/`, {}],
+    ]);
+
+    store = {
+      getRepresentation: jest.fn(async(id: ResourceIdentifier): Promise<Representation> => getRepresentation(id)),
+      setRepresentation: jest.fn(async(id: ResourceIdentifier, representation: Representation): Promise<any> => {
+        // Consume the data to make sure the archive continues
+        const data = await arrayifyStream(representation.data);
+        const { contentType } = representation.metadata;
+        resources.set(id.path, contentType === INTERNAL_QUADS ? { quads: data } : { data: data.join(''), contentType });
+        return new Map();
+      }),
+      hasResource: jest.fn(async(id: ResourceIdentifier): Promise<boolean> => resources.has(id.path)),
+    } as any;
+
+    archiver = new PodArchiver({
+      store,
+      auxiliaryStrategy,
+      metadataStrategy,
+      baseUrl,
+      ignoredPaths: [ '^/alice/ignored/' ],
+    });
+  });
+
+  describe('exporting a storage', (): void => {
+    it('adds an entry for every resource in the storage.', async(): Promise<void> => {
+      const entries = await readArchive(archiver.export(storage));
+      expect(entries.map((entry): string => entry.header.name)).toEqual([
+        './',
+        '.acl',
+        'container/',
+        'container/document.ttl',
+        'container/text.txt',
+        'container/unsized.txt',
+      ]);
+      expect(entries[0].header.type).toBe('directory');
+      expect(entries[0].header.mtime).toEqual(new Date(modified));
+      expect(entries.every((entry): boolean => entry.header.pax!['CSS.storage'] === pod)).toBe(true);
+    });
+
+    it('stores the data and content types of the documents.', async(): Promise<void> => {
+      const entries = await readArchive(archiver.export(storage));
+      expect(entries[1].data).toBe('<#root> a <#Authorization>.');
+      expect(entries[1].header.pax!['CSS.contentType']).toBe('text/turtle');
+      expect(entries[3].data).toBe('<http://test.com/alice/container/document.ttl> <a:b> <a:c>.\n');
+      expect(entries[3].header.pax!['CSS.contentType']).toBe('text/turtle');
+      expect(entries[4].data).toBe('text');
+      expect(entries[4].header.size).toBe(4);
+      expect(entries[4].header.pax!['CSS.contentType']).toBe('text/plain');
+      expect(entries[5].data).toBe('unsized');
+      expect(entries[5].header.mtime).toBeDefined();
+    });
+
+    it('only stores the metadata that is not generated.', async(): Promise<void> => {
+      const entries = await readArchive(archiver.export(storage));
+      const rootMetadata = entries[0].header.pax!['CSS.metadata'];
+      expect(rootMetadata).toContain(PIM.Storage);
+      expect(rootMetadata).toContain(DC.modified);
+      expect(rootMetadata).not.toContain(LDP.contains);
+      expect(rootMetadata).not.toContain(POSIX.mtime);
+      expect(entries[4].header.pax!['CSS.metadata']).not.toContain(POSIX.size);
+    });
+
+    it('does not add metadata resources that exist separately.', async(): Promise<void> => {
+      resources.set(`${pod}container/text.txt.meta`, { data: 'meta', contentType: 'text/turtle' });
+      const entries = await readArchive(archiver.export(storage));
+      expect(entries.map((entry): string => entry.header.name)).not.toContain('container/text.txt.meta');
+    });
+
+    it('errors if a resource could not be read.', async(): Promise<void> => {
+      store.getRepresentation.mockImplementation(async(id: ResourceIdentifier): Promise<Representation> => {
+        if (id.path.endsWith('.acl')) {
+          throw new InternalServerError('bad data');
+        }
+        return getRepresentation(id);
+      });
+      await expect(readArchive(archiver.export(storage))).rejects.toThrow('bad data');
+    });
+
+    it('errors if the size of a document is wrong.', async(): Promise<void> => {
+      resources.set(`${pod}container/text.txt`, { data: 'text', contentType: 'text/plain', size: 10 });
+      await expect(readArchive(archiver.export(storage))).rejects.toThrow();
+    });
+
+    it('exports everything if there are no ignored paths.', async(): Promise<void> => {
+      archiver = new PodArchiver({ store, auxiliaryStrategy, metadataStrategy, baseUrl });
+      const entries = await readArchive(archiver.export(storage));
+      expect(entries.map((entry): string => entry.header.name)).toContain('ignored/');
+    });
+
+    it('only matches ignored paths of resources on the server.', async(): Promise<void> => {
+      archiver = new PodArchiver({ store, auxiliaryStrategy, metadataStrategy, baseUrl: 'http://other.com/' });
+      const entries = await readArchive(archiver.export(storage));
+      expect(entries.map((entry): string => entry.header.name)).toContain('ignored/');
+    });
+  });
+
+  describe('importing an archive', (): void => {
+    const target = { path: 'http://other.com/bob/' };
+
+    async function exportStorage(): Promise<Readable> {
+      const data: Buffer[] = await arrayifyStream(archiver.export(storage));
+      resources = new Map([[ target.path, {}]]);
+      return Readable.from([ Buffer.concat(data) ]);
+    }
+
+    it('writes all the resources to the target storage.', async(): Promise<void> => {
+      const archive = await exportStorage();
+      await expect(archiver.import(target, archive)).resolves.toBe(6);
+
+      expect(store.setRepresentation).toHaveBeenCalledTimes(6);
+      expect(resources.get(`${target.path}.acl`)).toEqual({
+        data: '<#root> a <#Authorization>.',
+        contentType: 'text/turtle',
+      });
+      expect(resources.get(`${target.path}container/text.txt`)).toEqual({ data: 'text', contentType: 'text/plain' });
+      expect(resources.get(`${target.path}container/document.ttl`)).toEqual({
+        data: '<http://test.com/alice/container/document.ttl> <a:b> <a:c>.\n',
+        contentType: 'text/turtle',
+      });
+    });
+
+    it('changes the storage root in the metadata.', async(): Promise<void> => {
+      const archive = await exportStorage();
+      await archiver.import(target, archive);
+
+      // The existing root container gets updated through its metadata resource
+      const [ rootId, rootRepresentation ] = store.setRepresentation.mock.calls[0];
+      expect(rootId).toEqual({ path: `${target.path}.meta` });
+      expect(rootRepresentation.metadata.contentType).toBe(INTERNAL_QUADS);
+      expect(resources.get(`${target.path}.meta`)!.quads).toEqual(expect.arrayContaining([
+        quad(namedNode(target.path), RDF.terms.type, PIM.terms.Storage),
+      ]));
+
+      // New containers get created with their metadata
+      const [ containerId, containerRepresentation ] = store.setRepresentation.mock.calls[2];
+      expect(containerId).toEqual({ path: `${target.path}container/` });
+      expect(containerRepresentation.metadata.identifier.value).toBe(`${target.path}container/`);
+      expect(containerRepresentation.metadata.contentType).toBeUndefined();
+      expect(containerRepresentation.metadata.get(DC.terms.modified)?.value).toBe(modified);
+
+      const [ , document ] = store.setRepresentation.mock.calls[3];
+      expect(document.metadata.identifier.value).toBe(`${target.path}container/document.ttl`);
+    });
+
+    it('can import archives without additional information.', async(): Promise<void> => {
+      const archive = await createArchive([
+        { header: { name: 'folder/', type: 'directory' }},
+        { header: { name: 'folder/file.txt', type: 'file' }, data: 'data' },
+      ]);
+      await expect(archiver.import(target, archive)).resolves.toBe(2);
+      expect(store.setRepresentation.mock.calls[1][1].metadata.quads()).toHaveLength(0);
+      expect(resources.get(`${target.path}folder/file.txt`)).toEqual({ data: 'data' });
+    });
+
+    it('skips entries of unsupported types.', async(): Promise<void> => {
+      const archive = await createArchive([
+        { header: { name: 'link', type: 'symlink', linkname: 'file.txt' }},
+        { header: { name: 'file.txt', type: 'file' }, data: 'data' },
+      ]);
+      await expect(archiver.import(target, archive)).resolves.toBe(1);
+      expect(store.setRepresentation).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects entries outside of the storage.', async(): Promise<void> => {
+      const archive = await createArchive([{ header: { name: '../file.txt', type: 'file' }, data: 'data' }]);
+      await expect(archiver.import(target, archive)).rejects.toThrow(BadRequestHttpError);
+      expect(store.setRepresentation).toHaveBeenCalledTimes(0);
+    });
+
+    it('rejects invalid archives.', async(): Promise<void> => {
+      const data = Readable.from([ Buffer.alloc(512, 'not a tar archive') ]);
+      const result = archiver.import(target, data);
+      await expect(result).rejects.toThrow(BadRequestHttpError);
+      await expect(result).rejects.toThrow('Unable to import the archive');
+    });
+
+    it('throws the error if a resource could not be written.', async(): Promise<void> => {
+      store.setRepresentation.mockRejectedValueOnce(new InternalServerError('bad data'));
+      const archive = await createArchive([{ header: { name: 'file.txt', type: 'file' }, data: 'data' }]);
+      await expect(archiver.import(target, archive)).rejects.toThrow(InternalServerError);
+    });
+  });
+});
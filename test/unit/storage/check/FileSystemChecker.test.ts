@@ -0,0 +1,144 @@
+import { outputFile, mkdirs, pathExists, readFile } from 'fs-extra';
+import { SuffixAuxiliaryIdentifierStrategy } from '../../../../src/http/auxiliary/SuffixAuxiliaryIdentifierStrategy';
+import type { FileSystemIssue } from '../../../../src/storage/check/FileSystemChecker';
+import { FileSystemChecker } from '../../../../src/storage/check/FileSystemChecker';
+import { RdfToQuadConverter } from '../../../../src/storage/conversion/RdfToQuadConverter';
+import { ExtensionBasedMapper } from '../../../../src/storage/mapping/ExtensionBasedMapper';
+import { joinFilePath } from '../../../../src/util/PathUtil';
+import { getTestFolder, removeFolder } from '../../../integration/Config';
+
+const rootFilePath = getTestFolder('FileSystemChecker');
+const lostAndFoundPath = joinFilePath(rootFilePath, '.internal/lost+found/');
+
+function path(relative: string): string {
+  return joinFilePath(rootFilePath, relative);
+}
+
+function createIssue(type: string, relative: string, repairable: boolean, identifier?: string): FileSystemIssue {
+  const issue = { type, filePath: path(relative), repairable, repaired: false };
+  return expect.objectContaining(identifier ? { ...issue, identifier } : issue);
+}
+
+describe('A FileSystemChecker', (): void => {
+  const baseUrl = 'http://test.com/';
+  const acl = '<#auth> a <http://www.w3.org/ns/auth/acl#Authorization>.';
+  let mapper: ExtensionBasedMapper;
+  let checker: FileSystemChecker;
+
+  beforeEach(async(): Promise<void> => {
+    await outputFile(path('.acl'), acl);
+    await outputFile(path('.meta'), '<> <a:b> "root".');
+    await outputFile(path('document.ttl'), '<a:a> <a:b> <a:c>.');
+    await outputFile(path('document.ttl.meta'), '<> <a:b> "document".');
+    await outputFile(path('document.ttl.acl'), acl);
+    await outputFile(path('container/.meta'), '<> <a:b> "container".');
+    await outputFile(path('container/text$.txt'), 'text');
+    await outputFile(path('container/.acl$.jsonld'),
+      '{ "@id": "#auth", "@type": "http://www.w3.org/ns/auth/acl#Authorization" }');
+    await mkdirs(path('container/empty/'));
+    await outputFile(path('.internal/locks/a$.b$.c'), '');
+
+    mapper = new ExtensionBasedMapper(baseUrl, rootFilePath);
+    checker = new FileSystemChecker({
+      mapper,
+      rootFilePath,
+      baseUrl,
+      converter: new RdfToQuadConverter(),
+      lostAndFoundPath,
+      aclStrategy: new SuffixAuxiliaryIdentifierStrategy('.acl'),
+      ignoredPaths: [ '^/\\.internal/locks/' ],
+    });
+  });
+
+  afterEach(async(): Promise<void> => {
+    jest.restoreAllMocks();
+    await removeFolder(rootFilePath);
+  });
+
+  it('finds no issues in consistent data.', async(): Promise<void> => {
+    await expect(checker.check()).resolves.toEqual([]);
+  });
+
+  it('finds the inconsistencies in the data.', async(): Promise<void> => {
+    await removeFolder(path('.acl'));
+    await outputFile(path('missing.ttl.meta'), '<> <a:b> "missing".');
+    await outputFile(path('container.meta'), '<> <a:b> "container".');
+    await outputFile(path('document$.ttl$.txt'), 'text');
+    await outputFile(path('invalid.meta/document.ttl'), '<a:a> <a:b> <a:c>.');
+    await outputFile(path('container$.txt'), 'text');
+    await outputFile(path('document.ttl.meta'), '<> <a:b>');
+    await outputFile(path('document.ttl.acl'), '<#auth> a');
+
+    const issues = await checker.check();
+    expect(issues).toHaveLength(8);
+    expect(issues).toEqual(expect.arrayContaining([
+      createIssue('missingRootAcl', '.acl', false, `${baseUrl}.acl`),
+      createIssue('orphanedMetadata', 'missing.ttl.meta', true, `${baseUrl}missing.ttl`),
+      createIssue('orphanedMetadata', 'container.meta', true, `${baseUrl}container`),
+      createIssue('unmappablePath', 'document$.ttl$.txt', true),
+      createIssue('unmappablePath', 'invalid.meta', true),
+      createIssue('conflictingResource', 'container$.txt', false, `${baseUrl}container`),
+      createIssue('invalidRdf', 'document.ttl.meta', true, `${baseUrl}document.ttl`),
+      createIssue('invalidRdf', 'document.ttl.acl', false, `${baseUrl}document.ttl.acl`),
+    ]));
+  });
+
+  it('reports files that can not be mapped to a URL.', async(): Promise<void> => {
+    jest.spyOn(mapper, 'mapFilePathToUrl').mockImplementation(async(filePath, isContainer): Promise<any> => {
+      if (filePath.endsWith('container')) {
+        throw new Error('bad path');
+      }
+      return ExtensionBasedMapper.prototype.mapFilePathToUrl.call(mapper, filePath, isContainer);
+    });
+    await expect(checker.check()).resolves.toEqual([
+      createIssue('unmappablePath', 'container', true),
+    ]);
+  });
+
+  it('moves the repairable files to the lost and found folder.', async(): Promise<void> => {
+    jest.spyOn(Date, 'now').mockReturnValue(1234);
+    await outputFile(path('container/missing.ttl.meta'), '<> <a:b> "missing".');
+    await outputFile(path('invalid.meta/document.ttl'), '<a:a> <a:b> <a:c>.');
+    await outputFile(path('document.ttl.meta'), '<> <a:b>');
+    await outputFile(path('document.ttl.acl'), '<#auth> a');
+
+    const issues = await checker.check(true);
+    expect(issues).toHaveLength(4);
+    const repaired = issues.filter((issue): boolean => issue.repaired).map((issue): string => issue.filePath);
+    expect(repaired).toHaveLength(3);
+    expect(repaired).toEqual(expect.arrayContaining([
+      path('container/missing.ttl.meta'),
+      path('document.ttl.meta'),
+      path('invalid.meta'),
+    ]));
+
+    await expect(pathExists(path('container/missing.ttl.meta'))).resolves.toBe(false);
+    await expect(pathExists(path('invalid.meta'))).resolves.toBe(false);
+    await expect(pathExists(path('document.ttl.meta'))).resolves.toBe(false);
+    await expect(readFile(joinFilePath(lostAndFoundPath, '1234/container/missing.ttl.meta'), 'utf8'))
+      .resolves.toBe('<> <a:b> "missing".');
+    await expect(pathExists(joinFilePath(lostAndFoundPath, '1234/invalid.meta/document.ttl'))).resolves.toBe(true);
+    await expect(pathExists(joinFilePath(lostAndFoundPath, '1234/document.ttl.meta'))).resolves.toBe(true);
+    await expect(pathExists(path('document.ttl.acl'))).resolves.toBe(true);
+
+    // The lost and found folder is not checked
+    await expect(checker.check(true)).resolves.toEqual([
+      createIssue('invalidRdf', 'document.ttl.acl', false, `${baseUrl}document.ttl.acl`),
+    ]);
+  });
+
+  it('does not check ACL files if there is no ACL strategy.', async(): Promise<void> => {
+    await removeFolder(path('.acl'));
+    await outputFile(path('document.ttl.acl'), '<#auth> a');
+    checker = new FileSystemChecker({
+      mapper,
+      rootFilePath,
+      baseUrl,
+      converter: new RdfToQuadConverter(),
+      lostAndFoundPath,
+    });
+    await expect(checker.check()).resolves.toEqual([
+      createIssue('unmappablePath', '.internal/locks/a$.b$.c', true),
+    ]);
+  });
+});
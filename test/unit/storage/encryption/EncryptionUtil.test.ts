@@ -0,0 +1,149 @@
+import type { EncryptionKey } from '../../../../src/storage/encryption/EncryptionUtil';
+import {
+  decryptBuffer,
+  decryptStream,
+  encryptBuffer,
+  encryptStream,
+  ENCRYPTION_OVERHEAD,
+  generateEncryptionKey,
+} from '../../../../src/storage/encryption/EncryptionUtil';
+import { InternalServerError } from '../../../../src/util/errors/InternalServerError';
+import { guardedStreamFrom, readableToString } from '../../../../src/util/StreamUtil';
+
+async function streamToBuffer(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+describe('EncryptionUtil', (): void => {
+  const data = Buffer.from('some data that needs to be encrypted');
+  let key: EncryptionKey;
+  let resolveKey: jest.Mock;
+
+  beforeEach(async(): Promise<void> => {
+    key = generateEncryptionKey();
+    resolveKey = jest.fn().mockResolvedValue(key);
+  });
+
+  describe('#generateEncryptionKey', (): void => {
+    it('generates random 256-bit keys.', async(): Promise<void> => {
+      expect(key.id).toMatch(/^[0-9a-f]{32}$/u);
+      expect(key.key).toHaveLength(32);
+      expect(generateEncryptionKey().key.equals(key.key)).toBe(false);
+    });
+  });
+
+  describe('#encryptBuffer', (): void => {
+    it('encrypts the data with a constant overhead.', async(): Promise<void> => {
+      const encrypted = encryptBuffer(data, key);
+      expect(encrypted).toHaveLength(data.length + ENCRYPTION_OVERHEAD);
+      expect(encrypted.indexOf(data)).toBe(-1);
+      expect(encrypted.subarray(1, 17).toString('hex')).toBe(key.id);
+    });
+
+    it('uses a different initialization vector every time.', async(): Promise<void> => {
+      expect(encryptBuffer(data, key).equals(encryptBuffer(data, key))).toBe(false);
+    });
+
+    it('errors on invalid key IDs.', async(): Promise<void> => {
+      expect((): any => encryptBuffer(data, { id: 'invalid', key: key.key }))
+        .toThrow('Invalid encryption key ID invalid');
+      expect((): any => encryptBuffer(data, { id: 'ab', key: key.key })).toThrow(InternalServerError);
+    });
+  });
+
+  describe('#decryptBuffer', (): void => {
+    it('decrypts the data with the key it was encrypted with.', async(): Promise<void> => {
+      await expect(decryptBuffer(encryptBuffer(data, key), resolveKey)).resolves.toEqual(data);
+      expect(resolveKey).toHaveBeenCalledTimes(1);
+      expect(resolveKey).toHaveBeenLastCalledWith(key.id);
+    });
+
+    it('can decrypt empty data.', async(): Promise<void> => {
+      await expect(decryptBuffer(encryptBuffer(Buffer.alloc(0), key), resolveKey)).resolves.toHaveLength(0);
+    });
+
+    it('errors if the data is not encrypted.', async(): Promise<void> => {
+      await expect(decryptBuffer(Buffer.from('short'), resolveKey))
+        .rejects.toThrow('The data is not encrypted in a supported format.');
+      await expect(decryptBuffer(Buffer.alloc(100, 'a'), resolveKey))
+        .rejects.toThrow('The data is not encrypted in a supported format.');
+    });
+
+    it('errors if the data was tampered with.', async(): Promise<void> => {
+      const encrypted = encryptBuffer(data, key);
+      encrypted[40] += 1;
+      await expect(decryptBuffer(encrypted, resolveKey)).rejects.toThrow('Unable to decrypt the data.');
+    });
+
+    it('errors if the key is wrong.', async(): Promise<void> => {
+      resolveKey.mockResolvedValue({ ...generateEncryptionKey(), id: key.id });
+      await expect(decryptBuffer(encryptBuffer(data, key), resolveKey)).rejects.toThrow('Unable to decrypt the data.');
+    });
+  });
+
+  describe('#encryptStream', (): void => {
+    it('has the same format as encryptBuffer.', async(): Promise<void> => {
+      const encrypted = await streamToBuffer(encryptStream(guardedStreamFrom([ data.subarray(0, 5), data.subarray(5) ]),
+        key));
+      expect(encrypted).toHaveLength(data.length + ENCRYPTION_OVERHEAD);
+      await expect(decryptBuffer(encrypted, resolveKey)).resolves.toEqual(data);
+    });
+
+    it('can encrypt empty streams.', async(): Promise<void> => {
+      const encrypted = await streamToBuffer(encryptStream(guardedStreamFrom([]), key));
+      expect(encrypted).toHaveLength(ENCRYPTION_OVERHEAD);
+      await expect(decryptBuffer(encrypted, resolveKey)).resolves.toHaveLength(0);
+    });
+  });
+
+  describe('#decryptStream', (): void => {
+    it('decrypts the data.', async(): Promise<void> => {
+      const encrypted = encryptBuffer(data, key);
+      await expect(readableToString(decryptStream(guardedStreamFrom([ encrypted ]), resolveKey)))
+        .resolves.toBe(data.toString());
+    });
+
+    it('can handle the data in small chunks.', async(): Promise<void> => {
+      const encrypted = encryptBuffer(data, key);
+      const chunks = [];
+      for (let i = 0; i < encrypted.length; i += 3) {
+        chunks.push(encrypted.subarray(i, i + 3));
+      }
+      await expect(readableToString(decryptStream(guardedStreamFrom(chunks), resolveKey)))
+        .resolves.toBe(data.toString());
+    });
+
+    it('only returns the requested range.', async(): Promise<void> => {
+      const encrypted = encryptBuffer(data, key);
+      const chunks = [ encrypted.subarray(0, 35), encrypted.subarray(35, 50), encrypted.subarray(50) ];
+      await expect(readableToString(decryptStream(guardedStreamFrom(chunks), resolveKey, { start: 5, end: 8 })))
+        .resolves.toBe('data');
+      await expect(readableToString(decryptStream(guardedStreamFrom(chunks), resolveKey, { start: 30, end: 100 })))
+        .resolves.toBe(data.subarray(30).toString());
+    });
+
+    it('errors if the data is not encrypted.', async(): Promise<void> => {
+      await expect(readableToString(decryptStream(guardedStreamFrom([ 'short' ]), resolveKey)))
+        .rejects.toThrow('The data is not encrypted in a supported format.');
+      await expect(readableToString(decryptStream(guardedStreamFrom([ Buffer.alloc(35, 'a') ]), resolveKey)))
+        .rejects.toThrow('The data is not encrypted in a supported format.');
+    });
+
+    it('errors if the tag is missing.', async(): Promise<void> => {
+      const encrypted = encryptBuffer(Buffer.alloc(0), key);
+      await expect(readableToString(decryptStream(guardedStreamFrom([ encrypted.subarray(0, 40) ]), resolveKey)))
+        .rejects.toThrow('The data is not encrypted in a supported format.');
+    });
+
+    it('errors at the end if the data was tampered with.', async(): Promise<void> => {
+      const encrypted = encryptBuffer(data, key);
+      encrypted[40] += 1;
+      await expect(readableToString(decryptStream(guardedStreamFrom([ encrypted ]), resolveKey)))
+        .rejects.toThrow('Unable to decrypt the data.');
+    });
+  });
+});
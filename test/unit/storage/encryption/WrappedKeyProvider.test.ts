@@ -0,0 +1,82 @@
+import { randomBytes } from 'crypto';
+import type { CurrentKey } from '../../../../src/storage/encryption/WrappedKeyProvider';
+import { WrappedKeyProvider } from '../../../../src/storage/encryption/WrappedKeyProvider';
+import { MemoryMapStorage } from '../../../../src/storage/keyvalue/MemoryMapStorage';
+
+describe('A WrappedKeyProvider', (): void => {
+  const masterKey = randomBytes(32).toString('base64');
+  const storage = { path: 'http://localhost/alice/' };
+  let keyStorage: MemoryMapStorage<string>;
+  let currentKeyStorage: MemoryMapStorage<CurrentKey>;
+  let provider: WrappedKeyProvider;
+
+  beforeEach(async(): Promise<void> => {
+    keyStorage = new MemoryMapStorage();
+    currentKeyStorage = new MemoryMapStorage();
+    provider = new WrappedKeyProvider({ masterKey, keyStorage, currentKeyStorage });
+  });
+
+  it('errors if the master key is missing or invalid.', async(): Promise<void> => {
+    expect((): any => new WrappedKeyProvider({ keyStorage, currentKeyStorage }))
+      .toThrow('The encryption master key needs to be a base64 encoded 256-bit key.');
+    expect((): any => new WrappedKeyProvider({ masterKey: 'abc', keyStorage, currentKeyStorage }))
+      .toThrow('The encryption master key needs to be a base64 encoded 256-bit key.');
+  });
+
+  it('generates a key for every storage.', async(): Promise<void> => {
+    const key = await provider.getCurrentKey(storage);
+    expect(key.key).toHaveLength(32);
+    await expect(provider.getCurrentKey(storage)).resolves.toBe(key);
+    await expect(currentKeyStorage.get(storage.path)).resolves.toEqual({ id: key.id, created: expect.any(Number) });
+
+    const serverKey = await provider.getCurrentKey();
+    expect(serverKey.id).not.toBe(key.id);
+    await expect(currentKeyStorage.get('server')).resolves.toEqual({ id: serverKey.id, created: expect.any(Number) });
+  });
+
+  it('stores the keys encrypted with the master key.', async(): Promise<void> => {
+    const key = await provider.getCurrentKey(storage);
+    const wrapped = Buffer.from((await keyStorage.get(key.id))!, 'base64');
+    expect(wrapped.indexOf(key.key)).toBe(-1);
+
+    const newProvider = new WrappedKeyProvider({ masterKey, keyStorage, currentKeyStorage });
+    await expect(newProvider.getKey(key.id)).resolves.toEqual(key);
+    await expect(newProvider.getCurrentKey(storage)).resolves.toEqual(key);
+  });
+
+  it('errors when requesting an unknown key.', async(): Promise<void> => {
+    await expect(provider.getKey('unknown')).rejects.toThrow('Unknown encryption key unknown');
+  });
+
+  it('errors if the keys were encrypted with a different master key.', async(): Promise<void> => {
+    const key = await provider.getCurrentKey(storage);
+    const newProvider = new WrappedKeyProvider({
+      masterKey: randomBytes(32).toString('base64'),
+      keyStorage,
+      currentKeyStorage,
+    });
+    await expect(newProvider.getKey(key.id))
+      .rejects.toThrow('The encryption keys were encrypted with a different master key.');
+  });
+
+  it('keeps the previous keys when rotating.', async(): Promise<void> => {
+    const key = await provider.getCurrentKey(storage);
+    const newKey = await provider.rotateKey(storage);
+    expect(newKey.id).not.toBe(key.id);
+    await expect(provider.getCurrentKey(storage)).resolves.toBe(newKey);
+    await expect(provider.getKey(key.id)).resolves.toBe(key);
+  });
+
+  it('rotates the keys after the rotation interval.', async(): Promise<void> => {
+    provider = new WrappedKeyProvider({ masterKey, keyStorage, currentKeyStorage, rotationInterval: 60 });
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    const key = await provider.getCurrentKey(storage);
+    jest.spyOn(Date, 'now').mockReturnValue(now + 59000);
+    await expect(provider.getCurrentKey(storage)).resolves.toBe(key);
+    jest.spyOn(Date, 'now').mockReturnValue(now + 60000);
+    const newKey = await provider.getCurrentKey(storage);
+    expect(newKey.id).not.toBe(key.id);
+    jest.restoreAllMocks();
+  });
+});
@@ -124,6 +124,17 @@ describe('A JsonResourceStorage', (): void => {
     ]);
   });
 
+  it('decodes the identifiers of the store when returning entries.', async(): Promise<void> => {
+    data.set(containerIdentifier, '');
+    data.set(`${containerIdentifier}a%3Db`, '"encoded"');
+
+    const entries = [];
+    for await (const entry of storage.entries()) {
+      entries.push(entry);
+    }
+    expect(entries).toEqual([[ '/a=b', 'encoded' ]]);
+  });
+
   it('converts keys that would result in too large filenames into an identifier that uses a hash.',
     async(): Promise<void> => {
       const longFileName = `${'sometext'.repeat(32)}.json`;
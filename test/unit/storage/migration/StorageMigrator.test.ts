@@ -0,0 +1,255 @@
+import arrayifyStream from 'arrayify-stream';
+import { DataFactory } from 'n3';
+import { ComposedAuxiliaryStrategy } from '../../../../src/http/auxiliary/ComposedAuxiliaryStrategy';
+import { RoutingAuxiliaryStrategy } from '../../../../src/http/auxiliary/RoutingAuxiliaryStrategy';
+import { SuffixAuxiliaryIdentifierStrategy } from '../../../../src/http/auxiliary/SuffixAuxiliaryIdentifierStrategy';
+import { BasicRepresentation } from '../../../../src/http/representation/BasicRepresentation';
+import { InMemoryDataAccessor } from '../../../../src/storage/accessors/InMemoryDataAccessor';
+import { RdfToQuadConverter } from '../../../../src/storage/conversion/RdfToQuadConverter';
+import { DataAccessorBasedStore } from '../../../../src/storage/DataAccessorBasedStore';
+import type { KeyValueStorage } from '../../../../src/storage/keyvalue/KeyValueStorage';
+import { MemoryMapStorage } from '../../../../src/storage/keyvalue/MemoryMapStorage';
+import { StorageMigrator } from '../../../../src/storage/migration/StorageMigrator';
+import type { ResourceStore } from '../../../../src/storage/ResourceStore';
+import { INTERNAL_QUADS } from '../../../../src/util/ContentTypes';
+import { InternalServerError } from '../../../../src/util/errors/InternalServerError';
+import { NotImplementedHttpError } from '../../../../src/util/errors/NotImplementedHttpError';
+import { SingleRootIdentifierStrategy } from '../../../../src/util/identifiers/SingleRootIdentifierStrategy';
+import { readableToString } from '../../../../src/util/StreamUtil';
+import { DC } from '../../../../src/util/Vocabularies';
+const { literal, namedNode, quad } = DataFactory;
+
+describe('A StorageMigrator', (): void => {
+  const baseUrl = 'http://test.com/';
+  const root = { path: baseUrl };
+  const identifierStrategy = new SingleRootIdentifierStrategy(baseUrl);
+  const metadataStrategy = new ComposedAuxiliaryStrategy(new SuffixAuxiliaryIdentifierStrategy('.meta'));
+  const auxiliaryStrategy = new RoutingAuxiliaryStrategy([
+    new ComposedAuxiliaryStrategy(new SuffixAuxiliaryIdentifierStrategy('.acl')),
+    new ComposedAuxiliaryStrategy(new SuffixAuxiliaryIdentifierStrategy('/.internal/')),
+    metadataStrategy,
+  ]);
+  const binary = Buffer.from([ 0, 1, 2, 254, 255 ]);
+  let source: ResourceStore;
+  let target: ResourceStore;
+  let progress: KeyValueStorage<string, string>;
+  let migrator: StorageMigrator;
+
+  function createStore(): ResourceStore {
+    return new DataAccessorBasedStore(
+      new InMemoryDataAccessor(identifierStrategy),
+      identifierStrategy,
+      auxiliaryStrategy,
+      metadataStrategy,
+    );
+  }
+
+  async function readTarget(path: string): Promise<string> {
+    return readableToString((await target.getRepresentation({ path }, {})).data);
+  }
+
+  beforeEach(async(): Promise<void> => {
+    source = createStore();
+    await source.setRepresentation(root, new BasicRepresentation([], root));
+    await source.setRepresentation({ path: `${baseUrl}document.ttl` },
+      new BasicRepresentation('<a:a> <a:b> [ <a:c> "d" ].', 'text/turtle'));
+    await source.setRepresentation({ path: `${baseUrl}document.ttl.acl` },
+      new BasicRepresentation('<#auth> a <http://www.w3.org/ns/auth/acl#Authorization>.', 'text/turtle'));
+    await source.setRepresentation({ path: `${baseUrl}container/image.bin` },
+      new BasicRepresentation([ binary ], 'application/octet-stream'));
+    await source.setRepresentation({ path: `${baseUrl}container/.meta` }, new BasicRepresentation(
+      [ quad(namedNode(`${baseUrl}container/`), DC.terms.title, literal('Container')) ],
+      INTERNAL_QUADS,
+    ));
+
+    target = createStore();
+    progress = new MemoryMapStorage();
+
+    migrator = new StorageMigrator({
+      source,
+      target,
+      auxiliaryStrategy,
+      metadataStrategy,
+      converter: new RdfToQuadConverter(),
+      progress,
+    });
+  });
+
+  it('copies all resources, including auxiliary resources and metadata.', async(): Promise<void> => {
+    await expect(migrator.migrate(root)).resolves.toEqual({
+      total: 5,
+      copied: 5,
+      resumed: 0,
+      unsupported: [],
+      mismatched: [],
+      targetTotal: 5,
+    });
+
+    await expect(readTarget(`${baseUrl}document.ttl`)).resolves.toBe('<a:a> <a:b> [ <a:c> "d" ].');
+    await expect(readTarget(`${baseUrl}document.ttl.acl`)).resolves.toContain('<#auth>');
+    const image = await target.getRepresentation({ path: `${baseUrl}container/image.bin` }, {});
+    expect(image.metadata.contentType).toBe('application/octet-stream');
+    expect(Buffer.concat(await arrayifyStream(image.data))).toEqual(binary);
+    const container = await target.getRepresentation({ path: `${baseUrl}container/` }, {});
+    expect(container.metadata.get(DC.terms.title)?.value).toBe('Container');
+  });
+
+  it('writes the metadata of existing containers to their description resource.', async(): Promise<void> => {
+    await target.setRepresentation(root, new BasicRepresentation([], root));
+    await target.setRepresentation({ path: `${baseUrl}container/` }, new BasicRepresentation([], root));
+
+    await expect(migrator.migrate(root)).resolves.toEqual(expect.objectContaining({ copied: 5, targetTotal: 5 }));
+    const container = await target.getRepresentation({ path: `${baseUrl}container/` }, {});
+    expect(container.metadata.get(DC.terms.title)?.value).toBe('Container');
+  });
+
+  it('stores the migrated resources so they are skipped when resuming.', async(): Promise<void> => {
+    await migrator.migrate(root);
+    await expect(progress.get(`${baseUrl}document.ttl`)).resolves.toEqual(expect.any(String));
+
+    const setRepresentation = jest.spyOn(target, 'setRepresentation');
+    await expect(migrator.migrate(root)).resolves.toEqual(expect.objectContaining({
+      total: 5,
+      copied: 0,
+      resumed: 5,
+      targetTotal: 5,
+    }));
+    expect(setRepresentation).toHaveBeenCalledTimes(0);
+  });
+
+  it('reports resources that are not supported by the target.', async(): Promise<void> => {
+    const setRepresentation = target.setRepresentation.bind(target);
+    jest.spyOn(target, 'setRepresentation').mockImplementation(async(identifier, representation): Promise<any> => {
+      if (identifier.path.endsWith('.bin')) {
+        throw new NotImplementedHttpError('Only RDF data is supported.');
+      }
+      return setRepresentation(identifier, representation);
+    });
+
+    await expect(migrator.migrate(root)).resolves.toEqual({
+      total: 5,
+      copied: 4,
+      resumed: 0,
+      unsupported: [{ path: `${baseUrl}container/image.bin`, reason: 'Only RDF data is supported.' }],
+      mismatched: [],
+      targetTotal: 4,
+    });
+    await expect(progress.has(`${baseUrl}container/image.bin`)).resolves.toBe(false);
+  });
+
+  it('throws other errors of the target.', async(): Promise<void> => {
+    jest.spyOn(target, 'setRepresentation').mockRejectedValue(new InternalServerError('bad data'));
+    await expect(migrator.migrate(root)).rejects.toThrow('bad data');
+  });
+
+  it('reports resources of which the contents do not match.', async(): Promise<void> => {
+    const setRepresentation = target.setRepresentation.bind(target);
+    jest.spyOn(target, 'setRepresentation').mockImplementation(async(identifier, representation): Promise<any> => {
+      if (identifier.path.endsWith('.ttl')) {
+        return setRepresentation(identifier, new BasicRepresentation('<a:a> <a:b> "other".', 'text/turtle'));
+      }
+      if (identifier.path.endsWith('.acl')) {
+        representation.data.destroy();
+        return [];
+      }
+      return setRepresentation(identifier, representation);
+    });
+
+    await expect(migrator.migrate(root)).resolves.toEqual(expect.objectContaining({
+      total: 5,
+      copied: 3,
+      mismatched: [ `${baseUrl}document.ttl`, `${baseUrl}document.ttl.acl` ],
+      targetTotal: 4,
+    }));
+    await expect(progress.has(`${baseUrl}document.ttl`)).resolves.toBe(false);
+  });
+
+  it('compares RDF documents independently of how they are serialized.', async(): Promise<void> => {
+    const setRepresentation = target.setRepresentation.bind(target);
+    jest.spyOn(target, 'setRepresentation').mockImplementation(async(identifier, representation): Promise<any> => {
+      if (identifier.path.endsWith('.ttl')) {
+        representation.data.destroy();
+        return setRepresentation(identifier, new BasicRepresentation(
+          '_:other <a:c> "d" .\n<a:a> <a:b> _:other .\n',
+          'application/n-triples',
+        ));
+      }
+      return setRepresentation(identifier, representation);
+    });
+
+    await expect(migrator.migrate(root)).resolves.toEqual(expect.objectContaining({ copied: 5, mismatched: []}));
+  });
+
+  it('compares RDF documents that can not be parsed by their data.', async(): Promise<void> => {
+    await source.setRepresentation({ path: `${baseUrl}document.ttl` },
+      new BasicRepresentation('<a:a> <a:b>', 'text/turtle'));
+
+    await expect(migrator.migrate(root)).resolves.toEqual(expect.objectContaining({ copied: 5, mismatched: []}));
+    await expect(readTarget(`${baseUrl}document.ttl`)).resolves.toBe('<a:a> <a:b>');
+  });
+
+  it('migrates hidden containers and skips ignored paths.', async(): Promise<void> => {
+    await source.setRepresentation({ path: `${baseUrl}.internal/accounts/alice` },
+      new BasicRepresentation('{}', 'application/json'));
+    await source.setRepresentation({ path: `${baseUrl}.internal/locks/source` },
+      new BasicRepresentation('{}', 'application/json'));
+    await target.setRepresentation({ path: `${baseUrl}.internal/locks/lock` },
+      new BasicRepresentation('{}', 'application/json'));
+    migrator = new StorageMigrator({
+      source,
+      target,
+      auxiliaryStrategy,
+      metadataStrategy,
+      converter: new RdfToQuadConverter(),
+      progress,
+      hiddenPaths: [ '/.internal/', 'missing/' ],
+      ignoredPaths: [ '^/\\.internal/locks/' ],
+    });
+
+    await expect(migrator.migrate(root)).resolves.toEqual(expect.objectContaining({
+      total: 8,
+      copied: 8,
+      targetTotal: 8,
+    }));
+    await expect(readTarget(`${baseUrl}.internal/accounts/alice`)).resolves.toBe('{}');
+    await expect(target.hasResource({ path: `${baseUrl}.internal/locks/source` })).resolves.toBe(false);
+    await expect(target.hasResource({ path: `${baseUrl}missing/` })).resolves.toBe(false);
+  });
+
+  it('throws errors when reading resources.', async(): Promise<void> => {
+    const getRepresentation = source.getRepresentation.bind(source);
+    const spy = jest.spyOn(source, 'getRepresentation').mockImplementation(async(identifier, preferences):
+    Promise<any> => {
+      if (identifier.path.endsWith('.acl')) {
+        throw new InternalServerError('bad acl');
+      }
+      return getRepresentation(identifier, preferences);
+    });
+    await expect(migrator.migrate(root)).rejects.toThrow('bad acl');
+
+    spy.mockImplementation(async(identifier, preferences): Promise<any> => {
+      if (identifier.path.endsWith('.ttl') && spy.mock.calls.filter(([{ path }]): boolean =>
+        path === identifier.path).length > 1) {
+        throw new InternalServerError('bad document');
+      }
+      return getRepresentation(identifier, preferences);
+    });
+    await expect(migrator.migrate(root)).rejects.toThrow('bad document');
+  });
+
+  it('throws errors when counting the target resources.', async(): Promise<void> => {
+    const getRepresentation = target.getRepresentation.bind(target);
+    let calls = 0;
+    jest.spyOn(target, 'getRepresentation').mockImplementation(async(identifier, preferences): Promise<any> => {
+      // The first call is used to verify the migrated container
+      if (identifier.path === `${baseUrl}container/`) {
+        calls += 1;
+      }
+      if (calls > 1) {
+        throw new InternalServerError('bad container');
+      }
+      return getRepresentation(identifier, preferences);
+    });
+    await expect(migrator.migrate(root)).rejects.toThrow('bad container');
+  });
+});
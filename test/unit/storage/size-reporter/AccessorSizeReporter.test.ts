@@ -0,0 +1,84 @@
+import { RepresentationMetadata } from '../../../../src/http/representation/RepresentationMetadata';
+import type { ResourceIdentifier } from '../../../../src/http/representation/ResourceIdentifier';
+import { InMemoryDataAccessor } from '../../../../src/storage/accessors/InMemoryDataAccessor';
+import { AccessorSizeReporter } from '../../../../src/storage/size-reporter/AccessorSizeReporter';
+import { SingleRootIdentifierStrategy } from '../../../../src/util/identifiers/SingleRootIdentifierStrategy';
+import { guardedStreamFrom } from '../../../../src/util/StreamUtil';
+
+class SimpleSizeReporter extends AccessorSizeReporter {
+  public getUnit(): string {
+    return 'units';
+  }
+
+  public async calculateChunkSize(): Promise<number> {
+    return 1;
+  }
+
+  public async estimateSize(): Promise<number | undefined> {
+    return 1;
+  }
+
+  protected async getResourceSize(identifier: ResourceIdentifier): Promise<number> {
+    return identifier.path.length;
+  }
+}
+
+describe('An AccessorSizeReporter', (): void => {
+  const baseUrl = 'http://example.com/';
+  const container = 'http://example.com/container/';
+  const document = 'http://example.com/container/document';
+  const internal = 'http://example.com/.internal/';
+  const internalDocument = 'http://example.com/.internal/document';
+  let accessor: InMemoryDataAccessor;
+  let reporter: SimpleSizeReporter;
+
+  beforeEach(async(): Promise<void> => {
+    accessor = new InMemoryDataAccessor(new SingleRootIdentifierStrategy(baseUrl));
+    await accessor.writeContainer({ path: baseUrl }, new RepresentationMetadata());
+    await accessor.writeContainer({ path: container }, new RepresentationMetadata());
+    await accessor.writeContainer({ path: internal }, new RepresentationMetadata());
+    for (const path of [ document, internalDocument ]) {
+      const data = guardedStreamFrom('data');
+      await accessor.writeDocument({ path }, data, new RepresentationMetadata());
+    }
+
+    reporter = new SimpleSizeReporter(accessor, baseUrl, [ '^/\\.internal$' ]);
+  });
+
+  it('returns the size of a document.', async(): Promise<void> => {
+    await expect(reporter.getSize({ path: document })).resolves.toEqual({ unit: 'units', amount: document.length });
+  });
+
+  it('returns the size of a container combined with its descendants.', async(): Promise<void> => {
+    await expect(reporter.getSize({ path: container })).resolves
+      .toEqual({ unit: 'units', amount: container.length + document.length });
+  });
+
+  it('does not count the resources in ignored folders.', async(): Promise<void> => {
+    await expect(reporter.getSize({ path: baseUrl })).resolves
+      .toEqual({ unit: 'units', amount: baseUrl.length + container.length + document.length });
+    await expect(reporter.getSize({ path: internal })).resolves.toEqual({ unit: 'units', amount: 0 });
+    await expect(reporter.getSize({ path: internalDocument })).resolves.toEqual({ unit: 'units', amount: 0 });
+  });
+
+  it('counts all resources if there are no ignored folders.', async(): Promise<void> => {
+    reporter = new SimpleSizeReporter(accessor, baseUrl);
+    await expect(reporter.getSize({ path: internal })).resolves
+      .toEqual({ unit: 'units', amount: internal.length + internalDocument.length });
+  });
+
+  it('does not ignore resources outside of the base URL.', async(): Promise<void> => {
+    reporter = new SimpleSizeReporter(accessor, 'http://other.com/', [ '^/\\.internal$' ]);
+    await expect(reporter.getSize({ path: internal })).resolves
+      .toEqual({ unit: 'units', amount: internal.length + internalDocument.length });
+  });
+
+  it('returns 0 for resources that do not exist.', async(): Promise<void> => {
+    await expect(reporter.getSize({ path: `${container}unknown` })).resolves.toEqual({ unit: 'units', amount: 0 });
+  });
+
+  it('throws errors other than not found errors.', async(): Promise<void> => {
+    jest.spyOn(accessor, 'getMetadata').mockRejectedValueOnce(new Error('bad data'));
+    await expect(reporter.getSize({ path: document })).rejects.toThrow('bad data');
+  });
+});
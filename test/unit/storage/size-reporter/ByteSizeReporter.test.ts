@@ -0,0 +1,56 @@
+import { RepresentationMetadata } from '../../../../src/http/representation/RepresentationMetadata';
+import { InMemoryDataAccessor } from '../../../../src/storage/accessors/InMemoryDataAccessor';
+import { ByteSizeReporter } from '../../../../src/storage/size-reporter/ByteSizeReporter';
+import { UNIT_BYTES } from '../../../../src/storage/size-reporter/Size';
+import { SingleRootIdentifierStrategy } from '../../../../src/util/identifiers/SingleRootIdentifierStrategy';
+import { guardedStreamFrom } from '../../../../src/util/StreamUtil';
+import { POSIX } from '../../../../src/util/Vocabularies';
+
+describe('A ByteSizeReporter', (): void => {
+  const baseUrl = 'http://example.com/';
+  const container = 'http://example.com/container/';
+  const document = 'http://example.com/container/document';
+  let accessor: InMemoryDataAccessor;
+  let reporter: ByteSizeReporter;
+
+  beforeEach(async(): Promise<void> => {
+    accessor = new InMemoryDataAccessor(new SingleRootIdentifierStrategy(baseUrl));
+    await accessor.writeContainer({ path: baseUrl }, new RepresentationMetadata());
+    await accessor.writeContainer({ path: container }, new RepresentationMetadata());
+    const data = guardedStreamFrom([ 'döc', Buffer.from('ument') ]);
+    await accessor.writeDocument({ path: document }, data, new RepresentationMetadata());
+
+    reporter = new ByteSizeReporter(accessor, baseUrl);
+  });
+
+  it('returns UNIT_BYTES as unit.', async(): Promise<void> => {
+    expect(reporter.getUnit()).toBe(UNIT_BYTES);
+  });
+
+  it('calculates the size of chunks in bytes.', async(): Promise<void> => {
+    await expect(reporter.calculateChunkSize('döc')).resolves.toBe(4);
+    await expect(reporter.calculateChunkSize(Buffer.from('document'))).resolves.toBe(8);
+  });
+
+  it('estimates the size based on the content-length.', async(): Promise<void> => {
+    const metadata = new RepresentationMetadata();
+    await expect(reporter.estimateSize(metadata)).resolves.toBeUndefined();
+    metadata.contentLength = 100;
+    await expect(reporter.estimateSize(metadata)).resolves.toBe(100);
+  });
+
+  it('reads the data of documents to determine their size.', async(): Promise<void> => {
+    await expect(reporter.getSize({ path: document })).resolves.toEqual({ unit: UNIT_BYTES, amount: 9 });
+  });
+
+  it('uses the size from the metadata if there is one.', async(): Promise<void> => {
+    jest.spyOn(accessor, 'getMetadata').mockResolvedValueOnce(new RepresentationMetadata({ [POSIX.size]: '500' }));
+    const getData = jest.spyOn(accessor, 'getData');
+    await expect(reporter.getSize({ path: document })).resolves.toEqual({ unit: UNIT_BYTES, amount: 500 });
+    expect(getData).toHaveBeenCalledTimes(0);
+  });
+
+  it('only counts the documents in containers.', async(): Promise<void> => {
+    await expect(reporter.getSize({ path: baseUrl })).resolves.toEqual({ unit: UNIT_BYTES, amount: 9 });
+  });
+});
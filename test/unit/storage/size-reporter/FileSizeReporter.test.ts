@@ -91,6 +91,18 @@ describe('A FileSizeReporter', (): void => {
     await expect(rootSize).resolves.toEqual(expect.objectContaining({ amount: expectedRootSize }));
   });
 
+  it('should report size 0 for resources in an ignored folder.', async(): Promise<void> => {
+    const internalContainerFile = joinFilePath(fileRoot, '/.internal/');
+    await fsPromises.mkdir(internalContainerFile, { recursive: true });
+    const internalTestFile = joinFilePath(internalContainerFile, '/test.txt');
+    await fsPromises.writeFile(internalTestFile, 'A'.repeat(30));
+
+    await expect(fileSizeReporter.getSize({ path: internalTestFile })).resolves
+      .toEqual(expect.objectContaining({ amount: 0 }));
+    await expect(fileSizeReporter.getSize({ path: internalContainerFile })).resolves
+      .toEqual(expect.objectContaining({ amount: 0 }));
+  });
+
   it('should have the unit in its return value.', async(): Promise<void> => {
     const testFile = joinFilePath(fileRoot, '/test2.txt');
     await fsPromises.writeFile(testFile, 'A'.repeat(20));
@@ -0,0 +1,206 @@
+import { RepresentationMetadata } from '../../../../src/http/representation/RepresentationMetadata';
+import type { ResourceIdentifier } from '../../../../src/http/representation/ResourceIdentifier';
+import type { Logger } from '../../../../src/logging/Logger';
+import { getLoggerFor } from '../../../../src/logging/LogUtil';
+import type { KeyValueStorage } from '../../../../src/storage/keyvalue/KeyValueStorage';
+import { MemoryMapStorage } from '../../../../src/storage/keyvalue/MemoryMapStorage';
+import { LedgerSizeReporter } from '../../../../src/storage/size-reporter/LedgerSizeReporter';
+import type { Size } from '../../../../src/storage/size-reporter/Size';
+import { UNIT_BYTES } from '../../../../src/storage/size-reporter/Size';
+import type { SizeReporter } from '../../../../src/storage/size-reporter/SizeReporter';
+import { SingleRootIdentifierStrategy } from '../../../../src/util/identifiers/SingleRootIdentifierStrategy';
+import type { ReadWriteLocker } from '../../../../src/util/locking/ReadWriteLocker';
+import { AS } from '../../../../src/util/Vocabularies';
+
+jest.mock('../../../../src/logging/LogUtil', (): any => {
+  const logger: Logger = { info: jest.fn(), warn: jest.fn(), debug: jest.fn() } as any;
+  return { getLoggerFor: (): Logger => logger };
+});
+
+describe('A LedgerSizeReporter', (): void => {
+  const logger = getLoggerFor('mock');
+  const root = 'http://example.com/';
+  const container = 'http://example.com/container/';
+  const document = 'http://example.com/container/document';
+  let sizes: Record<string, number>;
+  let source: jest.Mocked<SizeReporter<any>>;
+  let storage: KeyValueStorage<string, number>;
+  let locker: ReadWriteLocker;
+  let reporter: LedgerSizeReporter;
+
+  beforeEach(async(): Promise<void> => {
+    jest.clearAllMocks();
+
+    sizes = {
+      [root]: 100,
+      [container]: 50,
+      [document]: 20,
+    };
+
+    source = {
+      getUnit: jest.fn().mockReturnValue(UNIT_BYTES),
+      getSize: jest.fn(async(identifier: ResourceIdentifier): Promise<Size> =>
+        ({ unit: UNIT_BYTES, amount: sizes[identifier.path] ?? 0 })),
+      calculateChunkSize: jest.fn().mockResolvedValue(5),
+      estimateSize: jest.fn().mockResolvedValue(8),
+    };
+
+    storage = new MemoryMapStorage();
+
+    locker = {
+      withWriteLock: jest.fn(async <T,>(id: any, whileLocked: () => T | Promise<T>): Promise<T> => whileLocked()),
+      withReadLock: jest.fn(),
+    };
+
+    reporter = new LedgerSizeReporter({
+      source,
+      storage,
+      locker,
+      identifierStrategy: new SingleRootIdentifierStrategy(root),
+    });
+  });
+
+  it('uses the source for the unit, chunk size and estimated size.', async(): Promise<void> => {
+    const metadata = new RepresentationMetadata();
+    expect(reporter.getUnit()).toBe(UNIT_BYTES);
+    await expect(reporter.calculateChunkSize('chunk')).resolves.toBe(5);
+    expect(source.calculateChunkSize).toHaveBeenLastCalledWith('chunk');
+    await expect(reporter.estimateSize(metadata)).resolves.toBe(8);
+    expect(source.estimateSize).toHaveBeenLastCalledWith(metadata);
+  });
+
+  it('uses the source for the size of documents.', async(): Promise<void> => {
+    await expect(reporter.getSize({ path: document })).resolves.toEqual({ unit: UNIT_BYTES, amount: 20 });
+    await expect(storage.has(document)).resolves.toBe(false);
+  });
+
+  it('stores the size of containers.', async(): Promise<void> => {
+    await expect(reporter.getSize({ path: root })).resolves.toEqual({ unit: UNIT_BYTES, amount: 100 });
+    await expect(storage.get(root)).resolves.toBe(100);
+    expect(locker.withWriteLock).toHaveBeenLastCalledWith({ path: `${root}.quota-ledger` }, expect.any(Function));
+
+    sizes[root] = 200;
+    await expect(reporter.getSize({ path: root })).resolves.toEqual({ unit: UNIT_BYTES, amount: 100 });
+    expect(source.getSize).toHaveBeenCalledTimes(1);
+  });
+
+  it('adds the size of new documents to the stored totals.', async(): Promise<void> => {
+    await reporter.getSize({ path: root });
+    await reporter.update({ path: document }, AS.terms.Create);
+
+    await expect(storage.get(root)).resolves.toBe(120);
+    await expect(storage.get(document)).resolves.toBe(20);
+    // The total of the container was never requested
+    await expect(storage.has(container)).resolves.toBe(false);
+  });
+
+  it('adds the size difference of changed documents to the stored totals.', async(): Promise<void> => {
+    await storage.set(document, 20);
+    await reporter.getSize({ path: root });
+    await reporter.getSize({ path: container });
+
+    sizes[document] = 30;
+    await reporter.update({ path: document }, AS.terms.Update);
+    await expect(storage.get(root)).resolves.toBe(110);
+    await expect(storage.get(container)).resolves.toBe(60);
+    await expect(storage.get(document)).resolves.toBe(30);
+  });
+
+  it('does not change the totals if the size of a document did not change.', async(): Promise<void> => {
+    await storage.set(document, 20);
+    await reporter.getSize({ path: root });
+
+    await reporter.update({ path: document }, AS.terms.Update);
+    await expect(storage.get(root)).resolves.toBe(100);
+    expect(locker.withWriteLock).toHaveBeenCalledTimes(2);
+  });
+
+  it('removes the size of deleted documents from the stored totals.', async(): Promise<void> => {
+    await storage.set(document, 20);
+    await reporter.getSize({ path: root });
+
+    await reporter.update({ path: document }, AS.terms.Delete);
+    await expect(storage.get(root)).resolves.toBe(80);
+    await expect(storage.has(document)).resolves.toBe(false);
+    expect(source.getSize).toHaveBeenCalledTimes(1);
+  });
+
+  it('removes the totals if the previous size of a changed document is unknown.', async(): Promise<void> => {
+    await reporter.getSize({ path: root });
+    await reporter.getSize({ path: container });
+
+    await reporter.update({ path: document });
+    await expect(storage.has(root)).resolves.toBe(false);
+    await expect(storage.has(container)).resolves.toBe(false);
+    await expect(storage.get(document)).resolves.toBe(20);
+  });
+
+  it('removes the totals when a container is created or deleted.', async(): Promise<void> => {
+    await reporter.getSize({ path: root });
+    await reporter.getSize({ path: container });
+    await reporter.update({ path: container }, AS.terms.Create);
+    await expect(storage.has(root)).resolves.toBe(false);
+    await expect(storage.has(container)).resolves.toBe(false);
+    expect(logger.debug).toHaveBeenCalledWith(`Removed the total size of ${root} after ${container} changed`);
+
+    await reporter.getSize({ path: root });
+    await reporter.getSize({ path: container });
+    await reporter.update({ path: container }, AS.terms.Delete);
+    await expect(storage.has(root)).resolves.toBe(false);
+    await expect(storage.has(container)).resolves.toBe(false);
+  });
+
+  it('ignores other changes to containers.', async(): Promise<void> => {
+    await reporter.getSize({ path: root });
+    await reporter.update({ path: container }, AS.terms.Update);
+    await reporter.update({ path: container });
+    await expect(storage.get(root)).resolves.toBe(100);
+  });
+
+  it('waits for pending updates before returning the size of a container.', async(): Promise<void> => {
+    await reporter.getSize({ path: root });
+
+    let resolveSize: (size: Size) => void;
+    source.getSize.mockImplementationOnce(async(): Promise<Size> => new Promise((resolve): void => {
+      resolveSize = resolve;
+    }));
+    const update = reporter.update({ path: document }, AS.terms.Create);
+    const size = reporter.getSize({ path: root });
+    await new Promise(setImmediate);
+    resolveSize!({ unit: UNIT_BYTES, amount: 20 });
+
+    await expect(size).resolves.toEqual({ unit: UNIT_BYTES, amount: 120 });
+    await expect(update).resolves.toBeUndefined();
+  });
+
+  it('still returns the size of a container if a pending update fails.', async(): Promise<void> => {
+    await reporter.getSize({ path: root });
+    source.getSize.mockRejectedValueOnce(new Error('bad data'));
+
+    const update = reporter.update({ path: document }, AS.terms.Create);
+    await expect(reporter.getSize({ path: root })).resolves.toEqual({ unit: UNIT_BYTES, amount: 100 });
+    await expect(update).rejects.toThrow('bad data');
+  });
+
+  it('recalculates all entries when reconciling.', async(): Promise<void> => {
+    await storage.set(root, 5);
+    await storage.set(document, 5);
+
+    await expect(reporter.reconcile()).resolves.toBeUndefined();
+    await expect(storage.get(root)).resolves.toBe(100);
+    await expect(storage.get(document)).resolves.toBe(20);
+    expect(logger.info).toHaveBeenCalledWith('Recalculating the quota ledger');
+  });
+
+  it('logs a warning if an entry could not be reconciled.', async(): Promise<void> => {
+    await storage.set(root, 5);
+    await storage.set(document, 5);
+    source.getSize.mockRejectedValueOnce(new Error('bad data'));
+
+    await expect(reporter.reconcile()).resolves.toBeUndefined();
+    await expect(storage.get(root)).resolves.toBe(5);
+    await expect(storage.get(document)).resolves.toBe(20);
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+    expect(logger.warn).toHaveBeenLastCalledWith(`Unable to recalculate the ledger entry for ${root}: bad data`);
+  });
+});
@@ -0,0 +1,99 @@
+import { EventEmitter } from 'events';
+import type { Logger } from '../../../../src/logging/Logger';
+import { getLoggerFor } from '../../../../src/logging/LogUtil';
+import type { LedgerSizeReporter } from '../../../../src/storage/size-reporter/LedgerSizeReporter';
+import { LedgerSizeUpdater } from '../../../../src/storage/size-reporter/LedgerSizeUpdater';
+import { AS } from '../../../../src/util/Vocabularies';
+import { flushPromises } from '../../../util/Util';
+
+jest.mock('../../../../src/logging/LogUtil', (): any => {
+  const logger: Logger = { error: jest.fn() } as any;
+  return { getLoggerFor: (): Logger => logger };
+});
+
+jest.useFakeTimers();
+
+describe('A LedgerSizeUpdater', (): void => {
+  const logger = getLoggerFor('mock');
+  const identifier = { path: 'http://example.com/foo' };
+  let emitter: EventEmitter;
+  let reporter: jest.Mocked<LedgerSizeReporter>;
+  let updater: LedgerSizeUpdater;
+
+  beforeEach(async(): Promise<void> => {
+    jest.clearAllMocks();
+    emitter = new EventEmitter();
+    reporter = {
+      update: jest.fn().mockResolvedValue(undefined),
+      reconcile: jest.fn().mockResolvedValue(undefined),
+    } as any;
+
+    updater = new LedgerSizeUpdater({ reporter, emitter });
+  });
+
+  afterEach(async(): Promise<void> => {
+    await updater.finalize();
+  });
+
+  it('updates the ledger when a resource changes.', async(): Promise<void> => {
+    emitter.emit('changed', identifier, AS.terms.Create);
+    expect(reporter.update).toHaveBeenCalledTimes(1);
+    expect(reporter.update).toHaveBeenLastCalledWith(identifier, AS.terms.Create);
+  });
+
+  it('logs an error if the ledger could not be updated.', async(): Promise<void> => {
+    reporter.update.mockRejectedValueOnce(new Error('bad data'));
+    emitter.emit('changed', identifier, AS.terms.Update);
+    await flushPromises();
+    expect(logger.error).toHaveBeenCalledTimes(1);
+    expect(logger.error).toHaveBeenLastCalledWith(`Unable to update the quota ledger for ${identifier.path}: bad data`);
+  });
+
+  it('does not reconcile the ledger by default.', async(): Promise<void> => {
+    await expect(updater.handle()).resolves.toBeUndefined();
+    jest.advanceTimersByTime(24 * 60 * 60 * 1000);
+    expect(reporter.reconcile).toHaveBeenCalledTimes(0);
+  });
+
+  it('can reconcile the ledger on startup.', async(): Promise<void> => {
+    updater = new LedgerSizeUpdater({ reporter, emitter, reconcile: true });
+    await expect(updater.handle()).resolves.toBeUndefined();
+    expect(reporter.reconcile).toHaveBeenCalledTimes(1);
+  });
+
+  it('can reconcile the ledger at an interval.', async(): Promise<void> => {
+    updater = new LedgerSizeUpdater({ reporter, emitter, interval: 1000 });
+    await expect(updater.handle()).resolves.toBeUndefined();
+    // Starting twice does not create a second timer
+    await expect(updater.handle()).resolves.toBeUndefined();
+    expect(reporter.reconcile).toHaveBeenCalledTimes(0);
+
+    jest.advanceTimersByTime(1000);
+    expect(reporter.reconcile).toHaveBeenCalledTimes(1);
+    jest.advanceTimersByTime(1000);
+    expect(reporter.reconcile).toHaveBeenCalledTimes(2);
+
+    await expect(updater.finalize()).resolves.toBeUndefined();
+    jest.advanceTimersByTime(1000);
+    expect(reporter.reconcile).toHaveBeenCalledTimes(2);
+  });
+
+  it('waits for pending updates when finalizing.', async(): Promise<void> => {
+    let resolveUpdate: () => void;
+    reporter.update.mockImplementationOnce(async(): Promise<void> => new Promise((resolve): void => {
+      resolveUpdate = resolve;
+    }));
+    emitter.emit('changed', identifier, AS.terms.Update);
+
+    let finalized = false;
+    const finalize = updater.finalize().then((): void => {
+      finalized = true;
+    });
+    await flushPromises();
+    expect(finalized).toBe(false);
+
+    resolveUpdate!();
+    await finalize;
+    expect(finalized).toBe(true);
+  });
+});
@@ -0,0 +1,43 @@
+import { RepresentationMetadata } from '../../../../src/http/representation/RepresentationMetadata';
+import { InMemoryDataAccessor } from '../../../../src/storage/accessors/InMemoryDataAccessor';
+import { ResourceCountSizeReporter } from '../../../../src/storage/size-reporter/ResourceCountSizeReporter';
+import { UNIT_RESOURCES } from '../../../../src/storage/size-reporter/Size';
+import { SingleRootIdentifierStrategy } from '../../../../src/util/identifiers/SingleRootIdentifierStrategy';
+import { guardedStreamFrom } from '../../../../src/util/StreamUtil';
+
+describe('A ResourceCountSizeReporter', (): void => {
+  const baseUrl = 'http://example.com/';
+  const container = 'http://example.com/container/';
+  let accessor: InMemoryDataAccessor;
+  let reporter: ResourceCountSizeReporter;
+
+  beforeEach(async(): Promise<void> => {
+    accessor = new InMemoryDataAccessor(new SingleRootIdentifierStrategy(baseUrl));
+    await accessor.writeContainer({ path: baseUrl }, new RepresentationMetadata());
+    await accessor.writeContainer({ path: container }, new RepresentationMetadata());
+    for (const name of [ 'doc1', 'doc2' ]) {
+      const data = guardedStreamFrom('data');
+      await accessor.writeDocument({ path: `${container}${name}` }, data, new RepresentationMetadata());
+    }
+
+    reporter = new ResourceCountSizeReporter(accessor, baseUrl);
+  });
+
+  it('returns UNIT_RESOURCES as unit.', async(): Promise<void> => {
+    expect(reporter.getUnit()).toBe(UNIT_RESOURCES);
+  });
+
+  it('does not count the chunks of data.', async(): Promise<void> => {
+    await expect(reporter.calculateChunkSize()).resolves.toBe(0);
+  });
+
+  it('estimates every write to create a single resource.', async(): Promise<void> => {
+    await expect(reporter.estimateSize()).resolves.toBe(1);
+  });
+
+  it('counts the resources.', async(): Promise<void> => {
+    await expect(reporter.getSize({ path: `${container}doc1` })).resolves.toEqual({ unit: UNIT_RESOURCES, amount: 1 });
+    await expect(reporter.getSize({ path: container })).resolves.toEqual({ unit: UNIT_RESOURCES, amount: 3 });
+    await expect(reporter.getSize({ path: baseUrl })).resolves.toEqual({ unit: UNIT_RESOURCES, amount: 4 });
+  });
+});
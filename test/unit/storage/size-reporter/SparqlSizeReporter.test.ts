@@ -0,0 +1,80 @@
+import { Readable } from 'stream';
+import { SparqlEndpointFetcher } from 'fetch-sparql-endpoint';
+import { DataFactory } from 'n3';
+import { UNIT_TRIPLES } from '../../../../src/storage/size-reporter/Size';
+import { SparqlSizeReporter } from '../../../../src/storage/size-reporter/SparqlSizeReporter';
+
+const { literal } = DataFactory;
+
+jest.mock('fetch-sparql-endpoint');
+
+function simplifyQuery(query: string | string[]): string {
+  if (Array.isArray(query)) {
+    query = query.join(' ');
+  }
+  return query.replace(/\n/gu, ' ').trim();
+}
+
+describe('A SparqlSizeReporter', (): void => {
+  const endpoint = 'http://test.com/sparql';
+  let bindings: Record<string, any>[];
+  let fetchBindings: jest.Mock<Promise<Readable>>;
+  let reporter: SparqlSizeReporter;
+
+  beforeEach(async(): Promise<void> => {
+    bindings = [{ count: literal('5') }];
+    fetchBindings = jest.fn(async(): Promise<Readable> => Readable.from(bindings));
+    (SparqlEndpointFetcher as any).mockImplementation((): any => ({
+      fetchBindings,
+    }));
+
+    reporter = new SparqlSizeReporter(endpoint);
+  });
+
+  it('returns UNIT_TRIPLES as unit.', async(): Promise<void> => {
+    expect(reporter.getUnit()).toBe(UNIT_TRIPLES);
+  });
+
+  it('counts every chunk as a single triple.', async(): Promise<void> => {
+    await expect(reporter.calculateChunkSize()).resolves.toBe(1);
+  });
+
+  it('can not estimate the size.', async(): Promise<void> => {
+    await expect(reporter.estimateSize()).resolves.toBeUndefined();
+  });
+
+  it('counts the triples of a document.', async(): Promise<void> => {
+    await expect(reporter.getSize({ path: 'http://test.com/container/document' })).resolves
+      .toEqual({ unit: UNIT_TRIPLES, amount: 5 });
+
+    expect(fetchBindings).toHaveBeenCalledTimes(1);
+    expect(fetchBindings.mock.calls[0][0]).toBe(endpoint);
+    expect(simplifyQuery(fetchBindings.mock.calls[0][1])).toBe(
+      'SELECT (COUNT(?s) AS ?count) WHERE { GRAPH <http://test.com/container/document> { ?s ?p ?o. } }',
+    );
+  });
+
+  it('counts the triples of all documents in a container.', async(): Promise<void> => {
+    await expect(reporter.getSize({ path: 'http://test.com/container/' })).resolves
+      .toEqual({ unit: UNIT_TRIPLES, amount: 5 });
+
+    expect(fetchBindings).toHaveBeenCalledTimes(1);
+    expect(simplifyQuery(fetchBindings.mock.calls[0][1])).toBe(simplifyQuery([
+      'SELECT (COUNT(?s) AS ?count) WHERE {',
+      '  GRAPH ?g { ?s ?p ?o. }',
+      '  FILTER((STRSTARTS(STR(?g), "http://test.com/container/")) && (!(STRENDS(STR(?g), "/"))))',
+      '}',
+    ]));
+  });
+
+  it('returns 0 if there are no results.', async(): Promise<void> => {
+    bindings = [];
+    await expect(reporter.getSize({ path: 'http://test.com/container/document' })).resolves
+      .toEqual({ unit: UNIT_TRIPLES, amount: 0 });
+  });
+
+  it('throws an error if something goes wrong with the endpoint.', async(): Promise<void> => {
+    fetchBindings.mockRejectedValueOnce(new Error('bad request'));
+    await expect(reporter.getSize({ path: 'http://test.com/container/document' })).rejects.toThrow('bad request');
+  });
+});
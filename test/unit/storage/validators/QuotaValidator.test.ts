@@ -1,5 +1,6 @@
 import type { Readable } from 'stream';
 import { PassThrough } from 'stream';
+import arrayifyStream from 'arrayify-stream';
 import type { ValidatorInput } from '../../../../src/http/auxiliary/Validator';
 import { BasicRepresentation } from '../../../../src/http/representation/BasicRepresentation';
 import { RepresentationMetadata } from '../../../../src/http/representation/RepresentationMetadata';
@@ -8,6 +9,8 @@ import type { QuotaStrategy } from '../../../../src/storage/quota/QuotaStrategy'
 import { UNIT_BYTES } from '../../../../src/storage/size-reporter/Size';
 import type { SizeReporter } from '../../../../src/storage/size-reporter/SizeReporter';
 import { QuotaValidator } from '../../../../src/storage/validators/QuotaValidator';
+import { INTERNAL_QUADS } from '../../../../src/util/ContentTypes';
+import { PayloadHttpError } from '../../../../src/util/errors/PayloadHttpError';
 import { guardStream } from '../../../../src/util/GuardedStream';
 import type { Guarded } from '../../../../src/util/GuardedStream';
 import { guardedStreamFrom, readableToString } from '../../../../src/util/StreamUtil';
@@ -42,6 +45,7 @@ describe('QuotaValidator', (): void => {
       getAvailableSpace: jest.fn().mockResolvedValue({ unit: UNIT_BYTES, amount: 10 }),
       estimateSize: jest.fn().mockResolvedValue({ unit: UNIT_BYTES, amount: 8 }),
       createQuotaGuard: jest.fn().mockResolvedValue(guardStream(new PassThrough())),
+      createQuotaError: jest.fn((message: string): PayloadHttpError => new PayloadHttpError(message)),
     } as any;
     validator = new QuotaValidator(mockedStrategy);
   });
@@ -64,6 +68,11 @@ describe('QuotaValidator', (): void => {
       await expect(readableToString(awaitedResult.data))
         .rejects.toThrow('Quota exceeded: Advertised Content-Length is');
       await expect(prom).resolves.toBeUndefined();
+      expect(mockedStrategy.createQuotaError).toHaveBeenLastCalledWith(
+        'Quota exceeded: Advertised Content-Length is 11 bytes and only 10 bytes is available',
+        { unit: UNIT_BYTES, amount: 10 },
+        { unit: UNIT_BYTES, amount: 11 },
+      );
     });
 
     // Step 3
@@ -86,6 +95,10 @@ describe('QuotaValidator', (): void => {
       // Consume the stream
       await expect(readableToString(awaitedResult.data)).rejects.toThrow('error');
       expect(mockedStrategy.createQuotaGuard).toHaveBeenCalledTimes(1);
+      expect(mockedStrategy.createQuotaGuard).toHaveBeenLastCalledWith(mockInput.identifier, {
+        unit: UNIT_BYTES,
+        amount: 10,
+      }, false);
       await expect(prom).resolves.toBeUndefined();
     });
 
@@ -108,6 +121,10 @@ describe('QuotaValidator', (): void => {
       // Consume the stream
       await expect(readableToString(awaitedResult.data)).rejects.toThrow('Quota exceeded after write completed');
       await expect(prom).resolves.toBeUndefined();
+      expect(mockedStrategy.createQuotaError).toHaveBeenLastCalledWith(
+        'Quota exceeded after write completed',
+        { unit: UNIT_BYTES, amount: -100 },
+      );
     });
 
     it('should return a stream that is consumable without error if quota isn\'t exceeded.', async(): Promise<void> => {
@@ -116,5 +133,19 @@ describe('QuotaValidator', (): void => {
       const awaitedResult = await result;
       await expect(readableToString(awaitedResult.data)).resolves.toBe('test string');
     });
+
+    it('should support object streams.', async(): Promise<void> => {
+      mockedStrategy.createQuotaGuard.mockResolvedValueOnce(guardStream(new PassThrough({ objectMode: true })));
+      const objects = [{ value: 1 }, { value: 2 }];
+      const result = await validator.handle({
+        representation: new BasicRepresentation(objects, INTERNAL_QUADS),
+        identifier,
+      });
+      expect(mockedStrategy.createQuotaGuard).toHaveBeenLastCalledWith(identifier, {
+        unit: UNIT_BYTES,
+        amount: 10,
+      }, true);
+      await expect(arrayifyStream(result.data)).resolves.toEqual(objects);
+    });
   });
 });
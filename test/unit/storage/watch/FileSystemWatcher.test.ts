@@ -0,0 +1,276 @@
+import { EventEmitter } from 'events';
+import type { NamedNode } from '@rdfjs/types';
+import { watch } from 'chokidar';
+import { mkdirs, outputFile, remove, stat, utimes } from 'fs-extra';
+import type { ResourceIdentifier } from '../../../../src/http/representation/ResourceIdentifier';
+import type { Logger } from '../../../../src/logging/Logger';
+import { getLoggerFor } from '../../../../src/logging/LogUtil';
+import { ExtensionBasedMapper } from '../../../../src/storage/mapping/ExtensionBasedMapper';
+import { FileSystemWatcher } from '../../../../src/storage/watch/FileSystemWatcher';
+import { SingleRootIdentifierStrategy } from '../../../../src/util/identifiers/SingleRootIdentifierStrategy';
+import { joinFilePath } from '../../../../src/util/PathUtil';
+import { AS } from '../../../../src/util/Vocabularies';
+import { getTestFolder, removeFolder } from '../../../integration/Config';
+
+jest.mock('../../../../src/logging/LogUtil', (): any => {
+  const logger: Logger = { info: jest.fn(), debug: jest.fn(), warn: jest.fn(), error: jest.fn() } as any;
+  return { getLoggerFor: (): Logger => logger };
+});
+
+jest.mock('chokidar', (): any => ({
+  watch: jest.fn(),
+}));
+
+const rootFilePath = getTestFolder('FileSystemWatcher');
+
+function path(relative: string): string {
+  return joinFilePath(rootFilePath, relative);
+}
+
+describe('A FileSystemWatcher', (): void => {
+  const baseUrl = 'http://test.com/';
+  const past = new Date('2000-01-01');
+  const logger = getLoggerFor('test');
+  let source: EventEmitter & { close: jest.Mock };
+  let emitter: EventEmitter;
+  let events: [ string, string ][];
+  let mapper: ExtensionBasedMapper;
+  let watcher: FileSystemWatcher;
+
+  function emitEvent(event: string, relative: string): void {
+    source.emit('all', event, path(relative));
+  }
+
+  beforeEach(async(): Promise<void> => {
+    await outputFile(path('document.ttl'), '<a:a> <a:b> <a:c>.');
+    await mkdirs(path('container/'));
+    await utimes(rootFilePath, past, past);
+
+    source = Object.assign(new EventEmitter(), { close: jest.fn() });
+    (watch as jest.Mock).mockImplementation((): any => {
+      setImmediate((): boolean => source.emit('ready'));
+      return source;
+    });
+
+    emitter = new EventEmitter();
+    events = [];
+    emitter.on('changed', (topic: ResourceIdentifier, activity: NamedNode): void => {
+      events.push([ activity.value, topic.path ]);
+    });
+
+    mapper = new ExtensionBasedMapper(baseUrl, rootFilePath);
+    watcher = new FileSystemWatcher({
+      rootFilePath,
+      mapper,
+      identifierStrategy: new SingleRootIdentifierStrategy(baseUrl),
+      emitter,
+    });
+    await watcher.handleSafe();
+  });
+
+  afterEach(async(): Promise<void> => {
+    await watcher.finalize();
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+    await removeFolder(rootFilePath);
+  });
+
+  it('watches the root folder, except for the internal data.', async(): Promise<void> => {
+    expect(watch).toHaveBeenCalledTimes(1);
+    expect(watch).toHaveBeenLastCalledWith(rootFilePath, { ignoreInitial: true, ignored: expect.any(Function) });
+    const { ignored } = (watch as jest.Mock).mock.calls[0][1];
+    expect(ignored(rootFilePath)).toBe(false);
+    expect(ignored(path('document.ttl'))).toBe(false);
+    expect(ignored(path('.internal'))).toBe(true);
+    expect(ignored(path('.internal/locks/lock'))).toBe(true);
+    expect(ignored(path('.internal-data'))).toBe(false);
+
+    // Only starts watching once
+    await watcher.handleSafe();
+    expect(watch).toHaveBeenCalledTimes(1);
+  });
+
+  it('emits the same events as a MonitoringStore once the changes are finished.', async(): Promise<void> => {
+    const create = jest.fn();
+    emitter.on(AS.Create, create);
+    watcher = new FileSystemWatcher({
+      rootFilePath,
+      mapper,
+      identifierStrategy: new SingleRootIdentifierStrategy(baseUrl),
+      emitter,
+      delay: 10,
+    });
+    await watcher.handleSafe();
+
+    await outputFile(path('new.txt'), 'text');
+    emitEvent('add', 'new.txt');
+    emitEvent('change', 'new.txt');
+    expect(events).toHaveLength(0);
+
+    await new Promise((resolve): any => setTimeout(resolve, 200));
+    expect(events).toEqual([
+      [ AS.Create, `${baseUrl}new.txt` ],
+      [ AS.Update, baseUrl ],
+    ]);
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(create).toHaveBeenLastCalledWith({ path: `${baseUrl}new.txt` });
+  });
+
+  it('emits the remaining changes when finalized.', async(): Promise<void> => {
+    await outputFile(path('new.txt'), 'text');
+    emitEvent('add', 'new.txt');
+    await watcher.finalize();
+
+    expect(source.close).toHaveBeenCalledTimes(1);
+    expect(events).toEqual([
+      [ AS.Create, `${baseUrl}new.txt` ],
+      [ AS.Update, baseUrl ],
+    ]);
+  });
+
+  it('updates the modified date of the parent folder when a resource is created.', async(): Promise<void> => {
+    await outputFile(path('new.txt'), 'text');
+    await utimes(rootFilePath, past, past);
+    emitEvent('add', 'new.txt');
+    await watcher.finalize();
+    expect((await stat(rootFilePath)).mtime.getTime()).toBeGreaterThan(past.getTime());
+  });
+
+  it('emits an update when a document changes.', async(): Promise<void> => {
+    emitEvent('change', 'document.ttl');
+    await watcher.finalize();
+    expect(events).toEqual([[ AS.Update, `${baseUrl}document.ttl` ]]);
+    expect((await stat(rootFilePath)).mtime).toEqual(past);
+  });
+
+  it('emits a delete when a document is removed.', async(): Promise<void> => {
+    await remove(path('document.ttl'));
+    emitEvent('unlink', 'document.ttl');
+    await watcher.finalize();
+    expect(events).toEqual([
+      [ AS.Delete, `${baseUrl}document.ttl` ],
+      [ AS.Update, baseUrl ],
+    ]);
+  });
+
+  it('emits events for containers.', async(): Promise<void> => {
+    await mkdirs(path('container/nested/'));
+    emitEvent('addDir', 'container/nested');
+    await remove(path('container/'));
+    emitEvent('unlinkDir', 'container');
+    await watcher.finalize();
+    expect(events).toEqual([
+      [ AS.Delete, `${baseUrl}container/` ],
+      [ AS.Update, baseUrl ],
+    ]);
+  });
+
+  it('combines the changes to the same resource.', async(): Promise<void> => {
+    // Replaced by an editor
+    emitEvent('unlink', 'document.ttl');
+    emitEvent('add', 'document.ttl');
+    // Temporary file
+    emitEvent('add', 'temp.txt');
+    emitEvent('unlink', 'temp.txt');
+    await watcher.finalize();
+    expect(events).toEqual([[ AS.Update, `${baseUrl}document.ttl` ]]);
+  });
+
+  it('emits an update of the subject when its metadata changes.', async(): Promise<void> => {
+    await outputFile(path('container/.meta'), '<> <a:b> "container".');
+    emitEvent('add', 'container/.meta');
+    await outputFile(path('missing.ttl.meta'), '<> <a:b> "missing".');
+    emitEvent('add', 'missing.ttl.meta');
+    await watcher.finalize();
+    expect(events).toEqual([[ AS.Update, `${baseUrl}container/` ]]);
+  });
+
+  it('uses the data events to determine if a resource was created together with its metadata.',
+    async(): Promise<void> => {
+      await outputFile(path('new.ttl'), '<a:a> <a:b> <a:c>.');
+      await outputFile(path('new.ttl.meta'), '<> <a:b> "new".');
+      emitEvent('add', 'new.ttl.meta');
+      emitEvent('add', 'new.ttl');
+      await watcher.finalize();
+      expect(events).toEqual([
+        [ AS.Create, `${baseUrl}new.ttl` ],
+        [ AS.Update, baseUrl ],
+      ]);
+    });
+
+  it('ignores the changes made by the server.', async(): Promise<void> => {
+    emitEvent('change', 'document.ttl');
+    emitter.emit('changed', { path: `${baseUrl}document.ttl` }, AS.terms.Update);
+    events.length = 0;
+    await watcher.finalize();
+    expect(events).toHaveLength(0);
+  });
+
+  it('does not confuse the events it emits itself with changes made by the server.', async(): Promise<void> => {
+    emitEvent('change', 'document.ttl');
+    await watcher.finalize();
+    await watcher.handleSafe();
+    emitEvent('change', 'document.ttl');
+    await watcher.finalize();
+    expect(events).toEqual([
+      [ AS.Update, `${baseUrl}document.ttl` ],
+      [ AS.Update, `${baseUrl}document.ttl` ],
+    ]);
+  });
+
+  it('forgets the changes made by the server after a while.', async(): Promise<void> => {
+    watcher = new FileSystemWatcher({
+      rootFilePath,
+      mapper,
+      identifierStrategy: new SingleRootIdentifierStrategy(baseUrl),
+      emitter,
+      delay: 10,
+    });
+    await watcher.handleSafe();
+    let now = 0;
+    jest.spyOn(Date, 'now').mockImplementation((): number => {
+      now += 1;
+      return now;
+    });
+    emitter.emit('changed', { path: `${baseUrl}document.ttl` }, AS.terms.Update);
+    emitter.emit('changed', { path: `${baseUrl}document.ttl` }, AS.terms.Update);
+    events.length = 0;
+    await new Promise((resolve): any => setTimeout(resolve, 100));
+
+    now = 1000;
+    emitEvent('change', 'document.ttl');
+    await watcher.finalize();
+    expect(events).toEqual([[ AS.Update, `${baseUrl}document.ttl` ]]);
+  });
+
+  it('still emits the events if the parent folder was removed as well.', async(): Promise<void> => {
+    await outputFile(path('container/nested.txt'), 'text');
+    await remove(path('container/'));
+    emitEvent('unlink', 'container/nested.txt');
+    await watcher.finalize();
+    expect(events).toEqual([
+      [ AS.Delete, `${baseUrl}container/nested.txt` ],
+      [ AS.Update, `${baseUrl}container/` ],
+    ]);
+  });
+
+  it('logs the errors that occur.', async(): Promise<void> => {
+    jest.spyOn(mapper, 'mapFilePathToUrl').mockRejectedValueOnce(new Error('bad path'));
+    emitEvent('change', 'document.ttl');
+    await watcher.finalize();
+    expect(logger.warn).toHaveBeenLastCalledWith(`Unable to handle the change to ${path('document.ttl')}: bad path`);
+
+    await watcher.handleSafe();
+    emitter.on('changed', (): never => {
+      throw new Error('bad listener');
+    });
+    emitEvent('change', 'document.ttl');
+    await watcher.finalize();
+    expect(logger.warn)
+      .toHaveBeenLastCalledWith(`Unable to emit the change to ${baseUrl}document.ttl: bad listener`);
+
+    await watcher.handleSafe();
+    source.emit('error', new Error('bad watcher'));
+    expect(logger.error).toHaveBeenLastCalledWith(`Error while watching ${rootFilePath}: bad watcher`);
+  });
+});
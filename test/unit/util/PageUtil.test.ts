@@ -0,0 +1,33 @@
+import { selectPage } from '../../../src/util/PageUtil';
+
+const entries = [ 'e', 'b', 'g', 'a', 'f', 'c', 'd' ];
+
+function getPath(entry: string): string {
+  return entry;
+}
+
+async function* generate(): AsyncIterable<{ path: string }> {
+  for (const entry of entries) {
+    yield { path: entry };
+  }
+}
+
+describe('PageUtil', (): void => {
+  describe('#selectPage', (): void => {
+    it('returns the first entries in order.', async(): Promise<void> => {
+      await expect(selectPage(entries, getPath, { limit: 3 })).resolves.toEqual([ 'a', 'b', 'c' ]);
+      await expect(selectPage(entries, getPath, { limit: 10 })).resolves.toEqual([ 'a', 'b', 'c', 'd', 'e', 'f', 'g' ]);
+    });
+
+    it('only returns the entries after the start of the page.', async(): Promise<void> => {
+      await expect(selectPage(entries, getPath, { limit: 3, after: 'c' })).resolves.toEqual([ 'd', 'e', 'f' ]);
+      await expect(selectPage(entries, getPath, { limit: 3, after: 'bb' })).resolves.toEqual([ 'c', 'd', 'e' ]);
+      await expect(selectPage(entries, getPath, { limit: 3, after: 'g' })).resolves.toEqual([]);
+    });
+
+    it('supports async iterables.', async(): Promise<void> => {
+      await expect(selectPage(generate(), (entry): string => entry.path, { limit: 2, after: 'e' }))
+        .resolves.toEqual([{ path: 'f' }, { path: 'g' }]);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { RepresentationMetadata } from '../../../src/http/representation/RepresentationMetadata';
+import { addRangeMetadata, getContentRange, matchesIfRange, resolveRange } from '../../../src/util/RangeUtil';
+import { updateModifiedDate } from '../../../src/util/ResourceUtil';
+import { POSIX, SOLID_HTTP, SOLID_META } from '../../../src/util/Vocabularies';
+
+describe('RangeUtil', (): void => {
+  describe('#resolveRange', (): void => {
+    it('resolves ranges with a start and end.', async(): Promise<void> => {
+      expect(resolveRange({ start: 10, end: 19 }, 100)).toEqual({ start: 10, end: 19 });
+      expect(resolveRange({ start: 10, end: 200 }, 100)).toEqual({ start: 10, end: 99 });
+    });
+
+    it('resolves ranges without end.', async(): Promise<void> => {
+      expect(resolveRange({ start: 10 }, 100)).toEqual({ start: 10, end: 99 });
+    });
+
+    it('resolves suffix ranges.', async(): Promise<void> => {
+      expect(resolveRange({ start: -10 }, 100)).toEqual({ start: 90, end: 99 });
+      expect(resolveRange({ start: -200 }, 100)).toEqual({ start: 0, end: 99 });
+    });
+
+    it('returns undefined if the range can not be satisfied.', async(): Promise<void> => {
+      expect(resolveRange({ start: 100 }, 100)).toBeUndefined();
+      expect(resolveRange({ start: -10 }, 0)).toBeUndefined();
+    });
+  });
+
+  describe('#matchesIfRange', (): void => {
+    const date = new Date('2022-01-01T00:00:00.000Z');
+    let metadata: RepresentationMetadata;
+
+    beforeEach(async(): Promise<void> => {
+      metadata = new RepresentationMetadata();
+      updateModifiedDate(metadata, date);
+    });
+
+    it('matches if there is no If-Range value.', async(): Promise<void> => {
+      expect(matchesIfRange(metadata)).toBe(true);
+    });
+
+    it('compares ETags.', async(): Promise<void> => {
+      expect(matchesIfRange(metadata, `"${date.getTime()}"`)).toBe(true);
+      expect(matchesIfRange(metadata, '"1234"')).toBe(false);
+      expect(matchesIfRange(metadata, `W/"${date.getTime()}"`)).toBe(false);
+    });
+
+    it('compares dates.', async(): Promise<void> => {
+      expect(matchesIfRange(metadata, date.toUTCString())).toBe(true);
+      expect(matchesIfRange(metadata, new Date(0).toUTCString())).toBe(false);
+      expect(matchesIfRange(new RepresentationMetadata(), date.toUTCString())).toBe(false);
+    });
+  });
+
+  describe('#addRangeMetadata', (): void => {
+    it('adds the range as response metadata.', async(): Promise<void> => {
+      const metadata = new RepresentationMetadata();
+      addRangeMetadata(metadata, { start: 10, end: 19 }, 100);
+      expect(metadata.get(SOLID_HTTP.terms.unit, SOLID_META.terms.ResponseMetadata)?.value).toBe('bytes');
+      expect(metadata.get(SOLID_HTTP.terms.start, SOLID_META.terms.ResponseMetadata)?.value).toBe('10');
+      expect(metadata.get(SOLID_HTTP.terms.end, SOLID_META.terms.ResponseMetadata)?.value).toBe('19');
+      expect(metadata.get(POSIX.terms.size, SOLID_META.terms.ResponseMetadata)?.value).toBe('100');
+    });
+  });
+
+  describe('#getContentRange', (): void => {
+    it('describes the range.', async(): Promise<void> => {
+      const metadata = new RepresentationMetadata();
+      addRangeMetadata(metadata, { start: 10, end: 19 }, 100);
+      expect(getContentRange(metadata)).toBe('bytes 10-19/100');
+
+      metadata.removeAll(POSIX.terms.size);
+      expect(getContentRange(metadata)).toBe('bytes 10-19/*');
+    });
+
+    it('only describes the size if there is no range.', async(): Promise<void> => {
+      const metadata = new RepresentationMetadata({ [SOLID_HTTP.unit]: 'bytes', [POSIX.size]: '100' });
+      expect(getContentRange(metadata)).toBe('bytes */100');
+
+      metadata.removeAll(POSIX.terms.size);
+      expect(getContentRange(metadata)).toBeUndefined();
+    });
+
+    it('returns undefined if there is no unit.', async(): Promise<void> => {
+      expect(getContentRange(new RepresentationMetadata())).toBeUndefined();
+    });
+  });
+});
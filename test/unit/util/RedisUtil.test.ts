@@ -0,0 +1,28 @@
+import Redis from 'ioredis';
+import { createRedisClient } from '../../../src/util/RedisUtil';
+
+jest.mock('ioredis', (): any => jest.fn());
+
+describe('RedisUtil', (): void => {
+  describe('#createRedisClient', (): void => {
+    beforeEach(async(): Promise<void> => {
+      jest.clearAllMocks();
+    });
+
+    it('creates a client for a port number.', async(): Promise<void> => {
+      expect(createRedisClient('6379')).toBeInstanceOf(Redis);
+      expect(Redis).toHaveBeenLastCalledWith(6379, undefined);
+    });
+
+    it('creates a client for a host and port number.', async(): Promise<void> => {
+      expect(createRedisClient('localhost:6380')).toBeInstanceOf(Redis);
+      expect(Redis).toHaveBeenLastCalledWith(6380, 'localhost');
+    });
+
+    it('errors on invalid input.', async(): Promise<void> => {
+      expect((): Redis => createRedisClient('wrongRedisString'))
+        .toThrow('Invalid data provided to create a Redis client: wrongRedisString');
+      expect((): Redis => createRedisClient('')).toThrow('Empty redisClientString provided!');
+    });
+  });
+});
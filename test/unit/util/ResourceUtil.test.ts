@@ -1,10 +1,23 @@
 import 'jest-rdf';
 import type { NamedNode, Literal } from 'n3';
+import { DataFactory } from 'n3';
 import { BasicRepresentation } from '../../../src/http/representation/BasicRepresentation';
 import type { Representation } from '../../../src/http/representation/Representation';
 import { RepresentationMetadata } from '../../../src/http/representation/RepresentationMetadata';
-import { addTemplateMetadata, cloneRepresentation, updateModifiedDate } from '../../../src/util/ResourceUtil';
-import { CONTENT_TYPE_TERM, DC, SOLID_META, XSD } from '../../../src/util/Vocabularies';
+import { BasicConditions } from '../../../src/storage/BasicConditions';
+import { getETag } from '../../../src/storage/Conditions';
+import { PreconditionFailedHttpError } from '../../../src/util/errors/PreconditionFailedHttpError';
+import {
+  addTemplateMetadata,
+  cloneRepresentation,
+  deserializeRepresentation,
+  matchesReadConditions,
+  serializeRepresentation,
+  updateModifiedDate,
+} from '../../../src/util/ResourceUtil';
+import { readableToString } from '../../../src/util/StreamUtil';
+import { CONTENT_TYPE_TERM, DC, RDF, SOLID_META, XSD } from '../../../src/util/Vocabularies';
+const { namedNode, quad } = DataFactory;
 
 describe('ResourceUtil', (): void => {
   let representation: Representation;
@@ -59,4 +72,75 @@ describe('ResourceUtil', (): void => {
       expect(representation.metadata.contentType).not.toBe(res.metadata.contentType);
     });
   });
+
+  describe('#matchesReadConditions', (): void => {
+    let eTag: string;
+
+    beforeEach(async(): Promise<void> => {
+      representation.metadata.add(SOLID_META.terms.contentDigest, 'abc123');
+      eTag = getETag(representation.metadata)!;
+    });
+
+    it('returns true if there are no conditions or they are satisfied.', async(): Promise<void> => {
+      expect(matchesReadConditions(representation)).toBe(true);
+      expect(matchesReadConditions(representation, new BasicConditions({ matchesETag: [ eTag ]}))).toBe(true);
+      expect(representation.data.destroyed).toBe(false);
+    });
+
+    it('returns false if the client already has the representation.', async(): Promise<void> => {
+      expect(matchesReadConditions(representation, new BasicConditions({ notMatchesETag: [ eTag ]}))).toBe(false);
+      expect(representation.data.destroyed).toBe(true);
+    });
+
+    it('compares the ETags to those of the specific representation.', async(): Promise<void> => {
+      const conditions = new BasicConditions({ notMatchesETag: [ '"abc123-text/turtle"' ]});
+      expect(matchesReadConditions(representation, conditions)).toBe(true);
+    });
+
+    it('throws an error if the If-Match or If-Unmodified-Since conditions fail.', async(): Promise<void> => {
+      const conditions = new BasicConditions({ matchesETag: [ '"def456-meta/data"' ], notMatchesETag: [ eTag ]});
+      expect((): boolean => matchesReadConditions(representation, conditions)).toThrow(PreconditionFailedHttpError);
+      expect(representation.data.destroyed).toBe(true);
+    });
+  });
+
+  describe('#serializeRepresentation', (): void => {
+    it('stores the data and metadata of binary representations.', async(): Promise<void> => {
+      representation = new BasicRepresentation([ 'da', Buffer.from('ta') ], { path: 'http://test.com/foo' }, 'text/plain');
+      representation.metadata.add(RDF.terms.type, namedNode('http://test.com/Type'));
+      representation.metadata.add(DC.terms.modified, 'now', SOLID_META.terms.ResponseMetadata);
+      const result = await serializeRepresentation(representation);
+      expect(result.contentType).toBe('text/plain');
+      expect(Buffer.from(result.data, 'base64').toString()).toBe('data');
+      expect(result.metadata).toContain('<http://www.w3.org/1999/02/22-rdf-syntax-ns#type> <http://test.com/Type>');
+      expect(result.metadata).not.toContain('now');
+    });
+
+    it('serializes quad streams as Turtle.', async(): Promise<void> => {
+      const quads = [ quad(namedNode('http://test.com/s'), namedNode('http://test.com/p'), namedNode('http://test.com/o')) ];
+      representation = new BasicRepresentation(quads, 'internal/quads', false);
+      const result = await serializeRepresentation(representation);
+      expect(result.contentType).toBe('text/turtle');
+      expect(Buffer.from(result.data, 'base64').toString()).toContain('<http://test.com/s> <http://test.com/p>');
+    });
+  });
+
+  describe('#deserializeRepresentation', (): void => {
+    it('reverts the serialization.', async(): Promise<void> => {
+      representation = new BasicRepresentation('data', { path: 'http://test.com/foo' }, 'text/plain');
+      representation.metadata.add(RDF.terms.type, namedNode('http://test.com/Type'));
+      const result = deserializeRepresentation({ path: 'http://test.com/foo' },
+        await serializeRepresentation(representation));
+      expect(result.metadata.identifier.value).toBe('http://test.com/foo');
+      expect(result.metadata.contentType).toBe('text/plain');
+      expect(result.metadata.get(RDF.terms.type)?.value).toBe('http://test.com/Type');
+      await expect(readableToString(result.data)).resolves.toBe('data');
+    });
+
+    it('supports empty representations.', async(): Promise<void> => {
+      const result = deserializeRepresentation({ path: 'http://test.com/foo/' }, { data: '', metadata: '' });
+      expect(result.metadata.contentType).toBeUndefined();
+      await expect(readableToString(result.data)).resolves.toBe('');
+    });
+  });
 });
@@ -11,10 +11,11 @@ import { NotFoundHttpError } from '../../../../src/util/errors/NotFoundHttpError
 import { NotImplementedHttpError } from '../../../../src/util/errors/NotImplementedHttpError';
 import { PayloadHttpError } from '../../../../src/util/errors/PayloadHttpError';
 import { PreconditionFailedHttpError } from '../../../../src/util/errors/PreconditionFailedHttpError';
+import { RangeNotSatisfiableHttpError } from '../../../../src/util/errors/RangeNotSatisfiableHttpError';
 import { UnauthorizedHttpError } from '../../../../src/util/errors/UnauthorizedHttpError';
 import { UnprocessableEntityHttpError } from '../../../../src/util/errors/UnprocessableEntityHttpError';
 import { UnsupportedMediaTypeHttpError } from '../../../../src/util/errors/UnsupportedMediaTypeHttpError';
-import { SOLID_ERROR } from '../../../../src/util/Vocabularies';
+import { POSIX, SOLID_ERROR, SOLID_HTTP, XSD } from '../../../../src/util/Vocabularies';
 const { literal, namedNode, quad } = DataFactory;
 
 describe('HttpError', (): void => {
@@ -111,4 +112,36 @@ describe('HttpError', (): void => {
       ]);
     });
   });
+
+  // Separate test due to different constructor
+  describe('RangeNotSatisfiableHttpError', (): void => {
+    const options = {
+      cause: new Error('cause'),
+      errorCode: 'E1234',
+      details: { some: 'detail' },
+    };
+    const instance = new RangeNotSatisfiableHttpError(100, 'my message', options);
+
+    it('is valid.', async(): Promise<void> => {
+      expect(new RangeNotSatisfiableHttpError().size).toBeUndefined();
+      expect(RangeNotSatisfiableHttpError.isInstance(instance)).toBe(true);
+      expect(RangeNotSatisfiableHttpError.uri).toEqualRdfTerm(generateHttpErrorUri(416));
+      expect(instance.name).toBe('RangeNotSatisfiableHttpError');
+      expect(instance.statusCode).toBe(416);
+      expect(instance.message).toBe('my message');
+      expect(instance.cause).toBe(options.cause);
+      expect(instance.errorCode).toBe(options.errorCode);
+      expect(new RangeNotSatisfiableHttpError(100).errorCode).toBe(`H${416}`);
+
+      const subject = namedNode('subject');
+      expect(instance.generateMetadata(subject)).toBeRdfIsomorphic([
+        quad(subject, SOLID_ERROR.terms.errorResponse, RangeNotSatisfiableHttpError.uri),
+        quad(subject, SOLID_HTTP.terms.unit, literal('bytes')),
+        quad(subject, POSIX.terms.size, literal(100, XSD.terms.integer)),
+      ]);
+      expect(new RangeNotSatisfiableHttpError().generateMetadata(subject)).toBeRdfIsomorphic([
+        quad(subject, SOLID_ERROR.terms.errorResponse, RangeNotSatisfiableHttpError.uri),
+      ]);
+    });
+  });
 });
@@ -0,0 +1,102 @@
+import { EventEmitter } from 'events';
+import { DataFactory } from 'n3';
+import type { Logger } from '../../../../src/logging/Logger';
+import { getLoggerFor } from '../../../../src/logging/LogUtil';
+import { ActivityRelay } from '../../../../src/util/events/ActivityRelay';
+import type { EventBus } from '../../../../src/util/events/EventBus';
+import { AS } from '../../../../src/util/Vocabularies';
+import { flushPromises } from '../../../util/Util';
+
+jest.mock('../../../../src/logging/LogUtil', (): any => {
+  const logger: Logger = { error: jest.fn() } as any;
+  return { getLoggerFor: (): Logger => logger };
+});
+
+describe('An ActivityRelay', (): void => {
+  const logger: jest.Mocked<Logger> = getLoggerFor('mock') as any;
+  const topic = { path: 'http://example.com/foo' };
+  let listener: (message: unknown) => void;
+  let source: EventEmitter;
+  let bus: jest.Mocked<EventBus>;
+  let changed: jest.Mock;
+  let created: jest.Mock;
+  let relay: ActivityRelay;
+
+  beforeEach(async(): Promise<void> => {
+    jest.clearAllMocks();
+    source = new EventEmitter();
+
+    bus = {
+      publish: jest.fn().mockResolvedValue(undefined),
+      subscribe: jest.fn(async(input): Promise<void> => {
+        listener = input;
+      }),
+    };
+
+    relay = new ActivityRelay(source, bus);
+    await relay.initialize();
+
+    changed = jest.fn();
+    created = jest.fn();
+    relay.on('changed', changed);
+    relay.on(AS.Create, created);
+  });
+
+  it('emits and publishes the changed events of the source.', async(): Promise<void> => {
+    source.emit('changed', topic, AS.terms.Create);
+    expect(changed).toHaveBeenCalledTimes(1);
+    expect(changed).toHaveBeenLastCalledWith(topic, AS.terms.Create);
+    expect(created).toHaveBeenCalledTimes(1);
+    expect(created).toHaveBeenLastCalledWith(topic);
+    expect(bus.publish).toHaveBeenCalledTimes(1);
+    expect(bus.publish).toHaveBeenLastCalledWith({ topic: topic.path, activity: AS.Create });
+
+    source.emit('changed', topic);
+    expect(changed).toHaveBeenCalledTimes(2);
+    expect(changed).toHaveBeenLastCalledWith(topic, undefined);
+    expect(created).toHaveBeenCalledTimes(1);
+    expect(bus.publish).toHaveBeenCalledTimes(2);
+    expect(bus.publish).toHaveBeenLastCalledWith({ topic: topic.path });
+  });
+
+  it('logs an error if an event could not be published.', async(): Promise<void> => {
+    bus.publish.mockRejectedValueOnce(new Error('bad data'));
+    source.emit('changed', topic, AS.terms.Create);
+    await flushPromises();
+    expect(changed).toHaveBeenCalledTimes(1);
+    expect(logger.error).toHaveBeenCalledTimes(1);
+    expect(logger.error).toHaveBeenLastCalledWith(`Unable to share change event of ${topic.path}: bad data`);
+  });
+
+  it('emits the events received from the bus without publishing them again.', async(): Promise<void> => {
+    listener({ topic: topic.path, activity: AS.Create });
+    expect(changed).toHaveBeenCalledTimes(1);
+    expect(changed).toHaveBeenLastCalledWith(topic, DataFactory.namedNode(AS.Create));
+    expect(created).toHaveBeenCalledTimes(1);
+    expect(created).toHaveBeenLastCalledWith(topic);
+
+    listener({ topic: topic.path });
+    expect(changed).toHaveBeenCalledTimes(2);
+    expect(changed).toHaveBeenLastCalledWith(topic, undefined);
+    expect(bus.publish).toHaveBeenCalledTimes(0);
+  });
+
+  it('only emits activity events for the activities the MonitoringStore emits.', async(): Promise<void> => {
+    const activity = 'https://www.w3.org/ns/activitystreams#Add';
+    const added = jest.fn();
+    relay.on(activity, added);
+    listener({ topic: topic.path, activity });
+    expect(changed).toHaveBeenCalledTimes(1);
+    expect(added).toHaveBeenCalledTimes(0);
+  });
+
+  it('only emits the events of the source if there is no bus.', async(): Promise<void> => {
+    relay = new ActivityRelay(source);
+    await expect(relay.initialize()).resolves.toBeUndefined();
+    relay.on('changed', changed);
+    source.emit('changed', topic, AS.terms.Create);
+    // Called once by the original relay and once by the new one
+    expect(changed).toHaveBeenCalledTimes(2);
+    expect(bus.publish).toHaveBeenCalledTimes(1);
+  });
+});
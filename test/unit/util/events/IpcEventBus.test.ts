@@ -0,0 +1,80 @@
+import { IpcEventBus } from '../../../../src/util/events/IpcEventBus';
+
+jest.mock('cluster');
+
+function createWorker(connected: boolean): any {
+  return { send: jest.fn(), isConnected: (): boolean => connected };
+}
+
+describe('An IpcEventBus', (): void => {
+  const message = { topic: 'http://example.com/foo' };
+  const ipcMessage = { type: 'solid-server:event-bus', message };
+  const mockCluster = jest.requireMock('cluster');
+  let originalSend: typeof process.send;
+  let bus: IpcEventBus;
+
+  beforeEach(async(): Promise<void> => {
+    originalSend = process.send;
+    process.send = jest.fn();
+    mockCluster.on = jest.fn();
+    bus = new IpcEventBus();
+  });
+
+  afterEach(async(): Promise<void> => {
+    process.send = originalSend;
+    process.removeAllListeners('message');
+  });
+
+  it('sends published messages to the primary process.', async(): Promise<void> => {
+    await expect(bus.publish(message)).resolves.toBeUndefined();
+    expect(process.send).toHaveBeenCalledTimes(1);
+    expect(process.send).toHaveBeenLastCalledWith(ipcMessage);
+  });
+
+  it('discards published messages if there is no primary process.', async(): Promise<void> => {
+    process.send = undefined;
+    await expect(bus.publish(message)).resolves.toBeUndefined();
+  });
+
+  it('calls the listeners with the messages received from the primary process.', async(): Promise<void> => {
+    const listener = jest.fn();
+    await expect(bus.subscribe(listener)).resolves.toBeUndefined();
+    process.emit('message', ipcMessage, undefined);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenLastCalledWith(message);
+
+    process.emit('message', 'other message', undefined);
+    process.emit('message', null, undefined);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not listen for messages if there is no primary process.', async(): Promise<void> => {
+    process.send = undefined;
+    await expect(bus.subscribe(jest.fn())).resolves.toBeUndefined();
+    expect(process.listenerCount('message')).toBe(0);
+  });
+
+  it('forwards messages to all other connected workers in the primary process.', async(): Promise<void> => {
+    const sender = createWorker(true);
+    const receiver = createWorker(true);
+    const disconnected = createWorker(false);
+    mockCluster.workers = { 1: sender, 2: receiver, 3: disconnected, 4: undefined };
+
+    await expect(bus.handle()).resolves.toBeUndefined();
+    expect(mockCluster.on).toHaveBeenCalledTimes(1);
+    expect(mockCluster.on).toHaveBeenLastCalledWith('message', expect.any(Function));
+    const forward = mockCluster.on.mock.calls[0][1];
+    forward(sender, ipcMessage);
+    expect(sender.send).toHaveBeenCalledTimes(0);
+    expect(receiver.send).toHaveBeenCalledTimes(1);
+    expect(receiver.send).toHaveBeenLastCalledWith(ipcMessage);
+    expect(disconnected.send).toHaveBeenCalledTimes(0);
+
+    forward(sender, 'other message');
+    expect(receiver.send).toHaveBeenCalledTimes(1);
+
+    mockCluster.workers = undefined;
+    forward(sender, ipcMessage);
+    expect(receiver.send).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,86 @@
+import type { EventEmitter } from 'events';
+import type { Logger } from '../../../../src/logging/Logger';
+import { getLoggerFor } from '../../../../src/logging/LogUtil';
+import { RedisEventBus } from '../../../../src/util/events/RedisEventBus';
+
+jest.mock('../../../../src/logging/LogUtil', (): any => {
+  const logger: Logger = { warn: jest.fn() } as any;
+  return { getLoggerFor: (): Logger => logger };
+});
+
+const clients: any[] = [];
+jest.mock('ioredis', (): any => jest.fn().mockImplementation((): any => {
+  const events = jest.requireActual('events');
+  const client = new events.EventEmitter();
+  client.publish = jest.fn();
+  client.subscribe = jest.fn();
+  client.quit = jest.fn();
+  clients.push(client);
+  return client;
+}));
+
+describe('A RedisEventBus', (): void => {
+  const logger: jest.Mocked<Logger> = getLoggerFor('mock') as any;
+  const channel = 'solid-server:event-bus';
+  const message = { topic: 'http://example.com/foo' };
+  let publisher: any;
+  let subscriber: EventEmitter & Record<string, jest.Mock>;
+  let bus: RedisEventBus;
+
+  beforeEach(async(): Promise<void> => {
+    jest.clearAllMocks();
+    clients.length = 0;
+    bus = new RedisEventBus();
+    [ publisher, subscriber ] = clients;
+  });
+
+  it('publishes the messages on the Redis channel.', async(): Promise<void> => {
+    await expect(bus.publish(message)).resolves.toBeUndefined();
+    expect(publisher.publish).toHaveBeenCalledTimes(1);
+    expect(publisher.publish).toHaveBeenLastCalledWith(channel, expect.any(String));
+    expect(JSON.parse(publisher.publish.mock.calls[0][1])).toEqual({ origin: expect.any(String), message });
+  });
+
+  it('calls the listeners with the messages of other processes.', async(): Promise<void> => {
+    const listener = jest.fn();
+    await expect(bus.subscribe(listener)).resolves.toBeUndefined();
+    expect(subscriber.subscribe).toHaveBeenCalledTimes(1);
+    expect(subscriber.subscribe).toHaveBeenLastCalledWith(channel);
+
+    subscriber.emit('message', channel, JSON.stringify({ origin: 'other', message }));
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenLastCalledWith(message);
+
+    subscriber.emit('message', 'otherChannel', JSON.stringify({ origin: 'other', message }));
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores its own messages.', async(): Promise<void> => {
+    const listener = jest.fn();
+    await bus.subscribe(listener);
+    await bus.publish(message);
+    subscriber.emit('message', channel, publisher.publish.mock.calls[0][1]);
+    expect(listener).toHaveBeenCalledTimes(0);
+  });
+
+  it('logs a warning when receiving invalid messages.', async(): Promise<void> => {
+    const listener = jest.fn();
+    await bus.subscribe(listener);
+    subscriber.emit('message', channel, 'invalid');
+    expect(listener).toHaveBeenCalledTimes(0);
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+    expect(logger.warn.mock.calls[0][0]).toMatch(`Received invalid message on Redis channel ${channel}: `);
+  });
+
+  it('closes both connections when finalized.', async(): Promise<void> => {
+    await expect(bus.finalize()).resolves.toBeUndefined();
+    expect(publisher.quit).toHaveBeenCalledTimes(1);
+    expect(subscriber.quit).toHaveBeenCalledTimes(1);
+  });
+
+  it('can use a different Redis server and channel.', async(): Promise<void> => {
+    bus = new RedisEventBus('127.0.0.1:6380', 'channel');
+    await bus.publish(message);
+    expect(clients[2].publish).toHaveBeenLastCalledWith('channel', expect.any(String));
+  });
+});
@@ -0,0 +1,20 @@
+import { ArrayUnionHandler } from '../../../../src/util/handlers/ArrayUnionHandler';
+import type { AsyncHandler } from '../../../../src/util/handlers/AsyncHandler';
+
+describe('An ArrayUnionHandler', (): void => {
+  let handlers: jest.Mocked<AsyncHandler<any, number[]>>[];
+  let handler: ArrayUnionHandler<AsyncHandler<any, number[]>>;
+
+  beforeEach(async(): Promise<void> => {
+    handlers = [
+      { canHandle: jest.fn(), handle: jest.fn().mockResolvedValue([ 1, 2 ]) } as any,
+      { canHandle: jest.fn(), handle: jest.fn().mockResolvedValue([ 3, 4 ]) } as any,
+    ];
+
+    handler = new ArrayUnionHandler(handlers);
+  });
+
+  it('merges the array results.', async(): Promise<void> => {
+    await expect(handler.handle('input')).resolves.toEqual([ 1, 2, 3, 4 ]);
+  });
+});
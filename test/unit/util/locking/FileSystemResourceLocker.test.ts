@@ -110,6 +110,16 @@ describe('A FileSystemResourceLocker', (): void => {
     expect(results).toEqual([ 2, 3, 1 ]);
   });
 
+  it('does not share locks with lockers using a different folder.', async(): Promise<void> => {
+    const locker2 = new FileSystemResourceLocker({ rootFilePath, lockDirectory: '.internal/other-locks' });
+    await locker2.initialize();
+    await locker.acquire(identifier);
+    await expect(locker2.acquire(identifier)).resolves.toBeUndefined();
+    await expect(locker2.release(identifier)).resolves.toBeUndefined();
+    await expect(locker.release(identifier)).resolves.toBeUndefined();
+    await locker2.finalize();
+  });
+
   it('throws an error when #tryFn() throws an error.', async(): Promise<void> => {
     await locker.acquire(identifier);
     await expect(locker.acquire(identifier)).rejects.toThrow(InternalServerError);
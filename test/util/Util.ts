@@ -6,10 +6,15 @@ import Describe = jest.Describe;
 const portNames = [
   // Integration
   'Conditions',
+  'ContainerPaging',
   'ContentNegotiation',
+  'CountQuota',
   'DynamicPods',
+  'EncryptedStorage',
   'ExpiringDataCleanup',
   'FileBackend',
+  'FileSystemWatcher',
+  'GitStorage',
   'GlobalQuota',
   'Identity',
   'LpdHandlerWithAuth',
@@ -17,17 +22,30 @@ const portNames = [
   'Middleware',
   'N3Patch',
   'PermissionTable',
+  'PodArchive',
+  'PodArchive-target',
   'PodCreation',
   'PodQuota',
+  'PreferHeader',
+  'RangeRequests',
+  'RepresentationCache',
   'RedisLocker',
   'ResourceLockCleanup',
   'RestrictedIdentity',
+  'S3Storage',
   'SeedingPods',
   'ServerFetch',
   'SetupMemory',
   'SparqlStorage',
+  'StorageMigration',
   'Subdomains',
+  'Trash',
+  'Versioning',
+  'WebHookChannel2023',
+  'WebHookChannel2023-client',
+  'WebSocketChannel2023',
   'WebSocketsProtocol',
+  'WebSocketsProtocolWithAuth',
 
   // Unit
   'BaseHttpServerFactory',
@@ -127,8 +145,11 @@ export function mockFileSystem(rootFilepath?: string, time?: Date): { data: any
   }
 
   const mockFs = {
-    createReadStream(path: string): any {
+    createReadStream(path: string, options?: { start?: number; end?: number }): any {
       const { folder, name } = getFolder(path);
+      if (options) {
+        return Readable.from([ folder[name].slice(options.start, (options.end ?? Number.POSITIVE_INFINITY) + 1) ]);
+      }
       return Readable.from([ folder[name] ]);
     },
     createWriteStream(path: string): any {
@@ -271,8 +292,8 @@ export function mockFileSystem(rootFilepath?: string, time?: Date): { data: any
       // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
       delete folder[name];
     },
-    createReadStream(path: string): any {
-      return mockFs.createReadStream(path);
+    createReadStream(path: string, options?: { start?: number; end?: number }): any {
+      return mockFs.createReadStream(path, options);
     },
     createWriteStream(path: string): any {
       return mockFs.createWriteStream(path);